@@ -2,7 +2,14 @@
 module.exports = {
   projects: [
     '<rootDir>/packages/core',
+    '<rootDir>/packages/data-commentary',
+    '<rootDir>/packages/data-hexagrams',
     '<rootDir>/packages/hours',
+    '<rootDir>/packages/provider-location',
+    '<rootDir>/packages/provider-sexagenary',
+    '<rootDir>/packages/provider-solar-terms',
+    '<rootDir>/packages/provider-solar-time',
+    '<rootDir>/packages/provider-time',
   ],
   collectCoverageFrom: [
     'packages/*/src/**/*.{ts,tsx}',
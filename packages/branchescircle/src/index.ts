@@ -1,5 +1,5 @@
 import { Knowlet } from '@iching-kt/core';
-import { BranchesCircleView } from '@iching-kt/square';
+import { BranchesCircleView, squareMessages } from '@iching-kt/square';
 
 export const branchesCircleKnowlet: Knowlet = {
   meta: {
@@ -9,19 +9,26 @@ export const branchesCircleKnowlet: Knowlet = {
       en: 'Branches Circle',
       es: 'Círculo de Ramas',
       zh: '地支圓',
+      fr: 'Cercle des branches',
+      de: 'Zweigkreis',
+      pt: 'Círculo dos Ramos',
     },
     description: 'The twelve Earthly Branches arranged in a circle',
     descriptions: {
       en: 'The twelve Earthly Branches arranged in a circle',
       es: 'Las doce Ramas Terrestres dispuestas en un círculo',
       zh: '排列成圓形的十二個地支',
+      fr: 'Les douze Branches Terrestres disposées en cercle',
+      de: 'Die zwölf Erdzweige im Kreis angeordnet',
+      pt: 'Os doze Ramos Terrestres dispostos em círculo',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram', 'trigram', 'time'],
     produces: ['hexagram', 'trigram'],
     category: 'board',
   },
+  messages: squareMessages,
   View: BranchesCircleView,
 };
 
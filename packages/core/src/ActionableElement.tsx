@@ -7,7 +7,7 @@ import {
   StyleProp,
   View,
 } from 'react-native';
-import { OutputType, ColorScheme } from './types';
+import { OutputType, OutputPayload, ColorScheme } from './types';
 import { getAbstractColors } from './theme';
 
 /**
@@ -15,17 +15,17 @@ import { getAbstractColors } from './theme';
  */
 export type ActionType = 'emit' | 'navigate' | 'detail';
 
-export interface ActionableElementProps {
+export interface ActionableElementProps<T extends OutputType = OutputType> {
   /** The output type to emit on press */
-  outputType: OutputType;
-  /** The value to emit */
-  value: unknown;
+  outputType: T;
+  /** The value to emit, typed by outputType */
+  value: OutputPayload<T>;
   /** Label for the element (for accessibility) */
   label?: string;
   /** Callback when element is pressed (short tap) */
-  onPress?: (type: OutputType, value: unknown) => void;
+  onPress?: (type: T, value: OutputPayload<T>) => void;
   /** Callback when element is long-pressed */
-  onLongPress?: (type: OutputType, value: unknown) => void;
+  onLongPress?: (type: T, value: OutputPayload<T>) => void;
   /** Whether the element is currently active/highlighted */
   isActive?: boolean;
   /** Active background color (overrides colorScheme default) */
@@ -64,7 +64,7 @@ export interface ActionableElementProps {
  *   <Text>䷗</Text>
  * </ActionableElement>
  */
-export function ActionableElement({
+export function ActionableElement<T extends OutputType>({
   outputType,
   value,
   label,
@@ -78,7 +78,7 @@ export function ActionableElement({
   children,
   disabled = false,
   circular = false,
-}: ActionableElementProps) {
+}: ActionableElementProps<T>) {
   // Get theme-aware default colors
   const abstractColors = getAbstractColors(colorScheme);
   const resolvedActiveColor = activeColor ?? abstractColors.hexagram.activeColor;
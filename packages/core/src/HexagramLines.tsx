@@ -3,7 +3,7 @@ import { ColorScheme } from './types';
 import { getAbstractColors } from './theme';
 
 interface HexagramLinesProps {
-  /** Binary string representation (e.g., '111111' for hexagram 1) */
+  /** Binary string, bottom line first (e.g., '111111' for hexagram 1, '100010' for 3) */
   binary: string;
   /** Size of the hexagram (width) */
   size?: number;
@@ -80,6 +80,7 @@ export function HexagramLines({
 
 /**
  * Get binary representation for a hexagram based on upper and lower trigrams
+ * (bottom line first, so the lower trigram comes first)
  */
 export function getHexagramBinary(upperTrigram: string, lowerTrigram: string): string {
   const TRIGRAM_BINARY: Record<string, string> = {
@@ -96,7 +97,7 @@ export function getHexagramBinary(upperTrigram: string, lowerTrigram: string): s
   const upper = TRIGRAM_BINARY[upperTrigram] || '000';
   const lower = TRIGRAM_BINARY[lowerTrigram] || '000';
 
-  return upper + lower;
+  return lower + upper;
 }
 
 const styles = StyleSheet.create({
@@ -0,0 +1,596 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TextInput, Switch, Pressable, StyleSheet } from 'react-native';
+import type {
+  Knowlet,
+  KnowletSettings,
+  KnowletSettingsSchema,
+  KnowletSettingsViewProps,
+  SettingsLocation,
+  SettingsTime,
+  ValueSettingsField,
+} from './types';
+import { getThemeColors, ThemeColors } from './theme';
+import { localize } from './translations';
+import { getSettingsFields, isSettingVisible, isValidSettingValue } from './settings';
+
+export interface SettingsViewProps extends KnowletSettingsViewProps {
+  schema: KnowletSettingsSchema;
+}
+
+interface FieldProps<F extends ValueSettingsField = ValueSettingsField> {
+  id: string;
+  field: F;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  language: string;
+  colors: ThemeColors;
+}
+
+type FieldOf<T extends ValueSettingsField['type']> = Extract<ValueSettingsField, { type: T }>;
+
+interface ParsedInputProps {
+  testID: string;
+  value: unknown;
+  format: (value: unknown) => string;
+  /** Value of the text, or undefined while it does not read as one */
+  parse: (text: string) => unknown;
+  onChange: (value: unknown) => void;
+  colors: ThemeColors;
+  placeholder?: string;
+  keyboardType?: 'default' | 'numeric' | 'numbers-and-punctuation';
+}
+
+/**
+ * Text input that keeps what is typed, and reports a value once the text
+ * reads as one
+ */
+function ParsedInput({ testID, value, format, parse, onChange, colors, placeholder, keyboardType }: ParsedInputProps) {
+  const formatted = format(value);
+  const [text, setText] = useState(formatted);
+
+  useEffect(() => {
+    const current = parse(text);
+    if (current === undefined || format(current) !== formatted) setText(formatted);
+  }, [formatted]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    const parsed = parse(next);
+    if (parsed !== undefined) onChange(parsed);
+  };
+
+  return (
+    <TextInput
+      testID={testID}
+      style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+      value={text}
+      onChangeText={handleChange}
+      placeholder={placeholder}
+      placeholderTextColor={colors.textTertiary}
+      keyboardType={keyboardType}
+    />
+  );
+}
+
+/** Parse with read, keeping only values the field accepts */
+const parseFor = (field: ValueSettingsField, read: (text: string) => unknown) => (text: string) => {
+  const value = read(text.trim());
+  return isValidSettingValue(field, value) ? value : undefined;
+};
+
+const readNumber = (text: string) => (text === '' ? NaN : Number(text));
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+function BooleanField({ id, value, onChange, colors }: FieldProps<FieldOf<'boolean'>>) {
+  return (
+    <Switch
+      testID={`setting-${id}`}
+      value={value === true}
+      onValueChange={onChange}
+      trackColor={{ false: colors.border, true: colors.primary }}
+    />
+  );
+}
+
+function StringField({ id, value, onChange, colors }: FieldProps<FieldOf<'string'>>) {
+  return (
+    <TextInput
+      testID={`setting-${id}`}
+      style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+      value={typeof value === 'string' ? value : ''}
+      onChangeText={onChange}
+    />
+  );
+}
+
+function NumberField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'number'>>) {
+  return (
+    <ParsedInput
+      testID={`setting-${id}`}
+      value={value}
+      format={(v) => String(v ?? '')}
+      parse={parseFor(field, readNumber)}
+      onChange={onChange}
+      colors={colors}
+      keyboardType="numeric"
+    />
+  );
+}
+
+/**
+ * Stepper from min to max: React Native has no built-in slider
+ */
+function RangeField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'range'>>) {
+  const step = field.step ?? 1;
+  const current = typeof value === 'number' ? value : field.default;
+  // Round away float drift from repeated steps (0.1 + 0.2)
+  const stepTo = (next: number) => onChange(Number(Math.min(field.max, Math.max(field.min, next)).toFixed(10)));
+
+  return (
+    <View style={styles.stepper}>
+      <Pressable
+        testID={`setting-${id}-decrease`}
+        accessibilityRole="button"
+        accessibilityLabel="-"
+        disabled={current <= field.min}
+        style={[styles.stepButton, { borderColor: colors.border, opacity: current <= field.min ? 0.4 : 1 }]}
+        onPress={() => stepTo(current - step)}
+      >
+        <Text style={[styles.stepLabel, { color: colors.text }]}>−</Text>
+      </Pressable>
+      <Text testID={`setting-${id}`} style={[styles.stepValue, { color: colors.text }]}>
+        {current}
+      </Text>
+      <Pressable
+        testID={`setting-${id}-increase`}
+        accessibilityRole="button"
+        accessibilityLabel="+"
+        disabled={current >= field.max}
+        style={[styles.stepButton, { borderColor: colors.border, opacity: current >= field.max ? 0.4 : 1 }]}
+        onPress={() => stepTo(current + step)}
+      >
+        <Text style={[styles.stepLabel, { color: colors.text }]}>+</Text>
+      </Pressable>
+    </View>
+  );
+}
+
+interface OptionRowProps {
+  testID: string;
+  label: string;
+  selected: boolean;
+  /** Square box for multiple choice, round for single */
+  multiple: boolean;
+  onPress: () => void;
+  colors: ThemeColors;
+}
+
+function OptionRow({ testID, label, selected, multiple, onPress, colors }: OptionRowProps) {
+  return (
+    <Pressable
+      testID={testID}
+      accessibilityRole={multiple ? 'checkbox' : 'radio'}
+      accessibilityState={{ checked: selected }}
+      style={[
+        styles.option,
+        { borderColor: selected ? colors.primary : colors.border },
+        selected && { backgroundColor: colors.surfaceSecondary },
+      ]}
+      onPress={onPress}
+    >
+      <View
+        style={[
+          styles.radio,
+          multiple && styles.checkbox,
+          { borderColor: selected ? colors.primary : colors.textTertiary },
+        ]}
+      >
+        {selected && (
+          <View
+            testID={`${testID}-selected`}
+            style={[styles.radioInner, multiple && styles.checkboxInner, { backgroundColor: colors.primary }]}
+          />
+        )}
+      </View>
+      <Text style={[styles.optionLabel, { color: colors.text }]}>{label}</Text>
+    </Pressable>
+  );
+}
+
+function SelectField({ id, field, value, onChange, language, colors }: FieldProps<FieldOf<'select'>>) {
+  return (
+    <View style={styles.options}>
+      {(field.options ?? []).map((option) => (
+        <OptionRow
+          key={String(option.value)}
+          testID={`setting-${id}-${String(option.value)}`}
+          label={localize(option.label, language)}
+          selected={option.value === value}
+          multiple={false}
+          onPress={() => onChange(option.value)}
+          colors={colors}
+        />
+      ))}
+    </View>
+  );
+}
+
+/** Add or remove an item, keeping the order items were picked in */
+const toggle = (items: unknown[], item: unknown) =>
+  items.includes(item) ? items.filter((other) => other !== item) : [...items, item];
+
+function MultiselectField({ id, field, value, onChange, language, colors }: FieldProps<FieldOf<'multiselect'>>) {
+  const selected = Array.isArray(value) ? value : [];
+  return (
+    <View style={styles.options}>
+      {field.options.map((option) => (
+        <OptionRow
+          key={String(option.value)}
+          testID={`setting-${id}-${String(option.value)}`}
+          label={localize(option.label, language)}
+          selected={selected.includes(option.value)}
+          multiple
+          onPress={() => onChange(toggle(selected, option.value))}
+          colors={colors}
+        />
+      ))}
+    </View>
+  );
+}
+
+function ColorField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'color'>>) {
+  return (
+    <View style={styles.inline}>
+      <View
+        testID={`setting-${id}-swatch`}
+        style={[styles.swatch, { backgroundColor: String(value), borderColor: colors.border }]}
+      />
+      <View style={styles.inlineInput}>
+        <ParsedInput
+          testID={`setting-${id}`}
+          value={value}
+          format={(v) => String(v ?? '')}
+          parse={parseFor(field, (text) => text)}
+          onChange={onChange}
+          colors={colors}
+          placeholder="#rrggbb"
+        />
+      </View>
+    </View>
+  );
+}
+
+function TimeField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'time'>>) {
+  return (
+    <ParsedInput
+      testID={`setting-${id}`}
+      value={value}
+      format={(v) => {
+        const time = v as SettingsTime | undefined;
+        return time ? `${pad(time.hour)}:${pad(time.minute)}` : '';
+      }}
+      parse={parseFor(field, (text) => {
+        const match = /^(\d{1,2}):(\d{2})$/.exec(text);
+        return match ? { hour: Number(match[1]), minute: Number(match[2]) } : undefined;
+      })}
+      onChange={onChange}
+      colors={colors}
+      placeholder="HH:MM"
+      keyboardType="numbers-and-punctuation"
+    />
+  );
+}
+
+/**
+ * Latitude and longitude as "lat, long"; empty text clears the location
+ */
+function LocationField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'location'>>) {
+  return (
+    <ParsedInput
+      testID={`setting-${id}`}
+      value={value}
+      format={(v) => {
+        const location = v as SettingsLocation | null | undefined;
+        return location ? `${location.latitude}, ${location.longitude}` : '';
+      }}
+      parse={parseFor(field, (text) => {
+        if (text === '') return null;
+        const parts = text.split(',').map((part) => readNumber(part.trim()));
+        return parts.length === 2 ? { latitude: parts[0], longitude: parts[1] } : undefined;
+      })}
+      onChange={onChange}
+      colors={colors}
+      placeholder="40.4168, -3.7038"
+      keyboardType="numbers-and-punctuation"
+    />
+  );
+}
+
+const HEXAGRAM_NUMBERS = Array.from({ length: 64 }, (_, i) => i + 1);
+
+/**
+ * 8x8 grid of hexagram numbers: picks one (pressing it again clears it)
+ * or, when multiple, toggles each
+ */
+function HexagramField({ id, field, value, onChange, colors }: FieldProps<FieldOf<'hexagram'>>) {
+  const selected: unknown[] = field.multiple ? (Array.isArray(value) ? value : []) : [value];
+  const handlePress = (n: number) => {
+    if (field.multiple) {
+      onChange(toggle(selected, n));
+    } else {
+      onChange(value === n ? null : n);
+    }
+  };
+
+  return (
+    <View style={styles.hexagramGrid}>
+      {HEXAGRAM_NUMBERS.map((n) => {
+        const isSelected = selected.includes(n);
+        return (
+          <Pressable
+            key={n}
+            testID={`setting-${id}-${n}`}
+            accessibilityRole={field.multiple ? 'checkbox' : 'radio'}
+            accessibilityState={{ checked: isSelected }}
+            style={[
+              styles.hexagramCell,
+              { borderColor: isSelected ? colors.primary : colors.border },
+              isSelected && { backgroundColor: colors.primary },
+            ]}
+            onPress={() => handlePress(n)}
+          >
+            <Text style={[styles.hexagramLabel, { color: isSelected ? colors.textInverse : colors.text }]}>{n}</Text>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const FIELD_COMPONENTS: { [T in ValueSettingsField['type']]: React.ComponentType<FieldProps<FieldOf<T>>> } = {
+  boolean: BooleanField,
+  string: StringField,
+  number: NumberField,
+  select: SelectField,
+  range: RangeField,
+  multiselect: MultiselectField,
+  color: ColorField,
+  time: TimeField,
+  location: LocationField,
+  hexagram: HexagramField,
+};
+
+interface FieldListProps {
+  schema: KnowletSettingsSchema;
+  /** All settings, with defaults */
+  values: KnowletSettings;
+  onFieldChange: (key: string, value: unknown) => void;
+  language: string;
+  colors: ThemeColors;
+}
+
+function FieldList({ schema, values, onFieldChange, language, colors }: FieldListProps) {
+  return (
+    <>
+      {Object.entries(schema).map(([key, field]) => {
+        if (!isSettingVisible(field, values)) return null;
+
+        if (field.type === 'group') {
+          return (
+            <View key={key} testID={`setting-${key}`} style={styles.group}>
+              <Text style={[styles.groupTitle, { color: colors.textSecondary }]}>
+                {localize(field.label, language).toUpperCase()}
+              </Text>
+              <FieldList
+                schema={field.fields}
+                values={values}
+                onFieldChange={onFieldChange}
+                language={language}
+                colors={colors}
+              />
+            </View>
+          );
+        }
+
+        const Field = FIELD_COMPONENTS[field.type] as React.ComponentType<FieldProps>;
+        const inline = field.type === 'boolean';
+        return (
+          <View key={key} style={[styles.field, inline && styles.fieldInline, { borderBottomColor: colors.borderLight }]}>
+            <Text style={[styles.label, { color: colors.text }]}>{localize(field.label, language)}</Text>
+            <Field
+              id={key}
+              field={field}
+              value={values[key]}
+              onChange={(value) => onFieldChange(key, value)}
+              language={language}
+              colors={colors}
+            />
+          </View>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * SettingsView - Settings screen generated from a KnowletSettingsSchema
+ *
+ * One row per field, in schema order, labelled in the given language.
+ * Groups become titled sections; fields whose visibleWhen does not match
+ * are left out. Unset fields show their default; each edit calls onChange
+ * with all settings.
+ *
+ * Usage:
+ * <SettingsView
+ *   schema={squareSettingsSchema}
+ *   settings={host.getSettings('boards')}
+ *   onChange={(settings) => host.updateSettings('boards', settings)}
+ *   language="es"
+ * />
+ */
+export function SettingsView({
+  schema,
+  settings,
+  onChange,
+  language = 'en',
+  colorScheme = 'light',
+}: SettingsViewProps) {
+  const colors = getThemeColors(colorScheme);
+  const values: KnowletSettings = {};
+  for (const [key, field] of Object.entries(getSettingsFields(schema))) {
+    values[key] = key in settings ? settings[key] : field.default;
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background }]}>
+      <FieldList
+        schema={schema}
+        values={values}
+        onFieldChange={(key, value) => onChange({ ...settings, [key]: value })}
+        language={language}
+        colors={colors}
+      />
+    </View>
+  );
+}
+
+const generatedViews = new WeakMap<KnowletSettingsSchema, React.ComponentType<KnowletSettingsViewProps>>();
+
+/**
+ * Settings screen of a knowlet: its own SettingsView, else one generated
+ * from its settingsSchema, else null when it has no settings
+ */
+export function getKnowletSettingsView(knowlet: Knowlet): React.ComponentType<KnowletSettingsViewProps> | null {
+  if (knowlet.SettingsView) return knowlet.SettingsView;
+  const schema = knowlet.settingsSchema;
+  if (!schema || Object.keys(schema).length === 0) return null;
+
+  let GeneratedView = generatedViews.get(schema);
+  if (!GeneratedView) {
+    GeneratedView = (props: KnowletSettingsViewProps) => <SettingsView schema={schema} {...props} />;
+    generatedViews.set(schema, GeneratedView);
+  }
+  return GeneratedView;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    padding: 16,
+  },
+  field: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    gap: 8,
+  },
+  fieldInline: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+  },
+  options: {
+    gap: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  radio: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    borderWidth: 2,
+    marginRight: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  radioInner: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  optionLabel: {
+    fontSize: 15,
+  },
+  checkbox: {
+    borderRadius: 4,
+  },
+  checkboxInner: {
+    borderRadius: 2,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+  },
+  stepButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepLabel: {
+    fontSize: 20,
+  },
+  stepValue: {
+    fontSize: 16,
+    minWidth: 40,
+    textAlign: 'center',
+  },
+  inline: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  inlineInput: {
+    flex: 1,
+  },
+  swatch: {
+    width: 32,
+    height: 32,
+    borderRadius: 6,
+    borderWidth: 1,
+  },
+  hexagramGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 4,
+  },
+  hexagramCell: {
+    width: '11%',
+    aspectRatio: 1,
+    borderRadius: 4,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  hexagramLabel: {
+    fontSize: 12,
+  },
+  group: {
+    marginTop: 16,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    letterSpacing: 0.5,
+  },
+});
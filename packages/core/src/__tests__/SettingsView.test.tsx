@@ -0,0 +1,209 @@
+/**
+ * SettingsView Tests
+ *
+ * Verifies:
+ * 1. Every field type renders, labelled in the context language
+ * 2. Edits call onChange with all settings
+ * 3. Range, multiselect, color, time, location and hexagram fields report
+ *    valid values only
+ * 4. Groups render as sections and follow their visibleWhen conditions
+ * 5. Knowlets get their own SettingsView, a generated one, or none
+ *
+ * Framework: Jest + @testing-library/react (react-native mapped to react-native-web)
+ * Run: npm test -- --testPathPattern=SettingsView
+ */
+
+import React from 'react';
+import { render, fireEvent } from '@testing-library/react';
+import { SettingsView, getKnowletSettingsView } from '../SettingsView';
+import type { Knowlet, KnowletSettingsSchema } from '../types';
+
+const schema: KnowletSettingsSchema = {
+  viewMode: {
+    type: 'select',
+    label: { en: 'View Mode', es: 'Modo de Vista' },
+    default: 'loshu',
+    options: [
+      { label: { en: 'Lo Shu', es: 'Lo Shu' }, value: 'loshu' },
+      { label: { en: 'He Tu (River Map)', es: 'He Tu (Mapa del Río)' }, value: 'hetu' },
+    ],
+  },
+  showLabels: { type: 'boolean', label: { en: 'Labels', es: 'Etiquetas' }, default: true },
+  title: { type: 'string', label: 'Title', default: '' },
+  size: { type: 'number', label: { en: 'Size' }, default: 3 },
+};
+
+function createKnowlet(extra: Partial<Knowlet> = {}): Knowlet {
+  return {
+    meta: { id: 'boards', name: 'Boards', requiredProviders: [], supportedLanguages: ['en'] },
+    View: () => null,
+    ...extra,
+  };
+}
+
+describe('SettingsView', () => {
+  it('renders localized labels, falling back to English', () => {
+    const { getByText } = render(
+      <SettingsView schema={schema} settings={{}} onChange={() => {}} language="es" />
+    );
+    expect(getByText('Modo de Vista')).toBeTruthy();
+    expect(getByText('He Tu (Mapa del Río)')).toBeTruthy();
+    expect(getByText('Etiquetas')).toBeTruthy();
+    expect(getByText('Title')).toBeTruthy();
+    expect(getByText('Size')).toBeTruthy();
+  });
+
+  it('shows defaults for unset fields', () => {
+    const { getByTestId, queryByTestId } = render(
+      <SettingsView schema={schema} settings={{ title: 'Board' }} onChange={() => {}} />
+    );
+    expect(queryByTestId('setting-viewMode-loshu-selected')).toBeTruthy();
+    expect(queryByTestId('setting-viewMode-hetu-selected')).toBeNull();
+    expect((getByTestId('setting-title') as HTMLInputElement).value).toBe('Board');
+    expect((getByTestId('setting-size') as HTMLInputElement).value).toBe('3');
+  });
+
+  it('reports edits with all settings', () => {
+    const onChange = jest.fn();
+    const settings = { viewMode: 'loshu', size: 3 };
+    const { getByTestId } = render(<SettingsView schema={schema} settings={settings} onChange={onChange} />);
+
+    fireEvent.click(getByTestId('setting-viewMode-hetu'));
+    expect(onChange).toHaveBeenLastCalledWith({ viewMode: 'hetu', size: 3 });
+
+    fireEvent.change(getByTestId('setting-title'), { target: { value: 'Mine' } });
+    expect(onChange).toHaveBeenLastCalledWith({ viewMode: 'loshu', size: 3, title: 'Mine' });
+
+    fireEvent.change(getByTestId('setting-size'), { target: { value: '5' } });
+    expect(onChange).toHaveBeenLastCalledWith({ viewMode: 'loshu', size: 5 });
+  });
+
+  it('waits for a number before reporting it', () => {
+    const onChange = jest.fn();
+    const { getByTestId } = render(<SettingsView schema={schema} settings={{}} onChange={onChange} />);
+
+    fireEvent.change(getByTestId('setting-size'), { target: { value: '-' } });
+    expect(onChange).not.toHaveBeenCalled();
+    expect((getByTestId('setting-size') as HTMLInputElement).value).toBe('-');
+  });
+});
+
+describe('Richer fields', () => {
+  const richSchema: KnowletSettingsSchema = {
+    size: { type: 'range', label: 'Size', default: 1, min: 0.5, max: 1.5, step: 0.25 },
+    show: {
+      type: 'multiselect',
+      label: 'Show',
+      default: ['names'],
+      options: [
+        { label: 'Names', value: 'names' },
+        { label: 'Numbers', value: 'numbers' },
+      ],
+    },
+    accent: { type: 'color', label: 'Accent', default: '#1a73e8' },
+    wake: { type: 'time', label: 'Wake', default: { hour: 7, minute: 5 } },
+    home: { type: 'location', label: 'Home', default: null },
+    focus: { type: 'hexagram', label: 'Focus', default: null },
+    highlighted: { type: 'hexagram', label: 'Highlight', multiple: true, default: [24] },
+  };
+
+  function renderRich(settings = {}) {
+    const onChange = jest.fn();
+    const utils = render(<SettingsView schema={richSchema} settings={settings} onChange={onChange} />);
+    return { ...utils, onChange };
+  }
+
+  it('steps a range within its bounds', () => {
+    const { getByTestId, onChange } = renderRich({ size: 1.5 });
+    expect(getByTestId('setting-size').textContent).toBe('1.5');
+
+    fireEvent.click(getByTestId('setting-size-increase'));
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.click(getByTestId('setting-size-decrease'));
+    expect(onChange).toHaveBeenLastCalledWith({ size: 1.25 });
+  });
+
+  it('toggles multiselect options', () => {
+    const { getByTestId, onChange } = renderRich();
+    fireEvent.click(getByTestId('setting-show-numbers'));
+    expect(onChange).toHaveBeenLastCalledWith({ show: ['names', 'numbers'] });
+    fireEvent.click(getByTestId('setting-show-names'));
+    expect(onChange).toHaveBeenLastCalledWith({ show: [] });
+  });
+
+  it('reads colors, times and locations as typed', () => {
+    const { getByTestId, onChange } = renderRich();
+    expect((getByTestId('setting-wake') as HTMLInputElement).value).toBe('07:05');
+
+    fireEvent.change(getByTestId('setting-accent'), { target: { value: '#c0392' } });
+    expect(onChange).not.toHaveBeenCalled();
+    fireEvent.change(getByTestId('setting-accent'), { target: { value: '#c0392b' } });
+    expect(onChange).toHaveBeenLastCalledWith({ accent: '#c0392b' });
+
+    fireEvent.change(getByTestId('setting-wake'), { target: { value: '25:00' } });
+    fireEvent.change(getByTestId('setting-wake'), { target: { value: '6:30' } });
+    expect(onChange).toHaveBeenLastCalledWith({ wake: { hour: 6, minute: 30 } });
+
+    fireEvent.change(getByTestId('setting-home'), { target: { value: '40.4168, -3.7038' } });
+    expect(onChange).toHaveBeenLastCalledWith({ home: { latitude: 40.4168, longitude: -3.7038 } });
+    fireEvent.change(getByTestId('setting-home'), { target: { value: '' } });
+    expect(onChange).toHaveBeenLastCalledWith({ home: null });
+    expect(onChange).toHaveBeenCalledTimes(4);
+  });
+
+  it('picks one hexagram or toggles several', () => {
+    const { getByTestId, rerender, onChange } = renderRich();
+
+    fireEvent.click(getByTestId('setting-focus-44'));
+    expect(onChange).toHaveBeenLastCalledWith({ focus: 44 });
+    rerender(<SettingsView schema={richSchema} settings={{ focus: 44 }} onChange={onChange} />);
+    fireEvent.click(getByTestId('setting-focus-44'));
+    expect(onChange).toHaveBeenLastCalledWith({ focus: null });
+
+    fireEvent.click(getByTestId('setting-highlighted-1'));
+    expect(onChange).toHaveBeenLastCalledWith({ focus: 44, highlighted: [24, 1] });
+    fireEvent.click(getByTestId('setting-highlighted-24'));
+    expect(onChange).toHaveBeenLastCalledWith({ focus: 44, highlighted: [] });
+  });
+
+  it('renders groups while their conditions match', () => {
+    const grouped: KnowletSettingsSchema = {
+      viewMode: schema.viewMode,
+      matrix: {
+        type: 'group',
+        label: { en: 'Matrix', es: 'Matriz' },
+        visibleWhen: { viewMode: 'hetu' },
+        fields: { highlighted: richSchema.highlighted },
+      },
+    };
+    const { queryByTestId, queryByText, rerender } = render(
+      <SettingsView schema={grouped} settings={{}} onChange={() => {}} language="es" />
+    );
+    expect(queryByTestId('setting-matrix')).toBeNull();
+
+    rerender(<SettingsView schema={grouped} settings={{ viewMode: 'hetu' }} onChange={() => {}} language="es" />);
+    expect(queryByText('MATRIZ')).toBeTruthy();
+    expect(queryByTestId('setting-highlighted-64')).toBeTruthy();
+  });
+});
+
+describe('getKnowletSettingsView', () => {
+  it('prefers the knowlet own view', () => {
+    const Custom = () => null;
+    expect(getKnowletSettingsView(createKnowlet({ settingsSchema: schema, SettingsView: Custom }))).toBe(Custom);
+  });
+
+  it('generates a view from the schema once', () => {
+    const knowlet = createKnowlet({ settingsSchema: schema });
+    const Generated = getKnowletSettingsView(knowlet)!;
+    expect(getKnowletSettingsView(knowlet)).toBe(Generated);
+
+    const { getByText } = render(<Generated settings={{}} onChange={() => {}} />);
+    expect(getByText('View Mode')).toBeTruthy();
+  });
+
+  it('returns null without settings', () => {
+    expect(getKnowletSettingsView(createKnowlet())).toBeNull();
+    expect(getKnowletSettingsView(createKnowlet({ settingsSchema: {} }))).toBeNull();
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Clock Tests
+ *
+ * Verifies:
+ * 1. systemClock follows real time and real timers
+ * 2. Fixed clocks stand still and fire timers only when moved
+ * 3. Simulated clocks run from a chosen instant, offset or accelerated
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=clock
+ */
+
+import { createFixedClock, createSimulatedClock, systemClock } from '../clock';
+
+const MINUTE = 60 * 1000;
+
+describe('systemClock', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reads the current time and schedules real timers', () => {
+    jest.useFakeTimers({ now: new Date('2026-03-01T12:00:00Z') });
+    const callback = jest.fn();
+
+    expect(systemClock.now().toISOString()).toBe('2026-03-01T12:00:00.000Z');
+    systemClock.schedule(callback, 1000);
+    jest.advanceTimersByTime(1000);
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels timers', () => {
+    jest.useFakeTimers();
+    const callback = jest.fn();
+
+    const cancel = systemClock.schedule(callback, 1000);
+    cancel();
+    jest.advanceTimersByTime(2000);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
+
+describe('createFixedClock', () => {
+  it('stands still until moved', () => {
+    const clock = createFixedClock(new Date('2026-03-01T17:00:00Z'));
+    expect(clock.now().toISOString()).toBe('2026-03-01T17:00:00.000Z');
+    expect(clock.now().toISOString()).toBe('2026-03-01T17:00:00.000Z');
+
+    clock.setTime(new Date('2026-03-02T17:00:00Z'));
+    expect(clock.now().toISOString()).toBe('2026-03-02T17:00:00.000Z');
+  });
+
+  it('fires due timers in order, at their own due time', () => {
+    const clock = createFixedClock(new Date('2026-03-01T00:00:00Z'));
+    const fired: string[] = [];
+
+    clock.schedule(() => fired.push(`b@${clock.now().getUTCMinutes()}`), 2 * MINUTE);
+    clock.schedule(() => fired.push(`a@${clock.now().getUTCMinutes()}`), MINUTE);
+    clock.schedule(() => fired.push('late'), 10 * MINUTE);
+
+    clock.advance(5 * MINUTE);
+    expect(fired).toEqual(['a@1', 'b@2']);
+    expect(clock.now().getUTCMinutes()).toBe(5);
+  });
+
+  it('fires timers scheduled from inside a timer when they fall due', () => {
+    const clock = createFixedClock(new Date('2026-03-01T00:00:00Z'));
+    let ticks = 0;
+    const tick = () => {
+      ticks++;
+      clock.schedule(tick, MINUTE);
+    };
+    clock.schedule(tick, MINUTE);
+
+    clock.advance(3 * MINUTE + 1);
+    expect(ticks).toBe(3);
+  });
+
+  it('cancels timers', () => {
+    const clock = createFixedClock(new Date('2026-03-01T00:00:00Z'));
+    const callback = jest.fn();
+
+    const cancel = clock.schedule(callback, MINUTE);
+    cancel();
+    clock.advance(2 * MINUTE);
+    expect(callback).not.toHaveBeenCalled();
+  });
+});
+
+describe('createSimulatedClock', () => {
+  it('starts at a chosen instant and runs with its base clock', () => {
+    const base = createFixedClock(new Date('2026-03-01T12:00:00Z'));
+    const clock = createSimulatedClock({ start: new Date('2026-03-02T17:00:00Z'), baseClock: base });
+
+    base.advance(MINUTE);
+    expect(clock.now().toISOString()).toBe('2026-03-02T17:01:00.000Z');
+  });
+
+  it('runs at a fixed offset from its base clock', () => {
+    const base = createFixedClock(new Date('2026-03-01T12:00:00Z'));
+    const clock = createSimulatedClock({ offsetMs: 60 * MINUTE, baseClock: base });
+
+    expect(clock.now().toISOString()).toBe('2026-03-01T13:00:00.000Z');
+  });
+
+  it('accelerates time and scales timers to the base clock', () => {
+    const base = createFixedClock(new Date('2026-03-01T12:00:00Z'));
+    const clock = createSimulatedClock({ rate: 60, baseClock: base });
+    const callback = jest.fn();
+
+    // One simulated hour is one base minute
+    clock.schedule(callback, 60 * MINUTE);
+    base.advance(MINUTE);
+    expect(callback).toHaveBeenCalledTimes(1);
+    expect(clock.now().toISOString()).toBe('2026-03-01T13:00:00.000Z');
+  });
+
+  it('rejects a rate that is not positive', () => {
+    expect(() => createSimulatedClock({ rate: 0 })).toThrow();
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Deep Link Tests
+ *
+ * Verifies:
+ * 1. Links to knowlets, views and inputs have one canonical URI
+ * 2. Every view of every registered knowlet survives a round trip
+ * 3. Malformed links, unknown knowlets or views and invalid inputs throw
+ * 4. Links open in a host and can be taken from what a knowlet shows
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=deeplinks
+ */
+
+import {
+  getKnowletLink,
+  openKnowletLink,
+  parseKnowletLink,
+  serializeKnowletLink,
+  type KnowletLink,
+} from '../deeplinks';
+import { createKnowletHost } from '../host';
+import { createKnowletRegistry, createProviderRegistry } from '../registry';
+import type { Knowlet, KnowletMeta, KnowletViewMeta, KnowletViewParamType } from '../types';
+
+function createKnowlet(meta: Partial<KnowletMeta> & { id: string }): Knowlet {
+  return {
+    meta: { name: meta.id, requiredProviders: [], supportedLanguages: ['en'], ...meta },
+    View: () => null,
+  };
+}
+
+function setup() {
+  const knowlets = createKnowletRegistry();
+  knowlets.register(
+    createKnowlet({
+      id: 'hours',
+      views: [{ id: 'hexagram-detail', params: { hexagramNumber: 'number' } }],
+    })
+  );
+  knowlets.register(
+    createKnowlet({
+      id: 'hexagrams',
+      consumes: ['hexagram'],
+      views: [
+        { id: 'lines' },
+        { id: 'line-detail', params: { hexagramNumber: 'number', line: 'number', moving: 'boolean', note: 'string' } },
+      ],
+    })
+  );
+  knowlets.register(createKnowlet({ id: 'trigrams', consumes: ['trigram'] }));
+  return knowlets;
+}
+
+/** Sample params of the declared types, with text that needs escaping */
+function sampleParams(view: KnowletViewMeta): Record<string, unknown> | undefined {
+  if (!view.params) return undefined;
+  const samples: Record<KnowletViewParamType, unknown> = {
+    number: 44,
+    boolean: true,
+    string: 'wind & water / 風水?',
+  };
+  return Object.fromEntries(Object.entries(view.params).map(([name, type]) => [name, samples[type]]));
+}
+
+describe('serializeKnowletLink', () => {
+  it('writes the canonical forms', () => {
+    expect(serializeKnowletLink({ knowletId: 'hexagrams', input: { type: 'hexagram', value: 24 } })).toBe(
+      'iching://knowlet/hexagrams?input=hexagram:24'
+    );
+    expect(
+      serializeKnowletLink({
+        knowletId: 'hours',
+        view: { id: 'hexagram-detail', params: { hexagramNumber: 44 } },
+      })
+    ).toBe('iching://knowlet/hours/view/hexagram-detail?hexagramNumber=44');
+    expect(serializeKnowletLink({ knowletId: 'trigrams' })).toBe('iching://knowlet/trigrams');
+  });
+
+  it('refuses params that do not fit in a link', () => {
+    expect(() =>
+      serializeKnowletLink({ knowletId: 'hours', view: { id: 'x', params: { nested: { a: 1 } } } })
+    ).toThrow('nested');
+    expect(() =>
+      serializeKnowletLink({ knowletId: 'hours', view: { id: 'x', params: { input: 'a' } } })
+    ).toThrow('reserved');
+  });
+});
+
+describe('Round trips', () => {
+  const knowlets = setup();
+  const views = knowlets
+    .getAll()
+    .flatMap((knowlet) => (knowlet.meta.views ?? []).map((view) => [knowlet.meta.id, view] as const));
+
+  it.each(views)('%s view %o', (knowletId, view) => {
+    const params = sampleParams(view);
+    const link: KnowletLink = { knowletId, view: params ? { id: view.id, params } : { id: view.id } };
+    expect(parseKnowletLink(serializeKnowletLink(link), knowlets)).toEqual(link);
+  });
+
+  it.each(knowlets.getAll().map((knowlet) => knowlet.meta.id))('%s main view', (knowletId) => {
+    expect(parseKnowletLink(serializeKnowletLink({ knowletId }), knowlets)).toEqual({ knowletId });
+  });
+
+  const inputs: KnowletLink['input'][] = [
+    { type: 'hexagram', value: 24 },
+    { type: 'trigram', value: 'water' },
+    { type: 'yinyang', value: 'yin' },
+    { type: 'element', value: 'metal' },
+    { type: 'animal', value: 'rooster' },
+    { type: 'time', value: { hour: 17, minute: 5 } },
+    { type: 'gps', value: { longitude: -3.7038, latitude: 40.4168 } },
+    { type: 'rotation', value: { heading: 90 } },
+  ];
+
+  it.each(inputs)('input %o', (input) => {
+    const link: KnowletLink = { knowletId: 'hexagrams', input };
+    expect(parseKnowletLink(serializeKnowletLink(link))).toEqual(link);
+  });
+
+  it('keeps a view and an input together', () => {
+    const link: KnowletLink = {
+      knowletId: 'hexagrams',
+      view: { id: 'lines' },
+      input: { type: 'hexagram', value: 1 },
+    };
+    expect(parseKnowletLink(serializeKnowletLink(link), knowlets)).toEqual(link);
+  });
+});
+
+describe('parseKnowletLink', () => {
+  it('reads params as text without a registry', () => {
+    expect(parseKnowletLink('iching://knowlet/hours/view/hexagram-detail?hexagramNumber=44')).toEqual({
+      knowletId: 'hours',
+      view: { id: 'hexagram-detail', params: { hexagramNumber: '44' } },
+    });
+  });
+
+  it.each([
+    ['https://example.com/knowlet/hours', 'Not a knowlet link'],
+    ['iching://knowlet/', 'path must be'],
+    ['iching://knowlet/hours/view', 'path must be'],
+    ['iching://knowlet/hours/page/detail', 'path must be'],
+    ['iching://knowlet/missing', 'Unknown knowlet'],
+    ['iching://knowlet/hours/view/missing', 'Unknown view'],
+    ['iching://knowlet/hours/view/hexagram-detail?hexagramNumber=many', 'must be a number'],
+    ['iching://knowlet/hexagrams?input=hexagram:65', 'Invalid hexagram input'],
+    ['iching://knowlet/hexagrams?input=planet:mars', 'Invalid planet input'],
+    ['iching://knowlet/hexagrams?input=24', 'must be <type>:<value>'],
+  ])('rejects %s', (uri, message) => {
+    expect(() => parseKnowletLink(uri, setup())).toThrow(message);
+  });
+});
+
+describe('Hosts', () => {
+  it('opens a link as jumpTo, input and pushView', () => {
+    const knowlets = setup();
+    const host = createKnowletHost({ knowlets, providers: createProviderRegistry() });
+
+    openKnowletLink(host, parseKnowletLink('iching://knowlet/hexagrams/view/lines?input=hexagram:24', knowlets));
+
+    expect(host.getState().activeKnowletId).toBe('hexagrams');
+    const context = host.getContext('hexagrams');
+    expect(context.inputData).toEqual({ type: 'hexagram', value: 24 });
+    expect(context.currentView).toEqual({ id: 'lines' });
+  });
+
+  it('links to what a knowlet shows', () => {
+    const knowlets = setup();
+    const host = createKnowletHost({ knowlets, providers: createProviderRegistry() });
+    host.jumpTo('hours');
+    host.getContext('hours').pushView('hexagram-detail', { hexagramNumber: 44 });
+
+    expect(serializeKnowletLink(getKnowletLink(host, 'hours'))).toBe(
+      'iching://knowlet/hours/view/hexagram-detail?hexagramNumber=44'
+    );
+  });
+});
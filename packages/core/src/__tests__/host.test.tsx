@@ -0,0 +1,383 @@
+/**
+ * KnowletHost Tests
+ *
+ * Verifies:
+ * 1. Contexts carry situations, settings with schema defaults and preferences
+ * 2. Each knowlet keeps its own view stack
+ * 3. Outputs route to the only consumer, or open the selector when several;
+ *    invalid payloads go nowhere
+ * 4. The host follows the active knowlet's providers while it has listeners
+ * 5. A knowlet View driven by useKnowletContext navigates through the host
+ * 6. Settings are validated before they reach the host state, and a
+ *    rejected or throwing save is reported instead of going unhandled
+ *
+ * Framework: Jest + @testing-library/react (react-native mapped to react-native-web)
+ * Run: npm test -- --testPathPattern=host
+ */
+
+import React from 'react';
+import { render, fireEvent, act } from '@testing-library/react';
+import { Pressable, Text, View } from 'react-native';
+import { createKnowletHost } from '../host';
+import { useKnowletContext } from '../hooks';
+import { createKnowletRegistry, createProviderRegistry } from '../registry';
+import { createMemorySettingsStorage, createSettingsStore } from '../settings';
+import type { Knowlet, KnowletContext, KnowletMeta, SituationData, SituationProvider } from '../types';
+
+function createKnowlet(meta: Partial<KnowletMeta> & { id: string }, extra: Partial<Knowlet> = {}): Knowlet {
+  return {
+    meta: { name: meta.id, requiredProviders: [], supportedLanguages: ['en'], ...meta },
+    View: () => null,
+    ...extra,
+  };
+}
+
+/** Provider whose data is pushed by the test */
+function createManualProvider(id: string, initial: SituationData) {
+  let data = initial;
+  const listeners = new Set<(data: SituationData) => void>();
+  const provider: SituationProvider = {
+    id,
+    name: id,
+    subscribe(callback) {
+      listeners.add(callback);
+      callback(data);
+      return () => listeners.delete(callback);
+    },
+    getCurrentData: () => data,
+  };
+  return {
+    provider,
+    push(next: SituationData) {
+      data = next;
+      listeners.forEach((cb) => cb(data));
+    },
+    getListenerCount: () => listeners.size,
+  };
+}
+
+function setup() {
+  const knowlets = createKnowletRegistry();
+  const providers = createProviderRegistry();
+  const time = createManualProvider('time', { hour: 9 });
+  providers.register(time.provider);
+
+  knowlets.register(
+    createKnowlet(
+      { id: 'hours', requiredProviders: ['time'], produces: ['hexagram', 'trigram'] },
+      { settingsSchema: { showProgress: { type: 'boolean', label: 'Progress', default: true } } }
+    )
+  );
+  knowlets.register(createKnowlet({ id: 'hexagrams', consumes: ['hexagram'], produces: ['trigram'] }));
+  knowlets.register(createKnowlet({ id: 'trigrams', consumes: ['trigram'] }));
+  knowlets.register(createKnowlet({ id: 'square', consumes: ['trigram'] }));
+
+  const host = createKnowletHost({ knowlets, providers, initialKnowletId: 'hours', language: 'es' });
+  return { host, time };
+}
+
+describe('Contexts', () => {
+  it('carries situations, preferences and settings with defaults', () => {
+    const { host } = setup();
+    const context = host.getContext('hours');
+
+    expect(context.situations.time).toEqual({ hour: 9 });
+    expect(context.language).toBe('es');
+    expect(context.colorScheme).toBe('light');
+    expect(context.translationPreferences.zh).toBe('zhouyi');
+    expect(context.settings).toEqual({ showProgress: true });
+    expect(context.currentView).toBeNull();
+  });
+
+  it('returns the same context until something changes', () => {
+    const { host } = setup();
+    const context = host.getContext('hours');
+    expect(host.getContext('hours')).toBe(context);
+
+    host.setColorScheme('dark');
+    expect(host.getContext('hours')).not.toBe(context);
+    expect(host.getContext('hours').colorScheme).toBe('dark');
+  });
+
+  it('stores settings and reports changes', () => {
+    const onSettingsChange = jest.fn();
+    const knowlets = createKnowletRegistry();
+    knowlets.register(
+      createKnowlet({ id: 'hours' }, {
+        settingsSchema: {
+          showProgress: { type: 'boolean', label: 'Progress', default: true },
+          viewMode: { type: 'select', label: 'Mode', default: 'card' },
+        },
+      })
+    );
+    const host = createKnowletHost({ knowlets, providers: createProviderRegistry(), onSettingsChange });
+
+    host.updateSettings('hours', { showProgress: false });
+    expect(host.getContext('hours').settings).toEqual({ showProgress: false, viewMode: 'card' });
+    expect(onSettingsChange).toHaveBeenCalledWith('hours', { showProgress: false });
+  });
+
+  it('rejects invalid settings without changing the host state', () => {
+    const onSettingsChange = jest.fn();
+    const knowlets = createKnowletRegistry();
+    knowlets.register(
+      createKnowlet({ id: 'hours' }, {
+        settingsSchema: { showProgress: { type: 'boolean', label: 'Progress', default: true } },
+      })
+    );
+    const host = createKnowletHost({ knowlets, providers: createProviderRegistry(), onSettingsChange });
+
+    expect(() => host.updateSettings('hours', { showProgress: 'no' })).toThrow(TypeError);
+    expect(() => host.updateSettings('hours', { colour: 'red' })).toThrow('Unknown setting for hours: colour');
+    expect(host.getContext('hours').settings).toEqual({ showProgress: true });
+    expect(onSettingsChange).not.toHaveBeenCalled();
+  });
+
+  it('reports a rejected save instead of leaving it unhandled', async () => {
+    const knowlets = createKnowletRegistry();
+    knowlets.register(
+      createKnowlet({ id: 'hours' }, {
+        settingsSchema: { showProgress: { type: 'boolean', label: 'Progress', default: true } },
+      })
+    );
+    const storage = createMemorySettingsStorage();
+    storage.setItem = () => Promise.reject(new Error('Disk full'));
+    const store = createSettingsStore({ knowlets, storage });
+    const onSettingsError = jest.fn();
+    const unhandled = jest.fn();
+    process.on('unhandledRejection', unhandled);
+
+    try {
+      const host = createKnowletHost({
+        knowlets,
+        providers: createProviderRegistry(),
+        onSettingsChange: store.save,
+        onSettingsError,
+      });
+      host.updateSettings('hours', { showProgress: false });
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(host.getContext('hours').settings).toEqual({ showProgress: false });
+      expect(onSettingsError).toHaveBeenCalledWith('hours', new Error('Disk full'));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off('unhandledRejection', unhandled);
+    }
+  });
+
+  it('reports a save that throws instead of failing the update', async () => {
+    const knowlets = createKnowletRegistry();
+    knowlets.register(
+      createKnowlet({ id: 'hours' }, {
+        settingsSchema: { showProgress: { type: 'boolean', label: 'Progress', default: true } },
+      })
+    );
+    const onSettingsError = jest.fn();
+    const host = createKnowletHost({
+      knowlets,
+      providers: createProviderRegistry(),
+      onSettingsChange: () => {
+        throw new Error('Storage unavailable');
+      },
+      onSettingsError,
+    });
+
+    expect(() => host.updateSettings('hours', { showProgress: false })).not.toThrow();
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(host.getContext('hours').settings).toEqual({ showProgress: false });
+    expect(onSettingsError).toHaveBeenCalledWith('hours', new Error('Storage unavailable'));
+  });
+
+  it('rejects unknown knowlets', () => {
+    const { host } = setup();
+    expect(() => host.jumpTo('missing')).toThrow('Unknown knowlet: missing');
+  });
+});
+
+describe('View stacks', () => {
+  it('pushes and pops views per knowlet', () => {
+    const { host } = setup();
+
+    host.getContext('hours').pushView('hexagram-detail', { hexagramNumber: 44 });
+    host.getContext('hours').pushView('hexagram-detail', { hexagramNumber: 1 });
+    host.getContext('hexagrams').pushView('lines');
+
+    expect(host.getContext('hours').currentView).toEqual({
+      id: 'hexagram-detail',
+      params: { hexagramNumber: 1 },
+    });
+    host.getContext('hours').popView();
+    expect(host.getContext('hours').currentView?.params).toEqual({ hexagramNumber: 44 });
+    expect(host.getContext('hexagrams').currentView?.id).toBe('lines');
+
+    host.getContext('hours').popView();
+    host.getContext('hours').popView();
+    expect(host.getContext('hours').currentView).toBeNull();
+  });
+
+  it('keeps a knowlet view stack across jumps', () => {
+    const { host } = setup();
+    host.getContext('hours').pushView('hexagram-detail', { hexagramNumber: 44 });
+
+    host.jumpTo('trigrams');
+    host.jumpTo('hours');
+    expect(host.getState().activeKnowletId).toBe('hours');
+    expect(host.getContext('hours').currentView?.id).toBe('hexagram-detail');
+  });
+});
+
+describe('Output routing', () => {
+  it('jumps to the only consumer with the output as input', () => {
+    const { host } = setup();
+    host.getContext('hexagrams').pushView('lines');
+
+    host.getContext('hours').emitOutput('hexagram', 24);
+
+    expect(host.getState().activeKnowletId).toBe('hexagrams');
+    const context = host.getContext('hexagrams');
+    expect(context.inputData).toEqual({ type: 'hexagram', value: 24 });
+    expect(context.currentView).toBeNull();
+  });
+
+  it('opens the selector when several knowlets consume the output', () => {
+    const { host } = setup();
+
+    host.getContext('hours').emitOutput('trigram', 'water');
+    const { selector, activeKnowletId } = host.getState();
+    expect(activeKnowletId).toBe('hours');
+    expect(selector?.sourceId).toBe('hours');
+    expect(selector?.candidates.map((k) => k.meta.id)).toEqual(['trigrams', 'square']);
+
+    host.selectConsumer('square');
+    expect(host.getState().selector).toBeNull();
+    expect(host.getState().activeKnowletId).toBe('square');
+    expect(host.getContext('square').inputData).toEqual({ type: 'trigram', value: 'water' });
+  });
+
+  it('remembers a chosen consumer as the default', () => {
+    const { host } = setup();
+
+    host.getContext('hours').emitOutput('trigram', 'water');
+    host.selectConsumer('square', { remember: true });
+    host.jumpTo('hours');
+
+    const resolution = host.routeOutput('trigram', 'fire', 'hours');
+    expect(resolution.status).toBe('default');
+    expect(host.getState().selector).toBeNull();
+    expect(host.getState().activeKnowletId).toBe('square');
+  });
+
+  it('reports an output nothing consumes', () => {
+    const { host } = setup();
+    expect(host.routeOutput('gps', { longitude: 0, latitude: 0 }, 'hours').status).toBe('no-consumer');
+    expect(host.getState().activeKnowletId).toBe('hours');
+  });
+
+  it('refuses values that are not valid payloads', () => {
+    const { host } = setup();
+
+    // Typed callers can still pass bad data through casts or stored values
+    const resolution = host.routeOutput('hexagram', 65, 'hours');
+    expect(resolution.status).toBe('invalid-value');
+    expect(host.showSelector('trigram', 'center' as never, 'hours').status).toBe('invalid-value');
+    expect(host.getState()).toMatchObject({ activeKnowletId: 'hours', selector: null });
+
+    expect(() => host.jumpTo('hexagrams', { type: 'hexagram', value: 0 })).toThrow(TypeError);
+  });
+
+  it('never routes an output back to its source', () => {
+    const { host } = setup();
+    host.jumpTo('hexagrams');
+
+    host.getContext('hexagrams').showKnowletSelector('hexagram', 1);
+    expect(host.getState().selector).toBeNull();
+    expect(host.getState().activeKnowletId).toBe('hexagrams');
+  });
+
+  it('shows the selector even for a single consumer on request', () => {
+    const { host } = setup();
+
+    host.getContext('hours').showKnowletSelector('hexagram', 44);
+    expect(host.getState().selector?.candidates.map((k) => k.meta.id)).toEqual(['hexagrams']);
+    host.dismissSelector();
+    expect(host.getState().selector).toBeNull();
+  });
+
+  it('clears a stale input on a plain jump', () => {
+    const { host } = setup();
+    host.getContext('hours').emitOutput('hexagram', 24);
+
+    host.jumpTo('hours');
+    host.getContext('hours').jumpTo('hexagrams');
+    expect(host.getContext('hexagrams').inputData).toBeUndefined();
+  });
+});
+
+describe('Provider updates', () => {
+  it('follows the active knowlet providers while listened to', () => {
+    const { host, time } = setup();
+    const listener = jest.fn();
+
+    const unsubscribe = host.subscribe(listener);
+    expect(time.getListenerCount()).toBe(1);
+    expect(listener).not.toHaveBeenCalled();
+
+    time.push({ hour: 10 });
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(host.getContext('hours').situations.time).toEqual({ hour: 10 });
+
+    // hexagrams needs no provider
+    host.jumpTo('hexagrams');
+    expect(time.getListenerCount()).toBe(0);
+
+    host.jumpTo('hours');
+    unsubscribe();
+    expect(time.getListenerCount()).toBe(0);
+  });
+});
+
+describe('useKnowletContext', () => {
+  function HoursView({ context }: { context: KnowletContext }) {
+    return (
+      <View>
+        <Text testID="view">{context.currentView?.id ?? 'main'}</Text>
+        <Pressable testID="detail" onPress={() => context.pushView('hexagram-detail')}>
+          <Text>Detail</Text>
+        </Pressable>
+        <Pressable testID="back" onPress={() => context.popView()}>
+          <Text>Back</Text>
+        </Pressable>
+      </View>
+    );
+  }
+
+  function HostedHours({ host }: { host: ReturnType<typeof setup>['host'] }) {
+    const context = useKnowletContext(host, 'hours');
+    return <HoursView context={context} />;
+  }
+
+  it('renders view changes made through the context', () => {
+    const { host } = setup();
+    const { getByTestId } = render(<HostedHours host={host} />);
+    expect(getByTestId('view').textContent).toBe('main');
+
+    fireEvent.click(getByTestId('detail'));
+    expect(getByTestId('view').textContent).toBe('hexagram-detail');
+
+    fireEvent.click(getByTestId('back'));
+    expect(getByTestId('view').textContent).toBe('main');
+  });
+
+  it('re-renders on provider updates', () => {
+    const { host, time } = setup();
+    function Hour() {
+      const context = useKnowletContext(host, 'hours');
+      return <Text testID="hour">{String(context.situations.time.hour)}</Text>;
+    }
+    const { getByTestId } = render(<Hour />);
+
+    act(() => time.push({ hour: 11 }));
+    expect(getByTestId('hour').textContent).toBe('11');
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Localization Tests
+ *
+ * Verifies:
+ * 1. Messages fall back through parent languages, then English, then the key
+ * 2. {name} placeholders are filled in and plural forms follow the language
+ * 3. Missing keys are reported per supported language
+ * 4. useTranslation follows the context language
+ *
+ * Framework: Jest + @testing-library/react (react-native mapped to react-native-web)
+ * Run: npm test -- --testPathPattern=i18n
+ */
+
+import React from 'react';
+import { render } from '@testing-library/react';
+import { Text } from 'react-native';
+import {
+  createTranslator,
+  findMissingMessages,
+  getLanguageFallbacks,
+  getPluralCategory,
+  interpolate,
+} from '../i18n';
+import { useTranslation } from '../hooks';
+import { localize } from '../translations';
+import type { Knowlet, MessageCatalogs } from '../types';
+
+const messages: MessageCatalogs = {
+  en: {
+    judgment: 'The Judgment',
+    hour: 'Current hour: {branch}',
+    lines: { one: '{count} moving line', other: '{count} moving lines' },
+    binary: 'Binary',
+  },
+  es: {
+    judgment: 'El Dictamen',
+    hour: 'Hora actual: {branch}',
+    lines: { one: '{count} línea móvil', other: '{count} líneas móviles' },
+  },
+  zh: {
+    judgment: '卦辭',
+    lines: { other: '{count}個變爻' },
+  },
+  'zh-Hans': {
+    judgment: '卦辞',
+  },
+};
+
+describe('getLanguageFallbacks', () => {
+  it('goes from specific to general, then English', () => {
+    expect(getLanguageFallbacks('zh-Hans-CN')).toEqual(['zh-Hans-CN', 'zh-Hans', 'zh', 'en']);
+    expect(getLanguageFallbacks('pt_BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(getLanguageFallbacks('en')).toEqual(['en']);
+    expect(getLanguageFallbacks('fr', 'es')).toEqual(['fr', 'es']);
+  });
+});
+
+describe('createTranslator', () => {
+  it('looks messages up along the fallback chain', () => {
+    expect(createTranslator(messages, 'zh-Hans-CN')('judgment')).toBe('卦辞');
+    expect(createTranslator(messages, 'zh-Hant')('judgment')).toBe('卦辭');
+    expect(createTranslator(messages, 'zh')('binary')).toBe('Binary');
+    expect(createTranslator(messages, 'fr')('judgment')).toBe('The Judgment');
+    expect(createTranslator(messages, 'es')('missing.key')).toBe('missing.key');
+  });
+
+  it('fills in placeholders', () => {
+    expect(createTranslator(messages, 'es')('hour', { branch: 'wu' })).toBe('Hora actual: wu');
+    expect(interpolate('{a} and {b}', { a: 1 })).toBe('1 and {b}');
+  });
+
+  it('chooses the plural form of the count', () => {
+    const en = createTranslator(messages, 'en');
+    expect(en('lines', { count: 1 })).toBe('1 moving line');
+    expect(en('lines', { count: 6 })).toBe('6 moving lines');
+    expect(createTranslator(messages, 'es')('lines', { count: 2 })).toBe('2 líneas móviles');
+    // Chinese has no plural forms
+    expect(createTranslator(messages, 'zh')('lines', { count: 1 })).toBe('1個變爻');
+    expect(en('lines')).toBe('{count} moving lines');
+  });
+
+  it('knows plural rules beyond one and other', () => {
+    expect(getPluralCategory('pl', 3)).toBe('few');
+    expect(getPluralCategory('ar', 0)).toBe('zero');
+    expect(getPluralCategory('en', 1)).toBe('one');
+  });
+});
+
+describe('localize', () => {
+  it('uses the same fallbacks for localizable strings', () => {
+    expect(localize({ en: 'View Mode', zh: '檢視模式' }, 'zh-Hant-TW')).toBe('檢視模式');
+    expect(localize({ es: 'Modo' }, 'fr')).toBe('Modo');
+  });
+});
+
+describe('findMissingMessages', () => {
+  const knowlet = (supportedLanguages: string[]): Knowlet => ({
+    meta: { id: 'test', name: 'Test', requiredProviders: [], supportedLanguages },
+    messages,
+    View: () => null,
+  });
+
+  it('reports keys each supported language lacks', () => {
+    expect(findMissingMessages(knowlet(['en', 'es', 'zh']))).toEqual({
+      es: ['binary'],
+      zh: ['hour', 'binary'],
+    });
+    expect(findMissingMessages(knowlet(['en']))).toEqual({});
+    expect(findMissingMessages(knowlet(['fr']))).toEqual({ fr: ['judgment', 'hour', 'lines', 'binary'] });
+  });
+});
+
+describe('useTranslation', () => {
+  function Title({ language }: { language: string }) {
+    const t = useTranslation({ language }, messages);
+    return <Text testID="title">{t('judgment')}</Text>;
+  }
+
+  it('follows the context language', () => {
+    const { getByTestId, rerender } = render(<Title language="en" />);
+    expect(getByTestId('title').textContent).toBe('The Judgment');
+
+    rerender(<Title language="es" />);
+    expect(getByTestId('title').textContent).toBe('El Dictamen');
+  });
+});
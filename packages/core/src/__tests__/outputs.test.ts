@@ -0,0 +1,47 @@
+/**
+ * Output Payload Tests
+ *
+ * Verifies:
+ * 1. Each output type accepts its payloads and rejects others
+ * 2. Untyped data becomes a KnowletInput only when valid
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=outputs
+ */
+
+import { isOutputPayload, toKnowletInput, TRIGRAM_OUTPUTS } from '../outputs';
+import type { OutputType } from '../types';
+
+describe('isOutputPayload', () => {
+  const cases: [OutputType, unknown[], unknown[]][] = [
+    ['hexagram', [1, 24, 64], [0, 65, 1.5, '24', null]],
+    ['trigram', ['heaven', 'lake'], ['center', 'Heaven', 1]],
+    ['yinyang', ['yin', 'yang'], ['both', undefined]],
+    ['element', ['wood', 'metal'], ['air', 'Wood']],
+    ['animal', ['rat', 'pig'], ['cat', 'zi']],
+    ['time', [{ hour: 23, minute: 59 }, { hour: 0, minute: 0, earthlyBranch: 'zi' }], [{ hour: 24, minute: 0 }, { hour: 9 }, '09:00']],
+    ['gps', [{ longitude: -3.7, latitude: 40.4 }, { longitude: 0, latitude: 0, accuracyMeters: 12 }], [{ longitude: 181, latitude: 0 }, { longitude: 0 }, [0, 0]]],
+    ['rotation', [{ heading: 0 }, { heading: 359.5 }], [{ heading: -1 }, { heading: NaN }, 90]],
+  ];
+
+  it.each(cases)('checks %s payloads', (type, valid, invalid) => {
+    valid.forEach((value) => expect(isOutputPayload(type, value)).toBe(true));
+    invalid.forEach((value) => expect(isOutputPayload(type, value)).toBe(false));
+  });
+
+  it('knows the eight trigrams', () => {
+    expect(TRIGRAM_OUTPUTS).toHaveLength(8);
+  });
+});
+
+describe('toKnowletInput', () => {
+  it('builds inputs from valid untyped data', () => {
+    expect(toKnowletInput('hexagram', 24)).toEqual({ type: 'hexagram', value: 24 });
+  });
+
+  it('returns null for unknown types and invalid values', () => {
+    expect(toKnowletInput('planet', 'mars')).toBeNull();
+    expect(toKnowletInput('toString', 1)).toBeNull();
+    expect(toKnowletInput('trigram', 'center')).toBeNull();
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * OutputRouter Tests
+ *
+ * Verifies:
+ * 1. Consumers are indexed by consumes and ranked consistently
+ * 2. The default consumer per output type wins, and can be forgotten
+ * 3. Resolution reports no consumer, a single consumer or a choice
+ * 4. The index follows knowlets registered after the router was made
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=router
+ */
+
+import { createKnowletRegistry } from '../registry';
+import { createOutputRouter } from '../router';
+import type { Knowlet, KnowletMeta } from '../types';
+
+function createKnowlet(meta: Partial<KnowletMeta> & { id: string }): Knowlet {
+  return {
+    meta: { name: meta.id, requiredProviders: [], supportedLanguages: ['en'], ...meta },
+    View: () => null,
+  };
+}
+
+function setup() {
+  const knowlets = createKnowletRegistry();
+  knowlets.register(createKnowlet({ id: 'board', consumes: ['trigram', 'hexagram', 'element'] }));
+  knowlets.register(createKnowlet({ id: 'square', consumes: ['hexagram', 'trigram'] }));
+  knowlets.register(createKnowlet({ id: 'trigrams', consumes: ['trigram'] }));
+  knowlets.register(createKnowlet({ id: 'hexagrams', consumes: ['hexagram'], produces: ['trigram'] }));
+  return knowlets;
+}
+
+const ids = (knowlets: Knowlet[]) => knowlets.map((k) => k.meta.id);
+
+describe('Ranking', () => {
+  it('puts primary inputs and specialized consumers first', () => {
+    const router = createOutputRouter({ knowlets: setup() });
+
+    // trigrams lists trigram first and consumes nothing else
+    expect(ids(router.getConsumers('trigram'))).toEqual(['trigrams', 'board', 'square']);
+    expect(ids(router.getConsumers('hexagram'))).toEqual(['hexagrams', 'square', 'board']);
+  });
+
+  it('leaves out the emitting knowlet', () => {
+    const router = createOutputRouter({ knowlets: setup() });
+    expect(ids(router.getConsumers('trigram', 'trigrams'))).toEqual(['board', 'square']);
+  });
+
+  it('ranks the default consumer first', () => {
+    const router = createOutputRouter({ knowlets: setup(), defaultConsumers: { trigram: 'square' } });
+    expect(ids(router.getConsumers('trigram'))).toEqual(['square', 'trigrams', 'board']);
+  });
+});
+
+describe('Default consumers', () => {
+  it('remembers and forgets defaults, reporting each change', () => {
+    const onDefaultConsumersChange = jest.fn();
+    const router = createOutputRouter({ knowlets: setup(), onDefaultConsumersChange });
+
+    router.setDefaultConsumer('hexagram', 'square');
+    expect(router.getDefaultConsumer('hexagram')).toBe('square');
+    expect(onDefaultConsumersChange).toHaveBeenLastCalledWith({ hexagram: 'square' });
+
+    router.setDefaultConsumer('hexagram', null);
+    expect(router.getDefaultConsumer('hexagram')).toBeNull();
+    expect(router.getDefaultConsumers()).toEqual({});
+  });
+
+  it('ignores a default that no longer consumes the type', () => {
+    const router = createOutputRouter({ knowlets: setup(), defaultConsumers: { element: 'square' } });
+    expect(router.getDefaultConsumer('element')).toBeNull();
+  });
+});
+
+describe('resolve', () => {
+  it('reports when nothing consumes an output', () => {
+    const router = createOutputRouter({ knowlets: setup() });
+    expect(router.resolve('gps')).toEqual({ status: 'no-consumer', type: 'gps', candidates: [] });
+  });
+
+  it('routes to a single consumer', () => {
+    const router = createOutputRouter({ knowlets: setup() });
+    const resolution = router.resolve('element');
+    expect(resolution.status).toBe('single');
+    expect(resolution.status === 'single' && resolution.knowletId).toBe('board');
+  });
+
+  it('asks for a choice between several consumers', () => {
+    const router = createOutputRouter({ knowlets: setup() });
+    const resolution = router.resolve('hexagram');
+    expect(resolution.status).toBe('choose');
+    expect(ids(resolution.candidates)).toEqual(['hexagrams', 'square', 'board']);
+  });
+
+  it('routes to the default consumer, unless it is the source', () => {
+    const router = createOutputRouter({ knowlets: setup(), defaultConsumers: { hexagram: 'square' } });
+
+    const resolution = router.resolve('hexagram', 'hexagrams');
+    expect(resolution).toMatchObject({ status: 'default', knowletId: 'square' });
+
+    expect(router.resolve('hexagram', 'square').status).toBe('choose');
+  });
+
+  it('follows knowlets registered later', () => {
+    const knowlets = setup();
+    const router = createOutputRouter({ knowlets });
+    expect(router.resolve('animal').status).toBe('no-consumer');
+
+    knowlets.register(createKnowlet({ id: 'branches', consumes: ['animal'] }));
+    expect(router.resolve('animal')).toMatchObject({ status: 'single', knowletId: 'branches' });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Scheduler Tests
+ *
+ * Verifies:
+ * 1. Subscriptions wake at their boundaries, just past each one
+ * 2. All subscriptions share one timer; coinciding boundaries wake once
+ * 3. Boundaries read after each callback follow the updated state
+ * 4. Cancelling the last subscription clears the timer
+ * 5. A throwing callback surfaces its error without stopping the others
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=scheduler
+ */
+
+import type { Clock } from '../types';
+import { createFixedClock } from '../clock';
+import {
+  createScheduler,
+  earliestBoundary,
+  getScheduler,
+  intervalBoundary,
+  minuteBoundary,
+} from '../scheduler';
+
+const MINUTE = 60 * 1000;
+
+/** Fixed clock that counts the timers it is asked for */
+function createCountingClock(instant: Date) {
+  const clock = createFixedClock(instant);
+  let pending = 0;
+  let scheduled = 0;
+  const countingClock: Clock = {
+    now: clock.now,
+    schedule(callback, delayMs) {
+      pending++;
+      scheduled++;
+      let done = false;
+      const cancel = clock.schedule(() => {
+        done = true;
+        pending--;
+        callback();
+      }, delayMs);
+      return () => {
+        if (!done) pending--;
+        done = true;
+        cancel();
+      };
+    },
+  };
+  return {
+    clock: countingClock,
+    advance: clock.advance,
+    getPending: () => pending,
+    getScheduled: () => scheduled,
+  };
+}
+
+describe('Boundaries', () => {
+  it('finds the next whole minute', () => {
+    expect(minuteBoundary(new Date('2026-03-01T12:00:30.500Z')).toISOString()).toBe(
+      '2026-03-01T12:01:00.000Z'
+    );
+    expect(minuteBoundary(new Date('2026-03-01T12:01:00.000Z')).toISOString()).toBe(
+      '2026-03-01T12:02:00.000Z'
+    );
+  });
+
+  it('takes the earliest of several boundaries', () => {
+    const boundary = earliestBoundary(intervalBoundary(60 * MINUTE), minuteBoundary);
+    expect(boundary(new Date('2026-03-01T12:00:30Z')).toISOString()).toBe(
+      '2026-03-01T12:01:00.000Z'
+    );
+  });
+});
+
+describe('createScheduler', () => {
+  it('wakes just past each minute boundary', () => {
+    const { clock, advance } = createCountingClock(new Date('2026-03-01T12:00:30Z'));
+    const scheduler = createScheduler(clock);
+    const wakeups: string[] = [];
+
+    scheduler.subscribe(minuteBoundary, (now) => wakeups.push(now.toISOString()));
+    advance(2 * MINUTE);
+
+    expect(wakeups).toEqual(['2026-03-01T12:01:00.100Z', '2026-03-01T12:02:00.100Z']);
+  });
+
+  it('coalesces coinciding boundaries into one wakeup', () => {
+    const { clock, advance, getPending, getScheduled } = createCountingClock(
+      new Date('2026-03-01T12:00:30Z')
+    );
+    const scheduler = createScheduler(clock);
+    const calls = [jest.fn(), jest.fn(), jest.fn()];
+
+    calls.forEach((callback) => scheduler.subscribe(minuteBoundary, callback));
+    expect(getPending()).toBe(1);
+
+    advance(MINUTE);
+    calls.forEach((callback) => expect(callback).toHaveBeenCalledTimes(1));
+    // One timer for the first boundary, one for the next
+    expect(getScheduled()).toBe(2);
+    expect(getPending()).toBe(1);
+  });
+
+  it('keeps one timer for the earliest of different boundaries', () => {
+    const { clock, advance, getPending } = createCountingClock(new Date('2026-03-01T12:00:00Z'));
+    const scheduler = createScheduler(clock);
+    const minutes = jest.fn();
+    const hours = jest.fn();
+
+    scheduler.subscribe(intervalBoundary(60 * MINUTE), hours);
+    scheduler.subscribe(minuteBoundary, minutes);
+    expect(getPending()).toBe(1);
+
+    advance(60 * MINUTE + 1000);
+    expect(minutes).toHaveBeenCalledTimes(60);
+    expect(hours).toHaveBeenCalledTimes(1);
+  });
+
+  it('reads the next boundary after the callback', () => {
+    const { clock, advance } = createCountingClock(new Date('2026-03-01T12:00:00Z'));
+    const scheduler = createScheduler(clock);
+    let nextChange = new Date('2026-03-01T12:10:00Z');
+    const wakeups: string[] = [];
+
+    scheduler.subscribe(
+      () => nextChange,
+      (now) => {
+        wakeups.push(now.toISOString());
+        nextChange = new Date(nextChange.getTime() + 30 * MINUTE);
+      }
+    );
+    advance(60 * MINUTE);
+
+    expect(wakeups).toEqual(['2026-03-01T12:10:00.100Z', '2026-03-01T12:40:00.100Z']);
+  });
+
+  it('lets a callback cancel a subscription due in the same wakeup', () => {
+    const { clock, advance } = createCountingClock(new Date('2026-03-01T12:00:30Z'));
+    const scheduler = createScheduler(clock);
+    const second = jest.fn();
+
+    let cancelSecond = () => {};
+    scheduler.subscribe(minuteBoundary, () => cancelSecond());
+    cancelSecond = scheduler.subscribe(minuteBoundary, second);
+    advance(MINUTE);
+
+    expect(second).not.toHaveBeenCalled();
+  });
+
+  it('keeps waking the other subscriptions when a callback throws', () => {
+    const { clock, advance, getPending } = createCountingClock(new Date('2026-03-01T12:00:30Z'));
+    const scheduler = createScheduler(clock);
+    const failing = jest.fn(() => {
+      throw new Error('Provider failed');
+    });
+    const second = jest.fn();
+
+    scheduler.subscribe(minuteBoundary, failing);
+    scheduler.subscribe(minuteBoundary, second);
+    expect(() => advance(MINUTE)).toThrow('Provider failed');
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(getPending()).toBe(1);
+
+    failing.mockImplementation(() => {});
+    advance(MINUTE);
+    expect(failing).toHaveBeenCalledTimes(2);
+    expect(second).toHaveBeenCalledTimes(2);
+  });
+
+  it('clears the timer when the last subscription is cancelled', () => {
+    const { clock, getPending } = createCountingClock(new Date('2026-03-01T12:00:30Z'));
+    const scheduler = createScheduler(clock);
+
+    const cancelA = scheduler.subscribe(minuteBoundary, jest.fn());
+    const cancelB = scheduler.subscribe(minuteBoundary, jest.fn());
+    cancelA();
+    expect(getPending()).toBe(1);
+    cancelB();
+    expect(getPending()).toBe(0);
+  });
+});
+
+describe('getScheduler', () => {
+  it('shares one scheduler per clock', () => {
+    const clockA = createFixedClock(new Date('2026-03-01T12:00:00Z'));
+    const clockB = createFixedClock(new Date('2026-03-01T12:00:00Z'));
+
+    expect(getScheduler(clockA)).toBe(getScheduler(clockA));
+    expect(getScheduler(clockA)).not.toBe(getScheduler(clockB));
+    expect(getScheduler(clockA).clock).toBe(clockA);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Settings Store Tests
+ *
+ * Verifies:
+ * 1. Settings load with schema defaults filled in
+ * 2. Stored values the schema no longer accepts fall back to the default
+ * 3. Stored settings are migrated once, step by step, to the knowlet's version
+ * 4. Saving rejects unknown keys and invalid values
+ * 5. Every field type validates its values; groups open up into flat settings
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=settings
+ */
+
+import {
+  createMemorySettingsStorage,
+  createSettingsStore,
+  getKnowletSettings,
+  getSettingsFields,
+  isSettingVisible,
+  isValidSettingValue,
+} from '../settings';
+import { createKnowletRegistry } from '../registry';
+import type { Knowlet, KnowletSettingsField, KnowletSettingsSchema } from '../types';
+
+/** Same shape as the boards knowlet's view mode */
+const boardsSchema: KnowletSettingsSchema = {
+  viewMode: {
+    type: 'select',
+    label: 'View Mode',
+    default: 'loshu',
+    options: [
+      { label: 'Lo Shu', value: 'loshu' },
+      { label: 'He Tu', value: 'hetu' },
+    ],
+  },
+  showLabels: { type: 'boolean', label: 'Labels', default: true },
+};
+
+function createKnowlet(extra: Partial<Knowlet> = {}): Knowlet {
+  return {
+    meta: { id: 'boards', name: 'Boards', requiredProviders: [], supportedLanguages: ['en'] },
+    settingsSchema: boardsSchema,
+    View: () => null,
+    ...extra,
+  };
+}
+
+function setup(knowlet: Knowlet, items: Record<string, unknown> = {}) {
+  const knowlets = createKnowletRegistry();
+  knowlets.register(knowlet);
+  const storage = createMemorySettingsStorage(
+    Object.fromEntries(Object.entries(items).map(([key, value]) => [key, JSON.stringify(value)]))
+  );
+  return { store: createSettingsStore({ knowlets, storage }), storage };
+}
+
+describe('isValidSettingValue', () => {
+  it('checks types and select options', () => {
+    expect(isValidSettingValue(boardsSchema.showLabels, false)).toBe(true);
+    expect(isValidSettingValue(boardsSchema.showLabels, 'false')).toBe(false);
+    expect(isValidSettingValue(boardsSchema.viewMode, 'hetu')).toBe(true);
+    expect(isValidSettingValue(boardsSchema.viewMode, 'branches')).toBe(false);
+    expect(isValidSettingValue({ type: 'number', label: 'n', default: 0 }, NaN)).toBe(false);
+    expect(isValidSettingValue({ type: 'string', label: 's', default: '' }, 'text')).toBe(true);
+  });
+});
+
+describe('Field types', () => {
+  const cases: [string, KnowletSettingsField, unknown[], unknown[]][] = [
+    [
+      'range',
+      { type: 'range', label: 'Size', default: 1, min: 0.5, max: 2, step: 0.25 },
+      [0.5, 1.25, 2],
+      [0.4, 1.1, 2.25, '1'],
+    ],
+    [
+      'multiselect',
+      {
+        type: 'multiselect',
+        label: 'Show',
+        default: [],
+        options: [
+          { label: 'Names', value: 'names' },
+          { label: 'Numbers', value: 'numbers' },
+        ],
+      },
+      [[], ['numbers', 'names']],
+      [['names', 'names'], ['symbols'], 'names'],
+    ],
+    ['color', { type: 'color', label: 'Accent', default: '#1a73e8' }, ['#1a73e8', '#FFF'], ['blue', '#12345', '1a73e8']],
+    [
+      'time',
+      { type: 'time', label: 'Wake', default: { hour: 7, minute: 0 } },
+      [{ hour: 0, minute: 0 }, { hour: 23, minute: 59 }],
+      [{ hour: 24, minute: 0 }, { hour: 7.5, minute: 0 }, '07:00'],
+    ],
+    [
+      'location',
+      { type: 'location', label: 'Home', default: null },
+      [null, { latitude: 40.4168, longitude: -3.7038 }],
+      [{ latitude: 91, longitude: 0 }, { latitude: 0 }, [40, -3]],
+    ],
+    ['hexagram', { type: 'hexagram', label: 'Focus', default: null }, [null, 1, 64], [0, 65, 2.5, [1]]],
+    [
+      'hexagram (multiple)',
+      { type: 'hexagram', label: 'Highlight', multiple: true, default: [] },
+      [[], [1, 64]],
+      [[1, 1], [0], null, 24],
+    ],
+  ];
+
+  it.each(cases)('%s accepts valid values only', (_, field, valid, invalid) => {
+    valid.forEach((value) => expect(isValidSettingValue(field, value)).toBe(true));
+    invalid.forEach((value) => expect(isValidSettingValue(field, value)).toBe(false));
+  });
+
+  const grouped: KnowletSettingsSchema = {
+    viewMode: boardsSchema.viewMode,
+    matrix: {
+      type: 'group',
+      label: 'Matrix',
+      visibleWhen: { viewMode: 'hetu' },
+      fields: {
+        highlighted: { type: 'hexagram', label: 'Highlight', multiple: true, default: [] },
+        home: { type: 'location', label: 'Home', default: null },
+      },
+    },
+  };
+
+  it('opens groups into flat settings with defaults', () => {
+    expect(Object.keys(getSettingsFields(grouped))).toEqual(['viewMode', 'highlighted', 'home']);
+    expect(getKnowletSettings(createKnowlet({ settingsSchema: grouped }), { highlighted: [2, 24] })).toEqual({
+      viewMode: 'loshu',
+      highlighted: [2, 24],
+      home: null,
+    });
+  });
+
+  it('shows fields while their conditions match', () => {
+    expect(isSettingVisible(grouped.matrix, { viewMode: 'loshu' })).toBe(false);
+    expect(isSettingVisible(grouped.matrix, { viewMode: 'hetu' })).toBe(true);
+    expect(isSettingVisible(grouped.viewMode, {})).toBe(true);
+  });
+
+  it('saves fields inside groups', async () => {
+    const { store } = setup(createKnowlet({ settingsSchema: grouped }));
+    await store.save('boards', { highlighted: [1, 2] });
+    expect(await store.load('boards')).toEqual({ viewMode: 'loshu', highlighted: [1, 2], home: null });
+    await expect(store.save('boards', { matrix: true })).rejects.toThrow('Unknown setting for boards: matrix');
+  });
+});
+
+describe('getKnowletSettings', () => {
+  it('keeps valid values and replaces the rest with defaults', () => {
+    expect(getKnowletSettings(createKnowlet(), { viewMode: 'circle', showLabels: false, stale: 1 })).toEqual({
+      viewMode: 'loshu',
+      showLabels: false,
+    });
+  });
+});
+
+describe('createSettingsStore', () => {
+  it('loads defaults when nothing is stored', async () => {
+    const { store } = setup(createKnowlet());
+    expect(await store.load('boards')).toEqual({ viewMode: 'loshu', showLabels: true });
+    expect(await store.loadAll()).toEqual({ boards: { viewMode: 'loshu', showLabels: true } });
+  });
+
+  it('saves and loads settings', async () => {
+    const { store, storage } = setup(createKnowlet());
+    await store.save('boards', { viewMode: 'hetu' });
+
+    expect(JSON.parse((await storage.getItem('knowlet-settings:boards'))!)).toEqual({
+      version: 1,
+      settings: { viewMode: 'hetu' },
+    });
+    expect(await store.load('boards')).toEqual({ viewMode: 'hetu', showLabels: true });
+
+    await store.reset('boards');
+    expect(await store.load('boards')).toEqual({ viewMode: 'loshu', showLabels: true });
+  });
+
+  it('falls back to the default for a removed select option', async () => {
+    const { store } = setup(createKnowlet(), {
+      'knowlet-settings:boards': { version: 1, settings: { viewMode: 'branches', showLabels: false } },
+    });
+    expect(await store.load('boards')).toEqual({ viewMode: 'loshu', showLabels: false });
+  });
+
+  it('ignores unreadable stored settings', async () => {
+    const { store, storage } = setup(createKnowlet());
+    await storage.setItem('knowlet-settings:boards', '{not json');
+    expect(await store.load('boards')).toEqual({ viewMode: 'loshu', showLabels: true });
+  });
+
+  it('rejects unknown keys and invalid values', async () => {
+    const { store } = setup(createKnowlet());
+    await expect(store.save('boards', { viewMode: 'branches' })).rejects.toThrow('Invalid select for boards.viewMode');
+    await expect(store.save('boards', { mode: 'hetu' })).rejects.toThrow('Unknown setting for boards: mode');
+    await expect(store.load('missing')).rejects.toThrow('Unknown knowlet: missing');
+  });
+});
+
+describe('Migrations', () => {
+  const migrateToV2 = jest.fn((settings: Record<string, unknown>) => {
+    // v2 renamed 'mode' to 'viewMode' and dropped the 'square' value
+    const { mode, ...rest } = settings;
+    return { ...rest, viewMode: mode === 'square' ? 'loshu' : mode };
+  });
+  const migrateToV3 = jest.fn((settings: Record<string, unknown>) => ({
+    ...settings,
+    showLabels: settings.labels !== 'hidden',
+  }));
+
+  const knowlet = createKnowlet({
+    settingsVersion: 3,
+    settingsMigrations: { 2: migrateToV2, 3: migrateToV3 },
+  });
+
+  beforeEach(() => {
+    migrateToV2.mockClear();
+    migrateToV3.mockClear();
+  });
+
+  it('runs each step from the stored version and stores the result', async () => {
+    const { store, storage } = setup(knowlet, {
+      'knowlet-settings:boards': { version: 1, settings: { mode: 'hetu', labels: 'hidden' } },
+    });
+
+    expect(await store.load('boards')).toEqual({ viewMode: 'hetu', showLabels: false });
+    expect(migrateToV2).toHaveBeenCalledTimes(1);
+    expect(migrateToV3).toHaveBeenCalledTimes(1);
+    expect(JSON.parse((await storage.getItem('knowlet-settings:boards'))!).version).toBe(3);
+
+    await store.load('boards');
+    expect(migrateToV2).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts from the stored version', async () => {
+    const { store } = setup(knowlet, {
+      'knowlet-settings:boards': { version: 2, settings: { viewMode: 'hetu' } },
+    });
+
+    expect(await store.load('boards')).toEqual({ viewMode: 'hetu', showLabels: true });
+    expect(migrateToV2).not.toHaveBeenCalled();
+    expect(migrateToV3).toHaveBeenCalledTimes(1);
+  });
+
+  it('saves at the current version', async () => {
+    const { store, storage } = setup(knowlet);
+    await store.save('boards', { showLabels: false });
+    expect(JSON.parse((await storage.getItem('knowlet-settings:boards'))!).version).toBe(3);
+  });
+});
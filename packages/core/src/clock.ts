@@ -0,0 +1,113 @@
+import type { Clock } from './types';
+
+/**
+ * Clocks
+ *
+ * - systemClock: real time (new Date() and setTimeout)
+ * - createFixedClock: stands still at an instant until moved by hand
+ * - createSimulatedClock: runs from a chosen instant, optionally faster
+ *   or slower than real time
+ */
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  schedule(callback, delayMs) {
+    const timeoutId = setTimeout(callback, delayMs);
+    return () => clearTimeout(timeoutId);
+  },
+};
+
+export interface FixedClock extends Clock {
+  /** Move the clock; timers due by the new instant fire in order */
+  setTime: (instant: Date) => void;
+  /** Move the clock forward by ms */
+  advance: (ms: number) => void;
+}
+
+interface PendingTimer {
+  id: number;
+  dueTime: number;
+  callback: () => void;
+}
+
+/**
+ * A clock that stands still at an instant
+ *
+ * Time only passes through setTime() or advance(), which fire the timers
+ * that have come due. Useful to show a board at a chosen moment, and to
+ * drive providers in tests without real timers.
+ */
+export function createFixedClock(instant: Date): FixedClock {
+  let currentTime = instant.getTime();
+  let nextId = 0;
+  let timers: PendingTimer[] = [];
+
+  const setTime = (target: Date) => {
+    const targetTime = target.getTime();
+
+    // Fire due timers one at a time, so callbacks that schedule again
+    // see the clock at their own due time
+    for (;;) {
+      const due = timers
+        .filter((timer) => timer.dueTime <= targetTime)
+        .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id)[0];
+      if (!due) break;
+      timers = timers.filter((timer) => timer !== due);
+      currentTime = Math.max(currentTime, due.dueTime);
+      due.callback();
+    }
+
+    currentTime = targetTime;
+  };
+
+  return {
+    now: () => new Date(currentTime),
+    schedule(callback, delayMs) {
+      const timer = { id: nextId++, dueTime: currentTime + Math.max(0, delayMs), callback };
+      timers.push(timer);
+      return () => {
+        timers = timers.filter((t) => t !== timer);
+      };
+    },
+    setTime,
+    advance(ms) {
+      setTime(new Date(currentTime + ms));
+    },
+  };
+}
+
+export interface SimulatedClockOptions {
+  /** Instant the simulation starts at (default: now on the base clock) */
+  start?: Date;
+  /** Fixed shift from the base clock in ms, applied when start is not given */
+  offsetMs?: number;
+  /** Simulated ms per real ms (default: 1); must be positive */
+  rate?: number;
+  /** Clock the simulation runs on (default: systemClock) */
+  baseClock?: Clock;
+}
+
+/**
+ * A clock that runs from a chosen instant at a chosen rate
+ *
+ * - Offset: { offsetMs: 24 * 3600000 } runs one day ahead
+ * - Preview: { start: tomorrow17h } runs from 17:00 tomorrow
+ * - Accelerated: { rate: 60 } passes one hour per real minute
+ *
+ * Timers are scaled to the base clock, so a provider's minute update
+ * fires every simulated minute.
+ */
+export function createSimulatedClock(options: SimulatedClockOptions = {}): Clock {
+  const { rate = 1, baseClock = systemClock, offsetMs = 0 } = options;
+  if (!(rate > 0)) {
+    throw new Error(`Simulated clock rate must be positive, got ${rate}`);
+  }
+
+  const baseOrigin = baseClock.now().getTime();
+  const simulatedOrigin = options.start ? options.start.getTime() : baseOrigin + offsetMs;
+
+  return {
+    now: () => new Date(simulatedOrigin + (baseClock.now().getTime() - baseOrigin) * rate),
+    schedule: (callback, delayMs) => baseClock.schedule(callback, delayMs / rate),
+  };
+}
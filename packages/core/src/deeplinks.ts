@@ -0,0 +1,197 @@
+import type {
+  KnowletHost,
+  KnowletInput,
+  KnowletRegistry,
+  KnowletViewParamType,
+  KnowletViewState,
+} from './types';
+import { toKnowletInput } from './outputs';
+
+/**
+ * Deep links
+ *
+ * Canonical URIs for a knowlet, one of its views, or an output sent to it:
+ *
+ *   iching://knowlet/hexagrams?input=hexagram:24
+ *   iching://knowlet/hours/view/hexagram-detail?hexagramNumber=44
+ *
+ * - Path: knowlet id, then optionally /view/<viewId>
+ * - input=<type>:<value>: the knowlet's inputData. Text and numbers are
+ *   written as is, object payloads (time, gps, rotation) as JSON.
+ * - Any other query param: a param of the view
+ *
+ * Parsed by hand rather than with URL, whose React Native polyfill does
+ * not handle custom schemes.
+ */
+
+export const DEEP_LINK_SCHEME = 'iching';
+
+const LINK_PREFIX = `${DEEP_LINK_SCHEME}://knowlet/`;
+const INPUT_PARAM = 'input';
+
+export interface KnowletLink {
+  knowletId: string;
+  view?: KnowletViewState;
+  input?: KnowletInput;
+}
+
+function encodeParamValue(name: string, value: unknown): string {
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return encodeURIComponent(String(value));
+  }
+  throw new Error(`View param ${name} cannot be written to a link: ${JSON.stringify(value)}`);
+}
+
+function encodeInput(input: KnowletInput): string {
+  const value = typeof input.value === 'object' ? JSON.stringify(input.value) : String(input.value);
+  return `${input.type}:${encodeURIComponent(value)}`;
+}
+
+/**
+ * Write a link as a URI
+ */
+export function serializeKnowletLink(link: KnowletLink): string {
+  let uri = LINK_PREFIX + encodeURIComponent(link.knowletId);
+  const query: string[] = [];
+
+  if (link.view) {
+    uri += `/view/${encodeURIComponent(link.view.id)}`;
+    for (const [name, value] of Object.entries(link.view.params ?? {})) {
+      if (name === INPUT_PARAM) {
+        throw new Error(`View param name is reserved for links: ${INPUT_PARAM}`);
+      }
+      if (value === undefined) continue;
+      query.push(`${encodeURIComponent(name)}=${encodeParamValue(name, value)}`);
+    }
+  }
+  if (link.input) {
+    query.push(`${INPUT_PARAM}=${encodeInput(link.input)}`);
+  }
+
+  return query.length > 0 ? `${uri}?${query.join('&')}` : uri;
+}
+
+/**
+ * Read an input back: text first, then a number, then JSON, keeping the
+ * first reading that is a valid payload for the type
+ */
+function decodeInput(raw: string): KnowletInput {
+  const separator = raw.indexOf(':');
+  if (separator <= 0) {
+    throw new Error(`Link input must be <type>:<value>, got: ${raw}`);
+  }
+  const type = raw.slice(0, separator);
+  const text = raw.slice(separator + 1);
+
+  const readings: (() => unknown)[] = [
+    () => text,
+    () => (text.trim() === '' ? NaN : Number(text)),
+    () => JSON.parse(text),
+  ];
+  for (const read of readings) {
+    let value: unknown;
+    try {
+      value = read();
+    } catch {
+      continue;
+    }
+    const input = toKnowletInput(type, value);
+    if (input) return input;
+  }
+  throw new Error(`Invalid ${type} input in link: ${text}`);
+}
+
+function decodeParamValue(name: string, text: string, type: KnowletViewParamType | undefined): unknown {
+  switch (type) {
+    case 'number': {
+      const value = text.trim() === '' ? NaN : Number(text);
+      if (!Number.isFinite(value)) {
+        throw new Error(`View param ${name} must be a number, got: ${text}`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (text !== 'true' && text !== 'false') {
+        throw new Error(`View param ${name} must be true or false, got: ${text}`);
+      }
+      return text === 'true';
+    default:
+      return text;
+  }
+}
+
+/**
+ * Read a URI as a link
+ *
+ * With a registry, the knowlet and view must exist, and view params are
+ * read with the types the view declares; without one, params stay text.
+ * Throws on malformed links.
+ */
+export function parseKnowletLink(uri: string, knowlets?: KnowletRegistry): KnowletLink {
+  if (!uri.startsWith(LINK_PREFIX)) {
+    throw new Error(`Not a knowlet link: ${uri}`);
+  }
+
+  const rest = uri.slice(LINK_PREFIX.length).split('#')[0];
+  const queryStart = rest.indexOf('?');
+  const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+  const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+
+  const segments = path.split('/').filter((segment) => segment !== '').map(decodeURIComponent);
+  const [knowletId, viewKeyword, viewId] = segments;
+  if (!knowletId || segments.length === 2 || segments.length > 3 || (viewKeyword && viewKeyword !== 'view')) {
+    throw new Error(`Knowlet link path must be <knowletId>[/view/<viewId>]: ${uri}`);
+  }
+
+  const knowlet = knowlets?.get(knowletId);
+  if (knowlets && !knowlet) {
+    throw new Error(`Unknown knowlet in link: ${knowletId}`);
+  }
+  const viewMeta = viewId ? knowlet?.meta.views?.find((view) => view.id === viewId) : undefined;
+  if (knowlets && viewId && !viewMeta) {
+    throw new Error(`Unknown view in link: ${knowletId}/${viewId}`);
+  }
+
+  const link: KnowletLink = { knowletId };
+  const params: Record<string, unknown> = {};
+
+  for (const pair of query.split('&')) {
+    if (pair === '') continue;
+    const equals = pair.indexOf('=');
+    const name = decodeURIComponent(equals === -1 ? pair : pair.slice(0, equals));
+    const text = equals === -1 ? '' : decodeURIComponent(pair.slice(equals + 1).replace(/\+/g, ' '));
+
+    if (name === INPUT_PARAM) {
+      link.input = decodeInput(text);
+    } else if (viewId) {
+      params[name] = decodeParamValue(name, text, viewMeta?.params?.[name]);
+    }
+  }
+
+  if (viewId) {
+    link.view = Object.keys(params).length > 0 ? { id: viewId, params } : { id: viewId };
+  }
+  return link;
+}
+
+/**
+ * Link to what a knowlet shows in a host: its current view and input
+ */
+export function getKnowletLink(host: KnowletHost, knowletId: string): KnowletLink {
+  const { currentView, inputData } = host.getContext(knowletId);
+  const link: KnowletLink = { knowletId };
+  if (currentView) link.view = currentView;
+  if (inputData) link.input = inputData;
+  return link;
+}
+
+/**
+ * Show a link in a host: jump to the knowlet with the input, then push
+ * the view
+ */
+export function openKnowletLink(host: KnowletHost, link: KnowletLink): void {
+  host.jumpTo(link.knowletId, link.input);
+  if (link.view) {
+    host.pushView(link.knowletId, link.view);
+  }
+}
@@ -1,5 +1,14 @@
-import { useEffect, useState, useSyncExternalStore } from 'react';
-import { SituationData, SituationProvider } from './types';
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import {
+  KnowletContext,
+  KnowletHost,
+  KnowletHostState,
+  MessageCatalogs,
+  SituationData,
+  SituationProvider,
+  Translate,
+} from './types';
+import { createTranslator } from './i18n';
 
 export function useSituation<T extends SituationData>(
   provider: SituationProvider<T>
@@ -33,3 +42,19 @@ export function useSituations(
 
   return data;
 }
+
+/** Navigation and preference state of a host, for the app shell */
+export function useKnowletHostState(host: KnowletHost): KnowletHostState {
+  return useSyncExternalStore(host.subscribe, host.getState, host.getState);
+}
+
+/** Live context of one knowlet, to pass to its View */
+export function useKnowletContext(host: KnowletHost, knowletId: string): KnowletContext {
+  const getContext = () => host.getContext(knowletId);
+  return useSyncExternalStore(host.subscribe, getContext, getContext);
+}
+
+/** t() for a knowlet's messages in the context language */
+export function useTranslation(context: Pick<KnowletContext, 'language'>, catalogs: MessageCatalogs): Translate {
+  return useMemo(() => createTranslator(catalogs, context.language), [catalogs, context.language]);
+}
@@ -0,0 +1,329 @@
+import type {
+  ColorScheme,
+  Knowlet,
+  KnowletContext,
+  KnowletHost,
+  KnowletHostState,
+  KnowletInput,
+  KnowletRegistry,
+  KnowletSettings,
+  KnowletViewState,
+  OutputPayload,
+  OutputResolution,
+  OutputRouter,
+  OutputType,
+  ProviderRegistry,
+  SituationData,
+  TranslationPreferences,
+} from './types';
+import { DEFAULT_TRANSLATION_PREFERENCES } from './translations';
+import { createOutputRouter } from './router';
+import { isOutputPayload } from './outputs';
+import { assertValidSettings, getKnowletSettings } from './settings';
+
+/**
+ * KnowletHost - Reference runtime for knowlets
+ *
+ * Builds each knowlet's KnowletContext from:
+ * - Situations of the registered providers (live while the host has
+ *   listeners, for the providers the active knowlet requires)
+ * - A view stack per knowlet (pushView / popView / currentView)
+ * - Output routing through an OutputRouter (ranked consumers, defaults),
+ *   with payloads validated per output type
+ * - Per-knowlet settings over the schema defaults (values the schema
+ *   does not accept fall back to the default)
+ *
+ * No React Native dependency: apps render from getState() and
+ * getContext(), tests drive the host directly.
+ */
+
+export interface KnowletHostConfig {
+  knowlets: KnowletRegistry;
+  providers: ProviderRegistry;
+  router?: OutputRouter; // Default: a router over knowlets, without defaults
+  /** Knowlet on screen at start */
+  initialKnowletId?: string;
+  language?: string; // Default: 'en'
+  colorScheme?: ColorScheme; // Default: 'light'
+  translationPreferences?: TranslationPreferences; // Default: DEFAULT_TRANSLATION_PREFERENCES
+  /** Stored settings per knowlet */
+  settings?: Record<string, KnowletSettings>;
+  /**
+   * Called after a knowlet's settings change, e.g. to persist them (see
+   * SettingsStore). A throw or a returned promise that rejects goes to
+   * onSettingsError.
+   */
+  onSettingsChange?: (knowletId: string, settings: KnowletSettings) => void | Promise<void>;
+  /** Called when onSettingsChange throws or rejects (default: console.error) */
+  onSettingsError?: (knowletId: string, error: unknown) => void;
+}
+
+const reportSettingsError = (knowletId: string, error: unknown) => {
+  console.error(`Could not save settings for ${knowletId}:`, error);
+};
+
+export function createKnowletHost(config: KnowletHostConfig): KnowletHost {
+  const {
+    knowlets,
+    providers,
+    onSettingsChange,
+    onSettingsError = reportSettingsError,
+    router = createOutputRouter({ knowlets }),
+  } = config;
+
+  let state: KnowletHostState = {
+    activeKnowletId: config.initialKnowletId ?? null,
+    viewStacks: {},
+    inputs: {},
+    selector: null,
+    language: config.language ?? 'en',
+    colorScheme: config.colorScheme ?? 'light',
+    translationPreferences: config.translationPreferences ?? DEFAULT_TRANSLATION_PREFERENCES,
+    settings: config.settings ?? {},
+  };
+
+  const listeners = new Set<() => void>();
+  const contexts = new Map<string, { version: number; context: KnowletContext }>();
+  let version = 0;
+  let providerUnsubscribes: (() => void)[] = [];
+  let watchedKnowletId: string | null = null;
+
+  const notify = () => {
+    version++;
+    listeners.forEach((listener) => listener());
+  };
+
+  const requireKnowlet = (knowletId: string): Knowlet => {
+    const knowlet = knowlets.get(knowletId);
+    if (!knowlet) {
+      throw new Error(`Unknown knowlet: ${knowletId}`);
+    }
+    return knowlet;
+  };
+
+  const getSituations = (): Record<string, SituationData> => {
+    const situations: Record<string, SituationData> = {};
+    for (const provider of providers.getAll()) {
+      situations[provider.id] = provider.getCurrentData();
+    }
+    return situations;
+  };
+
+  /**
+   * Keep live subscriptions to the providers the active knowlet needs,
+   * only while someone listens to the host
+   */
+  const watchProviders = () => {
+    const knowletId = listeners.size > 0 ? state.activeKnowletId : null;
+    if (knowletId === watchedKnowletId) return;
+
+    providerUnsubscribes.forEach((unsubscribe) => unsubscribe());
+    providerUnsubscribes = [];
+    watchedKnowletId = knowletId;
+
+    const knowlet = knowletId ? knowlets.get(knowletId) : undefined;
+    for (const providerId of knowlet?.meta.requiredProviders ?? []) {
+      const provider = providers.get(providerId);
+      if (!provider) continue;
+      let initial = true;
+      providerUnsubscribes.push(
+        provider.subscribe(() => {
+          // Providers call back on subscribe with data we already have
+          if (!initial) notify();
+        })
+      );
+      initial = false;
+    }
+  };
+
+  const setState = (changes: Partial<KnowletHostState>) => {
+    state = { ...state, ...changes };
+    watchProviders();
+    notify();
+  };
+
+  const getViewStack = (knowletId: string): KnowletViewState[] => state.viewStacks[knowletId] ?? [];
+
+  const jumpTo = (knowletId: string, input?: KnowletInput) => {
+    requireKnowlet(knowletId);
+    if (input && !isOutputPayload(input.type, input.value)) {
+      throw new TypeError(`Invalid ${input.type} input: ${JSON.stringify(input.value)}`);
+    }
+    const inputs = { ...state.inputs };
+    const viewStacks = { ...state.viewStacks };
+    if (input) {
+      // Show the input on the knowlet's main view
+      inputs[knowletId] = input;
+      viewStacks[knowletId] = [];
+    } else {
+      delete inputs[knowletId];
+    }
+    setState({ activeKnowletId: knowletId, inputs, viewStacks, selector: null });
+  };
+
+  const pushView = (knowletId: string, view: KnowletViewState) => {
+    requireKnowlet(knowletId);
+    setState({
+      viewStacks: { ...state.viewStacks, [knowletId]: [...getViewStack(knowletId), view] },
+    });
+  };
+
+  const popView = (knowletId: string) => {
+    const stack = getViewStack(knowletId);
+    if (stack.length === 0) return; // Already on the main view
+    setState({ viewStacks: { ...state.viewStacks, [knowletId]: stack.slice(0, -1) } });
+  };
+
+  /**
+   * Resolve an output whose value is checked first: typed callers can
+   * still pass bad data at runtime (casts, stored or linked values)
+   */
+  const resolveOutput = (
+    type: OutputType,
+    value: unknown,
+    sourceId: string | null
+  ): OutputResolution => {
+    if (!isOutputPayload(type, value)) {
+      return { status: 'invalid-value', type, candidates: [] };
+    }
+    return router.resolve(type, sourceId);
+  };
+
+  const openSelector = (input: KnowletInput, sourceId: string | null, candidates: Knowlet[]) => {
+    setState({ selector: { ...input, sourceId, candidates } });
+  };
+
+  const showSelector = <T extends OutputType>(
+    type: T,
+    value: OutputPayload<T>,
+    sourceId: string | null = null
+  ): OutputResolution => {
+    const resolution = resolveOutput(type, value, sourceId);
+    if (resolution.candidates.length > 0) {
+      openSelector({ type, value } as KnowletInput, sourceId, resolution.candidates);
+    }
+    return resolution;
+  };
+
+  const routeOutput = <T extends OutputType>(
+    type: T,
+    value: OutputPayload<T>,
+    sourceId: string | null = null
+  ): OutputResolution => {
+    const input = { type, value } as KnowletInput;
+    const resolution = resolveOutput(type, value, sourceId);
+    switch (resolution.status) {
+      case 'default':
+      case 'single':
+        jumpTo(resolution.knowletId, input);
+        break;
+      case 'choose':
+        openSelector(input, sourceId, resolution.candidates);
+        break;
+      case 'invalid-value':
+      case 'no-consumer':
+        break; // Reported to the caller; nothing receives this output
+    }
+    return resolution;
+  };
+
+  const getSettings = (knowletId: string): KnowletSettings =>
+    getKnowletSettings(requireKnowlet(knowletId), state.settings[knowletId]);
+
+  const buildContext = (knowletId: string): KnowletContext => {
+    const stack = getViewStack(knowletId);
+    return {
+      situations: getSituations(),
+      settings: getSettings(knowletId),
+      language: state.language,
+      colorScheme: state.colorScheme,
+      translationPreferences: state.translationPreferences,
+      jumpTo: (targetId) => jumpTo(targetId),
+      pushView: (viewId, params) => pushView(knowletId, { id: viewId, params }),
+      popView: () => popView(knowletId),
+      currentView: stack.length > 0 ? stack[stack.length - 1] : null,
+      emitOutput: (type, value) => {
+        routeOutput(type, value, knowletId);
+      },
+      showKnowletSelector: (type, value) => {
+        showSelector(type, value, knowletId);
+      },
+      inputData: state.inputs[knowletId],
+    };
+  };
+
+  return {
+    getState: () => state,
+
+    subscribe(listener) {
+      listeners.add(listener);
+      watchProviders();
+      return () => {
+        listeners.delete(listener);
+        watchProviders();
+      };
+    },
+
+    getContext(knowletId) {
+      const cached = contexts.get(knowletId);
+      if (cached && cached.version === version) {
+        return cached.context;
+      }
+      const context = buildContext(knowletId);
+      contexts.set(knowletId, { version, context });
+      return context;
+    },
+
+    jumpTo,
+    pushView,
+    popView,
+    router,
+    routeOutput,
+    showSelector,
+
+    selectConsumer(knowletId, options = {}) {
+      const { selector } = state;
+      if (!selector) return;
+      if (options.remember) {
+        router.setDefaultConsumer(selector.type, knowletId);
+      }
+      jumpTo(knowletId, { type: selector.type, value: selector.value } as KnowletInput);
+    },
+
+    dismissSelector() {
+      if (state.selector) {
+        setState({ selector: null });
+      }
+    },
+
+    getSettings,
+
+    updateSettings(knowletId, settings) {
+      assertValidSettings(requireKnowlet(knowletId), settings);
+      setState({ settings: { ...state.settings, [knowletId]: settings } });
+      if (onSettingsChange) {
+        new Promise<void>((resolve) => resolve(onSettingsChange(knowletId, settings))).catch((error) =>
+          onSettingsError(knowletId, error)
+        );
+      }
+    },
+
+    setLanguage(language) {
+      setState({ language });
+    },
+
+    setColorScheme(colorScheme) {
+      setState({ colorScheme });
+    },
+
+    setTranslationPreferences(translationPreferences) {
+      setState({ translationPreferences });
+    },
+
+    dispose() {
+      listeners.clear();
+      watchProviders();
+      contexts.clear();
+    },
+  };
+}
@@ -0,0 +1,109 @@
+import type {
+  Knowlet,
+  Message,
+  MessageCatalogs,
+  PluralCategory,
+  Translate,
+  TranslateParams,
+} from './types';
+
+/**
+ * Localization
+ *
+ * Knowlets keep their UI text in message catalogs, one per language:
+ *
+ *   export const messages: MessageCatalogs = {
+ *     en: { judgment: 'The Judgment', lines: { one: '{count} line', other: '{count} lines' } },
+ *     es: { judgment: 'El Dictamen', lines: { one: '{count} línea', other: '{count} líneas' } },
+ *   };
+ *
+ *   const t = useTranslation(context, messages);
+ *   t('lines', { count: 6 }); // '6 lines'
+ *
+ * A missing message falls back through the language's parents
+ * (zh-Hant-TW → zh-Hant → zh), then to English, then to the key itself.
+ */
+
+export const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Languages to look messages up in, most specific first
+ */
+export function getLanguageFallbacks(language: string, fallbackLanguage: string = FALLBACK_LANGUAGE): string[] {
+  const languages: string[] = [];
+  const parts = language.split(/[-_]/);
+  for (let length = parts.length; length > 0; length--) {
+    const tag = parts.slice(0, length).join('-');
+    if (tag && !languages.includes(tag)) languages.push(tag);
+  }
+  if (!languages.includes(fallbackLanguage)) languages.push(fallbackLanguage);
+  return languages;
+}
+
+/**
+ * Plural category of a count in a language. Without Intl.PluralRules
+ * (older JS engines), 1 is 'one' and anything else 'other'.
+ */
+export function getPluralCategory(language: string, count: number): PluralCategory {
+  if (typeof Intl !== 'undefined' && typeof Intl.PluralRules === 'function') {
+    try {
+      return new Intl.PluralRules(language).select(count) as PluralCategory;
+    } catch {
+      // Unknown language tag: use the simple rule
+    }
+  }
+  return count === 1 ? 'one' : 'other';
+}
+
+/**
+ * Replace {name} placeholders; unknown placeholders are left as written
+ */
+export function interpolate(text: string, params: TranslateParams = {}): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+function formatMessage(message: Message, language: string, params?: TranslateParams): string {
+  if (typeof message === 'string') {
+    return interpolate(message, params);
+  }
+  const count = Number(params?.count);
+  const category = Number.isFinite(count) ? getPluralCategory(language, count) : 'other';
+  return interpolate(message[category] ?? message.other, params);
+}
+
+/**
+ * Translate function over a knowlet's catalogs for one language
+ */
+export function createTranslator(
+  catalogs: MessageCatalogs,
+  language: string,
+  fallbackLanguage: string = FALLBACK_LANGUAGE
+): Translate {
+  const languages = getLanguageFallbacks(language, fallbackLanguage);
+  return (key, params) => {
+    for (const lang of languages) {
+      const message = catalogs[lang]?.[key];
+      if (message !== undefined) return formatMessage(message, lang, params);
+    }
+    return key;
+  };
+}
+
+/**
+ * Message keys each supported language lacks, compared with every key
+ * of every catalog. Languages with nothing missing are left out, so an
+ * empty result means the knowlet is fully translated.
+ */
+export function findMissingMessages(knowlet: Knowlet): Record<string, string[]> {
+  const catalogs = knowlet.messages ?? {};
+  const keys = new Set(Object.values(catalogs).flatMap((catalog) => Object.keys(catalog)));
+  const missing: Record<string, string[]> = {};
+  for (const language of knowlet.meta.supportedLanguages) {
+    const catalog = catalogs[language] ?? {};
+    const absent = Array.from(keys).filter((key) => !(key in catalog));
+    if (absent.length > 0) missing[language] = absent;
+  }
+  return missing;
+}
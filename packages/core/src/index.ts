@@ -1,9 +1,18 @@
 export * from './types';
 export * from './registry';
+export * from './clock';
+export * from './scheduler';
+export * from './outputs';
+export * from './router';
+export * from './settings';
+export * from './host';
+export * from './deeplinks';
 export * from './hooks';
 export * from './theme';
 export * from './translations';
+export * from './i18n';
 export * from './ActionableElement';
 export * from './HexagramLines';
 export * from './TemporalNavigator';
 export * from './AnimatedProgressBar';
+export * from './SettingsView';
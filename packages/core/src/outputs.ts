@@ -0,0 +1,78 @@
+import type {
+  AnimalOutput,
+  ElementOutput,
+  KnowletInput,
+  OutputPayload,
+  OutputPayloadMap,
+  OutputType,
+  TrigramOutput,
+} from './types';
+
+/**
+ * Output payload validation
+ *
+ * Outputs cross knowlet boundaries (and later deep links), so values are
+ * checked at runtime when routed: a knowlet receiving 'trigram' input can
+ * rely on a valid trigram id.
+ */
+
+export const TRIGRAM_OUTPUTS: readonly TrigramOutput[] = [
+  'heaven', 'earth', 'thunder', 'water', 'mountain', 'wind', 'fire', 'lake',
+];
+
+export const ELEMENT_OUTPUTS: readonly ElementOutput[] = ['wood', 'fire', 'earth', 'metal', 'water'];
+
+export const ANIMAL_OUTPUTS: readonly AnimalOutput[] = [
+  'rat', 'ox', 'tiger', 'rabbit', 'dragon', 'snake',
+  'horse', 'goat', 'monkey', 'rooster', 'dog', 'pig',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isOneOf = <T extends string>(options: readonly T[]) =>
+  (value: unknown): value is T => options.includes(value as T);
+
+type OutputValidators = {
+  [T in OutputType]: (value: unknown) => value is OutputPayloadMap[T];
+};
+
+const OUTPUT_VALIDATORS: OutputValidators = {
+  time: (value): value is OutputPayloadMap['time'] =>
+    isRecord(value) &&
+    Number.isInteger(value.hour) && isNumberIn(value.hour, 0, 23) &&
+    Number.isInteger(value.minute) && isNumberIn(value.minute, 0, 59),
+  gps: (value): value is OutputPayloadMap['gps'] =>
+    isRecord(value) &&
+    isNumberIn(value.longitude, -180, 180) &&
+    isNumberIn(value.latitude, -90, 90) &&
+    (value.accuracyMeters === undefined || isNumberIn(value.accuracyMeters, 0, Infinity)),
+  rotation: (value): value is OutputPayloadMap['rotation'] =>
+    isRecord(value) && isNumberIn(value.heading, 0, 360),
+  hexagram: (value): value is number => Number.isInteger(value) && isNumberIn(value, 1, 64),
+  trigram: isOneOf(TRIGRAM_OUTPUTS),
+  yinyang: isOneOf(['yin', 'yang'] as const),
+  element: isOneOf(ELEMENT_OUTPUTS),
+  animal: isOneOf(ANIMAL_OUTPUTS),
+};
+
+/**
+ * Whether a value is a valid payload for an output type
+ */
+export function isOutputPayload<T extends OutputType>(type: T, value: unknown): value is OutputPayload<T> {
+  const validator = OUTPUT_VALIDATORS[type] as ((value: unknown) => boolean) | undefined;
+  return validator ? validator(value) : false;
+}
+
+/**
+ * Build a KnowletInput from untyped data, or null when the type is
+ * unknown or the value does not fit it
+ */
+export function toKnowletInput(type: string, value: unknown): KnowletInput | null {
+  if (!Object.prototype.hasOwnProperty.call(OUTPUT_VALIDATORS, type)) return null;
+  const outputType = type as OutputType;
+  return isOutputPayload(outputType, value) ? ({ type: outputType, value } as KnowletInput) : null;
+}
@@ -0,0 +1,122 @@
+import type {
+  DefaultConsumers,
+  Knowlet,
+  KnowletRegistry,
+  OutputResolution,
+  OutputRouter,
+  OutputType,
+} from './types';
+
+/**
+ * OutputRouter - Decides which knowlet receives an emitted output
+ *
+ * Knowlets are indexed by the output types they consume. Candidates are
+ * ranked by:
+ * 1. The user's default consumer for the type
+ * 2. How early the type appears in the knowlet's consumes list
+ *    (its primary input first)
+ * 3. Fewer consumed types (specialized viewers before general boards)
+ * 4. Registration order
+ *
+ * The emitting knowlet is never a candidate for its own output.
+ */
+
+export interface OutputRouterConfig {
+  knowlets: KnowletRegistry;
+  /** Stored default consumers */
+  defaultConsumers?: DefaultConsumers;
+  /** Called after a default consumer changes, e.g. to persist them */
+  onDefaultConsumersChange?: (defaultConsumers: DefaultConsumers) => void;
+}
+
+export function createOutputRouter(config: OutputRouterConfig): OutputRouter {
+  const { knowlets, onDefaultConsumersChange } = config;
+  let defaultConsumers: DefaultConsumers = { ...config.defaultConsumers };
+
+  // Index of consumers per type, rebuilt when the registered knowlets change
+  let indexedKnowlets: Knowlet[] = [];
+  let index = new Map<OutputType, Knowlet[]>();
+
+  const getIndex = (): Map<OutputType, Knowlet[]> => {
+    const all = knowlets.getAll();
+    const changed =
+      all.length !== indexedKnowlets.length || all.some((knowlet, i) => knowlet !== indexedKnowlets[i]);
+    if (!changed) return index;
+
+    indexedKnowlets = all;
+    index = new Map();
+    all.forEach((knowlet) => {
+      for (const type of knowlet.meta.consumes ?? []) {
+        index.set(type, [...(index.get(type) ?? []), knowlet]);
+      }
+    });
+    return index;
+  };
+
+  const getDefaultConsumer = (type: OutputType): string | null => {
+    const knowletId = defaultConsumers[type];
+    // A default whose knowlet is gone or no longer consumes the type is ignored
+    const consumers = getIndex().get(type) ?? [];
+    return knowletId && consumers.some((k) => k.meta.id === knowletId) ? knowletId : null;
+  };
+
+  const getConsumers = (type: OutputType, sourceId: string | null = null): Knowlet[] => {
+    const consumers = (getIndex().get(type) ?? []).filter((k) => k.meta.id !== sourceId);
+    const defaultId = getDefaultConsumer(type);
+    const order = new Map(indexedKnowlets.map((knowlet, i) => [knowlet, i]));
+
+    const rank = (knowlet: Knowlet): number[] => {
+      const consumes = knowlet.meta.consumes ?? [];
+      return [
+        knowlet.meta.id === defaultId ? 0 : 1,
+        consumes.indexOf(type),
+        consumes.length,
+        order.get(knowlet) ?? 0,
+      ];
+    };
+
+    return consumers
+      .map((knowlet) => ({ knowlet, rank: rank(knowlet) }))
+      .sort((a, b) => {
+        for (let i = 0; i < a.rank.length; i++) {
+          if (a.rank[i] !== b.rank[i]) return a.rank[i] - b.rank[i];
+        }
+        return 0;
+      })
+      .map(({ knowlet }) => knowlet);
+  };
+
+  return {
+    getConsumers,
+    getDefaultConsumer,
+
+    resolve(type, sourceId = null): OutputResolution {
+      const candidates = getConsumers(type, sourceId);
+      if (candidates.length === 0) {
+        return { status: 'no-consumer', type, candidates: [] };
+      }
+
+      const defaultId = getDefaultConsumer(type);
+      if (defaultId && candidates[0].meta.id === defaultId) {
+        return { status: 'default', type, knowletId: defaultId, candidates };
+      }
+      if (candidates.length === 1) {
+        return { status: 'single', type, knowletId: candidates[0].meta.id, candidates };
+      }
+      return { status: 'choose', type, candidates };
+    },
+
+    setDefaultConsumer(type, knowletId) {
+      const next = { ...defaultConsumers };
+      if (knowletId) {
+        next[type] = knowletId;
+      } else {
+        delete next[type];
+      }
+      defaultConsumers = next;
+      onDefaultConsumersChange?.(defaultConsumers);
+    },
+
+    getDefaultConsumers: () => defaultConsumers,
+  };
+}
@@ -0,0 +1,141 @@
+import type { Boundary, Clock, Scheduler } from './types';
+import { systemClock } from './clock';
+
+/**
+ * Scheduler
+ *
+ * Providers used to keep one timer chain each, all waking at the same
+ * minute boundary. A Scheduler keeps a single timer on its clock, set for
+ * the earliest pending boundary, and runs every subscription that is due
+ * when it fires. Idle periods between wakeups let Android enter
+ * low-power states.
+ */
+
+/** Small buffer to ensure we are past the boundary when the timer fires */
+const BOUNDARY_BUFFER_MS = 100;
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/** The next whole minute */
+export const minuteBoundary: Boundary = (now) =>
+  new Date((Math.floor(now.getTime() / MS_PER_MINUTE) + 1) * MS_PER_MINUTE);
+
+/**
+ * Every intervalMs from the last wakeup (e.g. hourly progress refreshes)
+ */
+export function intervalBoundary(intervalMs: number): Boundary {
+  return (now) => new Date(now.getTime() + intervalMs);
+}
+
+/**
+ * The earliest of several boundaries
+ */
+export function earliestBoundary(...boundaries: Boundary[]): Boundary {
+  return (now) => new Date(Math.min(...boundaries.map((boundary) => boundary(now).getTime())));
+}
+
+interface Subscription {
+  boundary: Boundary;
+  callback: (now: Date) => void;
+  dueTime: number;
+}
+
+export function createScheduler(clock: Clock = systemClock): Scheduler {
+  const subscriptions = new Set<Subscription>();
+  let cancelTimeout: (() => void) | null = null;
+  let timerDueTime = Infinity;
+
+  const getDueTime = (boundary: Boundary, now: Date): number =>
+    // A boundary must lie ahead, or the subscription would spin
+    Math.max(boundary(now).getTime(), now.getTime() + 1);
+
+  const stopTimer = () => {
+    if (cancelTimeout) {
+      cancelTimeout();
+      cancelTimeout = null;
+    }
+    timerDueTime = Infinity;
+  };
+
+  /**
+   * Keep the single timer set for the earliest pending boundary
+   */
+  const updateTimer = () => {
+    let earliest = Infinity;
+    subscriptions.forEach((subscription) => {
+      earliest = Math.min(earliest, subscription.dueTime);
+    });
+
+    if (earliest === timerDueTime) return; // Already scheduled
+    stopTimer();
+    if (earliest === Infinity) return; // Nothing to wait for
+
+    timerDueTime = earliest;
+    const delay = Math.max(0, earliest - clock.now().getTime()) + BOUNDARY_BUFFER_MS;
+    cancelTimeout = clock.schedule(wakeUp, delay);
+  };
+
+  function wakeUp() {
+    cancelTimeout = null;
+    timerDueTime = Infinity;
+
+    const now = clock.now();
+    const due = Array.from(subscriptions).filter((s) => s.dueTime <= now.getTime());
+    const errors: unknown[] = [];
+    due.forEach((subscription) => {
+      // A callback may cancel a subscription that is due in this same wakeup
+      if (!subscriptions.has(subscription)) return;
+      try {
+        subscription.callback(now);
+      } catch (error) {
+        errors.push(error);
+      } finally {
+        // Ask for the next boundary after the callback, which may have
+        // updated the state the boundary is read from
+        subscription.dueTime = getDueTime(subscription.boundary, now);
+      }
+    });
+
+    // A throwing callback must not stop the other subscriptions: rearm
+    // the timer first, then let the error surface
+    updateTimer();
+    if (errors.length > 0) throw errors[0];
+  }
+
+  return {
+    clock,
+
+    subscribe(boundary, callback) {
+      const subscription: Subscription = {
+        boundary,
+        callback,
+        dueTime: getDueTime(boundary, clock.now()),
+      };
+      subscriptions.add(subscription);
+      updateTimer();
+
+      return () => {
+        if (subscriptions.delete(subscription)) {
+          updateTimer();
+        }
+      };
+    },
+  };
+}
+
+const sharedSchedulers = new WeakMap<Clock, Scheduler>();
+
+/**
+ * The scheduler shared by everything that runs on a clock
+ *
+ * Providers and locators take their scheduler from here by default, so
+ * all of them wake together on one timer.
+ */
+export function getScheduler(clock: Clock = systemClock): Scheduler {
+  let scheduler = sharedSchedulers.get(clock);
+  if (!scheduler) {
+    scheduler = createScheduler(clock);
+    sharedSchedulers.set(clock, scheduler);
+  }
+  return scheduler;
+}
@@ -0,0 +1,279 @@
+import type {
+  Knowlet,
+  KnowletRegistry,
+  KnowletSettings,
+  KnowletSettingsField,
+  KnowletSettingsSchema,
+  SettingsStorage,
+  ValueSettingsField,
+} from './types';
+
+/**
+ * Settings store
+ *
+ * Persists each knowlet's settings through a SettingsStorage adapter
+ * (in memory, or AsyncStorage on devices), stamped with the knowlet's
+ * settingsVersion:
+ *
+ *   { "version": 2, "settings": { "viewMode": "hetu" } }
+ *
+ * Loading runs the knowlet's migrations from the stored version, drops
+ * values the schema no longer accepts (a removed select option, a renamed
+ * key) and fills the rest from the schema defaults.
+ *
+ * Usage with a host:
+ *   const store = createSettingsStore({ knowlets, storage: AsyncStorage });
+ *   const host = createKnowletHost({
+ *     knowlets,
+ *     providers,
+ *     settings: await store.loadAll(),
+ *     onSettingsChange: store.save,
+ *     onSettingsError: (knowletId, error) => showError(knowletId, error),
+ *   });
+ *
+ * The host validates settings before applying them, and reports a
+ * rejected save (a storage failure) through onSettingsError.
+ */
+
+const DEFAULT_KEY_PREFIX = 'knowlet-settings:';
+
+interface StoredSettings {
+  version: number;
+  settings: KnowletSettings;
+}
+
+export interface SettingsStoreConfig {
+  knowlets: KnowletRegistry;
+  storage?: SettingsStorage; // Default: in-memory storage
+  keyPrefix?: string; // Default: 'knowlet-settings:'
+}
+
+export interface SettingsStore {
+  /** Settings of a knowlet: stored values migrated and validated, over the defaults */
+  load: (knowletId: string) => Promise<KnowletSettings>;
+  /** Settings of every registered knowlet, by knowlet id */
+  loadAll: () => Promise<Record<string, KnowletSettings>>;
+  /** Store settings at the knowlet's current version (invalid values throw) */
+  save: (knowletId: string, settings: KnowletSettings) => Promise<void>;
+  /** Forget stored settings; the knowlet is back to its defaults */
+  reset: (knowletId: string) => Promise<void>;
+}
+
+/**
+ * Storage that keeps values in memory, for tests and platforms without
+ * persistent storage
+ */
+export function createMemorySettingsStorage(initial: Record<string, string> = {}): SettingsStorage {
+  const items = new Map(Object.entries(initial));
+  return {
+    getItem: async (key) => items.get(key) ?? null,
+    setItem: async (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: async (key) => {
+      items.delete(key);
+    },
+  };
+}
+
+const isIntegerIn = (value: unknown, min: number, max: number): value is number =>
+  Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+const isHexagramNumber = (value: unknown): value is number => isIntegerIn(value, 1, 64);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Whether a value fits a settings field: its type, range and options.
+ * Groups hold no value of their own.
+ */
+export function isValidSettingValue(field: KnowletSettingsField, value: unknown): boolean {
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'select':
+      return !field.options || field.options.some((option) => option.value === value);
+    case 'range': {
+      if (!isNumberIn(value, field.min, field.max)) return false;
+      const steps = (value - field.min) / (field.step ?? 1);
+      return Math.abs(steps - Math.round(steps)) < 1e-9;
+    }
+    case 'multiselect':
+      return (
+        Array.isArray(value) &&
+        new Set(value).size === value.length &&
+        value.every((item) => field.options.some((option) => option.value === item))
+      );
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value);
+    case 'time':
+      return isRecord(value) && isIntegerIn(value.hour, 0, 23) && isIntegerIn(value.minute, 0, 59);
+    case 'location':
+      return (
+        value === null ||
+        (isRecord(value) && isNumberIn(value.latitude, -90, 90) && isNumberIn(value.longitude, -180, 180))
+      );
+    case 'hexagram':
+      if (field.multiple) {
+        return Array.isArray(value) && new Set(value).size === value.length && value.every(isHexagramNumber);
+      }
+      return value === null || isHexagramNumber(value);
+    case 'group':
+      return false;
+  }
+}
+
+/**
+ * Fields that hold values, by settings key: groups are opened up, so
+ * their fields appear beside the top-level ones
+ */
+export function getSettingsFields(schema: KnowletSettingsSchema = {}): Record<string, ValueSettingsField> {
+  const fields: Record<string, ValueSettingsField> = {};
+  for (const [key, field] of Object.entries(schema)) {
+    if (field.type === 'group') {
+      Object.assign(fields, getSettingsFields(field.fields));
+    } else {
+      fields[key] = field;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Whether a field (or group) is shown for the current settings
+ */
+export function isSettingVisible(field: KnowletSettingsField, settings: KnowletSettings): boolean {
+  return Object.entries(field.visibleWhen ?? {}).every(([key, value]) => settings[key] === value);
+}
+
+/**
+ * Throws a TypeError for a key the knowlet's schema does not have, or a
+ * value its field does not accept
+ */
+export function assertValidSettings(knowlet: Knowlet, settings: KnowletSettings): void {
+  const schema = getSettingsFields(knowlet.settingsSchema);
+  for (const [key, value] of Object.entries(settings)) {
+    const field = schema[key];
+    if (!field) {
+      throw new TypeError(`Unknown setting for ${knowlet.meta.id}: ${key}`);
+    }
+    if (!isValidSettingValue(field, value)) {
+      throw new TypeError(`Invalid ${field.type} for ${knowlet.meta.id}.${key}: ${JSON.stringify(value)}`);
+    }
+  }
+}
+
+/**
+ * Settings of a knowlet: schema defaults overlaid with the stored values
+ * the schema accepts
+ */
+export function getKnowletSettings(knowlet: Knowlet, stored: KnowletSettings = {}): KnowletSettings {
+  const settings: KnowletSettings = {};
+  for (const [key, field] of Object.entries(getSettingsFields(knowlet.settingsSchema))) {
+    settings[key] = key in stored && isValidSettingValue(field, stored[key]) ? stored[key] : field.default;
+  }
+  return settings;
+}
+
+/**
+ * Bring settings stored at a version up to the knowlet's settingsVersion.
+ * Missing steps are skipped; settings from a newer version are left to
+ * validation.
+ */
+export function migrateKnowletSettings(
+  knowlet: Knowlet,
+  settings: KnowletSettings,
+  fromVersion: number
+): KnowletSettings {
+  const toVersion = knowlet.settingsVersion ?? 1;
+  let migrated = settings;
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migrate = knowlet.settingsMigrations?.[version];
+    if (migrate) migrated = migrate(migrated);
+  }
+  return migrated;
+}
+
+function parseStoredSettings(json: string | null): StoredSettings | null {
+  if (json === null) return null;
+  try {
+    const stored = JSON.parse(json);
+    if (
+      typeof stored === 'object' && stored !== null &&
+      Number.isInteger(stored.version) &&
+      typeof stored.settings === 'object' && stored.settings !== null
+    ) {
+      return stored;
+    }
+  } catch {
+    // Unreadable: same as nothing stored
+  }
+  return null;
+}
+
+export function createSettingsStore(config: SettingsStoreConfig): SettingsStore {
+  const { knowlets, storage = createMemorySettingsStorage(), keyPrefix = DEFAULT_KEY_PREFIX } = config;
+
+  const requireKnowlet = (knowletId: string): Knowlet => {
+    const knowlet = knowlets.get(knowletId);
+    if (!knowlet) {
+      throw new Error(`Unknown knowlet: ${knowletId}`);
+    }
+    return knowlet;
+  };
+
+  const write = (knowlet: Knowlet, settings: KnowletSettings) => {
+    const stored: StoredSettings = { version: knowlet.settingsVersion ?? 1, settings };
+    return storage.setItem(keyPrefix + knowlet.meta.id, JSON.stringify(stored));
+  };
+
+  const load = async (knowletId: string): Promise<KnowletSettings> => {
+    const knowlet = requireKnowlet(knowletId);
+    const stored = parseStoredSettings(await storage.getItem(keyPrefix + knowletId));
+    if (!stored) {
+      return getKnowletSettings(knowlet);
+    }
+
+    const version = knowlet.settingsVersion ?? 1;
+    if (stored.version >= version) {
+      return getKnowletSettings(knowlet, stored.settings);
+    }
+    // Store the migrated settings so that migrations run once
+    const migrated = migrateKnowletSettings(knowlet, stored.settings, stored.version);
+    await write(knowlet, migrated);
+    return getKnowletSettings(knowlet, migrated);
+  };
+
+  return {
+    load,
+
+    async loadAll() {
+      const all: Record<string, KnowletSettings> = {};
+      for (const knowlet of knowlets.getAll()) {
+        all[knowlet.meta.id] = await load(knowlet.meta.id);
+      }
+      return all;
+    },
+
+    async save(knowletId, settings) {
+      const knowlet = requireKnowlet(knowletId);
+      assertValidSettings(knowlet, settings);
+      await write(knowlet, settings);
+    },
+
+    async reset(knowletId) {
+      requireKnowlet(knowletId);
+      await storage.removeItem(keyPrefix + knowletId);
+    },
+  };
+}
@@ -2,50 +2,81 @@
  * Translation utilities for I-Ching content
  */
 
-import type { TranslationPreferences, EnglishSource, SpanishSource, ChineseSource } from './types';
+import type {
+  LocalizableString,
+  TranslationLanguage,
+  TranslationPreferences,
+  TranslationSourceId,
+} from './types';
+import { getLanguageFallbacks } from './i18n';
+
+/**
+ * Translation sources offered for each language, default first.
+ * Hexagram data is keyed `${language}-${source}` for every pair listed here.
+ */
+export const TRANSLATION_SOURCES = {
+  en: ['wilhelm', 'legge'],
+  es: ['wilhelm', 'legge', 'zhouyi'],
+  zh: ['zhouyi'],
+  fr: ['wilhelm'],
+  de: ['wilhelm'],
+  pt: ['wilhelm'],
+} as const;
 
 /**
  * Default translation sources for each language (first-time user experience)
  */
-export const DEFAULT_TRANSLATION_PREFERENCES: TranslationPreferences = {
-  en: 'wilhelm',
-  es: 'wilhelm',
-  zh: 'zhouyi',
-};
+export const DEFAULT_TRANSLATION_PREFERENCES = Object.fromEntries(
+  Object.entries(TRANSLATION_SOURCES).map(([language, sources]) => [language, sources[0]])
+) as TranslationPreferences;
+
+/**
+ * Language whose translation sources serve a language code: the code
+ * itself, or its nearest parent (pt-BR → pt), or English
+ */
+export function getTranslationLanguage(language: string): TranslationLanguage {
+  return getLanguageFallbacks(language).find(isTranslationLanguage) ?? 'en';
+}
+
+function isTranslationLanguage(language: string): language is TranslationLanguage {
+  return language in TRANSLATION_SOURCES;
+}
 
 /**
  * Gets the translation source for a given language from user preferences.
- * Falls back to defaults if preferences not set.
+ * A preferred source the language doesn't offer is ignored in favour of
+ * the language's default.
  */
 export function getTranslationSourceForLanguage(
   language: string,
   preferences?: TranslationPreferences
-): string {
-  if (!preferences) {
-    // Use defaults if no preferences provided
-    return DEFAULT_TRANSLATION_PREFERENCES[language as keyof TranslationPreferences] || 'wilhelm';
-  }
-
-  switch (language) {
-    case 'en':
-      return preferences.en || DEFAULT_TRANSLATION_PREFERENCES.en;
-    case 'es':
-      return preferences.es || DEFAULT_TRANSLATION_PREFERENCES.es;
-    case 'zh':
-      return preferences.zh || DEFAULT_TRANSLATION_PREFERENCES.zh;
-    default:
-      return 'wilhelm'; // Fallback for unsupported languages
-  }
+): TranslationSourceId {
+  const translationLanguage = getTranslationLanguage(language);
+  const sources: readonly TranslationSourceId[] = TRANSLATION_SOURCES[translationLanguage];
+  // Stored preferences may predate a change to TRANSLATION_SOURCES
+  const preferred = preferences?.[translationLanguage];
+  return preferred && sources.includes(preferred) ? preferred : sources[0];
 }
 
 /**
  * Constructs the translation key for hexagram data lookup.
- * Format: `${language}-${source}` (e.g., 'en-wilhelm', 'es-legge', 'zh-zhouyi')
+ * Format: `${language}-${source}` (e.g., 'en-wilhelm', 'es-legge', 'zh-zhouyi'),
+ * using the language that serves regional codes (see getTranslationLanguage)
  */
 export function getTranslationKey(
   language: string,
   preferences?: TranslationPreferences
 ): string {
   const source = getTranslationSourceForLanguage(language, preferences);
-  return `${language}-${source}`;
+  return `${getTranslationLanguage(language)}-${source}`;
+}
+
+/**
+ * Text of a LocalizableString in a language, falling back like messages
+ * (see getLanguageFallbacks) and then to any available language
+ */
+export function localize(text: LocalizableString, language: string): string {
+  if (typeof text === 'string') return text;
+  const lang = getLanguageFallbacks(language).find((candidate) => candidate in text);
+  return lang ? text[lang] : Object.values(text)[0] ?? '';
 }
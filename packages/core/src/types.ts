@@ -1,4 +1,5 @@
 import { ReactNode } from 'react';
+import type { TRANSLATION_SOURCES } from './translations';
 
 // Situation Provider Types
 export interface SituationData {
@@ -12,6 +13,41 @@ export interface SituationProvider<T extends SituationData = SituationData> {
   getCurrentData: () => T;
 }
 
+// Clock Types (time source for providers and locators)
+/**
+ * Source of "now" and of timers. Providers take a Clock instead of calling
+ * new Date() and setTimeout directly, so they can run at a chosen instant
+ * or in simulated time.
+ */
+export interface Clock {
+  /** Current instant on this clock */
+  now: () => Date;
+  /**
+   * Run callback after delayMs of this clock's time.
+   * Returns a function that cancels the timer.
+   */
+  schedule: (callback: () => void, delayMs: number) => () => void;
+}
+
+/**
+ * Next instant after now at which something observable changes
+ * (the next minute, the next shichen, the next solar term, ...)
+ */
+export type Boundary = (now: Date) => Date;
+
+/**
+ * Wakes subscribers at their boundaries. All subscriptions share one
+ * timer on the clock, so boundaries that coincide cost a single wakeup.
+ */
+export interface Scheduler {
+  clock: Clock;
+  /**
+   * Call callback at every boundary from now on.
+   * Returns a function that cancels the subscription.
+   */
+  subscribe: (boundary: Boundary, callback: (now: Date) => void) => () => void;
+}
+
 // Theme
 /** Resolved color scheme (actual theme in use) */
 export type ColorScheme = 'light' | 'dark';
@@ -32,6 +68,52 @@ export type OutputType =
   | 'element'   // 'wood' | 'fire' | 'earth' | 'metal' | 'water'
   | 'animal';   // Earthly branch animal
 
+/** Trigram id of a 'trigram' output (the ids of @iching-kt/data-hexagrams) */
+export type TrigramOutput =
+  | 'heaven' | 'earth' | 'thunder' | 'water' | 'mountain' | 'wind' | 'fire' | 'lake';
+/** Wu Xing phase of an 'element' output */
+export type ElementOutput = 'wood' | 'fire' | 'earth' | 'metal' | 'water';
+/** Earthly branch animal of an 'animal' output, from Zi (rat) to Hai (pig) */
+export type AnimalOutput =
+  | 'rat' | 'ox' | 'tiger' | 'rabbit' | 'dragon' | 'snake'
+  | 'horse' | 'goat' | 'monkey' | 'rooster' | 'dog' | 'pig';
+
+/** Clock reading of a 'time' output (a TimeData or SolarTimeData fits) */
+export interface TimeOutput {
+  hour: number;
+  minute: number;
+  [key: string]: unknown;
+}
+
+/** Position of a 'gps' output */
+export interface GpsOutput {
+  longitude: number;
+  latitude: number;
+  accuracyMeters?: number;
+}
+
+/** Heading of a 'rotation' output, in degrees clockwise from north (0-360) */
+export interface RotationOutput {
+  heading: number;
+}
+
+/** Payload carried by each output type */
+export interface OutputPayloadMap {
+  time: TimeOutput;
+  gps: GpsOutput;
+  rotation: RotationOutput;
+  hexagram: number; // 1-64, King Wen order
+  trigram: TrigramOutput;
+  yinyang: 'yin' | 'yang';
+  element: ElementOutput;
+  animal: AnimalOutput;
+}
+
+export type OutputPayload<T extends OutputType> = OutputPayloadMap[T];
+
+/** Emit an output with the payload of its type */
+export type EmitOutput = <T extends OutputType>(type: T, value: OutputPayload<T>) => void;
+
 // Knowlet Types
 export interface KnowletMeta {
   id: string;
@@ -48,6 +130,18 @@ export interface KnowletMeta {
   produces?: OutputType[];
   /** Category: 'board' for panels, 'data' for viewers, 'tool' for utilities */
   category?: KnowletCategory;
+  /** Detail views reachable with pushView (and deep links) */
+  views?: KnowletViewMeta[];
+}
+
+/** Type of a view param, so links can carry it as text */
+export type KnowletViewParamType = 'string' | 'number' | 'boolean';
+
+/** A detail view a knowlet can push */
+export interface KnowletViewMeta {
+  id: string;
+  /** Params the view reads, by name */
+  params?: Record<string, KnowletViewParamType>;
 }
 
 export interface KnowletSettings {
@@ -57,35 +151,133 @@ export interface KnowletSettings {
 /** Localizable string: either a plain string or language-keyed record */
 export type LocalizableString = string | Record<string, string>;
 
+export interface KnowletSettingsOption {
+  label: LocalizableString;
+  value: unknown;
+}
+
+/** Time of day for 'time' settings */
+export interface SettingsTime {
+  hour: number; // 0-23
+  minute: number; // 0-59
+}
+
+/** Coordinates for 'location' settings */
+export interface SettingsLocation {
+  latitude: number; // -90 to 90
+  longitude: number; // -180 to 180
+}
+
+/**
+ * Other settings and the values they must have, e.g. { viewMode: 'matrix' }.
+ * Every listed setting must match.
+ */
+export type SettingsCondition = Record<string, unknown>;
+
+interface SettingsFieldBase {
+  /** Label can be a string or localized { en: '...', es: '...', zh: '...' } */
+  label: LocalizableString;
+  /** Only shown while other settings match (hidden fields keep their value) */
+  visibleWhen?: SettingsCondition;
+}
+
+export type KnowletSettingsField = SettingsFieldBase &
+  (
+    | { type: 'boolean'; default: boolean }
+    | { type: 'string'; default: string }
+    | { type: 'number'; default: number }
+    | { type: 'select'; default: unknown; options?: KnowletSettingsOption[] }
+    /** Number from min to max, in steps from min (default step: 1) */
+    | { type: 'range'; default: number; min: number; max: number; step?: number }
+    /** Any number of the options, without repeats */
+    | { type: 'multiselect'; default: unknown[]; options: KnowletSettingsOption[] }
+    /** Hex color: '#rrggbb' or '#rgb' */
+    | { type: 'color'; default: string }
+    | { type: 'time'; default: SettingsTime }
+    /** null = not set */
+    | { type: 'location'; default: SettingsLocation | null }
+    /** Hexagram number 1-64 (null = none), or a list of them when multiple */
+    | { type: 'hexagram'; multiple?: false; default: number | null }
+    | { type: 'hexagram'; multiple: true; default: number[] }
+    /** Section of fields; their values sit beside the others, not nested */
+    | { type: 'group'; fields: KnowletSettingsSchema }
+  );
+
+export type KnowletSettingsFieldType = KnowletSettingsField['type'];
+
+/** A settings field that holds a value (anything but a group) */
+export type ValueSettingsField = Exclude<KnowletSettingsField, { type: 'group' }>;
+
 export interface KnowletSettingsSchema {
-  [key: string]: {
-    type: 'boolean' | 'string' | 'number' | 'select';
-    /** Label can be a string or localized { en: '...', es: '...', zh: '...' } */
-    label: LocalizableString;
-    default: unknown;
-    options?: { label: LocalizableString; value: unknown }[];
-  };
-}
-
-/** Translation source for English content */
-export type EnglishSource = 'wilhelm' | 'legge';
-/** Translation source for Spanish content */
-export type SpanishSource = 'wilhelm' | 'legge' | 'zhouyi';
-/** Translation source for Chinese content */
-export type ChineseSource = 'zhouyi';
+  [key: string]: KnowletSettingsField;
+}
+
+/** Turns settings stored at the previous version into the next version */
+export type KnowletSettingsMigration = (settings: KnowletSettings) => KnowletSettings;
 
 /**
- * User's translation source preferences per language.
- * - Chinese (zh): Always Zhouyi 周易 classical text (default: 'zhouyi')
- * - English (en): Wilhelm-Baynes or Legge (default: 'wilhelm')
- * - Spanish (es): Wilhelm-Baynes, Legge, or Zhouyi translated to Spanish (default: 'wilhelm')
+ * Key-value storage for settings, shaped like React Native's AsyncStorage
+ * so that it can be passed in directly
  */
-export interface TranslationPreferences {
-  en: EnglishSource;
-  es: SpanishSource;
-  zh: ChineseSource;
+export interface SettingsStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
 }
 
+// Localization Types
+/** CLDR plural category, as chosen by Intl.PluralRules */
+export type PluralCategory = 'zero' | 'one' | 'two' | 'few' | 'many' | 'other';
+
+/** Message with a form per plural category of {count} */
+export type PluralMessage = Partial<Record<PluralCategory, string>> & { other: string };
+
+/** UI text with {name} placeholders, or plural forms */
+export type Message = string | PluralMessage;
+
+/** Messages of one language, by key */
+export type MessageCatalog = Record<string, Message>;
+
+/** Message catalogs by language code, e.g. { en: {...}, es: {...}, zh: {...} } */
+export type MessageCatalogs = Record<string, MessageCatalog>;
+
+export type TranslateParams = Record<string, string | number>;
+
+/** Text of a message in the current language, falling back as needed */
+export type Translate = (key: string, params?: TranslateParams) => string;
+
+/** Language with its own hexagram translations (a key of TRANSLATION_SOURCES) */
+export type TranslationLanguage = keyof typeof TRANSLATION_SOURCES;
+
+/** Translation source a language offers, e.g. 'wilhelm' | 'legge' for 'en' */
+export type TranslationSourceOf<L extends TranslationLanguage> = (typeof TRANSLATION_SOURCES)[L][number];
+
+/** Translation source any language offers: 'wilhelm' | 'legge' | 'zhouyi' */
+export type TranslationSourceId = TranslationSourceOf<TranslationLanguage>;
+
+/** @deprecated use TranslationSourceOf<'en'> */
+export type EnglishSource = TranslationSourceOf<'en'>;
+/** @deprecated use TranslationSourceOf<'es'> */
+export type SpanishSource = TranslationSourceOf<'es'>;
+/** @deprecated use TranslationSourceOf<'zh'> */
+export type ChineseSource = TranslationSourceOf<'zh'>;
+/** @deprecated use TranslationSourceOf<'fr'> */
+export type FrenchSource = TranslationSourceOf<'fr'>;
+/** @deprecated use TranslationSourceOf<'de'> */
+export type GermanSource = TranslationSourceOf<'de'>;
+/** @deprecated use TranslationSourceOf<'pt'> */
+export type PortugueseSource = TranslationSourceOf<'pt'>;
+
+/**
+ * User's translation source preferences, keyed by language code
+ * (e.g., { en: 'legge', es: 'zhouyi' }). Each language only takes the
+ * sources TRANSLATION_SOURCES lists for it; languages without an entry
+ * use its default.
+ */
+export type TranslationPreferences = {
+  [L in TranslationLanguage]?: TranslationSourceOf<L>;
+};
+
 export interface KnowletContext {
   situations: Record<string, SituationData>;
   settings: KnowletSettings;
@@ -100,23 +292,51 @@ export interface KnowletContext {
   /** Go back to the previous view */
   popView: () => void;
   /** Current view state (null = main view) */
-  currentView: { id: string; params?: Record<string, unknown> } | null;
+  currentView: KnowletViewState | null;
   /** Emit output to trigger navigation to consuming knowlets */
-  emitOutput: (type: OutputType, value: unknown) => void;
+  emitOutput: EmitOutput;
   /** Show selector modal to choose a consuming knowlet for the output */
-  showKnowletSelector: (type: OutputType, value: unknown) => void;
+  showKnowletSelector: EmitOutput;
   /** Input data passed from another knowlet (if navigated via output emission) */
-  inputData?: { type: OutputType; value: unknown };
+  inputData?: KnowletInput;
+}
+
+/** A detail view on a knowlet's view stack */
+export interface KnowletViewState {
+  id: string;
+  params?: Record<string, unknown>;
 }
 
+/**
+ * Output delivered to a knowlet as its input. Checking type narrows
+ * value to that type's payload.
+ */
+export type KnowletInput = {
+  [T in OutputType]: { type: T; value: OutputPayload<T> };
+}[OutputType];
+
 export interface Knowlet {
   meta: KnowletMeta;
   settingsSchema?: KnowletSettingsSchema;
+  /** UI messages by language (checked against meta.supportedLanguages) */
+  messages?: MessageCatalogs;
+  /** Version of the settings shape (default: 1); bump it with a migration */
+  settingsVersion?: number;
+  /**
+   * Migrations by the version they produce: settingsMigrations[2] turns
+   * version 1 settings into version 2
+   */
+  settingsMigrations?: Record<number, KnowletSettingsMigration>;
   View: React.ComponentType<{ context: KnowletContext }>;
-  SettingsView?: React.ComponentType<{
-    settings: KnowletSettings;
-    onChange: (settings: KnowletSettings) => void;
-  }>;
+  /** Custom settings screen (default: generated from settingsSchema) */
+  SettingsView?: React.ComponentType<KnowletSettingsViewProps>;
+}
+
+export interface KnowletSettingsViewProps {
+  settings: KnowletSettings;
+  onChange: (settings: KnowletSettings) => void;
+  language?: string; // Default: 'en'
+  colorScheme?: ColorScheme; // Default: 'light'
 }
 
 // GeoLocator Types (for Solar Time calculation)
@@ -266,3 +486,105 @@ export interface ProviderRegistry {
   get: <T extends SituationData>(id: string) => SituationProvider<T> | undefined;
   getAll: () => SituationProvider[];
 }
+
+// Router Types
+/**
+ * Where an output goes:
+ * - 'invalid-value': the value is not a valid payload for the type
+ * - 'no-consumer': no registered knowlet (other than the source) consumes it
+ * - 'default': the user's preferred consumer for this type
+ * - 'single': the only consumer
+ * - 'choose': several consumers and no default; ask the user
+ */
+export type OutputResolution =
+  | { status: 'invalid-value' | 'no-consumer'; type: OutputType; candidates: [] }
+  | { status: 'default' | 'single'; type: OutputType; knowletId: string; candidates: Knowlet[] }
+  | { status: 'choose'; type: OutputType; candidates: Knowlet[] };
+
+/** User's preferred consumer per output type */
+export type DefaultConsumers = Partial<Record<OutputType, string>>;
+
+/**
+ * Decides which knowlet receives an output. Candidates are ranked the
+ * same way for direct routing and for the selector.
+ */
+export interface OutputRouter {
+  /** Ranked consumers of a type, without the emitting knowlet */
+  getConsumers: (type: OutputType, sourceId?: string | null) => Knowlet[];
+  resolve: (type: OutputType, sourceId?: string | null) => OutputResolution;
+  getDefaultConsumer: (type: OutputType) => string | null;
+  /** Remember (or forget, with null) the preferred consumer of a type */
+  setDefaultConsumer: (type: OutputType, knowletId: string | null) => void;
+  getDefaultConsumers: () => DefaultConsumers;
+}
+
+// Host Types
+/** Pending choice of a consumer for an emitted output */
+export type KnowletSelectorRequest = KnowletInput & {
+  /** Knowlet that emitted the output (null = the app) */
+  sourceId: string | null;
+  /** Knowlets that consume this output type, ranked */
+  candidates: Knowlet[];
+};
+
+/** Navigation and preference state of a KnowletHost */
+export interface KnowletHostState {
+  /** Knowlet on screen (null = none selected yet) */
+  activeKnowletId: string | null;
+  /** Detail views per knowlet; the last entry is the current view */
+  viewStacks: Record<string, KnowletViewState[]>;
+  /** Input last routed to each knowlet */
+  inputs: Record<string, KnowletInput>;
+  /** Open consumer selector (null = closed) */
+  selector: KnowletSelectorRequest | null;
+  language: string;
+  colorScheme: ColorScheme;
+  translationPreferences: TranslationPreferences;
+  /** Stored settings per knowlet (schema defaults not applied) */
+  settings: Record<string, KnowletSettings>;
+}
+
+/**
+ * Runtime that hosts knowlets: builds their contexts, keeps a view stack
+ * per knowlet and routes outputs to consuming knowlets.
+ */
+export interface KnowletHost {
+  getState: () => KnowletHostState;
+  /** Listen to state and situation changes; returns unsubscribe */
+  subscribe: (listener: () => void) => () => void;
+  /** Context for a knowlet; the same object until something changes */
+  getContext: (knowletId: string) => KnowletContext;
+  /** Show a knowlet, optionally with an input (invalid inputs throw) */
+  jumpTo: (knowletId: string, input?: KnowletInput) => void;
+  pushView: (knowletId: string, view: KnowletViewState) => void;
+  popView: (knowletId: string) => void;
+  router: OutputRouter;
+  /**
+   * Send an output to its default or only consumer, or open the selector
+   * when there are several. Values are validated against the type's
+   * payload first. Returns how the output was resolved.
+   */
+  routeOutput: <T extends OutputType>(
+    type: T,
+    value: OutputPayload<T>,
+    sourceId?: string | null
+  ) => OutputResolution;
+  /** Open the selector with the ranked consumers (none or invalid: stays closed) */
+  showSelector: <T extends OutputType>(
+    type: T,
+    value: OutputPayload<T>,
+    sourceId?: string | null
+  ) => OutputResolution;
+  /** Deliver the selector's output to the chosen knowlet, optionally as the new default */
+  selectConsumer: (knowletId: string, options?: { remember?: boolean }) => void;
+  dismissSelector: () => void;
+  /** Settings of a knowlet with schema defaults filled in */
+  getSettings: (knowletId: string) => KnowletSettings;
+  /** Replace a knowlet's settings (a TypeError for values its schema does not accept) */
+  updateSettings: (knowletId: string, settings: KnowletSettings) => void;
+  setLanguage: (language: string) => void;
+  setColorScheme: (colorScheme: ColorScheme) => void;
+  setTranslationPreferences: (preferences: TranslationPreferences) => void;
+  /** Stop listening to providers and drop listeners */
+  dispose: () => void;
+}
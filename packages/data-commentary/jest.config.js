@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
+  testMatch: ['**/__tests__/**/*.test.{ts,tsx}'],
+  transform: {
+    '^.+\\.(ts|tsx|js|jsx)$': 'babel-jest',
+  },
+  moduleNameMapper: {
+    '^@iching-kt/core$': '<rootDir>/../core/src',
+    '^@iching-kt/data-hexagrams$': '<rootDir>/../data-hexagrams/src',
+    '^@iching-kt/provider-time$': '<rootDir>/../provider-time/src',
+  },
+};
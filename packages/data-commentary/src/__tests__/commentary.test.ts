@@ -0,0 +1,150 @@
+/**
+ * Commentary Data Tests
+ *
+ * Verifies:
+ * 1. Every hexagram carries every commentary key, with six Small Images
+ *    plus 用九/用六 for hexagrams 1 and 2, and attribution metadata
+ * 2. The classical Sequence passages lead into the right hexagram
+ * 3. The Wenyan exists for hexagrams 1 and 2 only
+ * 4. The Zagua pairs cover each hexagram exactly once
+ * 5. Lookups use the default source and fall back to English
+ * 6. The Xici has twelve chapters to a part and the Shuogua covers every
+ *    trigram, with a rendering for every classical paragraph
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=commentary
+ */
+
+import { hexagrams } from '@iching-kt/data-hexagrams';
+import {
+  commentaries,
+  getHexagramCommentary,
+  getLineCommentary,
+  getMovingLineCommentaries,
+  getSequenceRationale,
+  getTuan,
+} from '../commentary';
+import { CLASSICAL_TEXT, COMMENTARY_KEYS, PROJECT_ENGLISH } from '../sources';
+import { getShuoguaChapter, getShuoguaTrigram, shuoguaChapters, shuoguaTrigrams } from '../shuogua';
+import { getWenyan, wenyan } from '../wenyan';
+import { getXiciChapter, xiciChapters } from '../xici';
+import { getZaguaPair, getZaguaPartner, getZaguaText, zaguaPairs } from '../zagua';
+
+describe('commentaries', () => {
+  it('carries every key for all 64 hexagrams', () => {
+    for (let n = 1; n <= 64; n++) {
+      expect(commentaries[n].number).toBe(n);
+      expect(Object.keys(commentaries[n].translations)).toEqual([...COMMENTARY_KEYS]);
+      for (const translation of Object.values(commentaries[n].translations)) {
+        expect(translation.tuan.trim()).not.toBe('');
+        expect(translation.sequence.trim()).not.toBe('');
+        expect(translation.lines.map((line) => line.position)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(translation.lines.every((line) => line.text.trim() !== '')).toBe(true);
+        expect(translation.allMoving !== undefined).toBe(n <= 2);
+      }
+    }
+  });
+
+  it('attributes the classical text and the English rendering', () => {
+    expect(commentaries[11].translations['zh-zhouyi'].metadata).toBe(CLASSICAL_TEXT);
+    expect(commentaries[11].translations['en-project'].metadata).toBe(PROJECT_ENGLISH);
+    expect(CLASSICAL_TEXT).toEqual({ source: 'original-chinese', license: 'public-domain', originalLanguage: 'zh' });
+  });
+
+  it('leads each classical Sequence passage into its hexagram', () => {
+    for (let n = 3; n <= 64; n++) {
+      if (n === 31) continue;
+      expect(getSequenceRationale(n, 'zh')).toContain(`受之以${hexagrams[n].chinese}`);
+    }
+    expect(getSequenceRationale(31, 'zh')).toMatch(/^有天地然後有萬物/);
+  });
+});
+
+describe('commentary lookups', () => {
+  it('uses the default source for each language', () => {
+    expect(getTuan(1, 'zh')).toMatch(/^大哉乾元/);
+    expect(getTuan(1, 'en')).toMatch(/^Vast indeed/);
+    expect(getLineCommentary(1, 1, 'zh')?.text).toBe('潛龍勿用，陽在下也。');
+    expect(getHexagramCommentary(2, 'zh', 'zhouyi')?.allMoving).toBe('用六永貞，以大終也。');
+  });
+
+  it('falls back to English for languages without commentary', () => {
+    expect(getHexagramCommentary(29, 'es')).toBe(commentaries[29].translations['en-project']);
+    expect(getHexagramCommentary(29, 'es', 'wilhelm')).toBeUndefined();
+    expect(getHexagramCommentary(65, 'en')).toBeUndefined();
+  });
+
+  it('gets the Small Images of moving lines bottom to top', () => {
+    expect(getMovingLineCommentaries(63, [5, 2], 'en').map((line) => line.position)).toEqual([2, 5]);
+    expect(getMovingLineCommentaries(65, [1], 'en')).toEqual([]);
+  });
+});
+
+describe('wenyan', () => {
+  it('exists for hexagrams 1 and 2 only', () => {
+    expect(getWenyan(1, 'zh')?.paragraphs[0]).toMatch(/^元者，善之長也/);
+    expect(getWenyan(2, 'fr')).toBe(wenyan[2].translations['en-project']);
+    expect(getWenyan(3, 'en')).toBeUndefined();
+  });
+
+  it('has a rendering for every classical paragraph', () => {
+    for (const entry of Object.values(wenyan)) {
+      expect(entry.translations['en-project'].paragraphs).toHaveLength(entry.translations['zh-zhouyi'].paragraphs.length);
+    }
+  });
+});
+
+describe('zagua', () => {
+  it('pairs every hexagram exactly once', () => {
+    const numbers = zaguaPairs.flatMap((pair) => pair.hexagrams).sort((a, b) => a - b);
+    expect(numbers).toEqual(Array.from({ length: 64 }, (_, i) => i + 1));
+  });
+
+  it('finds a hexagram\'s pair and partner', () => {
+    expect(getZaguaPair(1)).toBe(zaguaPairs[0]);
+    expect(getZaguaPartner(2)).toBe(1);
+    expect(getZaguaPartner(43)).toBe(44);
+    expect(getZaguaPartner(65)).toBeUndefined();
+    expect(getZaguaText(64, 'zh')?.text).toBe('既濟定也。未濟男之窮也。');
+  });
+});
+
+describe('xici', () => {
+  it('has twelve chapters to each part with every key', () => {
+    for (const part of ['upper', 'lower'] as const) {
+      const chapters = xiciChapters.filter((entry) => entry.part === part).map((entry) => entry.chapter);
+      expect(chapters).toEqual(Array.from({ length: 12 }, (_, i) => i + 1));
+    }
+    for (const entry of xiciChapters) {
+      expect(Object.keys(entry.translations)).toEqual([...COMMENTARY_KEYS]);
+      expect(entry.translations['en-project'].paragraphs).toHaveLength(entry.translations['zh-zhouyi'].paragraphs.length);
+    }
+  });
+
+  it('looks up a chapter by part and number', () => {
+    expect(getXiciChapter('upper', 1, 'zh')?.paragraphs[0]).toMatch(/^天尊地卑，乾坤定矣/);
+    expect(getXiciChapter('lower', 12, 'en')?.metadata).toBe(PROJECT_ENGLISH);
+    expect(getXiciChapter('upper', 5, 'de')).toBe(xiciChapters[4].translations['en-project']);
+    expect(getXiciChapter('lower', 13, 'zh')).toBeUndefined();
+  });
+});
+
+describe('shuogua', () => {
+  it('keeps chapters 1-6 by chapter and every trigram with every key', () => {
+    expect(shuoguaChapters.map((entry) => entry.chapter)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(Object.keys(shuoguaTrigrams).sort()).toEqual(
+      ['earth', 'fire', 'heaven', 'lake', 'mountain', 'thunder', 'water', 'wind']
+    );
+    for (const entry of [...shuoguaChapters, ...Object.values(shuoguaTrigrams)]) {
+      expect(Object.keys(entry.translations)).toEqual([...COMMENTARY_KEYS]);
+    }
+  });
+
+  it('looks up a chapter or a trigram', () => {
+    expect(getShuoguaChapter(3, 'zh')?.text).toMatch(/^天地定位/);
+    expect(getShuoguaChapter(7, 'zh')).toBeUndefined();
+    expect(getShuoguaTrigram('heaven', 'zh')?.attribute).toBe('乾，健也。');
+    expect(getShuoguaTrigram('lake', 'zh')?.body).toBe('兌為口。');
+    expect(getShuoguaTrigram('water', 'pt')).toBe(shuoguaTrigrams.water.translations['en-project']);
+  });
+});
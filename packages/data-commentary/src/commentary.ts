@@ -0,0 +1,2070 @@
+/**
+ * Ten Wings Commentary (十翼) - All 64 Hexagrams
+ *
+ * Sources:
+ * - Ten Wings 十翼, received text (Public Domain)
+ * - English renderings written for this project, checked against
+ *   the Legge (1882) and Wilhelm-Baynes (1950) translations
+ *
+ * Each translation carries, for one hexagram:
+ * - the Commentary on the Decision (彖傳)
+ * - the Small Image (小象) on each line statement, bottom to top, plus
+ *   the 用九/用六 statement for hexagrams 1 and 2
+ * - the passage of the Sequence (序卦) that leads into the hexagram;
+ *   hexagrams 1 and 2 share the opening sentence, and hexagram 31 has the
+ *   preface to the second book instead of a "受之以" clause
+ *
+ * Translation keys use language-source format (see COMMENTARY_KEYS):
+ * - 'zh-zhouyi': Chinese classical text (default)
+ * - 'en-project': English project rendering (default)
+ */
+
+import { LinePosition } from '@iching-kt/data-hexagrams';
+import { CLASSICAL_TEXT, PROJECT_ENGLISH, resolveCommentaryKey } from './sources';
+import { HexagramCommentary, HexagramCommentaryTranslation, LineCommentary } from './types';
+
+export const commentaries: Record<number, HexagramCommentary> = {
+  1: {
+    number: 1,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大哉乾元，萬物資始，乃統天。雲行雨施，品物流形。大明終始，六位時成，時乘六龍以御天。乾道變化，各正性命，保合大和，乃利貞。首出庶物，萬國咸寧。',
+        lines: [
+          { position: 1, text: '潛龍勿用，陽在下也。' },
+          { position: 2, text: '見龍在田，德施普也。' },
+          { position: 3, text: '終日乾乾，反復道也。' },
+          { position: 4, text: '或躍在淵，進無咎也。' },
+          { position: 5, text: '飛龍在天，大人造也。' },
+          { position: 6, text: '亢龍有悔，盈不可久也。' },
+        ],
+        allMoving: '用九，天德不可為首也。',
+        sequence: '有天地，然後萬物生焉。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Vast indeed is the sublime originating power of the Creative! All things owe their beginning to it, and it pervades all heaven. Clouds drift and rain falls, and each kind of thing takes its form. Grasping the end and the beginning in great clarity, the six positions are completed each at its time; riding on the six dragons in their season, the sage mounts to heaven. The way of the Creative works through change and transformation, so that each thing receives its true nature and destiny and keeps itself in great harmony; this is what furthers through perseverance. It towers above the multitude of beings, and all the lands are at peace.',
+        lines: [
+          { position: 1, text: '"Hidden dragon. Do not act": the light-giving force is still below.' },
+          { position: 2, text: '"Dragon appearing in the field": the spread of virtue reaches everywhere.' },
+          { position: 3, text: '"Creatively active all day long": going back and forth upon the way.' },
+          { position: 4, text: '"Wavering flight over the depths": to advance is without blame.' },
+          { position: 5, text: '"Flying dragon in the heavens": the great man is at work.' },
+          { position: 6, text: '"Arrogant dragon will have cause to repent": fullness cannot last.' },
+        ],
+        allMoving: '"All the lines are nines": the virtue of heaven cannot put itself at the head.',
+        sequence: 'After heaven and earth exist, the myriad things are born.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  2: {
+    number: 2,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '至哉坤元，萬物資生，乃順承天。坤厚載物，德合無疆。含弘光大，品物咸亨。牝馬地類，行地無疆，柔順利貞。君子攸行，先迷失道，後順得常。西南得朋，乃與類行；東北喪朋，乃終有慶。安貞之吉，應地無疆。',
+        lines: [
+          { position: 1, text: '履霜堅冰，陰始凝也；馴致其道，至堅冰也。' },
+          { position: 2, text: '六二之動，直以方也；不習無不利，地道光也。' },
+          { position: 3, text: '含章可貞，以時發也；或從王事，知光大也。' },
+          { position: 4, text: '括囊無咎，慎不害也。' },
+          { position: 5, text: '黃裳元吉，文在中也。' },
+          { position: 6, text: '龍戰于野，其道窮也。' },
+        ],
+        allMoving: '用六永貞，以大終也。',
+        sequence: '有天地，然後萬物生焉。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Perfect indeed is the sublime originating power of the Receptive! All things owe their birth to it, and it receives heaven devotedly. The Receptive in its richness carries all things; its nature is in harmony with the boundless. It embraces everything in its breadth and illumines everything in its greatness, and each kind of thing attains success. The mare belongs to the earth; she roams the earth without bound; gentle and devoted, she is furthered by perseverance. Thus the superior man has somewhere to go. Leading, he goes astray and loses the way; following, he finds the constant path. Friends are gained in the southwest, so he walks with his own kind; friends are lost in the northeast, so in the end there is blessing. The good fortune of quiet perseverance answers to the boundlessness of the earth.',
+        lines: [
+          { position: 1, text: '"Hoarfrost underfoot, solid ice": the dark force is beginning to congeal. Followed quietly to the end of its course, it arrives at solid ice.' },
+          { position: 2, text: 'The movement of the six in the second place is straight and square. "Without practice, nothing fails to further": the way of the earth shines.' },
+          { position: 3, text: '"Hidden lines; one can remain persevering": bring them forth when the time comes. "If by chance one serves a king": wisdom that is bright and great.' },
+          { position: 4, text: '"A tied-up sack; no blame": caution keeps harm away.' },
+          { position: 5, text: '"A yellow lower garment brings supreme good fortune": refinement dwells within.' },
+          { position: 6, text: '"Dragons fight in the meadow": the way has come to its end.' },
+        ],
+        allMoving: '"Lasting perseverance when all the lines are sixes": it ends in greatness.',
+        sequence: 'After heaven and earth exist, the myriad things are born.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  3: {
+    number: 3,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '屯，剛柔始交而難生，動乎險中，大亨貞。雷雨之動滿盈，天造草昧，宜建侯而不寧。',
+        lines: [
+          { position: 1, text: '雖磐桓，志行正也；以貴下賤，大得民也。' },
+          { position: 2, text: '六二之難，乘剛也；十年乃字，反常也。' },
+          { position: 3, text: '即鹿無虞，以從禽也；君子舍之，往吝窮也。' },
+          { position: 4, text: '求而往，明也。' },
+          { position: 5, text: '屯其膏，施未光也。' },
+          { position: 6, text: '泣血漣如，何可長也。' },
+        ],
+        sequence: '盈天地之間者唯萬物，故受之以屯；屯者盈也，屯者物之始生也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Difficulty at the beginning: the firm and the yielding unite for the first time, and hardship is born. Movement in the midst of danger brings sublime success through perseverance. The stirring of thunder and rain fills everything; heaven is creating in confusion and darkness. It is fitting to appoint helpers rather than to rest easy.',
+        lines: [
+          { position: 1, text: 'Though he hesitates, his will is set on right action. The noble humbling himself before the lowly wins the people greatly.' },
+          { position: 2, text: 'The hardship of the six in the second place is that it rides upon a firm line. "After ten years she is betrothed": a return to the normal course.' },
+          { position: 3, text: '"Chasing the deer without a guide" means following the game. The superior man gives it up: to go on brings humiliation and exhaustion.' },
+          { position: 4, text: 'To go when sought: this is clarity.' },
+          { position: 5, text: '"Difficulty in blessing": his bounty has not yet shone forth.' },
+          { position: 6, text: '"Tears of blood flow": how could this last long?' },
+        ],
+        sequence: 'What fills the space between heaven and earth is nothing but the myriad things, so Difficulty at the Beginning follows. Difficulty means filling; it is things first coming to birth.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  4: {
+    number: 4,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '蒙，山下有險，險而止，蒙。蒙亨，以亨行時中也。匪我求童蒙，童蒙求我，志應也。初筮告，以剛中也。再三瀆，瀆則不告，瀆蒙也。蒙以養正，聖功也。',
+        lines: [
+          { position: 1, text: '利用刑人，以正法也。' },
+          { position: 2, text: '子克家，剛柔接也。' },
+          { position: 3, text: '勿用取女，行不順也。' },
+          { position: 4, text: '困蒙之吝，獨遠實也。' },
+          { position: 5, text: '童蒙之吉，順以巽也。' },
+          { position: 6, text: '利用禦寇，上下順也。' },
+        ],
+        sequence: '物生必蒙，故受之以蒙；蒙者蒙也，物之穉也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Youthful folly: at the foot of the mountain there is danger; danger, and a halt. This is folly. Youthful folly has success because it acts with success and hits the right time. "It is not I who seek the young fool; the young fool seeks me": their wills answer each other. "At the first oracle I inform him": because of the firm and central line. "If he asks two or three times, it is importunity, and I give no information": importunity is folly. To nourish what is right in the undeveloped is the work of the holy sage.',
+        lines: [
+          { position: 1, text: '"It furthers one to apply discipline": in order to set the law in order.' },
+          { position: 2, text: '"The son is capable of taking charge of the household": the firm and the yielding meet.' },
+          { position: 3, text: '"Take not a maiden": her conduct does not follow the proper order.' },
+          { position: 4, text: 'The humiliation of entangled folly comes from standing alone, far from what is solid.' },
+          { position: 5, text: 'The good fortune of childlike folly comes from devotion and gentleness.' },
+          { position: 6, text: '"It furthers one to ward off wrongdoing": above and below follow the proper order.' },
+        ],
+        sequence: 'Things at their birth are always undeveloped, so Youthful Folly follows. Folly means what is undeveloped; it is the youth of things.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  5: {
+    number: 5,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '需，須也，險在前也。剛健而不陷，其義不困窮矣。需有孚，光亨貞吉，位乎天位，以正中也。利涉大川，往有功也。',
+        lines: [
+          { position: 1, text: '需于郊，不犯難行也；利用恆無咎，未失常也。' },
+          { position: 2, text: '需于沙，衍在中也；雖小有言，以吉終也。' },
+          { position: 3, text: '需于泥，災在外也；自我致寇，敬慎不敗也。' },
+          { position: 4, text: '需于血，順以聽也。' },
+          { position: 5, text: '酒食貞吉，以中正也。' },
+          { position: 6, text: '不速之客來，敬之終吉；雖不當位，未大失也。' },
+        ],
+        sequence: '物穉不可不養也，故受之以需；需者飲食之道也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Waiting means holding back: danger lies ahead. Firm and strong, he does not fall into it, and rightly he is neither hemmed in nor at a loss. "Waiting; if you are sincere, you have light and success; perseverance brings good fortune": he stands in the place of heaven, correct and central. "It furthers one to cross the great water": going brings achievement.',
+        lines: [
+          { position: 1, text: '"Waiting in the meadow": he does not rush into difficulty. "It furthers one to abide in what endures; no blame": he has not lost the constant way.' },
+          { position: 2, text: '"Waiting on the sand": he is at ease within the center. "Though there is a little gossip," it ends in good fortune.' },
+          { position: 3, text: '"Waiting in the mud": the calamity is outside. "He brings about the arrival of the enemy himself": caution and care keep him from defeat.' },
+          { position: 4, text: '"Waiting in blood": he yields and listens.' },
+          { position: 5, text: '"Wine and food; perseverance brings good fortune": because he is central and correct.' },
+          { position: 6, text: '"Guests come unbidden; honor them and in the end there is good fortune": though the place is not fitting, nothing great has been lost.' },
+        ],
+        sequence: 'What is young cannot go unnourished, so Waiting follows. Waiting is the way of food and drink.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  6: {
+    number: 6,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '訟，上剛下險，險而健，訟。訟有孚窒惕中吉，剛來而得中也。終凶，訟不可成也。利見大人，尚中正也。不利涉大川，入于淵也。',
+        lines: [
+          { position: 1, text: '不永所事，訟不可長也；雖小有言，其辯明也。' },
+          { position: 2, text: '不克訟，歸逋竄也；自下訟上，患至掇也。' },
+          { position: 3, text: '食舊德，從上吉也。' },
+          { position: 4, text: '復即命渝，安貞不失也。' },
+          { position: 5, text: '訟元吉，以中正也。' },
+          { position: 6, text: '以訟受服，亦不足敬也。' },
+        ],
+        sequence: '飲食必有訟，故受之以訟。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Conflict: strength above and danger below. Danger joined to strength brings conflict. "Conflict; you are sincere and are being obstructed; a cautious halt halfway brings good fortune": the firm line has come and gained the center. "Going through to the end brings misfortune": conflict must not be carried to completion. "It furthers one to see the great man": what is valued is being central and correct. "It does not further one to cross the great water": one would plunge into the abyss.',
+        lines: [
+          { position: 1, text: '"If one does not perpetuate the affair": conflict must not be prolonged. "Though there is a little gossip," the matter is made clear.' },
+          { position: 2, text: '"He cannot engage in conflict" and so returns and slips away. For the lowly to contend with the high brings trouble as if gathering it by hand.' },
+          { position: 3, text: '"To nourish oneself on ancient virtue": following those above brings good fortune.' },
+          { position: 4, text: '"He turns back and submits to fate, and changes his attitude": in peace and perseverance nothing is lost.' },
+          { position: 5, text: '"To contend before him brings supreme good fortune": because he is central and correct.' },
+          { position: 6, text: 'Honor won through conflict does not deserve respect.' },
+        ],
+        sequence: 'Food and drink are sure to bring conflict, so Conflict follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  7: {
+    number: 7,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '師，眾也；貞，正也。能以眾正，可以王矣。剛中而應，行險而順，以此毒天下，而民從之，吉又何咎矣。',
+        lines: [
+          { position: 1, text: '師出以律，失律凶也。' },
+          { position: 2, text: '在師中吉，承天寵也；王三錫命，懷萬邦也。' },
+          { position: 3, text: '師或輿尸，大無功也。' },
+          { position: 4, text: '左次無咎，未失常也。' },
+          { position: 5, text: '長子帥師，以中行也；弟子輿尸，使不當也。' },
+          { position: 6, text: '大君有命，以正功也；小人勿用，必亂邦也。' },
+        ],
+        sequence: '訟必有眾起，故受之以師；師者眾也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The army means the multitude; perseverance means correctness. One who can use the multitude to set things right may become king. The firm line is central and finds response; it goes through danger while devoted. Whoever leads the world with such means, even at hardship to it, is followed by the people. This brings good fortune, and how could there be blame?',
+        lines: [
+          { position: 1, text: '"An army must set forth in proper order": losing order brings misfortune.' },
+          { position: 2, text: '"In the midst of the army; good fortune": he receives the favor of heaven. "The king bestows a triple decoration": he cares for all the lands.' },
+          { position: 3, text: '"Perchance the army carries corpses in the wagon": there is no merit at all.' },
+          { position: 4, text: '"The army retreats; no blame": the constant way has not been lost.' },
+          { position: 5, text: '"Let the eldest lead the army": he acts from the center. "The younger transports corpses": the commission is not fitting.' },
+          { position: 6, text: '"The great prince issues commands": so that merit is rightly rewarded. "Inferior people should not be employed": they are sure to bring disorder to the state.' },
+        ],
+        sequence: 'Conflict is sure to raise the multitude, so The Army follows. The army means the multitude.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  8: {
+    number: 8,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '比，吉也；比，輔也，下順從也。原筮元永貞無咎，以剛中也。不寧方來，上下應也。後夫凶，其道窮也。',
+        lines: [
+          { position: 1, text: '比之初六，有他吉也。' },
+          { position: 2, text: '比之自內，不自失也。' },
+          { position: 3, text: '比之匪人，不亦傷乎。' },
+          { position: 4, text: '外比於賢，以從上也。' },
+          { position: 5, text: '顯比之吉，位正中也；舍逆取順，失前禽也；邑人不誡，上使中也。' },
+          { position: 6, text: '比之無首，無所終也。' },
+        ],
+        sequence: '眾必有所比，故受之以比；比者比也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Holding together brings good fortune. Holding together means help: those below follow in devotion. "Inquire of the oracle once again whether you possess sublimity, constancy and perseverance; then there is no blame": because of the firm and central line. "Those who are uncertain gradually join": above and below respond to one another. "Whoever comes too late meets with misfortune": his way has come to an end.',
+        lines: [
+          { position: 1, text: 'Holding together in the first six brings good fortune from elsewhere.' },
+          { position: 2, text: '"Holding to him inwardly": one does not lose oneself.' },
+          { position: 3, text: '"You hold together with the wrong people": is that not harmful?' },
+          { position: 4, text: '"Holding to a worthy one outwardly": in order to follow the one above.' },
+          { position: 5, text: 'The good fortune of open holding together comes from a place that is correct and central. Letting the unwilling go and taking the willing: "he loses the game that runs ahead." "The citizens need no warning": the one above employs the central way.' },
+          { position: 6, text: '"Holding together without a head": there is nothing to end in.' },
+        ],
+        sequence: 'A multitude is sure to have something to hold to, so Holding Together follows. Holding together means joining.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  9: {
+    number: 9,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '小畜，柔得位而上下應之，曰小畜。健而巽，剛中而志行，乃亨。密雲不雨，尚往也；自我西郊，施未行也。',
+        lines: [
+          { position: 1, text: '復自道，其義吉也。' },
+          { position: 2, text: '牽復在中，亦不自失也。' },
+          { position: 3, text: '夫妻反目，不能正室也。' },
+          { position: 4, text: '有孚惕出，上合志也。' },
+          { position: 5, text: '有孚攣如，不獨富也。' },
+          { position: 6, text: '既雨既處，德積載也；君子征凶，有所疑也。' },
+        ],
+        sequence: '比必有所畜，故受之以小畜。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The taming power of the small: the yielding line holds its place, and those above and below respond to it. This is called the taming power of the small. Strong yet gentle, the firm line is central and its will is carried out; thus there is success. "Dense clouds, no rain": it is still moving onward. "From our western region": the bounty has not yet been spread.',
+        lines: [
+          { position: 1, text: '"Return to the way": its meaning is good fortune.' },
+          { position: 2, text: '"He allows himself to be drawn into returning": being central, he too does not lose himself.' },
+          { position: 3, text: '"Man and wife roll their eyes": he cannot keep his household in order.' },
+          { position: 4, text: '"If you are sincere, blood vanishes and fear gives way": those above are of one mind with him.' },
+          { position: 5, text: '"If you are sincere and loyally attached": he is not rich alone.' },
+          { position: 6, text: '"The rain comes, there is rest": virtue has accumulated to its fullness. "If the superior man persists, misfortune comes": there is something to be wary of.' },
+        ],
+        sequence: 'Holding together is sure to lead to gathering and restraint, so The Taming Power of the Small follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  10: {
+    number: 10,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '履，柔履剛也。說而應乎乾，是以履虎尾，不咥人，亨。剛中正，履帝位而不疚，光明也。',
+        lines: [
+          { position: 1, text: '素履之往，獨行願也。' },
+          { position: 2, text: '幽人貞吉，中不自亂也。' },
+          { position: 3, text: '眇能視，不足以有明也；跛能履，不足以與行也；咥人之凶，位不當也；武人為于大君，志剛也。' },
+          { position: 4, text: '愬愬終吉，志行也。' },
+          { position: 5, text: '夬履貞厲，位正當也。' },
+          { position: 6, text: '元吉在上，大有慶也。' },
+        ],
+        sequence: '物畜然後有禮，故受之以履。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Treading: the yielding treads upon the firm. Joyous, it answers the Creative; hence "treading on the tail of the tiger, it does not bite the man; success." Firm, central and correct, he treads the place of the ruler without fault, and his light shines.',
+        lines: [
+          { position: 1, text: 'Going on in simple conduct: he carries out his wish alone.' },
+          { position: 2, text: '"The persevering of a dark man brings good fortune": being central, he keeps himself from confusion.' },
+          { position: 3, text: '"A one-eyed man is able to see": but not clearly enough. "A lame man is able to tread": but not enough to keep pace. The misfortune of being bitten comes because the place is not fitting. "A warrior acts on behalf of his great prince": his will is firm.' },
+          { position: 4, text: '"Caution and circumspection lead ultimately to good fortune": his will is carried out.' },
+          { position: 5, text: '"Resolute conduct; perseverance with awareness of danger": the place is correct and fitting.' },
+          { position: 6, text: 'Supreme good fortune at the top brings great blessing.' },
+        ],
+        sequence: 'Once things are gathered, there is propriety, so Treading (Conduct) follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  11: {
+    number: 11,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '泰，小往大來，吉亨。則是天地交而萬物通也，上下交而其志同也。內陽而外陰，內健而外順，內君子而外小人，君子道長，小人道消也。',
+        lines: [
+          { position: 1, text: '拔茅征吉，志在外也。' },
+          { position: 2, text: '包荒得尚于中行，以光大也。' },
+          { position: 3, text: '無往不復，天地際也。' },
+          { position: 4, text: '翩翩不富，皆失實也；不戒以孚，中心願也。' },
+          { position: 5, text: '以祉元吉，中以行願也。' },
+          { position: 6, text: '城復于隍，其命亂也。' },
+        ],
+        sequence: '履而泰然後安，故受之以泰；泰者通也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Peace: "the small departs, the great approaches; good fortune, success." Here heaven and earth unite and all things come into union; above and below unite and are one in will. Light within and dark without, strength within and devotion without, the superior man within and the inferior without: the way of the superior man grows and the way of the inferior wanes.',
+        lines: [
+          { position: 1, text: '"Pulling up ribbon grass; undertakings bring good fortune": the will is directed outward.' },
+          { position: 2, text: '"Bearing with the uncultured, he acts in harmony with the middle": because he is bright and great.' },
+          { position: 3, text: '"There is no going without return": this is where heaven and earth meet.' },
+          { position: 4, text: '"He flutters down, not boasting of his wealth": all have lost what is solid. "Without guile and in sincerity": this is their inmost wish.' },
+          { position: 5, text: '"Blessing and supreme good fortune": from the center he carries out his wish.' },
+          { position: 6, text: '"The wall falls back into the moat": the mandate has fallen into disorder.' },
+        ],
+        sequence: 'Treading with ease brings peace of mind, so Peace follows. Peace means union.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  12: {
+    number: 12,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '否之匪人，不利君子貞，大往小來。則是天地不交而萬物不通也，上下不交而天下無邦也。內陰而外陽，內柔而外剛，內小人而外君子，小人道長，君子道消也。',
+        lines: [
+          { position: 1, text: '拔茅貞吉，志在君也。' },
+          { position: 2, text: '大人否亨，不亂群也。' },
+          { position: 3, text: '包羞，位不當也。' },
+          { position: 4, text: '有命無咎，志行也。' },
+          { position: 5, text: '大人之吉，位正當也。' },
+          { position: 6, text: '否終則傾，何可長也。' },
+        ],
+        sequence: '物不可以終通，故受之以否。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: '"Standstill: evil people do not further the perseverance of the superior man; the great departs, the small approaches." Here heaven and earth do not unite and things do not come into union; above and below do not unite and the world has no ordered states. Dark within and light without, weak within and hard without, the inferior within and the superior man without: the way of the inferior grows and the way of the superior man wanes.',
+        lines: [
+          { position: 1, text: '"Pulling up ribbon grass; perseverance brings good fortune": the will is directed to the ruler.' },
+          { position: 2, text: '"The great man uses the standstill to bring success": he does not let himself be confused by the crowd.' },
+          { position: 3, text: '"They bear shame": the place is not fitting.' },
+          { position: 4, text: '"He who acts at the command of the highest remains without blame": his will is carried out.' },
+          { position: 5, text: 'The good fortune of the great man comes from a place that is correct and fitting.' },
+          { position: 6, text: 'When standstill comes to its end it falls. How could it last long?' },
+        ],
+        sequence: 'Things cannot be in union forever, so Standstill follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  13: {
+    number: 13,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '同人，柔得位得中而應乎乾，曰同人。同人曰：同人于野，亨，利涉大川，乾行也。文明以健，中正而應，君子正也。唯君子為能通天下之志。',
+        lines: [
+          { position: 1, text: '出門同人，又誰咎也。' },
+          { position: 2, text: '同人于宗，吝道也。' },
+          { position: 3, text: '伏戎于莽，敵剛也；三歲不興，安行也。' },
+          { position: 4, text: '乘其墉，義弗克也；其吉，則困而反則也。' },
+          { position: 5, text: '同人之先，以中直也；大師相遇，言相克也。' },
+          { position: 6, text: '同人于郊，志未得也。' },
+        ],
+        sequence: '物不可以終否，故受之以同人。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Fellowship with men: the yielding line holds its place and the center and answers the Creative. This is called fellowship with men. "Fellowship with men in the open; success; it furthers one to cross the great water": this is the working of the Creative. Clear and cultured yet strong, central and correct and finding response: this is the correctness of the superior man. Only the superior man is able to unite the wills of all under heaven.',
+        lines: [
+          { position: 1, text: 'Fellowship with men at the gate: who could blame him?' },
+          { position: 2, text: '"Fellowship with men in the clan": the way of humiliation.' },
+          { position: 3, text: '"He hides weapons in the thicket": the opponent is strong. "For three years he does not rise up": how could he act?' },
+          { position: 4, text: '"He climbs up on his wall": rightly he cannot prevail. His good fortune is that in his distress he returns to the right principle.' },
+          { position: 5, text: 'Fellowship with men begins in tears because he is central and straight. "Great armies succeed in meeting": they overcome each other.' },
+          { position: 6, text: '"Fellowship with men in the meadow": the will has not yet attained its aim.' },
+        ],
+        sequence: 'Things cannot stand still forever, so Fellowship with Men follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  14: {
+    number: 14,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大有，柔得尊位大中，而上下應之，曰大有。其德剛健而文明，應乎天而時行，是以元亨。',
+        lines: [
+          { position: 1, text: '大有初九，無交害也。' },
+          { position: 2, text: '大車以載，積中不敗也。' },
+          { position: 3, text: '公用亨于天子，小人害也。' },
+          { position: 4, text: '匪其彭無咎，明辨晳也。' },
+          { position: 5, text: '厥孚交如，信以發志也；威如之吉，易而無備也。' },
+          { position: 6, text: '大有上吉，自天祐也。' },
+        ],
+        sequence: '與人同者，物必歸焉，故受之以大有。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Possession in great measure: the yielding line holds the place of honor, great and central, and those above and below respond to it. This is called possession in great measure. Its virtue is firm and strong, clear and cultured; it answers heaven and acts in accord with the time. Hence supreme success.',
+        lines: [
+          { position: 1, text: 'The first nine of possession in great measure: no contact with what is harmful.' },
+          { position: 2, text: '"A big wagon for loading": things pile up in the middle without coming to ruin.' },
+          { position: 3, text: '"A prince offers it to the Son of Heaven": for a petty man this would be harmful.' },
+          { position: 4, text: '"He makes a difference between himself and his neighbor; no blame": he is clear and discerning.' },
+          { position: 5, text: '"His sincerity is accessible": his good faith awakens the will of others. The good fortune of dignity comes because he is at ease and makes no preparations.' },
+          { position: 6, text: 'The good fortune at the top of possession in great measure: blessed by heaven.' },
+        ],
+        sequence: 'Whoever is in fellowship with men will find that things come to him, so Possession in Great Measure follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  15: {
+    number: 15,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '謙亨，天道下濟而光明，地道卑而上行。天道虧盈而益謙，地道變盈而流謙，鬼神害盈而福謙，人道惡盈而好謙。謙尊而光，卑而不可踰，君子之終也。',
+        lines: [
+          { position: 1, text: '謙謙君子，卑以自牧也。' },
+          { position: 2, text: '鳴謙貞吉，中心得也。' },
+          { position: 3, text: '勞謙君子，萬民服也。' },
+          { position: 4, text: '無不利撝謙，不違則也。' },
+          { position: 5, text: '利用侵伐，征不服也。' },
+          { position: 6, text: '鳴謙，志未得也；可用行師，征邑國也。' },
+        ],
+        sequence: '有大者不可以盈，故受之以謙。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Modesty brings success. The way of heaven sends its light down below and shines; the way of the earth lies low and moves upward. It is the way of heaven to empty the full and increase the modest; it is the way of the earth to change the full and flow toward the modest; spirits and gods harm the full and bless the modest; it is the way of men to hate fullness and love the modest. Modesty in a high position shines; in a low position it cannot be passed by. This is how the superior man carries things through.',
+        lines: [
+          { position: 1, text: '"A superior man modest about his modesty": he tends himself by humility.' },
+          { position: 2, text: '"Modesty that comes to expression; perseverance brings good fortune": it is won from the heart.' },
+          { position: 3, text: '"A superior man of modesty and merit": all the people submit to him.' },
+          { position: 4, text: '"Nothing that would not further modesty in movement": it does not depart from the rule.' },
+          { position: 5, text: '"It is favorable to attack with force": to punish those who will not submit.' },
+          { position: 6, text: '"Modesty that comes to expression": the will has not yet attained its aim. "It is favorable to set armies marching": to chastise one\'s own city and country.' },
+        ],
+        sequence: 'Whoever possesses what is great must not make it full, so Modesty follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  16: {
+    number: 16,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '豫，剛應而志行，順以動，豫。豫順以動，故天地如之，而況建侯行師乎？天地以順動，故日月不過，而四時不忒；聖人以順動，則刑罰清而民服。豫之時義大矣哉！',
+        lines: [
+          { position: 1, text: '初六鳴豫，志窮凶也。' },
+          { position: 2, text: '不終日貞吉，以中正也。' },
+          { position: 3, text: '盱豫有悔，位不當也。' },
+          { position: 4, text: '由豫大有得，志大行也。' },
+          { position: 5, text: '六五貞疾，乘剛也；恆不死，中未亡也。' },
+          { position: 6, text: '冥豫在上，何可長也。' },
+        ],
+        sequence: '有大而能謙必豫，故受之以豫。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Enthusiasm: the firm line meets response and its will is carried out. Devotion with movement: this is enthusiasm. Because enthusiasm moves with devotion, heaven and earth go along with it; how much more the installing of helpers and the setting of armies in motion! Heaven and earth move with devotion, so sun and moon do not overstep their courses and the four seasons do not err. The holy sage moves with devotion, so punishments are clear and the people submit. Great indeed is the meaning of the time of enthusiasm!',
+        lines: [
+          { position: 1, text: '"Enthusiasm that expresses itself," at the beginning: the will is exhausted, and misfortune follows.' },
+          { position: 2, text: '"Not for a whole day; perseverance brings good fortune": because he is central and correct.' },
+          { position: 3, text: '"Enthusiasm that looks upward brings remorse": the place is not fitting.' },
+          { position: 4, text: '"The source of enthusiasm; he achieves great things": his will is carried out on a great scale.' },
+          { position: 5, text: '"The six in the fifth place is persistently ill": it rides upon a firm line. "And still does not die": the center has not yet been lost.' },
+          { position: 6, text: 'Deluded enthusiasm at the top: how could it last long?' },
+        ],
+        sequence: 'Whoever possesses what is great and can be modest is sure to have enthusiasm, so Enthusiasm follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  17: {
+    number: 17,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '隨，剛來而下柔，動而說，隨。大亨貞無咎，而天下隨時。隨時之義大矣哉！',
+        lines: [
+          { position: 1, text: '官有渝，從正吉也；出門交有功，不失也。' },
+          { position: 2, text: '係小子，弗兼與也。' },
+          { position: 3, text: '係丈夫，志舍下也。' },
+          { position: 4, text: '隨有獲，其義凶也；有孚在道，明功也。' },
+          { position: 5, text: '孚于嘉吉，位正中也。' },
+          { position: 6, text: '拘係之，上窮也。' },
+        ],
+        sequence: '豫必有隨，故受之以隨。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Following: the firm comes and places itself beneath the yielding; movement with joy. This is following. Great success and perseverance, no blame: and all the world follows the time. Great indeed is the meaning of the time of following!',
+        lines: [
+          { position: 1, text: '"The standard is changing": following what is right brings good fortune. "To go out of the door in company produces deeds": nothing is lost.' },
+          { position: 2, text: '"If one clings to the little boy": one cannot be with both at once.' },
+          { position: 3, text: '"If one clings to the strong man": the will lets go of what is below.' },
+          { position: 4, text: '"Following creates success": its meaning is misfortune. "To go one\'s way with sincerity": the merit of clarity.' },
+          { position: 5, text: '"Sincere in the good; good fortune": the place is correct and central.' },
+          { position: 6, text: '"He meets with firm allegiance": at the top it comes to an end.' },
+        ],
+        sequence: 'Enthusiasm is sure to find a following, so Following follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  18: {
+    number: 18,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '蠱，剛上而柔下，巽而止，蠱。蠱元亨，而天下治也。利涉大川，往有事也。先甲三日，後甲三日，終則有始，天行也。',
+        lines: [
+          { position: 1, text: '幹父之蠱，意承考也。' },
+          { position: 2, text: '幹母之蠱，得中道也。' },
+          { position: 3, text: '幹父之蠱，終無咎也。' },
+          { position: 4, text: '裕父之蠱，往未得也。' },
+          { position: 5, text: '幹父用譽，承以德也。' },
+          { position: 6, text: '不事王侯，志可則也。' },
+        ],
+        sequence: '以喜隨人者必有事，故受之以蠱；蠱者事也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Work on what has been spoiled: the firm is above and the yielding below; gentleness, and a halt. This is decay. Work on what has been spoiled has supreme success, and the world is set in order. "It furthers one to cross the great water": going out brings work to be done. "Before the starting point, three days; after the starting point, three days": every end is followed by a new beginning. This is the course of heaven.',
+        lines: [
+          { position: 1, text: '"Setting right what has been spoiled by the father": the intent is to carry on the work of the late father.' },
+          { position: 2, text: '"Setting right what has been spoiled by the mother": he holds to the middle way.' },
+          { position: 3, text: '"Setting right what has been spoiled by the father": in the end there is no blame.' },
+          { position: 4, text: '"Tolerating what has been spoiled by the father": going on he will not succeed.' },
+          { position: 5, text: '"Setting right what has been spoiled by the father; one meets with praise": he carries on the work through virtue.' },
+          { position: 6, text: '"He does not serve kings and princes": his aim may serve as a model.' },
+        ],
+        sequence: 'Whoever follows others with joy is sure to have work, so Work on What Has Been Spoiled follows. Decay means work to be done.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  19: {
+    number: 19,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '臨，剛浸而長，說而順，剛中而應。大亨以正，天之道也。至于八月有凶，消不久也。',
+        lines: [
+          { position: 1, text: '咸臨貞吉，志行正也。' },
+          { position: 2, text: '咸臨吉無不利，未順命也。' },
+          { position: 3, text: '甘臨，位不當也；既憂之，咎不長也。' },
+          { position: 4, text: '至臨無咎，位當也。' },
+          { position: 5, text: '大君之宜，行中之謂也。' },
+          { position: 6, text: '敦臨之吉，志在內也。' },
+        ],
+        sequence: '有事而後可大，故受之以臨；臨者大也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Approach: the firm grows gradually; joyous and devoted, the firm line is central and finds response. Great success through what is correct: this is the way of heaven. "When the eighth month comes there will be misfortune": the waning is not far off.',
+        lines: [
+          { position: 1, text: '"Joint approach; perseverance brings good fortune": the will is set on right action.' },
+          { position: 2, text: '"Joint approach; good fortune; everything furthers": not merely by obeying commands.' },
+          { position: 3, text: '"Comfortable approach": the place is not fitting. "If one is induced to grieve over it": the fault does not last.' },
+          { position: 4, text: '"Complete approach; no blame": the place is fitting.' },
+          { position: 5, text: '"What befits a great prince": this means acting from the center.' },
+          { position: 6, text: 'The good fortune of greathearted approach: the will is directed inward.' },
+        ],
+        sequence: 'Where there is work, things can grow great, so Approach follows. Approach means becoming great.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  20: {
+    number: 20,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大觀在上，順而巽，中正以觀天下。觀，盥而不薦，有孚顒若，下觀而化也。觀天之神道，而四時不忒；聖人以神道設教，而天下服矣。',
+        lines: [
+          { position: 1, text: '初六童觀，小人道也。' },
+          { position: 2, text: '闚觀女貞，亦可醜也。' },
+          { position: 3, text: '觀我生進退，未失道也。' },
+          { position: 4, text: '觀國之光，尚賓也。' },
+          { position: 5, text: '觀我生，觀民也。' },
+          { position: 6, text: '觀其生，志未平也。' },
+        ],
+        sequence: '物大然後可觀，故受之以觀。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The great view is above; devoted and gentle, central and correct, it contemplates the world. "Contemplation: the ablution has been made, but not yet the offering; full of trust they look up to him": those below look up and are transformed. They behold the divine way of heaven, and the four seasons do not err. The holy sage uses the divine way to give instruction, and the world submits.',
+        lines: [
+          { position: 1, text: '"Boylike contemplation" at the beginning: the way of inferior people.' },
+          { position: 2, text: '"Contemplation through the crack of the door; furthering for the perseverance of a woman": for a man this is shameful.' },
+          { position: 3, text: '"Contemplation of my life decides the choice between advance and retreat": he has not yet lost the way.' },
+          { position: 4, text: '"Contemplation of the light of the kingdom": he is honored as a guest.' },
+          { position: 5, text: '"Contemplation of my life" means contemplation of the people.' },
+          { position: 6, text: '"Contemplation of his life": the will is not yet at peace.' },
+        ],
+        sequence: 'When things have grown great they can be viewed, so Contemplation follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  21: {
+    number: 21,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '頤中有物，曰噬嗑。噬嗑而亨，剛柔分，動而明，雷電合而章。柔得中而上行，雖不當位，利用獄也。',
+        lines: [
+          { position: 1, text: '屨校滅趾，不行也。' },
+          { position: 2, text: '噬膚滅鼻，乘剛也。' },
+          { position: 3, text: '遇毒，位不當也。' },
+          { position: 4, text: '利艱貞吉，未光也。' },
+          { position: 5, text: '貞厲無咎，得當也。' },
+          { position: 6, text: '何校滅耳，聰不明也。' },
+        ],
+        sequence: '可觀而後有所合，故受之以噬嗑；嗑者合也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'There is something between the jaws: this is called biting through. Biting through brings success. The firm and the yielding are separated; movement and clarity; thunder and lightning unite and make things plain. The yielding line holds the center and moves upward; though its place is not fitting, it furthers the administering of justice.',
+        lines: [
+          { position: 1, text: '"His feet are fastened in the stocks, so that his toes disappear": he cannot walk on.' },
+          { position: 2, text: '"Bites through tender meat, so that his nose disappears": it rides upon a firm line.' },
+          { position: 3, text: '"Strikes on something poisonous": the place is not fitting.' },
+          { position: 4, text: '"It furthers one to be mindful of difficulties and to be persevering; good fortune": the light has not yet shone forth.' },
+          { position: 5, text: '"Perseverance with awareness of danger; no blame": he acts as is fitting.' },
+          { position: 6, text: '"His neck is fastened in the wooden cangue, so that his ears disappear": he does not hear clearly.' },
+        ],
+        sequence: 'What can be viewed then finds something to unite with, so Biting Through follows. Biting means uniting.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  22: {
+    number: 22,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '賁亨，柔來而文剛，故亨。分剛上而文柔，故小利有攸往。天文也；文明以止，人文也。觀乎天文，以察時變；觀乎人文，以化成天下。',
+        lines: [
+          { position: 1, text: '舍車而徒，義弗乘也。' },
+          { position: 2, text: '賁其須，與上興也。' },
+          { position: 3, text: '永貞之吉，終莫之陵也。' },
+          { position: 4, text: '六四當位疑也；匪寇婚媾，終無尤也。' },
+          { position: 5, text: '六五之吉，有喜也。' },
+          { position: 6, text: '白賁無咎，上得志也。' },
+        ],
+        sequence: '物不可以苟合而已，故受之以賁；賁者飾也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Grace has success. The yielding comes and adorns the firm, hence success. The firm rises up and adorns the yielding, hence small gains in undertakings. This is the form of heaven. Clear form that comes to rest: this is the form of human culture. Contemplating the forms of heaven, one comes to know the changes of the seasons; contemplating the forms of human culture, one shapes the world.',
+        lines: [
+          { position: 1, text: '"He leaves the carriage and walks": rightly he does not ride.' },
+          { position: 2, text: '"Lends grace to the beard on his chin": he rises together with the one above.' },
+          { position: 3, text: 'The good fortune of lasting perseverance: in the end no one will insult him.' },
+          { position: 4, text: 'The six in the fourth place is in its proper place, yet in doubt. "He is not a robber, he will woo at the right time": in the end there is no cause for complaint.' },
+          { position: 5, text: 'The good fortune of the six in the fifth place brings joy.' },
+          { position: 6, text: '"Simple grace; no blame": the one at the top attains his will.' },
+        ],
+        sequence: 'Things cannot simply unite without more, so Grace follows. Grace means adornment.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  23: {
+    number: 23,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '剝，剝也，柔變剛也。不利有攸往，小人長也。順而止之，觀象也。君子尚消息盈虛，天行也。',
+        lines: [
+          { position: 1, text: '剝床以足，以滅下也。' },
+          { position: 2, text: '剝床以辨，未有與也。' },
+          { position: 3, text: '剝之無咎，失上下也。' },
+          { position: 4, text: '剝床以膚，切近災也。' },
+          { position: 5, text: '以宮人寵，終無尤也。' },
+          { position: 6, text: '君子得輿，民所載也；小人剝廬，終不可用也。' },
+        ],
+        sequence: '致飾然後亨則盡矣，故受之以剝；剝者剝也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Splitting apart means to split apart: the yielding changes the firm. "It does not further one to go anywhere": the inferior are growing. Submit, and come to a halt: this is seen by contemplating the image. The superior man heeds the waning and waxing, the fullness and emptiness of things; this is the course of heaven.',
+        lines: [
+          { position: 1, text: '"The leg of the bed is split": the foundation is being destroyed.' },
+          { position: 2, text: '"The bed is split at the edge": there is no one to help.' },
+          { position: 3, text: '"He splits with them; no blame": he breaks with those above and below.' },
+          { position: 4, text: '"The bed is split up to the skin": the calamity is very near.' },
+          { position: 5, text: '"Favor comes through the court ladies": in the end there is no cause for complaint.' },
+          { position: 6, text: '"The superior man receives a carriage": the people bear him up. "The house of the inferior is split apart": in the end he is of no use.' },
+        ],
+        sequence: 'When adornment has been carried to its height, success is exhausted, so Splitting Apart follows. Splitting apart means coming to an end.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  24: {
+    number: 24,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '復亨，剛反，動而以順行，是以出入無疾，朋來無咎。反復其道，七日來復，天行也。利有攸往，剛長也。復，其見天地之心乎！',
+        lines: [
+          { position: 1, text: '不遠之復，以脩身也。' },
+          { position: 2, text: '休復之吉，以下仁也。' },
+          { position: 3, text: '頻復之厲，義無咎也。' },
+          { position: 4, text: '中行獨復，以從道也。' },
+          { position: 5, text: '敦復無悔，中以自考也。' },
+          { position: 6, text: '迷復之凶，反君道也。' },
+        ],
+        sequence: '物不可以終盡，剝窮上反下，故受之以復。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Return has success. The firm returns; movement in devoted action. Hence "going out and coming in without error; friends come without blame." "To and fro goes the way; on the seventh day comes return": this is the course of heaven. "It furthers one to have somewhere to go": the firm is growing. In return, do we not see the heart of heaven and earth?',
+        lines: [
+          { position: 1, text: 'Return from a short distance: in order to cultivate one\'s character.' },
+          { position: 2, text: 'The good fortune of quiet return: he humbles himself before the good.' },
+          { position: 3, text: 'The danger of repeated return: rightly there is no blame.' },
+          { position: 4, text: '"Walking in the midst of others, one returns alone": in order to follow the way.' },
+          { position: 5, text: '"Noblehearted return; no remorse": from the center he examines himself.' },
+          { position: 6, text: 'The misfortune of missing the return: it runs counter to the way of the ruler.' },
+        ],
+        sequence: 'Things cannot be exhausted forever; when splitting apart reaches the top it returns below, so Return follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  25: {
+    number: 25,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '無妄，剛自外來而為主於內。動而健，剛中而應，大亨以正，天之命也。其匪正有眚，不利有攸往。無妄之往，何之矣？天命不祐，行矣哉！',
+        lines: [
+          { position: 1, text: '無妄之往，得志也。' },
+          { position: 2, text: '不耕穫，未富也。' },
+          { position: 3, text: '行人得牛，邑人災也。' },
+          { position: 4, text: '可貞無咎，固有之也。' },
+          { position: 5, text: '無妄之藥，不可試也。' },
+          { position: 6, text: '無妄之行，窮之災也。' },
+        ],
+        sequence: '復則不妄矣，故受之以無妄。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Innocence: the firm comes from without and becomes ruler within. Movement and strength; the firm line is central and finds response. Great success through what is correct: this is the mandate of heaven. "If someone is not as he should be, he has misfortune, and it does not further him to undertake anything." Where can innocence go when it departs? When the mandate of heaven does not bless it, can one go on?',
+        lines: [
+          { position: 1, text: 'Innocent going: the will is attained.' },
+          { position: 2, text: '"If one does not count on the harvest while plowing": he does not seek riches.' },
+          { position: 3, text: '"The wanderer\'s gain is the citizen\'s loss": calamity for the townsfolk.' },
+          { position: 4, text: '"He who can be persevering remains without blame": he holds fast to what he has.' },
+          { position: 5, text: 'Medicine in unexpected illness: it must not be tried.' },
+          { position: 6, text: 'Innocent action at the end: calamity through exhaustion.' },
+        ],
+        sequence: 'With return comes freedom from falsehood, so Innocence follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  26: {
+    number: 26,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大畜，剛健篤實輝光，日新其德。剛上而尚賢，能止健，大正也。不家食吉，養賢也。利涉大川，應乎天也。',
+        lines: [
+          { position: 1, text: '有厲利已，不犯災也。' },
+          { position: 2, text: '輿說輹，中無尤也。' },
+          { position: 3, text: '利有攸往，上合志也。' },
+          { position: 4, text: '六四元吉，有喜也。' },
+          { position: 5, text: '六五之吉，有慶也。' },
+          { position: 6, text: '何天之衢，道大行也。' },
+        ],
+        sequence: '有無妄然後可畜，故受之以大畜。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The taming power of the great: firm and strong, genuine and solid, full of light, it renews its virtue day by day. The firm rises up and honors the worthy; able to restrain the strong, it is greatly correct. "Not eating at home brings good fortune": the worthy are nourished. "It furthers one to cross the great water": it answers heaven.',
+        lines: [
+          { position: 1, text: '"Danger is at hand; it furthers one to desist": do not run into calamity.' },
+          { position: 2, text: '"The axletrees are taken from the wagon": being central, he is free of blame.' },
+          { position: 3, text: '"It furthers one to have somewhere to go": those above are of one mind with him.' },
+          { position: 4, text: 'The supreme good fortune of the six in the fourth place brings joy.' },
+          { position: 5, text: 'The good fortune of the six in the fifth place brings blessing.' },
+          { position: 6, text: '"He attains the way of heaven": the way is carried out on a great scale.' },
+        ],
+        sequence: 'Once there is freedom from falsehood, things can be gathered, so The Taming Power of the Great follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  27: {
+    number: 27,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '頤貞吉，養正則吉也。觀頤，觀其所養也；自求口實，觀其自養也。天地養萬物，聖人養賢以及萬民。頤之時大矣哉！',
+        lines: [
+          { position: 1, text: '觀我朵頤，亦不足貴也。' },
+          { position: 2, text: '六二征凶，行失類也。' },
+          { position: 3, text: '十年勿用，道大悖也。' },
+          { position: 4, text: '顛頤之吉，上施光也。' },
+          { position: 5, text: '居貞之吉，順以從上也。' },
+          { position: 6, text: '由頤厲吉，大有慶也。' },
+        ],
+        sequence: '物畜然後可養，故受之以頤；頤者養也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The corners of the mouth: perseverance brings good fortune, for when nourishment is correct there is good fortune. "Pay heed to the providing of nourishment": consider what he nourishes. "And to what a man seeks to fill his own mouth with": consider how he nourishes himself. Heaven and earth nourish all things; the holy sage nourishes the worthy and through them reaches all the people. Great indeed is the time of providing nourishment!',
+        lines: [
+          { position: 1, text: '"You look at me and let your lower jaw hang": this is not worthy of honor.' },
+          { position: 2, text: '"Continuing to do this brings misfortune": in going he loses his kind.' },
+          { position: 3, text: '"For ten years do not act thus": it runs greatly counter to the way.' },
+          { position: 4, text: 'The good fortune of turning to the summit for provision of nourishment: the bounty from above shines.' },
+          { position: 5, text: 'The good fortune of remaining persevering: he follows the one above with devotion.' },
+          { position: 6, text: '"The source of nourishment; awareness of danger brings good fortune": there is great blessing.' },
+        ],
+        sequence: 'Once things are gathered they can be nourished, so The Corners of the Mouth follows. The corners of the mouth mean nourishment.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  28: {
+    number: 28,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大過，大者過也。棟橈，本末弱也。剛過而中，巽而說行，利有攸往，乃亨。大過之時大矣哉！',
+        lines: [
+          { position: 1, text: '藉用白茅，柔在下也。' },
+          { position: 2, text: '老夫女妻，過以相與也。' },
+          { position: 3, text: '棟橈之凶，不可以有輔也。' },
+          { position: 4, text: '棟隆之吉，不橈乎下也。' },
+          { position: 5, text: '枯楊生華，何可久也；老婦士夫，亦可醜也。' },
+          { position: 6, text: '過涉之凶，不可咎也。' },
+        ],
+        sequence: '不養則不可動，故受之以大過。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Preponderance of the great: the great is in excess. "The ridgepole sags to the breaking point": the root and the tip are weak. The firm is in excess yet central; gentle and joyous in action, "it furthers one to have somewhere to go," and so there is success. Great indeed is the time of the preponderance of the great!',
+        lines: [
+          { position: 1, text: '"To spread white rushes underneath": the yielding is below.' },
+          { position: 2, text: '"An older man takes a young wife": they are together despite the excess.' },
+          { position: 3, text: 'The misfortune of the sagging ridgepole: nothing can support it.' },
+          { position: 4, text: 'The good fortune of the braced ridgepole: it does not sag toward what is below.' },
+          { position: 5, text: '"A withered poplar puts forth flowers": how could this last long? "An older woman takes a husband": this too is shameful.' },
+          { position: 6, text: 'The misfortune of going through the water: it cannot be blamed.' },
+        ],
+        sequence: 'Without nourishment there can be no movement, so Preponderance of the Great follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  29: {
+    number: 29,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '習坎，重險也。水流而不盈，行險而不失其信。維心亨，乃以剛中也。行有尚，往有功也。天險不可升也，地險山川丘陵也，王公設險以守其國。險之時用大矣哉！',
+        lines: [
+          { position: 1, text: '習坎入坎，失道凶也。' },
+          { position: 2, text: '求小得，未出中也。' },
+          { position: 3, text: '來之坎坎，終無功也。' },
+          { position: 4, text: '樽酒簋貳，剛柔際也。' },
+          { position: 5, text: '坎不盈，中未大也。' },
+          { position: 6, text: '上六失道，凶三歲也。' },
+        ],
+        sequence: '物不可以終過，故受之以坎；坎者陷也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The repeated abysmal is double danger. Water flows on without overflowing; it passes through danger without losing its faithfulness. "In the heart there is success": because of the firm and central line. "Action brings reward": going brings achievement. The danger of heaven lies in its being impossible to climb; the dangers of the earth are mountains, rivers, hills and heights. Kings and princes make use of danger to guard their realms. Great indeed is the use of the time of danger!',
+        lines: [
+          { position: 1, text: '"Repetition of the abysmal, into a pit in the abyss": losing the way brings misfortune.' },
+          { position: 2, text: '"One should strive to attain small things only": he has not yet come out of the middle of danger.' },
+          { position: 3, text: '"Forward and backward, abyss on abyss": in the end there is no achievement.' },
+          { position: 4, text: '"A jug of wine, a bowl of rice with it": the firm and the yielding meet.' },
+          { position: 5, text: '"The abyss is not filled to overflowing": the center is not yet great.' },
+          { position: 6, text: 'The six at the top has lost the way: misfortune for three years.' },
+        ],
+        sequence: 'Things cannot be in excess forever, so The Abysmal follows. The abysmal means a pit.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  30: {
+    number: 30,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '離，麗也。日月麗乎天，百穀草木麗乎土，重明以麗乎正，乃化成天下。柔麗乎中正，故亨，是以畜牝牛吉也。',
+        lines: [
+          { position: 1, text: '履錯之敬，以辟咎也。' },
+          { position: 2, text: '黃離元吉，得中道也。' },
+          { position: 3, text: '日昃之離，何可久也。' },
+          { position: 4, text: '突如其來如，無所容也。' },
+          { position: 5, text: '六五之吉，離王公也。' },
+          { position: 6, text: '王用出征，以正邦也。' },
+        ],
+        sequence: '陷必有所麗，故受之以離；離者麗也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The clinging means resting on something. Sun and moon rest on heaven; grain, grass and trees rest on the earth. Doubled clarity rests on what is correct, and so transforms and perfects the world. The yielding rests on what is central and correct, hence success; therefore "care of the cow brings good fortune."',
+        lines: [
+          { position: 1, text: 'The seriousness of confused footsteps: in order to avoid blame.' },
+          { position: 2, text: '"Yellow light; supreme good fortune": he holds to the middle way.' },
+          { position: 3, text: '"In the light of the setting sun": how could it last long?' },
+          { position: 4, text: '"Its coming is sudden": there is nowhere it can stay.' },
+          { position: 5, text: 'The good fortune of the six in the fifth place: it rests on kings and princes.' },
+          { position: 6, text: '"The king uses him to march forth": in order to set the realm in order.' },
+        ],
+        sequence: 'A pit is sure to have something to cling to, so The Clinging follows. The clinging means resting on something.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  31: {
+    number: 31,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '咸，感也。柔上而剛下，二氣感應以相與，止而說，男下女，是以亨利貞，取女吉也。天地感而萬物化生，聖人感人心而天下和平。觀其所感，而天地萬物之情可見矣！',
+        lines: [
+          { position: 1, text: '咸其拇，志在外也。' },
+          { position: 2, text: '雖凶居吉，順不害也。' },
+          { position: 3, text: '咸其股，亦不處也；志在隨人，所執下也。' },
+          { position: 4, text: '貞吉悔亡，未感害也；憧憧往來，未光大也。' },
+          { position: 5, text: '咸其脢，志末也。' },
+          { position: 6, text: '咸其輔頰舌，滕口說也。' },
+        ],
+        sequence: '有天地然後有萬物，有萬物然後有男女，有男女然後有夫婦，有夫婦然後有父子，有父子然後有君臣，有君臣然後有上下，有上下然後禮義有所錯。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Influence means stimulation. The yielding is above and the firm below; the two forces stimulate and respond to each other, and so join together. Keeping still and joyous, the man places himself below the woman. Hence "success, perseverance furthers, to take a maiden to wife brings good fortune." Heaven and earth stimulate each other and all things take shape and come into being; the holy sage stimulates the hearts of men and the world has peace. Contemplate what they stimulate, and the nature of heaven and earth and all things can be seen!',
+        lines: [
+          { position: 1, text: '"The influence shows itself in the big toe": the will is directed outward.' },
+          { position: 2, text: '"Though it brings misfortune, tarrying brings good fortune": devotion does no harm.' },
+          { position: 3, text: '"The influence shows itself in the thighs": he too cannot keep still. His will is to follow others: what he holds to is low.' },
+          { position: 4, text: '"Perseverance brings good fortune; remorse disappears": he has not yet been harmed by stimulation. "If a man is agitated in mind, going hither and thither": he is not yet bright and great.' },
+          { position: 5, text: '"The influence shows itself in the back of the neck": the will is directed at the tip.' },
+          { position: 6, text: '"The influence shows itself in the jaws, cheeks and tongue": he opens his mouth only to talk.' },
+        ],
+        sequence: 'After heaven and earth exist there are the myriad things; after the myriad things there are man and woman; after man and woman there are husband and wife; after husband and wife there are father and son; after father and son there are prince and minister; after prince and minister there are above and below; and after above and below, propriety and justice have their place.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  32: {
+    number: 32,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '恆，久也。剛上而柔下，雷風相與，巽而動，剛柔皆應，恆。恆亨無咎利貞，久於其道也。天地之道，恆久而不已也。利有攸往，終則有始也。日月得天而能久照，四時變化而能久成，聖人久於其道而天下化成。觀其所恆，而天地萬物之情可見矣！',
+        lines: [
+          { position: 1, text: '浚恆之凶，始求深也。' },
+          { position: 2, text: '九二悔亡，能久中也。' },
+          { position: 3, text: '不恆其德，無所容也。' },
+          { position: 4, text: '久非其位，安得禽也。' },
+          { position: 5, text: '婦人貞吉，從一而終也；夫子制義，從婦凶也。' },
+          { position: 6, text: '振恆在上，大無功也。' },
+        ],
+        sequence: '夫婦之道不可以不久也，故受之以恆；恆者久也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Duration means lasting. The firm is above and the yielding below; thunder and wind go together; gentle and in motion, the firm and the yielding all respond to each other. This is duration. "Duration; success; no blame; perseverance furthers": lasting in one\'s way. The way of heaven and earth is lasting and without end. "It furthers one to have somewhere to go": every end is followed by a new beginning. Sun and moon hold to heaven and so can shine for ever; the four seasons change and transform and so can bring things to completion for ever; the holy sage lasts in his way and the world is transformed to perfection. Contemplate what endures, and the nature of heaven and earth and all things can be seen!',
+        lines: [
+          { position: 1, text: 'The misfortune of seeking duration too hastily: he seeks depth at the very start.' },
+          { position: 2, text: '"Remorse disappears" for the nine in the second place: he can abide in the center.' },
+          { position: 3, text: '"He who does not give duration to his character": there is nowhere he can stay.' },
+          { position: 4, text: 'Long in a place that is not his own: how could he catch game?' },
+          { position: 5, text: '"The perseverance of a woman brings good fortune": she follows one man to the end. The master decides what is right: following the woman brings misfortune.' },
+          { position: 6, text: 'Restless duration at the top: there is no achievement at all.' },
+        ],
+        sequence: 'The way of husband and wife must not fail to last, so Duration follows. Duration means lasting.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  33: {
+    number: 33,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '遯亨，遯而亨也。剛當位而應，與時行也。小利貞，浸而長也。遯之時義大矣哉！',
+        lines: [
+          { position: 1, text: '遯尾之厲，不往何災也。' },
+          { position: 2, text: '執用黃牛，固志也。' },
+          { position: 3, text: '係遯之厲，有疾憊也；畜臣妾吉，不可大事也。' },
+          { position: 4, text: '君子好遯，小人否也。' },
+          { position: 5, text: '嘉遯貞吉，以正志也。' },
+          { position: 6, text: '肥遯無不利，無所疑也。' },
+        ],
+        sequence: '物不可以久居其所，故受之以遯；遯者退也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Retreat has success: in retreat lies success. The firm holds its proper place and finds response; it moves in accord with the time. "In what is small, perseverance furthers": the dark is gradually growing. Great indeed is the meaning of the time of retreat!',
+        lines: [
+          { position: 1, text: 'The danger at the tail in retreat: if one does not go on, what calamity can there be?' },
+          { position: 2, text: '"He holds him fast with yellow oxhide": his will is firm.' },
+          { position: 3, text: 'The danger of a halted retreat: there is illness and exhaustion. "To retain people as men- and maidservants brings good fortune": but not for great affairs.' },
+          { position: 4, text: '"The superior man retreats willingly": the inferior cannot.' },
+          { position: 5, text: '"Friendly retreat; perseverance brings good fortune": in order to keep the will correct.' },
+          { position: 6, text: '"Cheerful retreat; everything furthers": there is nothing to be in doubt about.' },
+        ],
+        sequence: 'Things cannot stay in one place for long, so Retreat follows. Retreat means withdrawing.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  34: {
+    number: 34,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '大壯，大者壯也。剛以動，故壯。大壯利貞，大者正也。正大而天地之情可見矣！',
+        lines: [
+          { position: 1, text: '壯于趾，其孚窮也。' },
+          { position: 2, text: '九二貞吉，以中也。' },
+          { position: 3, text: '小人用壯，君子罔也。' },
+          { position: 4, text: '藩決不羸，尚往也。' },
+          { position: 5, text: '喪羊于易，位不當也。' },
+          { position: 6, text: '不能退，不能遂，不詳也；艱則吉，咎不長也。' },
+        ],
+        sequence: '物不可以終遯，故受之以大壯。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The power of the great: the great is powerful. Firmness moving: hence power. "The power of the great; perseverance furthers": the great is correct. Through correctness and greatness the nature of heaven and earth can be seen!',
+        lines: [
+          { position: 1, text: '"Power in the toes": his sincerity is exhausted.' },
+          { position: 2, text: '"The nine in the second place; perseverance brings good fortune": because it is central.' },
+          { position: 3, text: '"The inferior man works through power; the superior man does not act thus."' },
+          { position: 4, text: '"The hedge opens; there is no entanglement": he goes onward.' },
+          { position: 5, text: '"He loses the goat with ease": the place is not fitting.' },
+          { position: 6, text: '"It cannot go backward, it cannot go forward": this is not well considered. "If one notes the difficulty, this brings good fortune": the fault does not last.' },
+        ],
+        sequence: 'Things cannot retreat forever, so The Power of the Great follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  35: {
+    number: 35,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '晉，進也。明出地上，順而麗乎大明，柔進而上行，是以康侯用錫馬蕃庶，晝日三接也。',
+        lines: [
+          { position: 1, text: '晉如摧如，獨行正也；裕無咎，未受命也。' },
+          { position: 2, text: '受茲介福，以中正也。' },
+          { position: 3, text: '眾允之，志上行也。' },
+          { position: 4, text: '鼫鼠貞厲，位不當也。' },
+          { position: 5, text: '失得勿恤，往有慶也。' },
+          { position: 6, text: '維用伐邑，道未光也。' },
+        ],
+        sequence: '物不可以終壯，故受之以晉；晉者進也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Progress means advancing. Clarity rises over the earth; devoted, it clings to the great light; the yielding advances and moves upward. Therefore "the powerful prince is honored with horses in large numbers; in a single day he is granted audience three times."',
+        lines: [
+          { position: 1, text: '"Progressing, but turned back": he walks alone in what is right. "Be generous; then there is no blame": he has not yet received a commission.' },
+          { position: 2, text: '"He receives this great happiness": because he is central and correct.' },
+          { position: 3, text: '"All are in accord": the will rises upward.' },
+          { position: 4, text: '"Progress like a hamster; perseverance brings danger": the place is not fitting.' },
+          { position: 5, text: '"Take not gain and loss to heart": going brings blessing.' },
+          { position: 6, text: '"To use them only to punish one\'s own city": the way has not yet shone forth.' },
+        ],
+        sequence: 'Things cannot be powerful forever, so Progress follows. Progress means advancing.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  36: {
+    number: 36,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '明入地中，明夷。內文明而外柔順，以蒙大難，文王以之。利艱貞，晦其明也，內難而能正其志，箕子以之。',
+        lines: [
+          { position: 1, text: '君子于行，義不食也。' },
+          { position: 2, text: '六二之吉，順以則也。' },
+          { position: 3, text: '南狩之志，乃大得也。' },
+          { position: 4, text: '入于左腹，獲心意也。' },
+          { position: 5, text: '箕子之貞，明不可息也。' },
+          { position: 6, text: '初登于天，照四國也；後入于地，失則也。' },
+        ],
+        sequence: '進必有所傷，故受之以明夷；夷者傷也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The light has sunk into the earth: darkening of the light. Inwardly cultured and clear, outwardly yielding and devoted, and so enduring great adversity: this was the way of King Wen. "It furthers one to be persevering in adversity": he veils his light. Inwardly in hardship yet able to keep his will correct: this was the way of Prince Ji.',
+        lines: [
+          { position: 1, text: '"The superior man on his wanderings": rightly he does not eat.' },
+          { position: 2, text: 'The good fortune of the six in the second place: he is devoted and keeps to the rule.' },
+          { position: 3, text: 'The purpose of the hunt in the south: great things are achieved.' },
+          { position: 4, text: '"He penetrates the left side of the belly": he learns the innermost thoughts.' },
+          { position: 5, text: 'The perseverance of Prince Ji: his light cannot be extinguished.' },
+          { position: 6, text: '"First he climbed up to heaven": his light reached the four quarters. "Then he plunged into the depths of the earth": he lost the rule.' },
+        ],
+        sequence: 'Advancing is sure to meet with injury, so Darkening of the Light follows. Darkening means injury.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  37: {
+    number: 37,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '家人，女正位乎內，男正位乎外，男女正，天地之大義也。家人有嚴君焉，父母之謂也。父父，子子，兄兄，弟弟，夫夫，婦婦，而家道正；正家而天下定矣。',
+        lines: [
+          { position: 1, text: '閑有家，志未變也。' },
+          { position: 2, text: '六二之吉，順以巽也。' },
+          { position: 3, text: '家人嗃嗃，未失也；婦子嘻嘻，失家節也。' },
+          { position: 4, text: '富家大吉，順在位也。' },
+          { position: 5, text: '王假有家，交相愛也。' },
+          { position: 6, text: '威如之吉，反身之謂也。' },
+        ],
+        sequence: '傷於外者必反其家，故受之以家人。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The family: the woman has her proper place within, the man his proper place without. That man and woman hold their proper places is the great meaning of heaven and earth. Among the family there are strict rulers: these are the father and the mother. When the father is truly a father and the son a son, when the elder brother is an elder brother and the younger a younger brother, when the husband is a husband and the wife a wife, then the way of the family is correct. When the family is set in order, the world is settled.',
+        lines: [
+          { position: 1, text: '"Firm seclusion within the family": the will has not yet changed.' },
+          { position: 2, text: 'The good fortune of the six in the second place: she is devoted and gentle.' },
+          { position: 3, text: '"When tempers flare up in the family": nothing is yet lost. "When woman and child dally and laugh": the family loses its measure.' },
+          { position: 4, text: '"She is the treasure of the house; great good fortune": devoted, she keeps to her place.' },
+          { position: 5, text: '"As a king he approaches his family": they love one another.' },
+          { position: 6, text: 'The good fortune of dignity: this means examining oneself.' },
+        ],
+        sequence: 'Whoever is injured abroad is sure to return home, so The Family follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  38: {
+    number: 38,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '睽，火動而上，澤動而下；二女同居，其志不同行。說而麗乎明，柔進而上行，得中而應乎剛，是以小事吉。天地睽而其事同也，男女睽而其志通也，萬物睽而其事類也。睽之時用大矣哉！',
+        lines: [
+          { position: 1, text: '見惡人，以辟咎也。' },
+          { position: 2, text: '遇主于巷，未失道也。' },
+          { position: 3, text: '見輿曳，位不當也；無初有終，遇剛也。' },
+          { position: 4, text: '交孚無咎，志行也。' },
+          { position: 5, text: '厥宗噬膚，往有慶也。' },
+          { position: 6, text: '遇雨之吉，群疑亡也。' },
+        ],
+        sequence: '家道窮必乖，故受之以睽；睽者乖也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Opposition: fire moves upward and the lake moves downward; two daughters live in the same house, but their wills do not go the same way. Joyous and clinging to clarity, the yielding advances and moves upward, holds the center and answers the firm. Hence "in small matters, good fortune." Heaven and earth are opposed, yet their work is the same; man and woman are opposed, yet their wills reach each other; all things are opposed, yet their workings are alike. Great indeed is the use of the time of opposition!',
+        lines: [
+          { position: 1, text: '"Seeing evil people": in order to avoid blame.' },
+          { position: 2, text: '"He meets his lord in a narrow street": he has not lost the way.' },
+          { position: 3, text: '"One sees the wagon dragged back": the place is not fitting. "Not a good beginning, but a good end": he meets with a firm line.' },
+          { position: 4, text: '"Meeting in sincerity; no blame": his will is carried out.' },
+          { position: 5, text: '"The companion bites his way through the wrappings": going brings blessing.' },
+          { position: 6, text: 'The good fortune of meeting the rain: all doubts vanish.' },
+        ],
+        sequence: 'When the way of the family is exhausted there is sure to be estrangement, so Opposition follows. Opposition means estrangement.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  39: {
+    number: 39,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '蹇，難也，險在前也。見險而能止，知矣哉！蹇利西南，往得中也；不利東北，其道窮也。利見大人，往有功也。當位貞吉，以正邦也。蹇之時用大矣哉！',
+        lines: [
+          { position: 1, text: '往蹇來譽，宜待也。' },
+          { position: 2, text: '王臣蹇蹇，終無尤也。' },
+          { position: 3, text: '往蹇來反，內喜之也。' },
+          { position: 4, text: '往蹇來連，當位實也。' },
+          { position: 5, text: '大蹇朋來，以中節也。' },
+          { position: 6, text: '往蹇來碩，志在內也；利見大人，以從貴也。' },
+        ],
+        sequence: '乖必有難，故受之以蹇；蹇者難也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Obstruction means difficulty: danger lies ahead. To see danger and know how to stop: that is wisdom indeed! "Obstruction; the southwest furthers": going there one attains the center. "The northeast does not further": that way comes to an end. "It furthers one to see the great man": going brings achievement. Holding the proper place with perseverance brings good fortune, in order to set the realm in order. Great indeed is the use of the time of obstruction!',
+        lines: [
+          { position: 1, text: '"Going leads to obstructions, coming meets with praise": it is right to wait.' },
+          { position: 2, text: '"The king\'s servant is beset by obstruction upon obstruction": in the end there is no cause for complaint.' },
+          { position: 3, text: '"Going leads to obstructions; hence he comes back": those within rejoice in him.' },
+          { position: 4, text: '"Going leads to obstructions, coming leads to union": the place is fitting and solid.' },
+          { position: 5, text: '"In the midst of the greatest obstructions, friends come": because of central moderation.' },
+          { position: 6, text: '"Going leads to obstructions, coming leads to great good fortune": the will is directed inward. "It furthers one to see the great man": in order to follow the noble.' },
+        ],
+        sequence: 'Estrangement is sure to bring difficulty, so Obstruction follows. Obstruction means difficulty.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  40: {
+    number: 40,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '解，險以動，動而免乎險，解。解利西南，往得眾也。其來復吉，乃得中也。有攸往夙吉，往有功也。天地解而雷雨作，雷雨作而百果草木皆甲坼。解之時大矣哉！',
+        lines: [
+          { position: 1, text: '剛柔之際，義無咎也。' },
+          { position: 2, text: '九二貞吉，得中道也。' },
+          { position: 3, text: '負且乘，亦可醜也；自我致戎，又誰咎也。' },
+          { position: 4, text: '解而拇，未當位也。' },
+          { position: 5, text: '君子有解，小人退也。' },
+          { position: 6, text: '公用射隼，以解悖也。' },
+        ],
+        sequence: '物不可以終難，故受之以解；解者緩也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Deliverance: danger, and movement; through movement one escapes from danger. This is deliverance. "Deliverance; the southwest furthers": going there one wins the multitude. "Returning brings good fortune": one attains the center. "If there is still somewhere to go, hastening brings good fortune": going brings achievement. When heaven and earth are delivered, thunder and rain set in; when thunder and rain set in, the buds of all fruits, plants and trees burst open. Great indeed is the time of deliverance!',
+        lines: [
+          { position: 1, text: 'Where the firm and the yielding meet, rightly there is no blame.' },
+          { position: 2, text: '"The nine in the second place; perseverance brings good fortune": he holds to the middle way.' },
+          { position: 3, text: '"If a man carries a burden on his back and nonetheless rides in a carriage": this too is shameful. "He brings on the approach of robbers himself": who could be blamed?' },
+          { position: 4, text: '"Deliver yourself from your great toe": the place is not yet fitting.' },
+          { position: 5, text: '"The superior man can deliver himself": the inferior withdraw.' },
+          { position: 6, text: '"The prince shoots at a hawk": in order to remove the rebellious.' },
+        ],
+        sequence: 'Things cannot be in difficulty forever, so Deliverance follows. Deliverance means easing.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  41: {
+    number: 41,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '損，損下益上，其道上行。損而有孚，元吉，無咎，可貞，利有攸往。曷之用？二簋可用享。二簋應有時，損剛益柔有時。損益盈虛，與時偕行。',
+        lines: [
+          { position: 1, text: '已事遄往，尚合志也。' },
+          { position: 2, text: '九二利貞，中以為志也。' },
+          { position: 3, text: '一人行，三則疑也。' },
+          { position: 4, text: '損其疾，亦可喜也。' },
+          { position: 5, text: '六五元吉，自上祐也。' },
+          { position: 6, text: '弗損益之，大得志也。' },
+        ],
+        sequence: '緩必有所失，故受之以損。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Decrease: what is below is decreased and what is above increased; its way goes upward. "Decrease combined with sincerity brings supreme good fortune without blame; one may be persevering in this; it furthers one to have somewhere to go. How is this to be carried out? Two small bowls may be used for the sacrifice." Two small bowls must suit the time; decreasing the firm and increasing the yielding has its time. Decrease and increase, fullness and emptiness: all go together with the time.',
+        lines: [
+          { position: 1, text: '"Going quickly when one\'s tasks are finished": those above are of one mind with him.' },
+          { position: 2, text: '"The nine in the second place; perseverance furthers": the center is his aim.' },
+          { position: 3, text: '"One man walking alone": three would stir up doubt.' },
+          { position: 4, text: '"If a man decreases his faults": this too is cause for joy.' },
+          { position: 5, text: 'The supreme good fortune of the six in the fifth place: blessing comes from above.' },
+          { position: 6, text: '"If one is increased without depriving others": the will is attained on a great scale.' },
+        ],
+        sequence: 'Easing is sure to bring loss, so Decrease follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  42: {
+    number: 42,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '益，損上益下，民說無疆；自上下下，其道大光。利有攸往，中正有慶。利涉大川，木道乃行。益動而巽，日進無疆；天施地生，其益無方。凡益之道，與時偕行。',
+        lines: [
+          { position: 1, text: '元吉無咎，下不厚事也。' },
+          { position: 2, text: '或益之，自外來也。' },
+          { position: 3, text: '益用凶事，固有之也。' },
+          { position: 4, text: '告公從，以益志也。' },
+          { position: 5, text: '有孚惠心，勿問之矣；惠我德，大得志也。' },
+          { position: 6, text: '莫益之，偏辭也；或擊之，自外來也。' },
+        ],
+        sequence: '損而不已必益，故受之以益。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Increase: what is above is decreased and what is below increased; the people\'s joy is boundless. From above it descends to those below, and its way shines greatly. "It furthers one to have somewhere to go": central and correct, it brings blessing. "It furthers one to cross the great water": the way of wood is carried out. Increase moves gently, advancing daily without limit. Heaven dispenses and earth brings forth; its increase knows no bounds. The way of increase always goes together with the time.',
+        lines: [
+          { position: 1, text: '"Supreme good fortune; no blame": those below do not take on heavy tasks.' },
+          { position: 2, text: '"Someone does indeed increase him": it comes from outside.' },
+          { position: 3, text: '"One is enriched through unfortunate events": this is firmly established.' },
+          { position: 4, text: '"Report to the prince and he will follow": in order to increase the will.' },
+          { position: 5, text: '"If in truth you have a kind heart, ask not": there is no need to ask. "Kindness will be recognized as your virtue": the will is attained on a great scale.' },
+          { position: 6, text: '"He brings increase to no one": these are one-sided words. "Indeed, someone even strikes him": it comes from outside.' },
+        ],
+        sequence: 'Decrease that does not stop is sure to bring increase, so Increase follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  43: {
+    number: 43,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '夬，決也，剛決柔也。健而說，決而和。揚于王庭，柔乘五剛也。孚號有厲，其危乃光也。告自邑，不利即戎，所尚乃窮也。利有攸往，剛長乃終也。',
+        lines: [
+          { position: 1, text: '不勝而往，咎也。' },
+          { position: 2, text: '有戎勿恤，得中道也。' },
+          { position: 3, text: '君子夬夬，終無咎也。' },
+          { position: 4, text: '其行次且，位不當也；聞言不信，聰不明也。' },
+          { position: 5, text: '中行無咎，中未光也。' },
+          { position: 6, text: '無號之凶，終不可長也。' },
+        ],
+        sequence: '益而不已必決，故受之以夬；夬者決也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Breakthrough means resoluteness: the firm breaks through the yielding. Strong and joyous, resolute and harmonious. "It must be made known at the court of the king": the yielding rides upon five firm lines. "It must be announced truthfully; there is danger": in facing the danger one\'s light shines. "It is necessary to notify one\'s own city; it does not further to resort to arms": what one values would come to an end. "It furthers one to have somewhere to go": the growth of the firm comes to completion.',
+        lines: [
+          { position: 1, text: 'To go without being equal to the task is a mistake.' },
+          { position: 2, text: '"Arms at evening and at night; fear nothing": he holds to the middle way.' },
+          { position: 3, text: '"The superior man is firmly resolved": in the end there is no blame.' },
+          { position: 4, text: '"Walking comes hard": the place is not fitting. "If these words are heard, they will not be believed": he does not hear clearly.' },
+          { position: 5, text: '"Walking in the middle remains free of blame": the center has not yet shone forth.' },
+          { position: 6, text: 'The misfortune of having no cry: in the end it cannot last.' },
+        ],
+        sequence: 'Increase that does not stop is sure to break through, so Breakthrough follows. Breakthrough means resoluteness.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  44: {
+    number: 44,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '姤，遇也，柔遇剛也。勿用取女，不可與長也。天地相遇，品物咸章也。剛遇中正，天下大行也。姤之時義大矣哉！',
+        lines: [
+          { position: 1, text: '繫于金柅，柔道牽也。' },
+          { position: 2, text: '包有魚，義不及賓也。' },
+          { position: 3, text: '其行次且，行未牽也。' },
+          { position: 4, text: '無魚之凶，遠民也。' },
+          { position: 5, text: '九五含章，中正也；有隕自天，志不舍命也。' },
+          { position: 6, text: '姤其角，上窮吝也。' },
+        ],
+        sequence: '決必有所遇，故受之以姤；姤者遇也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Coming to meet means encountering: the yielding meets the firm. "One should not marry such a maiden": one cannot live with her for long. Heaven and earth meet, and all kinds of things are made plain. The firm meets what is central and correct, and all under heaven prospers greatly. Great indeed is the meaning of the time of coming to meet!',
+        lines: [
+          { position: 1, text: '"It must be checked with a brake of bronze": the way of the yielding is to be led.' },
+          { position: 2, text: '"There is a fish in the tank": rightly it does not reach the guests.' },
+          { position: 3, text: '"Walking comes hard": but he is not led astray.' },
+          { position: 4, text: 'The misfortune of having no fish: he has kept away from the people.' },
+          { position: 5, text: 'The nine in the fifth place hides its lines: it is central and correct. "Then it drops down from heaven": his will does not forsake the mandate.' },
+          { position: 6, text: '"He comes to meet with his horns": at the top, exhaustion and humiliation.' },
+        ],
+        sequence: 'Breaking through is sure to lead to an encounter, so Coming to Meet follows. Coming to meet means encountering.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  45: {
+    number: 45,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '萃，聚也。順以說，剛中而應，故聚也。王假有廟，致孝享也。利見大人亨，聚以正也。用大牲吉，利有攸往，順天命也。觀其所聚，而天地萬物之情可見矣！',
+        lines: [
+          { position: 1, text: '乃亂乃萃，其志亂也。' },
+          { position: 2, text: '引吉無咎，中未變也。' },
+          { position: 3, text: '往無咎，上巽也。' },
+          { position: 4, text: '大吉無咎，位不當也。' },
+          { position: 5, text: '萃有位，志未光也。' },
+          { position: 6, text: '齎咨涕洟，未安上也。' },
+        ],
+        sequence: '物相遇而後聚，故受之以萃；萃者聚也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Gathering together means assembling. Devoted and joyous, the firm line is central and finds response; hence they gather. "The king approaches his temple": to offer filial sacrifice. "It furthers one to see the great man; this brings success": gathering through what is correct. "To bring great offerings creates good fortune; it furthers one to have somewhere to go": in obedience to the mandate of heaven. Contemplate what they gather, and the nature of heaven and earth and all things can be seen!',
+        lines: [
+          { position: 1, text: '"There is confusion and gathering": the will is confused.' },
+          { position: 2, text: '"Letting oneself be drawn brings good fortune and remains blameless": the center has not changed.' },
+          { position: 3, text: '"Going is without blame": the one above is gentle.' },
+          { position: 4, text: '"Great good fortune; no blame": the place is not fitting.' },
+          { position: 5, text: '"Gathering together in a position": the will has not yet shone forth.' },
+          { position: 6, text: '"Lamenting and sighing, floods of tears": he is not at ease at the top.' },
+        ],
+        sequence: 'After things meet they gather, so Gathering Together follows. Gathering means assembling.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  46: {
+    number: 46,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '柔以時升，巽而順，剛中而應，是以大亨。用見大人，勿恤，有慶也。南征吉，志行也。',
+        lines: [
+          { position: 1, text: '允升大吉，上合志也。' },
+          { position: 2, text: '九二之孚，有喜也。' },
+          { position: 3, text: '升虛邑，無所疑也。' },
+          { position: 4, text: '王用亨于岐山，順事也。' },
+          { position: 5, text: '貞吉升階，大得志也。' },
+          { position: 6, text: '冥升在上，消不富也。' },
+        ],
+        sequence: '聚而上者謂之升，故受之以升。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The yielding rises with the time. Gentle and devoted, the firm line is central and finds response; hence great success. "One must see the great man; fear not": there will be blessing. "Departure toward the south brings good fortune": the will is carried out.',
+        lines: [
+          { position: 1, text: '"Pushing upward that meets with confidence brings great good fortune": those above are of one mind with him.' },
+          { position: 2, text: 'The sincerity of the nine in the second place brings joy.' },
+          { position: 3, text: '"One pushes upward into an empty city": there is nothing to be in doubt about.' },
+          { position: 4, text: '"The king offers him Mount Qi": he serves with devotion.' },
+          { position: 5, text: '"Perseverance brings good fortune; one pushes upward by steps": the will is attained on a great scale.' },
+          { position: 6, text: 'Pushing upward in darkness at the top: it wanes and brings no wealth.' },
+        ],
+        sequence: 'What gathers and rises is called pushing upward, so Pushing Upward follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  47: {
+    number: 47,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '困，剛揜也。險以說，困而不失其所亨，其唯君子乎！貞大人吉，以剛中也。有言不信，尚口乃窮也。',
+        lines: [
+          { position: 1, text: '入于幽谷，幽不明也。' },
+          { position: 2, text: '困于酒食，中有慶也。' },
+          { position: 3, text: '據于蒺藜，乘剛也；入于其宮，不見其妻，不祥也。' },
+          { position: 4, text: '來徐徐，志在下也；雖不當位，有與也。' },
+          { position: 5, text: '劓刖，志未得也；乃徐有說，以中直也；利用祭祀，受福也。' },
+          { position: 6, text: '困于葛藟，未當也；動悔有悔，吉行也。' },
+        ],
+        sequence: '升而不已必困，故受之以困。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Oppression: the firm is covered over. Danger with joy: oppressed, yet not losing the power to succeed. Only the superior man can do this! "Perseverance; the great man brings good fortune": because of the firm and central line. "When one has something to say, it is not believed": to rely on the mouth leads to exhaustion.',
+        lines: [
+          { position: 1, text: '"He strays into a gloomy valley": it is gloomy and not clear.' },
+          { position: 2, text: '"Oppressed while at meat and drink": being central, there is blessing.' },
+          { position: 3, text: '"He leans on thorns and thistles": it rides upon a firm line. "He enters his house and does not see his wife": this is ill-omened.' },
+          { position: 4, text: '"He comes very quietly": the will is directed below. Though the place is not fitting, he has companions.' },
+          { position: 5, text: '"His nose and feet are cut off": the will has not yet attained its aim. "Joy comes softly": because he is central and straight. "It furthers one to make offerings and libations": he receives blessing.' },
+          { position: 6, text: '"Oppressed by creeping vines": the place is not yet fitting. "Movement brings remorse, and one repents": going brings good fortune.' },
+        ],
+        sequence: 'Pushing upward that does not stop is sure to lead to exhaustion, so Oppression follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  48: {
+    number: 48,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '巽乎水而上水，井；井養而不窮也。改邑不改井，乃以剛中也。汔至亦未繘井，未有功也。羸其瓶，是以凶也。',
+        lines: [
+          { position: 1, text: '井泥不食，下也；舊井無禽，時舍也。' },
+          { position: 2, text: '井谷射鮒，無與也。' },
+          { position: 3, text: '井渫不食，行惻也；求王明，受福也。' },
+          { position: 4, text: '井甃無咎，脩井也。' },
+          { position: 5, text: '寒泉之食，中正也。' },
+          { position: 6, text: '元吉在上，大成也。' },
+        ],
+        sequence: '困乎上者必反下，故受之以井。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Penetrating beneath the water and raising it up: the well. The well nourishes and is never exhausted. "The town may be changed, but the well cannot be changed": because of the firm and central line. "If one gets down almost to the water and the rope does not go all the way": nothing has yet been achieved. "Or the jug breaks": this brings misfortune.',
+        lines: [
+          { position: 1, text: '"One does not drink the mud of the well": it is low. "No animals come to an old well": the time has abandoned it.' },
+          { position: 2, text: '"At the wellhole one shoots fishes": there is no one to help.' },
+          { position: 3, text: '"The well is cleaned, but no one drinks from it": even passers-by grieve. "Seek the king\'s clear mind": to receive blessing.' },
+          { position: 4, text: '"The well is being lined; no blame": the well is being repaired.' },
+          { position: 5, text: 'Drinking from the cold spring: it is central and correct.' },
+          { position: 6, text: 'Supreme good fortune at the top: great completion.' },
+        ],
+        sequence: 'Whoever is oppressed above is sure to turn back below, so The Well follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  49: {
+    number: 49,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '革，水火相息，二女同居，其志不相得，曰革。已日乃孚，革而信之。文明以說，大亨以正。革而當，其悔乃亡。天地革而四時成，湯武革命，順乎天而應乎人。革之時大矣哉！',
+        lines: [
+          { position: 1, text: '鞏用黃牛，不可以有為也。' },
+          { position: 2, text: '已日革之，行有嘉也。' },
+          { position: 3, text: '革言三就，又何之矣。' },
+          { position: 4, text: '改命之吉，信志也。' },
+          { position: 5, text: '大人虎變，其文炳也。' },
+          { position: 6, text: '君子豹變，其文蔚也；小人革面，順以從君也。' },
+        ],
+        sequence: '井道不可不革，故受之以革。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Revolution: water and fire extinguish each other; two daughters live in the same house, but their wills are at odds. This is called revolution. "On your own day you are believed": the revolution is trusted. Cultured and clear, and so joyous; great success through what is correct. When a revolution is fitting, remorse disappears. Heaven and earth bring about revolution and the four seasons complete themselves. Tang and Wu brought about revolution, obedient to heaven and in answer to men. Great indeed is the time of revolution!',
+        lines: [
+          { position: 1, text: '"Wrapped in the hide of a yellow cow": one should not act.' },
+          { position: 2, text: '"When one\'s own day comes, one may create revolution": going brings praise.' },
+          { position: 3, text: '"When talk of revolution has gone the rounds three times": where else should one go?' },
+          { position: 4, text: 'The good fortune of altering the mandate: his will is trusted.' },
+          { position: 5, text: '"The great man changes like a tiger": his markings are bright.' },
+          { position: 6, text: '"The superior man changes like a panther": his markings are fine. "The inferior man molts in the face": he obediently follows the prince.' },
+        ],
+        sequence: 'The way of the well cannot go without renewal, so Revolution follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  50: {
+    number: 50,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '鼎，象也。以木巽火，亨飪也。聖人亨以享上帝，而大亨以養聖賢。巽而耳目聰明，柔進而上行，得中而應乎剛，是以元亨。',
+        lines: [
+          { position: 1, text: '鼎顛趾，未悖也；利出否，以從貴也。' },
+          { position: 2, text: '鼎有實，慎所之也；我仇有疾，終無尤也。' },
+          { position: 3, text: '鼎耳革，失其義也。' },
+          { position: 4, text: '覆公餗，信如何也。' },
+          { position: 5, text: '鼎黃耳，中以為實也。' },
+          { position: 6, text: '玉鉉在上，剛柔節也。' },
+        ],
+        sequence: '革物者莫若鼎，故受之以鼎。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The cauldron is an image. With wood fed to the fire, food is cooked. The holy sage cooks to make offerings to the Lord on High, and cooks on a great scale to nourish the holy and the worthy. Gentle, with ears and eyes keen and clear, the yielding advances and moves upward, holds the center and answers the firm. Hence supreme success.',
+        lines: [
+          { position: 1, text: '"A cauldron with legs upturned": this is not yet wrong. "Furthers removal of stagnating stuff": in order to follow the noble.' },
+          { position: 2, text: '"There is food in the cauldron": one must take care where one goes. "My comrades are envious": in the end there is no cause for complaint.' },
+          { position: 3, text: '"The handle of the cauldron is altered": it has lost its meaning.' },
+          { position: 4, text: '"The prince\'s meal is spilled": how can one be trusted?' },
+          { position: 5, text: '"The cauldron has yellow handles": the center is its substance.' },
+          { position: 6, text: 'The jade rings are at the top: the firm and the yielding are in measure.' },
+        ],
+        sequence: 'Nothing transforms things like the cauldron, so The Cauldron follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  51: {
+    number: 51,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '震亨。震來虩虩，恐致福也。笑言啞啞，後有則也。震驚百里，驚遠而懼邇也。出可以守宗廟社稷，以為祭主也。',
+        lines: [
+          { position: 1, text: '震來虩虩，恐致福也；笑言啞啞，後有則也。' },
+          { position: 2, text: '震來厲，乘剛也。' },
+          { position: 3, text: '震蘇蘇，位不當也。' },
+          { position: 4, text: '震遂泥，未光也。' },
+          { position: 5, text: '震往來厲，危行也；其事在中，大無喪也。' },
+          { position: 6, text: '震索索，中未得也；雖凶無咎，畏鄰戒也。' },
+        ],
+        sequence: '主器者莫若長子，故受之以震；震者動也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Shock brings success. "Shock comes, oh oh!": fear brings good fortune. "Laughing words, ha ha!": afterward there is a rule. "The shock terrifies for a hundred miles": it startles those far away and frightens those near at hand. He may come forth to guard the ancestral temple and the altars of the land and grain, and be master of the sacrifice.',
+        lines: [
+          { position: 1, text: '"Shock comes, oh oh!": fear brings good fortune. "Laughing words, ha ha!": afterward there is a rule.' },
+          { position: 2, text: '"Shock comes bringing danger": it rides upon a firm line.' },
+          { position: 3, text: '"Shock comes and makes one distraught": the place is not fitting.' },
+          { position: 4, text: '"Shock is mired": it has not yet shone forth.' },
+          { position: 5, text: '"Shock goes hither and thither; danger": he walks in peril. His work is at the center: there is nothing at all to lose.' },
+          { position: 6, text: '"Shock brings ruin and terrified gazing around": the center has not yet been attained. "Though misfortune comes, no blame": he fears his neighbor and takes warning.' },
+        ],
+        sequence: 'No one is better suited to keep the sacred vessels than the eldest son, so The Arousing follows. The arousing means movement.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  52: {
+    number: 52,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '艮，止也。時止則止，時行則行，動靜不失其時，其道光明。艮其止，止其所也。上下敵應，不相與也。是以不獲其身，行其庭不見其人，無咎也。',
+        lines: [
+          { position: 1, text: '艮其趾，未失正也。' },
+          { position: 2, text: '不拯其隨，未退聽也。' },
+          { position: 3, text: '艮其限，危薰心也。' },
+          { position: 4, text: '艮其身，止諸躬也。' },
+          { position: 5, text: '艮其輔，以中正也。' },
+          { position: 6, text: '敦艮之吉，以厚終也。' },
+        ],
+        sequence: '物不可以終動，止之，故受之以艮；艮者止也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Keeping still means stopping. When it is time to stop, stop; when it is time to go, go. When rest and movement do not miss their time, the way is bright and clear. Keeping still where one should stop: stopping in one\'s proper place. Above and below stand opposed and do not join together. Hence "he no longer feels his body; he goes into his courtyard and does not see his people; no blame."',
+        lines: [
+          { position: 1, text: '"Keeping his toes still": he has not yet lost what is correct.' },
+          { position: 2, text: '"He cannot rescue him whom he follows": he has not drawn back to listen.' },
+          { position: 3, text: '"Keeping his hips still": the danger makes the heart suffocate.' },
+          { position: 4, text: '"Keeping his trunk still": he stops within his own person.' },
+          { position: 5, text: '"Keeping his jaws still": because he is central and correct.' },
+          { position: 6, text: 'The good fortune of noblehearted keeping still: he ends in generosity.' },
+        ],
+        sequence: 'Things cannot move forever; they are brought to a halt, so Keeping Still follows. Keeping still means stopping.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  53: {
+    number: 53,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '漸之進也，女歸吉也。進得位，往有功也。進以正，可以正邦也。其位剛得中也。止而巽，動不窮也。',
+        lines: [
+          { position: 1, text: '小子之厲，義無咎也。' },
+          { position: 2, text: '飲食衎衎，不素飽也。' },
+          { position: 3, text: '夫征不復，離群醜也；婦孕不育，失其道也；利用禦寇，順相保也。' },
+          { position: 4, text: '或得其桷，順以巽也。' },
+          { position: 5, text: '終莫之勝吉，得所願也。' },
+          { position: 6, text: '其羽可用為儀吉，不可亂也。' },
+        ],
+        sequence: '物不可以終止，故受之以漸；漸者進也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Development, the advance of the maiden given in marriage, brings good fortune. Advancing, one attains one\'s place: going brings achievement. Advancing through what is correct, one can set the realm in order. Its place is that of the firm line holding the center. Still and gentle, its movement is never exhausted.',
+        lines: [
+          { position: 1, text: 'The danger for the young son: rightly there is no blame.' },
+          { position: 2, text: '"Eating and drinking in peace and concord": he is not merely eating his fill.' },
+          { position: 3, text: '"The man goes forth and does not return": he leaves his group. "The woman carries a child but does not bring it forth": she has lost her way. "It furthers one to fight off robbers": by devotion they protect one another.' },
+          { position: 4, text: '"Perhaps it will find a flat branch": through devotion and gentleness.' },
+          { position: 5, text: '"In the end nothing can hinder them; good fortune": they attain what they wish.' },
+          { position: 6, text: '"Its feathers can be used for the sacred dance; good fortune": they cannot be thrown into disorder.' },
+        ],
+        sequence: 'Things cannot stay still forever, so Development follows. Development means advancing.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  54: {
+    number: 54,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '歸妹，天地之大義也。天地不交而萬物不興，歸妹人之終始也。說以動，所歸妹也。征凶，位不當也。無攸利，柔乘剛也。',
+        lines: [
+          { position: 1, text: '歸妹以娣，以恆也；跛能履吉，相承也。' },
+          { position: 2, text: '利幽人之貞，未變常也。' },
+          { position: 3, text: '歸妹以須，未當也。' },
+          { position: 4, text: '愆期之志，有待而行也。' },
+          { position: 5, text: '帝乙歸妹，不如其娣之袂良也；其位在中，以貴行也。' },
+          { position: 6, text: '上六無實，承虛筐也。' },
+        ],
+        sequence: '進必有所歸，故受之以歸妹。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The marrying maiden reflects the great meaning of heaven and earth. If heaven and earth did not unite, nothing would flourish. The marrying maiden is the end and the beginning of humankind. Joyous in movement: it is a maiden who is given in marriage. "Undertakings bring misfortune": the places are not fitting. "Nothing furthers": the yielding rides upon the firm.',
+        lines: [
+          { position: 1, text: '"The marrying maiden as a concubine": this is constancy. "A lame man who is able to tread; good fortune": they support each other.' },
+          { position: 2, text: '"The perseverance of a solitary man furthers": the constant way has not changed.' },
+          { position: 3, text: '"The marrying maiden as a slave": the place is not fitting.' },
+          { position: 4, text: 'The purpose of delaying: there is a waiting, and then action.' },
+          { position: 5, text: '"The sovereign Yi gave his daughter in marriage; the embroidered garments of the princess were not as gorgeous as those of the servingmaid": her place is central, and she acts with nobility.' },
+          { position: 6, text: 'The six at the top has no substance: she holds an empty basket.' },
+        ],
+        sequence: 'Advancing is sure to lead somewhere to come home to, so The Marrying Maiden follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  55: {
+    number: 55,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '豐，大也。明以動，故豐。王假之，尚大也。勿憂宜日中，宜照天下也。日中則昃，月盈則食，天地盈虛，與時消息，而況於人乎？況於鬼神乎？',
+        lines: [
+          { position: 1, text: '雖旬無咎，過旬災也。' },
+          { position: 2, text: '有孚發若，信以發志也。' },
+          { position: 3, text: '豐其沛，不可大事也；折其右肱，終不可用也。' },
+          { position: 4, text: '豐其蔀，位不當也；日中見斗，幽不明也；遇其夷主，吉行也。' },
+          { position: 5, text: '六五之吉，有慶也。' },
+          { position: 6, text: '豐其屋，天際翔也；闚其戶，闃其無人，自藏也。' },
+        ],
+        sequence: '得其所歸者必大，故受之以豐；豐者大也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Abundance means greatness. Clarity with movement, hence abundance. "The king attains abundance": he values greatness. "Be not sad; be like the sun at midday": he should shine on the whole world. When the sun stands at midday it begins to set; when the moon is full it begins to wane. The fullness and emptiness of heaven and earth wax and wane with the time; how much more so men, and how much more so spirits and gods!',
+        lines: [
+          { position: 1, text: '"Even if it lasts ten days, no blame": going beyond ten days brings calamity.' },
+          { position: 2, text: '"If one arouses him through truth": good faith awakens the will.' },
+          { position: 3, text: '"The undergrowth is so abundant": nothing great can be done. "He breaks his right arm": in the end he cannot be used.' },
+          { position: 4, text: '"The curtain is of such fullness": the place is not fitting. "The polestars can be seen at noon": it is dark and not clear. "He meets his ruler who is of like kind": going brings good fortune.' },
+          { position: 5, text: 'The good fortune of the six in the fifth place brings blessing.' },
+          { position: 6, text: '"His house is in a state of abundance": he soars to the edge of heaven. "He peers through the gate and it is still, without people": he has hidden himself away.' },
+        ],
+        sequence: 'Whoever finds a home is sure to become great, so Abundance follows. Abundance means greatness.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  56: {
+    number: 56,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '旅小亨，柔得中乎外而順乎剛，止而麗乎明，是以小亨，旅貞吉也。旅之時義大矣哉！',
+        lines: [
+          { position: 1, text: '旅瑣瑣，志窮災也。' },
+          { position: 2, text: '得童僕貞，終無尤也。' },
+          { position: 3, text: '旅焚其次，亦以傷矣；以旅與下，其義喪也。' },
+          { position: 4, text: '旅于處，未得位也；得其資斧，心未快也。' },
+          { position: 5, text: '終以譽命，上逮也。' },
+          { position: 6, text: '以旅在上，其義焚也；喪牛于易，終莫之聞也。' },
+        ],
+        sequence: '窮大者必失其居，故受之以旅。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The wanderer has success in small matters. The yielding holds the center in the outer trigram and is devoted to the firm; still, and clinging to clarity. Hence "success in small matters; perseverance brings good fortune to the wanderer." Great indeed is the meaning of the time of the wanderer!',
+        lines: [
+          { position: 1, text: '"If the wanderer busies himself with trivial things": his will is exhausted, and calamity follows.' },
+          { position: 2, text: '"He wins the steadfastness of a young servant": in the end there is no cause for complaint.' },
+          { position: 3, text: '"The wanderer\'s inn burns down": he too is harmed by it. To treat those below as a wanderer would: rightly he loses them.' },
+          { position: 4, text: '"The wanderer rests in a shelter": he has not yet attained his place. "He obtains his property and an ax": his heart is not yet glad.' },
+          { position: 5, text: '"In the end this brings both praise and office": it reaches up to those above.' },
+          { position: 6, text: 'As a wanderer at the top: rightly it burns. "Through carelessness he loses his cow": in the end he hears nothing of it.' },
+        ],
+        sequence: 'Whoever exhausts greatness is sure to lose his home, so The Wanderer follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  57: {
+    number: 57,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '重巽以申命，剛巽乎中正而志行，柔皆順乎剛，是以小亨，利有攸往，利見大人。',
+        lines: [
+          { position: 1, text: '進退，志疑也；利武人之貞，志治也。' },
+          { position: 2, text: '紛若之吉，得中也。' },
+          { position: 3, text: '頻巽之吝，志窮也。' },
+          { position: 4, text: '田獲三品，有功也。' },
+          { position: 5, text: '九五之吉，位正中也。' },
+          { position: 6, text: '巽在床下，上窮也；喪其資斧，正乎凶也。' },
+        ],
+        sequence: '旅而無所容，故受之以巽；巽者入也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The gentle doubled serves to spread commands. The firm penetrates to what is central and correct, and its will is carried out; the yielding are all devoted to the firm. Hence "success through what is small; it furthers one to have somewhere to go; it furthers one to see the great man."',
+        lines: [
+          { position: 1, text: '"In advancing and in retreating": the will is in doubt. "The perseverance of a warrior furthers": the will is set in order.' },
+          { position: 2, text: 'The good fortune of a great number: he attains the center.' },
+          { position: 3, text: 'The humiliation of repeated penetration: the will is exhausted.' },
+          { position: 4, text: '"During the hunt three kinds of game are caught": there is achievement.' },
+          { position: 5, text: 'The good fortune of the nine in the fifth place: the place is correct and central.' },
+          { position: 6, text: '"Penetration under the bed": at the top it comes to an end. "He loses his property and his ax": is this correct? Misfortune.' },
+        ],
+        sequence: 'The wanderer has no place to stay, so The Gentle follows. The gentle means entering.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  58: {
+    number: 58,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '兌，說也。剛中而柔外，說以利貞，是以順乎天而應乎人。說以先民，民忘其勞；說以犯難，民忘其死。說之大，民勸矣哉！',
+        lines: [
+          { position: 1, text: '和兌之吉，行未疑也。' },
+          { position: 2, text: '孚兌之吉，信志也。' },
+          { position: 3, text: '來兌之凶，位不當也。' },
+          { position: 4, text: '九四之喜，有慶也。' },
+          { position: 5, text: '孚于剝，位正當也。' },
+          { position: 6, text: '上六引兌，未光也。' },
+        ],
+        sequence: '入而後說之，故受之以兌；兌者說也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'The joyous means delight. Firm within and yielding without; delight that furthers through perseverance. Thus it is obedient to heaven and answers men. When delight goes before the people, they forget their toil; when delight leads them into hardship, they forget death. Great is the power of delight: the people are spurred on by it!',
+        lines: [
+          { position: 1, text: 'The good fortune of contented joyousness: conduct is not yet in doubt.' },
+          { position: 2, text: 'The good fortune of sincere joyousness: the will is trusted.' },
+          { position: 3, text: 'The misfortune of coming joyousness: the place is not fitting.' },
+          { position: 4, text: 'The joy of the nine in the fourth place brings blessing.' },
+          { position: 5, text: '"Sincerity toward disintegrating influences": the place is correct and fitting.' },
+          { position: 6, text: 'The six at the top draws others into joyousness: it has not yet shone forth.' },
+        ],
+        sequence: 'After entering comes delight, so The Joyous follows. The joyous means delight.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  59: {
+    number: 59,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '渙亨，剛來而不窮，柔得位乎外而上同。王假有廟，王乃在中也。利涉大川，乘木有功也。',
+        lines: [
+          { position: 1, text: '初六之吉，順也。' },
+          { position: 2, text: '渙奔其机，得願也。' },
+          { position: 3, text: '渙其躬，志在外也。' },
+          { position: 4, text: '渙其群元吉，光大也。' },
+          { position: 5, text: '王居無咎，正位也。' },
+          { position: 6, text: '渙其血，遠害也。' },
+        ],
+        sequence: '說而後散之，故受之以渙；渙者離也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Dispersion has success. The firm comes and is not exhausted; the yielding holds its place outside and is at one with the one above. "The king approaches his temple": the king is at the center. "It furthers one to cross the great water": riding on wood brings achievement.',
+        lines: [
+          { position: 1, text: 'The good fortune of the six at the beginning: it is devoted.' },
+          { position: 2, text: '"At the dissolution he hurries to that which supports him": he attains what he wishes.' },
+          { position: 3, text: '"He dissolves his self": the will is directed outward.' },
+          { position: 4, text: '"He dissolves his bond with his group; supreme good fortune": it is bright and great.' },
+          { position: 5, text: '"Dissolution; a king abides without blame": the place is correct.' },
+          { position: 6, text: '"He dissolves his blood": he keeps harm at a distance.' },
+        ],
+        sequence: 'After delight comes dispersal, so Dispersion follows. Dispersion means scattering.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  60: {
+    number: 60,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '節亨，剛柔分而剛得中。苦節不可貞，其道窮也。說以行險，當位以節，中正以通。天地節而四時成，節以制度，不傷財，不害民。',
+        lines: [
+          { position: 1, text: '不出戶庭，知通塞也。' },
+          { position: 2, text: '不出門庭凶，失時極也。' },
+          { position: 3, text: '不節之嗟，又誰咎也。' },
+          { position: 4, text: '安節之亨，承上道也。' },
+          { position: 5, text: '甘節之吉，居位中也。' },
+          { position: 6, text: '苦節貞凶，其道窮也。' },
+        ],
+        sequence: '物不可以終離，故受之以節。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Limitation has success. The firm and the yielding are evenly divided and the firm holds the center. "Galling limitation must not be persevered in": its way comes to an end. Joyous while passing through danger, holding the proper place in order to limit, central and correct in order to get through. Heaven and earth have their limits, and the four seasons come to completion. When limitation is carried out through laws and measures, property is not squandered and the people are not harmed.',
+        lines: [
+          { position: 1, text: '"Not going out of the door and the courtyard": he knows when the way is open and when it is blocked.' },
+          { position: 2, text: '"Not going out of the gate and the courtyard brings misfortune": he misses the right moment altogether.' },
+          { position: 3, text: 'The lament of one who knows no limitation: who could be blamed?' },
+          { position: 4, text: 'The success of contented limitation: it follows the way of the one above.' },
+          { position: 5, text: 'The good fortune of sweet limitation: it holds a central place.' },
+          { position: 6, text: '"Galling limitation; perseverance brings misfortune": its way comes to an end.' },
+        ],
+        sequence: 'Things cannot be scattered forever, so Limitation follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  61: {
+    number: 61,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '中孚，柔在內而剛得中，說而巽，孚乃化邦也。豚魚吉，信及豚魚也。利涉大川，乘木舟虛也。中孚以利貞，乃應乎天也。',
+        lines: [
+          { position: 1, text: '初九虞吉，志未變也。' },
+          { position: 2, text: '其子和之，中心願也。' },
+          { position: 3, text: '或鼓或罷，位不當也。' },
+          { position: 4, text: '馬匹亡，絕類上也。' },
+          { position: 5, text: '有孚攣如，位正當也。' },
+          { position: 6, text: '翰音登于天，何可長也。' },
+        ],
+        sequence: '節而信之，故受之以中孚。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Inner truth: the yielding is within and the firm holds the center. Joyous and gentle: sincerity transforms the realm. "Pigs and fishes; good fortune": good faith reaches even pigs and fishes. "It furthers one to cross the great water": riding a hollow wooden boat. Inner truth, furthered by perseverance: thus it answers heaven.',
+        lines: [
+          { position: 1, text: '"The nine at the beginning; being prepared brings good fortune": the will has not yet changed.' },
+          { position: 2, text: '"Its young answers it": this is the wish of the inmost heart.' },
+          { position: 3, text: '"Now he beats the drum, now he stops": the place is not fitting.' },
+          { position: 4, text: '"The horse of the team goes astray": he breaks with his kind and turns upward.' },
+          { position: 5, text: '"He possesses truth, which links together": the place is correct and fitting.' },
+          { position: 6, text: '"Cockcrow penetrating to heaven": how could it last long?' },
+        ],
+        sequence: 'Through limitation things are made trustworthy, so Inner Truth follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  62: {
+    number: 62,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '小過，小者過而亨也。過以利貞，與時行也。柔得中，是以小事吉也。剛失位而不中，是以不可大事也。有飛鳥之象焉，飛鳥遺之音，不宜上宜下大吉，上逆而下順也。',
+        lines: [
+          { position: 1, text: '飛鳥以凶，不可如何也。' },
+          { position: 2, text: '不及其君，臣不可過也。' },
+          { position: 3, text: '從或戕之，凶如何也。' },
+          { position: 4, text: '弗過遇之，位不當也；往厲必戒，終不可長也。' },
+          { position: 5, text: '密雲不雨，已上也。' },
+          { position: 6, text: '弗遇過之，已亢也。' },
+        ],
+        sequence: '有其信者必行之，故受之以小過。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Preponderance of the small: the small are in excess and have success. Being in excess while perseverance furthers means moving in accord with the time. The yielding holds the center, hence good fortune in small matters. The firm has lost its place and is not central, hence great matters should not be undertaken. There is the image of a flying bird: "The flying bird brings the message: it is not well to strive upward, it is well to remain below; great good fortune." Going up runs counter; going down is devoted.',
+        lines: [
+          { position: 1, text: '"The bird meets with misfortune through flying": nothing can be done about it.' },
+          { position: 2, text: '"He does not attain to his prince": the official must not go beyond him.' },
+          { position: 3, text: '"Somebody may come up from behind and strike him": how great the misfortune!' },
+          { position: 4, text: '"He meets him without passing by": the place is not fitting. "Going brings danger; one must be on guard": in the end it cannot last.' },
+          { position: 5, text: '"Dense clouds, no rain": it has already risen too high.' },
+          { position: 6, text: '"He passes him by, not meeting him": it has already gone too far.' },
+        ],
+        sequence: 'Whoever has trust is sure to act on it, so Preponderance of the Small follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  63: {
+    number: 63,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '既濟亨，小者亨也。利貞，剛柔正而位當也。初吉，柔得中也。終止則亂，其道窮也。',
+        lines: [
+          { position: 1, text: '曳其輪，義無咎也。' },
+          { position: 2, text: '七日得，以中道也。' },
+          { position: 3, text: '三年克之，憊也。' },
+          { position: 4, text: '終日戒，有所疑也。' },
+          { position: 5, text: '東鄰殺牛，不如西鄰之時也；實受其福，吉大來也。' },
+          { position: 6, text: '濡其首厲，何可久也。' },
+        ],
+        sequence: '有過物者必濟，故受之以既濟。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'After completion brings success: success in small matters. "Perseverance furthers": the firm and the yielding are correct and their places fitting. "At the beginning good fortune": the yielding holds the center. When things come to a stop at the end there is disorder: the way has been exhausted.',
+        lines: [
+          { position: 1, text: '"He brakes his wheels": rightly there is no blame.' },
+          { position: 2, text: '"On the seventh day she will get it": because of the middle way.' },
+          { position: 3, text: '"After three years he conquers it": he is exhausted.' },
+          { position: 4, text: '"Be careful all day long": there is something to be wary of.' },
+          { position: 5, text: '"The neighbor in the east who slaughters an ox is not as suited to the time as the neighbor in the west." "He attains real happiness": good fortune comes on a great scale.' },
+          { position: 6, text: '"He gets his head in the water; danger": how could this last long?' },
+        ],
+        sequence: 'Whoever goes beyond others is sure to cross over, so After Completion follows.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  64: {
+    number: 64,
+    translations: {
+      'zh-zhouyi': {
+        tuan: '未濟亨，柔得中也。小狐汔濟，未出中也。濡其尾，無攸利，不續終也。雖不當位，剛柔應也。',
+        lines: [
+          { position: 1, text: '濡其尾，亦不知極也。' },
+          { position: 2, text: '九二貞吉，中以行正也。' },
+          { position: 3, text: '未濟征凶，位不當也。' },
+          { position: 4, text: '貞吉悔亡，志行也。' },
+          { position: 5, text: '君子之光，其暉吉也。' },
+          { position: 6, text: '飲酒濡首，亦不知節也。' },
+        ],
+        sequence: '物不可窮也，故受之以未濟終焉。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        tuan: 'Before completion has success: the yielding holds the center. "The little fox has nearly completed the crossing": it has not yet come out of the middle of danger. "It gets its tail in the water; nothing furthers": it does not keep going to the end. Though the places are not fitting, the firm and the yielding respond to each other.',
+        lines: [
+          { position: 1, text: '"He gets his tail in the water": he too does not know where to stop.' },
+          { position: 2, text: '"The nine in the second place; perseverance brings good fortune": central, it acts correctly.' },
+          { position: 3, text: '"Before completion, attack brings misfortune": the place is not fitting.' },
+          { position: 4, text: '"Perseverance brings good fortune; remorse disappears": his will is carried out.' },
+          { position: 5, text: '"The light of the superior man": its radiance brings good fortune.' },
+          { position: 6, text: '"Drinking wine and getting the head wet": he too does not know moderation.' },
+        ],
+        sequence: 'Things cannot come to an end, so Before Completion follows, and with it the sequence closes.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+};
+
+/**
+ * Gets a hexagram's commentary by language and source.
+ * If source is not provided, uses the default for that language, and
+ * languages without commentary of their own fall back to English.
+ */
+export function getHexagramCommentary(
+  number: number,
+  lang: string,
+  source?: string
+): HexagramCommentaryTranslation | undefined {
+  const commentary = commentaries[number];
+  if (!commentary) return undefined;
+  return commentary.translations[resolveCommentaryKey(commentary.translations, lang, source)];
+}
+
+/**
+ * Gets the Commentary on the Decision (彖傳) of a hexagram
+ */
+export function getTuan(number: number, lang: string, source?: string): string | undefined {
+  return getHexagramCommentary(number, lang, source)?.tuan;
+}
+
+/**
+ * Gets the Small Image (小象) on a single line by position (1 = bottom line)
+ */
+export function getLineCommentary(
+  number: number,
+  position: LinePosition,
+  lang: string,
+  source?: string
+): LineCommentary | undefined {
+  return getHexagramCommentary(number, lang, source)?.lines.find((line) => line.position === position);
+}
+
+/**
+ * Gets the Small Images for a set of moving lines, ordered from bottom to top
+ */
+export function getMovingLineCommentaries(
+  number: number,
+  positions: LinePosition[],
+  lang: string,
+  source?: string
+): LineCommentary[] {
+  const lines = getHexagramCommentary(number, lang, source)?.lines;
+  if (!lines) return [];
+  return lines.filter((line) => positions.includes(line.position));
+}
+
+/**
+ * Gets the Sequence (序卦) passage leading into a hexagram
+ */
+export function getSequenceRationale(number: number, lang: string, source?: string): string | undefined {
+  return getHexagramCommentary(number, lang, source)?.sequence;
+}
@@ -0,0 +1,21 @@
+/**
+ * @iching-kt/data-commentary
+ *
+ * Ten Wings (十翼) commentary keyed by hexagram number and line position:
+ * Tuan, Small Image, Wenyan, Sequence and Miscellany. The Great
+ * Treatise (繫辭) is keyed by part and chapter, and the Discussion of
+ * the Trigrams (說卦) by chapter and trigram.
+ *
+ * License: MIT
+ * Data Sources:
+ * - Ten Wings 十翼, received text (Public Domain)
+ * - English renderings written for this project
+ */
+
+export * from './types';
+export * from './sources';
+export * from './commentary';
+export * from './wenyan';
+export * from './zagua';
+export * from './xici';
+export * from './shuogua';
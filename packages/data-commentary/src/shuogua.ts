@@ -0,0 +1,288 @@
+/**
+ * Discussion of the Trigrams (說卦)
+ *
+ * The Shuogua speaks of trigrams rather than hexagrams. Chapters 1-6
+ * discuss the trigrams together and are kept by chapter. Chapters 7-11
+ * each go through all eight trigrams in turn, so they are regrouped by
+ * trigram: quality, animal, part of the body, place in the family and
+ * the images each one stands for.
+ */
+
+import { TrigramId } from '@iching-kt/data-hexagrams';
+import { CLASSICAL_TEXT, PROJECT_ENGLISH, resolveCommentaryKey } from './sources';
+import { ShuoguaChapter, ShuoguaTranslation, ShuoguaTrigram, ShuoguaTrigramTranslation } from './types';
+
+export const shuoguaChapters: ShuoguaChapter[] = [
+  {
+    chapter: 1,
+    translations: {
+      'zh-zhouyi': {
+        text: '昔者聖人之作易也，幽贊於神明而生蓍，參天兩地而倚數，觀變於陰陽而立卦，發揮於剛柔而生爻，和順於道德而理於義，窮理盡性以至於命。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'In ancient times the sages made the Changes thus: to give hidden aid to the spirits and the bright ones, they brought forth the yarrow stalks. They counted three for heaven and two for earth and so arrived at the numbers. They contemplated the changes of yin and yang and established the hexagrams. They brought out the firm and the yielding and produced the lines. They brought themselves into harmony with the way and its virtue and set things in order according to rightness. By thinking order through to the end and fathoming their nature to its core, they arrived at fate.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    chapter: 2,
+    translations: {
+      'zh-zhouyi': {
+        text: '昔者聖人之作易也，將以順性命之理，是以立天之道曰陰與陽，立地之道曰柔與剛，立人之道曰仁與義。兼三才而兩之，故易六畫而成卦。分陰分陽，迭用柔剛，故易六位而成章。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'In ancient times the sages made the Changes in order to follow the order of nature and fate. Therefore they set up the way of heaven and called it yin and yang; they set up the way of earth and called it the yielding and the firm; they set up the way of man and called it kindness and rightness. They combined the three powers and doubled them; therefore in the Changes six strokes form a hexagram. The places are divided into yin and yang, and the yielding and the firm are used in turn; therefore in the Changes six places form the pattern.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    chapter: 3,
+    translations: {
+      'zh-zhouyi': {
+        text: '天地定位，山澤通氣，雷風相薄，水火不相射，八卦相錯。數往者順，知來者逆，是故易逆數也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'Heaven and earth determine the positions. Mountain and lake exchange their forces. Thunder and wind stir each other up. Water and fire do not war with each other. Thus the eight trigrams are intermingled. Counting what is past goes with the flow; knowing what is to come goes against it. Therefore the Changes count against the flow.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    chapter: 4,
+    translations: {
+      'zh-zhouyi': {
+        text: '雷以動之，風以散之，雨以潤之，日以烜之，艮以止之，兌以說之，乾以君之，坤以藏之。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'Thunder sets things in motion, wind scatters them, rain moistens them, the sun warms them. Keeping Still brings them to rest, the Joyous gladdens them, the Creative rules them, the Receptive stores them.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    chapter: 5,
+    translations: {
+      'zh-zhouyi': {
+        text: '帝出乎震，齊乎巽，相見乎離，致役乎坤，說言乎兌，戰乎乾，勞乎坎，成言乎艮。萬物出乎震，震東方也。齊乎巽，巽東南也，齊也者，言萬物之絜齊也。離也者，明也，萬物皆相見，南方之卦也，聖人南面而聽天下，嚮明而治，蓋取諸此也。坤也者，地也，萬物皆致養焉，故曰致役乎坤。兌正秋也，萬物之所說也，故曰說言乎兌。戰乎乾，乾西北之卦也，言陰陽相薄也。坎者水也，正北方之卦也，勞卦也，萬物之所歸也，故曰勞乎坎。艮東北之卦也，萬物之所成終而所成始也，故曰成言乎艮。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'God comes forth in the Arousing; he sets things in order in the Gentle; he lets creatures see one another in the Clinging; he sets them to serve in the Receptive; he gladdens them in the Joyous; he battles in the Creative; he toils in the Abysmal; he brings them to completion in Keeping Still. All things come forth in the Arousing, and the Arousing is the east. They are set in order in the Gentle, and the Gentle is the southeast; being set in order means that all things are made pure and even. The Clinging is brightness, in which all things see one another; it is the trigram of the south. The sages face south to hear the affairs of the world and turn toward the light to govern; this they probably took from here. The Receptive is the earth, from which all things draw their nourishment; therefore it is said that he sets them to serve in the Receptive. The Joyous is mid-autumn, which gladdens all things; therefore it is said that he gladdens them in the Joyous. He battles in the Creative: the Creative is the trigram of the northwest, and this means that yin and yang clash. The Abysmal is water, the trigram of due north. It is the trigram of toil, to which all things return; therefore it is said that he toils in the Abysmal. Keeping Still is the trigram of the northeast, where all things complete their end and make their beginning; therefore it is said that he brings them to completion in Keeping Still.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    chapter: 6,
+    translations: {
+      'zh-zhouyi': {
+        text: '神也者，妙萬物而為言者也。動萬物者莫疾乎雷，橈萬物者莫疾乎風，燥萬物者莫熯乎火，說萬物者莫說乎澤，潤萬物者莫潤乎水，終萬物始萬物者莫盛乎艮。故水火相逮，雷風不相悖，山澤通氣，然後能變化，既成萬物也。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        text: 'The spirit is the wonder in all things, and it is spoken of in this way. Of all that moves things, nothing is swifter than thunder. Of all that bends things, nothing is swifter than wind. Of all that dries things, nothing is more parching than fire. Of all that gladdens things, nothing is more gladdening than the lake. Of all that moistens things, nothing is more moistening than water. Of all that ends things and begins things, nothing is more abundant than Keeping Still. Therefore water and fire reach each other, thunder and wind do not oppose each other, and mountain and lake exchange their forces. Only then can change and transformation take place and all things be brought to completion.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+];
+
+export const shuoguaTrigrams: Record<TrigramId, ShuoguaTrigram> = {
+  heaven: {
+    trigram: 'heaven',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '乾，健也。',
+        animal: '乾為馬。',
+        body: '乾為首。',
+        family: '乾，天也，故稱乎父。',
+        images: '乾為天，為圜，為君，為父，為玉，為金，為寒，為冰，為大赤，為良馬，為老馬，為瘠馬，為駁馬，為木果。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Creative is strength.',
+        animal: 'The Creative is the horse.',
+        body: 'The Creative is the head.',
+        family: 'The Creative is heaven, and so it is called the father.',
+        images: 'The Creative is heaven, roundness, the prince, the father, jade, metal, cold, ice, deep red, a good horse, an old horse, a lean horse, a piebald horse, the fruit of trees.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  earth: {
+    trigram: 'earth',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '坤，順也。',
+        animal: '坤為牛。',
+        body: '坤為腹。',
+        family: '坤，地也，故稱乎母。',
+        images: '坤為地，為母，為布，為釜，為吝嗇，為均，為子母牛，為大輿，為文，為眾，為柄，其於地也為黑。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Receptive is devotion.',
+        animal: 'The Receptive is the ox.',
+        body: 'The Receptive is the belly.',
+        family: 'The Receptive is earth, and so it is called the mother.',
+        images: 'The Receptive is earth, the mother, cloth, a cauldron, thrift, evenness, a cow with her calf, a great cart, pattern, the multitude, a handle. Among soils it is the black.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  thunder: {
+    trigram: 'thunder',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '震，動也。',
+        animal: '震為龍。',
+        body: '震為足。',
+        family: '震一索而得男，故謂之長男。',
+        images: '震為雷，為龍，為玄黃，為旉，為大塗，為長子，為決躁，為蒼筤竹，為萑葦。其於馬也，為善鳴，為馵足，為作足，為的顙。其於稼也，為反生。其究為健，為蕃鮮。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Arousing is movement.',
+        animal: 'The Arousing is the dragon.',
+        body: 'The Arousing is the foot.',
+        family: 'In the Arousing a son is won at the first seeking, and so it is called the eldest son.',
+        images: 'The Arousing is thunder, the dragon, dark yellow, unfolding, a great road, the eldest son, decision and vehemence, young green bamboo, reeds and rushes. Among horses it is those that neigh well, those with white hind legs, those that prance, those with a white star on the forehead. Among crops it is those that come back to life. In the end it is strength and lush growth.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  wind: {
+    trigram: 'wind',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '巽，入也。',
+        animal: '巽為雞。',
+        body: '巽為股。',
+        family: '巽一索而得女，故謂之長女。',
+        images: '巽為木，為風，為長女，為繩直，為工，為白，為長，為高，為進退，為不果，為臭。其於人也，為寡髮，為廣顙，為多白眼，為近利市三倍。其究為躁卦。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Gentle is penetration.',
+        animal: 'The Gentle is the cock.',
+        body: 'The Gentle is the thighs.',
+        family: 'In the Gentle a daughter is won at the first seeking, and so it is called the eldest daughter.',
+        images: 'The Gentle is wood, wind, the eldest daughter, the plumb line, the craftsman, white, length, height, advance and retreat, indecision, scent. Among men it is those with thin hair, those with broad foreheads, those with much white in their eyes, those who chase profit and make threefold gains at market. In the end it is the trigram of vehemence.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  water: {
+    trigram: 'water',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '坎，陷也。',
+        animal: '坎為豕。',
+        body: '坎為耳。',
+        family: '坎再索而得男，故謂之中男。',
+        images: '坎為水，為溝瀆，為隱伏，為矯輮，為弓輪。其於人也，為加憂，為心病，為耳痛，為血卦，為赤。其於馬也，為美脊，為亟心，為下首，為薄蹄，為曳。其於輿也，為多眚，為通，為月，為盜。其於木也，為堅多心。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Abysmal is the pit.',
+        animal: 'The Abysmal is the pig.',
+        body: 'The Abysmal is the ear.',
+        family: 'In the Abysmal a son is won at the second seeking, and so it is called the middle son.',
+        images: 'The Abysmal is water, ditches and channels, hiding, straightening and bending, the bow and the wheel. Among men it is those with added cares, sickness of the heart, pain in the ears; it is the trigram of blood, and it is red. Among horses it is those with fine backs, those with a restless heart, those that hang their heads, those with thin hoofs, those that stumble. Among carts it is those with many faults. It is passing through, the moon, the thief. Among trees it is those that are hard with much heartwood.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  fire: {
+    trigram: 'fire',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '離，麗也。',
+        animal: '離為雉。',
+        body: '離為目。',
+        family: '離再索而得女，故謂之中女。',
+        images: '離為火，為日，為電，為中女，為甲冑，為戈兵。其於人也，為大腹，為乾卦，為鱉，為蟹，為蠃，為蚌，為龜。其於木也，為科上槁。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Clinging is dependence.',
+        animal: 'The Clinging is the pheasant.',
+        body: 'The Clinging is the eye.',
+        family: 'In the Clinging a daughter is won at the second seeking, and so it is called the middle daughter.',
+        images: 'The Clinging is fire, the sun, lightning, the middle daughter, armor and helmets, spears and weapons. Among men it is those with big bellies. It is the trigram of dryness. It is the turtle, the crab, the snail, the mussel, the tortoise. Among trees it is those that are hollow and withered at the top.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  mountain: {
+    trigram: 'mountain',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '艮，止也。',
+        animal: '艮為狗。',
+        body: '艮為手。',
+        family: '艮三索而得男，故謂之少男。',
+        images: '艮為山，為徑路，為小石，為門闕，為果蓏，為閽寺，為指，為狗，為鼠，為黔喙之屬。其於木也，為堅多節。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'Keeping Still is standstill.',
+        animal: 'Keeping Still is the dog.',
+        body: 'Keeping Still is the hand.',
+        family: 'In Keeping Still a son is won at the third seeking, and so it is called the youngest son.',
+        images: 'Keeping Still is the mountain, a footpath, small stones, gates and gate towers, fruits and gourds, gatekeepers and eunuchs, the fingers, the dog, the rat, the black-billed kinds. Among trees it is those that are hard with many knots.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  lake: {
+    trigram: 'lake',
+    translations: {
+      'zh-zhouyi': {
+        attribute: '兌，說也。',
+        animal: '兌為羊。',
+        body: '兌為口。',
+        family: '兌三索而得女，故謂之少女。',
+        images: '兌為澤，為少女，為巫，為口舌，為毀折，為附決。其於地也，為剛鹵，為妾，為羊。',
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        attribute: 'The Joyous is joy.',
+        animal: 'The Joyous is the sheep.',
+        body: 'The Joyous is the mouth.',
+        family: 'In the Joyous a daughter is won at the third seeking, and so it is called the youngest daughter.',
+        images: 'The Joyous is the lake, the youngest daughter, the sorceress, mouth and tongue, breaking and smashing, falling off and bursting open. Among soils it is the hard and salty. It is the concubine, the sheep.',
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+};
+
+/**
+ * Gets one of the opening chapters (1-6) of the Shuogua by language and
+ * source; chapters 7-11 are kept by trigram
+ */
+export function getShuoguaChapter(chapter: number, lang: string, source?: string): ShuoguaTranslation | undefined {
+  const entry = shuoguaChapters.find((candidate) => candidate.chapter === chapter);
+  if (!entry) return undefined;
+  return entry.translations[resolveCommentaryKey(entry.translations, lang, source)];
+}
+
+/**
+ * Gets what the Shuogua says about a trigram by language and source
+ */
+export function getShuoguaTrigram(
+  trigram: TrigramId,
+  lang: string,
+  source?: string
+): ShuoguaTrigramTranslation | undefined {
+  const entry = shuoguaTrigrams[trigram];
+  if (!entry) return undefined;
+  return entry.translations[resolveCommentaryKey(entry.translations, lang, source)];
+}
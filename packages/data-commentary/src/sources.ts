@@ -0,0 +1,58 @@
+/**
+ * Commentary sources and their attribution
+ *
+ * Keys follow the language-source format used by hexagram translations.
+ * Only the classical text and one English rendering exist so far, so
+ * every other language falls back to English.
+ */
+
+import { TranslationMetadata } from '@iching-kt/core';
+
+/** The received text of the Ten Wings */
+export const CLASSICAL_TEXT: TranslationMetadata = {
+  source: 'original-chinese',
+  license: 'public-domain',
+  originalLanguage: 'zh',
+};
+
+/** English rendering written for this project from the classical text */
+export const PROJECT_ENGLISH: TranslationMetadata = {
+  source: 'project',
+  license: 'mit',
+  originalLanguage: 'zh',
+  referenceTranslations: ['James Legge (1882)', 'Richard Wilhelm / Cary F. Baynes (1950)'],
+};
+
+/**
+ * Language-source keys every commentary entry carries
+ */
+export const COMMENTARY_KEYS: readonly string[] = ['zh-zhouyi', 'en-project'];
+
+/**
+ * Default commentary source for each language
+ */
+const DEFAULT_SOURCES: Record<string, string> = {
+  zh: 'zhouyi',
+  en: 'project',
+};
+
+/**
+ * Gets the default commentary source for a language
+ */
+export function getDefaultCommentarySource(lang: string): string {
+  return DEFAULT_SOURCES[lang] || 'project';
+}
+
+/**
+ * Resolves the language-source key to read, falling back to English when
+ * no source was asked for and the language has no commentary of its own
+ */
+export function resolveCommentaryKey(
+  translations: Record<string, unknown>,
+  lang: string,
+  source?: string
+): string {
+  const key = `${lang}-${source || getDefaultCommentarySource(lang)}`;
+  if (source || key in translations) return key;
+  return 'en-project';
+}
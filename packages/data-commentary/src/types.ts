@@ -0,0 +1,102 @@
+/**
+ * Commentary data types
+ * Texts sourced from:
+ * - Ten Wings 十翼 (Classical Chinese, Public Domain)
+ * - English renderings written for this project (MIT)
+ */
+
+import { TranslationMetadata } from '@iching-kt/core';
+import { LinePosition, TrigramId } from '@iching-kt/data-hexagrams';
+
+/** Small Image (小象) commentary on a single line statement */
+export interface LineCommentary {
+  position: LinePosition;
+  text: string;
+}
+
+export interface HexagramCommentaryTranslation {
+  /** Commentary on the Decision (彖傳) */
+  tuan: string;
+  /** Small Image (小象) commentaries ordered from bottom (position 1) to top (position 6) */
+  lines: LineCommentary[];
+  /** Small Image on the 用九/用六 statement (hexagrams 1 and 2 only) */
+  allMoving?: string;
+  /** Sequence (序卦) passage explaining why the hexagram follows the one before it */
+  sequence: string;
+  metadata: TranslationMetadata;
+}
+
+export interface HexagramCommentary {
+  number: number;
+  /** Translations by language-source key ('zh-zhouyi', 'en-project') */
+  translations: Record<string, HexagramCommentaryTranslation>;
+}
+
+export interface WenyanTranslation {
+  paragraphs: string[];
+  metadata: TranslationMetadata;
+}
+
+/** Words of the Text (文言), which only exist for hexagrams 1 and 2 */
+export interface Wenyan {
+  hexagram: 1 | 2;
+  translations: Record<string, WenyanTranslation>;
+}
+
+export interface ZaguaTranslation {
+  text: string;
+  metadata: TranslationMetadata;
+}
+
+/** Two hexagrams characterized against each other in the Miscellany (雜卦) */
+export interface ZaguaPair {
+  /** Hexagram numbers in the order the text names them */
+  hexagrams: [number, number];
+  translations: Record<string, ZaguaTranslation>;
+}
+
+export interface XiciTranslation {
+  paragraphs: string[];
+  metadata: TranslationMetadata;
+}
+
+/** The two parts of the Great Treatise: 繫辭上 and 繫辭下 */
+export type XiciPart = 'upper' | 'lower';
+
+/** A chapter of the Great Treatise (繫辭), numbered within its part as in Zhu Xi's division */
+export interface XiciChapter {
+  part: XiciPart;
+  chapter: number;
+  translations: Record<string, XiciTranslation>;
+}
+
+export interface ShuoguaTranslation {
+  text: string;
+  metadata: TranslationMetadata;
+}
+
+/** One of the opening chapters (1-6) of the Discussion of the Trigrams (說卦) */
+export interface ShuoguaChapter {
+  chapter: number;
+  translations: Record<string, ShuoguaTranslation>;
+}
+
+/** What chapters 7-11 of the Discussion of the Trigrams say about one trigram */
+export interface ShuoguaTrigramTranslation {
+  /** Its quality (chapter 7) */
+  attribute: string;
+  /** Its animal (chapter 8) */
+  animal: string;
+  /** Its part of the body (chapter 9) */
+  body: string;
+  /** Its place in the family (chapter 10) */
+  family: string;
+  /** The images it stands for (chapter 11) */
+  images: string;
+  metadata: TranslationMetadata;
+}
+
+export interface ShuoguaTrigram {
+  trigram: TrigramId;
+  translations: Record<string, ShuoguaTrigramTranslation>;
+}
@@ -0,0 +1,100 @@
+/**
+ * Words of the Text (文言)
+ *
+ * The Wenyan only comments on hexagrams 1 and 2. It reads the judgment
+ * as four virtues and goes over the line statements several times, so
+ * it is kept as paragraphs in the order of the received text rather
+ * than split by line.
+ */
+
+import { CLASSICAL_TEXT, PROJECT_ENGLISH, resolveCommentaryKey } from './sources';
+import { Wenyan, WenyanTranslation } from './types';
+
+export const wenyan: Record<1 | 2, Wenyan> = {
+  1: {
+    hexagram: 1,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '元者，善之長也；亨者，嘉之會也；利者，義之和也；貞者，事之幹也。君子體仁足以長人，嘉會足以合禮，利物足以和義，貞固足以幹事。君子行此四德者，故曰：乾，元亨利貞。',
+          '初九曰：潛龍勿用，何謂也？子曰：龍德而隱者也。不易乎世，不成乎名，遯世無悶，不見是而無悶；樂則行之，憂則違之，確乎其不可拔，潛龍也。',
+          '九二曰：見龍在田，利見大人，何謂也？子曰：龍德而正中者也。庸言之信，庸行之謹，閑邪存其誠，善世而不伐，德博而化。易曰：見龍在田，利見大人，君德也。',
+          '九三曰：君子終日乾乾，夕惕若厲，無咎，何謂也？子曰：君子進德脩業。忠信，所以進德也；脩辭立其誠，所以居業也。知至至之，可與幾也；知終終之，可與存義也。是故居上位而不驕，在下位而不憂，故乾乾因其時而惕，雖危無咎矣。',
+          '九四曰：或躍在淵，無咎，何謂也？子曰：上下無常，非為邪也；進退無恆，非離群也。君子進德脩業，欲及時也，故無咎。',
+          '九五曰：飛龍在天，利見大人，何謂也？子曰：同聲相應，同氣相求；水流濕，火就燥；雲從龍，風從虎；聖人作而萬物覩。本乎天者親上，本乎地者親下，則各從其類也。',
+          '上九曰：亢龍有悔，何謂也？子曰：貴而無位，高而無民，賢人在下位而無輔，是以動而有悔也。',
+          '潛龍勿用，下也。見龍在田，時舍也。終日乾乾，行事也。或躍在淵，自試也。飛龍在天，上治也。亢龍有悔，窮之災也。乾元用九，天下治也。',
+          '潛龍勿用，陽氣潛藏。見龍在田，天下文明。終日乾乾，與時偕行。或躍在淵，乾道乃革。飛龍在天，乃位乎天德。亢龍有悔，與時偕極。乾元用九，乃見天則。',
+          '乾元者，始而亨者也。利貞者，性情也。乾始能以美利利天下，不言所利，大矣哉！大哉乾乎，剛健中正，純粹精也；六爻發揮，旁通情也；時乘六龍，以御天也；雲行雨施，天下平也。',
+          '君子以成德為行，日可見之行也。潛之為言也，隱而未見，行而未成，是以君子弗用也。',
+          '君子學以聚之，問以辯之，寬以居之，仁以行之。易曰：見龍在田，利見大人，君德也。',
+          '九三重剛而不中，上不在天，下不在田，故乾乾因其時而惕，雖危無咎矣。',
+          '九四重剛而不中，上不在天，下不在田，中不在人，故或之。或之者，疑之也，故無咎。',
+          '夫大人者，與天地合其德，與日月合其明，與四時合其序，與鬼神合其吉凶。先天而天弗違，後天而奉天時。天且弗違，而況於人乎？況於鬼神乎？',
+          '亢之為言也，知進而不知退，知存而不知亡，知得而不知喪。其唯聖人乎！知進退存亡而不失其正者，其唯聖人乎！',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Sublimity is the chief of all that is good; success is the coming together of all that is beautiful; furthering is the harmony of all that is right; perseverance is the trunk of all undertakings. The superior man embodies humaneness and so is able to lead men; he brings together what is beautiful and so is able to unite them through propriety; he furthers all beings and so is able to bring them into harmony with what is right; he is steadfast and persevering and so is able to carry out his undertakings. The superior man practices these four virtues; therefore it is said: "The Creative is sublime, successful, furthering and persevering."',
+          'The nine at the beginning says: "Hidden dragon. Do not act." What does this mean? The Master said: This is one who has the nature of a dragon but remains hidden. He is not changed by the world and does not seek to make a name. He withdraws from the world without regret; he is not troubled when he finds no approval. If a thing brings him joy, he carries it out; if it brings him sorrow, he turns away from it. Firm indeed, and not to be uprooted: this is the hidden dragon.',
+          'The nine in the second place says: "Dragon appearing in the field. It furthers one to see the great man." What does this mean? The Master said: This is one who has the nature of a dragon and is correct and central. He is truthful in ordinary words and careful in ordinary deeds. He guards against what is false and preserves his sincerity. He improves his world without boasting of it; his virtue is broad and transforms others. The Changes say: "Dragon appearing in the field. It furthers one to see the great man." This is the virtue of a ruler.',
+          'The nine in the third place says: "All day long the superior man is creatively active. At nightfall his mind is still beset with cares. Danger. No blame." What does this mean? The Master said: The superior man improves his character and labors at his task. It is through loyalty and good faith that he improves his character; it is by choosing his words carefully and standing on sincerity that he makes his task endure. Knowing where he is to arrive, he arrives there, and so he can perceive the seeds of things; knowing where he is to end, he ends there, and so he can preserve what is right. Therefore he is not proud in a high position and not anxious in a low one. Thus, creatively active and cautious as the time requires, though in danger he is without blame.',
+          'The nine in the fourth place says: "Wavering flight over the depths. No blame." What does this mean? The Master said: Rising or falling has no fixed rule here, but it is not for any evil purpose; advancing or retreating has no constancy, but it is not to leave his fellows. The superior man improves his character and labors at his task, wishing to do so at the right time. Hence there is no blame.',
+          'The nine in the fifth place says: "Flying dragon in the heavens. It furthers one to see the great man." What does this mean? The Master said: Things that accord in tone vibrate together; things of kindred nature seek one another. Water flows toward what is wet; fire turns toward what is dry. Clouds follow the dragon and wind follows the tiger. The sage arises, and all beings look up to him. What is born of heaven draws close to what is above; what is born of earth draws close to what is below. Each follows its kind.',
+          'The nine at the top says: "Arrogant dragon will have cause to repent." What does this mean? The Master said: He is noble but without a position, lofty but without a people. The worthy men in lower positions give him no help. Hence whatever he does brings remorse.',
+          '"Hidden dragon. Do not act": he is below. "Dragon appearing in the field": the time lets him rest there. "Creatively active all day long": he goes about his affairs. "Wavering flight over the depths": he puts himself to the test. "Flying dragon in the heavens": he governs from above. "Arrogant dragon will have cause to repent": calamity through exhaustion. When the originating power of the Creative shows itself in all the nines, the world is in order.',
+          '"Hidden dragon. Do not act": the light-giving force lies hidden in the depths. "Dragon appearing in the field": the whole world grows bright and cultured. "Creatively active all day long": he moves on with the time. "Wavering flight over the depths": the way of the Creative is about to change. "Flying dragon in the heavens": his place accords with the virtue of heaven. "Arrogant dragon will have cause to repent": he goes to the extreme together with the time. When the originating power of the Creative shows itself in all the nines, the law of heaven becomes visible.',
+          'The originating power of the Creative is what begins and brings success. Furthering and perseverance are its nature and its character. The Creative is able to further the whole world by its beauty and benefit, yet it does not speak of what it furthers. Great indeed! Great indeed is the Creative: firm and strong, central and correct, pure, unmixed and refined. The six lines unfold it and reach into every circumstance. Riding on the six dragons in their season, it mounts to heaven. Clouds drift and rain falls, and the world is at peace.',
+          'The superior man makes perfected virtue the aim of his conduct, conduct that can be seen from day to day. "Hidden" means that he is still concealed and not yet seen, that his conduct is not yet perfected. Therefore the superior man does not act.',
+          'The superior man learns in order to gather knowledge and asks in order to sift it. He is generous in abiding by it and humane in carrying it out. The Changes say: "Dragon appearing in the field. It furthers one to see the great man." This is the virtue of a ruler.',
+          'The nine in the third place is doubly firm and not central. Above, it is not yet in heaven; below, it is no longer in the field. Therefore, creatively active and cautious as the time requires, though in danger he is without blame.',
+          'The nine in the fourth place is doubly firm and not central. Above, it is not yet in heaven; below, it is no longer in the field; in the middle, it is not in the place of man. Hence the word "wavering." To waver means to be in doubt. Therefore there is no blame.',
+          'The great man accords in his virtue with heaven and earth, in his light with sun and moon, in his order with the four seasons, and in the good and ill he brings with the spirits and gods. When he acts in advance of heaven, heaven does not oppose him; when he follows heaven, he keeps to the times of heaven. If even heaven does not oppose him, how much less will men! How much less the spirits and gods!',
+          '"Arrogant" means that he knows how to advance but not how to withdraw, how to hold on but not how to let go, how to gain but not how to lose. Only the holy sage, it seems! Knowing advance and retreat, holding on and letting go, and never losing what is correct in them: only the holy sage can do this!',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  2: {
+    hexagram: 2,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '坤至柔而動也剛，至靜而德方，後得主而有常，含萬物而化光。坤道其順乎，承天而時行。',
+          '積善之家，必有餘慶；積不善之家，必有餘殃。臣弒其君，子弒其父，非一朝一夕之故，其所由來者漸矣，由辯之不早辯也。易曰：履霜堅冰至，蓋言順也。',
+          '直其正也，方其義也。君子敬以直內，義以方外，敬義立而德不孤。直方大，不習無不利，則不疑其所行也。',
+          '陰雖有美，含之以從王事，弗敢成也。地道也，妻道也，臣道也。地道無成而代有終也。',
+          '天地變化，草木蕃；天地閉，賢人隱。易曰：括囊無咎無譽，蓋言謹也。',
+          '君子黃中通理，正位居體，美在其中，而暢於四支，發於事業，美之至也。',
+          '陰疑於陽必戰，為其嫌於無陽也，故稱龍焉；猶未離其類也，故稱血焉。夫玄黃者，天地之雜也，天玄而地黃。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Receptive is utterly yielding, yet in movement it is firm; it is utterly still, yet its nature is square. By following it finds a master and keeps to its constant way. It contains all things, and its transforming power is full of light. Is not the way of the Receptive devotion itself? It receives heaven and moves with the time.',
+          'A house that heaps up good deeds is sure to have blessings to spare; a house that heaps up evil deeds is sure to have misfortune to spare. When a minister murders his prince or a son murders his father, the cause does not lie in the events of a single morning or evening. It came about gradually, because what should have been recognized was not recognized in time. The Changes say: "When there is hoarfrost underfoot, solid ice is not far off." This speaks of how things follow their course.',
+          '"Straight" means correctness; "square" means rightness. The superior man is reverent in order to keep himself straight within, and right in order to keep his conduct square without. When reverence and rightness are established, his virtue does not stand alone. "Straight, square, great. Without practice, nothing fails to further": then he has no doubts about what he does.',
+          'Although the dark force has beauty, it keeps it hidden in the service of the king and does not dare to claim completion for itself. This is the way of the earth, the way of the wife, the way of the minister. The way of the earth is to claim no completion, but to carry things through to the end in another\'s place.',
+          'When heaven and earth change and transform, grasses and trees flourish; when heaven and earth are closed, worthy men hide themselves. The Changes say: "A tied-up sack. No blame, no praise." This speaks of caution.',
+          'The superior man is yellow and central, and he understands the order of things. He holds the correct position and dwells in its substance. Beauty is within him; it spreads to his limbs and shows itself in his undertakings. This is beauty at its most perfect.',
+          'When the dark force is on a par with the light, there is sure to be a fight; because it seems as though there were no light, the dragon is named. Yet the dark has not left its own kind, and so blood is named. Dark and yellow are the mingling of heaven and earth: heaven is dark and earth is yellow.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+};
+
+/**
+ * Gets the Wenyan for hexagram 1 or 2 by language and source;
+ * other hexagrams have none
+ */
+export function getWenyan(number: number, lang: string, source?: string): WenyanTranslation | undefined {
+  if (number !== 1 && number !== 2) return undefined;
+  const { translations } = wenyan[number];
+  return translations[resolveCommentaryKey(translations, lang, source)];
+}
@@ -0,0 +1,500 @@
+/**
+ * The Great Treatise (繫辭)
+ *
+ * The Xici discusses the book as a whole rather than single hexagrams,
+ * so it is kept by part (繫辭上, 繫辭下) and chapter, twelve chapters to
+ * a part as in Zhu Xi's division. Chapters that take up several line
+ * statements in turn are split into paragraphs, one per statement.
+ */
+
+import { CLASSICAL_TEXT, PROJECT_ENGLISH, resolveCommentaryKey } from './sources';
+import { XiciChapter, XiciPart, XiciTranslation } from './types';
+
+export const xiciChapters: XiciChapter[] = [
+  {
+    part: 'upper',
+    chapter: 1,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '天尊地卑，乾坤定矣。卑高以陳，貴賤位矣。動靜有常，剛柔斷矣。方以類聚，物以群分，吉凶生矣。在天成象，在地成形，變化見矣。是故剛柔相摩，八卦相盪，鼓之以雷霆，潤之以風雨，日月運行，一寒一暑，乾道成男，坤道成女。乾知大始，坤作成物。乾以易知，坤以簡能。易則易知，簡則易從。易知則有親，易從則有功。有親則可久，有功則可大。可久則賢人之德，可大則賢人之業。易簡而天下之理得矣，天下之理得，而成位乎其中矣。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Heaven is high and earth is low; so the Creative and the Receptive are fixed. As low and high are laid out, the noble and the humble take their places. Movement and rest have their constant rules; so the firm and the yielding are told apart. Tendencies gather by kind and things divide by group, and so good fortune and misfortune arise. In heaven images take shape and on earth forms take shape, and in them change and transformation appear. Therefore the firm and the yielding rub against each other and the eight trigrams stir one another. Things are roused by thunder and lightning and moistened by wind and rain; sun and moon go their rounds, and there is now cold, now heat. The way of the Creative makes the male; the way of the Receptive makes the female. The Creative knows the great beginnings; the Receptive brings things to completion. The Creative knows through ease; the Receptive is able through simplicity. What is easy is easy to know; what is simple is easy to follow. What is easy to know wins attachment; what is easy to follow achieves works. With attachment there can be duration; with works there can be greatness. Duration is the virtue of the worthy man; greatness is his work. Through ease and simplicity the order of all under heaven is grasped, and when that order is grasped, one\'s place is established in its midst.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 2,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '聖人設卦觀象，繫辭焉而明吉凶，剛柔相推而生變化。是故吉凶者，失得之象也。悔吝者，憂虞之象也。變化者，進退之象也。剛柔者，晝夜之象也。六爻之動，三極之道也。是故君子所居而安者，易之序也。所樂而玩者，爻之辭也。是故君子居則觀其象而玩其辭，動則觀其變而玩其占，是以自天祐之，吉無不利。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The sages set up the hexagrams and contemplated their images. They appended judgments to make good fortune and misfortune clear, and the firm and the yielding displace each other to bring forth change and transformation. So good fortune and misfortune are images of losing and gaining; remorse and humiliation are images of sorrow and care; change and transformation are images of advance and retreat; the firm and the yielding are images of day and night. The movements of the six lines follow the way of the three ultimates. Therefore what the superior man rests in is the order of the Changes, and what he delights in and ponders is the words of the lines. At rest, the superior man contemplates the images and ponders the words; in action, he contemplates the changes and ponders the oracles. So he is blessed by heaven: good fortune, nothing that does not further.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 3,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '彖者，言乎象者也。爻者，言乎變者也。吉凶者，言乎其失得也。悔吝者，言乎其小疵也。無咎者，善補過也。是故列貴賤者存乎位，齊小大者存乎卦，辯吉凶者存乎辭，憂悔吝者存乎介，震無咎者存乎悔。是故卦有小大，辭有險易。辭也者，各指其所之。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Decisions speak of the images; the lines speak of the changes. Good fortune and misfortune speak of losing and gaining; remorse and humiliation speak of small flaws; "no blame" means making good a mistake. So the ranking of noble and humble lies in the positions; the weighing of small and great lies in the hexagrams; the telling apart of good fortune and misfortune lies in the judgments. Concern over remorse and humiliation lies at the borderline; being roused to be without blame lies in remorse. So the hexagrams are small or great, and the judgments are perilous or easy. Each judgment points to where things are going.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 4,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易與天地準，故能彌綸天地之道。仰以觀於天文，俯以察於地理，是故知幽明之故。原始反終，故知死生之說。精氣為物，遊魂為變，是故知鬼神之情狀。與天地相似，故不違。知周乎萬物，而道濟天下，故不過。旁行而不流，樂天知命，故不憂。安土敦乎仁，故能愛。範圍天地之化而不過，曲成萬物而不遺，通乎晝夜之道而知，故神無方而易無體。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes are a measure equal to heaven and earth, and so they can encompass the way of heaven and earth. Looking up, one observes the patterns of heaven; looking down, one examines the order of the earth; so one knows the causes of the dark and the light. Tracing things to their beginning and following them to their end, one knows what is said of birth and death. Essence and breath make things; the wandering of the soul makes change; so one knows the nature of ghosts and spirits. Being like heaven and earth, one is not at odds with them. One\'s knowledge embraces all things and one\'s way helps all under heaven, and so one does not err. One ranges everywhere without being swept away, rejoices in heaven and knows fate, and so is free of sorrow. Content in one\'s place and steadfast in kindness, one is able to love. They shape and bound the transformations of heaven and earth without going too far; they complete all things in their detail and leave none out; they penetrate the way of day and night and understand it. So the spirit is bound to no place and the Changes to no form.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 5,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '一陰一陽之謂道。繼之者善也，成之者性也。仁者見之謂之仁，知者見之謂之知，百姓日用而不知，故君子之道鮮矣。顯諸仁，藏諸用，鼓萬物而不與聖人同憂，盛德大業至矣哉。富有之謂大業，日新之謂盛德。生生之謂易，成象之謂乾，效法之謂坤，極數知來之謂占，通變之謂事，陰陽不測之謂神。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'One yin and one yang: this is called the way. What carries it on is the good; what completes it is the nature. The kind see it and call it kindness; the wise see it and call it wisdom. The common people use it every day without knowing it, and so the way of the superior man is rarely seen. It shows itself in kindness and hides itself in use. It rouses all things without sharing the cares of the sage. Its abundant virtue and great work are perfect indeed! Rich possession is called the great work; daily renewal is called abundant virtue. Generation upon generation is called change. Completing the images is called the Creative; imitating the pattern is called the Receptive. Exhausting the numbers to know the future is called the oracle; carrying the changes through is called the affair. What yin and yang cannot fathom is called the spirit.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 6,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '夫易，廣矣大矣。以言乎遠則不禦，以言乎邇則靜而正，以言乎天地之間則備矣。夫乾，其靜也專，其動也直，是以大生焉。夫坤，其靜也翕，其動也闢，是以廣生焉。廣大配天地，變通配四時，陰陽之義配日月，易簡之善配至德。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes are wide and great. Speak of what is far, and they know no limit; speak of what is near, and they are still and correct; speak of what lies between heaven and earth, and they hold everything. The Creative is concentrated at rest and straight in movement, and so it brings forth greatness. The Receptive is closed at rest and opens in movement, and so it brings forth breadth. In breadth and greatness they match heaven and earth; in change and continuity, the four seasons; in the meaning of yin and yang, the sun and moon; in the goodness of ease and simplicity, the highest virtue.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 7,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: ['子曰：易其至矣乎！夫易，聖人所以崇德而廣業也。知崇禮卑，崇效天，卑法地。天地設位，而易行乎其中矣。成性存存，道義之門。'],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Master said: The Changes, how perfect they are! Through the Changes the sages exalted their virtue and widened their work. Wisdom exalts and propriety humbles; what exalts imitates heaven and what humbles follows earth. Heaven and earth set up the positions, and the Changes move within them. The nature, once completed and kept in being, is the gateway of the way and of rightness.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 8,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '聖人有以見天下之賾，而擬諸其形容，象其物宜，是故謂之象。聖人有以見天下之動，而觀其會通，以行其典禮，繫辭焉以斷其吉凶，是故謂之爻。言天下之至賾而不可惡也，言天下之至動而不可亂也。擬之而後言，議之而後動，擬議以成其變化。',
+          '鳴鶴在陰，其子和之。我有好爵，吾與爾靡之。子曰：君子居其室，出其言善，則千里之外應之，況其邇者乎？居其室，出其言不善，則千里之外違之，況其邇者乎？言出乎身，加乎民；行發乎邇，見乎遠。言行，君子之樞機。樞機之發，榮辱之主也。言行，君子之所以動天地也，可不慎乎！',
+          '同人，先號咷而後笑。子曰：君子之道，或出或處，或默或語。二人同心，其利斷金。同心之言，其臭如蘭。',
+          '初六，藉用白茅，無咎。子曰：苟錯諸地而可矣，藉之用茅，何咎之有？慎之至也。夫茅之為物薄，而用可重也。慎斯術也以往，其無所失矣。',
+          '勞謙，君子有終，吉。子曰：勞而不伐，有功而不德，厚之至也。語以其功下人者也。德言盛，禮言恭；謙也者，致恭以存其位者也。',
+          '亢龍有悔。子曰：貴而無位，高而無民，賢人在下位而無輔，是以動而有悔也。',
+          '不出戶庭，無咎。子曰：亂之所生也，則言語以為階。君不密則失臣，臣不密則失身，幾事不密則害成。是以君子慎密而不出也。',
+          '子曰：作易者，其知盜乎？易曰：負且乘，致寇至。負也者，小人之事也。乘也者，君子之器也。小人而乘君子之器，盜思奪之矣。上慢下暴，盜思伐之矣。慢藏誨盜，冶容誨淫。易曰：負且乘，致寇至。盜之招也。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The sages were able to survey all the confused diversity under heaven. They considered its forms and appearances and pictured things and what suits them: these are called the images. The sages were able to survey all the movements under heaven. They contemplated how these meet and run together, so as to carry out the proper rites, and appended judgments to decide good fortune and misfortune: these are called the lines. They speak of the utmost diversity under heaven, yet it is not repellent; they speak of the utmost movement under heaven, yet it is not confused. One considers before speaking and deliberates before acting, and through considering and deliberating one completes the changes and transformations.',
+          '"A crane calling in the shade; its young one answers it. I have a fine goblet; I will share it with you." The Master said: The superior man stays in his room. If the words he sends out are good, they are answered from more than a thousand miles away; how much more from those nearby! If he stays in his room and the words he sends out are not good, they meet opposition from more than a thousand miles away; how much more from those nearby! Words go forth from one\'s person and reach the people; deeds begin nearby and are seen far off. Words and deeds are the hinge and trigger of the superior man. As the hinge and trigger move, they decide honor or disgrace. Words and deeds are how the superior man moves heaven and earth. Must he not be careful?',
+          '"Fellowship with men first weeps and laments, but afterward laughs." The Master said: The way of the superior man now goes out, now stays at home; now is silent, now speaks. When two people are one at heart, their sharpness cuts through metal. Words from hearts that are one are fragrant as orchids.',
+          '"Six at the beginning: to spread white rushes underneath. No blame." The Master said: It would do to set the thing on the ground; when rushes are spread beneath it, how could there be blame? This is caution carried to its height. Rushes are a slight thing, yet their use can be weighty. Whoever goes on with such caution will make no mistakes.',
+          '"Modesty that has earned merit. The superior man carries things through. Good fortune." The Master said: To toil without boasting and to have merit without claiming virtue for it is generosity carried to its height. It speaks of one who, for all his merit, places himself beneath others. Virtue means abundance; propriety means respect. Modesty is respect carried so far that it keeps one in one\'s place.',
+          '"Arrogant dragon will have cause to repent." The Master said: He is noble without a position and high without people, and the worthy men in the positions below him give him no support. So whatever he does brings cause to repent.',
+          '"Not going out of the door and the courtyard. No blame." The Master said: Where disorder arises, words are the steps that lead to it. If the prince is not discreet, he loses his minister; if the minister is not discreet, he loses his life; if delicate matters are not kept secret, the work comes to harm. Therefore the superior man keeps his counsel and does not go out.',
+          'The Master said: Did those who made the Changes know about robbers? The Changes say: "If a man carries a burden on his back and yet rides in a carriage, he invites robbers." Carrying burdens is the work of the small man; a carriage is the vehicle of the superior man. When a small man rides in the vehicle of a superior man, robbers think of taking it from him. When those above are careless and those below are harsh, robbers think of attacking them. Careless keeping invites robbery; a painted face invites lust. The Changes say: "If a man carries a burden on his back and yet rides in a carriage, he invites robbers." He calls the robbers to himself.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 9,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '天一，地二，天三，地四，天五，地六，天七，地八，天九，地十。天數五，地數五，五位相得而各有合。天數二十有五，地數三十，凡天地之數五十有五，此所以成變化而行鬼神也。',
+          '大衍之數五十，其用四十有九。分而為二以象兩，掛一以象三，揲之以四以象四時，歸奇於扐以象閏，五歲再閏，故再扐而後掛。',
+          '乾之策二百一十有六，坤之策百四十有四，凡三百有六十，當期之日。二篇之策，萬有一千五百二十，當萬物之數也。是故四營而成易，十有八變而成卦，八卦而小成。引而伸之，觸類而長之，天下之能事畢矣。顯道神德行，是故可與酬酢，可與祐神矣。子曰：知變化之道者，其知神之所為乎！',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Heaven is one, earth two; heaven three, earth four; heaven five, earth six; heaven seven, earth eight; heaven nine, earth ten. There are five numbers of heaven and five numbers of earth. Set in their five places they match up, and each finds its complement. The numbers of heaven add up to twenty-five and those of earth to thirty; together the numbers of heaven and earth come to fifty-five. It is by these that changes and transformations are completed and ghosts and spirits are set in motion.',
+          'The number of the great expansion is fifty, of which forty-nine are used. They are divided into two heaps to represent the two. One is set apart to represent the three. They are counted off by fours to represent the four seasons. The remainder is laid aside to represent the intercalary month. There are two intercalary months in five years, so the laying aside is done twice, and then the whole begins again.',
+          'The stalks of the Creative number two hundred and sixteen and those of the Receptive one hundred and forty-four, three hundred and sixty in all, which match the days of the year. The stalks of the two books number eleven thousand five hundred and twenty, which match the number of the ten thousand things. So four operations make a change, and eighteen changes make a hexagram. The eight trigrams are the small completion. When they are drawn out and extended, and each is carried further by touching on what is akin to it, every task under heaven is accomplished. They make the way manifest and give virtuous conduct its mystery; so one can answer and respond with them and assist the spirits with them. The Master said: Whoever knows the way of change and transformation knows what the spirits do.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 10,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易有聖人之道四焉：以言者尚其辭，以動者尚其變，以制器者尚其象，以卜筮者尚其占。是以君子將有為也，將有行也，問焉而以言，其受命也如響，無有遠近幽深，遂知來物。非天下之至精，其孰能與於此？參伍以變，錯綜其數，通其變，遂成天下之文；極其數，遂定天下之象。非天下之至變，其孰能與於此？易無思也，無為也，寂然不動，感而遂通天下之故。非天下之至神，其孰能與於此？夫易，聖人之所以極深而研幾也。唯深也，故能通天下之志；唯幾也，故能成天下之務；唯神也，故不疾而速，不行而至。子曰易有聖人之道四焉者，此之謂也。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes hold the fourfold way of the sages. In speaking, one honors their judgments; in acting, their changes; in making tools, their images; in divining with tortoise and yarrow, their oracles. So when the superior man is about to undertake something or to set out, he asks the Changes in words. It receives his charge like an echo; near or far, dark or deep, it comes to know the things to come. If it were not the most refined thing under heaven, how could it do this? By threes and fives the changes are made, and the numbers are interwoven and put in order. Following the changes through, one completes the patterns of heaven and earth; carrying the numbers to their end, one fixes all the images under heaven. If it were not the most changeable thing under heaven, how could it do this? The Changes have no thought and no action. They are still and unmoving, yet when stirred they penetrate every cause under heaven. If it were not the most divine thing under heaven, how could it do this? The Changes are how the sages reached the depths and grasped the seeds of things. Because they are deep, they can penetrate every will under heaven; because they grasp the seeds, they can complete every affair under heaven; because they are divine, they hasten without hurry and arrive without going. When the Master said "The Changes hold the fourfold way of the sages," this is what he meant.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 11,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '子曰：夫易何為者也？夫易開物成務，冒天下之道，如斯而已者也。是故聖人以通天下之志，以定天下之業，以斷天下之疑。是故蓍之德圓而神，卦之德方以知，六爻之義易以貢。聖人以此洗心，退藏於密，吉凶與民同患。神以知來，知以藏往，其孰能與於此哉？古之聰明叡知神武而不殺者夫！是以明於天之道，而察於民之故，是興神物以前民用。聖人以此齋戒，以神明其德夫！',
+          '是故闔戶謂之坤，闢戶謂之乾，一闔一闢謂之變，往來不窮謂之通，見乃謂之象，形乃謂之器，制而用之謂之法，利用出入，民咸用之謂之神。是故易有太極，是生兩儀，兩儀生四象，四象生八卦，八卦定吉凶，吉凶生大業。是故法象莫大乎天地，變通莫大乎四時，縣象著明莫大乎日月，崇高莫大乎富貴；備物致用，立成器以為天下利，莫大乎聖人；探賾索隱，鉤深致遠，以定天下之吉凶，成天下之亹亹者，莫大乎蓍龜。是故天生神物，聖人則之；天地變化，聖人效之；天垂象，見吉凶，聖人象之；河出圖，洛出書，聖人則之。易有四象，所以示也；繫辭焉，所以告也；定之以吉凶，所以斷也。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Master said: What do the Changes do? The Changes open up things and complete affairs; they cover the way of all under heaven. This and nothing more is what they do. So the sages use them to penetrate every will under heaven, to settle every undertaking under heaven and to resolve every doubt under heaven. Therefore the virtue of the yarrow stalks is round and divine; the virtue of the hexagrams is square and wise; the meaning of the six lines changes to offer counsel. With them the sages cleansed their hearts and withdrew into secrecy, yet shared the cares of good fortune and misfortune with the people. Through the divine they know what is to come; through wisdom they store up what is past. Who could do this? Only the ancients, keen of hearing and sight, wise and knowing, divinely martial without killing. So they understood the way of heaven and examined the affairs of the people, and brought forth these divine things for the people to use. With them the sages fasted and purified themselves, to make their virtue divine and bright.',
+          'Therefore closing the door is called the Receptive and opening the door is called the Creative. One closing and one opening is called change; coming and going without end is called continuity. What appears is called an image; what takes form is called a tool. Making it and using it is called a method. What serves in going out and coming in, and what all the people use, is called divine. Therefore in the Changes there is the Great Ultimate. It brings forth the two forms; the two forms bring forth the four images; the four images bring forth the eight trigrams. The eight trigrams settle good fortune and misfortune, and good fortune and misfortune bring forth the great work. Therefore of patterns and images none is greater than heaven and earth; of change and continuity, none greater than the four seasons; of images hung up clear and bright, none greater than the sun and moon; of the exalted and the high, none greater than wealth and rank. To provide things for use and to make tools for the benefit of all under heaven, none is greater than the sage. To explore the intricate and seek out the hidden, to reach into the depths and draw out what is far off, so as to settle good fortune and misfortune under heaven and bring about every unflagging effort under heaven, nothing is greater than the yarrow and the tortoise. Therefore heaven brought forth the divine things, and the sages took them as their rule. Heaven and earth change and transform, and the sages imitated them. Heaven hangs out images that show good fortune and misfortune, and the sages pictured them. The Yellow River brought forth the Chart and the Luo River the Writing, and the sages took them as their rule. The Changes have the four images in order to show; they append judgments in order to tell; they settle good fortune and misfortune in order to decide.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'upper',
+    chapter: 12,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易曰：自天祐之，吉無不利。子曰：祐者，助也。天之所助者，順也；人之所助者，信也。履信思乎順，又以尚賢也。是以自天祐之，吉無不利也。',
+          '子曰：書不盡言，言不盡意。然則聖人之意，其不可見乎？子曰：聖人立象以盡意，設卦以盡情偽，繫辭焉以盡其言，變而通之以盡利，鼓之舞之以盡神。乾坤，其易之縕邪？乾坤成列，而易立乎其中矣。乾坤毀，則無以見易；易不可見，則乾坤或幾乎息矣。是故形而上者謂之道，形而下者謂之器，化而裁之謂之變，推而行之謂之通，舉而錯之天下之民謂之事業。是故夫象，聖人有以見天下之賾，而擬諸其形容，象其物宜，是故謂之象。聖人有以見天下之動，而觀其會通，以行其典禮，繫辭焉以斷其吉凶，是故謂之爻。極天下之賾者存乎卦，鼓天下之動者存乎辭，化而裁之存乎變，推而行之存乎通，神而明之存乎其人，默而成之，不言而信，存乎德行。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes say: "He is blessed by heaven. Good fortune. Nothing that does not further." The Master said: To bless is to help. Heaven helps the one who is devoted; men help the one who is true. He walks in truth and is mindful of devotion, and further he honors the worthy. So he is blessed by heaven: good fortune, nothing that does not further.',
+          'The Master said: Writing cannot say all that is spoken, and speech cannot say all that is meant. Are the thoughts of the sages then not to be seen? The Master said: The sages set up the images to say all that they meant; they laid out the hexagrams to show all that is true and false; they appended judgments to say all that they would speak; they changed and carried things through to draw out every benefit; they drummed and danced to bring out the spirit fully. Are not the Creative and the Receptive the hidden store of the Changes? When the Creative and the Receptive are set out in rows, the Changes stand in their midst. Were the Creative and the Receptive destroyed, there would be nothing in which to see the Changes; and if the Changes could not be seen, the Creative and the Receptive would all but cease. Therefore what is above form is called the way, and what is within form is called the tool. Transforming and shaping things is called change; carrying them forward and putting them to work is called continuity; taking them up and setting them before the people of the world is called the great undertaking. Therefore as to the images: the sages were able to survey all the confused diversity under heaven; they considered its forms and appearances and pictured things and what suits them, and these are called the images. The sages were able to survey all the movements under heaven; they contemplated how these meet and run together, so as to carry out the proper rites, and appended judgments to decide good fortune and misfortune, and these are called the lines. The utmost diversity under heaven is set out in the hexagrams; what rouses every movement under heaven lies in the judgments; transforming and shaping lie in change; carrying forward and putting to work lie in continuity; making them divine and bright lies with the right man; completing them in silence and being trusted without words lies in virtuous conduct.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 1,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '八卦成列，象在其中矣；因而重之，爻在其中矣；剛柔相推，變在其中矣；繫辭焉而命之，動在其中矣。吉凶悔吝者，生乎動者也。剛柔者，立本者也。變通者，趣時者也。吉凶者，貞勝者也。天地之道，貞觀者也。日月之道，貞明者也。天下之動，貞夫一者也。夫乾，確然示人易矣。夫坤，隤然示人簡矣。爻也者，效此者也。象也者，像此者也。爻象動乎內，吉凶見乎外，功業見乎變，聖人之情見乎辭。天地之大德曰生，聖人之大寶曰位。何以守位？曰仁。何以聚人？曰財。理財正辭，禁民為非曰義。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The eight trigrams are set out in rows, and the images lie within them. They are then doubled, and the lines lie within them. The firm and the yielding displace each other, and change lies within them. Judgments are appended to give them their charge, and movement lies within them. Good fortune, misfortune, remorse and humiliation arise through movement. The firm and the yielding set up the foundation; change and continuity follow the times. Good fortune and misfortune prevail through steadfastness. The way of heaven and earth shows itself through steadfastness; the way of sun and moon gives light through steadfastness; every movement under heaven is steadfast in being one. The Creative is firm and shows people ease; the Receptive is pliant and shows people simplicity. The lines imitate this; the images picture this. Lines and images move within, and good fortune and misfortune show themselves without; work and merit show themselves in change, and the hearts of the sages show themselves in the judgments. The great virtue of heaven and earth is life; the great treasure of the sage is his position. How is the position kept? By kindness. How are people gathered? By goods. To manage goods, set words right and keep the people from wrongdoing is called rightness.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 2,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '古者包犧氏之王天下也，仰則觀象於天，俯則觀法於地，觀鳥獸之文與地之宜，近取諸身，遠取諸物，於是始作八卦，以通神明之德，以類萬物之情。作結繩而為罔罟，以佃以漁，蓋取諸離。',
+          '包犧氏沒，神農氏作，斲木為耜，揉木為耒，耒耨之利，以教天下，蓋取諸益。日中為市，致天下之民，聚天下之貨，交易而退，各得其所，蓋取諸噬嗑。',
+          '神農氏沒，黃帝、堯、舜氏作，通其變，使民不倦，神而化之，使民宜之。易窮則變，變則通，通則久。是以自天祐之，吉無不利。黃帝、堯、舜垂衣裳而天下治，蓋取諸乾坤。刳木為舟，剡木為楫，舟楫之利，以濟不通，致遠以利天下，蓋取諸渙。服牛乘馬，引重致遠，以利天下，蓋取諸隨。重門擊柝，以待暴客，蓋取諸豫。斷木為杵，掘地為臼，臼杵之利，萬民以濟，蓋取諸小過。弦木為弧，剡木為矢，弧矢之利，以威天下，蓋取諸睽。',
+          '上古穴居而野處，後世聖人易之以宮室，上棟下宇，以待風雨，蓋取諸大壯。古之葬者，厚衣之以薪，葬之中野，不封不樹，喪期無數。後世聖人易之以棺槨，蓋取諸大過。上古結繩而治，後世聖人易之以書契，百官以治，萬民以察，蓋取諸夬。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'When in ancient times Bao Xi ruled all under heaven, he looked up and contemplated the images in the heavens, and looked down and contemplated the patterns on the earth. He contemplated the markings of birds and beasts and what suits each place. Near at hand he drew on his own body, and far off he drew on things. So he first made the eight trigrams, to penetrate the virtue of the spirits and to sort the natures of all things. He knotted cords to make nets for hunting and fishing; this he probably took from the Clinging.',
+          'When Bao Xi was gone, Shen Nong arose. He cut wood to make a plowshare and bent wood to make a plow handle, and taught all under heaven the benefit of plowing and weeding; this he probably took from Increase. He set up markets at midday, bringing together the people of the world and gathering the goods of the world. They traded and went home, each having got what he needed; this he probably took from Biting Through.',
+          'When Shen Nong was gone, the Yellow Emperor, Yao and Shun arose. They carried the changes through so that the people did not grow weary, and transformed things divinely so that the people were content. When the Changes come to an end, they alter; when they alter, they carry through; when they carry through, they endure. So they were blessed by heaven: good fortune, nothing that does not further. The Yellow Emperor, Yao and Shun let their robes hang down, and all under heaven was in order; this they probably took from the Creative and the Receptive. They hollowed out logs to make boats and planed wood to make oars. The benefit of boats and oars was to cross where there had been no way across and to reach far places for the good of all under heaven; this they probably took from Dispersion. They yoked oxen and harnessed horses to draw heavy loads to far places for the good of all under heaven; this they probably took from Following. They built double gates and struck wooden clappers against raiders; this they probably took from Enthusiasm. They cut wood to make pestles and dug in the ground to make mortars, and all the people were served by the benefit of mortar and pestle; this they probably took from Preponderance of the Small. They strung wood to make bows and sharpened wood to make arrows, and the benefit of bow and arrow kept all under heaven in awe; this they probably took from Opposition.',
+          'In high antiquity people lived in caves and dwelt in the wilds. The sages of later times changed this for houses, with a ridgepole above and eaves below to keep off wind and rain; this they probably took from the Power of the Great. The ancients buried their dead by covering them thickly with brushwood and laying them in the open country, with no mound and no trees and no fixed time of mourning. The sages of later times changed this for inner and outer coffins; this they probably took from Preponderance of the Great. In high antiquity people governed by knotted cords. The sages of later times changed this for written tallies, by which all the officials were governed and all the people were overseen; this they probably took from Breakthrough.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 3,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: ['是故易者，象也；象也者，像也。彖者，材也。爻也者，效天下之動者也。是故吉凶生而悔吝著也。'],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Therefore the Changes are images, and an image is a likeness. The Decisions are the material. The lines imitate the movements under heaven. So good fortune and misfortune arise, and remorse and humiliation come to light.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 4,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: ['陽卦多陰，陰卦多陽，其故何也？陽卦奇，陰卦耦。其德行何也？陽一君而二民，君子之道也。陰二君而一民，小人之道也。'],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The yang trigrams have more yin lines and the yin trigrams more yang lines. Why is this? The yang trigrams are odd and the yin trigrams even. What is their nature? The yang has one prince and two subjects: this is the way of the superior man. The yin has two princes and one subject: this is the way of the small man.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 5,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易曰：憧憧往來，朋從爾思。子曰：天下何思何慮？天下同歸而殊塗，一致而百慮。天下何思何慮？日往則月來，月往則日來，日月相推而明生焉。寒往則暑來，暑往則寒來，寒暑相推而歲成焉。往者屈也，來者信也，屈信相感而利生焉。尺蠖之屈，以求信也。龍蛇之蟄，以存身也。精義入神，以致用也。利用安身，以崇德也。過此以往，未之或知也。窮神知化，德之盛也。',
+          '易曰：困于石，據于蒺蔾，入于其宮，不見其妻，凶。子曰：非所困而困焉，名必辱。非所據而據焉，身必危。既辱且危，死期將至，妻其可得見邪？',
+          '易曰：公用射隼于高墉之上，獲之，無不利。子曰：隼者，禽也。弓矢者，器也。射之者，人也。君子藏器於身，待時而動，何不利之有？動而不括，是以出而有獲，語成器而動者也。',
+          '子曰：小人不恥不仁，不畏不義，不見利不勸，不威不懲。小懲而大誡，此小人之福也。易曰：屨校滅趾，無咎。此之謂也。善不積不足以成名，惡不積不足以滅身。小人以小善為無益而弗為也，以小惡為無傷而弗去也，故惡積而不可掩，罪大而不可解。易曰：何校滅耳，凶。',
+          '子曰：危者，安其位者也。亡者，保其存者也。亂者，有其治者也。是故君子安而不忘危，存而不忘亡，治而不忘亂，是以身安而國家可保也。易曰：其亡其亡，繫于苞桑。',
+          '子曰：德薄而位尊，知小而謀大，力小而任重，鮮不及矣。易曰：鼎折足，覆公餗，其形渥，凶。言不勝其任也。',
+          '子曰：知幾其神乎？君子上交不諂，下交不瀆，其知幾乎？幾者，動之微，吉之先見者也。君子見幾而作，不俟終日。易曰：介于石，不終日，貞吉。介如石焉，寧用終日？斷可識矣。君子知微知彰，知柔知剛，萬夫之望。',
+          '子曰：顏氏之子，其殆庶幾乎？有不善未嘗不知，知之未嘗復行也。易曰：不遠復，無祇悔，元吉。',
+          '天地絪縕，萬物化醇。男女構精，萬物化生。易曰：三人行則損一人，一人行則得其友。言致一也。',
+          '子曰：君子安其身而後動，易其心而後語，定其交而後求。君子修此三者，故全也。危以動，則民不與也；懼以語，則民不應也；無交而求，則民不與也。莫之與，則傷之者至矣。易曰：莫益之，或擊之，立心勿恆，凶。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes say: "If a man is agitated in mind and his thoughts go to and fro, only those friends he thinks of will follow him." The Master said: What need has the world of thought and care? In the world all things come home to the same end by different roads; there is one goal and a hundred thoughts. What need has the world of thought and care? When the sun goes, the moon comes; when the moon goes, the sun comes. Sun and moon displace each other, and light comes into being. When the cold goes, the heat comes; when the heat goes, the cold comes. Cold and heat displace each other, and the year is completed. What goes contracts; what comes expands. Contraction and expansion act on each other, and benefit comes into being. The inchworm draws itself in so as to stretch out again. Dragons and snakes lie dormant so as to keep themselves alive. Penetrating the meaning of things until one enters the divine brings them into use. Putting things to use and keeping oneself at ease exalts one\'s virtue. What lies beyond this, no one yet has known. To fathom the divine and understand transformation is virtue in its fullness.',
+          'The Changes say: "A man is oppressed by stones and leans on thorns and thistles. He enters his house and does not see his wife. Misfortune." The Master said: If a man is oppressed by what should not oppress him, his name is sure to be disgraced. If he leans on what he should not lean on, his life is sure to be in danger. In disgrace and in danger, the hour of his death draws near; how could he still see his wife?',
+          'The Changes say: "The prince shoots at a hawk on a high wall. He hits it. Nothing that does not further." The Master said: The hawk is the quarry; bow and arrow are the tool; the one who shoots is the man. The superior man keeps his tool about him and waits for the time to act. How could anything fail to further? He acts without hindrance, and so he goes out and makes his catch. This speaks of acting with the tool made ready.',
+          'The Master said: The small man is not ashamed of unkindness and does not fear injustice. Without the sight of gain he makes no effort, and without threats he does not mend his ways. A small correction that brings a great warning is good fortune for the small man. This is what the Changes mean by "His feet are fastened in the stocks, so that his toes disappear. No blame." Good that is not heaped up is not enough to make a name; evil that is not heaped up is not enough to ruin a life. The small man thinks a small good of no use and does not do it, and a small evil of no harm and does not give it up. So his evil heaps up until it can no longer be hidden, and his guilt grows until it can no longer be undone. The Changes say: "His neck is fastened in the cangue, so that his ears disappear. Misfortune."',
+          'The Master said: Danger comes to one who feels secure in his position. Ruin comes to one who is sure of his survival. Disorder comes to one who thinks his affairs in order. Therefore the superior man does not forget danger when he is secure, nor ruin when he survives, nor disorder when his affairs are in order. So he keeps himself safe and can protect his state and his house. The Changes say: "What if it should fail, what if it should fail? Tie it to a clump of mulberry shoots."',
+          'The Master said: Slight virtue in a high position, little knowledge with great plans, small strength with a heavy charge: few of these escape disaster. The Changes say: "The legs of the cauldron break. The prince\'s meal is spilled and his person is soiled. Misfortune." This speaks of one who is not equal to his charge.',
+          'The Master said: To know the seeds, that is divine indeed! In his dealings with those above him the superior man does not flatter, and in his dealings with those below him he is not overbearing; is this not knowing the seeds? The seeds are the first imperceptible beginning of movement, the first trace of good fortune to show itself. The superior man sees the seeds and acts at once, without waiting a whole day. The Changes say: "Firm as a rock. Not a whole day. Perseverance brings good fortune." Firm as a rock, why should he need a whole day? The decision can be known. The superior man knows what is hidden and what is evident, knows the yielding and knows the firm; and so the multitude looks up to him.',
+          'The Master said: The son of the Yan family came close to it. When he had a fault, he never failed to see it; having seen it, he never did it again. The Changes say: "Return from a short distance. No need for remorse. Great good fortune."',
+          'Heaven and earth mingle their breath, and all things are transformed and refined. Man and woman mingle their seed, and all things are transformed and born. The Changes say: "When three people journey together, their number is reduced by one. When one man journeys alone, he finds his companion." This speaks of becoming one.',
+          'The Master said: The superior man sets himself at rest before he moves, composes his mind before he speaks and makes his relations firm before he asks for anything. The superior man attends to these three things, and so he is whole. If he moves amid danger, the people will not side with him; if he speaks in fear, the people will not answer him; if he asks without relations, the people will not give to him. When no one sides with him, those who would harm him draw near. The Changes say: "He brings increase to no one. Indeed, someone strikes him. He does not keep his heart steady. Misfortune."',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 6,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '子曰：乾坤，其易之門邪？乾，陽物也；坤，陰物也。陰陽合德，而剛柔有體，以體天地之撰，以通神明之德。其稱名也，雜而不越。於稽其類，其衰世之意邪？夫易，彰往而察來，而微顯闡幽，開而當名，辨物正言，斷辭則備矣。其稱名也小，其取類也大，其旨遠，其辭文，其言曲而中，其事肆而隱。因貳以濟民行，以明失得之報。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Master said: Are not the Creative and the Receptive the gateway of the Changes? The Creative is a yang thing and the Receptive a yin thing. Yin and yang join their virtues, and the firm and the yielding take shape. So the works of heaven and earth are given form and the virtue of the spirits is penetrated. The names they use are varied but do not go beyond bounds. Looking into their kinds, do they not show the thoughts of a declining age? The Changes make the past plain and examine the future. They make the subtle evident and open up what is dark. They open things up and fit the names to them, tell things apart and set words right, and so their judgments are complete. The names they use are small, but the kinds they draw on are great. Their meaning reaches far and their words are polished. Their speech is roundabout yet hits the mark; their matters are laid out openly yet hold something hidden. In times of doubt they help the people in their conduct, by making clear what losing and gaining bring.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 7,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易之興也，其於中古乎？作易者，其有憂患乎？是故履，德之基也；謙，德之柄也；復，德之本也；恆，德之固也；損，德之修也；益，德之裕也；困，德之辨也；井，德之地也；巽，德之制也。履，和而至；謙，尊而光；復，小而辨於物；恆，雜而不厭；損，先難而後易；益，長裕而不設；困，窮而通；井，居其所而遷；巽，稱而隱。履以和行，謙以制禮，復以自知，恆以一德，損以遠害，益以興利，困以寡怨，井以辨義，巽以行權。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Did the Changes not arise in middle antiquity? Did those who made the Changes not know care and sorrow? Therefore Treading is the foundation of virtue; Modesty is its handle; Return is its root; Duration is its firmness; Decrease is its cultivation; Increase is its abundance; Oppression is its test; the Well is its field; the Gentle is its shaping. Treading is harmonious and reaches the goal. Modesty is honored and shines. Return is small, yet tells things apart. Duration is manifold, yet does not weary. Decrease is hard at first and easy afterward. Increase grows in abundance without contrivance. Oppression is in straits, yet gets through. The Well stays in its place, yet its water is carried off. The Gentle weighs things and stays hidden. Treading brings harmony to conduct. Modesty gives shape to the rites. Return brings self-knowledge. Duration makes virtue one. Decrease keeps harm at a distance. Increase furthers what is beneficial. Oppression lessens resentment. The Well makes rightness clear. The Gentle makes it possible to weigh circumstances.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 8,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易之為書也不可遠，為道也屢遷，變動不居，周流六虛，上下無常，剛柔相易，不可為典要，唯變所適。其出入以度，外內使知懼，又明於憂患與故，無有師保，如臨父母。初率其辭而揆其方，既有典常。苟非其人，道不虛行。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes are a book one may not keep at a distance. Its way keeps shifting. It changes and moves without rest, flowing through the six empty places. Rising and sinking without fixed rule, the firm and the yielding change places. It cannot be bound by a set rule; only change is at work here. It goes out and comes in by measure, and teaches caution without and within. It also makes plain care and sorrow and their causes. Though one has no teacher or guardian, it is as if one were in the presence of father and mother. First take up the words and consider their direction, and the constant rules appear. But if one is not the right man, the way does not go forth of itself.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 9,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易之為書也，原始要終，以為質也。六爻相雜，唯其時物也。其初難知，其上易知，本末也。初辭擬之，卒成之終。若夫雜物撰德，辨是與非，則非其中爻不備。噫！亦要存亡吉凶，則居可知矣。知者觀其彖辭，則思過半矣。二與四同功而異位，其善不同，二多譽，四多懼，近也。柔之為道，不利遠者，其要無咎，其用柔中也。三與五同功而異位，三多凶，五多功，貴賤之等也。其柔危，其剛勝邪？',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes are a book that traces things to their beginning and follows them to their end; this makes up its substance. The six lines intermingle, each answering only to its time and its matter. The first line is hard to understand and the top line easy, for they are root and branch. The judgment on the first line sketches the matter, and the last brings it to its end. But for mingling things and setting forth their virtues, for telling right from wrong, the text is incomplete without the middle lines. Indeed, if one seeks what leads to survival and ruin, good fortune and misfortune, it can be known while sitting at home. When the wise contemplate the Decision, they understand more than half. The second and fourth places share the same work but differ in position, and their good is not the same. The second is often praised and the fourth often fearful, for it is near the prince. The way of the yielding does not favor being far off; its point is to be without blame, and its use lies in being yielding and central. The third and fifth places share the same work but differ in position. The third often meets misfortune and the fifth often has merit, because of the difference between humble and noble. Is the yielding in danger there, and does the firm prevail?',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 10,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易之為書也，廣大悉備，有天道焉，有人道焉，有地道焉。兼三才而兩之，故六。六者非它也，三才之道也。道有變動，故曰爻；爻有等，故曰物；物相雜，故曰文；文不當，故吉凶生焉。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Changes are a book wide and great, complete in everything. The way of heaven is in it, the way of man and the way of earth. It joins the three powers and doubles them; therefore there are six lines. The six are nothing other than the ways of the three powers. The way has changes and movements; therefore they are called lines. The lines have their grades; therefore they are called things. Things intermingle; therefore they are called patterns. When the patterns do not fit, good fortune and misfortune arise.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 11,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '易之興也，其當殷之末世，周之盛德邪？當文王與紂之事邪？是故其辭危。危者使平，易者使傾，其道甚大，百物不廢。懼以終始，其要無咎，此之謂易之道也。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'Did the Changes not arise at the end of the Yin, when the virtue of Zhou was at its height? Was it not at the time of the affairs between King Wen and the tyrant Zhou? Therefore their words are full of danger. They make the endangered secure and bring the careless to a fall. Their way is very great, and none of the hundred things is left out. They are wary from end to beginning, and their point is to be without blame. This is the way of the Changes.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+  {
+    part: 'lower',
+    chapter: 12,
+    translations: {
+      'zh-zhouyi': {
+        paragraphs: [
+          '夫乾，天下之至健也，德行恆易以知險。夫坤，天下之至順也，德行恆簡以知阻。能說諸心，能研諸侯之慮，定天下之吉凶，成天下之亹亹者。是故變化云為，吉事有祥，象事知器，占事知來。天地設位，聖人成能，人謀鬼謀，百姓與能。八卦以象告，爻彖以情言，剛柔雜居，而吉凶可見矣。變動以利言，吉凶以情遷。是故愛惡相攻而吉凶生，遠近相取而悔吝生，情偽相感而利害生。凡易之情，近而不相得則凶，或害之，悔且吝。將叛者其辭慚，中心疑者其辭枝，吉人之辭寡，躁人之辭多，誣善之人其辭游，失其守者其辭屈。',
+        ],
+        metadata: CLASSICAL_TEXT,
+      },
+      'en-project': {
+        paragraphs: [
+          'The Creative is the strongest of all things under heaven. Its virtue is ever easy in its working, and so it knows danger. The Receptive is the most devoted of all things under heaven. Its virtue is ever simple in its working, and so it knows obstruction. They can gladden the heart and refine the thoughts of the princes; they settle good fortune and misfortune under heaven and bring about every unflagging effort under heaven. Therefore in change and transformation, in speech and action, auspicious affairs have their omens. The images of affairs show their tools; the oracles on affairs show what is to come. Heaven and earth set up the positions, and the sages complete their power. Through the counsel of men and the counsel of spirits, even the common people share in that power. The eight trigrams tell through images; the lines and the Decisions speak through feelings. The firm and the yielding dwell intermingled, and good fortune and misfortune can be seen. Change and movement speak in terms of benefit; good fortune and misfortune shift with the feelings. Therefore love and hate attack each other, and good fortune and misfortune arise; far and near seize upon each other, and remorse and humiliation arise; the true and the false stir each other, and benefit and harm arise. In all the situations of the Changes, when things that are near do not accord, there is misfortune; something harms them, and there is remorse and humiliation. The words of one about to rebel are shamefaced. The words of one who doubts at heart branch off. The words of a man of good fortune are few. The words of an excitable man are many. The words of one who slanders the good are evasive. The words of one who has lost his footing are crooked.',
+        ],
+        metadata: PROJECT_ENGLISH,
+      },
+    },
+  },
+];
+
+/**
+ * Gets a chapter of the Xici by part, chapter number, language and source
+ */
+export function getXiciChapter(
+  part: XiciPart,
+  chapter: number,
+  lang: string,
+  source?: string
+): XiciTranslation | undefined {
+  const entry = xiciChapters.find((candidate) => candidate.part === part && candidate.chapter === chapter);
+  if (!entry) return undefined;
+  return entry.translations[resolveCommentaryKey(entry.translations, lang, source)];
+}
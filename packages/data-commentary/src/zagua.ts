@@ -0,0 +1,264 @@
+/**
+ * Miscellany (雜卦)
+ *
+ * The Zagua characterizes the hexagrams two at a time, mostly pairing each
+ * hexagram with its inverse. Pairs are listed in the order of the received
+ * text. Its last eight hexagrams are interleaved (大過, 姤, 漸, 頤, 既濟,
+ * 歸妹, 未濟, 夬); they are grouped here into the four pairs the text
+ * traditionally implies, with their clauses joined.
+ */
+
+import { CLASSICAL_TEXT, PROJECT_ENGLISH, resolveCommentaryKey } from './sources';
+import { ZaguaPair, ZaguaTranslation } from './types';
+
+export const zaguaPairs: ZaguaPair[] = [
+  {
+    hexagrams: [1, 2],
+    translations: {
+      'zh-zhouyi': { text: '乾剛坤柔。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Creative is firm; the Receptive is yielding.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [8, 7],
+    translations: {
+      'zh-zhouyi': { text: '比樂師憂。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Holding Together is joy; the Army is sorrow.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [19, 20],
+    translations: {
+      'zh-zhouyi': { text: '臨觀之義，或與或求。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The meaning of Approach and Contemplation: the one gives, the other seeks.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [3, 4],
+    translations: {
+      'zh-zhouyi': { text: '屯見而不失其居，蒙雜而著。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Difficulty at the Beginning shows itself without leaving its dwelling; Youthful Folly is confused yet conspicuous.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [51, 52],
+    translations: {
+      'zh-zhouyi': { text: '震起也，艮止也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Arousing is rising up; Keeping Still is stopping.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [41, 42],
+    translations: {
+      'zh-zhouyi': { text: '損益，盛衰之始也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Decrease and Increase are the beginnings of flourishing and decline.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [26, 25],
+    translations: {
+      'zh-zhouyi': { text: '大畜時也，無妄災也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Taming Power of the Great is the right time; Innocence is unexpected calamity.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [45, 46],
+    translations: {
+      'zh-zhouyi': { text: '萃聚而升不來也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Gathering Together is assembling; Pushing Upward does not come back.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [15, 16],
+    translations: {
+      'zh-zhouyi': { text: '謙輕而豫怠也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Modesty takes itself lightly; Enthusiasm grows idle.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [21, 22],
+    translations: {
+      'zh-zhouyi': { text: '噬嗑食也，賁無色也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Biting Through is eating; Grace is without color.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [58, 57],
+    translations: {
+      'zh-zhouyi': { text: '兌見而巽伏也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Joyous shows itself; the Gentle lies hidden.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [17, 18],
+    translations: {
+      'zh-zhouyi': { text: '隨無故也，蠱則飭也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Following lets go of the past; Work on What Has Been Spoiled sets things in order.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [23, 24],
+    translations: {
+      'zh-zhouyi': { text: '剝爛也，復反也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Splitting Apart is decay; Return is coming back.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [35, 36],
+    translations: {
+      'zh-zhouyi': { text: '晉晝也，明夷誅也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Progress is daytime; Darkening of the Light is injury.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [48, 47],
+    translations: {
+      'zh-zhouyi': { text: '井通而困相遇也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Well is open passage; Oppression is collision.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [31, 32],
+    translations: {
+      'zh-zhouyi': { text: '咸速也，恆久也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Influence is swift; Duration is lasting.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [59, 60],
+    translations: {
+      'zh-zhouyi': { text: '渙離也，節止也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Dispersion is scattering; Limitation is stopping.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [40, 39],
+    translations: {
+      'zh-zhouyi': { text: '解緩也，蹇難也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Deliverance is easing; Obstruction is difficulty.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [38, 37],
+    translations: {
+      'zh-zhouyi': { text: '睽外也，家人內也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Opposition is outward; the Family is inward.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [12, 11],
+    translations: {
+      'zh-zhouyi': { text: '否泰反其類也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Standstill and Peace are opposite in kind.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [34, 33],
+    translations: {
+      'zh-zhouyi': { text: '大壯則止，遯則退也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Power of the Great means stopping; Retreat means withdrawing.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [14, 13],
+    translations: {
+      'zh-zhouyi': { text: '大有眾也，同人親也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Possession in Great Measure is the multitude; Fellowship with Men is closeness.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [49, 50],
+    translations: {
+      'zh-zhouyi': { text: '革去故也，鼎取新也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Revolution removes the old; the Cauldron takes up the new.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [62, 61],
+    translations: {
+      'zh-zhouyi': { text: '小過過也，中孚信也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Preponderance of the Small is going beyond; Inner Truth is good faith.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [55, 56],
+    translations: {
+      'zh-zhouyi': { text: '豐多故也，親寡旅也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Abundance has many friends; few are close to the Wanderer.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [30, 29],
+    translations: {
+      'zh-zhouyi': { text: '離上而坎下也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Clinging goes upward and the Abysmal goes downward.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [9, 10],
+    translations: {
+      'zh-zhouyi': { text: '小畜寡也，履不處也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'The Taming Power of the Small is scarcity; Treading does not stay in place.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [5, 6],
+    translations: {
+      'zh-zhouyi': { text: '需不進也，訟不親也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Waiting does not advance; Conflict is not close.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [28, 27],
+    translations: {
+      'zh-zhouyi': { text: '大過顛也。頤養正也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Preponderance of the Great is toppling. The Corners of the Mouth nourish what is correct.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [44, 43],
+    translations: {
+      'zh-zhouyi': { text: '姤遇也，柔遇剛也。夬決也，剛決柔也，君子道長，小人道憂也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Coming to Meet is encountering: the yielding meets the firm. Breakthrough is resoluteness: the firm breaks through the yielding; the way of the superior man grows and the way of the inferior brings sorrow.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [53, 54],
+    translations: {
+      'zh-zhouyi': { text: '漸女歸待男行也。歸妹女之終也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'Development is the maiden given in marriage, waiting for the man to act. The Marrying Maiden is the end of maidenhood.', metadata: PROJECT_ENGLISH },
+    },
+  },
+  {
+    hexagrams: [63, 64],
+    translations: {
+      'zh-zhouyi': { text: '既濟定也。未濟男之窮也。', metadata: CLASSICAL_TEXT },
+      'en-project': { text: 'After Completion is settledness. Before Completion is the exhaustion of the male.', metadata: PROJECT_ENGLISH },
+    },
+  },
+];
+
+/**
+ * Gets the Zagua pair a hexagram belongs to
+ */
+export function getZaguaPair(number: number): ZaguaPair | undefined {
+  return zaguaPairs.find((pair) => pair.hexagrams.includes(number));
+}
+
+/**
+ * Gets the hexagram the Zagua characterizes a hexagram against
+ */
+export function getZaguaPartner(number: number): number | undefined {
+  const pair = getZaguaPair(number);
+  if (!pair) return undefined;
+  return pair.hexagrams[0] === number ? pair.hexagrams[1] : pair.hexagrams[0];
+}
+
+/**
+ * Gets the text of a hexagram's Zagua pair by language and source
+ */
+export function getZaguaText(number: number, lang: string, source?: string): ZaguaTranslation | undefined {
+  const pair = getZaguaPair(number);
+  if (!pair) return undefined;
+  return pair.translations[resolveCommentaryKey(pair.translations, lang, source)];
+}
@@ -0,0 +1,126 @@
+/**
+ * Hexagram Algebra Tests
+ *
+ * Verifies:
+ * 1. binary → hexagram lookup covers all 64 hexagrams
+ * 2. Relating (之), inverse (綜), opposite (錯) and nuclear (互) hexagrams
+ * 3. Trigram composition agrees with each hexagram's upper/lower trigrams
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=algebra
+ */
+
+import {
+  composeHexagram,
+  decomposeHexagram,
+  flipLines,
+  getHexagramNumberByBinary,
+  getInverseHexagram,
+  getNuclearHexagram,
+  getOppositeHexagram,
+  getRelatingHexagram,
+  TRIGRAM_BINARY,
+} from '../algebra';
+import { hexagrams } from '../hexagrams';
+import { TrigramId } from '../types';
+
+const ALL_NUMBERS = Array.from({ length: 64 }, (_, i) => i + 1);
+
+describe('Hexagram Algebra - binary lookup', () => {
+  it('maps every hexagram binary back to its number', () => {
+    for (const number of ALL_NUMBERS) {
+      expect(getHexagramNumberByBinary(hexagrams[number].binary)).toBe(number);
+    }
+  });
+
+  it('returns undefined for malformed binaries', () => {
+    expect(getHexagramNumberByBinary('10101')).toBeUndefined();
+    expect(getHexagramNumberByBinary('abcdef')).toBeUndefined();
+  });
+});
+
+describe('Hexagram Algebra - line flips', () => {
+  it('flips lines counted from the bottom', () => {
+    expect(flipLines('000000', [1])).toBe('100000');
+    expect(flipLines('111111', [2, 6])).toBe('101110');
+  });
+
+  it('gets the relating hexagram from moving lines', () => {
+    // The Creative with a moving bottom line becomes Coming to Meet (姤)
+    expect(getRelatingHexagram(1, [1])).toBe(44);
+    // Peace with a moving fifth line becomes Needing (需)
+    expect(getRelatingHexagram(11, [5])).toBe(5);
+  });
+
+  it('relates a hexagram to itself when no line moves', () => {
+    expect(getRelatingHexagram(30, [])).toBe(30);
+  });
+});
+
+describe('Hexagram Algebra - derived hexagrams', () => {
+  it('inverse turns the hexagram upside down', () => {
+    expect(getInverseHexagram(3)).toBe(4);
+    expect(getInverseHexagram(11)).toBe(12);
+    expect(getInverseHexagram(63)).toBe(64);
+  });
+
+  it('symmetric hexagrams are their own inverse', () => {
+    for (const number of [1, 2, 27, 28, 29, 30, 61, 62]) {
+      expect(getInverseHexagram(number)).toBe(number);
+    }
+  });
+
+  it('opposite flips every line', () => {
+    expect(getOppositeHexagram(1)).toBe(2);
+    expect(getOppositeHexagram(29)).toBe(30);
+    expect(getOppositeHexagram(63)).toBe(64);
+  });
+
+  it('inverse and opposite are involutions', () => {
+    for (const number of ALL_NUMBERS) {
+      expect(getInverseHexagram(getInverseHexagram(number)!)).toBe(number);
+      expect(getOppositeHexagram(getOppositeHexagram(number)!)).toBe(number);
+    }
+  });
+
+  it('nuclear hexagram takes lines 2-4 and 3-5', () => {
+    expect(getNuclearHexagram(1)).toBe(1);
+    expect(getNuclearHexagram(63)).toBe(64);
+    expect(getNuclearHexagram(64)).toBe(63);
+    // Return (復): lines 2-4 earth, 3-5 earth
+    expect(getNuclearHexagram(24)).toBe(2);
+  });
+
+  it('every nuclear hexagram is one of the sixteen possible', () => {
+    const nuclears = new Set(ALL_NUMBERS.map((number) => getNuclearHexagram(number)));
+    expect(nuclears.size).toBe(16);
+  });
+
+  it('returns undefined for unknown hexagrams', () => {
+    expect(getInverseHexagram(0)).toBeUndefined();
+    expect(getOppositeHexagram(65)).toBeUndefined();
+    expect(getNuclearHexagram(-1)).toBeUndefined();
+  });
+});
+
+describe('Hexagram Algebra - trigram composition', () => {
+  it('composes every hexagram from its upper and lower trigrams', () => {
+    for (const number of ALL_NUMBERS) {
+      const hex = hexagrams[number];
+      expect(composeHexagram(hex.upperTrigram, hex.lowerTrigram)).toBe(number);
+    }
+  });
+
+  it('decomposes every hexagram into its upper and lower trigrams', () => {
+    for (const number of ALL_NUMBERS) {
+      const hex = hexagrams[number];
+      expect(decomposeHexagram(number)).toEqual({ upper: hex.upperTrigram, lower: hex.lowerTrigram });
+    }
+  });
+
+  it('yields 64 distinct hexagrams from the 8 × 8 trigram pairs', () => {
+    const trigrams = Object.keys(TRIGRAM_BINARY) as TrigramId[];
+    const composed = new Set(trigrams.flatMap((upper) => trigrams.map((lower) => composeHexagram(upper, lower))));
+    expect(composed.size).toBe(64);
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Translation Attribution Tests
+ *
+ * Verifies:
+ * 1. Every translation key has attribution, public-domain sources are
+ *    credited to their translators and the es/fr/de/pt texts to Claude
+ * 2. The attribution follows the language and source being viewed
+ * 3. Text fields and line statements resolve to TranslatableContent
+ * 4. Attribution formats as a credit line
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=attribution
+ */
+
+import {
+  formatAttribution,
+  getHexagramAttribution,
+  getHexagramContent,
+  getHexagramLineContent,
+  getLocalizedHexagramContent,
+  getTranslationMetadata,
+  TRANSLATION_METADATA,
+} from '../attribution';
+import { TRANSLATION_KEYS } from '../hexagrams';
+
+describe('TRANSLATION_METADATA', () => {
+  it('covers every translation key', () => {
+    expect(Object.keys(TRANSLATION_METADATA).sort()).toEqual([...TRANSLATION_KEYS].sort());
+  });
+
+  it('separates public-domain sources from Claude translations', () => {
+    expect(getTranslationMetadata('en-legge')).toEqual({
+      source: 'legge',
+      translator: 'James Legge',
+      year: 1882,
+      license: 'public-domain',
+      originalLanguage: 'zh',
+    });
+    expect(getTranslationMetadata('zh-zhouyi')?.license).toBe('public-domain');
+    for (const key of ['es-wilhelm', 'es-legge', 'es-zhouyi', 'fr-wilhelm', 'de-wilhelm', 'pt-wilhelm']) {
+      expect(getTranslationMetadata(key)).toMatchObject({ source: 'claude', license: 'mit' });
+    }
+    expect(getTranslationMetadata('es-zhouyi')?.originalLanguage).toBe('zh');
+    expect(getTranslationMetadata('es-legge')?.referenceTranslations).toEqual(['James Legge (1882)']);
+    expect(getTranslationMetadata('xx-unknown')).toBeUndefined();
+  });
+});
+
+describe('getHexagramAttribution', () => {
+  it('follows the language and source being viewed', () => {
+    expect(getHexagramAttribution(1, 'en')?.source).toBe('wilhelm');
+    expect(getHexagramAttribution(1, 'en', 'legge')?.source).toBe('legge');
+    expect(getHexagramAttribution(1, 'es', 'zhouyi')?.source).toBe('claude');
+    expect(getHexagramAttribution(1, 'zh')?.source).toBe('original-chinese');
+  });
+
+  it('is undefined when there is nothing to attribute', () => {
+    expect(getHexagramAttribution(65, 'en')).toBeUndefined();
+    expect(getHexagramAttribution(1, 'fr', 'legge')).toBeUndefined();
+  });
+});
+
+describe('TranslatableContent', () => {
+  it('pairs text fields and lines with their attribution', () => {
+    expect(getHexagramContent(1, 'name', 'en', 'legge')).toEqual({
+      text: 'The Creative',
+      metadata: TRANSLATION_METADATA['en-legge'],
+    });
+    expect(getHexagramContent(1, 'allMoving', 'zh')?.text).toBe('見群龍無首，吉。');
+    expect(getHexagramContent(3, 'allMoving', 'en')).toBeUndefined();
+    expect(getHexagramLineContent(1, 1, 'en')).toEqual({
+      text: 'Hidden dragon. Do not act.',
+      metadata: TRANSLATION_METADATA['en-wilhelm'],
+    });
+  });
+
+  it('collects a field in every translation', () => {
+    const names = getLocalizedHexagramContent(29, 'name');
+    expect(Object.keys(names)).toEqual([...TRANSLATION_KEYS]);
+    expect(names['de-wilhelm']).toEqual({ text: 'Das Abgründige', metadata: TRANSLATION_METADATA['de-wilhelm'] });
+    expect(getLocalizedHexagramContent(65, 'name')).toEqual({});
+  });
+});
+
+describe('formatAttribution', () => {
+  it('credits the translator, the source or the reference translations', () => {
+    expect(formatAttribution(TRANSLATION_METADATA['en-legge'])).toBe('James Legge (1882)');
+    expect(formatAttribution(TRANSLATION_METADATA['en-wilhelm'])).toBe('Richard Wilhelm & Cary F. Baynes (1950)');
+    expect(formatAttribution(TRANSLATION_METADATA['zh-zhouyi'])).toBe('周易 Zhouyi');
+    expect(formatAttribution(TRANSLATION_METADATA['es-wilhelm'])).toBe('Claude (Anthropic) · Wilhelm-Baynes (1950)');
+    expect(formatAttribution(TRANSLATION_METADATA['es-zhouyi'])).toBe('Claude (Anthropic)');
+  });
+});
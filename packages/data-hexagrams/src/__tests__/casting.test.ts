@@ -0,0 +1,123 @@
+/**
+ * Casting Engine Tests
+ *
+ * Verifies:
+ * 1. Line value distributions match the three-coin and yarrow-stalk odds
+ * 2. Primary / relating hexagrams and moving lines derive from the
+ *    bottom-first `binary` convention
+ * 3. Casts are deterministic with an injected random source
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=casting
+ */
+
+import { castHexagram, castLine, deriveCastingResult, LineValue, RandomSource } from '../casting';
+
+/**
+ * Random source that replays a fixed sequence of values
+ */
+function sequence(values: number[]): RandomSource {
+  let index = 0;
+  return () => values[index++ % values.length];
+}
+
+/**
+ * Counts line values over every equally likely combination of draws
+ */
+function countOutcomes(method: 'three-coin' | 'yarrow', draws: number[][]): Record<LineValue, number> {
+  const counts: Record<LineValue, number> = { 6: 0, 7: 0, 8: 0, 9: 0 };
+  for (const draw of draws) {
+    counts[castLine(method, sequence(draw))]++;
+  }
+  return counts;
+}
+
+function product(...axes: number[][]): number[][] {
+  return axes.reduce<number[][]>(
+    (acc, axis) => acc.flatMap((prefix) => axis.map((value) => [...prefix, value])),
+    [[]]
+  );
+}
+
+describe('Casting - line value distributions', () => {
+  it('three coins give 6/7/8/9 with odds 1:3:3:1 out of 8', () => {
+    const coin = [0.25, 0.75];
+    expect(countOutcomes('three-coin', product(coin, coin, coin))).toEqual({ 6: 1, 7: 3, 8: 3, 9: 1 });
+  });
+
+  it('yarrow stalks give 6/7/8/9 with odds 1:5:7:3 out of 16', () => {
+    const firstDivision = [0.1, 0.3, 0.6, 0.9];
+    const division = [0.25, 0.75];
+    expect(countOutcomes('yarrow', product(firstDivision, division, division))).toEqual({ 6: 1, 7: 5, 8: 7, 9: 3 });
+  });
+
+  it('defaults to three coins', () => {
+    expect(castHexagram(undefined, sequence([0.9])).method).toBe('three-coin');
+  });
+});
+
+describe('Casting - derived hexagrams', () => {
+  it('six young yang lines give The Creative with no relating hexagram', () => {
+    const result = deriveCastingResult([7, 7, 7, 7, 7, 7], 'three-coin');
+    expect(result.primary).toBe(1);
+    expect(result.relating).toBeNull();
+    expect(result.movingLines).toEqual([]);
+  });
+
+  it('six old yang lines change The Creative into The Receptive', () => {
+    const result = deriveCastingResult([9, 9, 9, 9, 9, 9], 'yarrow');
+    expect(result.primary).toBe(1);
+    expect(result.relating).toBe(2);
+    expect(result.movingLines).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('reads lines from the bottom up', () => {
+    // Yang at the bottom only: Return (復), not Splitting Apart (剝)
+    expect(deriveCastingResult([7, 8, 8, 8, 8, 8], 'three-coin').primary).toBe(24);
+    expect(deriveCastingResult([8, 8, 8, 8, 8, 7], 'three-coin').primary).toBe(23);
+  });
+
+  it('moving lines change into the relating hexagram', () => {
+    // Peace (泰) with a moving bottom line becomes Pushing Upward (升)
+    const result = deriveCastingResult([9, 7, 7, 8, 8, 8], 'three-coin');
+    expect(result.primary).toBe(11);
+    expect(result.relating).toBe(46);
+    expect(result.movingLines).toEqual([1]);
+  });
+
+  it('old yin lines change into yang', () => {
+    // The Receptive (坤) with a moving top line becomes Splitting Apart (剝)
+    const result = deriveCastingResult([8, 8, 8, 8, 8, 6], 'yarrow');
+    expect(result.primary).toBe(2);
+    expect(result.relating).toBe(23);
+    expect(result.movingLines).toEqual([6]);
+  });
+
+  it('rejects casts that are not six valid line values', () => {
+    expect(() => deriveCastingResult([7, 7, 7], 'three-coin')).toThrow();
+    expect(() => deriveCastingResult([7, 7, 7, 7, 7, 5 as LineValue], 'three-coin')).toThrow();
+  });
+});
+
+describe('Casting - injectable random source', () => {
+  it('produces the same cast for the same random sequence', () => {
+    const draws = [0.1, 0.8, 0.4, 0.6, 0.2, 0.9, 0.3, 0.7, 0.5];
+    const first = castHexagram('yarrow', sequence(draws));
+    const second = castHexagram('yarrow', sequence(draws));
+    expect(first).toEqual(second);
+  });
+
+  it('casts all heads as six old yang lines', () => {
+    const result = castHexagram('three-coin', () => 0);
+    expect(result.lines).toEqual([9, 9, 9, 9, 9, 9]);
+    expect(result.primary).toBe(1);
+    expect(result.relating).toBe(2);
+  });
+
+  it('casts all tails as six old yin lines', () => {
+    const result = castHexagram('three-coin', () => 0.99);
+    expect(result.lines).toEqual([6, 6, 6, 6, 6, 6]);
+    expect(result.primary).toBe(2);
+    expect(result.relating).toBe(1);
+  });
+});
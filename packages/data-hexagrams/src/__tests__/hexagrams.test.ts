@@ -0,0 +1,34 @@
+/**
+ * Hexagram Data Tests
+ *
+ * Verifies:
+ * 1. Every hexagram carries the French, German and Portuguese Wilhelm translations
+ * 2. Each translation has six line statements, plus 用九/用六 for hexagrams 1 and 2
+ * 3. Default sources resolve the new languages to Wilhelm
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=hexagrams
+ */
+
+import { getDefaultSourceForLanguage, getHexagramTranslationBySource } from '../hexagrams';
+
+describe('Hexagram Data - fr/de/pt translations', () => {
+  it('has fr-wilhelm, de-wilhelm and pt-wilhelm for all 64 hexagrams', () => {
+    for (let n = 1; n <= 64; n++) {
+      for (const lang of ['fr', 'de', 'pt']) {
+        const translation = getHexagramTranslationBySource(n, lang, 'wilhelm');
+        expect(translation).toBeDefined();
+        expect(translation?.lines.map((line) => line.position)).toEqual([1, 2, 3, 4, 5, 6]);
+        expect(translation?.allMoving !== undefined).toBe(n <= 2);
+      }
+    }
+  });
+
+  it('defaults the new languages to the Wilhelm source', () => {
+    expect(getDefaultSourceForLanguage('fr')).toBe('wilhelm');
+    expect(getDefaultSourceForLanguage('de')).toBe('wilhelm');
+    expect(getDefaultSourceForLanguage('pt')).toBe('wilhelm');
+    expect(getHexagramTranslationBySource(29, 'de')?.name).toBe('Das Abgründige');
+    expect(getHexagramTranslationBySource(1, 'pt')?.allMoving).toBe('Aparece um bando de dragões sem cabeça. Boa fortuna.');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Line Statement Tests
+ *
+ * Verifies:
+ * 1. Every translation has six non-empty line statements, bottom to top
+ * 2. Only hexagrams 1 and 2 carry the 用九/用六 statement
+ * 3. Single lines are looked up by position, counted from the bottom
+ * 4. Moving lines come back bottom to top, whatever order they are asked in
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=lines
+ */
+
+import {
+  getHexagramLineBySource,
+  getHexagramLinesBySource,
+  getHexagramTranslationBySource,
+  getMovingLinesBySource,
+  TRANSLATION_KEYS,
+} from '../hexagrams';
+import type { TranslationSource } from '../types';
+
+const ALL_NUMBERS = Array.from({ length: 64 }, (_, i) => i + 1);
+
+/** [language, source] for every translation key, e.g. ['en', 'legge'] */
+const SOURCES = TRANSLATION_KEYS.map((key) => key.split('-') as [string, TranslationSource]);
+
+describe('Line statements - data', () => {
+  it.each(SOURCES)('%s-%s has six lines, bottom to top, for every hexagram', (lang, source) => {
+    for (const number of ALL_NUMBERS) {
+      const lines = getHexagramLinesBySource(number, lang, source);
+      expect(lines?.map((line) => line.position)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(lines?.every((line) => line.text.trim().length > 0)).toBe(true);
+    }
+  });
+
+  it.each(SOURCES)('%s-%s has 用九/用六 on hexagrams 1 and 2 only', (lang, source) => {
+    const withAllMoving = ALL_NUMBERS.filter(
+      (number) => getHexagramTranslationBySource(number, lang, source)?.allMoving !== undefined
+    );
+    expect(withAllMoving).toEqual([1, 2]);
+  });
+
+  it('matches the received Zhouyi text', () => {
+    expect(getHexagramTranslationBySource(1, 'zh')?.allMoving).toBe('見群龍無首，吉。');
+    expect(getHexagramTranslationBySource(2, 'zh')?.allMoving).toBe('利永貞。');
+    expect(getHexagramLinesBySource(1, 'zh')?.map((line) => line.text)).toEqual([
+      '潛龍勿用。',
+      '見龍在田，利見大人。',
+      '君子終日乾乾，夕惕若，厲，無咎。',
+      '或躍在淵，無咎。',
+      '飛龍在天，利見大人。',
+      '亢龍有悔。',
+    ]);
+  });
+});
+
+describe('Line statements - lookups', () => {
+  it('gets a single line by position, 1 being the bottom', () => {
+    expect(getHexagramLineBySource(1, 1, 'zh')).toEqual({ position: 1, text: '潛龍勿用。' });
+    expect(getHexagramLineBySource(1, 6, 'zh')?.text).toBe('亢龍有悔。');
+    expect(getHexagramLineBySource(3, 6, 'en', 'legge')?.text).toMatch(/^The horses of his chariot are obliged to retreat/);
+  });
+
+  it('falls back to the default source and handles unknown hexagrams', () => {
+    expect(getHexagramLinesBySource(3, 'en')).toBe(getHexagramLinesBySource(3, 'en', 'wilhelm'));
+    expect(getHexagramLinesBySource(65, 'en')).toBeUndefined();
+    expect(getHexagramLineBySource(65, 1, 'en')).toBeUndefined();
+    expect(getHexagramLinesBySource(1, 'fr', 'legge')).toBeUndefined();
+  });
+
+  it('returns moving lines bottom to top', () => {
+    const moving = getMovingLinesBySource(1, [6, 2, 4], 'zh');
+    expect(moving.map((line) => line.position)).toEqual([2, 4, 6]);
+    expect(moving[0].text).toBe('見龍在田，利見大人。');
+  });
+
+  it('returns no moving lines when none move or the hexagram is unknown', () => {
+    expect(getMovingLinesBySource(1, [], 'zh')).toEqual([]);
+    expect(getMovingLinesBySource(65, [1], 'zh')).toEqual([]);
+  });
+});
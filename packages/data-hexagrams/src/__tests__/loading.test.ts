@@ -0,0 +1,108 @@
+/**
+ * Translation Chunk Loading Tests
+ *
+ * Verifies:
+ * 1. The core record is available without loading any translation
+ * 2. Asynchronous lookups load only the chunk they read
+ * 3. preloadTranslations loads what TranslationPreferences selects
+ * 4. Synchronous lookups still work before anything was preloaded
+ * 5. A chunk whose import failed is imported again on the next load
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=loading
+ */
+
+import type { TranslationPreferences } from '@iching-kt/core';
+import {
+  getHexagram,
+  getHexagramTranslationBySource,
+  getHexagramTranslationBySourceAsync,
+  preloadTranslations,
+  TRANSLATION_KEYS,
+} from '../hexagrams';
+import { hasTranslationChunk, isTranslationChunkLoaded, loadTranslationChunk } from '../loading';
+
+describe('translation chunks', () => {
+  it('exist for every translation key and nothing else', () => {
+    expect(TRANSLATION_KEYS.every(hasTranslationChunk)).toBe(true);
+    expect(hasTranslationChunk('en')).toBe(false);
+  });
+
+  it('are not loaded to read the core record', () => {
+    expect(getHexagram(29)).toMatchObject({ chinese: '坎', binary: '010010', upperTrigram: 'water' });
+    expect(getHexagram(29)).not.toHaveProperty('translations');
+    expect(TRANSLATION_KEYS.some(isTranslationChunkLoaded)).toBe(false);
+  });
+});
+
+describe('asynchronous lookups', () => {
+  it('load only the chunk they read', async () => {
+    const translation = await getHexagramTranslationBySourceAsync(1, 'zh');
+    expect(translation?.name).toBe('乾');
+    expect(TRANSLATION_KEYS.filter(isTranslationChunkLoaded)).toEqual(['zh-zhouyi']);
+    expect(getHexagramTranslationBySource(1, 'zh')).toBe(translation);
+  });
+
+  it('keep the synchronous semantics for unknown hexagrams and sources', async () => {
+    await expect(getHexagramTranslationBySourceAsync(65, 'en')).resolves.toBeUndefined();
+    await expect(getHexagramTranslationBySourceAsync(1, 'fr', 'legge')).resolves.toBeUndefined();
+    await expect(loadTranslationChunk('ja-wilhelm')).resolves.toBeUndefined();
+  });
+
+  it('share one import between concurrent loads', async () => {
+    const [first, second] = await Promise.all([loadTranslationChunk('es-legge'), loadTranslationChunk('es-legge')]);
+    expect(first).toBe(second);
+  });
+});
+
+describe('failed loads', () => {
+  afterEach(() => {
+    jest.dontMock('../translations/de-wilhelm');
+  });
+
+  it('are retried on the next load', async () => {
+    let attempts = 0;
+    jest.doMock('../translations/de-wilhelm', () => {
+      attempts += 1;
+      if (attempts === 1) throw new Error('Chunk request failed');
+      return jest.requireActual('../translations/de-wilhelm');
+    });
+    let loading!: typeof import('../loading');
+    jest.isolateModules(() => {
+      loading = require('../loading');
+    });
+
+    await expect(loading.loadTranslationChunk('de-wilhelm')).rejects.toThrow('Chunk request failed');
+    expect(loading.isTranslationChunkLoaded('de-wilhelm')).toBe(false);
+
+    const chunk = await loading.loadTranslationChunk('de-wilhelm');
+    expect(chunk?.[1].name).toBeTruthy();
+    expect(loading.isTranslationChunkLoaded('de-wilhelm')).toBe(true);
+    expect(attempts).toBe(2);
+  });
+});
+
+describe('preloadTranslations', () => {
+  it('loads the preferred source for each language', async () => {
+    // Stored preferences may name sources or languages that no longer exist
+    const stored: Record<string, string> = { en: 'legge', fr: 'legge', ja: 'wilhelm' };
+    const keys = await preloadTranslations(stored as TranslationPreferences);
+    expect(keys).toEqual(['en-legge', 'fr-wilhelm']);
+    expect(keys.every(isTranslationChunkLoaded)).toBe(true);
+    expect(isTranslationChunkLoaded('en-wilhelm')).toBe(false);
+  });
+
+  it('can be limited to some languages', async () => {
+    await expect(preloadTranslations({ en: 'wilhelm', pt: 'wilhelm' }, ['pt'])).resolves.toEqual(['pt-wilhelm']);
+    expect(isTranslationChunkLoaded('en-wilhelm')).toBe(false);
+  });
+});
+
+describe('synchronous lookups', () => {
+  it('load a chunk on first use', () => {
+    expect(isTranslationChunkLoaded('de-wilhelm')).toBe(false);
+    expect(getHexagramTranslationBySource(29, 'de')?.name).toBe('Das Abgründige');
+    expect(isTranslationChunkLoaded('de-wilhelm')).toBe(true);
+    expect(getHexagramTranslationBySource(1, 'de', 'zhouyi')).toBeUndefined();
+  });
+});
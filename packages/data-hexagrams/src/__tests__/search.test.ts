@@ -0,0 +1,109 @@
+/**
+ * Hexagram Search Tests
+ *
+ * Verifies:
+ * 1. Tokenization folds case and diacritics, splits Chinese by character
+ *    and drops pinyin tone numbers
+ * 2. Pinyin matches with or without tone marks, Chinese by character and
+ *    Spanish with or without accents
+ * 3. Results rank by matched words, then by field
+ * 4. Snippets are cut around the first match and highlight every match
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=search
+ */
+
+import { foldSearchText, searchHexagrams, tokenizeSearchText } from '../search';
+
+function highlighted(result: ReturnType<typeof searchHexagrams>[number]): string[] {
+  return result.snippet.highlights.map(({ start, end }) => result.snippet.text.slice(start, end));
+}
+
+describe('tokenizeSearchText', () => {
+  it('folds case and diacritics', () => {
+    expect(foldSearchText('Qián Acción Ü')).toBe('qian accion u');
+    expect(tokenizeSearchText('El Pequeño Zorro').map((token) => token.term)).toEqual(['el', 'pequeno', 'zorro']);
+  });
+
+  it('keeps the offsets of the original text', () => {
+    expect(tokenizeSearchText('wèi jì')).toEqual([
+      { term: 'wei', start: 0, end: 3 },
+      { term: 'ji', start: 4, end: 6 },
+    ]);
+    // Decomposed input keeps its combining marks inside the word
+    expect(tokenizeSearchText('qián!')).toEqual([{ term: 'qian', start: 0, end: 5 }]);
+  });
+
+  it('splits Chinese text by character and drops tone numbers', () => {
+    expect(tokenizeSearchText('未濟：亨').map((token) => token.term)).toEqual(['未', '濟', '亨']);
+    expect(tokenizeSearchText('qian2 kun1').map((token) => token.term)).toEqual(['qian', 'kun']);
+  });
+});
+
+describe('searchHexagrams - matching', () => {
+  it('finds pinyin with or without tone marks and as one word', () => {
+    for (const query of ['qián', 'qian', 'Qian2']) {
+      expect(searchHexagrams(query)[0].number).toBe(1);
+    }
+    expect(searchHexagrams('weiji')[0].number).toBe(64);
+    expect(searchHexagrams('wei ji')[0].number).toBe(64);
+  });
+
+  it('finds Chinese names and classical text by character', () => {
+    expect(searchHexagrams('未濟')[0].number).toBe(64);
+    expect(searchHexagrams('小狐', { language: 'zh' })[0].number).toBe(64);
+  });
+
+  it('finds Spanish words with or without accents', () => {
+    const accented = searchHexagrams('pequeño zorro', { language: 'es' });
+    expect(accented[0].number).toBe(64);
+    expect(searchHexagrams('pequeno zorro', { language: 'es' })).toEqual(accented);
+  });
+
+  it('searches the requested source', () => {
+    expect(searchHexagrams('Wei Ji', { language: 'en', source: 'legge', limit: 1 })[0].snippet.field).toBe('pinyin');
+    expect(searchHexagrams('little fox', { language: 'en', source: 'legge' })[0].number).toBe(64);
+  });
+
+  it('returns nothing for empty or unmatched queries', () => {
+    expect(searchHexagrams('')).toEqual([]);
+    expect(searchHexagrams('  ?! ')).toEqual([]);
+    expect(searchHexagrams('xylophone')).toEqual([]);
+  });
+});
+
+describe('searchHexagrams - ranking', () => {
+  it('answers "which hexagram talks about the fox crossing the river"', () => {
+    const [first] = searchHexagrams('fox crossing the river');
+    expect(first.number).toBe(64);
+    expect(first.snippet.field).toBe('judgment');
+    expect(highlighted(first)).toEqual(['fox', 'crossing']);
+  });
+
+  it('ranks meanings above images', () => {
+    const results = searchHexagrams('thunder');
+    expect(results[0]).toMatchObject({ number: 51, snippet: { field: 'meaning' } });
+    expect(results[1].snippet.field).toBe('image');
+    expect(results.map((result) => result.score)).toEqual([...results.map((result) => result.score)].sort((a, b) => b - a));
+  });
+
+  it('matches word prefixes below whole words', () => {
+    const whole = searchHexagrams('crossing').find((result) => result.number === 64);
+    const prefix = searchHexagrams('cross').find((result) => result.number === 64);
+    expect(prefix && highlighted(prefix)).toEqual(['crossing']);
+    expect(prefix?.score).toBeLessThan(whole?.score ?? 0);
+    expect(searchHexagrams('cr')).toEqual([]);
+  });
+
+  it('limits the results', () => {
+    expect(searchHexagrams('water', { limit: 3 })).toHaveLength(3);
+  });
+});
+
+describe('searchHexagrams - snippets', () => {
+  it('cuts long fields around the first match', () => {
+    const result = searchHexagrams('tail', { language: 'en', source: 'legge' }).find((r) => r.number === 64);
+    expect(result?.snippet.text).toBe('…the crossing but gets its tail wet. There is nothing advantageous.');
+    expect(result && highlighted(result)).toEqual(['tail']);
+  });
+});
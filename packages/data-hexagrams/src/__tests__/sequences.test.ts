@@ -0,0 +1,78 @@
+/**
+ * Hexagram Sequence Tests
+ *
+ * Verifies:
+ * 1. Every sequence holds each of the 64 hexagrams exactly once
+ * 2. The Fu Xi, Mawangdui and Eight Palaces orders match the traditional ones
+ * 3. Position lookups work in both directions
+ * 4. Each hexagram's palace and generation
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=sequences
+ */
+
+import {
+  getHexagramAtPosition,
+  getPalace,
+  getSequencePosition,
+  HEXAGRAM_SEQUENCE_IDS,
+  HEXAGRAM_SEQUENCES,
+  isHexagramSequenceId,
+} from '../sequences';
+
+const ALL_NUMBERS = Array.from({ length: 64 }, (_, i) => i + 1);
+
+describe('Hexagram Sequences - coverage', () => {
+  it.each(HEXAGRAM_SEQUENCE_IDS)('%s holds every hexagram once', (id) => {
+    expect([...HEXAGRAM_SEQUENCES[id].hexagrams].sort((a, b) => a - b)).toEqual(ALL_NUMBERS);
+  });
+
+  it('recognizes sequence ids', () => {
+    expect(isHexagramSequenceId('mawangdui')).toBe(true);
+    expect(isHexagramSequenceId('shao-yong')).toBe(false);
+    expect(isHexagramSequenceId(undefined)).toBe(false);
+  });
+});
+
+describe('Hexagram Sequences - traditional orders', () => {
+  it('counts down in binary from 乾 to 坤 in the Fu Xi order', () => {
+    const fuXi = HEXAGRAM_SEQUENCES['fu-xi'].hexagrams;
+    expect(fuXi.slice(0, 8)).toEqual([1, 43, 14, 34, 9, 5, 26, 11]);
+    expect(fuXi[63]).toBe(2);
+    expect(HEXAGRAM_SEQUENCES['fu-xi'].groupTrigrams?.[1]).toBe('lake');
+  });
+
+  it('groups the Mawangdui order by upper trigram, doubled hexagram first', () => {
+    const mawangdui = HEXAGRAM_SEQUENCES.mawangdui.hexagrams;
+    expect(mawangdui.slice(0, 8)).toEqual([1, 12, 33, 10, 6, 13, 25, 44]);
+    expect(mawangdui.slice(8, 16)).toEqual([52, 26, 23, 41, 4, 22, 27, 18]);
+    expect(mawangdui.slice(56)).toEqual([57, 9, 20, 53, 61, 59, 37, 42]);
+  });
+
+  it('runs each of the Eight Palaces from its pure hexagram to the returning soul', () => {
+    const palaces = HEXAGRAM_SEQUENCES['eight-palaces'].hexagrams;
+    expect(palaces.slice(0, 8)).toEqual([1, 44, 33, 12, 20, 23, 35, 14]);
+    expect(palaces.slice(32, 40)).toEqual([2, 24, 19, 11, 34, 43, 5, 8]);
+  });
+});
+
+describe('Hexagram Sequences - lookups', () => {
+  it('finds positions and hexagrams in both directions', () => {
+    for (const id of HEXAGRAM_SEQUENCE_IDS) {
+      for (const position of ALL_NUMBERS) {
+        expect(getSequencePosition(id, getHexagramAtPosition(id, position) ?? 0)).toBe(position);
+      }
+    }
+    expect(getSequencePosition('fu-xi', 2)).toBe(64);
+    expect(getHexagramAtPosition('king-wen', 29)).toBe(29);
+    expect(getSequencePosition('mawangdui', 65)).toBeUndefined();
+    expect(getHexagramAtPosition('mawangdui', 0)).toBeUndefined();
+  });
+
+  it('gets the palace and generation of a hexagram', () => {
+    expect(getPalace(1)).toEqual({ palace: 'heaven', generation: 'pure' });
+    expect(getPalace(35)).toEqual({ palace: 'heaven', generation: 'wandering' });
+    expect(getPalace(8)).toEqual({ palace: 'earth', generation: 'returning' });
+    expect(getPalace(65)).toBeUndefined();
+  });
+});
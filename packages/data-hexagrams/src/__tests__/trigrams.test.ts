@@ -0,0 +1,78 @@
+/**
+ * Trigram Data Tests
+ *
+ * Verifies:
+ * 1. The eight trigrams are complete and consistent with the hexagram data
+ * 2. Earlier and Later Heaven arrangements each use all eight directions
+ * 3. Translations exist for en/es/zh/fr/de/pt, with English fallback
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=trigrams
+ */
+
+import { hexagrams } from '../hexagrams';
+import { getTrigramTranslation, isTrigramId, trigramOrder, trigrams } from '../trigrams';
+
+describe('Trigram Data - completeness', () => {
+  it('has eight trigrams with distinct binaries', () => {
+    const binaries = new Set(trigramOrder.map((id) => trigrams[id].binary));
+    expect(trigramOrder).toHaveLength(8);
+    expect(binaries.size).toBe(8);
+  });
+
+  it('agrees with the trigrams inside every hexagram binary', () => {
+    for (const hex of Object.values(hexagrams)) {
+      expect(hex.binary.slice(0, 3)).toBe(trigrams[hex.lowerTrigram].binary);
+      expect(hex.binary.slice(3)).toBe(trigrams[hex.upperTrigram].binary);
+    }
+  });
+
+  it('has one father, one mother, three sons and three daughters', () => {
+    const family = trigramOrder.map((id) => trigrams[id].family);
+    expect(family.filter((member) => member.endsWith('-son'))).toHaveLength(3);
+    expect(family.filter((member) => member.endsWith('-daughter'))).toHaveLength(3);
+    expect(family).toContain('father');
+    expect(family).toContain('mother');
+  });
+});
+
+describe('Trigram Data - arrangements', () => {
+  it('Earlier Heaven places each trigram in its own direction, numbered 1-8', () => {
+    const directions = new Set(trigramOrder.map((id) => trigrams[id].earlierHeaven.direction));
+    expect(directions.size).toBe(8);
+    expect(trigramOrder.map((id) => trigrams[id].earlierHeaven.number)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('Later Heaven numbers are the Lo Shu numbers without the center', () => {
+    const directions = new Set(trigramOrder.map((id) => trigrams[id].laterHeaven.direction));
+    const numbers = trigramOrder.map((id) => trigrams[id].laterHeaven.number).sort();
+    expect(directions.size).toBe(8);
+    expect(numbers).toEqual([1, 2, 3, 4, 6, 7, 8, 9]);
+  });
+
+  it('Heaven faces south in the Earlier Heaven and northwest in the Later Heaven', () => {
+    expect(trigrams.heaven.earlierHeaven.direction).toBe('S');
+    expect(trigrams.heaven.laterHeaven.direction).toBe('NW');
+  });
+});
+
+describe('Trigram Data - translations', () => {
+  it('has translations in every supported language for every trigram', () => {
+    for (const id of trigramOrder) {
+      for (const lang of ['en', 'es', 'zh', 'fr', 'de', 'pt']) {
+        expect(trigrams[id].translations[lang]).toBeDefined();
+      }
+    }
+  });
+
+  it('falls back to English for unsupported languages', () => {
+    expect(getTrigramTranslation('water', 'it')).toEqual(trigrams.water.translations.en);
+  });
+
+  it('recognises trigram ids', () => {
+    expect(isTrigramId('mountain')).toBe(true);
+    expect(isTrigramId('center')).toBe(false);
+    expect(isTrigramId('toString')).toBe(false);
+    expect(isTrigramId(3)).toBe(false);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Hexagram Data Validation Tests
+ *
+ * Verifies:
+ * 1. The shipped hexagram and trigram data pass every check
+ * 2. Missing, unexpected and incomplete translations are reported per key
+ * 3. Binary/trigram disagreements and bad unicode symbols are reported
+ * 4. Encoding damage and missing Spanish/Portuguese diacritics are reported
+ * 5. Expected keys without attribution metadata are reported
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=validation
+ */
+
+import { TRANSLATION_METADATA } from '../attribution';
+import { TRANSLATION_KEYS } from '../hexagrams';
+import { hasTranslationChunk } from '../loading';
+import { trigrams } from '../trigrams';
+import { Hexagram, HexagramTranslation, Trigram, TrigramId } from '../types';
+import { validateHexagramData } from '../validation';
+
+const translation: HexagramTranslation = {
+  name: 'Name',
+  meaning: 'Meaning',
+  judgment: 'Judgment.',
+  image: 'Image.',
+  lines: [1, 2, 3, 4, 5, 6].map((position) => ({ position: position as 1, text: `Line ${position}.` })),
+};
+
+/**
+ * Hexagram 3 (water over thunder) with the given changes
+ */
+function hexagram(changes: Partial<Hexagram> = {}): Hexagram {
+  return {
+    number: 3,
+    chinese: '屯',
+    pinyin: 'zhūn',
+    unicode: '䷂',
+    binary: '100010',
+    upperTrigram: 'water',
+    lowerTrigram: 'thunder',
+    translations: { 'en-wilhelm': translation, 'zh-zhouyi': { ...translation, name: '屯' } },
+    ...changes,
+  };
+}
+
+function validate(...hexes: Hexagram[]) {
+  return validateHexagramData({
+    hexagrams: Object.fromEntries(hexes.map((hex) => [hex.number, hex])),
+    keys: ['en-wilhelm', 'zh-zhouyi'],
+  });
+}
+
+describe('validateHexagramData - shipped data', () => {
+  it('reports no issues', () => {
+    const report = validateHexagramData();
+    expect(report.issues).toEqual([]);
+    expect(report.valid).toBe(true);
+  });
+
+  it('counts every expected key on all 64 hexagrams', () => {
+    const { coverage } = validateHexagramData();
+    expect(Object.keys(coverage)).toEqual([...TRANSLATION_KEYS]);
+    expect(Object.values(coverage).every((count) => count === 64)).toBe(true);
+  });
+
+  it('no longer carries the legacy bare en key', () => {
+    expect(hasTranslationChunk('en')).toBe(false);
+  });
+});
+
+describe('validateHexagramData - translations', () => {
+  it('accepts a well-formed hexagram', () => {
+    expect(validate(hexagram())).toEqual({ valid: true, issues: [], coverage: { 'en-wilhelm': 1, 'zh-zhouyi': 1 } });
+  });
+
+  it('reports missing and unexpected keys', () => {
+    const report = validate(hexagram({ translations: { en: translation, 'zh-zhouyi': { ...translation, name: '屯' } } }));
+    expect(report.valid).toBe(false);
+    expect(report.coverage['en-wilhelm']).toBe(0);
+    expect(report.issues.map(({ kind, hexagram, key }) => ({ kind, hexagram, key }))).toEqual([
+      { kind: 'missing-translation', hexagram: 3, key: 'en-wilhelm' },
+      { kind: 'unexpected-translation', hexagram: 3, key: 'en' },
+    ]);
+  });
+
+  it('reports missing lines, empty fields and misplaced all-moving statements', () => {
+    const broken = { ...translation, image: ' ', lines: translation.lines.slice(0, 5), allMoving: 'All moving.' };
+    const report = validate(hexagram({ translations: { 'en-wilhelm': broken, 'zh-zhouyi': { ...translation, name: '屯' } } }));
+    expect(report.issues.map(({ kind, field }) => ({ kind, field }))).toEqual([
+      { kind: 'incomplete-translation', field: 'lines' },
+      { kind: 'incomplete-translation', field: 'allMoving' },
+      { kind: 'incomplete-translation', field: 'image' },
+    ]);
+  });
+
+  it('reports a classical name that differs from the hexagram', () => {
+    const report = validate(hexagram({ chinese: '咬嗑' }));
+    expect(report.issues).toEqual([
+      expect.objectContaining({ kind: 'name-mismatch', hexagram: 3, key: 'zh-zhouyi', field: 'name' }),
+    ]);
+  });
+});
+
+describe('validateHexagramData - structure', () => {
+  it('reports a binary that disagrees with the trigrams', () => {
+    const report = validate(hexagram({ binary: '010100' }));
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        kind: 'trigram-mismatch',
+        hexagram: 3,
+        message: 'Binary 010100 is water below thunder, not thunder below water',
+      }),
+    ]);
+  });
+
+  it('reports malformed binaries', () => {
+    expect(validate(hexagram({ binary: '10001' })).issues[0].kind).toBe('invalid-binary');
+    const badTrigrams: Record<TrigramId, Trigram> = { ...trigrams, lake: { ...trigrams.lake, binary: '111' } };
+    const report = validateHexagramData({ hexagrams: {}, trigrams: badTrigrams });
+    expect(report.issues).toEqual([expect.objectContaining({ kind: 'invalid-binary', trigram: 'lake' })]);
+  });
+
+  it('reports symbols outside the block, out of order or repeated', () => {
+    expect(validate(hexagram({ unicode: '☯' })).issues[0].kind).toBe('invalid-unicode');
+    expect(validate(hexagram({ unicode: '䷂䷂' })).issues[0].kind).toBe('invalid-unicode');
+    expect(validate(hexagram({ unicode: '䷃' })).issues[0].message).toBe('䷃ is the symbol for hexagram 4');
+
+    const report = validate(hexagram(), hexagram({ number: 4, chinese: '屯', binary: '100010' }));
+    expect(report.issues.map(({ kind, hexagram }) => ({ kind, hexagram }))).toEqual([
+      { kind: 'duplicate-unicode', hexagram: 4 },
+    ]);
+  });
+
+  it('reports expected keys without attribution', () => {
+    const report = validateHexagramData({
+      hexagrams: { 3: hexagram() },
+      keys: ['en-wilhelm', 'zh-zhouyi'],
+      metadata: { 'en-wilhelm': TRANSLATION_METADATA['en-wilhelm'] },
+    });
+    expect(report.issues).toEqual([
+      { kind: 'missing-attribution', key: 'zh-zhouyi', message: 'No attribution metadata for zh-zhouyi' },
+    ]);
+  });
+});
+
+describe('validateHexagramData - text', () => {
+  function textIssues(key: string, text: string) {
+    const report = validateHexagramData({
+      hexagrams: { 3: hexagram({ translations: { 'zh-zhouyi': { ...translation, name: '屯' }, [key]: { ...translation, judgment: text } } }) },
+      keys: ['zh-zhouyi', key],
+    });
+    return report.issues.map(({ kind, key: issueKey, field, message }) => ({ kind, key: issueKey, field, message }));
+  }
+
+  it('reports mojibake, replacement characters and unnormalized text', () => {
+    expect(textIssues('es-wilhelm', 'La perseverancia trae ventura.')).toEqual([]);
+    expect(textIssues('es-wilhelm', 'Ã‰xito.')[0].kind).toBe('encoding');
+    expect(textIssues('es-wilhelm', 'Pequeño Ã©xito.')[0].kind).toBe('encoding');
+    expect(textIssues('fr-wilhelm', 'Pas de bl�me.')[0].kind).toBe('encoding');
+    expect(textIssues('fr-wilhelm', 'Pas de blâme.'.normalize('NFD'))).toEqual([
+      { kind: 'encoding', key: 'fr-wilhelm', field: 'judgment', message: expect.stringContaining('NFC') },
+    ]);
+  });
+
+  it('reports Spanish and Portuguese words missing their diacritics', () => {
+    expect(textIssues('es-zhouyi', 'Antes de la consumacion.')).toEqual([
+      { kind: 'missing-diacritic', key: 'es-zhouyi', field: 'judgment', message: '"consumacion" is missing a diacritic' },
+    ]);
+    expect(textIssues('es-zhouyi', 'El pequeno zorro.')[0].message).toBe('"pequeno" is missing a diacritic');
+    expect(textIssues('es-zhouyi', 'Las revoluciones del pequeño zorro, sí.')).toEqual([]);
+    expect(textIssues('pt-wilhelm', 'A revolucao.')[0].kind).toBe('missing-diacritic');
+    expect(textIssues('en-wilhelm', 'Revolution, consumacion.')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Hexagram Algebra
+ *
+ * Transformations over the `binary` representation of a hexagram
+ * ('1' = yang, '0' = yin, index 0 = bottom line):
+ * - Relating hexagram (之卦): the moving lines are flipped
+ * - Inverse hexagram (綜卦): the hexagram turned upside down
+ * - Opposite hexagram (錯卦): every line flipped
+ * - Nuclear hexagram (互卦): lines 2-3-4 below, lines 3-4-5 above
+ * - Composition from upper and lower trigrams
+ */
+
+import { hexagrams } from './hexagrams';
+import { trigrams } from './trigrams';
+import { HexagramRecord, LinePosition, TrigramId } from './types';
+
+/**
+ * Trigram lines as '1' (yang) / '0' (yin), bottom line first
+ */
+export const TRIGRAM_BINARY = Object.fromEntries(
+  Object.values(trigrams).map((trigram) => [trigram.id, trigram.binary])
+) as Record<TrigramId, string>;
+
+const hexagramsByBinary: Record<string, HexagramRecord> = Object.fromEntries(
+  Object.values(hexagrams).map((hex) => [hex.binary, hex])
+);
+
+/**
+ * Looks up a hexagram by its binary representation
+ */
+export function getHexagramByBinary(binary: string): HexagramRecord | undefined {
+  return hexagramsByBinary[binary];
+}
+
+/**
+ * Looks up a hexagram number by its binary representation
+ */
+export function getHexagramNumberByBinary(binary: string): number | undefined {
+  return hexagramsByBinary[binary]?.number;
+}
+
+/**
+ * Looks up a trigram by its binary representation (bottom line first)
+ */
+export function getTrigramByBinary(binary: string): TrigramId | undefined {
+  return (Object.keys(TRIGRAM_BINARY) as TrigramId[]).find((id) => TRIGRAM_BINARY[id] === binary);
+}
+
+/**
+ * Flips the lines at the given positions (1 = bottom line)
+ */
+export function flipLines(binary: string, positions: LinePosition[]): string {
+  return binary
+    .split('')
+    .map((bit, index) => (positions.includes((index + 1) as LinePosition) ? (bit === '1' ? '0' : '1') : bit))
+    .join('');
+}
+
+/**
+ * Gets the relating hexagram (之卦) formed when the given lines move.
+ * With no moving lines the hexagram relates to itself.
+ */
+export function getRelatingHexagram(number: number, movingLines: LinePosition[]): number | undefined {
+  const hex = hexagrams[number];
+  if (!hex) return undefined;
+  return getHexagramNumberByBinary(flipLines(hex.binary, movingLines));
+}
+
+/**
+ * Gets the inverse hexagram (綜卦), the hexagram turned upside down.
+ * Symmetric hexagrams (1, 2, 27, 28, 29, 30, 61, 62) are their own inverse.
+ */
+export function getInverseHexagram(number: number): number | undefined {
+  const hex = hexagrams[number];
+  if (!hex) return undefined;
+  return getHexagramNumberByBinary(hex.binary.split('').reverse().join(''));
+}
+
+/**
+ * Gets the opposite hexagram (錯卦), with every line flipped
+ */
+export function getOppositeHexagram(number: number): number | undefined {
+  const hex = hexagrams[number];
+  if (!hex) return undefined;
+  return getHexagramNumberByBinary(flipLines(hex.binary, [1, 2, 3, 4, 5, 6]));
+}
+
+/**
+ * Gets the nuclear hexagram (互卦): lines 2-3-4 form the lower trigram,
+ * lines 3-4-5 the upper trigram
+ */
+export function getNuclearHexagram(number: number): number | undefined {
+  const hex = hexagrams[number];
+  if (!hex) return undefined;
+  return getHexagramNumberByBinary(hex.binary.slice(1, 4) + hex.binary.slice(2, 5));
+}
+
+/**
+ * Composes a hexagram from its upper and lower trigrams
+ */
+export function composeHexagram(upper: TrigramId, lower: TrigramId): number | undefined {
+  return getHexagramNumberByBinary(TRIGRAM_BINARY[lower] + TRIGRAM_BINARY[upper]);
+}
+
+/**
+ * Splits a hexagram into its upper and lower trigrams, read from the binary
+ */
+export function decomposeHexagram(number: number): { upper: TrigramId; lower: TrigramId } | undefined {
+  const hex = hexagrams[number];
+  if (!hex) return undefined;
+  const lower = getTrigramByBinary(hex.binary.slice(0, 3));
+  const upper = getTrigramByBinary(hex.binary.slice(3));
+  return upper && lower ? { upper, lower } : undefined;
+}
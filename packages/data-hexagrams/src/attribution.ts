@@ -0,0 +1,154 @@
+/**
+ * Translation Attribution
+ *
+ * Provenance of every translation key in core's TranslationMetadata shape,
+ * so views can credit whatever text the user is reading:
+ * - 'en-wilhelm', 'en-legge', 'zh-zhouyi': public-domain sources
+ * - 'es-*', 'fr-wilhelm', 'de-wilhelm', 'pt-wilhelm': Claude translations
+ *   made at build time from the source named in the key (MIT)
+ *
+ * Every hexagram carries the same keys, so provenance is recorded once per
+ * key rather than on each of the 64 entries.
+ */
+
+import { LocalizedContent, TranslatableContent, TranslationMetadata } from '@iching-kt/core';
+import {
+  getDefaultSourceForLanguage,
+  getHexagramLineBySource,
+  getHexagramTranslationBySource,
+  TRANSLATION_KEYS,
+} from './hexagrams';
+import { requireTranslationChunk } from './loading';
+import { LinePosition, TranslationSource } from './types';
+
+const WILHELM_BAYNES = 'Wilhelm-Baynes (1950)';
+const LEGGE = 'James Legge (1882)';
+
+function claudeTranslation(
+  originalLanguage: TranslationMetadata['originalLanguage'],
+  referenceTranslations?: string[]
+): TranslationMetadata {
+  return {
+    source: 'claude',
+    translator: 'Claude (Anthropic)',
+    license: 'mit',
+    originalLanguage,
+    ...(referenceTranslations ? { referenceTranslations } : {}),
+  };
+}
+
+/**
+ * Attribution for each language-source translation key
+ */
+export const TRANSLATION_METADATA: Record<string, TranslationMetadata> = {
+  'en-wilhelm': {
+    source: 'wilhelm',
+    translator: 'Richard Wilhelm & Cary F. Baynes',
+    year: 1950,
+    license: 'public-domain',
+    originalLanguage: 'de',
+  },
+  'en-legge': {
+    source: 'legge',
+    translator: 'James Legge',
+    year: 1882,
+    license: 'public-domain',
+    originalLanguage: 'zh',
+  },
+  'es-wilhelm': claudeTranslation('en', [WILHELM_BAYNES]),
+  'es-legge': claudeTranslation('en', [LEGGE]),
+  'es-zhouyi': claudeTranslation('zh'),
+  'zh-zhouyi': {
+    source: 'original-chinese',
+    license: 'public-domain',
+    originalLanguage: 'zh',
+  },
+  'fr-wilhelm': claudeTranslation('en', [WILHELM_BAYNES]),
+  'de-wilhelm': claudeTranslation('en', ['Richard Wilhelm (1924)', WILHELM_BAYNES]),
+  'pt-wilhelm': claudeTranslation('en', [WILHELM_BAYNES]),
+};
+
+/** Text fields of a translation that can be read as TranslatableContent */
+export type HexagramTextField = 'name' | 'meaning' | 'judgment' | 'image' | 'allMoving';
+
+/**
+ * Gets the attribution for a translation key ('es-legge')
+ */
+export function getTranslationMetadata(key: string): TranslationMetadata | undefined {
+  return TRANSLATION_METADATA[key];
+}
+
+/**
+ * Gets the attribution for the translation shown for a language and source
+ * (the one getHexagramTranslationBySource returns), or undefined when the
+ * hexagram has no such translation
+ */
+export function getHexagramAttribution(
+  number: number,
+  lang: string,
+  source?: TranslationSource
+): TranslationMetadata | undefined {
+  if (!getHexagramTranslationBySource(number, lang, source)) return undefined;
+  return TRANSLATION_METADATA[`${lang}-${source || getDefaultSourceForLanguage(lang)}`];
+}
+
+function toContent(text: string | undefined, metadata: TranslationMetadata | undefined): TranslatableContent | undefined {
+  if (text === undefined || !metadata) return undefined;
+  return { text, metadata };
+}
+
+/**
+ * Gets one text field of a hexagram translation together with its attribution
+ */
+export function getHexagramContent(
+  number: number,
+  field: HexagramTextField,
+  lang: string,
+  source?: TranslationSource
+): TranslatableContent | undefined {
+  const translation = getHexagramTranslationBySource(number, lang, source);
+  return toContent(translation?.[field], getHexagramAttribution(number, lang, source));
+}
+
+/**
+ * Gets a single line statement (1 = bottom line) together with its attribution
+ */
+export function getHexagramLineContent(
+  number: number,
+  position: LinePosition,
+  lang: string,
+  source?: TranslationSource
+): TranslatableContent | undefined {
+  const line = getHexagramLineBySource(number, position, lang, source);
+  return toContent(line?.text, getHexagramAttribution(number, lang, source));
+}
+
+/**
+ * Gets one text field of a hexagram in every translation, keyed by
+ * language-source key ('en-wilhelm', 'es-zhouyi', ...). Loads every chunk.
+ */
+export function getLocalizedHexagramContent(number: number, field: HexagramTextField): LocalizedContent {
+  const content: LocalizedContent = {};
+  for (const key of TRANSLATION_KEYS) {
+    const entry = toContent(requireTranslationChunk(key)?.[number]?.[field], TRANSLATION_METADATA[key]);
+    if (entry) content[key] = entry;
+  }
+  return content;
+}
+
+/** Sources credited by name rather than by translator */
+const SOURCE_LABELS: Partial<Record<TranslationMetadata['source'], string>> = {
+  'original-chinese': '周易 Zhouyi',
+};
+
+/**
+ * Formats attribution as a short credit line, e.g. "James Legge (1882)" or
+ * "Claude (Anthropic) · Wilhelm-Baynes (1950)" for a translation made from
+ * a reference translation
+ */
+export function formatAttribution(metadata: TranslationMetadata): string {
+  const credit = metadata.translator
+    ? (metadata.year ? `${metadata.translator} (${metadata.year})` : metadata.translator)
+    : (SOURCE_LABELS[metadata.source] ?? metadata.source);
+  return [credit, ...(metadata.referenceTranslations ?? [])].join(' · ');
+}
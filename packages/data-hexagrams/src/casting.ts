@@ -0,0 +1,118 @@
+/**
+ * Divination Casting (起卦)
+ *
+ * Casts six line values with either the three-coin method or the
+ * yarrow-stalk method, each following its traditional probabilities:
+ *
+ * | Value | Line         | Three coins | Yarrow stalks |
+ * |-------|--------------|-------------|---------------|
+ * | 6     | old yin  ⚋→⚊ | 1/8         | 1/16          |
+ * | 7     | young yang ⚊ | 3/8         | 5/16          |
+ * | 8     | young yin ⚋  | 3/8         | 7/16          |
+ * | 9     | old yang ⚊→⚋ | 1/8         | 3/16          |
+ *
+ * Lines are built from the bottom up, so `lines[0]` is the bottom line,
+ * matching the `Hexagram.binary` convention.
+ */
+
+import { flipLines, getHexagramNumberByBinary } from './algebra';
+import { LinePosition } from './types';
+
+/** Line value: 6 = old yin, 7 = young yang, 8 = young yin, 9 = old yang */
+export type LineValue = 6 | 7 | 8 | 9;
+
+export type CastingMethod = 'three-coin' | 'yarrow';
+
+/** Returns a number in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+export interface CastingResult {
+  method: CastingMethod;
+  /** Line values from bottom (index 0) to top (index 5) */
+  lines: LineValue[];
+  /** Hexagram formed by the cast lines (本卦) */
+  primary: number;
+  /** Hexagram formed after the moving lines change (之卦), null when no line moves */
+  relating: number | null;
+  /** Positions of the moving lines (6 and 9), bottom to top */
+  movingLines: LinePosition[];
+}
+
+const LINE_VALUES: LineValue[] = [6, 7, 8, 9];
+
+/**
+ * Three-coin method: heads count 3, tails count 2, the sum is the line value
+ */
+function tossThreeCoins(random: RandomSource): LineValue {
+  let sum = 0;
+  for (let i = 0; i < 3; i++) {
+    sum += random() < 0.5 ? 3 : 2;
+  }
+  return sum as LineValue;
+}
+
+/**
+ * Yarrow-stalk method: three successive divisions of the stalks.
+ * The first division leaves a small remainder (counted 3) three times in four,
+ * the second and third divisions once in two.
+ */
+function divideYarrowStalks(random: RandomSource): LineValue {
+  let sum = random() < 0.75 ? 3 : 2;
+  sum += random() < 0.5 ? 3 : 2;
+  sum += random() < 0.5 ? 3 : 2;
+  return sum as LineValue;
+}
+
+/**
+ * Casts a single line value
+ */
+export function castLine(method: CastingMethod, random: RandomSource = Math.random): LineValue {
+  return method === 'yarrow' ? divideYarrowStalks(random) : tossThreeCoins(random);
+}
+
+/**
+ * Whether a line value is moving (old yin or old yang)
+ */
+export function isMovingLine(value: LineValue): boolean {
+  return value === 6 || value === 9;
+}
+
+/**
+ * Derives the primary and relating hexagrams from six line values (bottom to top)
+ */
+export function deriveCastingResult(lines: LineValue[], method: CastingMethod): CastingResult {
+  if (lines.length !== 6 || lines.some((value) => !LINE_VALUES.includes(value))) {
+    throw new Error('A cast needs six line values of 6, 7, 8 or 9');
+  }
+
+  const binary = lines.map((value) => (value === 7 || value === 9 ? '1' : '0')).join('');
+  const movingLines = lines
+    .map((value, index) => (isMovingLine(value) ? ((index + 1) as LinePosition) : null))
+    .filter((position): position is LinePosition => position !== null);
+
+  // Every six-line binary maps to one of the 64 hexagrams
+  return {
+    method,
+    lines: [...lines],
+    primary: getHexagramNumberByBinary(binary)!,
+    relating: movingLines.length > 0 ? getHexagramNumberByBinary(flipLines(binary, movingLines))! : null,
+    movingLines,
+  };
+}
+
+/**
+ * Casts a full hexagram, building the six lines from the bottom up
+ *
+ * @param method Casting method ('three-coin' or 'yarrow')
+ * @param random Random source, injectable for deterministic casts
+ */
+export function castHexagram(
+  method: CastingMethod = 'three-coin',
+  random: RandomSource = Math.random
+): CastingResult {
+  const lines: LineValue[] = [];
+  for (let i = 0; i < 6; i++) {
+    lines.push(castLine(method, random));
+  }
+  return deriveCastingResult(lines, method);
+}
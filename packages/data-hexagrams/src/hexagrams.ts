@@ -6,19 +6,43 @@
  * - James Legge Translation (Public Domain since 1882) - classical, scholarly
  * - Unicode Consortium (Open Standard)
  *
- * Complete dataset of all 64 hexagrams with multilingual support.
+ * Complete dataset of all 64 hexagrams with multilingual support, split in two:
+ * - `hexagrams`: the core record (number, names, symbol, binary, trigrams),
+ *   always loaded
+ * - translations/<key>.ts: one chunk per translation key, loaded on demand
+ *   (see loading.ts) so startup only pays for the translations in use
  *
- * Translation keys use language-source format:
+ * Each translation carries the six line statements (爻辭), bottom to top,
+ * plus the 用九/用六 statement for hexagrams 1 and 2.
+ *
+ * Translation keys use language-source format (see TRANSLATION_KEYS):
  * - 'en-wilhelm': English Wilhelm-Baynes translation (default)
  * - 'en-legge': English James Legge translation
  * - 'es-wilhelm': Spanish Wilhelm-Baynes translation (default)
  * - 'es-legge': Spanish James Legge translation
+ * - 'es-zhouyi': Spanish rendering of the Zhouyi classical text
  * - 'zh-zhouyi': Chinese classical text (周易, default)
+ * - 'fr-wilhelm': French rendering of the Wilhelm translation (default)
+ * - 'de-wilhelm': German Wilhelm translation (default)
+ * - 'pt-wilhelm': Portuguese rendering of the Wilhelm translation (default)
+ *
+ * Synchronous lookups (getHexagramTranslationBySource and friends) require
+ * a chunk the first time it is read; preloadTranslations and
+ * getHexagramTranslationBySourceAsync load it ahead of time instead.
  */
 
-import { Hexagram, TranslationSource } from './types';
+import { TranslationPreferences } from '@iching-kt/core';
+import { hasTranslationChunk, loadTranslationChunk, requireTranslationChunk } from './loading';
+import {
+  Hexagram,
+  HexagramLine,
+  HexagramRecord,
+  HexagramTranslation,
+  LinePosition,
+  TranslationSource,
+} from './types';
 
-export const hexagrams: Record<number, Hexagram> = {
+export const hexagrams: Record<number, HexagramRecord> = {
   1: {
     number: 1,
     chinese: '乾',
@@ -27,50 +51,6 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '111111',
     upperTrigram: 'heaven',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'The Creative',
-        meaning: 'Heaven, the creative principle, pure yang energy',
-        judgment: 'The Creative works sublime success, furthering through perseverance.',
-        image: 'The movement of heaven is full of power. Thus the superior man makes himself strong and untiring.',
-      },
-      'en-wilhelm': {
-        name: 'The Creative',
-        meaning: 'Heaven, the creative principle, pure yang energy',
-        judgment: 'The Creative works sublime success, furthering through perseverance.',
-        image: 'The movement of heaven is full of power. Thus the superior man makes himself strong and untiring.',
-      },
-      'en-legge': {
-        name: 'The Creative',
-        meaning: 'The creative principle; heaven and yang energy',
-        judgment: 'Qian. Great progress and success. The advantage of being firm and correct.',
-        image: 'The sky moves with vigour. The superior man increases his virtue and accomplishes his work.',
-      },
-      'es-wilhelm': {
-        name: 'Lo Creativo',
-        meaning: 'Cielo, el principio creativo, energía yang pura',
-        judgment: 'Lo Creativo obra elevado éxito, propiciando mediante la perseverancia.',
-        image: 'El movimiento del cielo es poderoso. Así el hombre superior se hace fuerte e incansable.',
-      },
-      'es-legge': {
-        name: 'Lo Creativo',
-        meaning: 'El principio creativo; cielo y energía yang',
-        judgment: 'Qian. Gran progreso y éxito. La ventaja de ser firme y correcto.',
-        image: 'El cielo se mueve con vigor. El hombre superior aumenta su virtud y realiza su obra.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Creativo',
-        meaning: 'Cielo, principio creador, yang puro',
-        judgment: 'Sublime éxito, propicio mediante la perseverancia.',
-        image: 'El movimiento del Cielo es vigoroso. El hombre superior se fortalece sin cesar.',
-      },
-      'zh-zhouyi': {
-        name: '乾',
-        meaning: '天，創造原則，純陽能量',
-        judgment: '元亨利貞。',
-        image: '天行健，君子以自強不息。',
-      },
-    },
   },
   2: {
     number: 2,
@@ -80,1534 +60,258 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '000000',
     upperTrigram: 'earth',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'The Receptive',
-        meaning: 'Earth, the receptive principle, pure yin energy',
-        judgment: 'The Receptive brings about sublime success, furthering through the perseverance of a mare.',
-        image: 'The earth\'s condition is receptive devotion. Thus the superior man who has breadth of character carries the outer world.',
-      },
-      'en-wilhelm': {
-        name: 'The Receptive',
-        meaning: 'Earth, the receptive principle, pure yin energy',
-        judgment: 'The Receptive brings about sublime success, furthering through the perseverance of a mare.',
-        image: 'The earth\'s condition is receptive devotion. Thus the superior man who has breadth of character carries the outer world.',
-      },
-      'en-legge': {
-        name: 'The Receptive',
-        meaning: 'The receptive principle; earth and yin energy',
-        judgment: 'Kun. The receptive produces great progress and success, (when the subject of it) shows the firm correctness of a mare.',
-        image: 'The earth is in its element below. The superior man, with large virtue, carries things.',
-      },
-      'es-wilhelm': {
-        name: 'Lo Receptivo',
-        meaning: 'Tierra, el principio receptivo, energía yin pura',
-        judgment: 'Lo Receptivo obra elevado éxito, propiciando por la perseverancia de una yegua.',
-        image: 'La condición de la tierra es la devoción receptiva. Así el hombre superior que tiene amplitud de carácter sostiene el mundo exterior.',
-      },
-      'es-legge': {
-        name: 'Lo Receptivo',
-        meaning: 'El principio receptivo; tierra y energía yin',
-        judgment: 'Kun. Lo receptivo produce gran progreso y éxito, cuando el sujeto muestra la firme corrección de una yegua.',
-        image: 'La tierra está en su elemento abajo. El hombre superior, con gran virtud, sostiene las cosas.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Receptivo',
-        meaning: 'Tierra, principio receptivo, yin puro',
-        judgment: 'Sublime éxito, propicio mediante la perseverancia de una yegua.',
-        image: 'La condición de la Tierra es receptiva. El hombre superior con amplia virtud sostiene todas las cosas.',
-      },
-      'zh-zhouyi': {
-        name: '坤',
-        meaning: '地，接受原則，純陰能量',
-        judgment: '元亨，利牝馬之貞。',
-        image: '地勢坤，君子以厚德載物。',
-      },
-    },
   },
   11: {
     number: 11,
     chinese: '泰',
     pinyin: 'tài',
     unicode: '䷊',
-    binary: '000111',
+    binary: '111000',
     upperTrigram: 'earth',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'Peace',
-        meaning: 'Heaven and earth unite, harmony and prosperity',
-        judgment: 'Peace. The small departs, the great approaches. Good fortune. Success.',
-        image: 'Heaven and earth unite: the image of Peace. Thus the ruler divides and completes the course of heaven and earth.',
-      },
-      'en-wilhelm': {
-        name: 'Peace',
-        meaning: 'Heaven and earth unite, harmony and prosperity',
-        judgment: 'Peace. The small departs, the great approaches. Good fortune. Success.',
-        image: 'Heaven and earth unite: the image of Peace. Thus the ruler divides and completes the course of heaven and earth.',
-      },
-      'en-legge': {
-        name: 'Peace',
-        meaning: 'Harmony between heaven and earth',
-        judgment: 'Tai. The small departs; the great approaches. It is advantageous to be firm and correct.',
-        image: 'Heaven and earth meeting together forms Tai. The superior man accordingly metes out his treasures to benefit the common people.',
-      },
-      'es-wilhelm': {
-        name: 'La Paz',
-        meaning: 'Cielo y tierra se unen, armonía y prosperidad',
-        judgment: 'Paz. Lo pequeño se va, lo grande se acerca. Buena fortuna. Éxito.',
-        image: 'Cielo y tierra se unen: la imagen de la Paz. Así el gobernante divide y completa el curso del cielo y la tierra.',
-      },
-      'es-legge': {
-        name: 'La Paz',
-        meaning: 'Armonía entre cielo y tierra',
-        judgment: 'Tai. Lo pequeño parte; lo grande se acerca. Es propicio ser firme y correcto.',
-        image: 'Cielo y tierra encontrándose forman Tai. El hombre superior así distribuye sus tesoros para beneficiar al pueblo común.',
-      },
-      'es-zhouyi': {
-        name: 'La Paz',
-        meaning: 'La paz, prosperidad, comunicación entre cielo y tierra',
-        judgment: 'Lo pequeño parte, lo grande llega. Buena fortuna. Éxito.',
-        image: 'Cielo y tierra se comunican: la Paz. El gobernante así completa el curso del cielo y la tierra.',
-      },
-      'zh-zhouyi': {
-        name: '泰',
-        meaning: '天地交泰，和諧繁榮',
-        judgment: '小往大來，吉亨。',
-        image: '天地交，泰。后以財成天地之道。',
-      },
-    },
   },
   12: {
     number: 12,
     chinese: '否',
     pinyin: 'pǐ',
     unicode: '䷋',
-    binary: '111000',
+    binary: '000111',
     upperTrigram: 'heaven',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Standstill',
-        meaning: 'Heaven and earth do not unite, stagnation',
-        judgment: 'Standstill. Evil people do not further the perseverance of the superior man. The great departs, the small approaches.',
-        image: 'Heaven and earth do not unite: the image of Standstill. Thus the superior man falls back upon his inner worth.',
-      },
-      'en-wilhelm': {
-        name: 'Standstill',
-        meaning: 'Heaven and earth do not unite, stagnation',
-        judgment: 'Standstill. Evil people do not further the perseverance of the superior man. The great departs, the small approaches.',
-        image: 'Heaven and earth do not unite: the image of Standstill. Thus the superior man falls back upon his inner worth.',
-      },
-      'en-legge': {
-        name: 'Standstill',
-        meaning: 'Stagnation from lack of unity between heaven and earth',
-        judgment: 'Pi. It is not advantageous to the firm and correct. The great departs; the small approaches.',
-        image: 'Heaven and earth not in contact form Pi. The superior man manages his virtue and avoids calamity.',
-      },
-      'es-wilhelm': {
-        name: 'El Estancamiento',
-        meaning: 'Cielo y tierra no se unen, estancamiento',
-        judgment: 'Estancamiento. La gente malvada no propicia la perseverancia del hombre superior. Lo grande se va, lo pequeño se acerca.',
-        image: 'Cielo y tierra no se unen: la imagen del Estancamiento. Así el hombre superior se repliega en su valor interior.',
-      },
-      'es-legge': {
-        name: 'El Estancamiento',
-        meaning: 'Estancamiento por falta de unidad entre cielo y tierra',
-        judgment: 'Pi. No es propicio para el firme y correcto. Lo grande parte; lo pequeño se acerca.',
-        image: 'Cielo y tierra sin contacto forman Pi. El hombre superior administra su virtud y evita la calamidad.',
-      },
-      'es-zhouyi': {
-        name: 'El Estancamiento',
-        meaning: 'El estancamiento, obstrucción, falta de comunicación',
-        judgment: 'Estancamiento de gente indigna. No propicio para la perseverancia del hombre superior. Lo grande parte, lo pequeño llega.',
-        image: 'Cielo y tierra no se comunican: el Estancamiento. El hombre superior modera su virtud para evitar calamidades.',
-      },
-      'zh-zhouyi': {
-        name: '否',
-        meaning: '天地不交，閉塞',
-        judgment: '否之匪人，不利君子貞，大往小來。',
-        image: '天地不交，否。君子以儉德辟難。',
-      },
-    },
   },
   19: {
     number: 19,
     chinese: '臨',
     pinyin: 'lín',
     unicode: '䷒',
-    binary: '000011',
+    binary: '110000',
     upperTrigram: 'earth',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Approach',
-        meaning: 'Drawing near, becoming great, advancing',
-        judgment: 'Approach has supreme success. Perseverance furthers. When the eighth month comes, there will be misfortune.',
-        image: 'The earth above the lake: the image of Approach. Thus the superior man is inexhaustible in his will to teach.',
-      },
-      'en-wilhelm': {
-        name: 'Approach',
-        meaning: 'Drawing near, becoming great, advancing',
-        judgment: 'Approach has supreme success. Perseverance furthers. When the eighth month comes, there will be misfortune.',
-        image: 'The earth above the lake: the image of Approach. Thus the superior man is inexhaustible in his will to teach.',
-      },
-      'en-legge': {
-        name: 'Approach',
-        meaning: 'Drawing near and gradual approach',
-        judgment: 'Lin. It is advantageous to be firm and correct, and in being on guard against all evil.',
-        image: 'The marsh rising over the earth forms Lin. The superior man, in his conduct, cherishes goodness and never wearies.',
-      },
-      'es-wilhelm': {
-        name: 'El Acercamiento',
-        meaning: 'Aproximarse, volverse grande, avanzar',
-        judgment: 'El Acercamiento tiene éxito supremo. La perseverancia propicia. Cuando llegue el octavo mes, habrá infortunio.',
-        image: 'La tierra sobre el lago: la imagen del Acercamiento. Así el hombre superior es inagotable en su voluntad de enseñar.',
-      },
-      'es-legge': {
-        name: 'El Acercamiento',
-        meaning: 'Aproximarse y acercamiento gradual',
-        judgment: 'Lin. Es propicio ser firme y correcto, y estar en guardia contra todo mal.',
-        image: 'El pantano elevándose sobre la tierra forma Lin. El hombre superior, en su conducta, cultiva la bondad y nunca se fatiga.',
-      },
-      'es-zhouyi': {
-        name: 'El Acercamiento',
-        meaning: 'El acercamiento, aproximación, supervisión',
-        judgment: 'Sublime éxito, propicio mediante la perseverancia. Cuando llegue el octavo mes, habrá adversidad.',
-        image: 'Sobre el lago hay tierra: el Acercamiento. El hombre superior enseña y reflexiona sin límite.',
-      },
-      'zh-zhouyi': {
-        name: '臨',
-        meaning: '臨近，變大，前進',
-        judgment: '元亨利貞，至于八月有凶。',
-        image: '澤上有地，臨。君子以教思無窮。',
-      },
-    },
   },
   20: {
     number: 20,
     chinese: '觀',
     pinyin: 'guān',
     unicode: '䷓',
-    binary: '110000',
+    binary: '000011',
     upperTrigram: 'wind',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Contemplation',
-        meaning: 'Viewing, observing, being an example',
-        judgment: 'Contemplation. The ablution has been made, but not yet the offering. Full of trust they look up to him.',
-        image: 'The wind blows over the earth: the image of Contemplation. Thus the kings of old visited the regions of the world.',
-      },
-      'en-wilhelm': {
-        name: 'Contemplation',
-        meaning: 'Viewing, observing, being an example',
-        judgment: 'Contemplation. The ablution has been made, but not yet the offering. Full of trust they look up to him.',
-        image: 'The wind blows over the earth: the image of Contemplation. Thus the kings of old visited the regions of the world.',
-      },
-      'en-legge': {
-        name: 'Contemplation',
-        meaning: 'Viewing widely; offering with sincerity',
-        judgment: 'Guan. The ablution has been performed, but not the sacrificial offerings. There is faith and reverence shown.',
-        image: 'Wind moves over the earth forming Guan. The ancient kings in this way viewed the world and established teachings.',
-      },
-      'es-wilhelm': {
-        name: 'La Contemplación',
-        meaning: 'Ver, observar, ser un ejemplo',
-        judgment: 'Contemplación. La ablución se ha hecho, pero aún no la ofrenda. Llenos de confianza lo miran.',
-        image: 'El viento sopla sobre la tierra: la imagen de la Contemplación. Así los reyes de antaño visitaban las regiones del mundo.',
-      },
-      'es-legge': {
-        name: 'La Contemplación',
-        meaning: 'Ver ampliamente; ofrecer con sinceridad',
-        judgment: 'Guan. La ablución se ha realizado, pero no las ofrendas sacrificiales. Se muestra fe y reverencia.',
-        image: 'El viento se mueve sobre la tierra formando Guan. Los reyes antiguos así contemplaban el mundo y establecían enseñanzas.',
-      },
-      'es-zhouyi': {
-        name: 'La Contemplación',
-        meaning: 'La contemplación, observar, ser modelo',
-        judgment: 'La ablución se ha hecho, pero no la ofrenda. Con sinceridad, solemne reverencia.',
-        image: 'El viento recorre la tierra: la Contemplación. Los antiguos reyes visitaban las regiones, observaban al pueblo y establecían las enseñanzas.',
-      },
-      'zh-zhouyi': {
-        name: '觀',
-        meaning: '觀看，觀察，成為榜樣',
-        judgment: '盥而不薦，有孚顒若。',
-        image: '風行地上，觀。先王以省方觀民設教。',
-      },
-    },
   },
   23: {
     number: 23,
     chinese: '剝',
     pinyin: 'bō',
     unicode: '䷖',
-    binary: '100000',
+    binary: '000001',
     upperTrigram: 'mountain',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Splitting Apart',
-        meaning: 'Decay, stripping away, deterioration',
-        judgment: 'Splitting Apart. It does not further one to go anywhere.',
-        image: 'The mountain rests on the earth: the image of Splitting Apart. Thus those above can ensure their position only by giving generously to those below.',
-      },
-      'en-wilhelm': {
-        name: 'Splitting Apart',
-        meaning: 'Decay, stripping away, deterioration',
-        judgment: 'Splitting Apart. It does not further one to go anywhere.',
-        image: 'The mountain rests on the earth: the image of Splitting Apart. Thus those above can ensure their position only by giving generously to those below.',
-      },
-      'en-legge': {
-        name: 'Decay',
-        meaning: 'Splitting and stripping away; gradual separation',
-        judgment: 'Bo. It is not advantageous to have anywhere to go.',
-        image: 'The mountain attached to the earth forms Bo. Superior men consolidate the state and strengthen the bonds among the people.',
-      },
-      'es-wilhelm': {
-        name: 'La Desintegración',
-        meaning: 'Decadencia, despojo, deterioro',
-        judgment: 'Desintegración. No es propicio ir a ningún lugar.',
-        image: 'La montaña descansa sobre la tierra: la imagen de la Desintegración. Así los de arriba solo pueden asegurar su posición dando generosamente a los de abajo.',
-      },
-      'es-legge': {
-        name: 'La Decadencia',
-        meaning: 'División y despojo; separación gradual',
-        judgment: 'Bo. No es propicio tener adónde ir.',
-        image: 'La montaña adherida a la tierra forma Bo. Los hombres superiores consolidan el estado y fortalecen los lazos entre el pueblo.',
-      },
-      'es-zhouyi': {
-        name: 'La Desintegración',
-        meaning: 'La desintegración, desprendimiento, decadencia',
-        judgment: 'No propicio emprender nada.',
-        image: 'La montaña se adhiere a la tierra: la Desintegración. Los de arriba con generosidad hacia abajo aseguran la morada.',
-      },
-      'zh-zhouyi': {
-        name: '剝',
-        meaning: '剝落，剝奪，衰敗',
-        judgment: '不利有攸往。',
-        image: '山附於地，剝。上以厚下安宅。',
-      },
-    },
   },
   24: {
     number: 24,
     chinese: '復',
     pinyin: 'fù',
     unicode: '䷗',
-    binary: '000001',
+    binary: '100000',
     upperTrigram: 'earth',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Return',
-        meaning: 'The turning point, renewal, coming back',
-        judgment: 'Return. Success. Going out and coming in without error. Friends come without blame. To and fro goes the way.',
-        image: 'Thunder within the earth: the image of the Turning Point. Thus the kings of antiquity closed the passes at the time of solstice.',
-      },
-      'en-wilhelm': {
-        name: 'Return',
-        meaning: 'The turning point, renewal, coming back',
-        judgment: 'Return. Success. Going out and coming in without error. Friends come without blame. To and fro goes the way.',
-        image: 'Thunder within the earth: the image of the Turning Point. Thus the kings of antiquity closed the passes at the time of solstice.',
-      },
-      'en-legge': {
-        name: 'Return',
-        meaning: 'Returning; the turning point of the year',
-        judgment: 'Fu. There is going out and coming in without error. Friends come with no mistake. To and fro is the way.',
-        image: 'Thunder in the earth forms Fu. The ancient kings closed the doors and passages at the time of winter solstice.',
-      },
-      'es-wilhelm': {
-        name: 'El Retorno',
-        meaning: 'El punto de inflexión, renovación, volver',
-        judgment: 'Retorno. Éxito. Salir y entrar sin error. Los amigos vienen sin culpa. El camino va y viene.',
-        image: 'Trueno dentro de la tierra: la imagen del Punto de Inflexión. Así los reyes de la antigüedad cerraban los pasos en el solsticio.',
-      },
-      'es-legge': {
-        name: 'El Retorno',
-        meaning: 'Regresando; el punto de inflexión del año',
-        judgment: 'Fu. Hay salida y entrada sin error. Los amigos vienen sin equivocación. Ir y venir es el camino.',
-        image: 'Trueno en la tierra forma Fu. Los reyes antiguos cerraban puertas y pasajes en el solsticio de invierno.',
-      },
-      'es-zhouyi': {
-        name: 'El Retorno',
-        meaning: 'El retorno, renovación, punto de inflexión',
-        judgment: 'Éxito. Salir y entrar sin aflicción. Los amigos vienen sin culpa.',
-        image: 'Trueno en la tierra: el Retorno. Los antiguos reyes en el solsticio cerraban los pasos.',
-      },
-      'zh-zhouyi': {
-        name: '復',
-        meaning: '轉折點，更新，返回',
-        judgment: '亨。出入無疾，朋來無咎。',
-        image: '雷在地中，復。先王以至日閉關。',
-      },
-    },
   },
   33: {
     number: 33,
     chinese: '遯',
     pinyin: 'dùn',
     unicode: '䷠',
-    binary: '111100',
+    binary: '001111',
     upperTrigram: 'heaven',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Retreat',
-        meaning: 'Withdrawal, yielding, strategic retreat',
-        judgment: 'Retreat. Success. In what is small, perseverance furthers.',
-        image: 'Mountain under heaven: the image of Retreat. Thus the superior man keeps the inferior at a distance, not angrily but with reserve.',
-      },
-      'en-wilhelm': {
-        name: 'Retreat',
-        meaning: 'Withdrawal, yielding, strategic retreat',
-        judgment: 'Retreat. Success. In what is small, perseverance furthers.',
-        image: 'Mountain under heaven: the image of Retreat. Thus the superior man keeps the inferior at a distance, not angrily but with reserve.',
-      },
-      'en-legge': {
-        name: 'Retreat',
-        meaning: 'Withdrawing in wise season',
-        judgment: 'Dun. Prosperous progress. In small matters, to be firm and correct is advantageous.',
-        image: 'Heaven under the mountain forms Dun. The superior man keeps the mean man at a distance with dignity and reserve.',
-      },
-      'es-wilhelm': {
-        name: 'La Retirada',
-        meaning: 'Retiro, ceder, retirada estratégica',
-        judgment: 'Retirada. Éxito. En lo pequeño, la perseverancia propicia.',
-        image: 'Montaña bajo el cielo: la imagen de la Retirada. Así el hombre superior mantiene al inferior a distancia, no con ira sino con reserva.',
-      },
-      'es-legge': {
-        name: 'La Retirada',
-        meaning: 'Retirarse en momento oportuno',
-        judgment: 'Dun. Progreso próspero. En asuntos pequeños, ser firme y correcto es propicio.',
-        image: 'Cielo bajo la montaña forma Dun. El hombre superior mantiene al hombre inferior a distancia con dignidad y reserva.',
-      },
-      'es-zhouyi': {
-        name: 'La Retirada',
-        meaning: 'La retirada, retirarse, ocultarse',
-        judgment: 'Éxito. En lo pequeño, propicio mediante la perseverancia.',
-        image: 'Bajo el cielo hay una montaña: la Retirada. El hombre superior se aleja del hombre inferior.',
-      },
-      'zh-zhouyi': {
-        name: '遯',
-        meaning: '退避，讓步，戰略撤退',
-        judgment: '亨，小利貞。',
-        image: '天下有山，遯。君子以遠小人。',
-      },
-    },
   },
   34: {
     number: 34,
     chinese: '大壯',
     pinyin: 'dà zhuàng',
     unicode: '䷡',
-    binary: '001111',
+    binary: '111100',
     upperTrigram: 'thunder',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'The Power of the Great',
-        meaning: 'Great strength, vigor, powerful advance',
-        judgment: 'The Power of the Great. Perseverance furthers.',
-        image: 'Thunder in heaven above: the image of the Power of the Great. Thus the superior man does not tread upon paths that do not accord with established order.',
-      },
-      'en-wilhelm': {
-        name: 'The Power of the Great',
-        meaning: 'Great strength, vigor, powerful advance',
-        judgment: 'The Power of the Great. Perseverance furthers.',
-        image: 'Thunder in heaven above: the image of the Power of the Great. Thus the superior man does not tread upon paths that do not accord with established order.',
-      },
-      'en-legge': {
-        name: 'Great Strength',
-        meaning: 'The vigor of great strength in its proper place',
-        judgment: 'Da Zhuang. To be firm and correct is advantageous.',
-        image: 'Thunder in heaven above forms Da Zhuang. The superior man does not walk upon paths that conflict with established order.',
-      },
-      'es-wilhelm': {
-        name: 'El Poder de lo Grande',
-        meaning: 'Gran fuerza, vigor, avance poderoso',
-        judgment: 'El Poder de lo Grande. La perseverancia propicia.',
-        image: 'Trueno en el cielo: la imagen del Poder de lo Grande. Así el hombre superior no pisa senderos que no concuerdan con el orden establecido.',
-      },
-      'es-legge': {
-        name: 'La Gran Fuerza',
-        meaning: 'El vigor de la gran fuerza en su lugar apropiado',
-        judgment: 'Da Zhuang. Ser firme y correcto es propicio.',
-        image: 'Trueno en el cielo arriba forma Da Zhuang. El hombre superior no camina por senderos que entran en conflicto con el orden establecido.',
-      },
-      'es-zhouyi': {
-        name: 'El Poder de lo Grande',
-        meaning: 'El poder de lo grande, gran fuerza, vigor',
-        judgment: 'Propicio mediante la perseverancia.',
-        image: 'Trueno en el cielo: el Poder de lo Grande. El hombre superior no pisa lo que no es correcto.',
-      },
-      'zh-zhouyi': {
-        name: '大壯',
-        meaning: '大力量，活力，強大前進',
-        judgment: '利貞。',
-        image: '雷在天上，大壯。君子以非禮弗履。',
-      },
-    },
   },
   43: {
     number: 43,
     chinese: '夬',
     pinyin: 'guài',
     unicode: '䷪',
-    binary: '011111',
+    binary: '111110',
     upperTrigram: 'lake',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'Breakthrough',
-        meaning: 'Resoluteness, determination, breaking through',
-        judgment: 'Breakthrough. One must resolutely make the matter known at the court of the king. It must be announced truthfully.',
-        image: 'The lake has risen up to heaven: the image of Breakthrough. Thus the superior man dispenses riches downward and refrains from resting on his virtue.',
-      },
-      'en-wilhelm': {
-        name: 'Breakthrough',
-        meaning: 'Resoluteness, determination, breaking through',
-        judgment: 'Breakthrough. One must resolutely make the matter known at the court of the king. It must be announced truthfully.',
-        image: 'The lake has risen up to heaven: the image of Breakthrough. Thus the superior man dispenses riches downward and refrains from resting on his virtue.',
-      },
-      'en-legge': {
-        name: 'Resolution',
-        meaning: 'Breaking through with determination and sincerity',
-        judgment: 'Guai. One must make the matter known in the palace of the king with perfect sincerity. There is danger.',
-        image: 'The marsh water rising to heaven forms Guai. The superior man dispenses his favors downward without holding them back.',
-      },
-      'es-wilhelm': {
-        name: 'La Resolución',
-        meaning: 'Determinación, decisión, atravesar',
-        judgment: 'Resolución. Uno debe hacer saber resueltamente el asunto en la corte del rey. Debe anunciarse con veracidad.',
-        image: 'El lago se ha elevado al cielo: la imagen de la Resolución. Así el hombre superior dispensa riquezas hacia abajo y se abstiene de descansar en su virtud.',
-      },
-      'es-legge': {
-        name: 'La Resolución',
-        meaning: 'Atravesar con determinación y sinceridad',
-        judgment: 'Guai. Se debe dar a conocer el asunto en el palacio del rey con perfecta sinceridad. Hay peligro.',
-        image: 'El agua del pantano elevándose al cielo forma Guai. El hombre superior dispensa sus favores hacia abajo sin retenerlos.',
-      },
-      'es-zhouyi': {
-        name: 'La Resolución',
-        meaning: 'La resolucion, irrupcion, avance decisivo',
-        judgment: 'Proclamar en la corte del rey. Con sinceridad clamar: hay peligro.',
-        image: 'El lago asciende al cielo: la Resolucion. El hombre superior distribuye beneficios hacia abajo.',
-      },
-      'zh-zhouyi': {
-        name: '夬',
-        meaning: '決斷，決心，突破',
-        judgment: '揚于王庭，孚號有厲。',
-        image: '澤上於天，夬。君子以施祿及下。',
-      },
-    },
   },
   44: {
     number: 44,
     chinese: '姤',
     pinyin: 'gòu',
     unicode: '䷫',
-    binary: '111110',
+    binary: '011111',
     upperTrigram: 'heaven',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'Coming to Meet',
-        meaning: 'Encounter, meeting, temptation',
-        judgment: 'Coming to Meet. The maiden is powerful. One should not marry such a maiden.',
-        image: 'Under heaven, wind: the image of Coming to Meet. Thus does the prince act when disseminating his commands and proclaiming them to the four quarters of heaven.',
-      },
-      'en-wilhelm': {
-        name: 'Coming to Meet',
-        meaning: 'Encounter, meeting, temptation',
-        judgment: 'Coming to Meet. The maiden is powerful. One should not marry such a maiden.',
-        image: 'Under heaven, wind: the image of Coming to Meet. Thus does the prince act when disseminating his commands and proclaiming them to the four quarters of heaven.',
-      },
-      'en-legge': {
-        name: 'Encounter',
-        meaning: 'Meeting; a female influence becoming predominant',
-        judgment: 'Gou. There is a young girl; one should not marry her.',
-        image: 'Wind below heaven forms Gou. The prince issues his commands and they reach all regions.',
-      },
-      'es-wilhelm': {
-        name: 'El Ir al Encuentro',
-        meaning: 'Encuentro, reunión, tentación',
-        judgment: 'Ir al Encuentro. La doncella es poderosa. No se debe desposar a tal doncella.',
-        image: 'Bajo el cielo, viento: la imagen del Ir al Encuentro. Así actúa el príncipe al diseminar sus mandatos y proclamarlos a los cuatro rincones del cielo.',
-      },
-      'es-legge': {
-        name: 'El Encuentro',
-        meaning: 'Encuentro; una influencia femenina que se vuelve predominante',
-        judgment: 'Gou. Hay una joven; no se debe desposarla.',
-        image: 'Viento bajo el cielo forma Gou. El príncipe emite sus mandatos y estos llegan a todas las regiones.',
-      },
-      'es-zhouyi': {
-        name: 'El Ir al Encuentro',
-        meaning: 'El encuentro, venir al encuentro, tentacion',
-        judgment: 'La mujer es poderosa. No se debe tomar esposa.',
-        image: 'Bajo el cielo hay viento: el Encuentro. El soberano difunde sus mandatos a los cuatro puntos cardinales.',
-      },
-      'zh-zhouyi': {
-        name: '姤',
-        meaning: '遇見，會面，誘惑',
-        judgment: '女壯，勿用取女。',
-        image: '天下有風，姤。后以施命誥四方。',
-      },
-    },
   },
   3: {
     number: 3,
     chinese: '屯',
     pinyin: 'zhūn',
     unicode: '䷂',
-    binary: '010001',
+    binary: '100010',
     upperTrigram: 'water',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Difficulty at the Beginning',
-        meaning: 'Initial struggle, birth pangs, difficulty',
-        judgment: 'Difficulty at the Beginning works supreme success, furthering through perseverance. Do not appoint frontmen. Further through the appointment of followers.',
-        image: 'Thunder and rain stir; clouds and thunder roll: the image of Difficulty at the Beginning. Thus the superior man brings order to the confused state of affairs.',
-      },
-      'en-wilhelm': {
-        name: 'Difficulty at the Beginning',
-        meaning: 'Initial struggle, birth pangs, difficulty',
-        judgment: 'Difficulty at the Beginning works supreme success, furthering through perseverance. Do not appoint frontmen. Further through the appointment of followers.',
-        image: 'Thunder and rain stir; clouds and thunder roll: the image of Difficulty at the Beginning. Thus the superior man brings order to the confused state of affairs.',
-      },
-      'en-legge': {
-        name: 'Initial Difficulty',
-        meaning: 'Difficulty and struggle at the outset',
-        judgment: 'Zhun. It is advantageous to be firm and correct, and not to have (any) place to go. It is advantageous to appoint feudal princes.',
-        image: 'Clouds and thunder form Zhun. The superior man in this way refines the outward aspect of his nature.',
-      },
-      'es-wilhelm': {
-        name: 'La Dificultad Inicial',
-        meaning: 'Lucha inicial, dolores de parto, dificultad',
-        judgment: 'La Dificultad Inicial obra éxito supremo, propiciando mediante la perseverancia. No se debe emprender nada. Propicia instalar ayudantes.',
-        image: 'Trueno y lluvia se agitan; nubes y trueno ruedan: la imagen de la Dificultad Inicial. Así el hombre superior ordena el estado confuso.',
-      },
-      'es-legge': {
-        name: 'La Dificultad Inicial',
-        meaning: 'Dificultad y lucha al principio',
-        judgment: 'Zhun. Es propicio ser firme y correcto, y no tener lugar adónde ir. Es propicio designar príncipes feudales.',
-        image: 'Nubes y trueno forman Zhun. El hombre superior así refina el aspecto exterior de su naturaleza.',
-      },
-      'es-zhouyi': {
-        name: 'La Dificultad Inicial',
-        meaning: 'Dificultad inicial, brote naciente, comienzo arduo',
-        judgment: 'Sublime éxito, propicio mediante la perseverancia. No emprender nada. Propicio establecer ayudantes.',
-        image: 'Nubes y trueno: la Dificultad Inicial. El hombre superior pone orden en los asuntos.',
-      },
-      'zh-zhouyi': {
-        name: '屯',
-        meaning: '初期困難，分娩陣痛，困難',
-        judgment: '元亨，利貞，勿用有攸往，利建侯。',
-        image: '雲雷，屯。君子以經綸。',
-      },
-    },
   },
   4: {
     number: 4,
     chinese: '蒙',
     pinyin: 'méng',
     unicode: '䷃',
-    binary: '100010',
+    binary: '010001',
     upperTrigram: 'mountain',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Youthful Folly',
-        meaning: 'Ignorance, youth, inexperience',
-        judgment: 'Youthful Folly has success. It is not I who seeks the young fool; the young fool seeks me. At the first oracle I inform him. If he asks two or three times, it is importunity. If he importunes, I give him no information. Perseverance furthers.',
-        image: 'A spring issuing from the mountain: the image of Youthful Folly. Thus the superior man develops his character by thoroughness in all that he does.',
-      },
-      'en-wilhelm': {
-        name: 'Youthful Folly',
-        meaning: 'Ignorance, youth, inexperience',
-        judgment: 'Youthful Folly has success. It is not I who seeks the young fool; the young fool seeks me. At the first oracle I inform him. If he asks two or three times, it is importunity. If he importunes, I give him no information. Perseverance furthers.',
-        image: 'A spring issuing from the mountain: the image of Youthful Folly. Thus the superior man develops his character by thoroughness in all that he does.',
-      },
-      'en-legge': {
-        name: 'Youthful Inexperience',
-        meaning: 'Youth and inexperience, seeking guidance',
-        judgment: 'Meng. It is advantageous that I should not seek the youthful and inexperienced, but that he should seek me. At the first application I inform him of his doubts.',
-        image: 'The spring below the mountain forms Meng. The superior man in this way cultivates his character.',
-      },
-      'es-wilhelm': {
-        name: 'La Insensatez Juvenil',
-        meaning: 'Ignorancia, juventud, inexperiencia',
-        judgment: 'La Insensatez Juvenil tiene éxito. No soy yo quien busca al joven insensato; el joven insensato me busca. La perseverancia propicia.',
-        image: 'Un manantial que brota de la montaña: la imagen de la Insensatez Juvenil. Así el hombre superior desarrolla su carácter mediante la minuciosidad en todo lo que hace.',
-      },
-      'es-legge': {
-        name: 'La Inexperiencia Juvenil',
-        meaning: 'Juventud e inexperiencia, buscando orientación',
-        judgment: 'Meng. Es propicio que no sea yo quien busque al joven e inexperto, sino que él me busque. En la primera consulta le informo de sus dudas.',
-        image: 'El manantial bajo la montaña forma Meng. El hombre superior así cultiva su carácter.',
-      },
-      'es-zhouyi': {
-        name: 'La Insensatez Juvenil',
-        meaning: 'Insensatez juvenil, inexperiencia, oscuridad inicial',
-        judgment: 'Éxito. No soy yo quien busca al joven insensato; el joven insensato me busca. En la primera consulta informo; si pregunta dos o tres veces, es irreverencia. Si es irreverente, no informo. Propicio mediante la perseverancia.',
-        image: 'Bajo la montaña brota un manantial: la Insensatez Juvenil. El hombre superior con acción decidida cultiva la virtud.',
-      },
-      'zh-zhouyi': {
-        name: '蒙',
-        meaning: '無知，青年，缺乏經驗',
-        judgment: '亨。匪我求童蒙，童蒙求我。初筮告，再三瀆，瀆則不告，利貞。',
-        image: '山下出泉，蒙。君子以果行育德。',
-      },
-    },
   },
   5: {
     number: 5,
     chinese: '需',
     pinyin: 'xū',
     unicode: '䷄',
-    binary: '010111',
+    binary: '111010',
     upperTrigram: 'water',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'Waiting',
-        meaning: 'Nourishment, patience, favorable time',
-        judgment: 'Waiting. If you are sincere, you have light and success. Perseverance brings good fortune. Going to meet the great man brings good fortune.',
-        image: 'Clouds rise up to heaven: the image of Waiting. Thus the superior man eats and drinks, rests and finds recreation.',
-      },
-      'en-wilhelm': {
-        name: 'Waiting',
-        meaning: 'Nourishment, patience, favorable time',
-        judgment: 'Waiting. If you are sincere, you have light and success. Perseverance brings good fortune. Going to meet the great man brings good fortune.',
-        image: 'Clouds rise up to heaven: the image of Waiting. Thus the superior man eats and drinks, rests and finds recreation.',
-      },
-      'en-legge': {
-        name: 'Waiting',
-        meaning: 'Peaceful waiting in faith',
-        judgment: 'Xu. With the sincerity that is sure to be there, there will be light, and decision, and good fortune. Going to cross the great water brings good fortune.',
-        image: 'Clouds rising toward heaven form Xu. The superior man at his leisure eats and drinks and is of good cheer.',
-      },
-      'es-wilhelm': {
-        name: 'La Espera',
-        meaning: 'Nutrición, paciencia, tiempo favorable',
-        judgment: 'Espera. Si eres sincero, tienes luz y éxito. La perseverancia trae buena fortuna. Ir al encuentro del gran hombre trae buena fortuna.',
-        image: 'Las nubes se elevan hacia el cielo: la imagen de la Espera. Así el hombre superior come y bebe, descansa y se divierte.',
-      },
-      'es-legge': {
-        name: 'La Espera',
-        meaning: 'Espera pacífica con fe',
-        judgment: 'Xu. Con la sinceridad que seguramente estará allí, habrá luz, decisión y buena fortuna. Ir a cruzar la gran agua trae buena fortuna.',
-        image: 'Nubes elevándose hacia el cielo forman Xu. El hombre superior en su ocio come y bebe y está de buen ánimo.',
-      },
-      'es-zhouyi': {
-        name: 'La Espera',
-        meaning: 'La espera, aguardar, nutrición',
-        judgment: 'Con sinceridad, brillante éxito. La perseverancia trae buena fortuna. Propicio cruzar la gran agua.',
-        image: 'Nubes ascienden al cielo: la Espera. El hombre superior come, bebe y se regocija.',
-      },
-      'zh-zhouyi': {
-        name: '需',
-        meaning: '滋養，耐心，有利時期',
-        judgment: '有孚，光亨，貞吉，利涉大川。',
-        image: '雲上於天，需。君子以飲食宴樂。',
-      },
-    },
   },
   6: {
     number: 6,
     chinese: '訟',
     pinyin: 'sòng',
     unicode: '䷅',
-    binary: '111010',
+    binary: '010111',
     upperTrigram: 'heaven',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Conflict',
-        meaning: 'Litigation, discord, striving',
-        judgment: 'Conflict. You are sincere and are obstructed. A cautious halt halfway brings good fortune. Going through to the end brings misfortune. It furthers one to see the great man. It does not further one to cross the great water.',
-        image: 'Heaven and water go their opposite ways: the image of Conflict. Thus in all his transactions the superior man carefully considers the beginning.',
-      },
-      'en-wilhelm': {
-        name: 'Conflict',
-        meaning: 'Litigation, discord, striving',
-        judgment: 'Conflict. You are sincere and are obstructed. A cautious halt halfway brings good fortune. Going through to the end brings misfortune. It furthers one to see the great man. It does not further one to cross the great water.',
-        image: 'Heaven and water go their opposite ways: the image of Conflict. Thus in all his transactions the superior man carefully considers the beginning.',
-      },
-      'en-legge': {
-        name: 'Conflict',
-        meaning: 'Strife and contention',
-        judgment: 'Song. We have sincerity and confidence in us, but we are stopped by lack of faith in others. If in the midst of the difficulty we remain firm and correct, there is good fortune in the end.',
-        image: 'Heaven and water going in opposite directions form Song. The superior man in his deliberations must weigh carefully.',
-      },
-      'es-wilhelm': {
-        name: 'El Conflicto',
-        meaning: 'Litigio, discordia, contienda',
-        judgment: 'Conflicto. Eres sincero pero estás obstruido. Una parada cautelosa a mitad del camino trae buena fortuna. Ir hasta el final trae desgracia.',
-        image: 'Cielo y agua van en direcciones opuestas: la imagen del Conflicto. Así el hombre superior considera cuidadosamente el comienzo.',
-      },
-      'es-legge': {
-        name: 'El Conflicto',
-        meaning: 'Contienda y disputa',
-        judgment: 'Song. Tenemos sinceridad y confianza en nosotros, pero estamos detenidos por falta de fe en otros. Si en medio de la dificultad permanecemos firmes y correctos, hay buena fortuna al final.',
-        image: 'Cielo y agua yendo en direcciones opuestas forman Song. El hombre superior en sus deliberaciones debe sopesar cuidadosamente.',
-      },
-      'es-zhouyi': {
-        name: 'El Conflicto',
-        meaning: 'Conflicto, litigio, contienda',
-        judgment: 'Con sinceridad obstruida, cautela. Buena fortuna en el medio. Adversidad al final. Propicio ver al gran hombre. No propicio cruzar la gran agua.',
-        image: 'Cielo y agua van en direcciones opuestas: el Conflicto. El hombre superior en sus asuntos planea desde el comienzo.',
-      },
-      'zh-zhouyi': {
-        name: '訟',
-        meaning: '訴訟，不和，競爭',
-        judgment: '有孚窒惕，中吉。終凶。利見大人，不利涉大川。',
-        image: '天與水違行，訟。君子以作事謀始。',
-      },
-    },
   },
   7: {
     number: 7,
     chinese: '師',
     pinyin: 'shī',
     unicode: '䷆',
-    binary: '000010',
+    binary: '010000',
     upperTrigram: 'earth',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'The Army',
-        meaning: 'Troops, military discipline, legality',
-        judgment: 'The Army. The army needs perseverance and a strong man. Good fortune without blame.',
-        image: 'In the middle of the earth is water: the image of the Army. Thus the superior man increases his masses by generosity toward the people.',
-      },
-      'en-wilhelm': {
-        name: 'The Army',
-        meaning: 'Troops, military discipline, legality',
-        judgment: 'The Army. The army needs perseverance and a strong man. Good fortune without blame.',
-        image: 'In the middle of the earth is water: the image of the Army. Thus the superior man increases his masses by generosity toward the people.',
-      },
-      'en-legge': {
-        name: 'The Army',
-        meaning: 'An organized force, discipline and order',
-        judgment: 'Shi. The army requires steadiness and good fortune comes to the leader without blame.',
-        image: 'Water in the earth forms the Army. The superior man thus cheers the multitude.',
-      },
-      'es-wilhelm': {
-        name: 'El Ejército',
-        meaning: 'Tropas, disciplina militar, legalidad',
-        judgment: 'El Ejército. El ejército necesita perseverancia y un hombre fuerte. Buena fortuna sin culpa.',
-        image: 'En medio de la tierra hay agua: la imagen del Ejército. Así el hombre superior aumenta sus masas con generosidad hacia el pueblo.',
-      },
-      'es-legge': {
-        name: 'El Ejército',
-        meaning: 'Una fuerza organizada, disciplina y orden',
-        judgment: 'Shi. El ejército requiere firmeza y buena fortuna llega al líder sin culpa.',
-        image: 'Agua en la tierra forma el Ejército. El hombre superior así anima a la multitud.',
-      },
-      'es-zhouyi': {
-        name: 'El Ejército',
-        meaning: 'El ejército, las tropas, la multitud',
-        judgment: 'El ejército con perseverancia. Un hombre maduro, buena fortuna. Sin culpa.',
-        image: 'En medio de la tierra hay agua: el Ejército. El hombre superior acoge al pueblo y nutre a la multitud.',
-      },
-      'zh-zhouyi': {
-        name: '師',
-        meaning: '軍隊，軍事紀律，合法性',
-        judgment: '師貞，丈人吉，無咎。',
-        image: '地中有水，師。君子以容民畜眾。',
-      },
-    },
   },
   8: {
     number: 8,
     chinese: '比',
     pinyin: 'bǐ',
     unicode: '䷇',
-    binary: '010000',
+    binary: '000010',
     upperTrigram: 'water',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Holding Together',
-        meaning: 'Union, alliance, loyalty',
-        judgment: 'Holding Together brings good fortune. But if the wrong man holds the gathering, nothing serves to further. If some are uncertain, repeatedly calling them brings good fortune.',
-        image: 'Over the earth is water: the image of Holding Together. Thus the kings of antiquity bestowed fiefs on the princes of the blood and made all of them members of the family.',
-      },
-      'en-wilhelm': {
-        name: 'Holding Together',
-        meaning: 'Union, alliance, loyalty',
-        judgment: 'Holding Together brings good fortune. But if the wrong man holds the gathering, nothing serves to further. If some are uncertain, repeatedly calling them brings good fortune.',
-        image: 'Over the earth is water: the image of Holding Together. Thus the kings of antiquity bestowed fiefs on the princes of the blood and made all of them members of the family.',
-      },
-      'en-legge': {
-        name: 'Union',
-        meaning: 'Binding together for common purpose',
-        judgment: 'Bi. It brings good fortune. But examine whether the union is based on what is true.',
-        image: 'Water on the earth forms Bi. The ancient kings thus established the princes as ministers of the state.',
-      },
-      'es-wilhelm': {
-        name: 'La Unión',
-        meaning: 'Unión, alianza, lealtad',
-        judgment: 'Unión trae buena fortuna. Pero si el hombre equivocado sostiene la reunión, nada sirve para avanzar.',
-        image: 'Sobre la tierra hay agua: la imagen de la Unión. Así los reyes de la antigüedad otorgaban feudos a los príncipes.',
-      },
-      'es-legge': {
-        name: 'La Unión',
-        meaning: 'Unirse para un propósito común',
-        judgment: 'Bi. Trae buena fortuna. Pero examine si la unión está basada en lo verdadero.',
-        image: 'Agua sobre la tierra forma Bi. Los reyes antiguos así establecieron a los príncipes como ministros del estado.',
-      },
-      'es-zhouyi': {
-        name: 'La Unión',
-        meaning: 'La unión, solidaridad, alianza',
-        judgment: 'Buena fortuna. Examina el oráculo: sublime, duradera perseverancia. Sin culpa. Los inquietos vienen. Para el rezagado, adversidad.',
-        image: 'Agua sobre la tierra: la Unión. Los antiguos reyes establecieron miríadas de estados y se aliaron con los señores feudales.',
-      },
-      'zh-zhouyi': {
-        name: '比',
-        meaning: '團結，聯盟，忠誠',
-        judgment: '吉。原筮元永貞，無咎。不寧方來，後夫凶。',
-        image: '水上於地，比。先王以建萬國，親諸侯。',
-      },
-    },
   },
   9: {
     number: 9,
     chinese: '小畜',
     pinyin: 'xiǎo chù',
     unicode: '䷈',
-    binary: '110111',
+    binary: '111011',
     upperTrigram: 'wind',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'The Taming Power of the Small',
-        meaning: 'Restraint, accumulation, subtle influence',
-        judgment: 'The Taming Power of the Small has success. Dense clouds, no rain from our western region.',
-        image: 'Wind blows over heaven: the image of the Taming Power of the Small. Thus the superior man refines the outward aspect of his nature.',
-      },
-      'en-wilhelm': {
-        name: 'The Taming Power of the Small',
-        meaning: 'Restraint, accumulation, subtle influence',
-        judgment: 'The Taming Power of the Small has success. Dense clouds, no rain from our western region.',
-        image: 'Wind blows over heaven: the image of the Taming Power of the Small. Thus the superior man refines the outward aspect of his nature.',
-      },
-      'en-legge': {
-        name: 'Small Restraint',
-        meaning: 'The restraining power of small things',
-        judgment: 'Xiao Chu. It brings good fortune. Dense clouds but no rain come from the boundary of our western territory.',
-        image: 'Wind moving along heaven forms Xiao Chu. The superior man thereby refines the outward aspect of his nature.',
-      },
-      'es-wilhelm': {
-        name: 'El Poder Domesticador de lo Pequeño',
-        meaning: 'Restricción, acumulación, influencia sutil',
-        judgment: 'El Poder Domesticador de lo Pequeño tiene éxito. Nubes densas, sin lluvia de nuestra región occidental.',
-        image: 'El viento sopla sobre el cielo: la imagen del Poder Domesticador de lo Pequeño. Así el hombre superior refina el aspecto exterior de su naturaleza.',
-      },
-      'es-legge': {
-        name: 'La Pequeña Restricción',
-        meaning: 'El poder restrictivo de las cosas pequeñas',
-        judgment: 'Xiao Chu. Trae buena fortuna. Nubes densas pero sin lluvia vienen del límite de nuestro territorio occidental.',
-        image: 'El viento moviéndose por el cielo forma Xiao Chu. El hombre superior así refina el aspecto exterior de su naturaleza.',
-      },
-      'es-zhouyi': {
-        name: 'El Poder Domesticador de lo Pequeño',
-        meaning: 'El poder domesticador de lo pequeño, pequeña acumulación',
-        judgment: 'Éxito. Nubes densas sin lluvia desde nuestra región occidental.',
-        image: 'El viento recorre el cielo: el Poder Domesticador de lo Pequeño. El hombre superior cultiva las virtudes de la cultura.',
-      },
-      'zh-zhouyi': {
-        name: '小畜',
-        meaning: '馴服，積累，微妙影響',
-        judgment: '亨。密雲不雨，自我西郊。',
-        image: '風行於天，小畜。君子以懿文德。',
-      },
-    },
   },
   10: {
     number: 10,
     chinese: '履',
     pinyin: 'lǚ',
     unicode: '䷉',
-    binary: '111011',
+    binary: '110111',
     upperTrigram: 'heaven',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Treading',
-        meaning: 'Walking, conduct, propriety',
-        judgment: 'Treading. Treading upon the tail of the tiger. It does not bite the man. Success.',
-        image: 'Heaven above, the lake below: the image of Treading. Thus the superior man discriminates between high and low, and thereby fortifies the thinking of the people.',
-      },
-      'en-wilhelm': {
-        name: 'Treading',
-        meaning: 'Walking, conduct, propriety',
-        judgment: 'Treading. Treading upon the tail of the tiger. It does not bite the man. Success.',
-        image: 'Heaven above, the lake below: the image of Treading. Thus the superior man discriminates between high and low, and thereby fortifies the thinking of the people.',
-      },
-      'en-legge': {
-        name: 'Treading Respectfully',
-        meaning: 'Proper conduct and humility',
-        judgment: 'Lu. When one treads on the tail of a tiger and it does not bite him, there is good fortune.',
-        image: 'Heaven and the marsh form Lu. The superior man in this way draws a distinction between high and low.',
-      },
-      'es-wilhelm': {
-        name: 'El Paso Firme',
-        meaning: 'Caminar, conducta, propiedad',
-        judgment: 'Paso Firme. Pisar la cola del tigre. No muerde al hombre. Éxito.',
-        image: 'Cielo arriba, lago abajo: la imagen del Paso Firme. Así el hombre superior discrimina entre alto y bajo.',
-      },
-      'es-legge': {
-        name: 'El Pisar Respetuoso',
-        meaning: 'Conducta apropiada y humildad',
-        judgment: 'Lu. Cuando uno pisa la cola de un tigre y este no lo muerde, hay buena fortuna.',
-        image: 'Cielo y pantano forman Lu. El hombre superior así establece una distinción entre alto y bajo.',
-      },
-      'es-zhouyi': {
-        name: 'El Porte',
-        meaning: 'El porte, la conducta, pisar con cuidado',
-        judgment: 'Pisar la cola del tigre. No muerde al hombre. Éxito.',
-        image: 'Arriba el cielo, abajo el lago: el Porte. El hombre superior distingue entre lo alto y lo bajo, y establece la voluntad del pueblo.',
-      },
-      'zh-zhouyi': {
-        name: '履',
-        meaning: '行走，行為，禮儀',
-        judgment: '履虎尾，不咥人，亨。',
-        image: '上天下澤，履。君子以辨上下，定民志。',
-      },
-    },
   },
   13: {
     number: 13,
     chinese: '同人',
     pinyin: 'tóng rén',
     unicode: '䷌',
-    binary: '111101',
+    binary: '101111',
     upperTrigram: 'heaven',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'Fellowship with Men',
-        meaning: 'Community, unity, brotherhood',
-        judgment: 'Fellowship with Men in the open. Success. It furthers one to cross the great water. The perseverance of the superior man furthers.',
-        image: 'Heaven together with fire: the image of Fellowship with Men. Thus the superior man organizes the clans and makes distinctions between things.',
-      },
-      'en-wilhelm': {
-        name: 'Fellowship with Men',
-        meaning: 'Community, unity, brotherhood',
-        judgment: 'Fellowship with Men in the open. Success. It furthers one to cross the great water. The perseverance of the superior man furthers.',
-        image: 'Heaven together with fire: the image of Fellowship with Men. Thus the superior man organizes the clans and makes distinctions between things.',
-      },
-      'en-legge': {
-        name: 'Fellowship with Men',
-        meaning: 'Association with men in the open',
-        judgment: 'Tong Ren. In the open it brings good fortune. It is advantageous to cross the great water.',
-        image: 'Heaven and fire form Tong Ren. The superior man thus divides things into categories.',
-      },
-      'es-wilhelm': {
-        name: 'Comunidad con los Hombres',
-        meaning: 'Comunidad, unidad, hermandad',
-        judgment: 'Comunidad con los Hombres en lo abierto. Éxito. Propicia cruzar la gran agua.',
-        image: 'Cielo junto con fuego: la imagen de Comunidad con los Hombres. Así el hombre superior organiza los clanes.',
-      },
-      'es-legge': {
-        name: 'La Comunidad con los Hombres',
-        meaning: 'Asociación con hombres en lo abierto',
-        judgment: 'Tong Ren. En lo abierto trae buena fortuna. Es propicio cruzar la gran agua.',
-        image: 'Cielo y fuego forman Tong Ren. El hombre superior así divide las cosas en categorías.',
-      },
-      'es-zhouyi': {
-        name: 'La Comunidad con los Hombres',
-        meaning: 'Comunidad con los hombres, hermandad, unión',
-        judgment: 'Comunidad con los hombres en lo abierto. Éxito. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
-        image: 'Cielo y fuego: la Comunidad con los Hombres. El hombre superior organiza los clanes y distingue las cosas.',
-      },
-      'zh-zhouyi': {
-        name: '同人',
-        meaning: '社區，統一，兄弟情誼',
-        judgment: '同人於野，亨。利涉大川，利貞。',
-        image: '天與火，同人。君子以類族辨物。',
-      },
-    },
   },
   14: {
     number: 14,
     chinese: '大有',
     pinyin: 'dà yǒu',
     unicode: '䷍',
-    binary: '101111',
+    binary: '111101',
     upperTrigram: 'fire',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'Possession in Great Measure',
-        meaning: 'Great abundance, wealth, confidence',
-        judgment: 'Possession in Great Measure. Supreme success.',
-        image: 'Fire in heaven above: the image of Possession in Great Measure. Thus the superior man curbs evil and furthers good, and thereby obeys heaven.',
-      },
-      'en-wilhelm': {
-        name: 'Possession in Great Measure',
-        meaning: 'Great abundance, wealth, confidence',
-        judgment: 'Possession in Great Measure. Supreme success.',
-        image: 'Fire in heaven above: the image of Possession in Great Measure. Thus the superior man curbs evil and furthers good, and thereby obeys heaven.',
-      },
-      'en-legge': {
-        name: 'Great Possession',
-        meaning: 'Great possessions and high station',
-        judgment: 'Da You. Supreme good fortune.',
-        image: 'Fire rising toward heaven forms Da You. The superior man thereby checks evil and brings forth good.',
-      },
-      'es-wilhelm': {
-        name: 'Posesión en Gran Medida',
-        meaning: 'Gran abundancia, riqueza, confianza',
-        judgment: 'Posesión en Gran Medida. Éxito supremo.',
-        image: 'Fuego en el cielo arriba: la imagen de Posesión en Gran Medida. Así el hombre superior frena el mal y propicia el bien.',
-      },
-      'es-legge': {
-        name: 'La Gran Posesión',
-        meaning: 'Grandes posesiones y alta posición',
-        judgment: 'Da You. Suprema buena fortuna.',
-        image: 'Fuego elevándose hacia el cielo forma Da You. El hombre superior así frena el mal y manifiesta el bien.',
-      },
-      'es-zhouyi': {
-        name: 'La Gran Posesión',
-        meaning: 'La gran posesión, abundancia, prosperidad',
-        judgment: 'Sublime éxito.',
-        image: 'Fuego en lo alto del cielo: la Gran Posesión. El hombre superior reprime el mal y promueve el bien.',
-      },
-      'zh-zhouyi': {
-        name: '大有',
-        meaning: '大豐富，財富，信心',
-        judgment: '元亨。',
-        image: '火在天上，大有。君子以遏惡揚善。',
-      },
-    },
   },
   15: {
     number: 15,
     chinese: '謙',
     pinyin: 'qiān',
     unicode: '䷎',
-    binary: '000100',
+    binary: '001000',
     upperTrigram: 'earth',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Modesty',
-        meaning: 'Humility, restraint, yielding',
-        judgment: 'Modesty creates success. The superior man carries things to conclusion.',
-        image: 'Within the earth, a mountain: the image of Modesty. Thus the superior man reduces that which is too much and augments that which is too little.',
-      },
-      'en-wilhelm': {
-        name: 'Modesty',
-        meaning: 'Humility, restraint, yielding',
-        judgment: 'Modesty creates success. The superior man carries things to conclusion.',
-        image: 'Within the earth, a mountain: the image of Modesty. Thus the superior man reduces that which is too much and augments that which is too little.',
-      },
-      'en-legge': {
-        name: 'Modesty',
-        meaning: 'Modest self-restraint and yielding',
-        judgment: 'Qian. Modesty brings good fortune. The superior man brings his work to a conclusion.',
-        image: 'A mountain within the earth forms Qian. The superior man diminishes the many and increases the few.',
-      },
-      'es-wilhelm': {
-        name: 'La Modestia',
-        meaning: 'Humildad, restricción, cedencia',
-        judgment: 'Modestia crea éxito. El hombre superior lleva las cosas a conclusión.',
-        image: 'Dentro de la tierra, una montaña: la imagen de la Modestia. Así el hombre superior reduce lo excesivo y aumenta lo insuficiente.',
-      },
-      'es-legge': {
-        name: 'La Modestia',
-        meaning: 'Autocontrol modesto y cedencia',
-        judgment: 'Qian. La modestia trae buena fortuna. El hombre superior lleva su obra a conclusión.',
-        image: 'Una montaña dentro de la tierra forma Qian. El hombre superior disminuye lo mucho y aumenta lo poco.',
-      },
-      'es-zhouyi': {
-        name: 'La Modestia',
-        meaning: 'La modestia, humildad, contención',
-        judgment: 'Éxito. El hombre superior tiene buen final.',
-        image: 'En medio de la tierra hay una montaña: la Modestia. El hombre superior reduce lo excesivo y aumenta lo escaso.',
-      },
-      'zh-zhouyi': {
-        name: '謙',
-        meaning: '謙虛，節制，讓步',
-        judgment: '亨，君子有終。',
-        image: '地中有山，謙。君子以裒多益寡。',
-      },
-    },
   },
   16: {
     number: 16,
     chinese: '豫',
     pinyin: 'yù',
     unicode: '䷏',
-    binary: '001000',
+    binary: '000100',
     upperTrigram: 'thunder',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Enthusiasm',
-        meaning: 'Joy, readiness, harmony',
-        judgment: 'Enthusiasm. It furthers one to install feudal princes and set the army marching.',
-        image: 'Thunder in the earth: the image of Enthusiasm. Thus the ancient kings made music to promote harmony and offered it with reverence to the Supreme Being.',
-      },
-      'en-wilhelm': {
-        name: 'Enthusiasm',
-        meaning: 'Joy, readiness, harmony',
-        judgment: 'Enthusiasm. It furthers one to install feudal princes and set the army marching.',
-        image: 'Thunder in the earth: the image of Enthusiasm. Thus the ancient kings made music to promote harmony and offered it with reverence to the Supreme Being.',
-      },
-      'en-legge': {
-        name: 'Enthusiasm',
-        meaning: 'Harmony and pleasure in accord',
-        judgment: 'Yu. It is advantageous to set up feudal princes and put the army in motion.',
-        image: 'Thunder in the earth forms Yu. The ancient kings used the performance of music to celebrate their achievements and offered them to the divine.',
-      },
-      'es-wilhelm': {
-        name: 'El Entusiasmo',
-        meaning: 'Alegría, disposición, armonía',
-        judgment: 'Entusiasmo. Propicia instalar príncipes feudales y poner el ejército en marcha.',
-        image: 'Trueno en la tierra: la imagen del Entusiasmo. Así los reyes antiguos hicieron música para promover la armonía.',
-      },
-      'es-legge': {
-        name: 'El Entusiasmo',
-        meaning: 'Armonía y placer en acuerdo',
-        judgment: 'Yu. Es propicio establecer príncipes feudales y poner el ejército en movimiento.',
-        image: 'Trueno en la tierra forma Yu. Los reyes antiguos usaban la música para celebrar sus logros y los ofrecían a lo divino.',
-      },
-      'es-zhouyi': {
-        name: 'El Entusiasmo',
-        meaning: 'El entusiasmo, alegría, preparación',
-        judgment: 'Propicio establecer feudatarios y mover el ejército.',
-        image: 'Trueno surge de la tierra: el Entusiasmo. Los antiguos reyes hacían música para honrar la virtud.',
-      },
-      'zh-zhouyi': {
-        name: '豫',
-        meaning: '歡樂，準備，和諧',
-        judgment: '利建侯行師。',
-        image: '雷在地中，豫。先王以作樂崇德。',
-      },
-    },
   },
   17: {
     number: 17,
     chinese: '隨',
     pinyin: 'suí',
     unicode: '䷐',
-    binary: '011001',
+    binary: '100110',
     upperTrigram: 'lake',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Following',
-        meaning: 'Following, obedience, flexibility',
-        judgment: 'Following creates supreme success. Furthering perseverance brings reward. No blame.',
-        image: 'Thunder follows lightning: the image of Following. Thus the superior man enters the realm of rest when the sun has set.',
-      },
-      'en-wilhelm': {
-        name: 'Following',
-        meaning: 'Following, obedience, flexibility',
-        judgment: 'Following creates supreme success. Furthering perseverance brings reward. No blame.',
-        image: 'Thunder follows lightning: the image of Following. Thus the superior man enters the realm of rest when the sun has set.',
-      },
-      'en-legge': {
-        name: 'Following',
-        meaning: 'Giving and receiving in sequence',
-        judgment: 'Sui. Supreme good fortune. There is no blame in being firm and correct. There is advantage in yielding to the time.',
-        image: 'Thunder above the lake forms Sui. The superior man retires from the world at evening to rest.',
-      },
-      'es-wilhelm': {
-        name: 'Seguimiento',
-        meaning: 'Seguir, obediencia, flexibilidad',
-        judgment: 'Seguimiento crea éxito supremo. La perseverancia que propicia trae recompensa.',
-        image: 'El trueno sigue al relámpago: la imagen de Seguimiento. Así el hombre superior entra en el reino del descanso.',
-      },
-      'es-legge': {
-        name: 'El Seguimiento',
-        meaning: 'Dar y recibir en secuencia',
-        judgment: 'Sui. Suprema buena fortuna. No hay culpa en ser firme y correcto. Hay ventaja en ceder al tiempo.',
-        image: 'Trueno sobre el lago forma Sui. El hombre superior se retira del mundo al anochecer para descansar.',
-      },
-      'es-zhouyi': {
-        name: 'El Seguimiento',
-        meaning: 'El seguimiento, adaptarse, ir con la corriente',
-        judgment: 'Sublime éxito. Propicio mediante la perseverancia. Sin culpa.',
-        image: 'Trueno dentro del lago: el Seguimiento. El hombre superior al anochecer entra a descansar.',
-      },
-      'zh-zhouyi': {
-        name: '隨',
-        meaning: '跟隨，順從，靈活',
-        judgment: '元亨，利貞，無咎。',
-        image: '雷在澤上，隨。君子以嚮晦入宴息。',
-      },
-    },
   },
   18: {
     number: 18,
     chinese: '蠱',
     pinyin: 'gǔ',
     unicode: '䷑',
-    binary: '100110',
+    binary: '011001',
     upperTrigram: 'mountain',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'Work on What Has Been Spoiled',
-        meaning: 'Decay, restoration, elimination of rot',
-        judgment: 'Work on What Has Been Spoiled creates supreme success. It furthers one to cross the great water. Before the starting point, three days. After the starting point, three days.',
-        image: 'Wind blowing over the mountain: the image of Work on What Has Been Spoiled. Thus the superior man stirs up the people and strengthens their spirit.',
-      },
-      'en-wilhelm': {
-        name: 'Work on What Has Been Spoiled',
-        meaning: 'Decay, restoration, elimination of rot',
-        judgment: 'Work on What Has Been Spoiled creates supreme success. It furthers one to cross the great water. Before the starting point, three days. After the starting point, three days.',
-        image: 'Wind blowing over the mountain: the image of Work on What Has Been Spoiled. Thus the superior man stirs up the people and strengthens their spirit.',
-      },
-      'en-legge': {
-        name: 'Corruption',
-        meaning: 'Decay and remedy; setting right what is spoiled',
-        judgment: 'Gu. There is great good fortune in setting things right. It is advantageous to cross the great water.',
-        image: 'Wind blowing below the mountain forms Gu. The superior man in this way arouses the people and strengthens their virtue.',
-      },
-      'es-wilhelm': {
-        name: 'Trabajo en lo Que Ha Sido Arruinado',
-        meaning: 'Decadencia, restauración, eliminación de podredumbre',
-        judgment: 'Trabajo en lo Que Ha Sido Arruinado crea éxito supremo. Propicia cruzar la gran agua.',
-        image: 'El viento soplando bajo la montaña: la imagen de Trabajo en lo Que Ha Sido Arruinado. Así el hombre superior incita al pueblo y fortalece su virtud.',
-      },
-      'es-legge': {
-        name: 'La Corrupción',
-        meaning: 'Decadencia y remedio; enderezar lo arruinado',
-        judgment: 'Gu. Hay gran buena fortuna en enderezar las cosas. Es propicio cruzar la gran agua.',
-        image: 'Viento soplando bajo la montaña forma Gu. El hombre superior así incita al pueblo y fortalece su virtud.',
-      },
-      'es-zhouyi': {
-        name: 'La Corrupción',
-        meaning: 'La corrupción, reparar lo echado a perder, renovación',
-        judgment: 'Sublime éxito. Propicio cruzar la gran agua. Tres días antes del comienzo, tres días después del comienzo.',
-        image: 'Viento bajo la montaña: la Corrupción. El hombre superior estimula al pueblo y nutre la virtud.',
-      },
-      'zh-zhouyi': {
-        name: '蠱',
-        meaning: '腐爛，修復，消除腐爛',
-        judgment: '元亨，利涉大川。先甲三日，後甲三日。',
-        image: '風山蠱，蠱。君子以振民育德。',
-      },
-    },
   },
   21: {
     number: 21,
-    chinese: '咬嗑',
-    pinyin: 'yǎo hè',
+    chinese: '噬嗑',
+    pinyin: 'shì kè',
     unicode: '䷔',
-    binary: '101001',
+    binary: '100101',
     upperTrigram: 'fire',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Biting Through',
-        meaning: 'Determination, removing obstacles, decisiveness',
-        judgment: 'Biting Through creates success. It is favorable to impose penalties.',
-        image: 'Thunder and lightning: the image of Biting Through. Thus the kings of former times made firm the laws through clearly defined penalties.',
-      },
-      'en-wilhelm': {
-        name: 'Biting Through',
-        meaning: 'Determination, removing obstacles, decisiveness',
-        judgment: 'Biting Through creates success. It is favorable to impose penalties.',
-        image: 'Thunder and lightning: the image of Biting Through. Thus the kings of former times made firm the laws through clearly defined penalties.',
-      },
-      'en-legge': {
-        name: 'Biting Through',
-        meaning: 'Chewing and biting through obstacles',
-        judgment: 'Yao He. Chewing and biting through brings good fortune. It is advantageous to prosecute the criminal.',
-        image: 'Lightning above thunder forms Yao He. The ancient kings in this way made the penalties clear and severe.',
-      },
-      'es-wilhelm': {
-        name: 'Mordedura a Través',
-        meaning: 'Determinación, eliminación de obstáculos, decisión',
-        judgment: 'Mordedura a Través crea éxito. Es favorable imponer penas.',
-        image: 'Trueno y relámpago: la imagen de Mordedura a Través. Así los reyes de tiempos anteriores hicieron firme las leyes.',
-      },
-      'es-legge': {
-        name: 'La Mordedura a Través',
-        meaning: 'Masticar y morder a través de obstáculos',
-        judgment: 'Yao He. Masticar y morder a través trae buena fortuna. Es propicio procesar al criminal.',
-        image: 'Relámpago sobre trueno forma Yao He. Los reyes antiguos así hacían las penas claras y severas.',
-      },
-      'es-zhouyi': {
-        name: 'La Mordedura a Través',
-        meaning: 'La mordedura, morder a través, justicia',
-        judgment: 'Éxito. Propicio aplicar castigos.',
-        image: 'Trueno y fuego: la Mordedura a Través. Los antiguos reyes clarificaban los castigos y establecían las leyes.',
-      },
-      'zh-zhouyi': {
-        name: '咬嗑',
-        meaning: '決心，消除障礙，果斷',
-        judgment: '亨。利用獄。',
-        image: '雷火咬嗑，咬嗑。先王以明罰敕法。',
-      },
-    },
   },
   22: {
     number: 22,
     chinese: '賁',
     pinyin: 'bì',
     unicode: '䷕',
-    binary: '100101',
+    binary: '101001',
     upperTrigram: 'mountain',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'Grace',
-        meaning: 'Beauty, decoration, adorning',
-        judgment: 'Grace has success. In small matters it is favorable to have somewhere to go.',
-        image: 'Fire clings to the mountain: the image of Grace. Thus the superior man throws light upon the affairs of the world, but does not dare to act from his own will.',
-      },
-      'en-wilhelm': {
-        name: 'Grace',
-        meaning: 'Beauty, decoration, adorning',
-        judgment: 'Grace has success. In small matters it is favorable to have somewhere to go.',
-        image: 'Fire clings to the mountain: the image of Grace. Thus the superior man throws light upon the affairs of the world, but does not dare to act from his own will.',
-      },
-      'en-legge': {
-        name: 'Ornamentation',
-        meaning: 'Elegance and embellishment',
-        judgment: 'Bi. There is good fortune in small matters. It is good to have some destination to go.',
-        image: 'Fire at the foot of the mountain forms Bi. The superior man in this way illuminates his culture and does not dare to cut off litigation.',
-      },
-      'es-wilhelm': {
-        name: 'La Gracia',
-        meaning: 'Belleza, decoración, adorno',
-        judgment: 'Gracia tiene éxito. En pequeños asuntos es favorable tener adónde ir.',
-        image: 'Fuego se adhiere a la montaña: la imagen de la Gracia. Así el hombre superior ilumina los asuntos del mundo.',
-      },
-      'es-legge': {
-        name: 'La Ornamentación',
-        meaning: 'Elegancia y embellecimiento',
-        judgment: 'Bi. Hay buena fortuna en asuntos pequeños. Es bueno tener algún destino adónde ir.',
-        image: 'Fuego al pie de la montaña forma Bi. El hombre superior así ilumina su cultura y no se atreve a cortar el litigio.',
-      },
-      'es-zhouyi': {
-        name: 'La Gracia',
-        meaning: 'La gracia, ornamento, belleza formal',
-        judgment: 'Éxito. En lo pequeño, propicio emprender algo.',
-        image: 'Fuego bajo la montaña: la Gracia. El hombre superior aclara los asuntos del gobierno.',
-      },
-      'zh-zhouyi': {
-        name: '賁',
-        meaning: '美麗，裝飾，裝扮',
-        judgment: '亨。小利有攸往。',
-        image: '火山賁，賁。君子以明庶政。',
-      },
-    },
   },
   25: {
     number: 25,
     chinese: '無妄',
     pinyin: 'wú wàng',
     unicode: '䷘',
-    binary: '111001',
+    binary: '100111',
     upperTrigram: 'heaven',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Innocence',
-        meaning: 'Guilelessness, integrity, spontaneity',
-        judgment: 'Innocence. Supreme success. Perseverance furthers. If someone is not as he should be, he has misfortune, and it does not further him to undertake anything.',
-        image: 'Thunder rolls under heaven: the image of Innocence. Thus the kings of old, rich in virtue, cultivated the good and rewarded the worthy.',
-      },
-      'en-wilhelm': {
-        name: 'Innocence',
-        meaning: 'Guilelessness, integrity, spontaneity',
-        judgment: 'Innocence. Supreme success. Perseverance furthers. If someone is not as he should be, he has misfortune, and it does not further him to undertake anything.',
-        image: 'Thunder rolls under heaven: the image of Innocence. Thus the kings of old, rich in virtue, cultivated the good and rewarded the worthy.',
-      },
-      'en-legge': {
-        name: 'Unexpected Good Fortune',
-        meaning: 'Innocent intention and natural rightness',
-        judgment: 'Wu Wang. There is supreme good fortune. It is advantageous to be correct and firm.',
-        image: 'Thunder beneath heaven forms Wu Wang. The ancient kings in this way fostered virtue abundantly.',
-      },
-      'es-wilhelm': {
-        name: 'La Inocencia',
-        meaning: 'Ingenuidad, integridad, espontaneidad',
-        judgment: 'Inocencia. Éxito supremo. La perseverancia propicia.',
-        image: 'El trueno rueda bajo el cielo: la imagen de la Inocencia. Así los reyes de antaño, ricos en virtud, cultivaban el bien.',
-      },
-      'es-legge': {
-        name: 'La Buena Fortuna Inesperada',
-        meaning: 'Intención inocente y rectitud natural',
-        judgment: 'Wu Wang. Hay suprema buena fortuna. Es propicio ser correcto y firme.',
-        image: 'Trueno bajo el cielo forma Wu Wang. Los reyes antiguos así fomentaban la virtud abundantemente.',
-      },
-      'es-zhouyi': {
-        name: 'La Inocencia',
-        meaning: 'La inocencia, sin falsedad, lo inesperado',
-        judgment: 'Sublime éxito, propicio mediante la perseverancia. Si no es correcto, hay calamidad; no propicio emprender nada.',
-        image: 'Bajo el cielo el trueno avanza: la Inocencia. Los antiguos reyes con abundancia correspondían a las estaciones y nutrían todas las cosas.',
-      },
-      'zh-zhouyi': {
-        name: '無妄',
-        meaning: '無欺，正直，自發性',
-        judgment: '元亨，利貞。其匪正有眚，不利有攸往。',
-        image: '天下雷行，無妄。先王以茂對時，育萬物。',
-      },
-    },
   },
   26: {
     number: 26,
     chinese: '大畜',
     pinyin: 'dà chù',
     unicode: '䷙',
-    binary: '100111',
+    binary: '111001',
     upperTrigram: 'mountain',
     lowerTrigram: 'heaven',
-    translations: {
-      en: {
-        name: 'The Taming Power of the Great',
-        meaning: 'Accumulation of power, discipline, restraint',
-        judgment: 'The Taming Power of the Great. Perseverance furthers. It does not eat at home. Good fortune. It furthers one to cross the great water.',
-        image: 'Heaven within the mountain: the image of the Taming Power of the Great. Thus the superior man stores up a wealth of goodness in order to support the people.',
-      },
-      'en-wilhelm': {
-        name: 'The Taming Power of the Great',
-        meaning: 'Accumulation of power, discipline, restraint',
-        judgment: 'The Taming Power of the Great. Perseverance furthers. It does not eat at home. Good fortune. It furthers one to cross the great water.',
-        image: 'Heaven within the mountain: the image of the Taming Power of the Great. Thus the superior man stores up a wealth of goodness in order to support the people.',
-      },
-      'en-legge': {
-        name: 'Great Accumulation',
-        meaning: 'Accumulating the strength to hold back',
-        judgment: 'Da Chu. It is advantageous to be firm and correct. If not for his home, there is good fortune. It is advantageous to cross the great water.',
-        image: 'Heaven beneath the mountain forms Da Chu. The superior man stores up virtue in order to benefit the world.',
-      },
-      'es-wilhelm': {
-        name: 'El Poder Domesticador de lo Grande',
-        meaning: 'Acumulación de poder, disciplina, restricción',
-        judgment: 'El Poder Domesticador de lo Grande. La perseverancia propicia. No come en casa. Buena fortuna.',
-        image: 'Cielo dentro de la montaña: la imagen del Poder Domesticador de lo Grande. Así el hombre superior acumula muchos dichos y hechos del pasado para fortalecer su carácter.',
-      },
-      'es-legge': {
-        name: 'La Gran Acumulación',
-        meaning: 'Acumular la fuerza para contener',
-        judgment: 'Da Chu. Es propicio ser firme y correcto. Si no fuera por su hogar, hay buena fortuna. Es propicio cruzar la gran agua.',
-        image: 'Cielo bajo la montaña forma Da Chu. El hombre superior acumula virtud para beneficiar al mundo.',
-      },
-      'es-zhouyi': {
-        name: 'El Poder Domesticador de lo Grande',
-        meaning: 'El poder domesticador de lo grande, gran acumulación',
-        judgment: 'Propicio mediante la perseverancia. No comer en casa es buena fortuna. Propicio cruzar la gran agua.',
-        image: 'El cielo dentro de la montaña: el Poder Domesticador de lo Grande. El hombre superior conoce muchos dichos y hechos del pasado.',
-      },
-      'zh-zhouyi': {
-        name: '大畜',
-        meaning: '積累力量，紀律，節制',
-        judgment: '利貞。不家食吉。利涉大川。',
-        image: '天在山中，大畜。君子以多識前言往行。',
-      },
-    },
   },
   27: {
     number: 27,
@@ -1617,50 +321,6 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '100001',
     upperTrigram: 'mountain',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'The Corners of the Mouth',
-        meaning: 'Nourishment, provision, sustenance',
-        judgment: 'The Corners of the Mouth. Perseverance brings good fortune. Pay heed to the providing of nourishment and to what a man seeks to fill his own mouth with.',
-        image: 'Thunder below, mountain above: the image of Providing Nourishment. Thus the superior man is careful of his words and temperate in eating and drinking.',
-      },
-      'en-wilhelm': {
-        name: 'The Corners of the Mouth',
-        meaning: 'Nourishment, provision, sustenance',
-        judgment: 'The Corners of the Mouth. Perseverance brings good fortune. Pay heed to the providing of nourishment and to what a man seeks to fill his own mouth with.',
-        image: 'Thunder below, mountain above: the image of Providing Nourishment. Thus the superior man is careful of his words and temperate in eating and drinking.',
-      },
-      'en-legge': {
-        name: 'Providing Nourishment',
-        meaning: 'Attending to sustenance and nourishment',
-        judgment: 'Yi. Firm correctness brings good fortune. Pay attention to providing nourishment.',
-        image: 'Thunder below the mountain forms Yi. The superior man is careful in his words and sparing in his eating and drinking.',
-      },
-      'es-wilhelm': {
-        name: 'Las Esquinas de la Boca',
-        meaning: 'Nutrición, provisión, sustento',
-        judgment: 'Las Esquinas de la Boca. La perseverancia trae buena fortuna. Presta atención a la provisión de nutrición.',
-        image: 'Trueno debajo, montaña arriba: la imagen de Provisión de Nutrición. Así el hombre superior es cuidadoso con sus palabras y moderado en el comer y beber.',
-      },
-      'es-legge': {
-        name: 'La Provisión de Nutrición',
-        meaning: 'Atender al sustento y la nutrición',
-        judgment: 'Yi. La corrección firme trae buena fortuna. Presta atención a proporcionar nutrición.',
-        image: 'Trueno bajo la montaña forma Yi. El hombre superior es cuidadoso en sus palabras y moderado en el comer y beber.',
-      },
-      'es-zhouyi': {
-        name: 'La Nutrición',
-        meaning: 'Las comisuras de la boca, nutrición, sustento',
-        judgment: 'La perseverancia trae buena fortuna. Observa la nutrición y cómo uno busca llenar su boca.',
-        image: 'Trueno bajo la montaña: la Nutrición. El hombre superior es cuidadoso con sus palabras.',
-      },
-      'zh-zhouyi': {
-        name: '頤',
-        meaning: '營養，供應，維持',
-        judgment: '貞吉。觀頤，自求口實。',
-        image: '雷山頤，頤。君子以慎言語。',
-      },
-    },
   },
   28: {
     number: 28,
@@ -1670,50 +330,6 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '011110',
     upperTrigram: 'lake',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'Preponderance of the Great',
-        meaning: 'Excess, extremity, imbalance',
-        judgment: 'Preponderance of the Great. The ridgepole sags to the breaking point. It furthers one to have somewhere to go. Success.',
-        image: 'Wind blows over the lake: the image of Preponderance of the Great. Thus the superior man, when he stands alone, is unafraid, and if he has to renounce the world, he is undismayed.',
-      },
-      'en-wilhelm': {
-        name: 'Preponderance of the Great',
-        meaning: 'Excess, extremity, imbalance',
-        judgment: 'Preponderance of the Great. The ridgepole sags to the breaking point. It furthers one to have somewhere to go. Success.',
-        image: 'Wind blows over the lake: the image of Preponderance of the Great. Thus the superior man, when he stands alone, is unafraid, and if he has to renounce the world, he is undismayed.',
-      },
-      'en-legge': {
-        name: 'Great Excessiveness',
-        meaning: 'Going too far; exceeding the mean',
-        judgment: 'Da Guo. The beam sags dangerously. It is advantageous to have somewhere to go. Small good fortune.',
-        image: 'The wind swirls above the lake forming Da Guo. The superior man stands alone without fear.',
-      },
-      'es-wilhelm': {
-        name: 'Preponderancia de lo Grande',
-        meaning: 'Exceso, extremidad, desequilibrio',
-        judgment: 'Preponderancia de lo Grande. La viga se cede al punto de ruptura. Propicia tener adónde ir.',
-        image: 'El lago desborda la madera: la imagen de Preponderancia de lo Grande. Así el hombre superior se mantiene solo sin temor y se retira del mundo sin pena.',
-      },
-      'es-legge': {
-        name: 'El Gran Exceso',
-        meaning: 'Ir demasiado lejos; exceder el medio',
-        judgment: 'Da Guo. La viga se cede peligrosamente. Es propicio tener adónde ir. Pequeña buena fortuna.',
-        image: 'El viento gira sobre el lago formando Da Guo. El hombre superior se mantiene solo sin temor.',
-      },
-      'es-zhouyi': {
-        name: 'El Exceso de lo Grande',
-        meaning: 'El exceso de lo grande, preponderancia, extremo',
-        judgment: 'La viga maestra se dobla. Propicio emprender algo. Éxito.',
-        image: 'El lago sobre el viento: el Exceso de lo Grande. El hombre superior permanece solo sin temor.',
-      },
-      'zh-zhouyi': {
-        name: '大過',
-        meaning: '超過，極端，不平衡',
-        judgment: '棟隆，利有攸往，亨。',
-        image: '澤風大過，大過。君子以獨立不懼。',
-      },
-    },
   },
   29: {
     number: 29,
@@ -1723,50 +339,6 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '010010',
     upperTrigram: 'water',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'The Abysmal',
-        meaning: 'Danger, flowing water, depth',
-        judgment: 'The Abysmal repeated. If you are sincere, you have success in your heart, and whatever you do succeeds.',
-        image: 'Water flows on continually and reaches its goal: the image of the Abysmal repeated. Thus the superior man walks in lasting virtue and carries on the work of teaching.',
-      },
-      'en-wilhelm': {
-        name: 'The Abysmal',
-        meaning: 'Danger, flowing water, depth',
-        judgment: 'The Abysmal repeated. If you are sincere, you have success in your heart, and whatever you do succeeds.',
-        image: 'Water flows on continually and reaches its goal: the image of the Abysmal repeated. Thus the superior man walks in lasting virtue and carries on the work of teaching.',
-      },
-      'en-legge': {
-        name: 'The Pit',
-        meaning: 'Repeated danger; flowing through difficulties',
-        judgment: 'Kan repeated. If you have truth and sincerity, and show them to others, you will have good fortune.',
-        image: 'Water keeps flowing down and also fills up, the double repetition of the trigram of water indicates the idea of flowing through. The superior man applies this to the perpetual practice of virtue.',
-      },
-      'es-wilhelm': {
-        name: 'El Abismo',
-        meaning: 'Peligro, agua que fluye, profundidad',
-        judgment: 'El Abismo repetido. Si eres sincero, tienes éxito en tu corazón.',
-        image: 'El agua fluye continuamente y alcanza su meta: la imagen del Abismo repetido. Así el hombre superior camina en virtud duradera y prosigue la obra de enseñar.',
-      },
-      'es-legge': {
-        name: 'El Pozo',
-        meaning: 'Peligro repetido; fluir a través de dificultades',
-        judgment: 'Kan repetido. Si tienes verdad y sinceridad, y las muestras a otros, tendrás buena fortuna.',
-        image: 'El agua sigue fluyendo y también llena; la doble repetición del trigrama del agua indica la idea de fluir. El hombre superior aplica esto a la práctica perpetua de la virtud.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Abismal',
-        meaning: 'Lo abismal, el agua, peligro repetido',
-        judgment: 'El Abismo repetido. Con sinceridad, solo el corazón tiene éxito. La acción es estimada.',
-        image: 'El agua fluye sin cesar: lo Abismal. El hombre superior actúa con virtud constante.',
-      },
-      'zh-zhouyi': {
-        name: '坎',
-        meaning: '危險，水流，深度',
-        judgment: '習坎，有孚，維心亨，行有尚。',
-        image: '水流不息，坎。君子以常德行。',
-      },
-    },
   },
   30: {
     number: 30,
@@ -1776,1429 +348,240 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '101101',
     upperTrigram: 'fire',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'The Clinging',
-        meaning: 'Fire, illumination, clarity',
-        judgment: 'The Clinging. Perseverance furthers. It brings success. Care of the cow brings good fortune.',
-        image: 'That which is bright rises twice: the image of the Clinging. Thus the great man, by perpetually reinforcing his luminosity, illuminates the world.',
-      },
-      'en-wilhelm': {
-        name: 'The Clinging',
-        meaning: 'Fire, illumination, clarity',
-        judgment: 'The Clinging. Perseverance furthers. It brings success. Care of the cow brings good fortune.',
-        image: 'That which is bright rises twice: the image of the Clinging. Thus the great man, by perpetually reinforcing his luminosity, illuminates the world.',
-      },
-      'en-legge': {
-        name: 'Fire',
-        meaning: 'Brightness and illumination',
-        judgment: 'Li. It is advantageous to be firm and correct. There is good fortune in taking care of the cow.',
-        image: 'Fire repeated, the image of Fire. The superior man thereby becomes perpetually aglow with light and love.',
-      },
-      'es-wilhelm': {
-        name: 'Lo que se Adhiere',
-        meaning: 'Fuego, iluminación, claridad',
-        judgment: 'Lo que se Adhiere. La perseverancia propicia. Trae éxito. El cuidado de la vaca trae buena fortuna.',
-        image: 'Lo que es brillante se alza dos veces: la imagen de Lo que se Adhiere. Así el gran hombre, reforzando perpetuamente su luminosidad, ilumina el mundo.',
-      },
-      'es-legge': {
-        name: 'El Fuego',
-        meaning: 'Brillo e iluminación',
-        judgment: 'Li. Es propicio ser firme y correcto. Hay buena fortuna en cuidar de la vaca.',
-        image: 'Fuego repetido, la imagen del Fuego. El hombre superior así se vuelve perpetuamente resplandeciente con luz y amor.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Adherente',
-        meaning: 'Lo adherente, el fuego, claridad',
-        judgment: 'Propicio mediante la perseverancia. Éxito. Criar una vaca trae buena fortuna.',
-        image: 'La claridad surge dos veces: lo Adherente. El gran hombre perpetuando la luz ilumina los cuatro puntos cardinales.',
-      },
-      'zh-zhouyi': {
-        name: '離',
-        meaning: '火，照明，清晰',
-        judgment: '利貞，亨。畜牝牛吉。',
-        image: '明两作離，離。大人以繼明照于四方。',
-      },
-    },
   },
   31: {
     number: 31,
     chinese: '咸',
     pinyin: 'xián',
     unicode: '䷞',
-    binary: '011100',
+    binary: '001110',
     upperTrigram: 'lake',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Influence',
-        meaning: 'Attraction, courtship, reciprocal action',
-        judgment: 'Influence. Success. Perseverance furthers. It furthers one to take a maiden to wife.',
-        image: 'A lake on the mountain: the image of Influence. Thus the superior man encourages people to approach him by his readiness to receive them.',
-      },
-      'en-wilhelm': {
-        name: 'Influence',
-        meaning: 'Attraction, courtship, reciprocal action',
-        judgment: 'Influence. Success. Perseverance furthers. It furthers one to take a maiden to wife.',
-        image: 'A lake on the mountain: the image of Influence. Thus the superior man encourages people to approach him by his readiness to receive them.',
-      },
-      'en-legge': {
-        name: 'Mutual Influence',
-        meaning: 'Influencing by attraction and natural response',
-        judgment: 'Xian. There is good fortune in being firm and correct. It is advantageous to have a maiden.',
-        image: 'A marsh on the mountain forms Xian. The superior man thus courts popularity by being ready to receive.',
-
-      },
-      'es-wilhelm': {
-        name: 'La Influencia',
-        meaning: 'Atracción, cortejo, acción recíproca',
-        judgment: 'Influencia. Éxito. La perseverancia propicia. Propicia tomar una doncella como esposa.',
-        image: 'Un lago en la montaña: la imagen de la Influencia. Así el hombre superior anima a la gente a acercarse.',
-      },
-      'es-legge': {
-        name: 'La Influencia Mutua',
-        meaning: 'Influir por atracción y respuesta natural',
-        judgment: 'Xian. Hay buena fortuna en ser firme y correcto. Es propicio tener una doncella.',
-        image: 'Un pantano en la montaña forma Xian. El hombre superior así busca popularidad estando listo para recibir.',
-      },
-      'es-zhouyi': {
-        name: 'La Influencia',
-        meaning: 'La influencia, atracción mutua, cortejo',
-        judgment: 'Éxito. Propicio mediante la perseverancia. Tomar esposa trae buena fortuna.',
-        image: 'Lago sobre la montaña: la Influencia. El hombre superior con humildad recibe a las personas.',
-      },
-      'zh-zhouyi': {
-        name: '咸',
-        meaning: '吸引，求婚，相互作用',
-        judgment: '亨，利貞，娶女吉。',
-        image: '澤山咸，咸。君子以虛受人。',
-      },
-    },
   },
   32: {
     number: 32,
     chinese: '恆',
     pinyin: 'héng',
     unicode: '䷟',
-    binary: '001110',
+    binary: '011100',
     upperTrigram: 'thunder',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'Duration',
-        meaning: 'Constancy, persistence, continuity',
-        judgment: 'Duration. Success. No blame. Perseverance furthers. It furthers one to have somewhere to go.',
-        image: 'Thunder and wind: the image of Duration. Thus the superior man stands firm and does not change his direction.',
-      },
-      'en-wilhelm': {
-        name: 'Duration',
-        meaning: 'Constancy, persistence, continuity',
-        judgment: 'Duration. Success. No blame. Perseverance furthers. It furthers one to have somewhere to go.',
-        image: 'Thunder and wind: the image of Duration. Thus the superior man stands firm and does not change his direction.',
-      },
-      'en-legge': {
-        name: 'Permanence',
-        meaning: 'Enduring unchanged with good result',
-        judgment: 'Heng. There is good fortune, there is no blame. It is advantageous to be firm and correct.',
-        image: 'Thunder and wind form Heng. The superior man stands resolute and unchanging.',
-      },
-      'es-wilhelm': {
-        name: 'La Duración',
-        meaning: 'Constancia, persistencia, continuidad',
-        judgment: 'Duración. Éxito. Sin culpa. La perseverancia propicia.',
-        image: 'Trueno y viento: la imagen de la Duración. Así el hombre superior se mantiene firme.',
-      },
-      'es-legge': {
-        name: 'La Permanencia',
-        meaning: 'Perdurar sin cambio con buen resultado',
-        judgment: 'Heng. Hay buena fortuna, no hay culpa. Es propicio ser firme y correcto.',
-        image: 'Trueno y viento forman Heng. El hombre superior permanece resuelto e inmutable.',
-      },
-      'es-zhouyi': {
-        name: 'La Duración',
-        meaning: 'La duración, constancia, perseverancia',
-        judgment: 'Éxito. Sin culpa. Propicio mediante la perseverancia. Propicio emprender algo.',
-        image: 'Trueno y viento: la Duración. El hombre superior permanece firme y no cambia de dirección.',
-      },
-      'zh-zhouyi': {
-        name: '恆',
-        meaning: '常，堅持，連續',
-        judgment: '亨，無咎，利貞，利有攸往。',
-        image: '雷風恆，恆。君子以立不易方。',
-      },
-    },
   },
   35: {
     number: 35,
     chinese: '晉',
     pinyin: 'jìn',
     unicode: '䷢',
-    binary: '101000',
+    binary: '000101',
     upperTrigram: 'fire',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Progress',
-        meaning: 'Advancement, promotion, moving upward',
-        judgment: 'Progress. The powerful horse is emulous. It is advantageous to further movement in any direction. It furthers one to present offerings.',
-        image: 'The sun rising over the earth: the image of Progress. Thus the superior man himself brightens his bright virtue.',
-      },
-      'en-wilhelm': {
-        name: 'Progress',
-        meaning: 'Advancement, promotion, moving upward',
-        judgment: 'Progress. The powerful horse is emulous. It is advantageous to further movement in any direction. It furthers one to present offerings.',
-        image: 'The sun rising over the earth: the image of Progress. Thus the superior man himself brightens his bright virtue.',
-      },
-      'en-legge': {
-        name: 'Advance',
-        meaning: 'Promotion and forward movement',
-        judgment: 'Jin. Progress. A good horse is presented. In one day there is progress many times.',
-        image: 'Fire above the earth forms Jin. The superior man thereby takes cognizance of bright excellence and honors virtue.',
-      },
-      'es-wilhelm': {
-        name: 'El Progreso',
-        meaning: 'Avance, promoción, movimiento hacia arriba',
-        judgment: 'Progreso. El caballo poderoso es émulo. Propicia avanzar en cualquier dirección.',
-        image: 'El sol se eleva sobre la tierra: la imagen del Progreso. Así el hombre superior ilumina su virtud luminosa.',
-      },
-      'es-legge': {
-        name: 'El Avance',
-        meaning: 'Promoción y movimiento hacia adelante',
-        judgment: 'Jin. Progreso. Se presenta un buen caballo. En un día hay progreso muchas veces.',
-        image: 'Fuego sobre la tierra forma Jin. El hombre superior así reconoce la excelencia luminosa y honra la virtud.',
-      },
-      'es-zhouyi': {
-        name: 'El Progreso',
-        meaning: 'El progreso, avance, ascenso',
-        judgment: 'El marqués pacífico recibe caballos en abundancia y es recibido tres veces en un día.',
-        image: 'El fuego surge de la tierra: el Progreso. El hombre superior ilumina su virtud luminosa.',
-      },
-      'zh-zhouyi': {
-        name: '晉',
-        meaning: '進步，提升，向上運動',
-        judgment: '康侯用錫馬蕃庶，晝日三接。',
-        image: '火出地上，晉。君子以自昭明德。',
-      },
-    },
   },
   36: {
     number: 36,
     chinese: '明夷',
     pinyin: 'míng yí',
     unicode: '䷣',
-    binary: '000101',
+    binary: '101000',
     upperTrigram: 'earth',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'Darkening of the Light',
-        meaning: 'Obscuration, adversity, hidden virtue',
-        judgment: 'Darkening of the Light. In adversity it furthers one to be persevering.',
-        image: 'The light has sunk into the earth: the image of Darkening of the Light. Thus does the superior man live with the great mass: he veils his light yet still shines.',
-      },
-      'en-wilhelm': {
-        name: 'Darkening of the Light',
-        meaning: 'Obscuration, adversity, hidden virtue',
-        judgment: 'Darkening of the Light. In adversity it furthers one to be persevering.',
-        image: 'The light has sunk into the earth: the image of Darkening of the Light. Thus does the superior man live with the great mass: he veils his light yet still shines.',
-      },
-      'en-legge': {
-        name: 'Eclipse of the Light',
-        meaning: 'Brightness concealed; enduring in darkness',
-        judgment: 'Ming Yi. In adversity, it is advantageous to be firm and correct.',
-        image: 'Light entering the earth forms Ming Yi. The superior man hides his light, yet it still shines.',
-      },
-      'es-wilhelm': {
-        name: 'Oscurecimiento de la Luz',
-        meaning: 'Oscurecimiento, adversidad, virtud oculta',
-        judgment: 'Oscurecimiento de la Luz. En la adversidad conviene la perseverancia.',
-        image: 'La luz se ha hundido en la tierra: la imagen del Oscurecimiento de la Luz. Así vive el hombre superior con la gran masa: vela su luz pero aún brilla.',
-      },
-      'es-legge': {
-        name: 'El Eclipse de la Luz',
-        meaning: 'Brillo oculto; perdurar en la oscuridad',
-        judgment: 'Ming Yi. En la adversidad, es propicio ser firme y correcto.',
-        image: 'Luz entrando en la tierra forma Ming Yi. El hombre superior oculta su luz, pero aún brilla.',
-      },
-      'es-zhouyi': {
-        name: 'El Oscurecimiento de la Luz',
-        meaning: 'El oscurecimiento de la luz, luz herida, adversidad',
-        judgment: 'Propicio en la dificultad mediante la perseverancia.',
-        image: 'La luz entra en la tierra: el Oscurecimiento de la Luz. El hombre superior vela su claridad ante las dificultades.',
-      },
-      'zh-zhouyi': {
-        name: '明夷',
-        meaning: '昏暗，逆境，隱德',
-        judgment: '利艱貞。',
-        image: '明入地中，明夷。君子以蒙難。',
-      },
-    },
   },
   37: {
     number: 37,
     chinese: '家人',
     pinyin: 'jiā rén',
     unicode: '䷤',
-    binary: '110101',
+    binary: '101011',
     upperTrigram: 'wind',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'The Family',
-        meaning: 'Household, relationships, foundation',
-        judgment: 'The Family. It is favorable for the woman to be firm and correct.',
-        image: 'Wind rises from fire: the image of the Family. Thus the superior man has substance in his words and preserves unity in his actions.',
-      },
-      'en-wilhelm': {
-        name: 'The Family',
-        meaning: 'Household, relationships, foundation',
-        judgment: 'The Family. It is favorable for the woman to be firm and correct.',
-        image: 'Wind rises from fire: the image of the Family. Thus the superior man has substance in his words and preserves unity in his actions.',
-      },
-      'en-legge': {
-        name: 'The Family',
-        meaning: 'Domestic relations and order',
-        judgment: 'Jia Ren. It is advantageous for the woman to be firm and correct.',
-        image: 'Wind comes forth from fire: the image of the Family. The superior man has substance in his words and unity in his actions.',
-      },
-      'es-wilhelm': {
-        name: 'La Familia',
-        meaning: 'Hogar, relaciones, fundamento',
-        judgment: 'La Familia. Es favorable que la mujer sea firme y correcta.',
-        image: 'El viento se alza del fuego: la imagen de la Familia. Así el hombre superior tiene sustancia en sus palabras y constancia en sus acciones.',
-      },
-      'es-legge': {
-        name: 'La Familia',
-        meaning: 'Relaciones domésticas y orden',
-        judgment: 'Jia Ren. Es propicio que la mujer sea firme y correcta.',
-        image: 'El viento surge del fuego: la imagen de la Familia. El hombre superior tiene sustancia en sus palabras y unidad en sus acciones.',
-      },
-      'es-zhouyi': {
-        name: 'La Familia',
-        meaning: 'La familia, el clan, el hogar',
-        judgment: 'Propicio para la perseverancia de la mujer.',
-        image: 'El viento surge del fuego: la Familia. El hombre superior tiene sustancia en sus palabras y constancia en su conducta.',
-      },
-      'zh-zhouyi': {
-        name: '家人',
-        meaning: '家庭，關係，基礎',
-        judgment: '利女貞。',
-        image: '風自火出，家人。君子以言有物，行有恆。',
-      },
-    },
   },
   38: {
     number: 38,
     chinese: '睽',
     pinyin: 'kuí',
     unicode: '䷥',
-    binary: '101011',
+    binary: '110101',
     upperTrigram: 'fire',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Opposition',
-        meaning: 'Divergence, separation, misunderstanding',
-        judgment: 'Opposition. In small matters, good fortune.',
-        image: 'Fire above, lake below: the image of Opposition. Thus amid all fellowship the superior man retains his individuality.',
-      },
-      'en-wilhelm': {
-        name: 'Opposition',
-        meaning: 'Divergence, separation, misunderstanding',
-        judgment: 'Opposition. In small matters, good fortune.',
-        image: 'Fire above, lake below: the image of Opposition. Thus amid all fellowship the superior man retains his individuality.',
-      },
-      'en-legge': {
-        name: 'Separation',
-        meaning: 'Being opposed, estrangement',
-        judgment: 'Kui. In small matters there is good fortune.',
-        image: 'Fire above the lake forms Kui. The superior man despite his difference retains his unity with others.',
-      },
-      'es-wilhelm': {
-        name: 'La Oposición',
-        meaning: 'Divergencia, separación, incomprensión',
-        judgment: 'Oposición. En pequeños asuntos, buena fortuna.',
-        image: 'Fuego arriba, lago abajo: la imagen de la Oposición. Así en toda compañía el hombre superior retiene su individualidad.',
-      },
-      'es-legge': {
-        name: 'La Separación',
-        meaning: 'Estar opuesto, distanciamiento',
-        judgment: 'Kui. En asuntos pequeños hay buena fortuna.',
-        image: 'Fuego sobre el lago forma Kui. El hombre superior a pesar de su diferencia retiene su unidad con otros.',
-      },
-      'es-zhouyi': {
-        name: 'La Oposición',
-        meaning: 'La oposicion, divergencia, miradas opuestas',
-        judgment: 'En asuntos pequeños, buena fortuna.',
-        image: 'Fuego sobre el lago: la Oposicion. El hombre superior siendo igual mantiene su diferencia.',
-      },
-      'zh-zhouyi': {
-        name: '睽',
-        meaning: '分歧，分離，誤解',
-        judgment: '小事吉。',
-        image: '火澤睽，睽。君子以同而異。',
-      },
-    },
   },
   39: {
     number: 39,
     chinese: '蹇',
     pinyin: 'jiǎn',
     unicode: '䷦',
-    binary: '010100',
+    binary: '001010',
     upperTrigram: 'water',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Obstruction',
-        meaning: 'Difficulty, halt, standstill',
-        judgment: 'Obstruction. Southwest furthers. Northeast does not further. It furthers one to see the great man. Perseverance brings good fortune.',
-        image: 'Water on the mountain: the image of Obstruction. Thus the superior man turns his attention inward and cultivates his character.',
-      },
-      'en-wilhelm': {
-        name: 'Obstruction',
-        meaning: 'Difficulty, halt, standstill',
-        judgment: 'Obstruction. Southwest furthers. Northeast does not further. It furthers one to see the great man. Perseverance brings good fortune.',
-        image: 'Water on the mountain: the image of Obstruction. Thus the superior man turns his attention inward and cultivates his character.',
-      },
-      'en-legge': {
-        name: 'Limping',
-        meaning: 'Halting and difficult progress',
-        judgment: 'Jian. It is favorable to go southwest, and not favorable to go northeast. It is advantageous to see the great man.',
-        image: 'Water on the mountain forms Jian. The superior man turns his attention inward and cultivates his character.',
-      },
-      'es-wilhelm': {
-        name: 'La Obstrucción',
-        meaning: 'Dificultad, parada, estancamiento',
-        judgment: 'Obstrucción. El suroeste propicia. El noreste no propicia. Propicia ver al gran hombre.',
-        image: 'Agua en la montaña: la imagen de la Obstrucción. Así el hombre superior vuelve su atención hacia dentro y cultiva su carácter.',
-      },
-      'es-legge': {
-        name: 'El Cojear',
-        meaning: 'Detención y progreso difícil',
-        judgment: 'Jian. Es favorable ir al suroeste, y no favorable ir al noreste. Es propicio ver al gran hombre.',
-        image: 'Agua en la montaña forma Jian. El hombre superior vuelve su atención hacia dentro y cultiva su carácter.',
-      },
-      'es-zhouyi': {
-        name: 'La Obstrucción',
-        meaning: 'La obstruccion, dificultad, impedimento',
-        judgment: 'Propicio el suroeste. No propicio el noreste. Propicio ver al gran hombre. La perseverancia trae buena fortuna.',
-        image: 'Agua sobre la montana: la Obstruccion. El hombre superior se vuelve hacia si mismo y cultiva su virtud.',
-      },
-      'zh-zhouyi': {
-        name: '蹇',
-        meaning: '障礙，停頓，靜止',
-        judgment: '利西南，不利東北。利見大人，貞吉。',
-        image: '山上有水，蹇。君子以反身修德。',
-      },
-    },
   },
   40: {
     number: 40,
     chinese: '解',
     pinyin: 'jiě',
     unicode: '䷧',
-    binary: '001010',
+    binary: '010100',
     upperTrigram: 'thunder',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Deliverance',
-        meaning: 'Release, liberation, solution',
-        judgment: 'Deliverance. Southwest furthers. If there is nowhere to go, return brings good fortune. If there is somewhere to go, hastening brings good fortune.',
-        image: 'Thunder and rain set in: the image of Deliverance. Thus the superior man forgives mistakes and deals gently with misdemeanors.',
-      },
-      'en-wilhelm': {
-        name: 'Deliverance',
-        meaning: 'Release, liberation, solution',
-        judgment: 'Deliverance. Southwest furthers. If there is nowhere to go, return brings good fortune. If there is somewhere to go, hastening brings good fortune.',
-        image: 'Thunder and rain set in: the image of Deliverance. Thus the superior man forgives mistakes and deals gently with misdemeanors.',
-      },
-      'en-legge': {
-        name: 'Loosening',
-        meaning: 'Release from restraint and difficulty',
-        judgment: 'Jie. It is favorable to go southwest. There is no destination and coming back is good fortune.',
-        image: 'Thunder and rain come together form Jie. The superior man in this way forgives the errors of others.',
-      },
-      'es-wilhelm': {
-        name: 'La Liberación',
-        meaning: 'Liberación, emancipación, solución',
-        judgment: 'Liberación. El suroeste propicia. Si no hay adónde ir, el regreso trae buena fortuna.',
-        image: 'Trueno y lluvia se instalan: la imagen de la Liberación. Así el hombre superior perdona errores y trata con gentileza las faltas.',
-      },
-      'es-legge': {
-        name: 'El Aflojar',
-        meaning: 'Liberación de la restricción y la dificultad',
-        judgment: 'Jie. Es favorable ir al suroeste. No hay destino y volver es buena fortuna.',
-        image: 'Trueno y lluvia se juntan formando Jie. El hombre superior así perdona los errores de otros.',
-      },
-      'es-zhouyi': {
-        name: 'La Liberación',
-        meaning: 'La liberacion, solucion, alivio',
-        judgment: 'Propicio el suroeste. Si no hay donde ir, el retorno trae buena fortuna. Si hay donde ir, actuar pronto trae buena fortuna.',
-        image: 'Trueno y lluvia actuan: la Liberacion. El hombre superior perdona las faltas y absuelve los crimenes.',
-      },
-      'zh-zhouyi': {
-        name: '解',
-        meaning: '解放，解脫，解決',
-        judgment: '利西南，無所往，其來復吉。有攸往，夙吉。',
-        image: '雷雨作解，解。君子以赦過宥罪。',
-      },
-    },
   },
   41: {
     number: 41,
     chinese: '損',
     pinyin: 'sǔn',
     unicode: '䷨',
-    binary: '100011',
+    binary: '110001',
     upperTrigram: 'mountain',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Decrease',
-        meaning: 'Reduction, sacrifice, taking away',
-        judgment: 'Decrease combined with sincerity brings about supreme good fortune without blame. One may be persevering in this. It furthers one to undertake something.',
-        image: 'The lake at the foot of the mountain: the image of Decrease. Thus the superior man curbs his anger and restrains his instincts.',
-      },
-      'en-wilhelm': {
-        name: 'Decrease',
-        meaning: 'Reduction, sacrifice, taking away',
-        judgment: 'Decrease combined with sincerity brings about supreme good fortune without blame. One may be persevering in this. It furthers one to undertake something.',
-        image: 'The lake at the foot of the mountain: the image of Decrease. Thus the superior man curbs his anger and restrains his instincts.',
-      },
-      'en-legge': {
-        name: 'Decrease',
-        meaning: 'Diminishing in order to advance',
-        judgment: 'Sun. With sincerity, there is supreme good fortune without blame. It is advantageous to be firm and correct.',
-        image: 'Below the mountain there is a lake forming Sun. The superior man in this way curbs his wrath and restrains his desires.',
-      },
-      'es-wilhelm': {
-        name: 'La Disminución',
-        meaning: 'Reducción, sacrificio, eliminación',
-        judgment: 'Disminución combinada con sinceridad trae suprema buena fortuna sin culpa.',
-        image: 'El lago al pie de la montaña: la imagen de la Disminución. Así el hombre superior frena su ira y restringe sus instintos.',
-      },
-      'es-legge': {
-        name: 'La Disminución',
-        meaning: 'Disminuir para avanzar',
-        judgment: 'Sun. Con sinceridad, hay suprema buena fortuna sin culpa. Es propicio ser firme y correcto.',
-        image: 'Bajo la montaña hay un lago formando Sun. El hombre superior así frena su ira y restringe sus deseos.',
-      },
-      'es-zhouyi': {
-        name: 'La Disminución',
-        meaning: 'La disminucion, reduccion, sacrificio',
-        judgment: 'Con sinceridad, sublime buena fortuna. Sin culpa. Se puede perseverar. Propicio emprender algo.',
-        image: 'Bajo la montana hay un lago: la Disminucion. El hombre superior frena la ira y reprime los deseos.',
-      },
-      'zh-zhouyi': {
-        name: '損',
-        meaning: '減少，犧牲，消除',
-        judgment: '有孚，元吉，無咎，可貞，利有攸往。',
-        image: '山下有澤，損。君子以懲忿窒欲。',
-      },
-    },
   },
   42: {
     number: 42,
     chinese: '益',
     pinyin: 'yì',
     unicode: '䷩',
-    binary: '110001',
+    binary: '100011',
     upperTrigram: 'wind',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'Increase',
-        meaning: 'Expansion, growth, advancement',
-        judgment: 'Increase. It furthers one to undertake something. It furthers one to cross the great water.',
-        image: 'Wind and thunder: the image of Increase. Thus the superior man when he sees good in others, lends them aid; when he sees fault in himself, he amends it.',
-      },
-      'en-wilhelm': {
-        name: 'Increase',
-        meaning: 'Expansion, growth, advancement',
-        judgment: 'Increase. It furthers one to undertake something. It furthers one to cross the great water.',
-        image: 'Wind and thunder: the image of Increase. Thus the superior man when he sees good in others, lends them aid; when he sees fault in himself, he amends it.',
-      },
-      'en-legge': {
-        name: 'Increase',
-        meaning: 'Multiplication and advancement',
-        judgment: 'Yi. It is advantageous to have a destination. It is advantageous to cross the great water.',
-        image: 'Wind and thunder form Yi. The superior man in this way removes what is evil and strengthens what is good.',
-      },
-      'es-wilhelm': {
-        name: 'El Aumento',
-        meaning: 'Expansión, crecimiento, avance',
-        judgment: 'Aumento. Propicia emprender algo. Propicia cruzar la gran agua.',
-        image: 'Viento y trueno: la imagen del Aumento. Así el hombre superior cuando ve bien en otros, les presta ayuda; cuando ve falta en sí mismo, la enmienda.',
-      },
-      'es-legge': {
-        name: 'El Aumento',
-        meaning: 'Multiplicación y avance',
-        judgment: 'Yi. Es propicio tener un destino. Es propicio cruzar la gran agua.',
-        image: 'Viento y trueno forman Yi. El hombre superior así elimina lo malo y fortalece lo bueno.',
-      },
-      'es-zhouyi': {
-        name: 'El Aumento',
-        meaning: 'El aumento, beneficio, incremento',
-        judgment: 'Propicio emprender algo. Propicio cruzar la gran agua.',
-        image: 'Viento y trueno: el Aumento. El hombre superior al ver el bien se mueve hacia el.',
-      },
-      'zh-zhouyi': {
-        name: '益',
-        meaning: '擴大，成長，進步',
-        judgment: '利有攸往，利涉大川。',
-        image: '風雷益，益。君子以見善則遷。',
-      },
-    },
   },
   45: {
     number: 45,
     chinese: '萃',
     pinyin: 'cuì',
     unicode: '䷬',
-    binary: '011000',
+    binary: '000110',
     upperTrigram: 'lake',
     lowerTrigram: 'earth',
-    translations: {
-      en: {
-        name: 'Gathering Together',
-        meaning: 'Assembly, convocation, collection',
-        judgment: 'Gathering Together. Success. The king approaches his temple. It furthers one to see the great man. Success. It furthers one to undertake something. It furthers one to offer sacrifice.',
-        image: 'Over the earth, the lake: the image of Gathering Together. Thus the superior man sets his weapons in order.',
-      },
-      'en-wilhelm': {
-        name: 'Gathering Together',
-        meaning: 'Assembly, convocation, collection',
-        judgment: 'Gathering Together. Success. The king approaches his temple. It furthers one to see the great man. Success. It furthers one to undertake something. It furthers one to offer sacrifice.',
-        image: 'Over the earth, the lake: the image of Gathering Together. Thus the superior man sets his weapons in order.',
-      },
-      'en-legge': {
-        name: 'Assembly',
-        meaning: 'Assembling in union and communion',
-        judgment: 'Cui. The king approaches his temple. It is advantageous to see the great man. There is good fortune.',
-        image: 'The lake rises over the earth forming Cui. The superior man hereby arranges his officers.',
-      },
-      'es-wilhelm': {
-        name: 'Reunión',
-        meaning: 'Asamblea, convocatoria, colección',
-        judgment: 'Reunión. Éxito. El rey se acerca a su templo. Propicia ver al gran hombre.',
-        image: 'Sobre la tierra, el lago: la imagen de la Reunión. Así el hombre superior ordena sus armas.',
-      },
-      'es-legge': {
-        name: 'La Asamblea',
-        meaning: 'Reunirse en unión y comunión',
-        judgment: 'Cui. El rey se acerca a su templo. Es propicio ver al gran hombre. Hay buena fortuna.',
-        image: 'El lago se eleva sobre la tierra formando Cui. El hombre superior así ordena a sus oficiales.',
-      },
-      'es-zhouyi': {
-        name: 'La Reunión',
-        meaning: 'La reunion, congregacion, asamblea',
-        judgment: 'Exito. El rey se acerca al templo. Propicio ver al gran hombre. Exito. Propicio mediante la perseverancia. Usar grandes ofrendas trae buena fortuna.',
-        image: 'El lago sobre la tierra: la Reunion. El hombre superior prepara las armas para lo imprevisto.',
-      },
-      'zh-zhouyi': {
-        name: '萃',
-        meaning: '聚集，集會，收集',
-        judgment: '亨。王假之，利見大人，亨，利貞，用大牲吉。',
-        image: '澤上於地，萃。君子以除戎器。',
-      },
-    },
   },
   46: {
     number: 46,
     chinese: '升',
     pinyin: 'shēng',
     unicode: '䷭',
-    binary: '000110',
+    binary: '011000',
     upperTrigram: 'earth',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'Pushing Upward',
-        meaning: 'Rising, ascending, promotion',
-        judgment: 'Pushing Upward has supreme success. One must see the great man. Do not let fear rule. Go south. Good fortune.',
-        image: 'Within the earth, wood grows: the image of Pushing Upward. Thus the superior man of devoted character heaps up small things to achieve something high and great.',
-      },
-      'en-wilhelm': {
-        name: 'Pushing Upward',
-        meaning: 'Rising, ascending, promotion',
-        judgment: 'Pushing Upward has supreme success. One must see the great man. Do not let fear rule. Go south. Good fortune.',
-        image: 'Within the earth, wood grows: the image of Pushing Upward. Thus the superior man of devoted character heaps up small things to achieve something high and great.',
-      },
-      'en-legge': {
-        name: 'Ascending',
-        meaning: 'Advancing without obstacle',
-        judgment: 'Sheng. There is great good fortune. It is not improper to see the great man. Do not harbor sadness at missing him. Going south brings good fortune.',
-        image: 'Wood within the earth form Sheng. The superior man through his respectfulness and perseverance expands his virtue.',
-      },
-      'es-wilhelm': {
-        name: 'Empuje Hacia Arriba',
-        meaning: 'Ascenso, elevación, promoción',
-        judgment: 'Empuje Hacia Arriba tiene éxito supremo. Se debe ver al gran hombre. No dejes que el miedo gobierne.',
-        image: 'Dentro de la tierra, la madera crece: la imagen del Empuje Hacia Arriba. Así el hombre superior de carácter devoto acumula pequeñas cosas para alcanzar algo alto y grande.',
-      },
-      'es-legge': {
-        name: 'El Ascenso',
-        meaning: 'Avanzar sin obstáculo',
-        judgment: 'Sheng. Hay gran buena fortuna. No es impropio ver al gran hombre. No albergues tristeza por perderlo. Ir al sur trae buena fortuna.',
-        image: 'Madera dentro de la tierra forma Sheng. El hombre superior a través de su respeto y perseverancia expande su virtud.',
-      },
-      'es-zhouyi': {
-        name: 'El Ascenso',
-        meaning: 'El ascenso, empuje hacia arriba, promocion',
-        judgment: 'Sublime exito. Es propicio ver al gran hombre. No te preocupes. Una expedicion al sur trae buena fortuna.',
-        image: 'En la tierra crece la madera: el Ascenso. El hombre superior con docilidad acumula lo pequeno para alcanzar lo alto y grande.',
-      },
-      'zh-zhouyi': {
-        name: '升',
-        meaning: '上升，上升，晉升',
-        judgment: '元亨，用見大人，勿恤，南征吉。',
-        image: '地中生木，升。君子以順德積小以高大。',
-      },
-    },
   },
   47: {
     number: 47,
     chinese: '困',
     pinyin: 'kùn',
     unicode: '䷮',
-    binary: '011010',
+    binary: '010110',
     upperTrigram: 'lake',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Oppression',
-        meaning: 'Exhaustion, difficulty, calamity',
-        judgment: 'Oppression. Success. Perseverance. The great man brings about good fortune. No blame. When one has something to say, it is not believed.',
-        image: 'There is no water in the lake: the image of Oppression. Thus the superior man stakes his life on following his will.',
-      },
-      'en-wilhelm': {
-        name: 'Oppression',
-        meaning: 'Exhaustion, difficulty, calamity',
-        judgment: 'Oppression. Success. Perseverance. The great man brings about good fortune. No blame. When one has something to say, it is not believed.',
-        image: 'There is no water in the lake: the image of Oppression. Thus the superior man stakes his life on following his will.',
-      },
-      'en-legge': {
-        name: 'Exhaustion',
-        meaning: 'Oppression and reduction to straits',
-        judgment: 'Kun. There is good fortune. There is no blame. The superior man brings about good fortune. But should he have something to say, it will not be believed.',
-        image: 'The lake without water forms Kun. The superior man in this way risks his life pursuing his will.',
-      },
-      'es-wilhelm': {
-        name: 'La Opresión',
-        meaning: 'Agotamiento, dificultad, calamidad',
-        judgment: 'Opresión. Éxito. Perseverancia. El gran hombre trae buena fortuna. Sin culpa.',
-        image: 'No hay agua en el lago: la imagen de la Opresión. Así el hombre superior arriesga su vida siguiendo su voluntad.',
-      },
-      'es-legge': {
-        name: 'El Agotamiento',
-        meaning: 'Opresión y reducción a la estrechez',
-        judgment: 'Kun. Hay buena fortuna. No hay culpa. El hombre superior trae buena fortuna. Pero si tiene algo que decir, no será creído.',
-        image: 'El lago sin agua forma Kun. El hombre superior así arriesga su vida persiguiendo su voluntad.',
-      },
-      'es-zhouyi': {
-        name: 'La Opresión',
-        meaning: 'La opresion, agotamiento, dificultad extrema',
-        judgment: 'Exito. La perseverancia. El gran hombre tiene buena fortuna. Sin culpa. Si tiene palabras, no seran creidas.',
-        image: 'El lago sin agua: la Opresion. El hombre superior arriesga su vida para cumplir su voluntad.',
-      },
-      'zh-zhouyi': {
-        name: '困',
-        meaning: '壓迫，耗盡，困難',
-        judgment: '亨，貞，大人吉，無咎，有言不信。',
-        image: '澤無水，困。君子以致命遂志。',
-      },
-    },
   },
   48: {
     number: 48,
     chinese: '井',
     pinyin: 'jǐng',
     unicode: '䷯',
-    binary: '010110',
+    binary: '011010',
     upperTrigram: 'water',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'The Well',
-        meaning: 'Water source, renewal, community',
-        judgment: 'The Well. The town may be changed, but the well cannot be changed. It neither decreases nor increases. They come and go drawing from the well. If one gets down almost to the water and the rope does not go all the way, or the jug breaks, it brings misfortune.',
-        image: 'Water over wood: the image of the Well. Thus the superior man encourages the people at their work, and exhorts them to help one another.',
-      },
-      'en-wilhelm': {
-        name: 'The Well',
-        meaning: 'Water source, renewal, community',
-        judgment: 'The Well. The town may be changed, but the well cannot be changed. It neither decreases nor increases. They come and go drawing from the well. If one gets down almost to the water and the rope does not go all the way, or the jug breaks, it brings misfortune.',
-        image: 'Water over wood: the image of the Well. Thus the superior man encourages the people at their work, and exhorts them to help one another.',
-      },
-      'en-legge': {
-        name: 'The Well',
-        meaning: 'Pure water and steady provision',
-        judgment: 'Jing. The town may be changed but not the well. It does not decrease nor increase. Going and coming, drawing, all get benefit from the well.',
-        image: 'Water goes over wood forming Jing. The superior man encourages the common people to support one another.',
-      },
-      'es-wilhelm': {
-        name: 'El Pozo',
-        meaning: 'Fuente de agua, renovación, comunidad',
-        judgment: 'El Pozo. La ciudad puede cambiar, pero el pozo no puede cambiar. Ni disminuye ni aumenta.',
-        image: 'Agua sobre madera: la imagen del Pozo. Así el hombre superior anima al pueblo en su trabajo y los exhorta a ayudarse mutuamente.',
-      },
-      'es-legge': {
-        name: 'El Pozo',
-        meaning: 'Agua pura y provisión constante',
-        judgment: 'Jing. La ciudad puede cambiar pero no el pozo. No disminuye ni aumenta. Yendo y viniendo, sacando agua, todos se benefician del pozo.',
-        image: 'El agua pasa sobre la madera formando Jing. El hombre superior anima al pueblo común a apoyarse mutuamente.',
-      },
-      'es-zhouyi': {
-        name: 'El Pozo',
-        meaning: 'El pozo, fuente inagotable, renovacion',
-        judgment: 'La ciudad puede cambiar, pero el pozo no cambia. No pierde ni gana. Van y vienen al pozo. Casi llegar y no sacar el agua, o romper el cantaro, trae adversidad.',
-        image: 'Agua sobre madera: el Pozo. El hombre superior estimula al pueblo y los exhorta a ayudarse.',
-      },
-      'zh-zhouyi': {
-        name: '井',
-        meaning: '水源，更新，社區',
-        judgment: '改邑不改井，無喪無得，往來井井。汔至，亦未繘井，羸其瓶兇。',
-        image: '水風井，井。君子以勞民勸相。',
-      },
-    },
   },
   49: {
     number: 49,
     chinese: '革',
     pinyin: 'gé',
     unicode: '䷰',
-    binary: '011101',
+    binary: '101110',
     upperTrigram: 'lake',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'Revolution',
-        meaning: 'Transformation, radical change, renewal',
-        judgment: 'Revolution. On your own day you are believed. Supreme success, furthering perseverance. Remorse disappears.',
-        image: 'Fire in the lake: the image of Revolution. Thus the superior man sets the calendar in order and makes the seasons clear.',
-      },
-      'en-wilhelm': {
-        name: 'Revolution',
-        meaning: 'Transformation, radical change, renewal',
-        judgment: 'Revolution. On your own day you are believed. Supreme success, furthering perseverance. Remorse disappears.',
-        image: 'Fire in the lake: the image of Revolution. Thus the superior man sets the calendar in order and makes the seasons clear.',
-      },
-      'en-legge': {
-        name: 'Revolution',
-        meaning: 'Total change and transformation',
-        judgment: 'Ge. On its own day it is believed. There is supreme good fortune, and it is advantageous to be firm and correct.',
-        image: 'Fire in the lake forms Ge. The superior man fixes the calendar and makes the seasons clear.',
-      },
-      'es-wilhelm': {
-        name: 'La Revolución',
-        meaning: 'Transformación, cambio radical, renovación',
-        judgment: 'Revolución. En tu propio día te creen. Éxito supremo, la perseverancia propicia. El arrepentimiento desaparece.',
-        image: 'Fuego en el lago: la imagen de la Revolución. Así el hombre superior fija el calendario y aclara las estaciones.',
-      },
-      'es-legge': {
-        name: 'La Revolución',
-        meaning: 'Cambio y transformación total',
-        judgment: 'Ge. En su propio día es creído. Hay suprema buena fortuna, y es propicio ser firme y correcto.',
-        image: 'Fuego en el lago forma Ge. El hombre superior fija el calendario y aclara las estaciones.',
-      },
-      'es-zhouyi': {
-        name: 'La Revolución',
-        meaning: 'La revolucion, transformacion, muda',
-        judgment: 'En el dia propio se es creido. Sublime exito. Propicio mediante la perseverancia. El arrepentimiento desaparece.',
-        image: 'Fuego en medio del lago: la Revolucion. El hombre superior ordena el calendario y aclara las estaciones.',
-      },
-      'zh-zhouyi': {
-        name: '革',
-        meaning: '革命，轉變，激進變化',
-        judgment: '己日乃孚，元亨，利貞，悔亡。',
-        image: '澤中有火，革。君子以治曆明時。',
-      },
-    },
   },
   50: {
     number: 50,
     chinese: '鼎',
     pinyin: 'dǐng',
     unicode: '䷱',
-    binary: '101110',
+    binary: '011101',
     upperTrigram: 'fire',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'The Cauldron',
-        meaning: 'Vessel, transformation, nourishment',
-        judgment: 'The Cauldron. Supreme good fortune. Success.',
-        image: 'Fire over wood: the image of the Cauldron. Thus the superior man consolidates his fate by the cultivation of himself.',
-      },
-      'en-wilhelm': {
-        name: 'The Cauldron',
-        meaning: 'Vessel, transformation, nourishment',
-        judgment: 'The Cauldron. Supreme good fortune. Success.',
-        image: 'Fire over wood: the image of the Cauldron. Thus the superior man consolidates his fate by the cultivation of himself.',
-      },
-      'en-legge': {
-        name: 'The Caldron',
-        meaning: 'Symbol of transformation and sustenance',
-        judgment: 'Ding. There is great good fortune. There is success.',
-        image: 'Fire above wood forms Ding. The superior man sets in order what is disordered.',
-      },
-      'es-wilhelm': {
-        name: 'El Caldero',
-        meaning: 'Recipiente, transformación, nutrición',
-        judgment: 'El Caldero. Suprema buena fortuna. Éxito.',
-        image: 'Fuego sobre madera: la imagen del Caldero. Así el hombre superior consolida su destino mediante el cultivo de sí mismo.',
-      },
-      'es-legge': {
-        name: 'El Caldero',
-        meaning: 'Símbolo de transformación y sustento',
-        judgment: 'Ding. Hay gran buena fortuna. Hay éxito.',
-        image: 'Fuego sobre madera forma Ding. El hombre superior pone en orden lo desordenado.',
-      },
-      'es-zhouyi': {
-        name: 'El Caldero',
-        meaning: 'El caldero, transformacion, nutricion sagrada',
-        judgment: 'Sublime buena fortuna. Exito.',
-        image: 'Fuego sobre madera: el Caldero. El hombre superior rectifica su posicion y consolida su destino.',
-      },
-      'zh-zhouyi': {
-        name: '鼎',
-        meaning: '鍋，轉變，營養',
-        judgment: '元吉，亨。',
-        image: '火風鼎，鼎。君子以正位凝命。',
-      },
-    },
   },
   51: {
     number: 51,
     chinese: '震',
     pinyin: 'zhèn',
     unicode: '䷲',
-    binary: '001001',
+    binary: '100100',
     upperTrigram: 'thunder',
     lowerTrigram: 'thunder',
-    translations: {
-      en: {
-        name: 'The Arousing',
-        meaning: 'Thunder, awakening, shock',
-        judgment: 'The Arousing. Shock brings success. Shock comes--oh, oh! Laughing words--ha, ha! The shock terrifies for a hundred miles, and he does not let drop the sacrificial spoon and chalice.',
-        image: 'Thunder repeated: the image of the Arousing. Thus in fear and trembling the superior man sets his life in order.',
-      },
-      'en-wilhelm': {
-        name: 'The Arousing',
-        meaning: 'Thunder, awakening, shock',
-        judgment: 'The Arousing. Shock brings success. Shock comes--oh, oh! Laughing words--ha, ha! The shock terrifies for a hundred miles, and he does not let drop the sacrificial spoon and chalice.',
-        image: 'Thunder repeated: the image of the Arousing. Thus in fear and trembling the superior man sets his life in order.',
-      },
-      'en-legge': {
-        name: 'The Awakening',
-        meaning: 'Shock and movement, putting in order',
-        judgment: 'Zhen. There is good fortune. Shock comes as a warning. Trembling and fear are followed by joy and laughter.',
-        image: 'Thunder repeated forms the image of the Arousing. The superior man orderly prepares his livelihood.',
-      },
-      'es-wilhelm': {
-        name: 'El Despertar',
-        meaning: 'Trueno, despertar, choque',
-        judgment: 'El Despertar. Choque trae éxito. Choque viene--¡oh, oh! Palabras riendo--¡ja, ja! El choque aterroriza a cien millas.',
-        image: 'Trueno repetido: la imagen del Despertar. Así el hombre superior ordena su vida con miedo y temblor.',
-      },
-      'es-legge': {
-        name: 'El Despertar',
-        meaning: 'Choque y movimiento, poner en orden',
-        judgment: 'Zhen. Hay buena fortuna. El choque viene como advertencia. El temblor y el miedo son seguidos por alegría y risa.',
-        image: 'Trueno repetido forma la imagen del Despertar. El hombre superior prepara ordenadamente su sustento.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Suscitativo',
-        meaning: 'Lo suscitativo, el trueno, conmocion',
-        judgment: 'Exito. El trueno llega causando temor, despues palabras y risas. El trueno aterroriza a cien millas, pero no deja caer el caliz del sacrificio.',
-        image: 'Trueno repetido: lo Suscitativo. El hombre superior con temor y temblor cultiva su persona.',
-      },
-      'zh-zhouyi': {
-        name: '震',
-        meaning: '雷，喚醒，震驚',
-        judgment: '亨。震來虩虩，笑言啞啞，震驚百里，不喪匙箸。',
-        image: '雷二震，震。君子以恐懼修身。',
-      },
-    },
   },
   52: {
     number: 52,
     chinese: '艮',
     pinyin: 'gèn',
     unicode: '䷳',
-    binary: '100100',
+    binary: '001001',
     upperTrigram: 'mountain',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Keeping Still',
-        meaning: 'Mountain, stillness, non-action',
-        judgment: 'Keeping Still. The mountain. Keeping his back still so that he no longer feels his body. He goes into his courtyard and does not see his people. No blame.',
-        image: 'Mountains standing close together: the image of Keeping Still. Thus the superior man does not permit his thoughts to go beyond his situation.',
-      },
-      'en-wilhelm': {
-        name: 'Keeping Still',
-        meaning: 'Mountain, stillness, non-action',
-        judgment: 'Keeping Still. The mountain. Keeping his back still so that he no longer feels his body. He goes into his courtyard and does not see his people. No blame.',
-        image: 'Mountains standing close together: the image of Keeping Still. Thus the superior man does not permit his thoughts to go beyond his situation.',
-      },
-      'en-legge': {
-        name: 'Mountain',
-        meaning: 'Immobility and keeping still in its place',
-        judgment: 'Gen. When it is the time to keep still, keep still; when it is the time to go forward go forward. Thus going forward and backward at the proper time brings good fortune.',
-        image: 'Mountains close together form Gen. The superior man does not go beyond the limits of his station.',
-      },
-      'es-wilhelm': {
-        name: 'Mantener Inmóvil',
-        meaning: 'Montaña, quietud, no-acción',
-        judgment: 'Mantener Inmóvil. La montaña. Mantiene su espalda inmóvil de modo que ya no siente su cuerpo. Sin culpa.',
-        image: 'Montañas que están juntas: la imagen de Mantener Inmóvil. Así el hombre superior no permite que sus pensamientos vayan más allá de su situación.',
-      },
-      'es-legge': {
-        name: 'La Montaña',
-        meaning: 'Inmovilidad y permanecer quieto en su lugar',
-        judgment: 'Gen. Cuando es tiempo de permanecer quieto, permanece quieto; cuando es tiempo de avanzar, avanza. Así avanzar y retroceder en el momento apropiado trae buena fortuna.',
-        image: 'Montañas juntas forman Gen. El hombre superior no va más allá de los límites de su posición.',
-      },
-      'es-zhouyi': {
-        name: 'El Aquietamiento',
-        meaning: 'El aquietamiento, la montana, detenerse',
-        judgment: 'Aquietar la espalda de modo que ya no siente el cuerpo. Camina por el patio y no ve a las personas. Sin culpa.',
-        image: 'Montanas sucesivas: el Aquietamiento. El hombre superior no permite que sus pensamientos vayan mas alla de su posicion.',
-      },
-      'zh-zhouyi': {
-        name: '艮',
-        meaning: '山，靜止，不行動',
-        judgment: '艮其背，不獲其身，行其庭，不見其人，無咎。',
-        image: '兩山相繼，艮。君子以思不出其位。',
-      },
-    },
   },
   53: {
     number: 53,
     chinese: '漸',
     pinyin: 'jiàn',
     unicode: '䷴',
-    binary: '110100',
+    binary: '001011',
     upperTrigram: 'wind',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Development',
-        meaning: 'Gradual progress, stages, advance',
-        judgment: 'Development. The maiden is given in marriage. Good fortune. It furthers one to undertake something.',
-        image: 'On the mountain, wind: the image of Development. Thus the superior man abides in dignity and virtue, to improve the mores.',
-      },
-      'en-wilhelm': {
-        name: 'Development',
-        meaning: 'Gradual progress, stages, advance',
-        judgment: 'Development. The maiden is given in marriage. Good fortune. It furthers one to undertake something.',
-        image: 'On the mountain, wind: the image of Development. Thus the superior man abides in dignity and virtue, to improve the mores.',
-      },
-      'en-legge': {
-        name: 'Gradual Progress',
-        meaning: 'Advancing step by step in proper sequence',
-        judgment: 'Jian. The maiden is given in marriage. Good fortune. It is advantageous to have a destination to go.',
-        image: 'Wind above the mountain forms Jian. The superior man dwells in excellence and improves the customs.',
-      },
-      'es-wilhelm': {
-        name: 'El Desarrollo',
-        meaning: 'Progreso gradual, etapas, avance',
-        judgment: 'Desarrollo. La doncella es entregada en matrimonio. Buena fortuna. Propicia emprender algo.',
-        image: 'En la montaña, viento: la imagen del Desarrollo. Así el hombre superior permanece en dignidad y virtud, para mejorar las costumbres.',
-      },
-      'es-legge': {
-        name: 'El Progreso Gradual',
-        meaning: 'Avanzar paso a paso en secuencia apropiada',
-        judgment: 'Jian. La doncella es entregada en matrimonio. Buena fortuna. Es propicio tener un destino adónde ir.',
-        image: 'Viento sobre la montaña forma Jian. El hombre superior mora en excelencia y mejora las costumbres.',
-      },
-      'es-zhouyi': {
-        name: 'El Desarrollo Gradual',
-        meaning: 'El desarrollo gradual, progreso paulatino',
-        judgment: 'La doncella es dada en matrimonio. Buena fortuna. Propicio mediante la perseverancia.',
-        image: 'Sobre la montana hay viento: el Desarrollo Gradual. El hombre superior mora en virtud digna y mejora las costumbres.',
-      },
-      'zh-zhouyi': {
-        name: '漸',
-        meaning: '逐漸進步，階段，前進',
-        judgment: '女歸吉，利貞。',
-        image: '山上有風，漸。君子以居賢德善俗。',
-      },
-    },
   },
   54: {
     number: 54,
     chinese: '歸妹',
     pinyin: 'guī mèi',
     unicode: '䷵',
-    binary: '001011',
+    binary: '110100',
     upperTrigram: 'thunder',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'The Marrying Maiden',
-        meaning: 'Subordinate position, natural order, transition',
-        judgment: 'The Marrying Maiden. Undertakings bring misfortune. Nothing that would further.',
-        image: 'Thunder over the lake: the image of the Marrying Maiden. Thus the superior man understands the transitory in the light of the eternity of the end.',
-      },
-      'en-wilhelm': {
-        name: 'The Marrying Maiden',
-        meaning: 'Subordinate position, natural order, transition',
-        judgment: 'The Marrying Maiden. Undertakings bring misfortune. Nothing that would further.',
-        image: 'Thunder over the lake: the image of the Marrying Maiden. Thus the superior man understands the transitory in the light of the eternity of the end.',
-      },
-      'en-legge': {
-        name: 'The Girl giving herself in Marriage',
-        meaning: 'Womanly submission and the completion of things',
-        judgment: 'Gui Mei. Undertakings bring misfortune. There is nothing that would be advantageous.',
-        image: 'Thunder above the lake forms Gui Mei. The superior man understands the things coming to an end.',
-      },
-      'es-wilhelm': {
-        name: 'La Doncella Desposada',
-        meaning: 'Posición subordinada, orden natural, transición',
-        judgment: 'La Doncella Desposada. Las empresas traen desgracia. Nada que propiciaría.',
-        image: 'Trueno sobre el lago: la imagen de la Doncella Desposada. Así el hombre superior entiende lo transitorio a la luz de la eternidad del fin.',
-      },
-      'es-legge': {
-        name: 'La Doncella que se Entrega en Matrimonio',
-        meaning: 'Sumisión femenina y la completación de las cosas',
-        judgment: 'Gui Mei. Las empresas traen desgracia. No hay nada que sea propicio.',
-        image: 'Trueno sobre el lago forma Gui Mei. El hombre superior entiende las cosas que llegan a su fin.',
-      },
-      'es-zhouyi': {
-        name: 'La Doncella Desposada',
-        meaning: 'La doncella desposada, matrimonio, subordinacion',
-        judgment: 'Emprender trae adversidad. Nada propicio.',
-        image: 'Trueno sobre el lago: la Doncella Desposada. El hombre superior reconoce lo transitorio y comprende el deterioro.',
-      },
-      'zh-zhouyi': {
-        name: '歸妹',
-        meaning: '從屬地位，自然秩序，過渡',
-        judgment: '征凶，無攸利。',
-        image: '雷在澤上，歸妹。君子以永終知敝。',
-      },
-    },
   },
   55: {
     number: 55,
     chinese: '豐',
     pinyin: 'fēng',
     unicode: '䷶',
-    binary: '001101',
+    binary: '101100',
     upperTrigram: 'thunder',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'Abundance',
-        meaning: 'Fullness, peak, maximum',
-        judgment: 'Abundance has success. The king attains abundance. Be not sad. Be like the sun at midday.',
-        image: 'Both thunder and lightning come: the image of Abundance. Thus the superior man decides lawsuits and carries out punishments.',
-      },
-      'en-wilhelm': {
-        name: 'Abundance',
-        meaning: 'Fullness, peak, maximum',
-        judgment: 'Abundance has success. The king attains abundance. Be not sad. Be like the sun at midday.',
-        image: 'Both thunder and lightning come: the image of Abundance. Thus the superior man decides lawsuits and carries out punishments.',
-      },
-      'en-legge': {
-        name: 'Abundance',
-        meaning: 'Plenty and prosperity',
-        judgment: 'Feng. The king attains fullness. Do not mourn. Be like the noonday sun.',
-        image: 'Lightning and thunder come together forming Feng. The superior man judges those who bring about disorder.',
-      },
-      'es-wilhelm': {
-        name: 'La Abundancia',
-        meaning: 'Plenitud, pico, máximo',
-        judgment: 'Abundancia tiene éxito. El rey alcanza abundancia. No estés triste. Sé como el sol al mediodía.',
-        image: 'Trueno y relámpago vienen: la imagen de la Abundancia. Así el hombre superior decide demandas y ejecuta castigos.',
-      },
-      'es-legge': {
-        name: 'La Abundancia',
-        meaning: 'Plenitud y prosperidad',
-        judgment: 'Feng. El rey alcanza plenitud. No llores. Sé como el sol al mediodía.',
-        image: 'Relámpago y trueno se juntan formando Feng. El hombre superior juzga a los que causan desorden.',
-      },
-      'es-zhouyi': {
-        name: 'La Abundancia',
-        meaning: 'La abundancia, plenitud, grandeza',
-        judgment: 'Exito. El rey la alcanza. No te preocupes. Es apropiado ser como el sol al mediodia.',
-        image: 'Trueno y relampago llegan juntos: la Abundancia. El hombre superior decide los litigios y ejecuta los castigos.',
-      },
-      'zh-zhouyi': {
-        name: '豐',
-        meaning: '豐富，高峰，最大',
-        judgment: '亨，王假之，勿憂，宜日中。',
-        image: '雷電皆至，豐。君子以折獄致刑。',
-      },
-    },
   },
   56: {
     number: 56,
     chinese: '旅',
     pinyin: 'lǚ',
     unicode: '䷷',
-    binary: '101100',
+    binary: '001101',
     upperTrigram: 'fire',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'The Wanderer',
-        meaning: 'Travel, exile, adaptation',
-        judgment: 'The Wanderer. Success through perseverance. The wanderer finds food and shelter. Good fortune small.',
-        image: 'Fire on the mountain: the image of the Wanderer. Thus the superior man is careful and reserved, and thereby avoids punishments and hardships.',
-      },
-      'en-wilhelm': {
-        name: 'The Wanderer',
-        meaning: 'Travel, exile, adaptation',
-        judgment: 'The Wanderer. Success through perseverance. The wanderer finds food and shelter. Good fortune small.',
-        image: 'Fire on the mountain: the image of the Wanderer. Thus the superior man is careful and reserved, and thereby avoids punishments and hardships.',
-      },
-      'en-legge': {
-        name: 'The Traveller',
-        meaning: 'One who travels and is far from home',
-        judgment: 'Lu. It is advantageous that the wanderer be firm and correct; he brings good fortune on his journey.',
-        image: 'Fire on the mountain forms Lu. The superior man thereby becomes thoughtful and careful.',
-      },
-      'es-wilhelm': {
-        name: 'El Viajero',
-        meaning: 'Viaje, exilio, adaptación',
-        judgment: 'El Viajero. Éxito mediante la perseverancia. El viajero encuentra comida y refugio. Buena fortuna pequeña.',
-        image: 'Fuego en la montaña: la imagen del Viajero. Así el hombre superior es cuidadoso y reservado, y así evita castigos y dificultades.',
-      },
-      'es-legge': {
-        name: 'El Viajero',
-        meaning: 'Uno que viaja y está lejos de casa',
-        judgment: 'Lu. Es propicio que el viajero sea firme y correcto; trae buena fortuna en su viaje.',
-        image: 'Fuego en la montaña forma Lu. El hombre superior así se vuelve reflexivo y cuidadoso.',
-      },
-      'es-zhouyi': {
-        name: 'El Viajero',
-        meaning: 'El viajero, el forastero, transito',
-        judgment: 'Propicio mediante la perseverancia. Exito. Para el viajero, la perseverancia trae buena fortuna.',
-        image: 'Fuego sobre la montana: el Viajero. El hombre superior con claridad y cautela aplica los castigos.',
-      },
-      'zh-zhouyi': {
-        name: '旅',
-        meaning: '旅行，流放，適應',
-        judgment: '利貞，亨。旅貞吉。',
-        image: '火山旅，旅。君子以明慎用刑。',
-      },
-    },
   },
   57: {
     number: 57,
     chinese: '巽',
     pinyin: 'xùn',
     unicode: '䷸',
-    binary: '110110',
+    binary: '011011',
     upperTrigram: 'wind',
     lowerTrigram: 'wind',
-    translations: {
-      en: {
-        name: 'The Gentle',
-        meaning: 'Wind, gentleness, flexibility',
-        judgment: 'The Gentle. Success through what is small. It furthers one to have somewhere to go. It furthers one to see the great man.',
-        image: 'Wind following wind: the image of the Gentle. Thus the superior man spreads his commands abroad and carries out his undertakings.',
-      },
-      'en-wilhelm': {
-        name: 'The Gentle',
-        meaning: 'Wind, gentleness, flexibility',
-        judgment: 'The Gentle. Success through what is small. It furthers one to have somewhere to go. It furthers one to see the great man.',
-        image: 'Wind following wind: the image of the Gentle. Thus the superior man spreads his commands abroad and carries out his undertakings.',
-      },
-      'en-legge': {
-        name: 'The Accommodating',
-        meaning: 'Gentleness, penetration, submission',
-        judgment: 'Xun. There is good fortune. It is advantageous to have a destination to go. It is advantageous to see the great man.',
-        image: 'Wind following wind form Xun. The superior man hereby acts as when dispatching his orders.',
-      },
-      'es-wilhelm': {
-        name: 'Lo Suave',
-        meaning: 'Viento, suavidad, flexibilidad',
-        judgment: 'Lo Suave. Éxito a través de lo pequeño. Propicia tener adónde ir. Propicia ver al gran hombre.',
-        image: 'Viento siguiendo viento: la imagen de Lo Suave. Así el hombre superior difunde sus mandatos y lleva a cabo sus empresas.',
-      },
-      'es-legge': {
-        name: 'Lo Acomodadizo',
-        meaning: 'Suavidad, penetración, sumisión',
-        judgment: 'Xun. Hay buena fortuna. Es propicio tener un destino adónde ir. Es propicio ver al gran hombre.',
-        image: 'Viento siguiendo viento forma Xun. El hombre superior así actúa como cuando despacha sus órdenes.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Suave',
-        meaning: 'Lo suave, el viento, penetracion gentil',
-        judgment: 'Pequeno exito. Propicio emprender algo. Propicio ver al gran hombre.',
-        image: 'Viento sigue al viento: lo Suave. El hombre superior reitera sus mandatos al ejecutar los asuntos.',
-      },
-      'zh-zhouyi': {
-        name: '巽',
-        meaning: '風，溫柔，靈活',
-        judgment: '小亨，利有攸往，利見大人。',
-        image: '隨風隨風，巽。君子以申命行事。',
-      },
-    },
   },
   58: {
     number: 58,
     chinese: '兌',
     pinyin: 'duì',
     unicode: '䷹',
-    binary: '011011',
+    binary: '110110',
     upperTrigram: 'lake',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'The Joyous',
-        meaning: 'Lake, pleasure, joy',
-        judgment: 'The Joyous. Success. Perseverance is favorable.',
-        image: 'Lakes joining: the image of the Joyous. Thus the superior man joins with his friends for discussion and practice.',
-      },
-      'en-wilhelm': {
-        name: 'The Joyous',
-        meaning: 'Lake, pleasure, joy',
-        judgment: 'The Joyous. Success. Perseverance is favorable.',
-        image: 'Lakes joining: the image of the Joyous. Thus the superior man joins with his friends for discussion and practice.',
-      },
-      'en-legge': {
-        name: 'The Open',
-        meaning: 'Joy, satisfaction, mutual support',
-        judgment: 'Dui. There is good fortune. Firm correctness is advantageous.',
-        image: 'Two lakes joined form Dui. The superior man in this way discusses and talks.',
-      },
-      'es-wilhelm': {
-        name: 'Lo Alegre',
-        meaning: 'Lago, placer, alegría',
-        judgment: 'Lo Alegre. Éxito. La perseverancia es favorable.',
-        image: 'Lagos que se unen: la imagen de Lo Alegre. Así el hombre superior se une con sus amigos para discusión y práctica.',
-      },
-      'es-legge': {
-        name: 'Lo Abierto',
-        meaning: 'Alegría, satisfacción, apoyo mutuo',
-        judgment: 'Dui. Hay buena fortuna. La corrección firme es propicia.',
-        image: 'Dos lagos unidos forman Dui. El hombre superior así discute y conversa.',
-      },
-      'es-zhouyi': {
-        name: 'Lo Sereno',
-        meaning: 'Lo sereno, el lago, alegria',
-        judgment: 'Exito. Propicio mediante la perseverancia.',
-        image: 'Lagos conectados: lo Sereno. El hombre superior con amigos discute y practica.',
-      },
-      'zh-zhouyi': {
-        name: '兌',
-        meaning: '湖，快樂，歡樂',
-        judgment: '亨，利貞。',
-        image: '澤澤相連，兌。君子以朋友講習。',
-      },
-    },
   },
   59: {
     number: 59,
     chinese: '渙',
     pinyin: 'huàn',
     unicode: '䷺',
-    binary: '110010',
+    binary: '010011',
     upperTrigram: 'wind',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Dispersion',
-        meaning: 'Separation, dissolution, scattering',
-        judgment: 'Dispersion. Success. The king approaches his temple. It furthers one to cross the great water. Perseverance furthers.',
-        image: 'Wind blowing over water: the image of Dispersion. Thus the kings of old made offerings to the Lord and built temples.',
-      },
-      'en-wilhelm': {
-        name: 'Dispersion',
-        meaning: 'Separation, dissolution, scattering',
-        judgment: 'Dispersion. Success. The king approaches his temple. It furthers one to cross the great water. Perseverance furthers.',
-        image: 'Wind blowing over water: the image of Dispersion. Thus the kings of old made offerings to the Lord and built temples.',
-      },
-      'en-legge': {
-        name: 'Dispersing',
-        meaning: 'Union dissolving and dispersing',
-        judgment: 'Huan. There is good fortune. The king approaches his place of worship. It is advantageous to cross the great water.',
-        image: 'Wind moving over water forms Huan. The ancient kings erected temples to honor the divine.',
-      },
-      'es-wilhelm': {
-        name: 'La Dispersión',
-        meaning: 'Separación, disolución, dispersión',
-        judgment: 'Dispersión. Éxito. El rey se acerca a su templo. Propicia cruzar la gran agua. La perseverancia propicia.',
-        image: 'Viento soplando sobre agua: la imagen de la Dispersión. Así los reyes de antaño hacían ofrendas al Señor y construían templos.',
-      },
-      'es-legge': {
-        name: 'La Dispersión',
-        meaning: 'Unión que se disuelve y dispersa',
-        judgment: 'Huan. Hay buena fortuna. El rey se acerca a su lugar de culto. Es propicio cruzar la gran agua.',
-        image: 'Viento moviéndose sobre agua forma Huan. Los reyes antiguos erigían templos para honrar lo divino.',
-      },
-      'es-zhouyi': {
-        name: 'La Dispersión',
-        meaning: 'La dispersion, disolucion, disipacion',
-        judgment: 'Exito. El rey se acerca a tener un templo. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
-        image: 'El viento recorre el agua: la Dispersion. Los antiguos reyes hacian ofrendas a lo supremo y erigian templos.',
-      },
-      'zh-zhouyi': {
-        name: '渙',
-        meaning: '分離，溶解，分散',
-        judgment: '亨，王假有廟，利涉大川，利貞。',
-        image: '風行水上，渙。先王以享于帝，立廟。',
-      },
-    },
   },
   60: {
     number: 60,
     chinese: '節',
     pinyin: 'jié',
     unicode: '䷻',
-    binary: '010011',
+    binary: '110010',
     upperTrigram: 'water',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Limitation',
-        meaning: 'Restriction, boundaries, self-control',
-        judgment: 'Limitation. Success. Galling limitation must not be persevered in.',
-        image: 'Water over a lake: the image of Limitation. Thus the superior man creates number and measure, and examines the nature of his actions.',
-      },
-      'en-wilhelm': {
-        name: 'Limitation',
-        meaning: 'Restriction, boundaries, self-control',
-        judgment: 'Limitation. Success. Galling limitation must not be persevered in.',
-        image: 'Water over a lake: the image of Limitation. Thus the superior man creates number and measure, and examines the nature of his actions.',
-      },
-      'en-legge': {
-        name: 'Regulation',
-        meaning: 'Restraint and regulation within limits',
-        judgment: 'Jie. There is good fortune. Painful restrictions should not be persevered in.',
-        image: 'Water above the lake forms Jie. The superior man establishes his thoughts and investigates the nature of things.',
-      },
-      'es-wilhelm': {
-        name: 'La Limitación',
-        meaning: 'Restricción, límites, autocontrol',
-        judgment: 'Limitación. Éxito. La limitación penosa no debe persistir.',
-        image: 'Agua sobre un lago: la imagen de la Limitación. Así el hombre superior crea número y medida, y examina la naturaleza de sus acciones.',
-      },
-      'es-legge': {
-        name: 'La Regulación',
-        meaning: 'Restricción y regulación dentro de límites',
-        judgment: 'Jie. Hay buena fortuna. Las restricciones dolorosas no deben persistir.',
-        image: 'Agua sobre el lago forma Jie. El hombre superior establece sus pensamientos e investiga la naturaleza de las cosas.',
-      },
-      'es-zhouyi': {
-        name: 'La Limitación',
-        meaning: 'La limitacion, moderacion, medida',
-        judgment: 'Exito. La limitacion amarga no puede persistir.',
-        image: 'Sobre el lago hay agua: la Limitacion. El hombre superior establece numeros y medidas.',
-      },
-      'zh-zhouyi': {
-        name: '節',
-        meaning: '限制，界限，自我克制',
-        judgment: '亨。苦節，不可貞。',
-        image: '澤上有水，節。君子以制數度。',
-      },
-    },
   },
   61: {
     number: 61,
@@ -3208,50 +591,6 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '110011',
     upperTrigram: 'wind',
     lowerTrigram: 'lake',
-    translations: {
-      en: {
-        name: 'Inner Truth',
-        meaning: 'Sincerity, trustworthiness, integrity',
-        judgment: 'Inner Truth. Pigs and fishes. Good fortune. It furthers one to cross the great water. Perseverance furthers.',
-        image: 'Wind over lake: the image of Inner Truth. Thus the superior man discusses criminal cases in order to postpone death sentences.',
-      },
-      'en-wilhelm': {
-        name: 'Inner Truth',
-        meaning: 'Sincerity, trustworthiness, integrity',
-        judgment: 'Inner Truth. Pigs and fishes. Good fortune. It furthers one to cross the great water. Perseverance furthers.',
-        image: 'Wind over lake: the image of Inner Truth. Thus the superior man discusses criminal cases in order to postpone death sentences.',
-      },
-      'en-legge': {
-        name: 'Faithful Confidence',
-        meaning: 'Good faith and trust between parties',
-        judgment: 'Zhong Fu. There is good fortune. It is advantageous to cross the great water.',
-        image: 'Wind blowing over the lake forms Zhong Fu. The superior man determines lawsuits and delays executions.',
-      },
-      'es-wilhelm': {
-        name: 'La Verdad Interior',
-        meaning: 'Sinceridad, confiabilidad, integridad',
-        judgment: 'Verdad Interior. Cerdos y peces. Buena fortuna. Propicia cruzar la gran agua. La perseverancia propicia.',
-        image: 'Viento sobre lago: la imagen de la Verdad Interior. Así el hombre superior discute casos criminales para posponer sentencias de muerte.',
-      },
-      'es-legge': {
-        name: 'La Confianza Fiel',
-        meaning: 'Buena fe y confianza entre las partes',
-        judgment: 'Zhong Fu. Hay buena fortuna. Es propicio cruzar la gran agua.',
-        image: 'Viento soplando sobre el lago forma Zhong Fu. El hombre superior determina demandas y pospone ejecuciones.',
-      },
-      'es-zhouyi': {
-        name: 'La Verdad Interior',
-        meaning: 'La verdad interior, sinceridad central, confianza',
-        judgment: 'Cerdos y peces. Buena fortuna. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
-        image: 'Viento sobre el lago: la Verdad Interior. El hombre superior delibera sobre los procesos y pospone las ejecuciones.',
-      },
-      'zh-zhouyi': {
-        name: '中孚',
-        meaning: '誠意，可信，誠正',
-        judgment: '豚魚，吉。利涉大川，利貞。',
-        image: '風澤中孚，中孚。君子以議獄緩死。',
-      },
-    },
   },
   62: {
     number: 62,
@@ -3261,167 +600,39 @@ export const hexagrams: Record<number, Hexagram> = {
     binary: '001100',
     upperTrigram: 'thunder',
     lowerTrigram: 'mountain',
-    translations: {
-      en: {
-        name: 'Preponderance of the Small',
-        meaning: 'Excess of caution, petty details, limitation',
-        judgment: 'Preponderance of the Small. Success. Perseverance furthers. Small things may be done; great things should not be done. The flying bird brings the message: It is not well to strive upward, Well to strive downward. Great good fortune.',
-        image: 'Thunder on the mountain: the image of Preponderance of the Small. Thus in his conduct the superior man stresses what is slight.',
-      },
-      'en-wilhelm': {
-        name: 'Preponderance of the Small',
-        meaning: 'Excess of caution, petty details, limitation',
-        judgment: 'Preponderance of the Small. Success. Perseverance furthers. Small things may be done; great things should not be done. The flying bird brings the message: It is not well to strive upward, Well to strive downward. Great good fortune.',
-        image: 'Thunder on the mountain: the image of Preponderance of the Small. Thus in his conduct the superior man stresses what is slight.',
-      },
-      'en-legge': {
-        name: 'Small Excess',
-        meaning: 'Exceeding in small matters',
-        judgment: 'Xiao Guo. There is good fortune in small matters. It is not advantageous to undertake great affairs.',
-        image: 'Thunder above the mountain forms Xiao Guo. The superior man in this way emphasizes the small and makes light of it.',
-      },
-      'es-wilhelm': {
-        name: 'Preponderancia de lo Pequeño',
-        meaning: 'Exceso de cautela, detalles menores, limitación',
-        judgment: 'Preponderancia de lo Pequeño. Éxito. La perseverancia propicia. Lo pequeño se puede hacer; lo grande no se debe hacer.',
-        image: 'Trueno en la montaña: la imagen de Preponderancia de lo Pequeño. Así el hombre superior en su conducta da excesiva importancia al respeto.',
-      },
-      'es-legge': {
-        name: 'El Pequeño Exceso',
-        meaning: 'Exceder en asuntos pequeños',
-        judgment: 'Xiao Guo. Hay buena fortuna en asuntos pequeños. No es propicio emprender grandes asuntos.',
-        image: 'Trueno sobre la montaña forma Xiao Guo. El hombre superior así enfatiza lo pequeño y lo toma con ligereza.',
-      },
-      'es-zhouyi': {
-        name: 'El Exceso de lo Pequeño',
-        meaning: 'El exceso de lo pequeno, preponderancia de lo pequeno',
-        judgment: 'Exito. Propicio mediante la perseverancia. Se pueden hacer cosas pequenas, no se deben hacer cosas grandes. El pajaro volando deja su canto: no conviene ascender, conviene descender. Gran buena fortuna.',
-        image: 'Trueno sobre la montana: el Exceso de lo Pequeno. El hombre superior en su conducta excede en respeto.',
-      },
-      'zh-zhouyi': {
-        name: '小過',
-        meaning: '小心謹慎過度，瑣碎細節',
-        judgment: '亨，利貞。可小事，不可大事。飛鳥遺之音，不宜上，宜下，大吉。',
-        image: '雷山小過，小過。君子以行過乎恭。',
-      },
-    },
   },
   63: {
     number: 63,
     chinese: '既濟',
     pinyin: 'jì jì',
     unicode: '䷾',
-    binary: '010101',
+    binary: '101010',
     upperTrigram: 'water',
     lowerTrigram: 'fire',
-    translations: {
-      en: {
-        name: 'After Completion',
-        meaning: 'Completion, fulfillment, beyond the crisis',
-        judgment: 'After Completion. Success in small matters. Perseverance furthers. There is advantage in undertaking something. The beginning brings good fortune, the end brings disorder.',
-        image: 'Fire over water: the image of After Completion. Thus the superior man takes thought of danger and arms himself against it beforehand.',
-      },
-      'en-wilhelm': {
-        name: 'After Completion',
-        meaning: 'Completion, fulfillment, beyond the crisis',
-        judgment: 'After Completion. Success in small matters. Perseverance furthers. There is advantage in undertaking something. The beginning brings good fortune, the end brings disorder.',
-        image: 'Fire over water: the image of After Completion. Thus the superior man takes thought of danger and arms himself against it beforehand.',
-      },
-      'en-legge': {
-        name: 'After Completion',
-        meaning: 'Already completed and the need to remain vigilant',
-        judgment: 'Ji Ji. There is good fortune in small matters. It is advantageous to persevere. At the beginning there is good fortune, at the end disorder.',
-        image: 'Fire above water forms Ji Ji. The superior man thinks beforehand of difficulties and provides against them.',
-      },
-      'es-wilhelm': {
-        name: 'Después de la Completación',
-        meaning: 'Completación, cumplimiento, más allá de la crisis',
-        judgment: 'Después de la Completación. Éxito en pequeños asuntos. La perseverancia propicia. El comienzo trae buena fortuna, el final trae desorden.',
-        image: 'Fuego sobre agua: la imagen de Después de la Completación. Así el hombre superior prevé el peligro y se arma contra él de antemano.',
-      },
-      'es-legge': {
-        name: 'Después de la Completación',
-        meaning: 'Ya completado y la necesidad de permanecer vigilante',
-        judgment: 'Ji Ji. Hay buena fortuna en asuntos pequeños. Es propicio perseverar. Al principio hay buena fortuna, al final desorden.',
-        image: 'Fuego sobre agua forma Ji Ji. El hombre superior piensa de antemano en las dificultades y se previene contra ellas.',
-      },
-      'es-zhouyi': {
-        name: 'Después de la Consumación',
-        meaning: 'Despues de la consumacion, ya cruzado, completado',
-        judgment: 'Exito en lo pequeno. Propicio mediante la perseverancia. Al principio buena fortuna, al final desorden.',
-        image: 'Agua sobre fuego: Despues de la Consumacion. El hombre superior reflexiona sobre las calamidades y se previene contra ellas.',
-      },
-      'zh-zhouyi': {
-        name: '既濟',
-        meaning: '完成，成就，渡過危機',
-        judgment: '亨小，利貞，初吉終亂。',
-        image: '火在水上，既濟。君子以思患而預防之。',
-      },
-    },
   },
   64: {
     number: 64,
     chinese: '未濟',
     pinyin: 'wèi jì',
     unicode: '䷿',
-    binary: '101010',
+    binary: '010101',
     upperTrigram: 'fire',
     lowerTrigram: 'water',
-    translations: {
-      en: {
-        name: 'Before Completion',
-        meaning: 'Incompletion, transition, work in progress',
-        judgment: 'Before Completion. Success. The small fox, after nearly completing the crossing, gets his tail wet. No advantage in anything.',
-        image: 'Water over fire: the image of Before Completion. Thus the superior man is careful in the differentiation of things.',
-      },
-      'en-wilhelm': {
-        name: 'Before Completion',
-        meaning: 'Incompletion, transition, work in progress',
-        judgment: 'Before Completion. Success. The small fox, after nearly completing the crossing, gets his tail wet. No advantage in anything.',
-        image: 'Water over fire: the image of Before Completion. Thus the superior man is careful in the differentiation of things.',
-      },
-      'en-legge': {
-        name: 'Not Yet Completed',
-        meaning: 'Work still in progress and approaching completion',
-        judgment: 'Wei Ji. There is good fortune. The little fox almost completes the crossing but gets its tail wet. There is nothing advantageous.',
-        image: 'Water above fire forms Wei Ji. The superior man carefully distinguishes between things.',
-      },
-      'es-wilhelm': {
-        name: 'Antes de la Completación',
-        meaning: 'Incompletación, transición, trabajo en progreso',
-        judgment: 'Antes de la Completación. Éxito. El pequeño zorro, después de casi completar el cruce, se moja la cola. Ninguna ventaja.',
-        image: 'Agua sobre fuego: la imagen de Antes de la Completación. Así el hombre superior diferencia cuidadosamente las cosas.',
-      },
-      'es-legge': {
-        name: 'Aún No Completado',
-        meaning: 'Trabajo aún en progreso y acercándose a la completación',
-        judgment: 'Wei Ji. Hay buena fortuna. El pequeño zorro casi completa el cruce pero se moja la cola. No hay nada propicio.',
-        image: 'Agua sobre fuego forma Wei Ji. El hombre superior distingue cuidadosamente entre las cosas.',
-      },
-      'es-zhouyi': {
-        name: 'Antes de la Consumación',
-        meaning: 'Antes de la consumacion, aun no cruzado, incompleto',
-        judgment: 'Exito. El pequeno zorro casi cruza, se moja la cola. Nada propicio.',
-        image: 'Fuego sobre agua: Antes de la Consumacion. El hombre superior con cautela distingue las cosas y las ubica en su lugar.',
-      },
-      'zh-zhouyi': {
-        name: '未濟',
-        meaning: '未完成，過渡，進行中的工作',
-        judgment: '亨，小狐汔濟，濡其尾，無攸利。',
-        image: '火上有水，未濟。君子以愼辨物居方。',
-      },
-    },
   },
 };
 
-export function getHexagram(number: number): Hexagram | undefined {
+export function getHexagram(number: number): HexagramRecord | undefined {
   return hexagrams[number];
 }
 
-export function getHexagramTranslation(number: number, lang: string): Hexagram['translations'][string] | undefined {
-  const hex = hexagrams[number];
-  if (!hex) return undefined;
-  return hex.translations[lang] || hex.translations.en;
+/**
+ * Gets a hexagram translation by language-source key ('es-legge') or by
+ * language alone ('es', using its default source), falling back to English
+ */
+export function getHexagramTranslation(number: number, lang: string): HexagramTranslation | undefined {
+  if (!hexagrams[number]) return undefined;
+  const key = [lang, `${lang}-${getDefaultSourceForLanguage(lang)}`].find(hasTranslationChunk) ?? 'en-wilhelm';
+  return requireTranslationChunk(key)?.[number];
 }
 
 /**
@@ -3441,8 +652,26 @@ const DEFAULT_SOURCES: Record<string, string> = {
   en: 'wilhelm',
   es: 'wilhelm',
   zh: 'zhouyi',
+  fr: 'wilhelm',
+  de: 'wilhelm',
+  pt: 'wilhelm',
 };
 
+/**
+ * Language-source keys every hexagram carries a translation for
+ */
+export const TRANSLATION_KEYS: readonly string[] = [
+  'en-wilhelm',
+  'en-legge',
+  'es-wilhelm',
+  'es-legge',
+  'es-zhouyi',
+  'zh-zhouyi',
+  'fr-wilhelm',
+  'de-wilhelm',
+  'pt-wilhelm',
+];
+
 /**
  * Gets the default source for a language
  */
@@ -3458,9 +687,8 @@ export function getHexagramTranslationBySource(
   number: number,
   lang: string,
   source?: TranslationSource
-): Hexagram['translations'][string] | undefined {
-  const hex = hexagrams[number];
-  if (!hex) return undefined;
+): HexagramTranslation | undefined {
+  if (!hexagrams[number]) return undefined;
 
   // Use default source if not provided
   const translationSource = source || getDefaultSourceForLanguage(lang);
@@ -3468,5 +696,97 @@ export function getHexagramTranslationBySource(
   // Construct translation key (e.g., 'en-wilhelm', 'es-legge', 'zh-zhouyi')
   const key = `${lang}-${translationSource}`;
 
-  return hex.translations[key];
+  return requireTranslationChunk(key)?.[number];
+}
+
+/**
+ * Same lookup as getHexagramTranslationBySource, loading the translation's
+ * chunk asynchronously first when it is not loaded yet
+ */
+export async function getHexagramTranslationBySourceAsync(
+  number: number,
+  lang: string,
+  source?: TranslationSource
+): Promise<HexagramTranslation | undefined> {
+  if (!hexagrams[number]) return undefined;
+  const chunk = await loadTranslationChunk(`${lang}-${source || getDefaultSourceForLanguage(lang)}`);
+  return chunk?.[number];
+}
+
+/**
+ * Loads the translation TranslationPreferences selects for each language,
+ * or the language's default when the preferred source doesn't exist for it.
+ * Pass `languages` to preload only some, e.g. the interface language.
+ *
+ * @returns The translation keys that were loaded
+ */
+export async function preloadTranslations(
+  preferences: TranslationPreferences,
+  languages: string[] = Object.keys(preferences)
+): Promise<string[]> {
+  const sources: Partial<Record<string, string>> = preferences;
+  const keys = languages
+    .map((lang) => {
+      const preferred = `${lang}-${sources[lang]}`;
+      return hasTranslationChunk(preferred) ? preferred : `${lang}-${getDefaultSourceForLanguage(lang)}`;
+    })
+    .filter(hasTranslationChunk);
+  await Promise.all(keys.map(loadTranslationChunk));
+  return keys;
+}
+
+/**
+ * Assembles every hexagram with the given translations, loading all of
+ * their chunks. Meant for tooling such as validateHexagramData; display
+ * code should look translations up one at a time instead.
+ */
+export function getHexagramsWithTranslations(keys: readonly string[] = TRANSLATION_KEYS): Record<number, Hexagram> {
+  const assembled: Record<number, Hexagram> = {};
+  for (const hex of Object.values(hexagrams)) {
+    const translations: Record<string, HexagramTranslation> = {};
+    for (const key of keys) {
+      const translation = requireTranslationChunk(key)?.[hex.number];
+      if (translation) translations[key] = translation;
+    }
+    assembled[hex.number] = { ...hex, translations };
+  }
+  return assembled;
+}
+
+/**
+ * Gets the six line statements of a hexagram by language and source,
+ * ordered from bottom (position 1) to top (position 6)
+ */
+export function getHexagramLinesBySource(
+  number: number,
+  lang: string,
+  source?: TranslationSource
+): HexagramLine[] | undefined {
+  return getHexagramTranslationBySource(number, lang, source)?.lines;
+}
+
+/**
+ * Gets a single line statement by position (1 = bottom line)
+ */
+export function getHexagramLineBySource(
+  number: number,
+  position: LinePosition,
+  lang: string,
+  source?: TranslationSource
+): HexagramLine | undefined {
+  return getHexagramLinesBySource(number, lang, source)?.find((line) => line.position === position);
+}
+
+/**
+ * Gets the statements for a set of moving lines, ordered from bottom to top
+ */
+export function getMovingLinesBySource(
+  number: number,
+  positions: LinePosition[],
+  lang: string,
+  source?: TranslationSource
+): HexagramLine[] {
+  const lines = getHexagramLinesBySource(number, lang, source);
+  if (!lines) return [];
+  return lines.filter((line) => positions.includes(line.position));
 }
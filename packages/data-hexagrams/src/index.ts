@@ -1,15 +1,25 @@
 /**
  * @iching-kt/data-hexagrams
  *
- * Shared I-Ching hexagram data with multilingual translations.
+ * Shared I-Ching hexagram and trigram data with multilingual translations,
+ * each translation loaded on demand (see loading.ts).
  *
  * License: MIT
  * Data Sources:
  * - Wilhelm-Baynes Translation (Public Domain since 2020)
  * - James Legge Translation (Public Domain)
  * - Unicode Consortium (Open Standard)
+ * - Claude translations for es, fr, de and pt (MIT, see attribution.ts)
  */
 
 export * from './types';
 export * from './hexagrams';
+export * from './loading';
+export * from './trigrams';
 export * from './sovereign';
+export * from './algebra';
+export * from './casting';
+export * from './sequences';
+export * from './validation';
+export * from './search';
+export * from './attribution';
@@ -0,0 +1,117 @@
+/**
+ * Translation Chunk Loading
+ *
+ * Each language-source translation lives in its own module under
+ * translations/, so only the keys a user reads are parsed:
+ * - loadTranslationChunk: asynchronous import, for preloading ahead of use
+ * - requireTranslationChunk: synchronous require on first use, so lookups
+ *   that cannot wait still work before anything was preloaded
+ *
+ * Both paths share one cache, so a chunk is only ever evaluated once.
+ */
+
+import { HexagramTranslation } from './types';
+
+/** All 64 hexagrams' translations for one language-source key */
+export type TranslationChunk = Record<number, HexagramTranslation>;
+
+interface ChunkLoader {
+  load: () => Promise<TranslationChunk>;
+  require: () => TranslationChunk;
+}
+
+const CHUNK_LOADERS: Record<string, ChunkLoader> = {
+  'en-wilhelm': {
+    load: () => import('./translations/en-wilhelm').then((m) => m.translations),
+    require: () => require('./translations/en-wilhelm').translations,
+  },
+  'en-legge': {
+    load: () => import('./translations/en-legge').then((m) => m.translations),
+    require: () => require('./translations/en-legge').translations,
+  },
+  'es-wilhelm': {
+    load: () => import('./translations/es-wilhelm').then((m) => m.translations),
+    require: () => require('./translations/es-wilhelm').translations,
+  },
+  'es-legge': {
+    load: () => import('./translations/es-legge').then((m) => m.translations),
+    require: () => require('./translations/es-legge').translations,
+  },
+  'es-zhouyi': {
+    load: () => import('./translations/es-zhouyi').then((m) => m.translations),
+    require: () => require('./translations/es-zhouyi').translations,
+  },
+  'zh-zhouyi': {
+    load: () => import('./translations/zh-zhouyi').then((m) => m.translations),
+    require: () => require('./translations/zh-zhouyi').translations,
+  },
+  'fr-wilhelm': {
+    load: () => import('./translations/fr-wilhelm').then((m) => m.translations),
+    require: () => require('./translations/fr-wilhelm').translations,
+  },
+  'de-wilhelm': {
+    load: () => import('./translations/de-wilhelm').then((m) => m.translations),
+    require: () => require('./translations/de-wilhelm').translations,
+  },
+  'pt-wilhelm': {
+    load: () => import('./translations/pt-wilhelm').then((m) => m.translations),
+    require: () => require('./translations/pt-wilhelm').translations,
+  },
+};
+
+const loaded = new Map<string, TranslationChunk>();
+const pending = new Map<string, Promise<TranslationChunk>>();
+
+/**
+ * Whether a chunk exists for a language-source key
+ */
+export function hasTranslationChunk(key: string): boolean {
+  return key in CHUNK_LOADERS;
+}
+
+/**
+ * Whether a chunk has already been loaded, so reading it costs nothing
+ */
+export function isTranslationChunkLoaded(key: string): boolean {
+  return loaded.has(key);
+}
+
+/**
+ * Loads the chunk for a language-source key, resolving to undefined for
+ * keys without one. Concurrent calls share a single import.
+ */
+export function loadTranslationChunk(key: string): Promise<TranslationChunk | undefined> {
+  const chunk = loaded.get(key);
+  if (chunk) return Promise.resolve(chunk);
+  const loader = CHUNK_LOADERS[key];
+  if (!loader) return Promise.resolve(undefined);
+
+  let request = pending.get(key);
+  if (!request) {
+    // A failed import is forgotten, so the next call tries again
+    request = loader
+      .load()
+      .then((translations) => {
+        loaded.set(key, translations);
+        return translations;
+      })
+      .finally(() => pending.delete(key));
+    pending.set(key, request);
+  }
+  return request;
+}
+
+/**
+ * Gets the chunk for a language-source key, requiring it synchronously
+ * when it has not been loaded yet
+ */
+export function requireTranslationChunk(key: string): TranslationChunk | undefined {
+  let chunk = loaded.get(key);
+  if (!chunk) {
+    const loader = CHUNK_LOADERS[key];
+    if (!loader) return undefined;
+    chunk = loader.require();
+    loaded.set(key, chunk);
+  }
+  return chunk;
+}
@@ -0,0 +1,270 @@
+/**
+ * Hexagram Search
+ *
+ * Full-text search over the name, meaning, judgment and image of one
+ * translation, plus the Chinese name and pinyin of every hexagram:
+ * - Case and diacritics are ignored, so 'qian', 'qián' and 'qian2' all
+ *   find 乾 and 'accion' finds 'acción'
+ * - Chinese characters are matched one at a time, since CJK text has no
+ *   spaces to split words on
+ * - Other words match whole or by prefix ('cross' finds 'crossing'), and
+ *   the query's common words ('the', 'el', 'der') are skipped
+ * - Results rank by how many query words they match, then by the fields
+ *   they match in (see SEARCH_FIELD_WEIGHTS)
+ *
+ * Each result carries a snippet of its best-matching field with the
+ * offsets of the matched words, for views to highlight.
+ */
+
+import { getHexagramTranslationBySource, hexagrams } from './hexagrams';
+import { TranslationSource } from './types';
+
+export type SearchField = 'chinese' | 'pinyin' | 'name' | 'meaning' | 'judgment' | 'image';
+
+/**
+ * Score of a match in each field; the first three name the hexagram
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  chinese: 4,
+  pinyin: 4,
+  name: 4,
+  meaning: 3,
+  judgment: 2,
+  image: 1,
+};
+
+/** A word of a text, folded for matching, with its place in the text */
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/** Range of snippet text to highlight (end exclusive) */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+export interface SearchSnippet {
+  field: SearchField;
+  text: string;
+  highlights: SearchHighlight[];
+}
+
+export interface HexagramSearchResult {
+  number: number;
+  /** How many of the query's words matched */
+  matchedTerms: number;
+  /** Sum over the matched words of their best field weight */
+  score: number;
+  /** Excerpt of the best-matching field */
+  snippet: SearchSnippet;
+}
+
+export interface HexagramSearchOptions {
+  /** Language of the translation to search (default: 'en') */
+  language?: string;
+  /** Translation source (default: the language's default source) */
+  source?: TranslationSource;
+  /** Maximum number of results (default: all) */
+  limit?: number;
+}
+
+/** Han characters: Extension A, Unified Ideographs, Compatibility Ideographs */
+const CJK = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+/** Letters and digits left after folding */
+const WORD = /^[a-z0-9\u00df-\u00f6\u00f8-\u00ff\u0153]+$/;
+/** Pinyin syllable with a tone number ('qian2') */
+const TONE_NUMBER = /^([a-z]+)[1-5]$/;
+/** Shortest query word that also matches longer words it starts */
+const MIN_PREFIX_LENGTH = 3;
+/** A prefix match scores this much of a whole-word match */
+const PREFIX_MATCH = 0.5;
+
+const SNIPPET_LENGTH = 120;
+/** Characters kept before the first highlight when the field is cut */
+const SNIPPET_CONTEXT = 30;
+
+/**
+ * Words skipped in queries, folded. Kept short on purpose: only words so
+ * common they would match nearly every hexagram.
+ */
+const STOPWORDS: Record<string, string[]> = {
+  en: ['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'is', 'it', 'of', 'on', 'or', 'that', 'the', 'to', 'with'],
+  es: ['a', 'al', 'con', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'lo', 'los', 'o', 'para', 'por', 'que', 'se', 'su', 'un', 'una', 'y'],
+  fr: ['a', 'au', 'aux', 'avec', 'd', 'de', 'des', 'du', 'en', 'est', 'et', 'l', 'la', 'le', 'les', 'ou', 'par', 'pour', 'que', 'qui', 'sur', 'un', 'une'],
+  de: ['am', 'an', 'auf', 'das', 'dem', 'den', 'der', 'des', 'die', 'ein', 'eine', 'einen', 'einer', 'es', 'im', 'in', 'ist', 'mit', 'und', 'von', 'zu'],
+  pt: ['a', 'ao', 'as', 'com', 'da', 'das', 'de', 'do', 'dos', 'e', 'em', 'na', 'no', 'nos', 'o', 'os', 'ou', 'para', 'por', 'que', 'se', 'um', 'uma'],
+};
+
+/**
+ * Lowercases text and strips its diacritics ('Qián' → 'qian')
+ */
+export function foldSearchText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Splits text into folded words, each Chinese character being a word of
+ * its own, and drops pinyin tone numbers
+ */
+export function tokenizeSearchText(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  let term = '';
+  let start = 0;
+  const flush = (end: number) => {
+    if (term) tokens.push({ term: term.replace(TONE_NUMBER, '$1'), start, end });
+    term = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (CJK.test(char)) {
+      flush(i);
+      tokens.push({ term: char, start: i, end: i + 1 });
+      continue;
+    }
+    const folded = foldSearchText(char);
+    if (!folded) continue; // a combining mark of decomposed input
+    if (WORD.test(folded)) {
+      if (!term) start = i;
+      term += folded;
+    } else {
+      flush(i);
+    }
+  }
+  flush(text.length);
+  return tokens;
+}
+
+interface IndexedField {
+  field: SearchField;
+  text: string;
+  tokens: SearchToken[];
+}
+
+const indexes = new Map<string, Map<number, IndexedField[]>>();
+
+function indexField(field: SearchField, text: string): IndexedField {
+  const tokens = tokenizeSearchText(text);
+  // Pinyin is also matched written as one word ('weiji' for 'wèi jì')
+  if (field === 'pinyin' && tokens.length > 1) {
+    tokens.push({ term: tokens.map((token) => token.term).join(''), start: 0, end: text.length });
+  }
+  return { field, text, tokens };
+}
+
+/**
+ * Indexes the hexagrams in one translation, on first search in it
+ */
+function getIndex(language: string, source?: TranslationSource): Map<number, IndexedField[]> {
+  const cacheKey = `${language}-${source ?? ''}`;
+  let index = indexes.get(cacheKey);
+  if (!index) {
+    index = new Map();
+    for (const hex of Object.values(hexagrams)) {
+      const fields = [indexField('chinese', hex.chinese), indexField('pinyin', hex.pinyin)];
+      const translation = getHexagramTranslationBySource(hex.number, language, source);
+      if (translation) {
+        for (const field of ['name', 'meaning', 'judgment', 'image'] as const) {
+          fields.push(indexField(field, translation[field]));
+        }
+      }
+      index.set(hex.number, fields);
+    }
+    indexes.set(cacheKey, index);
+  }
+  return index;
+}
+
+/**
+ * Folded words of a query, without the language's common words unless
+ * the query has nothing else
+ */
+function getQueryTerms(query: string, language: string): string[] {
+  const terms = Array.from(new Set(tokenizeSearchText(query).map((token) => token.term)));
+  const stopwords = STOPWORDS[language] ?? [];
+  const meaningful = terms.filter((term) => !stopwords.includes(term));
+  return meaningful.length > 0 ? meaningful : terms;
+}
+
+function matchStrength(queryTerm: string, term: string): number {
+  if (term === queryTerm) return 1;
+  if (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm)) return PREFIX_MATCH;
+  return 0;
+}
+
+function makeSnippet(field: IndexedField, matches: SearchToken[]): SearchSnippet {
+  const highlights = matches
+    .map(({ start, end }) => ({ start, end }))
+    .sort((a, b) => a.start - b.start)
+    .filter((highlight, i, all) => i === 0 || highlight.start >= all[i - 1].end);
+  const { text } = field;
+  if (text.length <= SNIPPET_LENGTH) return { field: field.field, text, highlights };
+
+  const first = highlights[0];
+  let start = Math.max(0, first.start - SNIPPET_CONTEXT);
+  const wordStart = text.indexOf(' ', start);
+  if (start > 0 && wordStart !== -1 && wordStart < first.start) start = wordStart + 1;
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const wordEnd = text.lastIndexOf(' ', end);
+  if (end < text.length && wordEnd > first.end) end = wordEnd;
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const offset = prefix.length - start;
+  return {
+    field: field.field,
+    text: prefix + text.slice(start, end) + suffix,
+    highlights: highlights
+      .filter((highlight) => highlight.start >= start && highlight.end <= end)
+      .map((highlight) => ({ start: highlight.start + offset, end: highlight.end + offset })),
+  };
+}
+
+/**
+ * Searches the hexagrams in one translation, best matches first
+ */
+export function searchHexagrams(query: string, options: HexagramSearchOptions = {}): HexagramSearchResult[] {
+  const language = options.language ?? 'en';
+  const queryTerms = getQueryTerms(query, language);
+  if (queryTerms.length === 0) return [];
+
+  const results: HexagramSearchResult[] = [];
+  getIndex(language, options.source).forEach((fields, number) => {
+    const termScores = queryTerms.map(() => 0);
+    let best: { field: IndexedField; score: number; matches: SearchToken[] } | undefined;
+
+    for (const field of fields) {
+      const weight = SEARCH_FIELD_WEIGHTS[field.field];
+      const matches: SearchToken[] = [];
+      let fieldScore = 0;
+      queryTerms.forEach((queryTerm, i) => {
+        let strength = 0;
+        for (const token of field.tokens) {
+          const tokenStrength = matchStrength(queryTerm, token.term);
+          if (tokenStrength > 0) {
+            matches.push(token);
+            strength = Math.max(strength, tokenStrength);
+          }
+        }
+        fieldScore += strength * weight;
+        termScores[i] = Math.max(termScores[i], strength * weight);
+      });
+      if (fieldScore > 0 && (!best || fieldScore > best.score)) best = { field, score: fieldScore, matches };
+    }
+
+    if (best) {
+      results.push({
+        number,
+        matchedTerms: termScores.filter((score) => score > 0).length,
+        score: termScores.reduce((sum, score) => sum + score, 0),
+        snippet: makeSnippet(best.field, best.matches),
+      });
+    }
+  });
+
+  results.sort((a, b) => b.matchedTerms - a.matchedTerms || b.score - a.score || a.number - b.number);
+  return options.limit !== undefined ? results.slice(0, options.limit) : results;
+}
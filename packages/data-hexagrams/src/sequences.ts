@@ -0,0 +1,168 @@
+/**
+ * Hexagram Sequences
+ *
+ * Orders of the 64 hexagrams, each a list of King Wen numbers (the
+ * `number` of every hexagram):
+ * - 'king-wen': the received order (文王卦序)
+ * - 'fu-xi': Shao Yong's binary order (伏羲先天卦序), from 乾 to 坤. Read
+ *   with yang as 1 and the bottom line as the highest bit, position n
+ *   holds the hexagram worth 64 - n; rows of eight give the Fu Xi square,
+ *   one lower trigram per row
+ * - 'mawangdui': the silk manuscript order (馬王堆帛書), one upper trigram
+ *   per group of eight (乾 艮 坎 震 坤 兌 離 巽), each group opening with its
+ *   doubled hexagram and following the lower trigrams 乾 坤 艮 兌 坎 離 震 巽
+ * - 'eight-palaces': Jing Fang's Eight Palaces (京房八宮, 乾 震 坎 艮 坤 巽
+ *   離 兌), each palace running from its pure hexagram through five
+ *   generations of changed lines to the wandering and returning souls
+ *
+ * The sequences are built from the trigrams rather than typed out, so the
+ * rule behind each order is the code that produces it.
+ */
+
+import { composeHexagram, flipLines, getHexagramNumberByBinary, TRIGRAM_BINARY } from './algebra';
+import { trigrams } from './trigrams';
+import { LinePosition, TrigramId } from './types';
+
+export type HexagramSequenceId = 'king-wen' | 'fu-xi' | 'mawangdui' | 'eight-palaces';
+
+export interface HexagramSequence {
+  id: HexagramSequenceId;
+  chinese: string;
+  /** King Wen numbers in sequence order (position 1 first) */
+  hexagrams: number[];
+  /**
+   * Trigram shared by each group of eight: the lower trigram (fu-xi), the
+   * upper trigram (mawangdui) or the palace (eight-palaces)
+   */
+  groupTrigrams?: TrigramId[];
+}
+
+/** Place of a hexagram within its palace, from the pure hexagram onwards */
+export type PalaceGeneration =
+  | 'pure' | 'first' | 'second' | 'third' | 'fourth' | 'fifth'
+  | 'wandering' | 'returning';
+
+export const PALACE_GENERATIONS: readonly PalaceGeneration[] = [
+  'pure', 'first', 'second', 'third', 'fourth', 'fifth', 'wandering', 'returning',
+];
+
+/** Traditional names of the palace generations */
+export const PALACE_GENERATION_NAMES: Record<PalaceGeneration, string> = {
+  pure: '本宮',
+  first: '一世',
+  second: '二世',
+  third: '三世',
+  fourth: '四世',
+  fifth: '五世',
+  wandering: '遊魂',
+  returning: '歸魂',
+};
+
+export interface PalacePlace {
+  palace: TrigramId;
+  generation: PalaceGeneration;
+}
+
+/** Trigrams in Earlier Heaven (Fu Xi) order: 乾 兌 離 震 巽 坎 艮 坤 */
+const FU_XI_TRIGRAMS: TrigramId[] = Object.values(trigrams)
+  .sort((a, b) => a.earlierHeaven.number - b.earlierHeaven.number)
+  .map((trigram) => trigram.id);
+
+const MAWANGDUI_UPPER: TrigramId[] = ['heaven', 'mountain', 'water', 'thunder', 'earth', 'lake', 'fire', 'wind'];
+const MAWANGDUI_LOWER: TrigramId[] = ['heaven', 'earth', 'mountain', 'lake', 'water', 'fire', 'thunder', 'wind'];
+
+const PALACES: TrigramId[] = ['heaven', 'thunder', 'water', 'mountain', 'earth', 'wind', 'fire', 'lake'];
+
+function compose(upper: TrigramId, lower: TrigramId): number {
+  return composeHexagram(upper, lower) ?? 0;
+}
+
+/**
+ * Binaries of a palace in generation order: lines flipped from the bottom
+ * up to the fifth, then the fourth flipped back (wandering soul), then the
+ * lower trigram restored (returning soul)
+ */
+function palaceBinaries(palace: TrigramId): string[] {
+  const pure = TRIGRAM_BINARY[palace] + TRIGRAM_BINARY[palace];
+  const generations = [1, 2, 3, 4, 5].map((count) =>
+    flipLines(pure, [1, 2, 3, 4, 5].slice(0, count) as LinePosition[])
+  );
+  const wandering = flipLines(generations[4], [4]);
+  const returning = pure.slice(0, 3) + wandering.slice(3);
+  return [pure, ...generations, wandering, returning];
+}
+
+export const HEXAGRAM_SEQUENCES: Record<HexagramSequenceId, HexagramSequence> = {
+  'king-wen': {
+    id: 'king-wen',
+    chinese: '文王卦序',
+    hexagrams: Array.from({ length: 64 }, (_, i) => i + 1),
+  },
+  'fu-xi': {
+    id: 'fu-xi',
+    chinese: '伏羲先天卦序',
+    hexagrams: FU_XI_TRIGRAMS.flatMap((lower) => FU_XI_TRIGRAMS.map((upper) => compose(upper, lower))),
+    groupTrigrams: FU_XI_TRIGRAMS,
+  },
+  mawangdui: {
+    id: 'mawangdui',
+    chinese: '馬王堆帛書卦序',
+    hexagrams: MAWANGDUI_UPPER.flatMap((upper) => [
+      compose(upper, upper),
+      ...MAWANGDUI_LOWER.filter((lower) => lower !== upper).map((lower) => compose(upper, lower)),
+    ]),
+    groupTrigrams: MAWANGDUI_UPPER,
+  },
+  'eight-palaces': {
+    id: 'eight-palaces',
+    chinese: '京房八宮卦序',
+    hexagrams: PALACES.flatMap((palace) =>
+      palaceBinaries(palace).map((binary) => getHexagramNumberByBinary(binary) ?? 0)
+    ),
+    groupTrigrams: PALACES,
+  },
+};
+
+export const HEXAGRAM_SEQUENCE_IDS = Object.keys(HEXAGRAM_SEQUENCES) as HexagramSequenceId[];
+
+/** 1-based position of every hexagram, by sequence */
+const POSITIONS = Object.fromEntries(
+  HEXAGRAM_SEQUENCE_IDS.map((id) => [
+    id,
+    Object.fromEntries(HEXAGRAM_SEQUENCES[id].hexagrams.map((number, index) => [number, index + 1])),
+  ])
+) as Record<HexagramSequenceId, Record<number, number>>;
+
+export function isHexagramSequenceId(value: unknown): value is HexagramSequenceId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(HEXAGRAM_SEQUENCES, value);
+}
+
+export function getHexagramSequence(id: HexagramSequenceId): HexagramSequence {
+  return HEXAGRAM_SEQUENCES[id];
+}
+
+/**
+ * Gets the position (1-64) of a hexagram, given by King Wen number, in a sequence
+ */
+export function getSequencePosition(id: HexagramSequenceId, number: number): number | undefined {
+  return POSITIONS[id][number];
+}
+
+/**
+ * Gets the King Wen number of the hexagram at a position (1-64) of a sequence
+ */
+export function getHexagramAtPosition(id: HexagramSequenceId, position: number): number | undefined {
+  return HEXAGRAM_SEQUENCES[id].hexagrams[position - 1];
+}
+
+/**
+ * Gets the palace of a hexagram and its generation within it
+ */
+export function getPalace(number: number): PalacePlace | undefined {
+  const position = getSequencePosition('eight-palaces', number);
+  if (position === undefined) return undefined;
+  return {
+    palace: PALACES[Math.floor((position - 1) / 8)],
+    generation: PALACE_GENERATIONS[(position - 1) % 8],
+  };
+}
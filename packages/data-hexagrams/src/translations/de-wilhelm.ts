@@ -0,0 +1,908 @@
+/**
+ * German Wilhelm translation of all 64 hexagrams ('de-wilhelm')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'Das Schöpferische',
+    meaning: 'Himmel, das schöpferische Prinzip, reine Yang-Kraft',
+    judgment: 'Das Schöpferische wirkt erhabenes Gelingen, fördernd durch Beharrlichkeit.',
+    image: 'Des Himmels Bewegung ist kraftvoll. So macht der Edle sich stark und unermüdlich.',
+    lines: [
+      { position: 1, text: 'Verborgener Drache. Handle nicht.' },
+      { position: 2, text: 'Erscheinender Drache auf dem Feld. Fördernd ist es, den großen Mann zu sehen.' },
+      { position: 3, text: 'Der Edle ist den ganzen Tag schöpferisch tätig. Des Abends noch ist er voll innerer Sorge. Gefahr. Kein Makel.' },
+      { position: 4, text: 'Schwankender Aufschwung über der Tiefe. Kein Makel.' },
+      { position: 5, text: 'Fliegender Drache am Himmel. Fördernd ist es, den großen Mann zu sehen.' },
+      { position: 6, text: 'Hochmütiger Drache wird Reue haben.' },
+    ],
+    allMoving: 'Es erscheint ein Flug von Drachen ohne Häupter. Heil!',
+  },
+  2: {
+    name: 'Das Empfangende',
+    meaning: 'Erde, das empfangende Prinzip, reine Yin-Kraft',
+    judgment: 'Das Empfangende wirkt erhabenes Gelingen, fördernd durch die Beharrlichkeit einer Stute.',
+    image: 'Der Erde Zustand ist die empfangende Hingebung. So trägt der Edle, der weiten Charakters ist, die Außenwelt.',
+    lines: [
+      { position: 1, text: 'Wenn man auf Reif tritt, so naht das feste Eis.' },
+      { position: 2, text: 'Gerade, rechtwinklig, groß. Ohne Absicht bleibt doch nichts ungefördert.' },
+      { position: 3, text: 'Verborgene Linien. Man vermag beharrlich zu bleiben. Folgst du etwa eines Königs Dienst, so suche nicht Werke, sondern vollende.' },
+      { position: 4, text: 'Zugebundener Sack. Kein Makel, kein Lob.' },
+      { position: 5, text: 'Gelbes Untergewand bringt erhabenes Heil.' },
+      { position: 6, text: 'Drachen kämpfen auf dem Anger. Ihr Blut ist schwarz und gelb.' },
+    ],
+    allMoving: 'Fördernd ist dauernde Beharrlichkeit.',
+  },
+  11: {
+    name: 'Der Friede',
+    meaning: 'Himmel und Erde vereinen sich, Eintracht und Gedeihen',
+    judgment: 'Der Friede. Das Kleine geht hin, das Große kommt herbei. Heil! Gelingen.',
+    image: 'Himmel und Erde vereinigen sich: das Bild des Friedens. So teilt und vollendet der Herrscher den Lauf von Himmel und Erde.',
+    lines: [
+      { position: 1, text: 'Wenn man Bandgras ausreißt, so geht der Rasen mit. Jeder nach seiner Art. Unternehmungen bringen Heil.' },
+      { position: 2, text: 'Die Ungebildeten in Milde tragen, entschlossen den Fluss durchschreiten, das Ferne nicht vernachlässigen, die Genossen nicht berücksichtigen: so mag man es treffen, in der Mitte zu wandeln.' },
+      { position: 3, text: 'Keine Ebene, der nicht ein Abhang folgt. Kein Hingang, dem nicht die Wiederkehr folgt. Ohne Makel ist, wer in Gefahr beharrlich bleibt. Beklage dich nicht über diese Wahrheit; genieße das Glück, das du noch hast.' },
+      { position: 4, text: 'Er flattert herab, prunkt nicht mit seinem Reichtum, zusammen mit seinem Nachbarn, arglos und wahrhaftig.' },
+      { position: 5, text: 'Der Herrscher I gibt seine Tochter in die Ehe. Das bringt Segen und erhabenes Heil.' },
+      { position: 6, text: 'Die Mauer fällt in den Graben zurück. Verwende jetzt keine Heere. Verkünde deine Befehle in deiner eigenen Stadt. Beharrlichkeit bringt Beschämung.' },
+    ],
+  },
+  12: {
+    name: 'Die Stockung',
+    meaning: 'Himmel und Erde vereinen sich nicht, Stillstand',
+    judgment: 'Die Stockung. Gemeine Menschen sind der Beharrlichkeit des Edlen nicht förderlich. Das Große geht hin, das Kleine kommt herbei.',
+    image: 'Himmel und Erde vereinigen sich nicht: das Bild der Stockung. So zieht sich der Edle auf seinen inneren Wert zurück.',
+    lines: [
+      { position: 1, text: 'Wenn man Bandgras ausreißt, so geht der Rasen mit. Jeder nach seiner Art. Beharrlichkeit bringt Heil und Gelingen.' },
+      { position: 2, text: 'Sie tragen und dulden; das bedeutet Heil für die Gemeinen. Die Stockung dient dem großen Mann zum Gelingen.' },
+      { position: 3, text: 'Sie tragen die Schande.' },
+      { position: 4, text: 'Wer auf Befehl des Höchsten handelt, bleibt ohne Makel. Die Gleichgesinnten haben teil am Segen.' },
+      { position: 5, text: 'Die Stockung weicht. Heil dem großen Mann! „Wenn es nur nicht misslingt, wenn es nur nicht misslingt!“ So bindet er es an einen Busch von Maulbeerschösslingen.' },
+      { position: 6, text: 'Die Stockung hört auf. Erst Stockung, dann Heil.' },
+    ],
+  },
+  19: {
+    name: 'Die Annäherung',
+    meaning: 'Herannahen, Großwerden, Vorrücken',
+    judgment: 'Die Annäherung hat erhabenes Gelingen. Fördernd ist Beharrlichkeit. Wenn der achte Monat kommt, so gibt es Unheil.',
+    image: 'Über dem See ist die Erde: das Bild der Annäherung. So ist der Edle unerschöpflich in seinem Willen zu lehren.',
+    lines: [
+      { position: 1, text: 'Gemeinsame Annäherung. Beharrlichkeit bringt Heil.' },
+      { position: 2, text: 'Gemeinsame Annäherung. Heil! Alles ist fördernd.' },
+      { position: 3, text: 'Bequeme Annäherung. Nichts, das fördernd wäre. Wenn man dazu gebracht wird, sich darüber zu grämen, wird man frei von Makel.' },
+      { position: 4, text: 'Vollkommene Annäherung. Kein Makel.' },
+      { position: 5, text: 'Weise Annäherung. Das ist recht für einen großen Fürsten. Heil!' },
+      { position: 6, text: 'Großherzige Annäherung. Heil! Kein Makel.' },
+    ],
+  },
+  20: {
+    name: 'Die Betrachtung',
+    meaning: 'Schauen, Beobachten, Vorbild sein',
+    judgment: 'Die Betrachtung. Die Waschung ist vollzogen, aber noch nicht die Darbringung. Voll Vertrauen blicken sie zu ihm auf.',
+    image: 'Der Wind fährt über die Erde hin: das Bild der Betrachtung. So besuchten die alten Könige die Gegenden der Welt.',
+    lines: [
+      { position: 1, text: 'Knabenhafte Betrachtung. Für einen gemeinen Menschen kein Makel. Für einen Edlen Beschämung.' },
+      { position: 2, text: 'Betrachtung durch den Türspalt. Fördernd für die Beharrlichkeit einer Frau.' },
+      { position: 3, text: 'Die Betrachtung meines Lebens entscheidet zwischen Vorgehen und Rückzug.' },
+      { position: 4, text: 'Betrachtung des Lichts des Reiches. Fördernd ist es, als Gast eines Königs zu wirken.' },
+      { position: 5, text: 'Betrachtung meines Lebens. Der Edle ist ohne Makel.' },
+      { position: 6, text: 'Betrachtung seines Lebens. Der Edle ist ohne Makel.' },
+    ],
+  },
+  23: {
+    name: 'Die Zersplitterung',
+    meaning: 'Verfall, Abtragung, Zerfall',
+    judgment: 'Die Zersplitterung. Nicht fördernd ist es, irgendwohin zu gehen.',
+    image: 'Der Berg ruht auf der Erde: das Bild der Zersplitterung. So können die Oberen ihre Stellung nur sichern, indem sie den Unteren reichlich geben.',
+    lines: [
+      { position: 1, text: 'Das Bein des Bettes wird zersplittert. Die Beharrlichen werden vernichtet. Unheil!' },
+      { position: 2, text: 'Das Bett wird am Rand zersplittert. Die Beharrlichen werden vernichtet. Unheil!' },
+      { position: 3, text: 'Er zersplittert mit ihnen. Kein Makel.' },
+      { position: 4, text: 'Das Bett wird bis zur Haut zersplittert. Unheil!' },
+      { position: 5, text: 'Ein Zug Fische. Gunst kommt durch die Hofdamen. Alles ist fördernd.' },
+      { position: 6, text: 'Da ist eine große Frucht noch ungegessen. Der Edle erhält einen Wagen. Dem gemeinen Menschen wird das Haus zersplittert.' },
+    ],
+  },
+  24: {
+    name: 'Die Wiederkehr',
+    meaning: 'Die Wende, Erneuerung, Rückkehr',
+    judgment: 'Die Wiederkehr. Gelingen. Aus- und Eingang ohne Fehl. Freunde kommen ohne Makel. Hin und her geht der Weg.',
+    image: 'Der Donner inmitten der Erde: das Bild der Wendezeit. So schlossen die alten Könige zur Zeit der Sonnenwende die Pässe.',
+    lines: [
+      { position: 1, text: 'Wiederkehr aus nicht zu großer Ferne. Keine Reue nötig. Erhabenes Heil.' },
+      { position: 2, text: 'Ruhige Wiederkehr. Heil!' },
+      { position: 3, text: 'Wiederholte Wiederkehr. Gefahr. Kein Makel.' },
+      { position: 4, text: 'Inmitten der anderen wandelnd, kehrt man allein zurück.' },
+      { position: 5, text: 'Großherzige Wiederkehr. Keine Reue.' },
+      { position: 6, text: 'Verfehlte Wiederkehr. Unheil. Unheil von innen und außen. Lässt man so Heere marschieren, so erleidet man am Ende eine große Niederlage, unheilvoll für den Herrscher des Landes. Zehn Jahre lang kann man nicht wieder angreifen.' },
+    ],
+  },
+  33: {
+    name: 'Der Rückzug',
+    meaning: 'Zurückweichen, Nachgeben, strategischer Rückzug',
+    judgment: 'Der Rückzug. Gelingen. Im Kleinen ist Beharrlichkeit fördernd.',
+    image: 'Unter dem Himmel ist der Berg: das Bild des Rückzugs. So hält der Edle den Gemeinen fern, nicht zornig, sondern gemessen.',
+    lines: [
+      { position: 1, text: 'Am Schwanz beim Rückzug. Das ist gefährlich. Man soll nichts unternehmen wollen.' },
+      { position: 2, text: 'Er hält ihn fest mit gelber Rindshaut. Niemand kann ihn losreißen.' },
+      { position: 3, text: 'Ein angehaltener Rückzug ist nervenaufreibend und gefährlich. Leute als Knechte und Mägde zu halten bringt Heil.' },
+      { position: 4, text: 'Freiwilliger Rückzug bringt dem Edlen Heil und dem Gemeinen den Niedergang.' },
+      { position: 5, text: 'Freundlicher Rückzug. Beharrlichkeit bringt Heil.' },
+      { position: 6, text: 'Heiterer Rückzug. Alles ist fördernd.' },
+    ],
+  },
+  34: {
+    name: 'Des Großen Macht',
+    meaning: 'Große Stärke, Tatkraft, machtvolles Vorwärtsdringen',
+    judgment: 'Des Großen Macht. Fördernd ist Beharrlichkeit.',
+    image: 'Der Donner oben am Himmel: das Bild von des Großen Macht. So tritt der Edle nicht auf Wege, die nicht der Ordnung entsprechen.',
+    lines: [
+      { position: 1, text: 'Macht in den Zehen. Fortfahren bringt Unheil. Das ist gewisslich wahr.' },
+      { position: 2, text: 'Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Der Gemeine wirkt durch Macht. Der Edle handelt nicht so. Fortfahren ist gefährlich. Ein Ziegenbock stößt gegen eine Hecke und verfängt seine Hörner.' },
+      { position: 4, text: 'Beharrlichkeit bringt Heil. Die Reue schwindet. Die Hecke öffnet sich, keine Verstrickung. Die Macht beruht auf der Achse eines großen Wagens.' },
+      { position: 5, text: 'Verliert den Bock in der Leichtigkeit. Keine Reue.' },
+      { position: 6, text: 'Ein Ziegenbock stößt gegen eine Hecke. Er kann nicht zurück, er kann nicht vorwärts. Nichts ist fördernd. Erkennt man die Schwierigkeit, so bringt das Heil.' },
+    ],
+  },
+  43: {
+    name: 'Der Durchbruch',
+    meaning: 'Entschlossenheit, Bestimmtheit, Hindurchbrechen',
+    judgment: 'Der Durchbruch. Man muss entschlossen die Sache am Hof des Königs bekannt machen. Sie muss wahrheitsgemäß verkündet werden.',
+    image: 'Der See ist zum Himmel emporgestiegen: das Bild des Durchbruchs. So spendet der Edle Reichtum nach unten und scheut es, auf seiner Tugend auszuruhen.',
+    lines: [
+      { position: 1, text: 'Mächtig in den vorwärtsschreitenden Zehen. Geht man hin und ist der Aufgabe nicht gewachsen, so macht man einen Fehler.' },
+      { position: 2, text: 'Ein Schreckensruf. Waffen am Abend und in der Nacht. Fürchte nichts.' },
+      { position: 3, text: 'Mächtig sein in den Backenknochen bringt Unheil. Der Edle ist fest entschlossen. Er geht allein und gerät in den Regen. Er wird bespritzt, und man murrt gegen ihn. Kein Makel.' },
+      { position: 4, text: 'Auf den Schenkeln ist keine Haut, und das Gehen fällt schwer. Ließe man sich führen wie ein Schaf, so schwände die Reue. Doch wenn man diese Worte hört, so glaubt man ihnen nicht.' },
+      { position: 5, text: 'Im Umgang mit Unkraut ist feste Entschlossenheit nötig. Wandeln in der Mitte bleibt ohne Makel.' },
+      { position: 6, text: 'Kein Ruf. Am Ende kommt Unheil.' },
+    ],
+  },
+  44: {
+    name: 'Das Entgegenkommen',
+    meaning: 'Begegnung, Zusammentreffen, Versuchung',
+    judgment: 'Das Entgegenkommen. Das Mädchen ist mächtig. Man soll ein solches Mädchen nicht heiraten.',
+    image: 'Unter dem Himmel ist der Wind: das Bild des Entgegenkommens. So handelt der Fürst, wenn er seine Befehle verbreitet und sie den vier Himmelsrichtungen verkündet.',
+    lines: [
+      { position: 1, text: 'Man muss es mit einer ehernen Bremse hemmen. Beharrlichkeit bringt Heil. Lässt man es gewähren, so erlebt man Unheil. Auch ein mageres Schwein hat es in sich, herumzutoben.' },
+      { position: 2, text: 'Im Behälter ist ein Fisch. Kein Makel. Nicht fördernd für Gäste.' },
+      { position: 3, text: 'Auf den Schenkeln ist keine Haut, und das Gehen fällt schwer. Ist man der Gefahr eingedenk, so begeht man keinen großen Fehler.' },
+      { position: 4, text: 'Im Behälter ist kein Fisch. Das führt zu Unheil.' },
+      { position: 5, text: 'Eine Melone, mit Weidenblättern bedeckt. Verborgene Linien. Dann fällt es einem vom Himmel zu.' },
+      { position: 6, text: 'Er kommt mit seinen Hörnern entgegen. Beschämung. Kein Makel.' },
+    ],
+  },
+  3: {
+    name: 'Die Anfangsschwierigkeit',
+    meaning: 'Erstes Ringen, Geburtswehen, Schwierigkeit',
+    judgment: 'Die Anfangsschwierigkeit wirkt erhabenes Gelingen, fördernd durch Beharrlichkeit. Man soll nicht Vorgänger bestellen. Fördernd ist es, Gehilfen einzusetzen.',
+    image: 'Donner und Regen regen sich; Wolken und Donner rollen: das Bild der Anfangsschwierigkeit. So wirkt der Edle entwirrend und ordnend.',
+    lines: [
+      { position: 1, text: 'Zögern und Hemmung. Fördernd ist es, beharrlich zu bleiben. Fördernd ist es, Gehilfen einzusetzen.' },
+      { position: 2, text: 'Schwierigkeiten türmen sich. Pferd und Wagen trennen sich. Er ist kein Räuber, er will freien, wenn die Zeit kommt. Das Mädchen ist keusch und verspricht sich nicht. Zehn Jahre, dann verspricht sie sich.' },
+      { position: 3, text: 'Wer den Hirsch jagt ohne Förster, der verirrt sich nur im Wald. Der Edle versteht die Zeichen der Zeit und steht lieber ab. Weitermachen bringt Beschämung.' },
+      { position: 4, text: 'Pferd und Wagen trennen sich. Strebe nach Vereinigung. Hingehen bringt Heil. Alles wirkt fördernd.' },
+      { position: 5, text: 'Schwierigkeiten im Segnen. Kleine Beharrlichkeit bringt Heil. Große Beharrlichkeit bringt Unheil.' },
+      { position: 6, text: 'Pferd und Wagen trennen sich. Blutige Tränen fließen.' },
+    ],
+  },
+  4: {
+    name: 'Die Jugendtorheit',
+    meaning: 'Unwissenheit, Jugend, Unerfahrenheit',
+    judgment: 'Die Jugendtorheit hat Gelingen. Nicht ich suche den jungen Toren, der junge Tor sucht mich. Beim ersten Orakel gebe ich Auskunft. Fragt er zwei- oder dreimal, so ist das Belästigung. Wenn er belästigt, so gebe ich keine Auskunft. Fördernd ist Beharrlichkeit.',
+    image: 'Unten am Berge kommt eine Quelle hervor: das Bild der Jugend. So festigt der Edle durch Gründlichkeit in allem Handeln seinen Charakter.',
+    lines: [
+      { position: 1, text: 'Um den Toren zu entwickeln, ist es fördernd, Zucht anzuwenden. Die Fesseln sollen abgenommen werden. So fortzufahren bringt Beschämung.' },
+      { position: 2, text: 'Die Toren in Milde ertragen bringt Heil. Die Frauen zu nehmen wissen bringt Heil. Der Sohn ist fähig, dem Hause vorzustehen.' },
+      { position: 3, text: 'Nimm kein Mädchen, das, wenn es einen Mann aus Erz sieht, sich selbst verliert. Nichts ist fördernd.' },
+      { position: 4, text: 'Verstrickte Torheit bringt Beschämung.' },
+      { position: 5, text: 'Kindliche Torheit bringt Heil.' },
+      { position: 6, text: 'Beim Strafen der Torheit ist es nicht fördernd, Übergriffe zu begehen. Fördernd ist allein, Übergriffen zu wehren.' },
+    ],
+  },
+  5: {
+    name: 'Das Warten',
+    meaning: 'Ernährung, Geduld, günstige Zeit',
+    judgment: 'Das Warten. Wenn du wahrhaftig bist, so hast du Licht und Gelingen. Beharrlichkeit bringt Heil. Dem großen Mann entgegenzugehen bringt Heil.',
+    image: 'Wolken steigen am Himmel empor: das Bild des Wartens. So isst und trinkt der Edle, ist heiter und guter Dinge.',
+    lines: [
+      { position: 1, text: 'Warten auf dem Anger. Fördernd ist es, im Dauernden zu bleiben. Kein Makel.' },
+      { position: 2, text: 'Warten auf dem Sand. Es gibt ein wenig Gerede. Das Ende bringt Heil.' },
+      { position: 3, text: 'Warten im Schlamm bewirkt das Kommen des Feindes.' },
+      { position: 4, text: 'Warten im Blut. Heraus aus der Grube.' },
+      { position: 5, text: 'Warten bei Wein und Speise. Beharrlichkeit bringt Heil.' },
+      { position: 6, text: 'Man gerät in die Grube. Da kommen drei ungebetene Gäste. Ehre sie, so kommt am Ende Heil.' },
+    ],
+  },
+  6: {
+    name: 'Der Streit',
+    meaning: 'Rechtsstreit, Zwietracht, Ringen',
+    judgment: 'Der Streit. Du bist wahrhaftig und wirst gehemmt. Vorsichtiges Innehalten auf halbem Weg bringt Heil. Zu Ende führen bringt Unheil. Fördernd ist es, den großen Mann zu sehen. Nicht fördernd ist es, das große Wasser zu durchqueren.',
+    image: 'Himmel und Wasser gehen gegeneinander: das Bild des Streits. So bedenkt der Edle bei allen Geschäften den Anfang.',
+    lines: [
+      { position: 1, text: 'Wenn man die Sache nicht verewigt, so gibt es ein wenig Gerede. Am Ende kommt Heil.' },
+      { position: 2, text: 'Man kann nicht streiten, kehrt heim und weicht aus. Die Leute seiner Stadt, dreihundert Häuser, bleiben ohne Schuld.' },
+      { position: 3, text: 'Sich von alter Tugend nähren gibt Beharrlichkeit. Gefahr. Am Ende kommt Heil. Folgst du etwa eines Königs Dienst, so suche nicht Werke.' },
+      { position: 4, text: 'Man kann nicht streiten, kehrt um und fügt sich dem Schicksal, ändert sich und findet Frieden in Beharrlichkeit. Heil!' },
+      { position: 5, text: 'Vor ihm zu streiten bringt erhabenes Heil.' },
+      { position: 6, text: 'Wird einem auch etwa ein Ledergürtel verliehen, so ist er ihm bis zum Ende des Morgens dreimal entrissen.' },
+    ],
+  },
+  7: {
+    name: 'Das Heer',
+    meaning: 'Truppen, militärische Zucht, Gesetzlichkeit',
+    judgment: 'Das Heer braucht Beharrlichkeit und einen starken Mann. Heil ohne Makel.',
+    image: 'Inmitten der Erde ist Wasser: das Bild des Heeres. So mehrt der Edle seine Massen durch Weitherzigkeit gegen das Volk.',
+    lines: [
+      { position: 1, text: 'Ein Heer muss in Ordnung ausziehen. Ist die Ordnung nicht gut, so droht Unheil.' },
+      { position: 2, text: 'Inmitten des Heeres. Heil! Kein Makel. Der König verleiht eine dreifache Auszeichnung.' },
+      { position: 3, text: 'Das Heer fährt etwa Leichen auf dem Wagen. Unheil!' },
+      { position: 4, text: 'Das Heer zieht sich zurück. Kein Makel.' },
+      { position: 5, text: 'Im Felde ist Wild. Es ist fördernd, es zu fangen. Ohne Makel. Der Älteste führe das Heer. Der Jüngere fährt Leichen; dann bringt Beharrlichkeit Unheil.' },
+      { position: 6, text: 'Der große Fürst erteilt Befehle, gründet Staaten, belehnt Familien. Gemeine Menschen soll man nicht verwenden.' },
+    ],
+  },
+  8: {
+    name: 'Das Zusammenhalten',
+    meaning: 'Einheit, Bündnis, Treue',
+    judgment: 'Das Zusammenhalten bringt Heil. Hält aber der Falsche die Versammlung ab, so ist nichts fördernd. Sind einige unsicher, so bringt wiederholtes Rufen Heil.',
+    image: 'Auf der Erde ist Wasser: das Bild des Zusammenhaltens. So verliehen die Könige der Vorzeit den Fürsten von Geblüt Lehen und machten sie alle zu Gliedern der Familie.',
+    lines: [
+      { position: 1, text: 'Halte zu ihm in Wahrheit und Treue, das ist ohne Makel. Wahrheit wie eine volle irdene Schüssel: so kommt am Ende Heil von außen.' },
+      { position: 2, text: 'Halte zu ihm von innen her. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Du hältst zu den falschen Leuten.' },
+      { position: 4, text: 'Halte auch nach außen zu ihm. Beharrlichkeit bringt Heil.' },
+      { position: 5, text: 'Offenbarung des Zusammenhaltens. Bei der Jagd treibt der König nur von drei Seiten und lässt das Wild laufen, das vorne ausbricht. Die Bürger brauchen keine Warnung. Heil!' },
+      { position: 6, text: 'Er findet kein Haupt zum Zusammenhalten. Unheil!' },
+    ],
+  },
+  9: {
+    name: 'Des Kleinen Zähmungskraft',
+    meaning: 'Zurückhaltung, Ansammlung, feiner Einfluss',
+    judgment: 'Des Kleinen Zähmungskraft hat Gelingen. Dichte Wolken, kein Regen von unserem westlichen Gebiet.',
+    image: 'Der Wind fährt am Himmel dahin: das Bild von des Kleinen Zähmungskraft. So verfeinert der Edle die äußere Form seines Wesens.',
+    lines: [
+      { position: 1, text: 'Rückkehr auf den Weg. Wie könnte darin ein Makel sein? Heil!' },
+      { position: 2, text: 'Er lässt sich zur Rückkehr ziehen. Heil!' },
+      { position: 3, text: 'Dem Wagen springen die Speichen heraus. Mann und Frau verdrehen die Augen.' },
+      { position: 4, text: 'Wenn du wahrhaftig bist, so schwindet Blut und weicht die Furcht. Kein Makel.' },
+      { position: 5, text: 'Wenn du wahrhaftig bist und treu verbunden, so bist du reich in deinem Nächsten.' },
+      { position: 6, text: 'Der Regen kommt, es kommt die Ruhe. Das ist der fortwirkenden Macht des Charakters zu verdanken. Beharrlichkeit bringt die Frau in Gefahr. Der Mond ist beinahe voll. Wenn der Edle beharrt, so kommt Unheil.' },
+    ],
+  },
+  10: {
+    name: 'Das Auftreten',
+    meaning: 'Schreiten, Betragen, Schicklichkeit',
+    judgment: 'Auftreten auf den Schwanz des Tigers. Er beißt den Menschen nicht. Gelingen.',
+    image: 'Oben der Himmel, unten der See: das Bild des Auftretens. So unterscheidet der Edle hoch und niedrig und festigt dadurch den Sinn des Volkes.',
+    lines: [
+      { position: 1, text: 'Schlichtes Auftreten. Fortschreiten ohne Makel.' },
+      { position: 2, text: 'Auf ebenem, glattem Weg schreiten. Die Beharrlichkeit eines dunklen Mannes bringt Heil.' },
+      { position: 3, text: 'Ein Einäugiger kann sehen, ein Lahmer kann auftreten. Er tritt dem Tiger auf den Schwanz. Der beißt den Menschen. Unheil! Ein Krieger handelt so für seinen großen Fürsten.' },
+      { position: 4, text: 'Er tritt dem Tiger auf den Schwanz. Vorsicht und Umsicht führen schließlich zum Heil.' },
+      { position: 5, text: 'Entschlossenes Auftreten. Beharrlichkeit im Bewusstsein der Gefahr.' },
+      { position: 6, text: 'Schau auf deinen Wandel und prüfe die günstigen Zeichen. Wenn alles vollendet ist, kommt erhabenes Heil.' },
+    ],
+  },
+  13: {
+    name: 'Gemeinschaft mit Menschen',
+    meaning: 'Gemeinschaft, Einigkeit, Brüderlichkeit',
+    judgment: 'Gemeinschaft mit Menschen im Freien. Gelingen. Fördernd ist es, das große Wasser zu durchqueren. Fördernd ist die Beharrlichkeit des Edlen.',
+    image: 'Der Himmel zusammen mit dem Feuer: das Bild der Gemeinschaft mit Menschen. So gliedert der Edle die Stämme und unterscheidet die Dinge.',
+    lines: [
+      { position: 1, text: 'Gemeinschaft mit Menschen am Tor. Kein Makel.' },
+      { position: 2, text: 'Gemeinschaft mit Menschen in der Sippe. Beschämung.' },
+      { position: 3, text: 'Er versteckt Waffen im Dickicht und steigt auf den hohen Hügel davor. Drei Jahre lang erhebt er sich nicht.' },
+      { position: 4, text: 'Er steigt auf seine Mauer; er kann nicht angreifen. Heil!' },
+      { position: 5, text: 'Die in Gemeinschaft verbundenen Menschen weinen und klagen zuerst, aber nachher lachen sie. Nach großen Kämpfen gelingt es ihnen, sich zu treffen.' },
+      { position: 6, text: 'Gemeinschaft mit Menschen auf dem Anger. Keine Reue.' },
+    ],
+  },
+  14: {
+    name: 'Der Besitz von Großem',
+    meaning: 'Große Fülle, Reichtum, Zuversicht',
+    judgment: 'Der Besitz von Großem. Erhabenes Gelingen.',
+    image: 'Das Feuer hoch am Himmel: das Bild des Besitzes von Großem. So unterdrückt der Edle das Böse und fördert das Gute und gehorcht dadurch dem Himmel.',
+    lines: [
+      { position: 1, text: 'Keine Beziehung zu Schädlichem; darin ist kein Makel. Bleibt man sich der Schwierigkeit bewusst, so bleibt man ohne Makel.' },
+      { position: 2, text: 'Ein großer Wagen zum Beladen. Man kann etwas unternehmen. Kein Makel.' },
+      { position: 3, text: 'Ein Fürst bringt ihn dem Sohn des Himmels dar. Ein kleiner Mensch vermag das nicht.' },
+      { position: 4, text: 'Er macht einen Unterschied zwischen sich und seinem Nächsten. Kein Makel.' },
+      { position: 5, text: 'Wessen Wahrheit zugänglich und doch würdig ist, der hat Heil.' },
+      { position: 6, text: 'Vom Himmel her wird er gesegnet. Heil! Nichts, das nicht fördernd wäre.' },
+    ],
+  },
+  15: {
+    name: 'Die Bescheidenheit',
+    meaning: 'Demut, Zurückhaltung, Nachgiebigkeit',
+    judgment: 'Die Bescheidenheit schafft Gelingen. Der Edle bringt die Dinge zu Ende.',
+    image: 'Inmitten der Erde ist ein Berg: das Bild der Bescheidenheit. So vermindert der Edle, was zu viel ist, und mehrt, was zu wenig ist.',
+    lines: [
+      { position: 1, text: 'Ein Edler, bescheiden in seiner Bescheidenheit, mag das große Wasser durchqueren. Heil!' },
+      { position: 2, text: 'Bescheidenheit, die sich äußert. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Ein verdienstvoller, bescheidener Edler bringt die Dinge zu Ende. Heil!' },
+      { position: 4, text: 'Nichts, das nicht fördernd wäre für Bescheidenheit in der Bewegung.' },
+      { position: 5, text: 'Nicht mit dem Reichtum prunken vor seinem Nachbarn. Fördernd ist es, mit Macht anzugreifen. Nichts, das nicht fördernd wäre.' },
+      { position: 6, text: 'Bescheidenheit, die sich äußert. Fördernd ist es, Heere marschieren zu lassen, um die eigene Stadt und das eigene Land zu züchtigen.' },
+    ],
+  },
+  16: {
+    name: 'Die Begeisterung',
+    meaning: 'Freude, Bereitschaft, Einklang',
+    judgment: 'Die Begeisterung. Fördernd ist es, Helfer einzusetzen und Heere marschieren zu lassen.',
+    image: 'Der Donner kommt aus der Erde hervorgebrochen: das Bild der Begeisterung. So machten die alten Könige Musik, um die Verdienste zu ehren, und brachten sie in Herrlichkeit dem höchsten Gott dar.',
+    lines: [
+      { position: 1, text: 'Begeisterung, die sich äußert, bringt Unheil.' },
+      { position: 2, text: 'Fest wie ein Stein. Nicht einen ganzen Tag. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Begeisterung, die emporblickt, schafft Reue. Zögern bringt Reue.' },
+      { position: 4, text: 'Der Urheber der Begeisterung. Er erreicht Großes. Zweifle nicht. Du sammelst Freunde um dich, wie eine Haarspange das Haar zusammenfasst.' },
+      { position: 5, text: 'Dauernd krank und stirbt doch nicht.' },
+      { position: 6, text: 'Verblendete Begeisterung. Doch wenn man nach der Vollendung umkehrt, so ist kein Makel.' },
+    ],
+  },
+  17: {
+    name: 'Die Nachfolge',
+    meaning: 'Folgen, Gehorsam, Anpassungsfähigkeit',
+    judgment: 'Die Nachfolge hat erhabenes Gelingen. Fördernd ist Beharrlichkeit. Kein Makel.',
+    image: 'Inmitten des Sees ist der Donner: das Bild der Nachfolge. So geht der Edle bei Anbruch der Nacht hinein zu Ruhe und Erholung.',
+    lines: [
+      { position: 1, text: 'Die Richtschnur wandelt sich. Beharrlichkeit bringt Heil. Zur Tür hinausgehen im Verkehr schafft Werke.' },
+      { position: 2, text: 'Hängt man sich an den kleinen Knaben, so verliert man den starken Mann.' },
+      { position: 3, text: 'Hängt man sich an den starken Mann, so verliert man den kleinen Knaben. Durch die Nachfolge findet man, was man sucht. Fördernd ist es, beharrlich zu bleiben.' },
+      { position: 4, text: 'Die Nachfolge schafft Erfolg. Beharrlichkeit bringt Unheil. Mit Wahrhaftigkeit seines Weges gehen bringt Klarheit. Wie könnte da ein Makel sein?' },
+      { position: 5, text: 'Wahrhaftig im Guten. Heil!' },
+      { position: 6, text: 'Er begegnet fester Anhänglichkeit und wird noch weiter gebunden. Der König stellt ihn dem Westberg vor.' },
+    ],
+  },
+  18: {
+    name: 'Die Arbeit am Verdorbenen',
+    meaning: 'Verfall, Wiederherstellung, Beseitigung des Morschen',
+    judgment: 'Die Arbeit am Verdorbenen hat erhabenes Gelingen. Fördernd ist es, das große Wasser zu durchqueren. Vor dem Anfangspunkt drei Tage, nach dem Anfangspunkt drei Tage.',
+    image: 'Unten am Berg weht der Wind: das Bild des Verdorbenen. So rüttelt der Edle die Leute auf und stärkt ihren Geist.',
+    lines: [
+      { position: 1, text: 'Ordnen des vom Vater Verdorbenen. Ist ein Sohn da, so bleibt auf dem verstorbenen Vater kein Makel. Gefahr. Am Ende Heil.' },
+      { position: 2, text: 'Ordnen des von der Mutter Verdorbenen. Man darf nicht zu beharrlich sein.' },
+      { position: 3, text: 'Ordnen des vom Vater Verdorbenen. Es gibt ein wenig Reue. Kein großer Makel.' },
+      { position: 4, text: 'Dulden des vom Vater Verdorbenen. Beim Fortfahren sieht man Beschämung.' },
+      { position: 5, text: 'Ordnen des vom Vater Verdorbenen. Man findet Lob.' },
+      { position: 6, text: 'Er dient nicht Königen und Fürsten, setzt sich höhere Ziele.' },
+    ],
+  },
+  21: {
+    name: 'Das Durchbeißen',
+    meaning: 'Entschlossenheit, Beseitigung von Hindernissen, Tatkraft',
+    judgment: 'Das Durchbeißen hat Gelingen. Fördernd ist es, Recht walten zu lassen.',
+    image: 'Donner und Blitz: das Bild des Durchbeißens. So machten die früheren Könige die Gesetze fest durch klar bestimmte Strafen.',
+    lines: [
+      { position: 1, text: 'Mit den Füßen in den Block geschlossen, dass die Zehen verschwinden. Kein Makel.' },
+      { position: 2, text: 'Beißt durch zartes Fleisch, dass die Nase verschwindet. Kein Makel.' },
+      { position: 3, text: 'Beißt auf altes Dörrfleisch und stößt auf Giftiges. Kleine Beschämung. Kein Makel.' },
+      { position: 4, text: 'Beißt auf getrocknetes Knorpelfleisch. Erhält metallene Pfeile. Fördernd ist es, der Schwierigkeiten eingedenk und beharrlich zu sein. Heil!' },
+      { position: 5, text: 'Beißt auf getrocknetes mageres Fleisch. Erhält gelbes Gold. Beharrlich der Gefahr bewusst. Kein Makel.' },
+      { position: 6, text: 'Den Hals in den hölzernen Kragen geschlossen, dass die Ohren verschwinden. Unheil!' },
+    ],
+  },
+  22: {
+    name: 'Die Anmut',
+    meaning: 'Schönheit, Schmuck, Zierde',
+    judgment: 'Die Anmut hat Gelingen. Im Kleinen ist es fördernd, etwas zu unternehmen.',
+    image: 'Unten am Berg ist Feuer: das Bild der Anmut. So verfährt der Edle bei der Klärung der laufenden Angelegenheiten, wagt aber nicht, danach Streitfragen zu entscheiden.',
+    lines: [
+      { position: 1, text: 'Er schmückt seine Zehen, lässt den Wagen und geht zu Fuß.' },
+      { position: 2, text: 'Schmückt den Bart am Kinn.' },
+      { position: 3, text: 'Anmutig und feucht. Dauernde Beharrlichkeit bringt Heil.' },
+      { position: 4, text: 'Anmut oder Schlichtheit? Ein weißes Pferd kommt wie geflügelt. Er ist kein Räuber, er will freien zur rechten Zeit.' },
+      { position: 5, text: 'Anmut in Hügeln und Gärten. Die Seidenrolle ist ärmlich und klein. Beschämung, doch am Ende Heil.' },
+      { position: 6, text: 'Schlichte Anmut. Kein Makel.' },
+    ],
+  },
+  25: {
+    name: 'Die Unschuld',
+    meaning: 'Arglosigkeit, Lauterkeit, Natürlichkeit',
+    judgment: 'Die Unschuld. Erhabenes Gelingen. Fördernd ist Beharrlichkeit. Ist einer nicht recht, so hat er Unglück, und nicht fördernd ist es, irgend etwas zu unternehmen.',
+    image: 'Unter dem Himmel geht der Donner: das Bild der Unschuld. So pflegten die alten Könige, reich an Tugend, das Gute und belohnten die Würdigen.',
+    lines: [
+      { position: 1, text: 'Unschuldiges Verhalten bringt Heil.' },
+      { position: 2, text: 'Wenn man beim Pflügen nicht an die Ernte denkt, beim Roden nicht an die Nutzung des Feldes, so ist es fördernd, etwas zu unternehmen.' },
+      { position: 3, text: 'Unverschuldetes Unglück. Die Kuh, die einer angebunden hat, ist des Wanderers Gewinn, des Bürgers Verlust.' },
+      { position: 4, text: 'Wer beharrlich zu sein vermag, bleibt ohne Makel.' },
+      { position: 5, text: 'Bei einer Krankheit, an der man unschuldig ist, brauche keine Arznei. Sie vergeht von selbst.' },
+      { position: 6, text: 'Unschuldiges Handeln bringt Unheil. Nichts ist fördernd.' },
+    ],
+  },
+  26: {
+    name: 'Des Großen Zähmungskraft',
+    meaning: 'Ansammlung von Kraft, Zucht, Zurückhaltung',
+    judgment: 'Des Großen Zähmungskraft. Fördernd ist Beharrlichkeit. Nicht zu Hause essen bringt Heil. Fördernd ist es, das große Wasser zu durchqueren.',
+    image: 'Der Himmel inmitten des Berges: das Bild von des Großen Zähmungskraft. So sammelt der Edle einen Schatz des Guten, um das Volk zu tragen.',
+    lines: [
+      { position: 1, text: 'Es ist Gefahr da. Fördernd ist es abzulassen.' },
+      { position: 2, text: 'Dem Wagen werden die Achsblöcke abgenommen.' },
+      { position: 3, text: 'Ein gutes Pferd, das anderen folgt. Bewusstsein der Gefahr mit Beharrlichkeit ist fördernd. Übe täglich Wagenlenken und Waffenschutz. Fördernd ist es, etwas zu unternehmen.' },
+      { position: 4, text: 'Das Stirnbrett eines jungen Stieres. Erhabenes Heil.' },
+      { position: 5, text: 'Der Zahn eines verschnittenen Ebers. Heil!' },
+      { position: 6, text: 'Man erlangt den Weg des Himmels. Gelingen.' },
+    ],
+  },
+  27: {
+    name: 'Die Mundwinkel',
+    meaning: 'Ernährung, Versorgung, Unterhalt',
+    judgment: 'Die Mundwinkel. Beharrlichkeit bringt Heil. Achte auf die Ernährung und darauf, womit einer seinen eigenen Mund zu füllen sucht.',
+    image: 'Unten am Berg ist der Donner: das Bild der Ernährung. So ist der Edle vorsichtig in seinen Worten und mäßig im Essen und Trinken.',
+    lines: [
+      { position: 1, text: 'Du lässt deine Zauberschildkröte fahren und blickst nach mir mit herabhängenden Mundwinkeln. Unheil!' },
+      { position: 2, text: 'Sich nach dem Gipfel um Nahrung wenden, vom Wege abweichen, um vom Hügel Nahrung zu suchen. Damit fortzufahren bringt Unheil.' },
+      { position: 3, text: 'Abkehr von der Ernährung. Beharrlichkeit bringt Unheil. Zehn Jahre lang handle nicht so. Nichts ist fördernd.' },
+      { position: 4, text: 'Sich nach dem Gipfel um Nahrung wenden bringt Heil. Mit scharfen Augen umherspähen wie ein Tiger mit unersättlicher Gier. Kein Makel.' },
+      { position: 5, text: 'Abweichen vom Wege. Beharrlich bleiben bringt Heil. Man soll nicht das große Wasser durchqueren.' },
+      { position: 6, text: 'Die Quelle der Ernährung. Bewusstsein der Gefahr bringt Heil. Fördernd ist es, das große Wasser zu durchqueren.' },
+    ],
+  },
+  28: {
+    name: 'Des Großen Übergewicht',
+    meaning: 'Übermaß, Äußerstes, Ungleichgewicht',
+    judgment: 'Des Großen Übergewicht. Der Firstbalken biegt sich durch. Fördernd ist es, irgendwohin zu gehen. Gelingen.',
+    image: 'Der See geht über die Bäume hinweg: das Bild von des Großen Übergewicht. So ist der Edle, wenn er allein steht, unbekümmert, und wenn er der Welt entsagen muss, unverzagt.',
+    lines: [
+      { position: 1, text: 'Weiße Binsen unterlegen. Kein Makel.' },
+      { position: 2, text: 'Eine dürre Pappel treibt Sprossen an der Wurzel. Ein älterer Mann bekommt eine junge Frau. Alles ist fördernd.' },
+      { position: 3, text: 'Der Firstbalken biegt sich bis zum Bruch. Unheil!' },
+      { position: 4, text: 'Der Firstbalken wird gestützt. Heil! Gibt es Hintergedanken, so ist es beschämend.' },
+      { position: 5, text: 'Eine dürre Pappel treibt Blüten. Eine ältere Frau bekommt einen Mann. Kein Makel. Kein Lob.' },
+      { position: 6, text: 'Man muss durch das Wasser gehen. Es geht einem über den Scheitel. Unheil. Kein Makel.' },
+    ],
+  },
+  29: {
+    name: 'Das Abgründige',
+    meaning: 'Gefahr, fließendes Wasser, Tiefe',
+    judgment: 'Das wiederholte Abgründige. Wenn du wahrhaftig bist, so hast du im Herzen Gelingen, und was du tust, hat Erfolg.',
+    image: 'Das Wasser fließt ununterbrochen hin und gelangt ans Ziel: das Bild des wiederholten Abgründigen. So wandelt der Edle in dauernder Tugend und übt das Geschäft des Lehrens.',
+    lines: [
+      { position: 1, text: 'Wiederholung des Abgründigen. Im Abgrund gerät man in eine Grube. Unheil!' },
+      { position: 2, text: 'Der Abgrund hat Gefahr. Man soll nur danach streben, Kleines zu erreichen.' },
+      { position: 3, text: 'Vorwärts und rückwärts Abgrund über Abgrund. In solcher Gefahr halte erst inne und warte, sonst gerätst du in eine Grube im Abgrund. Handle nicht so.' },
+      { position: 4, text: 'Ein Krug Wein, eine Schüssel Reis dazu, irdene Gefäße, einfach durchs Fenster gereicht. Darin ist durchaus kein Makel.' },
+      { position: 5, text: 'Der Abgrund wird nicht übervoll, er wird nur bis zum Rand gefüllt. Kein Makel.' },
+      { position: 6, text: 'Mit Stricken und Seilen gebunden, eingeschlossen zwischen dornumhegten Gefängnismauern: drei Jahre lang findet man den Weg nicht. Unheil!' },
+    ],
+  },
+  30: {
+    name: 'Das Haftende',
+    meaning: 'Feuer, Erleuchtung, Klarheit',
+    judgment: 'Das Haftende. Fördernd ist Beharrlichkeit. Sie bringt Gelingen. Pflege der Kuh bringt Heil.',
+    image: 'Das Helle erhebt sich zweimal: das Bild des Feuers. So erhellt der große Mann durch Fortsetzung seiner Klarheit die vier Weltgegenden.',
+    lines: [
+      { position: 1, text: 'Die Fußspuren gehen kreuz und quer. Ist man dabei ernsthaft, so ist kein Makel.' },
+      { position: 2, text: 'Gelbes Licht. Erhabenes Heil.' },
+      { position: 3, text: 'Beim Licht der untergehenden Sonne schlagen die Menschen entweder den Topf und singen, oder sie jammern laut über das Nahen des Alters. Unheil!' },
+      { position: 4, text: 'Plötzlich ist sein Kommen; es flammt auf, erstirbt, wird weggeworfen.' },
+      { position: 5, text: 'Tränen in Strömen, Seufzen und Klagen. Heil!' },
+      { position: 6, text: 'Der König setzt ihn ein, auszuziehen und zu züchtigen. Dann ist es am besten, die Anführer zu töten und die Mitläufer gefangen zu nehmen. Kein Makel.' },
+    ],
+  },
+  31: {
+    name: 'Die Einwirkung',
+    meaning: 'Anziehung, Werbung, Wechselwirkung',
+    judgment: 'Die Einwirkung. Gelingen. Fördernd ist Beharrlichkeit. Ein Mädchen zu nehmen bringt Heil.',
+    image: 'Auf dem Berg ist ein See: das Bild der Einwirkung. So lässt der Edle durch seine Empfangsbereitschaft die Menschen zu sich herankommen.',
+    lines: [
+      { position: 1, text: 'Die Einwirkung äußert sich in der großen Zehe.' },
+      { position: 2, text: 'Die Einwirkung äußert sich in den Waden. Unheil! Verweilen bringt Heil.' },
+      { position: 3, text: 'Die Einwirkung äußert sich in den Schenkeln. Hält sich an das, was ihm folgt. Fortfahren ist beschämend.' },
+      { position: 4, text: 'Beharrlichkeit bringt Heil. Die Reue schwindet. Wenn einer unruhig ist im Gemüt und seine Gedanken hin und her gehen, so folgen ihm nur die Freunde, auf die er seine bewussten Gedanken richtet.' },
+      { position: 5, text: 'Die Einwirkung äußert sich im Nacken. Keine Reue.' },
+      { position: 6, text: 'Die Einwirkung äußert sich in Kinnbacken, Wangen und Zunge.' },
+    ],
+  },
+  32: {
+    name: 'Die Dauer',
+    meaning: 'Beständigkeit, Ausdauer, Stetigkeit',
+    judgment: 'Die Dauer. Gelingen. Kein Makel. Fördernd ist Beharrlichkeit. Fördernd ist es, irgendwohin zu gehen.',
+    image: 'Donner und Wind: das Bild der Dauer. So steht der Edle fest und ändert seine Richtung nicht.',
+    lines: [
+      { position: 1, text: 'Allzu hastig Dauer suchen bringt beharrlich Unheil. Nichts, das fördernd wäre.' },
+      { position: 2, text: 'Die Reue schwindet.' },
+      { position: 3, text: 'Wer seinem Charakter nicht Dauer verleiht, dem begegnet Schande. Beharrliche Beschämung.' },
+      { position: 4, text: 'Kein Wild auf dem Feld.' },
+      { position: 5, text: 'Seinem Charakter durch Beharrlichkeit Dauer verleihen. Das ist Heil für eine Frau, Unheil für einen Mann.' },
+      { position: 6, text: 'Unruhe als dauernder Zustand bringt Unheil.' },
+    ],
+  },
+  35: {
+    name: 'Der Fortschritt',
+    meaning: 'Vorwärtskommen, Beförderung, Aufstieg',
+    judgment: 'Der Fortschritt. Der starke Fürst wird mit Pferden in großer Zahl beschenkt. An einem Tag wird er dreimal empfangen.',
+    image: 'Die Sonne geht über der Erde auf: das Bild des Fortschritts. So erhellt der Edle selbst seine lichten Eigenschaften.',
+    lines: [
+      { position: 1, text: 'Fortschreitend, aber zurückgewiesen. Beharrlichkeit bringt Heil. Begegnet man keinem Vertrauen, so bleibe man gelassen. Kein Fehler.' },
+      { position: 2, text: 'Fortschreitend, aber in Trauer. Beharrlichkeit bringt Heil. Dann empfängt man großes Glück von seiner Ahnfrau.' },
+      { position: 3, text: 'Alle stimmen zu. Die Reue schwindet.' },
+      { position: 4, text: 'Fortschritt wie ein Hamster. Beharrlichkeit bringt Gefahr.' },
+      { position: 5, text: 'Die Reue schwindet. Nimm dir Gewinn und Verlust nicht zu Herzen. Unternehmungen bringen Heil. Alles ist fördernd.' },
+      { position: 6, text: 'Mit den Hörnern vorwärtsdringen ist nur erlaubt, um die eigene Stadt zu züchtigen. Bewusstsein der Gefahr bringt Heil. Kein Makel. Beharrlichkeit bringt Beschämung.' },
+    ],
+  },
+  36: {
+    name: 'Die Verfinsterung des Lichts',
+    meaning: 'Verdunkelung, Widrigkeit, verborgene Tugend',
+    judgment: 'Die Verfinsterung des Lichts. Fördernd ist es, in der Not beharrlich zu sein.',
+    image: 'Das Licht ist in die Erde eingegangen: das Bild der Verfinsterung des Lichts. So lebt der Edle mit der großen Menge: er verhüllt seinen Schein und bleibt doch hell.',
+    lines: [
+      { position: 1, text: 'Verfinsterung des Lichts im Flug. Er senkt seine Flügel. Der Edle isst auf seiner Wanderschaft drei Tage lang nicht. Aber er hat, wohin er gehen kann. Der Wirt hat Anlass zu Gerede über ihn.' },
+      { position: 2, text: 'Die Verfinsterung des Lichts verletzt ihn am linken Schenkel. Er hilft mit der Kraft eines Pferdes. Heil!' },
+      { position: 3, text: 'Verfinsterung des Lichts bei der Jagd im Süden. Ihr großer Anführer wird gefangen. Man darf Beharrlichkeit nicht zu früh erwarten.' },
+      { position: 4, text: 'Er dringt in die linke Seite des Leibes ein. Man gelangt ins Herz der Verfinsterung des Lichts und verlässt Tor und Hof.' },
+      { position: 5, text: 'Verfinsterung des Lichts wie beim Prinzen Gi. Fördernd ist Beharrlichkeit.' },
+      { position: 6, text: 'Nicht Licht, sondern Dunkel. Erst stieg er zum Himmel empor, dann stürzte er in die Tiefe der Erde.' },
+    ],
+  },
+  37: {
+    name: 'Die Sippe',
+    meaning: 'Haushalt, Beziehungen, Grundlage',
+    judgment: 'Die Sippe. Fördernd ist die Beharrlichkeit der Frau.',
+    image: 'Der Wind geht aus dem Feuer hervor: das Bild der Sippe. So hat der Edle in seinen Worten Gehalt und in seinem Wandel Dauer.',
+    lines: [
+      { position: 1, text: 'Fester Abschluss innerhalb der Sippe. Die Reue schwindet.' },
+      { position: 2, text: 'Sie soll nicht ihren Launen folgen. Sie muss drinnen für die Speise sorgen. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Wenn in der Sippe die Gemüter sich erhitzen, bringt allzu große Strenge Reue. Dennoch Heil. Wenn Weib und Kind tändeln und lachen, führt das am Ende zur Beschämung.' },
+      { position: 4, text: 'Sie ist der Schatz des Hauses. Erhabenes Heil.' },
+      { position: 5, text: 'Als König naht er sich seiner Sippe. Fürchte dich nicht. Heil!' },
+      { position: 6, text: 'Sein Werk gebietet Ehrfurcht. Am Ende kommt Heil.' },
+    ],
+  },
+  38: {
+    name: 'Der Gegensatz',
+    meaning: 'Auseinanderstreben, Trennung, Missverständnis',
+    judgment: 'Der Gegensatz. In kleinen Dingen Heil.',
+    image: 'Oben das Feuer, unten der See: das Bild des Gegensatzes. So bewahrt der Edle bei aller Gemeinschaft seine Eigenart.',
+    lines: [
+      { position: 1, text: 'Die Reue schwindet. Wenn du dein Pferd verlierst, so lauf ihm nicht nach; es kommt von selbst zurück. Wenn du böse Menschen siehst, so hüte dich vor Fehlern.' },
+      { position: 2, text: 'Man trifft seinen Herrn in einer engen Gasse. Kein Makel.' },
+      { position: 3, text: 'Man sieht den Wagen zurückgeschleppt, die Rinder angehalten, einem Mann Haar und Nase abgeschnitten. Kein guter Anfang, aber ein gutes Ende.' },
+      { position: 4, text: 'Durch den Gegensatz vereinsamt, trifft man einen Gleichgesinnten, mit dem man in Treue verkehren kann. Trotz der Gefahr kein Makel.' },
+      { position: 5, text: 'Die Reue schwindet. Der Gefährte beißt sich durch die Hüllen. Wenn man zu ihm geht, wie könnte das ein Fehler sein?' },
+      { position: 6, text: 'Durch den Gegensatz vereinsamt, sieht man den Gefährten als Schwein, mit Schmutz bedeckt, als einen Wagen voller Teufel. Erst spannt man den Bogen gegen ihn, dann legt man den Bogen beiseite. Er ist kein Räuber, er will freien zur rechten Zeit. Wenn man hingeht und Regen fällt, so kommt Heil.' },
+    ],
+  },
+  39: {
+    name: 'Das Hemmnis',
+    meaning: 'Schwierigkeit, Stillstand, Hindernis',
+    judgment: 'Das Hemmnis. Fördernd ist der Südwesten. Nicht fördernd ist der Nordosten. Fördernd ist es, den großen Mann zu sehen. Beharrlichkeit bringt Heil.',
+    image: 'Auf dem Berg ist Wasser: das Bild des Hemmnisses. So wendet sich der Edle seiner eigenen Person zu und bildet seinen Charakter.',
+    lines: [
+      { position: 1, text: 'Hingehen führt in Hemmnisse, Kommen begegnet Lob.' },
+      { position: 2, text: 'Der Diener des Königs ist von Hemmnis über Hemmnis bedrängt, doch nicht durch eigene Schuld.' },
+      { position: 3, text: 'Hingehen führt in Hemmnisse; darum kommt er zurück.' },
+      { position: 4, text: 'Hingehen führt in Hemmnisse, Kommen führt zur Vereinigung.' },
+      { position: 5, text: 'Inmitten der größten Hemmnisse kommen Freunde.' },
+      { position: 6, text: 'Hingehen führt in Hemmnisse, Kommen führt zu großem Heil. Fördernd ist es, den großen Mann zu sehen.' },
+    ],
+  },
+  40: {
+    name: 'Die Befreiung',
+    meaning: 'Lösung, Befreiung, Auflösung der Spannung',
+    judgment: 'Die Befreiung. Fördernd ist der Südwesten. Ist nichts mehr da, wohin man gehen sollte, so bringt die Wiederkehr Heil. Ist noch etwas da, wohin man gehen sollte, so bringt Eile Heil.',
+    image: 'Donner und Regen setzen ein: das Bild der Befreiung. So verzeiht der Edle die Fehler und vergibt die Schuld.',
+    lines: [
+      { position: 1, text: 'Ohne Makel.' },
+      { position: 2, text: 'Man erlegt auf dem Feld drei Füchse und erhält einen gelben Pfeil. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Wenn einer eine Last auf dem Rücken trägt und dennoch im Wagen fährt, so lockt er die Räuber herbei. Beharrlichkeit führt zur Beschämung.' },
+      { position: 4, text: 'Befreie dich von deiner großen Zehe. Dann kommt der Gefährte, und ihm kannst du vertrauen.' },
+      { position: 5, text: 'Wenn nur der Edle sich befreien kann, bringt das Heil. So beweist er den Gemeinen, dass es ihm ernst ist.' },
+      { position: 6, text: 'Der Fürst schießt auf einen Habicht auf hoher Mauer. Er erlegt ihn. Alles ist fördernd.' },
+    ],
+  },
+  41: {
+    name: 'Die Minderung',
+    meaning: 'Verringerung, Opfer, Wegnahme',
+    judgment: 'Die Minderung, verbunden mit Wahrhaftigkeit, bewirkt erhabenes Heil ohne Makel. Man darf darin beharrlich sein. Fördernd ist es, etwas zu unternehmen.',
+    image: 'Unten am Berg ist der See: das Bild der Minderung. So bändigt der Edle seinen Zorn und hemmt seine Triebe.',
+    lines: [
+      { position: 1, text: 'Schnell hingehen, wenn die Aufgaben erledigt sind, ist ohne Makel. Doch muss man bedenken, wie weit man andere mindern darf.' },
+      { position: 2, text: 'Fördernd ist Beharrlichkeit. Etwas zu unternehmen bringt Unheil. Ohne sich selbst zu mindern, vermag man anderen Mehrung zu bringen.' },
+      { position: 3, text: 'Wenn drei Menschen zusammen wandern, so vermindern sie sich um einen. Wenn einer allein wandert, so findet er einen Gefährten.' },
+      { position: 4, text: 'Wenn einer seine Fehler mindert, so macht er, dass der andere eilig kommt und sich freut. Kein Makel.' },
+      { position: 5, text: 'Es mehrt ihn wohl einer. Zehn Paar Schildkröten können nicht dagegen sein. Erhabenes Heil.' },
+      { position: 6, text: 'Wird man gemehrt, ohne andere zu mindern, so ist kein Makel. Beharrlichkeit bringt Heil. Fördernd ist es, etwas zu unternehmen. Man erhält Diener, hat aber kein eigenes Heim mehr.' },
+    ],
+  },
+  42: {
+    name: 'Die Mehrung',
+    meaning: 'Ausdehnung, Wachstum, Förderung',
+    judgment: 'Die Mehrung. Fördernd ist es, etwas zu unternehmen. Fördernd ist es, das große Wasser zu durchqueren.',
+    image: 'Wind und Donner: das Bild der Mehrung. So: Sieht der Edle Gutes, so ahmt er es nach; hat er Fehler, so legt er sie ab.',
+    lines: [
+      { position: 1, text: 'Fördernd ist es, große Taten zu vollbringen. Erhabenes Heil. Kein Makel.' },
+      { position: 2, text: 'Es mehrt ihn wohl einer; zehn Paar Schildkröten können nicht dagegen sein. Dauernde Beharrlichkeit bringt Heil. Der König stellt ihn vor Gott. Heil!' },
+      { position: 3, text: 'Man wird gemehrt durch unglückliche Ereignisse. Kein Makel, wenn du wahrhaftig bist, in der Mitte wandelst und dem Fürsten mit dem Siegel meldest.' },
+      { position: 4, text: 'Wenn du in der Mitte wandelst und dem Fürsten meldest, so wird er folgen. Fördernd ist es, bei der Verlegung der Hauptstadt verwendet zu werden.' },
+      { position: 5, text: 'Hast du wahrhaft ein gütiges Herz, so frage nicht. Erhabenes Heil. Wahrlich, Güte wird als deine Tugend erkannt.' },
+      { position: 6, text: 'Er bringt niemandem Mehrung. Ja, einer schlägt ihn sogar. Er hält sein Herz nicht beständig fest. Unheil!' },
+    ],
+  },
+  45: {
+    name: 'Die Sammlung',
+    meaning: 'Versammlung, Zusammenkunft, Vereinigung',
+    judgment: 'Die Sammlung. Gelingen. Der König naht seinem Tempel. Fördernd ist es, den großen Mann zu sehen. Gelingen. Fördernd ist es, etwas zu unternehmen. Fördernd ist es, Opfer darzubringen.',
+    image: 'Über der Erde ist der See: das Bild der Sammlung. So erneuert der Edle seine Waffen, um dem Unvorhergesehenen zu begegnen.',
+    lines: [
+      { position: 1, text: 'Bist du wahrhaftig, doch nicht bis zum Ende, so gibt es bald Verwirrung, bald Sammlung. Wenn du rufst, kannst du nach einem Händedruck wieder lachen. Bereue nicht. Hingehen ist ohne Makel.' },
+      { position: 2, text: 'Sich ziehen lassen bringt Heil und bleibt ohne Makel. Ist man wahrhaftig, so ist es fördernd, auch ein kleines Opfer darzubringen.' },
+      { position: 3, text: 'Sammlung unter Seufzen. Nichts, das fördernd wäre. Hingehen ist ohne Makel. Kleine Beschämung.' },
+      { position: 4, text: 'Großes Heil. Kein Makel.' },
+      { position: 5, text: 'Hat man bei der Sammlung eine Stellung, so ist kein Makel. Sind einige noch nicht wahrhaft bei der Sache, so ist erhabene und dauernde Beharrlichkeit nötig. Dann schwindet die Reue.' },
+      { position: 6, text: 'Klagen und Seufzen, Tränen in Strömen. Kein Makel.' },
+    ],
+  },
+  46: {
+    name: 'Das Empordringen',
+    meaning: 'Aufsteigen, Emporwachsen, Beförderung',
+    judgment: 'Das Empordringen hat erhabenes Gelingen. Man muss den großen Mann sehen. Fürchte dich nicht. Aufbruch nach Süden bringt Heil.',
+    image: 'Inmitten der Erde wächst das Holz: das Bild des Empordringens. So häuft der Edle hingebenden Charakters das Kleine, um es zu Hohem und Großem zu bringen.',
+    lines: [
+      { position: 1, text: 'Empordringen, das Vertrauen findet, bringt großes Heil.' },
+      { position: 2, text: 'Ist man wahrhaftig, so ist es fördernd, auch ein kleines Opfer darzubringen. Kein Makel.' },
+      { position: 3, text: 'Man dringt empor in eine leere Stadt.' },
+      { position: 4, text: 'Der König bringt ihm Opfer dar auf dem Berg Gi. Heil! Kein Makel.' },
+      { position: 5, text: 'Beharrlichkeit bringt Heil. Man dringt stufenweise empor.' },
+      { position: 6, text: 'Empordringen im Dunkeln. Fördernd ist es, unablässig beharrlich zu sein.' },
+    ],
+  },
+  47: {
+    name: 'Die Bedrängnis',
+    meaning: 'Erschöpfung, Not, Unglück',
+    judgment: 'Die Bedrängnis. Gelingen. Beharrlichkeit. Der große Mann bewirkt Heil. Kein Makel. Wenn man etwas zu sagen hat, so wird es nicht geglaubt.',
+    image: 'Im See ist kein Wasser: das Bild der Bedrängnis. So setzt der Edle sein Leben daran, seinem Willen zu folgen.',
+    lines: [
+      { position: 1, text: 'Man sitzt bedrängt unter einem kahlen Baum und gerät in ein finsteres Tal. Drei Jahre lang sieht man nichts.' },
+      { position: 2, text: 'Man ist bedrängt bei Wein und Speise. Der Mann mit den scharlachroten Knieschützern kommt eben. Fördernd ist es, Opfer darzubringen. Aufbrechen bringt Unheil. Kein Makel.' },
+      { position: 3, text: 'Einer lässt sich von Stein bedrängen und stützt sich auf Dornen und Disteln. Er geht in sein Haus und sieht seine Frau nicht. Unheil!' },
+      { position: 4, text: 'Er kommt ganz langsam, bedrängt in einem goldenen Wagen. Beschämung, doch das Ende wird erreicht.' },
+      { position: 5, text: 'Nase und Füße werden ihm abgeschnitten. Bedrängnis durch den Mann mit den purpurnen Knieschützern. Langsam kommt die Freude. Fördernd ist es, Opfer und Trankopfer darzubringen.' },
+      { position: 6, text: 'Er ist bedrängt von Schlingpflanzen. Er bewegt sich unsicher und sagt: „Bewegung bringt Reue.“ Wenn man darüber Reue empfindet und aufbricht, so kommt Heil.' },
+    ],
+  },
+  48: {
+    name: 'Der Brunnen',
+    meaning: 'Wasserquelle, Erneuerung, Gemeinschaft',
+    judgment: 'Der Brunnen. Man mag die Stadt wechseln, aber man kann nicht den Brunnen wechseln. Er nimmt nicht ab und nimmt nicht zu. Sie kommen und gehen und schöpfen aus dem Brunnen. Wenn man beinahe das Wasser erreicht hat, aber das Seil nicht ganz hinabreicht oder der Krug zerbricht, so bringt das Unheil.',
+    image: 'Über dem Holz ist das Wasser: das Bild des Brunnens. So ermuntert der Edle das Volk bei der Arbeit und ermahnt es, einander zu helfen.',
+    lines: [
+      { position: 1, text: 'Den Schlamm des Brunnens trinkt man nicht. Zu einem alten Brunnen kommen keine Tiere.' },
+      { position: 2, text: 'Am Brunnenloch schießt man Fische. Der Krug ist zerbrochen und rinnt.' },
+      { position: 3, text: 'Der Brunnen ist gereinigt, aber man trinkt nicht daraus. Das ist meines Herzens Leid, denn man könnte daraus schöpfen. Wäre der König klar, so könnte man gemeinsam das Glück genießen.' },
+      { position: 4, text: 'Der Brunnen wird ausgemauert. Kein Makel.' },
+      { position: 5, text: 'Im Brunnen ist eine klare, kalte Quelle, aus der man trinken kann.' },
+      { position: 6, text: 'Man schöpft aus dem Brunnen ohne Hindernis. Er ist verlässlich. Erhabenes Heil.' },
+    ],
+  },
+  49: {
+    name: 'Die Umwälzung',
+    meaning: 'Wandlung, grundlegende Veränderung, Erneuerung',
+    judgment: 'Die Umwälzung. An deinem eigenen Tag findest du Glauben. Erhabenes Gelingen, fördernd durch Beharrlichkeit. Die Reue schwindet.',
+    image: 'Im See ist Feuer: das Bild der Umwälzung. So ordnet der Edle die Zeitrechnung und macht die Jahreszeiten klar.',
+    lines: [
+      { position: 1, text: 'Eingehüllt in die Haut einer gelben Kuh.' },
+      { position: 2, text: 'Wenn der eigene Tag kommt, so darf man umwälzen. Aufbruch bringt Heil. Kein Makel.' },
+      { position: 3, text: 'Aufbruch bringt Unheil. Beharrlichkeit bringt Gefahr. Wenn die Rede von der Umwälzung dreimal die Runde gemacht hat, so darf man sich einsetzen, und die Menschen glauben ihm.' },
+      { position: 4, text: 'Die Reue schwindet. Die Menschen glauben ihm. Die Änderung der Regierungsform bringt Heil.' },
+      { position: 5, text: 'Der große Mann verändert sich wie ein Tiger. Noch ehe er das Orakel befragt, findet er Glauben.' },
+      { position: 6, text: 'Der Edle verändert sich wie ein Panther. Der Gemeine mausert sich im Gesicht. Aufbruch bringt Unheil. Beharrlich bleiben bringt Heil.' },
+    ],
+  },
+  50: {
+    name: 'Der Tiegel',
+    meaning: 'Gefäß, Verwandlung, Nahrung',
+    judgment: 'Der Tiegel. Erhabenes Heil. Gelingen.',
+    image: 'Über dem Holz ist Feuer: das Bild des Tiegels. So festigt der Edle sein Schicksal durch Pflege seiner selbst.',
+    lines: [
+      { position: 1, text: 'Ein Tiegel mit umgestürzten Beinen. Fördernd ist es, das Stockende zu entfernen. Man nimmt eine Nebenfrau um ihres Sohnes willen. Kein Makel.' },
+      { position: 2, text: 'Im Tiegel ist Speise. Meine Genossen sind neidisch, aber sie können mir nicht schaden. Heil!' },
+      { position: 3, text: 'Der Henkel des Tiegels ist verändert. Man ist gehemmt in seinem Lebenswandel. Das Fett des Fasans wird nicht gegessen. Sobald Regen fällt, ist die Reue erschöpft. Am Ende kommt Heil.' },
+      { position: 4, text: 'Die Beine des Tiegels sind gebrochen. Die Speise des Fürsten wird verschüttet und seine Gestalt besudelt. Unheil!' },
+      { position: 5, text: 'Der Tiegel hat gelbe Henkel, goldene Tragringe. Fördernd ist Beharrlichkeit.' },
+      { position: 6, text: 'Der Tiegel hat Ringe aus Jade. Großes Heil. Nichts, das nicht fördernd wäre.' },
+    ],
+  },
+  51: {
+    name: 'Das Erregende',
+    meaning: 'Donner, Erwachen, Erschütterung',
+    judgment: 'Das Erregende. Das Erschüttern bringt Gelingen. Das Erschüttern kommt: hu, hu! Lachende Worte: ha, ha! Das Erschüttern erschreckt hundert Meilen weit, und er lässt Opferlöffel und Kelch nicht fallen.',
+    image: 'Fortgesetzter Donner: das Bild des Erschütterns. So ordnet der Edle in Furcht und Zittern sein Leben.',
+    lines: [
+      { position: 1, text: 'Das Erschüttern kommt: hu, hu! Dann folgen lachende Worte: ha, ha! Heil!' },
+      { position: 2, text: 'Das Erschüttern kommt und bringt Gefahr. Hunderttausendmal verlierst du deine Schätze und musst die neun Hügel ersteigen. Jage ihnen nicht nach. Nach sieben Tagen bekommst du sie wieder.' },
+      { position: 3, text: 'Das Erschüttern kommt und macht einen verstört. Wenn das Erschüttern zum Handeln antreibt, so bleibt man frei von Unheil.' },
+      { position: 4, text: 'Das Erschüttern bleibt im Schlamm stecken.' },
+      { position: 5, text: 'Das Erschüttern geht hin und her. Gefahr. Doch geht gar nichts verloren. Es gibt aber Geschäfte zu verrichten.' },
+      { position: 6, text: 'Das Erschüttern bringt Zerfall und verstörtes Umherblicken. Vorgehen bringt Unheil. Hat es den eigenen Leib noch nicht berührt, sondern zuerst den Nachbarn erreicht, so ist kein Makel. Die Genossen haben etwas zu reden.' },
+    ],
+  },
+  52: {
+    name: 'Das Stillehalten',
+    meaning: 'Berg, Stille, Nicht-Handeln',
+    judgment: 'Das Stillehalten. Der Berg. Seinen Rücken stillhalten, so dass er seinen Leib nicht mehr spürt. Er geht in seinen Hof und sieht seine Leute nicht. Kein Makel.',
+    image: 'Aneinander gelehnte Berge: das Bild des Stillehaltens. So geht der Edle in seinen Gedanken nicht über seine Lage hinaus.',
+    lines: [
+      { position: 1, text: 'Stillehalten seiner Zehen. Kein Makel. Fördernd ist dauernde Beharrlichkeit.' },
+      { position: 2, text: 'Stillehalten seiner Waden. Er kann den nicht retten, dem er folgt. Sein Herz ist nicht froh.' },
+      { position: 3, text: 'Stillehalten seiner Hüften. Steifmachen seines Kreuzes. Gefährlich. Das Herz erstickt.' },
+      { position: 4, text: 'Stillehalten seines Rumpfes. Kein Makel.' },
+      { position: 5, text: 'Stillehalten seiner Kinnbacken. Die Worte haben Ordnung. Die Reue schwindet.' },
+      { position: 6, text: 'Großherziges Stillehalten. Heil!' },
+    ],
+  },
+  53: {
+    name: 'Die Entwicklung',
+    meaning: 'Allmählicher Fortschritt, Stufen, Vorankommen',
+    judgment: 'Die Entwicklung. Das Mädchen wird verheiratet. Heil! Fördernd ist es, etwas zu unternehmen.',
+    image: 'Auf dem Berg ist ein Baum: das Bild der Entwicklung. So verweilt der Edle in Würde und Tugend, um die Sitten zu verbessern.',
+    lines: [
+      { position: 1, text: 'Die Wildgans nähert sich allmählich dem Ufer. Der junge Sohn ist in Gefahr. Es gibt Gerede. Kein Makel.' },
+      { position: 2, text: 'Die Wildgans nähert sich allmählich dem Felsen. Essen und Trinken in Frieden und Eintracht. Heil!' },
+      { position: 3, text: 'Die Wildgans nähert sich allmählich der Hochebene. Der Mann zieht aus und kehrt nicht wieder. Die Frau trägt ein Kind, gebiert es aber nicht. Unheil! Fördernd ist es, Räuber abzuwehren.' },
+      { position: 4, text: 'Die Wildgans geht allmählich zum Baum. Vielleicht findet sie einen flachen Ast. Kein Makel.' },
+      { position: 5, text: 'Die Wildgans nähert sich allmählich dem Gipfel. Drei Jahre lang hat die Frau kein Kind. Am Ende kann nichts sie hindern. Heil!' },
+      { position: 6, text: 'Die Wildgans nähert sich allmählich den Wolkenhöhen. Ihre Federn können für den heiligen Tanz verwendet werden. Heil!' },
+    ],
+  },
+  54: {
+    name: 'Das heiratende Mädchen',
+    meaning: 'Untergeordnete Stellung, natürliche Ordnung, Übergang',
+    judgment: 'Das heiratende Mädchen. Unternehmungen bringen Unheil. Nichts, das fördernd wäre.',
+    image: 'Über dem See ist der Donner: das Bild des heiratenden Mädchens. So erkennt der Edle durch die Ewigkeit des Endes das Vergängliche.',
+    lines: [
+      { position: 1, text: 'Das heiratende Mädchen als Nebenfrau. Ein Lahmer, der auftreten kann. Unternehmungen bringen Heil.' },
+      { position: 2, text: 'Ein Einäugiger, der sehen kann. Fördernd ist die Beharrlichkeit eines einsamen Mannes.' },
+      { position: 3, text: 'Das heiratende Mädchen als Sklavin. Sie heiratet als Nebenfrau.' },
+      { position: 4, text: 'Das heiratende Mädchen zieht die Frist hinaus. Eine späte Heirat kommt zu ihrer Zeit.' },
+      { position: 5, text: 'Der Herrscher I gab seine Tochter in die Ehe. Die bestickten Gewänder der Fürstin waren nicht so prächtig wie die der Dienerin. Der Mond, der beinahe voll ist, bringt Heil.' },
+      { position: 6, text: 'Die Frau hält den Korb, aber es sind keine Früchte darin. Der Mann sticht das Schaf, aber es fließt kein Blut. Nichts, das fördernd wäre.' },
+    ],
+  },
+  55: {
+    name: 'Die Fülle',
+    meaning: 'Überfluss, Höhepunkt, Höchstmaß',
+    judgment: 'Die Fülle hat Gelingen. Der König erreicht sie. Sei nicht traurig. Sei wie die Sonne am Mittag.',
+    image: 'Donner und Blitz kommen beide: das Bild der Fülle. So entscheidet der Edle die Prozesse und vollzieht die Strafen.',
+    lines: [
+      { position: 1, text: 'Wenn einer seinem zugehörigen Herrn begegnet, so können sie zehn Tage beisammen sein, und es ist kein Fehler. Hingehen findet Anerkennung.' },
+      { position: 2, text: 'Der Vorhang ist von solcher Fülle, dass man am Mittag die Polarsterne sehen kann. Durch Hingehen begegnet man Misstrauen und Hass. Weckt man ihn durch Wahrhaftigkeit, so kommt Heil.' },
+      { position: 3, text: 'Das Dickicht ist von solcher Fülle, dass man am Mittag die kleinen Sterne sehen kann. Er bricht sich den rechten Arm. Kein Makel.' },
+      { position: 4, text: 'Der Vorhang ist von solcher Fülle, dass man am Mittag die Polarsterne sehen kann. Er begegnet seinem Herrn, der ihm gleichartig ist. Heil!' },
+      { position: 5, text: 'Es kommen Linien, Segen und Ruhm nahen. Heil!' },
+      { position: 6, text: 'Sein Haus ist im Zustand der Fülle. Er schirmt seine Familie ab. Er späht durchs Tor und nimmt niemand mehr wahr. Drei Jahre lang sieht er nichts. Unheil!' },
+    ],
+  },
+  56: {
+    name: 'Der Wanderer',
+    meaning: 'Reise, Verbannung, Anpassung',
+    judgment: 'Der Wanderer. Durch Kleinheit Gelingen. Dem Wanderer bringt Beharrlichkeit Heil.',
+    image: 'Auf dem Berg ist Feuer: das Bild des Wanderers. So ist der Edle klar und vorsichtig und vermeidet dadurch Strafen und Härten.',
+    lines: [
+      { position: 1, text: 'Wenn der Wanderer sich mit kleinlichen Dingen abgibt, so zieht er sich Unheil herab.' },
+      { position: 2, text: 'Der Wanderer kommt zu einer Herberge. Er hat seine Habe bei sich. Er gewinnt die Treue eines jungen Dieners.' },
+      { position: 3, text: 'Dem Wanderer brennt die Herberge ab. Er verliert die Treue seines jungen Dieners. Gefahr.' },
+      { position: 4, text: 'Der Wanderer ruht in einem Obdach. Er erhält seine Habe und eine Axt. Mein Herz ist nicht froh.' },
+      { position: 5, text: 'Er schießt einen Fasan. Er fällt beim ersten Pfeil. Am Ende bringt das Lob und Amt.' },
+      { position: 6, text: 'Dem Vogel verbrennt das Nest. Der Wanderer lacht zuerst, dann muss er klagen und weinen. Durch Leichtsinn verliert er die Kuh. Unheil!' },
+    ],
+  },
+  57: {
+    name: 'Das Sanfte',
+    meaning: 'Wind, Sanftheit, Beweglichkeit',
+    judgment: 'Das Sanfte. Durch Kleines Gelingen. Fördernd ist es, irgendwohin zu gehen. Fördernd ist es, den großen Mann zu sehen.',
+    image: 'Einander folgende Winde: das Bild des sanft Eindringenden. So verbreitet der Edle seine Befehle und führt seine Unternehmungen durch.',
+    lines: [
+      { position: 1, text: 'Im Vorgehen und im Zurückweichen ist die Beharrlichkeit eines Kriegers fördernd.' },
+      { position: 2, text: 'Eindringen unter das Bett. Priester und Zauberer werden in großer Zahl verwendet. Heil! Kein Makel.' },
+      { position: 3, text: 'Wiederholtes Eindringen. Beschämung.' },
+      { position: 4, text: 'Die Reue schwindet. Bei der Jagd werden drei Arten von Wild gefangen.' },
+      { position: 5, text: 'Beharrlichkeit bringt Heil. Die Reue schwindet. Nichts, das nicht fördernd wäre. Kein Anfang, aber ein Ende. Vor der Änderung drei Tage, nach der Änderung drei Tage. Heil!' },
+      { position: 6, text: 'Eindringen unter das Bett. Er verliert seine Habe und seine Axt. Beharrlichkeit bringt Unheil.' },
+    ],
+  },
+  58: {
+    name: 'Das Heitere',
+    meaning: 'See, Freude, Fröhlichkeit',
+    judgment: 'Das Heitere. Gelingen. Fördernd ist Beharrlichkeit.',
+    image: 'Aneinander hängende Seen: das Bild des Heiteren. So verbindet sich der Edle mit seinen Freunden zur Besprechung und Übung.',
+    lines: [
+      { position: 1, text: 'Zufriedene Heiterkeit. Heil!' },
+      { position: 2, text: 'Wahrhaftige Heiterkeit. Heil! Die Reue schwindet.' },
+      { position: 3, text: 'Kommende Heiterkeit. Unheil!' },
+      { position: 4, text: 'Erwogene Heiterkeit ist nicht in Ruhe. Hat einer seine Fehler abgelegt, so hat er Freude.' },
+      { position: 5, text: 'Aufrichtigkeit gegenüber zersetzenden Einflüssen ist gefährlich.' },
+      { position: 6, text: 'Verführerische Heiterkeit.' },
+    ],
+  },
+  59: {
+    name: 'Die Auflösung',
+    meaning: 'Trennung, Zerstreuung, Auseinandergehen',
+    judgment: 'Die Auflösung. Gelingen. Der König naht seinem Tempel. Fördernd ist es, das große Wasser zu durchqueren. Fördernd ist Beharrlichkeit.',
+    image: 'Der Wind fährt über das Wasser: das Bild der Auflösung. So opferten die alten Könige dem Herrn und errichteten Tempel.',
+    lines: [
+      { position: 1, text: 'Er bringt Hilfe mit der Kraft eines Pferdes. Heil!' },
+      { position: 2, text: 'Bei der Auflösung eilt er zu seiner Stütze. Die Reue schwindet.' },
+      { position: 3, text: 'Er löst sein Selbst auf. Keine Reue.' },
+      { position: 4, text: 'Er löst sich von seiner Schar. Erhabenes Heil. Auflösung führt wiederum zur Anhäufung. Daran denken gewöhnliche Menschen nicht.' },
+      { position: 5, text: 'Seine lauten Rufe lösen auf wie Schweiß. Auflösung! Ein König bleibt ohne Makel.' },
+      { position: 6, text: 'Er löst sein Blut auf. Fortgehen, sich fernhalten, hinausgehen ist ohne Makel.' },
+    ],
+  },
+  60: {
+    name: 'Die Beschränkung',
+    meaning: 'Begrenzung, Grenzen, Selbstbeherrschung',
+    judgment: 'Die Beschränkung. Gelingen. Bittere Beschränkung darf man nicht beharrlich üben.',
+    image: 'Über dem See ist Wasser: das Bild der Beschränkung. So schafft der Edle Zahl und Maß und untersucht, was Tugend und rechter Wandel ist.',
+    lines: [
+      { position: 1, text: 'Nicht hinausgehen aus Tür und Hof ist ohne Makel.' },
+      { position: 2, text: 'Nicht hinausgehen aus Tor und Hof bringt Unheil.' },
+      { position: 3, text: 'Wer keine Beschränkung kennt, der wird Grund zur Klage haben. Kein Makel.' },
+      { position: 4, text: 'Zufriedene Beschränkung. Gelingen.' },
+      { position: 5, text: 'Süße Beschränkung bringt Heil. Hingehen bringt Achtung.' },
+      { position: 6, text: 'Bittere Beschränkung. Beharrlichkeit bringt Unheil. Die Reue schwindet.' },
+    ],
+  },
+  61: {
+    name: 'Innere Wahrheit',
+    meaning: 'Aufrichtigkeit, Vertrauenswürdigkeit, Lauterkeit',
+    judgment: 'Innere Wahrheit. Schweine und Fische. Heil! Fördernd ist es, das große Wasser zu durchqueren. Fördernd ist Beharrlichkeit.',
+    image: 'Über dem See ist der Wind: das Bild der inneren Wahrheit. So bespricht der Edle die Strafsachen, um Hinrichtungen aufzuhalten.',
+    lines: [
+      { position: 1, text: 'Bereitsein bringt Heil. Gibt es geheime Absichten, so ist es beunruhigend.' },
+      { position: 2, text: 'Ein rufender Kranich im Schatten. Sein Junges antwortet ihm. Ich habe einen guten Becher. Ich will ihn mit dir teilen.' },
+      { position: 3, text: 'Er findet einen Genossen. Bald trommelt er, bald hört er auf. Bald schluchzt er, bald singt er.' },
+      { position: 4, text: 'Der Mond, beinahe voll. Das Gespannpferd geht verloren. Kein Makel.' },
+      { position: 5, text: 'Er besitzt Wahrheit, die verbindet. Kein Makel.' },
+      { position: 6, text: 'Hahnenschrei, der zum Himmel dringt. Beharrlichkeit bringt Unheil.' },
+    ],
+  },
+  62: {
+    name: 'Des Kleinen Übergewicht',
+    meaning: 'Übermaß an Vorsicht, kleine Einzelheiten, Begrenzung',
+    judgment: 'Des Kleinen Übergewicht. Gelingen. Fördernd ist Beharrlichkeit. Man mag kleine Dinge tun, man soll nicht große Dinge tun. Der fliegende Vogel bringt die Botschaft: Es ist nicht gut, nach oben zu streben, es ist gut, unten zu bleiben. Großes Heil.',
+    image: 'Auf dem Berg ist der Donner: das Bild von des Kleinen Übergewicht. So legt der Edle in seinem Wandel Gewicht auf das Geringe.',
+    lines: [
+      { position: 1, text: 'Der Vogel gerät durch Fliegen ins Unheil.' },
+      { position: 2, text: 'Sie geht an ihrem Ahn vorbei und trifft ihre Ahnfrau. Er erreicht seinen Fürsten nicht und trifft den Beamten. Kein Makel.' },
+      { position: 3, text: 'Ist man nicht überaus vorsichtig, so kommt vielleicht einer von hinten und schlägt ihn. Unheil!' },
+      { position: 4, text: 'Kein Makel. Er trifft ihn, ohne an ihm vorbeizugehen. Hingehen bringt Gefahr. Man muss auf der Hut sein. Handle nicht. Sei dauernd beharrlich.' },
+      { position: 5, text: 'Dichte Wolken, kein Regen von unserem westlichen Gebiet. Der Fürst schießt und trifft jenen, der in der Höhle ist.' },
+      { position: 6, text: 'Er geht an ihm vorbei, ohne ihn zu treffen. Der fliegende Vogel verlässt ihn. Unheil! Das bedeutet Unglück und Schaden.' },
+    ],
+  },
+  63: {
+    name: 'Nach der Vollendung',
+    meaning: 'Vollendung, Erfüllung, jenseits der Krise',
+    judgment: 'Nach der Vollendung. Gelingen im Kleinen. Fördernd ist Beharrlichkeit. Es ist von Vorteil, etwas zu unternehmen. Der Anfang bringt Heil, das Ende Wirren.',
+    image: 'Über dem Feuer ist Wasser: das Bild des Zustands nach der Vollendung. So bedenkt der Edle das Unglück und wappnet sich im Voraus dagegen.',
+    lines: [
+      { position: 1, text: 'Er bremst seine Räder. Er bekommt den Schwanz ins Wasser. Kein Makel.' },
+      { position: 2, text: 'Die Frau verliert den Vorhang ihres Wagens. Lauf ihm nicht nach; am siebenten Tag bekommst du ihn.' },
+      { position: 3, text: 'Der hohe Ahn züchtigt das Teufelsland. Nach drei Jahren bezwingt er es. Gemeine Menschen soll man nicht verwenden.' },
+      { position: 4, text: 'Die feinsten Kleider werden zu Lumpen. Sei den ganzen Tag vorsichtig.' },
+      { position: 5, text: 'Der Nachbar im Osten, der einen Ochsen schlachtet, erlangt nicht so viel wirkliches Glück wie der Nachbar im Westen mit seinem kleinen Opfer.' },
+      { position: 6, text: 'Er bekommt den Kopf ins Wasser. Gefahr.' },
+    ],
+  },
+  64: {
+    name: 'Vor der Vollendung',
+    meaning: 'Unvollendetes, Übergang, begonnenes Werk',
+    judgment: 'Vor der Vollendung. Gelingen. Der kleine Fuchs bekommt, wenn er den Übergang beinahe vollendet hat, den Schwanz nass. Nichts, das fördernd wäre.',
+    image: 'Das Feuer ist über dem Wasser: das Bild des Zustands vor dem Übergang. So ist der Edle vorsichtig in der Unterscheidung der Dinge.',
+    lines: [
+      { position: 1, text: 'Er bekommt den Schwanz ins Wasser. Beschämend.' },
+      { position: 2, text: 'Er bremst seine Räder. Beharrlichkeit bringt Heil.' },
+      { position: 3, text: 'Vor der Vollendung bringt Angriff Unheil. Fördernd ist es, das große Wasser zu durchqueren.' },
+      { position: 4, text: 'Beharrlichkeit bringt Heil. Die Reue schwindet. Erschütterung, um das Teufelsland zu züchtigen. Drei Jahre lang werden große Reiche verliehen.' },
+      { position: 5, text: 'Beharrlichkeit bringt Heil. Keine Reue. Das Licht des Edlen ist wahrhaftig. Heil!' },
+      { position: 6, text: 'Man trinkt Wein in echtem Vertrauen. Kein Makel. Wenn man aber seinen Kopf nass macht, so verliert man es in Wahrheit.' },
+    ],
+  },
+};
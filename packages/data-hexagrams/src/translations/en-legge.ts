@@ -0,0 +1,908 @@
+/**
+ * English James Legge translation of all 64 hexagrams ('en-legge')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'The Creative',
+    meaning: 'The creative principle; heaven and yang energy',
+    judgment: 'Qian. Great progress and success. The advantage of being firm and correct.',
+    image: 'The sky moves with vigour. The superior man increases his virtue and accomplishes his work.',
+    lines: [
+      { position: 1, text: 'The dragon lies hid in the deep. It is not the time for active doing.' },
+      { position: 2, text: 'The dragon appears in the field. It will be advantageous to meet with the great man.' },
+      { position: 3, text: 'The superior man is active and vigilant all the day, and in the evening still careful and apprehensive. The position is dangerous, but there will be no mistake.' },
+      { position: 4, text: 'The dragon looks as if he were leaping up, but still in the deep. There will be no mistake.' },
+      { position: 5, text: 'The dragon is on the wing in the sky. It will be advantageous to meet with the great man.' },
+      { position: 6, text: 'The dragon exceeds the proper limits. There will be occasion for repentance.' },
+    ],
+    allMoving: 'If the host of dragons appear without heads, there will be good fortune.',
+  },
+  2: {
+    name: 'The Receptive',
+    meaning: 'The receptive principle; earth and yin energy',
+    judgment: 'Kun. The receptive produces great progress and success, (when the subject of it) shows the firm correctness of a mare.',
+    image: 'The earth is in its element below. The superior man, with large virtue, carries things.',
+    lines: [
+      { position: 1, text: 'Its subject treads on hoarfrost. The strong ice will come by and by.' },
+      { position: 2, text: 'It is straight, square, and great. Its operation, without repeated efforts, will be in every respect advantageous.' },
+      { position: 3, text: 'Its subject keeps his excellence under restraint, but firmly maintains it. If he should have occasion to engage in the king\'s service, though he will not claim the success for himself, he will bring affairs to a good issue.' },
+      { position: 4, text: 'It is like a sack tied up. There will be no ground for blame or for praise.' },
+      { position: 5, text: 'The yellow lower garment. There will be great good fortune.' },
+      { position: 6, text: 'Dragons fight in the wild. Their blood is purple and yellow.' },
+    ],
+    allMoving: 'It will be advantageous to be perpetually correct and firm.',
+  },
+  11: {
+    name: 'Peace',
+    meaning: 'Harmony between heaven and earth',
+    judgment: 'Tai. The small departs; the great approaches. It is advantageous to be firm and correct.',
+    image: 'Heaven and earth meeting together forms Tai. The superior man accordingly metes out his treasures to benefit the common people.',
+    lines: [
+      { position: 1, text: 'Grass is pulled up, and brings with it the other stalks with whose roots it is connected. Advance will be fortunate.' },
+      { position: 2, text: 'He bears with the uncultivated, will cross the river without a boat, does not forget the distant, and has no selfish friendships. Thus does he prove himself acting in accordance with the course of the due mean.' },
+      { position: 3, text: 'While there is no state of peace that is not liable to be disturbed, and no departure that is not followed by a return, he who is firm and correct amid hardship and peril will commit no error. There is no occasion for sadness; in what he has still to enjoy he will be happy.' },
+      { position: 4, text: 'He comes fluttering down, not relying on his own rich resources, but calling in his neighbours. They all come not as having received warning, but in the sincerity of their hearts.' },
+      { position: 5, text: 'The sovereign Di-yi gives his younger sister in marriage. By such a course there is happiness and great good fortune.' },
+      { position: 6, text: 'The city wall returns into the moat. It is not the time to use the army. The subject may announce his orders to the people of his own city; but however correct and firm he may be, he will have cause for regret.' },
+    ],
+  },
+  12: {
+    name: 'Standstill',
+    meaning: 'Stagnation from lack of unity between heaven and earth',
+    judgment: 'Pi. It is not advantageous to the firm and correct. The great departs; the small approaches.',
+    image: 'Heaven and earth not in contact form Pi. The superior man manages his virtue and avoids calamity.',
+    lines: [
+      { position: 1, text: 'Grass is pulled up, bringing with it the other stalks with whose roots it is connected. With firm correctness there will be good fortune and progress.' },
+      { position: 2, text: 'Its subject patiently and obediently endures. Small men in such a position will have good fortune. If the great man be in it, he will have success through his distress.' },
+      { position: 3, text: 'Its subject is ashamed of the purpose folded in his breast.' },
+      { position: 4, text: 'He acts in accordance with the ordination of Heaven, and commits no error. His companions will come and share in his happiness.' },
+      { position: 5, text: 'We see him who brings the distress and obstruction to a close, the great man and fortunate. But let him say, "We may perish! We may perish!" so shall the state of things become firm, as if bound to a clump of bushy mulberry trees.' },
+      { position: 6, text: 'We see the overthrow and removal of the condition of distress and obstruction. Before this there was that condition. Hereafter there will be joy.' },
+    ],
+  },
+  19: {
+    name: 'Approach',
+    meaning: 'Drawing near and gradual approach',
+    judgment: 'Lin. It is advantageous to be firm and correct, and in being on guard against all evil.',
+    image: 'The marsh rising over the earth forms Lin. The superior man, in his conduct, cherishes goodness and never wearies.',
+    lines: [
+      { position: 1, text: 'He advances in company with the subject of the second line. Through his firm correctness there will be good fortune.' },
+      { position: 2, text: 'He advances in company with the subject of the first line. There will be good fortune; advancing will be in every way advantageous.' },
+      { position: 3, text: 'One well pleased indeed to advance, but whose action will be in no way advantageous. If he become anxious about it, there will be no error.' },
+      { position: 4, text: 'One advancing in the highest mode. There will be no error.' },
+      { position: 5, text: 'The advance of wisdom, such as befits the great ruler. There will be good fortune.' },
+      { position: 6, text: 'The advance of honesty and generosity. There will be good fortune, and no error.' },
+    ],
+  },
+  20: {
+    name: 'Contemplation',
+    meaning: 'Viewing widely; offering with sincerity',
+    judgment: 'Guan. The ablution has been performed, but not the sacrificial offerings. There is faith and reverence shown.',
+    image: 'Wind moves over the earth forming Guan. The ancient kings in this way viewed the world and established teachings.',
+    lines: [
+      { position: 1, text: 'The looking of a lad; not blamable in men of inferior rank, but matter for regret in superior men.' },
+      { position: 2, text: 'One peeping out from a door. It would be advantageous if it were merely the firm correctness of a female.' },
+      { position: 3, text: 'One looking at the course of his own life, to advance or recede accordingly.' },
+      { position: 4, text: 'One contemplating the glory of the kingdom. It will be advantageous for him, being such as he is, to seek to be a guest of the king.' },
+      { position: 5, text: 'The ruler contemplating his own life-course. A superior man, he will thus fall into no error.' },
+      { position: 6, text: 'The subject contemplating his character to see if it be indeed that of a superior man. He will not fall into error.' },
+    ],
+  },
+  23: {
+    name: 'Decay',
+    meaning: 'Splitting and stripping away; gradual separation',
+    judgment: 'Bo. It is not advantageous to have anywhere to go.',
+    image: 'The mountain attached to the earth forms Bo. Superior men consolidate the state and strengthen the bonds among the people.',
+    lines: [
+      { position: 1, text: 'One overturning the couch by injuring its legs. The injury will go on to the destruction of all firm correctness, and there will be evil.' },
+      { position: 2, text: 'One overthrowing the couch by injuring its frame. The injury will go on to the destruction of all firm correctness, and there will be evil.' },
+      { position: 3, text: 'One among the overthrowers with whom there will be no error.' },
+      { position: 4, text: 'Its subject having overthrown the couch, and going to injure the skin of him who lies on it. There will be evil.' },
+      { position: 5, text: 'Its subject leading on the others like a string of fishes, and obtaining for them the favour that lights on the inmates of the palace. There will be advantage in every way.' },
+      { position: 6, text: 'The great fruit has not been eaten. The superior man finds the people again as a chariot carrying him. The small men by their course overthrow their own dwellings.' },
+    ],
+  },
+  24: {
+    name: 'Return',
+    meaning: 'Returning; the turning point of the year',
+    judgment: 'Fu. There is going out and coming in without error. Friends come with no mistake. To and fro is the way.',
+    image: 'Thunder in the earth forms Fu. The ancient kings closed the doors and passages at the time of winter solstice.',
+    lines: [
+      { position: 1, text: 'Its subject returning from an error of no great extent, which would not proceed to anything requiring repentance. There will be great good fortune.' },
+      { position: 2, text: 'The admirable return of its subject. There will be good fortune.' },
+      { position: 3, text: 'One who has made repeated returns. The position is perilous, but there will be no error.' },
+      { position: 4, text: 'Its subject moving right in the centre among those represented by the other divided lines, and yet returning alone to his proper path.' },
+      { position: 5, text: 'The noble return of its subject. There will be no ground for repentance.' },
+      { position: 6, text: 'Its subject all astray on the subject of returning. There will be evil. There will be calamities and errors. If with his views he put the hosts in motion, the end will be a great defeat, whose issues will extend to the ruler of the state. Even in ten years he will not be able to repair the disaster.' },
+    ],
+  },
+  33: {
+    name: 'Retreat',
+    meaning: 'Withdrawing in wise season',
+    judgment: 'Dun. Prosperous progress. In small matters, to be firm and correct is advantageous.',
+    image: 'Heaven under the mountain forms Dun. The superior man keeps the mean man at a distance with dignity and reserve.',
+    lines: [
+      { position: 1, text: 'A retiring tail. The position is perilous. No movement in any direction should be made.' },
+      { position: 2, text: 'Its subject holding his purpose fast as if by a thong made from the hide of a yellow ox, which cannot be broken.' },
+      { position: 3, text: 'One retiring but bound, to his distress and peril. If he were to deal with his binders as in nourishing a servant or concubine, it would be fortunate for him.' },
+      { position: 4, text: 'Its subject retiring notwithstanding his likings. In a superior man this will lead to good fortune; a small man cannot attain to this.' },
+      { position: 5, text: 'Its subject retiring in an admirable way. With firm correctness there will be good fortune.' },
+      { position: 6, text: 'Its subject retiring in a noble way. It will be advantageous in every respect.' },
+    ],
+  },
+  34: {
+    name: 'Great Strength',
+    meaning: 'The vigor of great strength in its proper place',
+    judgment: 'Da Zhuang. To be firm and correct is advantageous.',
+    image: 'Thunder in heaven above forms Da Zhuang. The superior man does not walk upon paths that conflict with established order.',
+    lines: [
+      { position: 1, text: 'Its subject manifesting his strength in his toes. But advance will lead to evil, most certainly.' },
+      { position: 2, text: 'With firm correctness there will be good fortune.' },
+      { position: 3, text: 'The small man using all his strength; and the superior man whose rule is not to do so. Even with firm correctness the position would be perilous. The case is like that of a ram butting against a fence, and getting his horns entangled.' },
+      { position: 4, text: 'A case in which firm correctness leads to good fortune, and occasion for repentance disappears. We see the fence opened without the horns being entangled. The strength is like that in the wheel-spokes of a large waggon.' },
+      { position: 5, text: 'Its subject losing his ram-like strength in the ease of his position. But there will be no occasion for repentance.' },
+      { position: 6, text: 'One like the ram butting against the fence, and unable either to retreat or to advance as he would fain do. There will not be advantage in any respect; but if he realise the difficulty of his position, there will be good fortune.' },
+    ],
+  },
+  43: {
+    name: 'Resolution',
+    meaning: 'Breaking through with determination and sincerity',
+    judgment: 'Guai. One must make the matter known in the palace of the king with perfect sincerity. There is danger.',
+    image: 'The marsh water rising to heaven forms Guai. The superior man dispenses his favors downward without holding them back.',
+    lines: [
+      { position: 1, text: 'Its subject in the pride of strength advancing with his toes. He goes forward, but will not succeed. There will be ground for blame.' },
+      { position: 2, text: 'Its subject full of apprehension and appealing for help. Late at night hostilities may be in arms against him, but he need not be anxious about them.' },
+      { position: 3, text: 'Its subject about to advance with strength expressed in his cheekbones. There will be evil. But the superior man, bent on cutting off the culprit, will walk alone and encounter the rain, till he be hated by his proper associates as if he were contaminated by the others. In the end there will be no blame against him.' },
+      { position: 4, text: 'One from whose buttocks the skin has been stripped, and who walks slowly and with difficulty. If he could act like a sheep led after its companions, occasion for repentance would disappear. But though he hear these words, he will not believe them.' },
+      { position: 5, text: 'The small men like a bed of purslane, which ought to be uprooted with the utmost determination. The subject of the line having such determination, his action, in harmony with his central position, will lead to no error.' },
+      { position: 6, text: 'Its subject without any to cry and appeal to. His end will be evil.' },
+    ],
+  },
+  44: {
+    name: 'Encounter',
+    meaning: 'Meeting; a female influence becoming predominant',
+    judgment: 'Gou. There is a young girl; one should not marry her.',
+    image: 'Wind below heaven forms Gou. The prince issues his commands and they reach all regions.',
+    lines: [
+      { position: 1, text: 'Its subject should be kept like a carriage tied and fastened to a metal drag, in which case with firm correctness there will be good fortune. But if he move in any direction, evil will appear. He will be like a lean pig, which is sure to keep jumping about.' },
+      { position: 2, text: 'Its subject with a wallet of fish. There will be no error. But it will not be well to let the subject of the first line go forward to the guests.' },
+      { position: 3, text: 'One from whose buttocks the skin has been stripped so that he walks with difficulty. He is in a perilous condition, but there will not be any great error.' },
+      { position: 4, text: 'Its subject with his wallet, but no fish in it. This will give rise to evil.' },
+      { position: 5, text: 'A medlar tree overspreading the gourd beneath it. If the subject of the line keep his brilliant qualities concealed, a good issue will descend as from Heaven.' },
+      { position: 6, text: 'Its subject receiving others on his horns. There will be occasion for regret, but he will not be to blame.' },
+    ],
+  },
+  3: {
+    name: 'Initial Difficulty',
+    meaning: 'Difficulty and struggle at the outset',
+    judgment: 'Zhun. It is advantageous to be firm and correct, and not to have (any) place to go. It is advantageous to appoint feudal princes.',
+    image: 'Clouds and thunder form Zhun. The superior man in this way refines the outward aspect of his nature.',
+    lines: [
+      { position: 1, text: 'There is a difficulty in advancing. It will be advantageous to abide correct and firm, and to be made a feudal ruler.' },
+      { position: 2, text: 'He is distressed and obliged to return; even the horses of his chariot seem to be retreating. But he is not assailed by a spoiler, only sought by a suitor. The young lady maintains her firm correctness and declines a union; after ten years she will be united.' },
+      { position: 3, text: 'One following the deer without the guidance of the forester finds himself in the midst of the forest. The superior man, acquainted with the secret risks, thinks it better to give up the chase. If he went forward he would regret it.' },
+      { position: 4, text: 'The horses of her chariot seem to be in retreat. She seeks the help of him who seeks her to be his wife. Advance will be fortunate; all will turn out advantageously.' },
+      { position: 5, text: 'He has difficulty in dispensing the rich favours that might be expected from him. With firmness and correctness there will be good fortune in small things; in great things there will be evil.' },
+      { position: 6, text: 'The horses of his chariot are obliged to retreat, and he weeps tears of blood in streams.' },
+    ],
+  },
+  4: {
+    name: 'Youthful Inexperience',
+    meaning: 'Youth and inexperience, seeking guidance',
+    judgment: 'Meng. It is advantageous that I should not seek the youthful and inexperienced, but that he should seek me. At the first application I inform him of his doubts.',
+    image: 'The spring below the mountain forms Meng. The superior man in this way cultivates his character.',
+    lines: [
+      { position: 1, text: 'Dispelling ignorance: it will be advantageous to use punishment, but to remove the shackles from the mind. Going on in that way of punishment will give occasion for regret.' },
+      { position: 2, text: 'Exercising forbearance with the ignorant is fortunate, as is receiving a wife. He is like a son able to sustain the burden of his family.' },
+      { position: 3, text: 'One should not marry a woman whose emotions are moved by seeing a man of wealth, and who will not keep her person from him. In no way will advantage come from her.' },
+      { position: 4, text: 'He is bound as in fetters of ignorance. There will be occasion for regret.' },
+      { position: 5, text: 'The simple lad without experience. There will be good fortune.' },
+      { position: 6, text: 'He smites the ignorant youth. No advantage will come from doing him an injury; advantage would come from warding off injury from him.' },
+    ],
+  },
+  5: {
+    name: 'Waiting',
+    meaning: 'Peaceful waiting in faith',
+    judgment: 'Xu. With the sincerity that is sure to be there, there will be light, and decision, and good fortune. Going to cross the great water brings good fortune.',
+    image: 'Clouds rising toward heaven form Xu. The superior man at his leisure eats and drinks and is of good cheer.',
+    lines: [
+      { position: 1, text: 'He is waiting in the distant border. It will be well for him constantly to maintain the purpose thus shown, in which case there will be no error.' },
+      { position: 2, text: 'He is waiting on the sand of the mountain stream. He will suffer the small injury of being spoken against, but in the end there will be good fortune.' },
+      { position: 3, text: 'He is in the mud close by the stream. He thereby invites the approach of injury.' },
+      { position: 4, text: 'He is waiting in the place of blood. But he will get out of the cavern.' },
+      { position: 5, text: 'He is waiting amidst the appliances of a feast. Through his firmness and correctness there will be good fortune.' },
+      { position: 6, text: 'He has entered into the cavern. But there are three guests coming, without being urged, to his help. If he receive them respectfully, there will be good fortune in the end.' },
+    ],
+  },
+  6: {
+    name: 'Conflict',
+    meaning: 'Strife and contention',
+    judgment: 'Song. We have sincerity and confidence in us, but we are stopped by lack of faith in others. If in the midst of the difficulty we remain firm and correct, there is good fortune in the end.',
+    image: 'Heaven and water going in opposite directions form Song. The superior man in his deliberations must weigh carefully.',
+    lines: [
+      { position: 1, text: 'He does not perpetuate the matter about which the contention is. He will suffer the small injury of being spoken against, but the end will be fortunate.' },
+      { position: 2, text: 'He is unequal to the contention. If he retire and keep concealed, the inhabitants of his city, three hundred families, will not suffer calamity.' },
+      { position: 3, text: 'He keeps in the old place assigned for his support, and firmly maintains his correctness. Perilous as the position is, there will be good fortune in the end. Should he engage in the king\'s business, he will not claim the merit of achievement.' },
+      { position: 4, text: 'He is unequal to the contention. He returns to the study of Heaven\'s ordinances, changes his wish to contend, and rests in being firm and correct. There will be good fortune.' },
+      { position: 5, text: 'He contends, and with great good fortune.' },
+      { position: 6, text: 'He may have the leather belt conferred on him by the sovereign, but thrice it will be taken from him in a morning.' },
+    ],
+  },
+  7: {
+    name: 'The Army',
+    meaning: 'An organized force, discipline and order',
+    judgment: 'Shi. The army requires steadiness and good fortune comes to the leader without blame.',
+    image: 'Water in the earth forms the Army. The superior man thus cheers the multitude.',
+    lines: [
+      { position: 1, text: 'The host goes forth according to the rules for such a movement. If these be not good, there will be evil.' },
+      { position: 2, text: 'The leader is in the midst of the host. There will be good fortune and no error. The king has thrice conveyed to him his charge.' },
+      { position: 3, text: 'The host may have many inefficient leaders. There will be evil.' },
+      { position: 4, text: 'The host is in retreat. There is no error.' },
+      { position: 5, text: 'There are birds in the fields, which it will be advantageous to seize and destroy. In that case there will be no error. If the oldest son leads the host, and younger men idly occupy offices, however firm and correct he may be, there will be evil.' },
+      { position: 6, text: 'The great ruler is delivering his charges, appointing some to be rulers of states, and others to undertake the headship of clans. But small men should not be employed in such positions.' },
+    ],
+  },
+  8: {
+    name: 'Union',
+    meaning: 'Binding together for common purpose',
+    judgment: 'Bi. It brings good fortune. But examine whether the union is based on what is true.',
+    image: 'Water on the earth forms Bi. The ancient kings thus established the princes as ministers of the state.',
+    lines: [
+      { position: 1, text: 'Let the subject seek union with his object, being sincere; there will be no error. Let his sincerity be like a full earthenware vessel, and in the end it will bring other advantages.' },
+      { position: 2, text: 'The movement towards union proceeds from within. With firm correctness there will be good fortune.' },
+      { position: 3, text: 'He seeks union with such as ought not to be associated with.' },
+      { position: 4, text: 'He seeks union with the one beyond himself. With firm correctness there will be good fortune.' },
+      { position: 5, text: 'The most illustrious instance of seeking union. The king urges his pursuit of the game only in three directions, and allows the escape of all the animals before him. The people of his towns do not warn one another to prevent it. There will be good fortune.' },
+      { position: 6, text: 'He seeks union without having taken the first step. There will be evil.' },
+    ],
+  },
+  9: {
+    name: 'Small Restraint',
+    meaning: 'The restraining power of small things',
+    judgment: 'Xiao Chu. It brings good fortune. Dense clouds but no rain come from the boundary of our western territory.',
+    image: 'Wind moving along heaven forms Xiao Chu. The superior man thereby refines the outward aspect of his nature.',
+    lines: [
+      { position: 1, text: 'He returns and pursues his own course. What mistake should he fall into? There will be good fortune.' },
+      { position: 2, text: 'He is drawn along with others to return. There will be good fortune.' },
+      { position: 3, text: 'The spokes are removed from the carriage wheels; husband and wife look on each other with averted eyes.' },
+      { position: 4, text: 'He possesses sincerity; the danger of bloodshed is thereby averted, and his ground for apprehension dismissed. There will be no mistake.' },
+      { position: 5, text: 'He possesses sincerity, and draws others to unite with him. Rich in resources, he employs his neighbours in the same cause.' },
+      { position: 6, text: 'The rain has fallen, and the onward progress is stayed; so must we value the full accumulation of virtue. But a wife exercising restraint, however firm and correct she may be, is in a position of peril; and like the moon approaching to the full, a superior man who prosecutes his measures now will meet with evil.' },
+    ],
+  },
+  10: {
+    name: 'Treading Respectfully',
+    meaning: 'Proper conduct and humility',
+    judgment: 'Lu. When one treads on the tail of a tiger and it does not bite him, there is good fortune.',
+    image: 'Heaven and the marsh form Lu. The superior man in this way draws a distinction between high and low.',
+    lines: [
+      { position: 1, text: 'He treads his accustomed path. If he go forward, there will be no error.' },
+      { position: 2, text: 'He treads the path that is level and easy; a quiet and solitary man, to whom, if he be firm and correct, there will be good fortune.' },
+      { position: 3, text: 'A one-eyed man who thinks he can see; a lame man who thinks he can walk well; one who treads on the tail of a tiger and is bitten. All this indicates ill fortune. We have a mere bravo acting the part of a great ruler.' },
+      { position: 4, text: 'He treads on the tail of a tiger. He becomes full of caution, and in the end there will be good fortune.' },
+      { position: 5, text: 'The resolute tread of its subject. Though he be firm and correct, there will be peril.' },
+      { position: 6, text: 'Let him look at the whole course that is trodden, and examine the presage which that gives. If it be complete and without failure, there will be great good fortune.' },
+    ],
+  },
+  13: {
+    name: 'Fellowship with Men',
+    meaning: 'Association with men in the open',
+    judgment: 'Tong Ren. In the open it brings good fortune. It is advantageous to cross the great water.',
+    image: 'Heaven and fire form Tong Ren. The superior man thus divides things into categories.',
+    lines: [
+      { position: 1, text: 'The representative of the union of men is just issuing from his gate. There will be no error.' },
+      { position: 2, text: 'The representative of the union of men in relation with his kindred. There will be occasion for regret.' },
+      { position: 3, text: 'He hides his arms in the thick grass, and at the top of the high mound. For three years he makes no demonstration.' },
+      { position: 4, text: 'He is mounted on the city wall; but he does not proceed to make the attack he contemplates. There will be good fortune.' },
+      { position: 5, text: 'The representative of the union of men first wails and cries out, and then laughs. His great host conquers, and he and the subject of the second line meet together.' },
+      { position: 6, text: 'The representative of the union of men in the suburbs. There will be no occasion for repentance.' },
+    ],
+  },
+  14: {
+    name: 'Great Possession',
+    meaning: 'Great possessions and high station',
+    judgment: 'Da You. Supreme good fortune.',
+    image: 'Fire rising toward heaven forms Da You. The superior man thereby checks evil and brings forth good.',
+    lines: [
+      { position: 1, text: 'There is no approach to what is injurious, and there is no error. Let there be a realisation of the difficulty and danger of the position, and there will be no error to the end.' },
+      { position: 2, text: 'We have a large waggon with its load. In whatever direction advance is made, there will be no error.' },
+      { position: 3, text: 'A feudal prince presents his offerings to the Son of Heaven. A small man would be unequal to such a duty.' },
+      { position: 4, text: 'He keeps his great resources under restraint. There will be no error.' },
+      { position: 5, text: 'The sincerity of its subject reciprocated by all the others. Let him display a proper majesty, and there will be good fortune.' },
+      { position: 6, text: 'He is helped by Heaven. There will be good fortune, and advantage in every respect.' },
+    ],
+  },
+  15: {
+    name: 'Modesty',
+    meaning: 'Modest self-restraint and yielding',
+    judgment: 'Qian. Modesty brings good fortune. The superior man brings his work to a conclusion.',
+    image: 'A mountain within the earth forms Qian. The superior man diminishes the many and increases the few.',
+    lines: [
+      { position: 1, text: 'The superior man who adds humility to humility. Even the great stream may be crossed with this, and there will be good fortune.' },
+      { position: 2, text: 'Humility that has made itself recognised. With firm correctness there will be good fortune.' },
+      { position: 3, text: 'The superior man of acknowledged merit will maintain his success to the end, and have good fortune.' },
+      { position: 4, text: 'One whose action would be in every way advantageous, stirring up his humility the more.' },
+      { position: 5, text: 'One who, without being rich, is able to employ his neighbours. He may advantageously use the force of arms. All his movements will be advantageous.' },
+      { position: 6, text: 'Humility that has made itself recognised. The subject of it will with advantage put his hosts in motion; but he will only punish his own towns and state.' },
+    ],
+  },
+  16: {
+    name: 'Enthusiasm',
+    meaning: 'Harmony and pleasure in accord',
+    judgment: 'Yu. It is advantageous to set up feudal princes and put the army in motion.',
+    image: 'Thunder in the earth forms Yu. The ancient kings used the performance of music to celebrate their achievements and offered them to the divine.',
+    lines: [
+      { position: 1, text: 'He proclaims his pleasure and satisfaction. There will be evil.' },
+      { position: 2, text: 'He is firm as a rock. He sees a thing without waiting till it has come to pass; with his firm correctness there will be good fortune.' },
+      { position: 3, text: 'He looks up for favours, while he indulges the feeling of pleasure. If he would understand, there should be repentance; with delay on his part there will indeed be occasion for repentance.' },
+      { position: 4, text: 'From him the harmony and satisfaction come. Great is the success which he obtains. Let him not allow suspicions to enter his mind, and thus friends will gather around him.' },
+      { position: 5, text: 'He has a chronic complaint, but lives on without dying.' },
+      { position: 6, text: 'He has his mind dark and blinded with pleasure. But if he change his course even when it may be considered as completed, there will be no error.' },
+    ],
+  },
+  17: {
+    name: 'Following',
+    meaning: 'Giving and receiving in sequence',
+    judgment: 'Sui. Supreme good fortune. There is no blame in being firm and correct. There is advantage in yielding to the time.',
+    image: 'Thunder above the lake forms Sui. The superior man retires from the world at evening to rest.',
+    lines: [
+      { position: 1, text: 'We see one changing the object of his pursuit; but if he be firm and correct, there will be good fortune. Going beyond his own gate to find associates, he will achieve merit.' },
+      { position: 2, text: 'We see one who cleaves to the little boy, and lets go the man of age and experience.' },
+      { position: 3, text: 'We see one who cleaves to the man of age and experience, and lets go the little boy. Such following will get what it seeks; but it will be advantageous to adhere to what is firm and correct.' },
+      { position: 4, text: 'We see one followed and obtaining adherents. Though he be firm and correct, there will be evil. If he be sincere, however, in his course, and make that evident, into what error can he fall?' },
+      { position: 5, text: 'The ruler sincere in fostering all that is excellent. There will be good fortune.' },
+      { position: 6, text: 'We see sincerity firmly held and clung to, yea, and bound fast. We see the king with it presenting his offerings on the western mountain.' },
+    ],
+  },
+  18: {
+    name: 'Corruption',
+    meaning: 'Decay and remedy; setting right what is spoiled',
+    judgment: 'Gu. There is great good fortune in setting things right. It is advantageous to cross the great water.',
+    image: 'Wind blowing below the mountain forms Gu. The superior man in this way arouses the people and strengthens their virtue.',
+    lines: [
+      { position: 1, text: 'A son dealing with the troubles caused by his father. If he be an able son, the father will escape the blame of having erred. The position is perilous, but there will be good fortune in the end.' },
+      { position: 2, text: 'A son dealing with the troubles caused by his mother. He should not carry his firm correctness to the utmost.' },
+      { position: 3, text: 'A son dealing with the troubles caused by his father. There may be some small occasion for repentance, but there will not be any great error.' },
+      { position: 4, text: 'A son viewing indulgently the troubles caused by his father. If he go forward, he will find cause to regret it.' },
+      { position: 5, text: 'A son dealing with the troubles caused by his father. He obtains the praise of using the fit instrument for his work.' },
+      { position: 6, text: 'One who does not serve either king or feudal lord, but in a lofty spirit prefers to attend to his own affairs.' },
+    ],
+  },
+  21: {
+    name: 'Biting Through',
+    meaning: 'Chewing and biting through obstacles',
+    judgment: 'Yao He. Chewing and biting through brings good fortune. It is advantageous to prosecute the criminal.',
+    image: 'Lightning above thunder forms Yao He. The ancient kings in this way made the penalties clear and severe.',
+    lines: [
+      { position: 1, text: 'One whose feet are in the stocks, and deprived of his toes. There will be no error.' },
+      { position: 2, text: 'One biting through the soft flesh, and going on to bite off the nose. There will be no error.' },
+      { position: 3, text: 'One gnawing dried flesh, and meeting with what is disagreeable. There will be occasion for some small regret, but no great error.' },
+      { position: 4, text: 'One gnawing the flesh dried on the bone, and getting the pledges of money and arrows. It will be advantageous to him to realise the difficulty of his task and be firm, in which case there will be good fortune.' },
+      { position: 5, text: 'One gnawing at dried flesh, and finding the yellow gold. Let him be firm and correct, realising the peril of his position. There will be no error.' },
+      { position: 6, text: 'One wearing the cangue, and deprived of his ears. There will be evil.' },
+    ],
+  },
+  22: {
+    name: 'Ornamentation',
+    meaning: 'Elegance and embellishment',
+    judgment: 'Bi. There is good fortune in small matters. It is good to have some destination to go.',
+    image: 'Fire at the foot of the mountain forms Bi. The superior man in this way illuminates his culture and does not dare to cut off litigation.',
+    lines: [
+      { position: 1, text: 'One adorning his feet. He can discard a carriage and walk on foot.' },
+      { position: 2, text: 'One adorning his beard.' },
+      { position: 3, text: 'One adorned and bedewed with rich favours. But let him ever maintain his firm correctness, and there will be good fortune.' },
+      { position: 4, text: 'One looking as if adorned, but only in white. As if mounted on a white horse, and furnished with wings, he seeks union with the subject of the first line, while the intervening third pursues, not as a robber, but intent on a matrimonial alliance.' },
+      { position: 5, text: 'Its subject adorned by the occupants of the heights and gardens. He bears his roll of silk, small and slight. He may appear stingy; but there will be good fortune in the end.' },
+      { position: 6, text: 'Its subject with white as his only ornament. There will be no error.' },
+    ],
+  },
+  25: {
+    name: 'Unexpected Good Fortune',
+    meaning: 'Innocent intention and natural rightness',
+    judgment: 'Wu Wang. There is supreme good fortune. It is advantageous to be correct and firm.',
+    image: 'Thunder beneath heaven forms Wu Wang. The ancient kings in this way fostered virtue abundantly.',
+    lines: [
+      { position: 1, text: 'Its subject free from all insincerity. His advance will be accompanied with good fortune.' },
+      { position: 2, text: 'One who reaps without having ploughed, and gathers the produce of his third year\'s fields without having cultivated them the first year for that end. To such a one there will be advantage in whatever direction he may move.' },
+      { position: 3, text: 'Calamity happening to one who is free from insincerity; as in the case of an ox that has been tied up. A passer-by finds it and carries it off, while the people in the neighbourhood have the calamity of being accused and apprehended.' },
+      { position: 4, text: 'If its subject can remain firm and correct, there will be no error.' },
+      { position: 5, text: 'One who is free from insincerity, and yet has fallen ill. Let him not use medicine, and he will have occasion for joy in his recovery.' },
+      { position: 6, text: 'Its subject free from insincerity, yet sure to fall into error if he take action. His action will not be advantageous in any way.' },
+    ],
+  },
+  26: {
+    name: 'Great Accumulation',
+    meaning: 'Accumulating the strength to hold back',
+    judgment: 'Da Chu. It is advantageous to be firm and correct. If not for his home, there is good fortune. It is advantageous to cross the great water.',
+    image: 'Heaven beneath the mountain forms Da Chu. The superior man stores up virtue in order to benefit the world.',
+    lines: [
+      { position: 1, text: 'Its subject in a position of peril. It will be advantageous for him to stop his advance.' },
+      { position: 2, text: 'A carriage with the strap under it removed.' },
+      { position: 3, text: 'Its subject urging his way with good horses. It will be advantageous for him to realise the difficulty of his course, and to be firm and correct, exercising himself daily in his charioteering and methods of defence; then there will be advantage in whatever direction he may advance.' },
+      { position: 4, text: 'The young bull, and the piece of wood over his horns. There will be great good fortune.' },
+      { position: 5, text: 'The teeth of a castrated hog. There will be good fortune.' },
+      { position: 6, text: 'Its subject in command of the firmament of heaven. There will be progress.' },
+    ],
+  },
+  27: {
+    name: 'Providing Nourishment',
+    meaning: 'Attending to sustenance and nourishment',
+    judgment: 'Yi. Firm correctness brings good fortune. Pay attention to providing nourishment.',
+    image: 'Thunder below the mountain forms Yi. The superior man is careful in his words and sparing in his eating and drinking.',
+    lines: [
+      { position: 1, text: 'It is as if you let go your efficacious tortoise, and looked at me till your lower jaw hung down. There will be evil.' },
+      { position: 2, text: 'One looking downwards for nourishment, which is contrary to what is proper; or seeking it from the height above, advance towards which will lead to evil.' },
+      { position: 3, text: 'One acting contrary to the method of nourishing. However firm he may be, there will be evil. For ten years let him not take any action, for it will not be in any way advantageous.' },
+      { position: 4, text: 'One looking downwards for the power to nourish. There will be good fortune. Looking with a tiger\'s downward unwavering glare, and with his desire that impels him to spring after spring, he will fall into no error.' },
+      { position: 5, text: 'One acting contrary to what is regular and proper; but if he abide in firmness, there will be good fortune. He should not, however, try to cross the great stream.' },
+      { position: 6, text: 'Him from whom comes the nourishing. His position is perilous, but there will be good fortune. It will be advantageous to cross the great stream.' },
+    ],
+  },
+  28: {
+    name: 'Great Excessiveness',
+    meaning: 'Going too far; exceeding the mean',
+    judgment: 'Da Guo. The beam sags dangerously. It is advantageous to have somewhere to go. Small good fortune.',
+    image: 'The wind swirls above the lake forming Da Guo. The superior man stands alone without fear.',
+    lines: [
+      { position: 1, text: 'One placing mats of the white mao grass under things set on the ground. There will be no error.' },
+      { position: 2, text: 'A decayed willow producing shoots, or an old husband in possession of his young wife. There will be advantage in every respect.' },
+      { position: 3, text: 'A beam that is weak. There will be evil.' },
+      { position: 4, text: 'A beam curving upwards. There will be good fortune. If the subject looks for other help, there will be cause for regret.' },
+      { position: 5, text: 'A decayed willow producing flowers, or an old wife in possession of her young husband. There will be occasion neither for blame nor for praise.' },
+      { position: 6, text: 'Its subject, with extraordinary boldness, wading through a stream, till the water hides the crown of his head. There will be evil, but no ground for blame.' },
+    ],
+  },
+  29: {
+    name: 'The Pit',
+    meaning: 'Repeated danger; flowing through difficulties',
+    judgment: 'Kan repeated. If you have truth and sincerity, and show them to others, you will have good fortune.',
+    image: 'Water keeps flowing down and also fills up, the double repetition of the trigram of water indicates the idea of flowing through. The superior man applies this to the perpetual practice of virtue.',
+    lines: [
+      { position: 1, text: 'Its subject in the double defile, and yet entering a cavern within it. There will be evil.' },
+      { position: 2, text: 'Its subject in all the peril of the defile. He will, however, get a little of the deliverance that he seeks.' },
+      { position: 3, text: 'Its subject, whether he comes or goes, confronted by a defile. All is peril to him and unrest. His endeavours will lead him into the cavern of the pit. There should be no action in such a case.' },
+      { position: 4, text: 'Its subject at a feast, with simply a bottle of spirits and a subsidiary basket of rice, while the cups and bowls are only of earthenware. He introduces his important lessons as his ruler\'s intelligence admits. There will in the end be no error.' },
+      { position: 5, text: 'The water of the defile not yet full, so that it might flow away; but order will soon be brought about. There will be no error.' },
+      { position: 6, text: 'Its subject bound with cords of three strands or two strands, and placed in the thicket of thorns. But in three years he does not learn the course for him to pursue. There will be evil.' },
+    ],
+  },
+  30: {
+    name: 'Fire',
+    meaning: 'Brightness and illumination',
+    judgment: 'Li. It is advantageous to be firm and correct. There is good fortune in taking care of the cow.',
+    image: 'Fire repeated, the image of Fire. The superior man thereby becomes perpetually aglow with light and love.',
+    lines: [
+      { position: 1, text: 'One ready to move with confused steps. But he treads at the same time reverently, and there will be no mistake.' },
+      { position: 2, text: 'Its subject in his place in yellow. There will be great good fortune.' },
+      { position: 3, text: 'Its subject in a position like that of the declining sun. Instead of playing on his instrument of earthenware, and singing to it, he utters the groans of an old man of eighty. There will be evil.' },
+      { position: 4, text: 'The manner of its subject\'s coming. How abrupt it is, as with fire, with death, to be rejected by all!' },
+      { position: 5, text: 'Its subject as shedding tears in torrents, and groaning in sorrow. There will be good fortune.' },
+      { position: 6, text: 'The king employing its subject in his punitive expeditions. Achieving admirable merit, he breaks only the chiefs, and does not extend his severity to their followers. There will be no error.' },
+    ],
+  },
+  31: {
+    name: 'Mutual Influence',
+    meaning: 'Influencing by attraction and natural response',
+    judgment: 'Xian. There is good fortune in being firm and correct. It is advantageous to have a maiden.',
+    image: 'A marsh on the mountain forms Xian. The superior man thus courts popularity by being ready to receive.',
+    lines: [
+      { position: 1, text: 'One moving his great toes.' },
+      { position: 2, text: 'One moving the calves of his legs. There will be evil. If he abide quiet in his place, there will be good fortune.' },
+      { position: 3, text: 'One moving his thighs, and keeping close hold of those whom he follows. Going forward in this way will cause regret.' },
+      { position: 4, text: 'Firm correctness, which will lead to good fortune, and prevent all occasion for repentance. If its subject be unsettled in his movements, only his friends will follow his purpose.' },
+      { position: 5, text: 'One moving the flesh along the spine above the heart. There will be no occasion for repentance.' },
+      { position: 6, text: 'One moving his jaws and tongue.' },
+    ],
+  },
+  32: {
+    name: 'Permanence',
+    meaning: 'Enduring unchanged with good result',
+    judgment: 'Heng. There is good fortune, there is no blame. It is advantageous to be firm and correct.',
+    image: 'Thunder and wind form Heng. The superior man stands resolute and unchanging.',
+    lines: [
+      { position: 1, text: 'Its subject deeply desirous of long continuance. Even with firm correctness there will be evil; there will be no advantage in any way.' },
+      { position: 2, text: 'All occasion for repentance disappears.' },
+      { position: 3, text: 'One who does not continuously maintain his virtue. There are those who will impute this to him as a disgrace. However firm he may be, there will be ground for regret.' },
+      { position: 4, text: 'A field where there is no game.' },
+      { position: 5, text: 'One continuously maintaining the virtue indicated by it. In a wife this will be fortunate; in a husband, evil.' },
+      { position: 6, text: 'Its subject exciting himself to long continuance. There will be evil.' },
+    ],
+  },
+  35: {
+    name: 'Advance',
+    meaning: 'Promotion and forward movement',
+    judgment: 'Jin. Progress. A good horse is presented. In one day there is progress many times.',
+    image: 'Fire above the earth forms Jin. The superior man thereby takes cognizance of bright excellence and honors virtue.',
+    lines: [
+      { position: 1, text: 'One wishing to advance, and at the same time kept back. Let him be firm and correct, and there will be good fortune. If trust be not reposed in him, let him maintain a large and generous mind, and there will be no error.' },
+      { position: 2, text: 'Its subject advancing, and yet sorrowful. If he be firm and correct, there will be good fortune. He will receive this great blessing from his grandmother.' },
+      { position: 3, text: 'Its subject trusted by all around him. All occasion for repentance will disappear.' },
+      { position: 4, text: 'Its subject advancing like a marmot. However firm and correct he may be, the position is one of peril.' },
+      { position: 5, text: 'All occasion for repentance disappears from its subject. But let him not concern himself about whether he shall fail or succeed. To advance will be fortunate, and in every way advantageous.' },
+      { position: 6, text: 'One advancing his horns. But he only uses them to punish the rebellious people of his own city. The position is perilous, but there will be good fortune. Yet however firm and correct he may be, there will be occasion for regret.' },
+    ],
+  },
+  36: {
+    name: 'Eclipse of the Light',
+    meaning: 'Brightness concealed; enduring in darkness',
+    judgment: 'Ming Yi. In adversity, it is advantageous to be firm and correct.',
+    image: 'Light entering the earth forms Ming Yi. The superior man hides his light, yet it still shines.',
+    lines: [
+      { position: 1, text: 'Its subject, in the condition indicated by the Ming Î, flying, but with drooping wings. When the superior man is revolving his going away, he may be for three days without eating. Wherever he goes, the people there may speak derisively of him.' },
+      { position: 2, text: 'Its subject, in the condition indicated by the Ming Î, wounded in the left thigh. He saves himself by the strength of a swift horse; and is fortunate.' },
+      { position: 3, text: 'Its subject, in the condition indicated by the Ming Î, hunting in the south and taking the great chief of the darkness. He should not be eager to make all correct at once.' },
+      { position: 4, text: 'Its subject just entered into the left side of the belly of the dark land. But he is able to carry out the mind appropriate in the condition indicated by the Ming Î, quitting the gate and courtyard of the lord of darkness.' },
+      { position: 5, text: 'The count of Kî in the condition indicated by the Ming Î. It will be advantageous to be firm and correct.' },
+      { position: 6, text: 'The case where there is no light, but only obscurity. Its subject had at first ascended to the top of the sky; his future shall be to go into the earth.' },
+    ],
+  },
+  37: {
+    name: 'The Family',
+    meaning: 'Domestic relations and order',
+    judgment: 'Jia Ren. It is advantageous for the woman to be firm and correct.',
+    image: 'Wind comes forth from fire: the image of the Family. The superior man has substance in his words and unity in his actions.',
+    lines: [
+      { position: 1, text: 'Its subject establishing restrictive regulations in his household. Occasion for repentance will disappear.' },
+      { position: 2, text: 'Its subject taking nothing on herself, but in her central place attending to the preparation of the food. Through her firm correctness there will be good fortune.' },
+      { position: 3, text: 'Its subject treating the members of the household with stern severity. There will be occasion for repentance, there will be peril, but there will be good fortune. If the wife and children were to be smirking and chattering, in the end there would be occasion for regret.' },
+      { position: 4, text: 'Its subject enriching the family. There will be great good fortune.' },
+      { position: 5, text: 'The influence of the king extending to his family. There need be no anxiety: there will be good fortune.' },
+      { position: 6, text: 'Its subject possessed of sincerity and arrayed in majesty. In the end there will be good fortune.' },
+    ],
+  },
+  38: {
+    name: 'Separation',
+    meaning: 'Being opposed, estrangement',
+    judgment: 'Kui. In small matters there is good fortune.',
+    image: 'Fire above the lake forms Kui. The superior man despite his difference retains his unity with others.',
+    lines: [
+      { position: 1, text: 'Occasion for repentance will disappear. He has lost his horses, but let him not seek for them; they will return of themselves. Should he meet with bad men, he will not err in communicating with them.' },
+      { position: 2, text: 'Its subject happening to meet with his lord in a byway. There will be no error.' },
+      { position: 3, text: 'One whose carriage is dragged back, while the oxen in it are pushed back, and he is himself subjected to the shaving of his head and the cutting off of his nose. There is no good beginning, but there will be a good end.' },
+      { position: 4, text: 'Its subject solitary amidst the prevailing disunion. But he meets with the good man; they blend their sincere desires together. The position is perilous, but there will be no mistake.' },
+      { position: 5, text: 'All occasion for repentance disappears. With his relative and minister he unites closely and readily, as if he were biting through a piece of skin. When he goes forward with this help, what error can there be?' },
+      { position: 6, text: 'Its subject solitary amidst the prevailing disunion. In the subject of the third line he seems to see a pig bearing on its back a load of mud, or a carriage full of ghosts. He first bends his bow against him, and afterwards unbends it, for he discovers that he is not an assailant to injure, but a near relative. Going forward, he shall meet with genial rain, and there will be good fortune.' },
+    ],
+  },
+  39: {
+    name: 'Limping',
+    meaning: 'Halting and difficult progress',
+    judgment: 'Jian. It is favorable to go southwest, and not favorable to go northeast. It is advantageous to see the great man.',
+    image: 'Water on the mountain forms Jian. The superior man turns his attention inward and cultivates his character.',
+    lines: [
+      { position: 1, text: 'Advancing, its subject will encounter greater difficulties, while remaining stationary, he will have ground for praise.' },
+      { position: 2, text: 'The minister of the king struggling with difficulty on difficulty, and not with a view to his own advantage.' },
+      { position: 3, text: 'Its subject advancing, but only to greater difficulties. He remains stationary, and returns to his former associates.' },
+      { position: 4, text: 'Its subject advancing, but only to greater difficulties. He remains stationary, and unites with the subject of the line above.' },
+      { position: 5, text: 'Its subject struggling with the greatest difficulties, while friends are coming to help him.' },
+      { position: 6, text: 'Its subject going forward, only to increase the difficulties, while his remaining stationary will be productive of great merit. There will be good fortune, and it will be advantageous to meet with the great man.' },
+    ],
+  },
+  40: {
+    name: 'Loosening',
+    meaning: 'Release from restraint and difficulty',
+    judgment: 'Jie. It is favorable to go southwest. There is no destination and coming back is good fortune.',
+    image: 'Thunder and rain come together form Jie. The superior man in this way forgives the errors of others.',
+    lines: [
+      { position: 1, text: 'Its subject will commit no error.' },
+      { position: 2, text: 'Its subject catching, in hunting, three foxes, and obtaining the yellow arrows. With firm correctness there will be good fortune.' },
+      { position: 3, text: 'One who is a burden-bearer, and yet rides in a carriage. He thereby invites robbers to attack him. However firm and correct he may try to be, there will be cause for regret.' },
+      { position: 4, text: 'One to whom it is said, Remove your toes. Friends will then come, between you and whom there will be mutual confidence.' },
+      { position: 5, text: 'Its subject, the superior man, executing his function of removing whatever is injurious to the idea of the hexagram, in which case there will be good fortune, and confidence in him will be shown even by the small men.' },
+      { position: 6, text: 'A feudal prince with his bow shooting at a falcon on the top of a high wall, and hitting it. The effect of his action will be in every way advantageous.' },
+    ],
+  },
+  41: {
+    name: 'Decrease',
+    meaning: 'Diminishing in order to advance',
+    judgment: 'Sun. With sincerity, there is supreme good fortune without blame. It is advantageous to be firm and correct.',
+    image: 'Below the mountain there is a lake forming Sun. The superior man in this way curbs his wrath and restrains his desires.',
+    lines: [
+      { position: 1, text: 'Its subject suspending his own affairs, and hurrying away to help the subject of the fourth line. He will commit no error, but let him consider how far he should contribute of what is his for the other.' },
+      { position: 2, text: 'It will be advantageous for its subject to maintain a firm correctness, and action on his part will be evil. He can give increase without taking from himself.' },
+      { position: 3, text: 'How of three men walking together, the number is diminished by one; and how one, walking, finds his friend.' },
+      { position: 4, text: 'Its subject diminishing the ailment under which he labours by employing the subject of the first line to make him hasten to him, and rejoice. There will be no error.' },
+      { position: 5, text: 'Parties adding to the stores of its subject ten pairs of tortoise shells, and accepting no refusal. There will be great good fortune.' },
+      { position: 6, text: 'Its subject giving increase to others without taking from what is his own. There will be no error. With firm correctness there will be good fortune. There will be advantage in every movement that shall be made. He will find ministers more than can be counted by their clans.' },
+    ],
+  },
+  42: {
+    name: 'Increase',
+    meaning: 'Multiplication and advancement',
+    judgment: 'Yi. It is advantageous to have a destination. It is advantageous to cross the great water.',
+    image: 'Wind and thunder form Yi. The superior man in this way removes what is evil and strengthens what is good.',
+    lines: [
+      { position: 1, text: 'It will be advantageous for its subject in his position to make a great movement. If it be greatly fortunate, no blame will be imputed to him.' },
+      { position: 2, text: 'Parties adding to the stores of its subject ten pairs of tortoise shells whose oracles cannot be opposed. Let him persevere in being firm and correct, and there will be good fortune. Let the king, having the virtues thus distinguished, employ them in presenting his offerings to God, and there will be good fortune.' },
+      { position: 3, text: 'Increase given to its subject by means of what is evil, so that he shall be led to good, and be without blame. Let him be sincere and pursue the path of the Mean, so shall he secure the recognition of the ruler, like an officer who announces himself to his prince by the symbol of his rank.' },
+      { position: 4, text: 'Its subject pursuing the due course. His advice to his prince is followed. He can with advantage be relied on in such a movement as that of removing the capital.' },
+      { position: 5, text: 'Its subject with sincere heart seeking to benefit all below. There need be no question about it; the result will be great good fortune. All below will with sincere heart acknowledge his goodness.' },
+      { position: 6, text: 'One to whose increase none will contribute, while many will seek to assail him. He observes no regular rule in the ordering of his heart. There will be evil.' },
+    ],
+  },
+  45: {
+    name: 'Assembly',
+    meaning: 'Assembling in union and communion',
+    judgment: 'Cui. The king approaches his temple. It is advantageous to see the great man. There is good fortune.',
+    image: 'The lake rises over the earth forming Cui. The superior man hereby arranges his officers.',
+    lines: [
+      { position: 1, text: 'Its subject with a sincere desire for union, but unable to carry it out, so that disorder is brought into the sphere of his union. If he cry out for help to his proper correlate, all at once his tears will give place to smiles. He need not mind the temporary difficulty; as he goes forward, there will be no error.' },
+      { position: 2, text: 'Its subject led forward by his correlate. There will be good fortune, and freedom from error. There is entire sincerity, and in that case even the small offerings of the vernal sacrifice are acceptable.' },
+      { position: 3, text: 'Its subject striving after union and seeking it with sighs, yet nowhere finding any advantage. If he go forward, he will not err, though there may be some small cause for regret.' },
+      { position: 4, text: 'Its subject in such a state that if he be greatly fortunate, he will receive no blame.' },
+      { position: 5, text: 'The union of all under its subject in the place of dignity. There will be no error. If any do not have confidence in him, let him see to it that his virtue be great, long-continued, and firmly correct, and all occasion for repentance will disappear.' },
+      { position: 6, text: 'Its subject sighing and weeping; but he will be free from blame.' },
+    ],
+  },
+  46: {
+    name: 'Ascending',
+    meaning: 'Advancing without obstacle',
+    judgment: 'Sheng. There is great good fortune. It is not improper to see the great man. Do not harbor sadness at missing him. Going south brings good fortune.',
+    image: 'Wood within the earth form Sheng. The superior man through his respectfulness and perseverance expands his virtue.',
+    lines: [
+      { position: 1, text: 'Its subject advancing upwards with the welcome of those above him. There will be great good fortune.' },
+      { position: 2, text: 'Its subject with that sincerity which will make even the small offerings of the vernal sacrifice acceptable. There will be no error.' },
+      { position: 3, text: 'Its subject ascending upwards as into an empty city.' },
+      { position: 4, text: 'Its subject employed by the king to present his offerings on mount Ki. There will be good fortune; there will be no mistake.' },
+      { position: 5, text: 'Its subject firmly correct, and therefore enjoying good fortune. He ascends the stairs with all due ceremony.' },
+      { position: 6, text: 'Its subject advancing upwards blindly. Advantage will be found in a ceaseless maintenance of firm correctness.' },
+    ],
+  },
+  47: {
+    name: 'Exhaustion',
+    meaning: 'Oppression and reduction to straits',
+    judgment: 'Kun. There is good fortune. There is no blame. The superior man brings about good fortune. But should he have something to say, it will not be believed.',
+    image: 'The lake without water forms Kun. The superior man in this way risks his life pursuing his will.',
+    lines: [
+      { position: 1, text: 'Its subject with bare buttocks straitened under the stump of a tree. He enters a dark valley, and for three years has no prospect of deliverance.' },
+      { position: 2, text: 'Its subject straitened amidst his wine and viands. There come to him anon the red knee-covers of the ruler. It will be well for him to maintain his sincerity as in sacrificing. Active operations would lead to evil, but he will incur no blame.' },
+      { position: 3, text: 'Its subject straitened before a frowning rock. He lays hold of thorns. He enters his palace, and does not see his wife. There will be evil.' },
+      { position: 4, text: 'Its subject proceeding very slowly to help the subject of the first line, who is straitened by the carriage adorned with metal in front of him. There will be occasion for regret, but the end will be good.' },
+      { position: 5, text: 'Its subject with his nose and feet cut off. He is straitened by his ministers in their scarlet aprons. He is leisurely in his movements, however, and is satisfied. It will be well for him to be as sincere as in sacrificing to spiritual beings.' },
+      { position: 6, text: 'Its subject straitened, as if bound with creepers; or in a high and dangerous position, and saying to himself, If I move, I shall repent it. If he do repent of former errors, there will be good fortune in his going forward.' },
+    ],
+  },
+  48: {
+    name: 'The Well',
+    meaning: 'Pure water and steady provision',
+    judgment: 'Jing. The town may be changed but not the well. It does not decrease nor increase. Going and coming, drawing, all get benefit from the well.',
+    image: 'Water goes over wood forming Jing. The superior man encourages the common people to support one another.',
+    lines: [
+      { position: 1, text: 'A well so muddy that men will not drink of it; or an old well to which neither birds nor other creatures resort.' },
+      { position: 2, text: 'A well from which by a hole the water escapes and flows away to the shrimps and such small creatures among the grass, or one the water of which leaks away from a broken basket.' },
+      { position: 3, text: 'A well, which has been cleared out, but is not used. Our hearts are sorry for this, for the water might be drawn out and used. If the king were only intelligent, both he and we might receive the benefit of it.' },
+      { position: 4, text: 'A well the lining of which is well laid. There will be no error.' },
+      { position: 5, text: 'A clear, limpid well, the waters from whose cold spring are freely drunk.' },
+      { position: 6, text: 'The water from the well brought to the top, which is not allowed to be covered. This suggests the idea of sincerity. There will be great good fortune.' },
+    ],
+  },
+  49: {
+    name: 'Revolution',
+    meaning: 'Total change and transformation',
+    judgment: 'Ge. On its own day it is believed. There is supreme good fortune, and it is advantageous to be firm and correct.',
+    image: 'Fire in the lake forms Ge. The superior man fixes the calendar and makes the seasons clear.',
+    lines: [
+      { position: 1, text: 'Its subject as if he were bound with the skin of a yellow ox.' },
+      { position: 2, text: 'Its subject making his changes after some time has passed. Action taken will be fortunate. There will be no error.' },
+      { position: 3, text: 'Its subject shows that action taken will be evil. Though he be firm and correct, his position is perilous. If the change he contemplates have been three times fully discussed, he will be believed in.' },
+      { position: 4, text: 'Occasion for repentance disappears from its subject. Let him be believed in; and though he change existing ordinances, there will be good fortune.' },
+      { position: 5, text: 'The great man producing his changes as the tiger does when he changes his stripes. Before he divines, he is believed in.' },
+      { position: 6, text: 'The superior man producing his changes as the leopard does when he changes his spots, while small men change their faces and show their obedience. To go forward now would lead to evil, but there will be good fortune in abiding firm and correct.' },
+    ],
+  },
+  50: {
+    name: 'The Caldron',
+    meaning: 'Symbol of transformation and sustenance',
+    judgment: 'Ding. There is great good fortune. There is success.',
+    image: 'Fire above wood forms Ding. The superior man sets in order what is disordered.',
+    lines: [
+      { position: 1, text: 'The caldron overthrown and its feet turned up. But there will be advantage in its getting rid of what was bad in it. Or it shows us the concubine whose position is improved by means of her son. There will be no error.' },
+      { position: 2, text: 'The caldron with the things to be cooked in it. If the subject of the line can say, My enemy dislikes me, but he cannot approach me, there will be good fortune.' },
+      { position: 3, text: 'The caldron with the places of its ears changed. The progress of its subject is thereby stopped. The fat flesh of the pheasant which is in the caldron will not be eaten. But the genial rain will come, and the grounds for repentance will disappear. There will be good fortune in the end.' },
+      { position: 4, text: 'The caldron with its feet broken; and its contents, designed for the ruler\'s use, overturned and spilt. Its subject will be made to blush for shame. There will be evil.' },
+      { position: 5, text: 'The caldron with yellow ears and a rod of metal in them. There will be advantage through being firm and correct.' },
+      { position: 6, text: 'The caldron with a rod of jade. There will be great good fortune. All action taken will be in every way advantageous.' },
+    ],
+  },
+  51: {
+    name: 'The Awakening',
+    meaning: 'Shock and movement, putting in order',
+    judgment: 'Zhen. There is good fortune. Shock comes as a warning. Trembling and fear are followed by joy and laughter.',
+    image: 'Thunder repeated forms the image of the Arousing. The superior man orderly prepares his livelihood.',
+    lines: [
+      { position: 1, text: 'Its subject, when the movement approaches, looking out and around with apprehension, and afterwards smiling and talking cheerfully. There will be good fortune.' },
+      { position: 2, text: 'Its subject, when the movement approaches, in a position of peril. He judges it better to let go the articles in his possession, and to ascend a very lofty height. There is no occasion for him to pursue after the things he has let go; in seven days he will find them.' },
+      { position: 3, text: 'Its subject distraught amid the startling movements going on. If those movements excite him to right action, there will be no mistake.' },
+      { position: 4, text: 'Its subject, amid the startling movements, supinely sinking deeper in the mud.' },
+      { position: 5, text: 'Its subject going and coming amidst the startling movements, and always in peril; but perhaps he will not incur loss, and find business which he can accomplish.' },
+      { position: 6, text: 'Its subject, amidst the startling movements, in breathless dismay and looking around with trembling apprehension. If he take action, there will be evil. If he take precautions before the startling movement reaches him, and when it is only at his neighbours, there will be no error, though his relatives may speak against him.' },
+    ],
+  },
+  52: {
+    name: 'Mountain',
+    meaning: 'Immobility and keeping still in its place',
+    judgment: 'Gen. When it is the time to keep still, keep still; when it is the time to go forward go forward. Thus going forward and backward at the proper time brings good fortune.',
+    image: 'Mountains close together form Gen. The superior man does not go beyond the limits of his station.',
+    lines: [
+      { position: 1, text: 'Its subject keeping his toes at rest. There will be no error; but it will be advantageous for him to be persistently firm and correct.' },
+      { position: 2, text: 'Its subject keeping the calves of his legs at rest. He cannot help him whom he follows, and is dissatisfied in his mind.' },
+      { position: 3, text: 'Its subject keeping his loins at rest, and separating the ribs from the body below. The situation is perilous, and the heart glows with suppressed excitement.' },
+      { position: 4, text: 'Its subject keeping his trunk at rest. There will be no error.' },
+      { position: 5, text: 'Its subject keeping his jawbones at rest, so that his words are all orderly. Occasion for repentance will disappear.' },
+      { position: 6, text: 'Its subject devotedly maintaining his restfulness. There will be good fortune.' },
+    ],
+  },
+  53: {
+    name: 'Gradual Progress',
+    meaning: 'Advancing step by step in proper sequence',
+    judgment: 'Jian. The maiden is given in marriage. Good fortune. It is advantageous to have a destination to go.',
+    image: 'Wind above the mountain forms Jian. The superior man dwells in excellence and improves the customs.',
+    lines: [
+      { position: 1, text: 'The wild geese gradually approaching the shore. A young officer in similar circumstances will be in a position of danger, and be spoken against; but there will be no error.' },
+      { position: 2, text: 'The geese gradually approaching the large rocks, where they eat and drink joyfully and at ease. There will be good fortune.' },
+      { position: 3, text: 'The geese gradually advancing to the dry plains. It suggests the idea of a husband who goes on an expedition and does not return, and of a wife who is pregnant, but will not nourish her child. There will be evil. The case symbolised might be advantageous in resisting plunderers.' },
+      { position: 4, text: 'The geese gradually advancing to the trees. They may light on the flat branches. There will be no error.' },
+      { position: 5, text: 'The geese gradually advancing to the high mound. It suggests the idea of a wife who for three years does not become pregnant; but in the end the natural issue cannot be prevented. There will be good fortune.' },
+      { position: 6, text: 'The geese gradually advancing to the large heights beyond. Their feathers can be used as ornaments. There will be good fortune.' },
+    ],
+  },
+  54: {
+    name: 'The Girl giving herself in Marriage',
+    meaning: 'Womanly submission and the completion of things',
+    judgment: 'Gui Mei. Undertakings bring misfortune. There is nothing that would be advantageous.',
+    image: 'Thunder above the lake forms Gui Mei. The superior man understands the things coming to an end.',
+    lines: [
+      { position: 1, text: 'The younger sister married off in a position ancillary to the real wife. It suggests the idea of a person lame on one leg who yet manages to tramp along. Going forward will be fortunate.' },
+      { position: 2, text: 'Her blind of one eye, and yet able to see. There will be advantage in her maintaining the firm correctness of a solitary widow.' },
+      { position: 3, text: 'The younger sister who was to be married off in a mean position. She returns and accepts an ancillary position.' },
+      { position: 4, text: 'The younger sister who is to be married off protracting the time. She may be late in being married, but the time will come.' },
+      { position: 5, text: 'The marrying of the younger sister of king Î. The sleeves of her as the principal wife were not equal to those of the still younger sister who accompanied her in an inferior capacity. The moon almost at the full. There will be good fortune.' },
+      { position: 6, text: 'The young lady bearing the basket, but without anything in it, and the gentleman slaughtering the sheep, but without blood flowing from it. There will be no advantage in any way.' },
+    ],
+  },
+  55: {
+    name: 'Abundance',
+    meaning: 'Plenty and prosperity',
+    judgment: 'Feng. The king attains fullness. Do not mourn. Be like the noonday sun.',
+    image: 'Lightning and thunder come together forming Feng. The superior man judges those who bring about disorder.',
+    lines: [
+      { position: 1, text: 'Its subject meeting with his mate. Though they are both of the same character, there will be no error. Advance will call forth approval.' },
+      { position: 2, text: 'Its subject surrounded by screens so large and thick that at midday he can see the Great Bear. If he go and try to enlighten his ruler who is thus emblemed, he will make himself to be regarded with suspicion and dislike. Let him cherish his feeling of sincere devotion that so he may move his ruler\'s mind, and there will be good fortune.' },
+      { position: 3, text: 'Its subject with an additional screen of a large and thick banner, through which at midday he can see only the small Mei star. In the darkness he breaks his right arm; but there will be no error.' },
+      { position: 4, text: 'Its subject in a tent so large and thick that at midday he can see the Great Bear. But he meets with the subject of the first line, undistinguished like himself. There will be good fortune.' },
+      { position: 5, text: 'Its subject bringing around him the men of brilliant ability. There will be occasion for congratulation and praise. There will be good fortune.' },
+      { position: 6, text: 'Its subject with his house made large, but only serving as a screen to his household. When he looks at his door, it is still, and there is nobody about it. For three years no one is to be seen. There will be evil.' },
+    ],
+  },
+  56: {
+    name: 'The Traveller',
+    meaning: 'One who travels and is far from home',
+    judgment: 'Lu. It is advantageous that the wanderer be firm and correct; he brings good fortune on his journey.',
+    image: 'Fire on the mountain forms Lu. The superior man thereby becomes thoughtful and careful.',
+    lines: [
+      { position: 1, text: 'The stranger mean and meanly occupied. It is thus that he brings on himself further calamity.' },
+      { position: 2, text: 'The stranger, occupying his lodging-house, carrying his means of livelihood with him, and provided with good and trusty servants.' },
+      { position: 3, text: 'The stranger, who has burned his lodging-house, and lost his servants. However firm and correct he try to be, he will be in peril.' },
+      { position: 4, text: 'The traveller in a resting-place, having also the means of livelihood and the axe, but still saying, I am not at ease in my mind.' },
+      { position: 5, text: 'Its subject shooting a pheasant. He will lose his arrow, but in the end he will obtain praise and a high charge.' },
+      { position: 6, text: 'A bird burning its nest. The stranger, thus represented, first laughs and then cries out. He has lost his ox-like docility too readily and easily. There will be evil.' },
+    ],
+  },
+  57: {
+    name: 'The Accommodating',
+    meaning: 'Gentleness, penetration, submission',
+    judgment: 'Xun. There is good fortune. It is advantageous to have a destination to go. It is advantageous to see the great man.',
+    image: 'Wind following wind form Xun. The superior man hereby acts as when dispatching his orders.',
+    lines: [
+      { position: 1, text: 'Its subject advancing and receding. It would be advantageous for him to have the firm correctness of a brave soldier.' },
+      { position: 2, text: 'The representative of Sun beneath a couch, and employing diviners and exorcists in a way bordering on confusion. There will be good fortune and no error.' },
+      { position: 3, text: 'Its subject penetrating only by violent and repeated efforts. There will be occasion for regret.' },
+      { position: 4, text: 'All occasion for repentance passed away. Its subject takes game for its threefold use in his hunting.' },
+      { position: 5, text: 'With firm correctness there will be good fortune. All occasion for repentance will disappear, and all its movements will be advantageous. There may have been no good beginning, but there will be a good end. Three days before making any change, let him give notice of it; and three days after, let him reconsider it. There will thus be good fortune.' },
+      { position: 6, text: 'The representative of penetration beneath a couch, and having lost the axe with which he executed his decisions. However firm and correct he may try to be, there will be evil.' },
+    ],
+  },
+  58: {
+    name: 'The Open',
+    meaning: 'Joy, satisfaction, mutual support',
+    judgment: 'Dui. There is good fortune. Firm correctness is advantageous.',
+    image: 'Two lakes joined form Dui. The superior man in this way discusses and talks.',
+    lines: [
+      { position: 1, text: 'The pleasure of inward harmony. There will be good fortune.' },
+      { position: 2, text: 'The pleasure arising from inward sincerity. There will be good fortune. Occasion for repentance will disappear.' },
+      { position: 3, text: 'Its subject bringing round himself whatever can give pleasure. There will be evil.' },
+      { position: 4, text: 'Its subject deliberating about what to seek his pleasure in, and not at rest. He borders on what would be injurious, but there will be cause for joy.' },
+      { position: 5, text: 'Its subject trusting in one who would injure him. The situation is perilous.' },
+      { position: 6, text: 'The pleasure of its subject leading and attracting others.' },
+    ],
+  },
+  59: {
+    name: 'Dispersing',
+    meaning: 'Union dissolving and dispersing',
+    judgment: 'Huan. There is good fortune. The king approaches his place of worship. It is advantageous to cross the great water.',
+    image: 'Wind moving over water forms Huan. The ancient kings erected temples to honor the divine.',
+    lines: [
+      { position: 1, text: 'Its subject engaged in rescuing from the impending evil and having the assistance of a strong horse. There will be good fortune.' },
+      { position: 2, text: 'Its subject, amid the dispersion, hurrying to his contrivance for security. All occasion for repentance will disappear.' },
+      { position: 3, text: 'Its subject discarding any regard to his own person. There will be no occasion for repentance.' },
+      { position: 4, text: 'Its subject scattering the different parties in the state; which leads to great good fortune. From the dispersion he collects again good men standing out, a crowd like a mound, which is what ordinary men would not have thought of.' },
+      { position: 5, text: 'Its subject amidst the dispersion issuing his great announcements as the perspiration flows from his body. He scatters abroad also the accumulations in the royal granaries. There will be no error.' },
+      { position: 6, text: 'Its subject disposing of what may be called its bloody wounds, and going and separating himself from its anxious fears. There will be no error.' },
+    ],
+  },
+  60: {
+    name: 'Regulation',
+    meaning: 'Restraint and regulation within limits',
+    judgment: 'Jie. There is good fortune. Painful restrictions should not be persevered in.',
+    image: 'Water above the lake forms Jie. The superior man establishes his thoughts and investigates the nature of things.',
+    lines: [
+      { position: 1, text: 'Its subject not quitting the courtyard outside his door. There will be no error.' },
+      { position: 2, text: 'Its subject not quitting the courtyard inside his gate. There will be evil.' },
+      { position: 3, text: 'Its subject with no appearance of observing the proper regulations, in which case we shall see him lamenting. But there will be no one to blame but himself.' },
+      { position: 4, text: 'Its subject quietly and naturally attentive to all regulations. There will be progress and success.' },
+      { position: 5, text: 'Its subject sweetly and acceptably enacting his regulations. There will be good fortune. The onward progress with them will afford ground for admiration.' },
+      { position: 6, text: 'Its subject enacting regulations severe and difficult. Even with firmness and correctness there will be evil. But though there will be cause for repentance, it will by and by disappear.' },
+    ],
+  },
+  61: {
+    name: 'Faithful Confidence',
+    meaning: 'Good faith and trust between parties',
+    judgment: 'Zhong Fu. There is good fortune. It is advantageous to cross the great water.',
+    image: 'Wind blowing over the lake forms Zhong Fu. The superior man determines lawsuits and delays executions.',
+    lines: [
+      { position: 1, text: 'Its subject resting in himself. There will be good fortune. If he sought to any other, he would not find rest.' },
+      { position: 2, text: 'Its subject like the crane crying out in her hidden retirement, and her young ones responding to her. It is as if it were said, I have a cup of good spirits, and will partake of it with you.' },
+      { position: 3, text: 'Its subject having met with his mate. Now he beats his drum, and now he leaves off. Now he weeps, and now he sings.' },
+      { position: 4, text: 'Its subject like the moon nearly full, and like a horse in a chariot whose fellow disappears. There will be no error.' },
+      { position: 5, text: 'Its subject perfectly sincere, and linking others to him in closest union. There will be no error.' },
+      { position: 6, text: 'Its subject in the position of a cock trying to mount to heaven. Even with firm correctness there will be evil.' },
+    ],
+  },
+  62: {
+    name: 'Small Excess',
+    meaning: 'Exceeding in small matters',
+    judgment: 'Xiao Guo. There is good fortune in small matters. It is not advantageous to undertake great affairs.',
+    image: 'Thunder above the mountain forms Xiao Guo. The superior man in this way emphasizes the small and makes light of it.',
+    lines: [
+      { position: 1, text: 'A bird flying, and ascending, till the issue is evil.' },
+      { position: 2, text: 'Its subject passing by his grandfather, and meeting with his grandmother; not attempting anything against his ruler, but meeting him as his minister. There will be no error.' },
+      { position: 3, text: 'Its subject taking no extraordinary precautions against danger; and some in consequence finding opportunity to assail and injure him. There will be evil.' },
+      { position: 4, text: 'Its subject falling into no error, but meeting the exigency of his situation, without exceeding in his natural course. If he go forward, there will be peril, and he must be cautious. There is no occasion to be using firmness perpetually.' },
+      { position: 5, text: 'Dense clouds but no rain coming from the borders in the west. It also shows the prince shooting his arrow, and taking the bird in a cave.' },
+      { position: 6, text: 'Its subject not meeting the exigency of his situation, and exceeding his proper course. It suggests the image of a bird flying far aloft. There will be evil. The case is what is called one of calamity and self-produced injury.' },
+    ],
+  },
+  63: {
+    name: 'After Completion',
+    meaning: 'Already completed and the need to remain vigilant',
+    judgment: 'Ji Ji. There is good fortune in small matters. It is advantageous to persevere. At the beginning there is good fortune, at the end disorder.',
+    image: 'Water above fire forms Ji Ji. The superior man thinks beforehand of difficulties and provides against them.',
+    lines: [
+      { position: 1, text: 'Its subject as a driver who drags back his wheel, or as a fox which has wet his tail. There will be no error.' },
+      { position: 2, text: 'Its subject as a wife who has lost her carriage-screen. There is no occasion to go in pursuit of it. In seven days she will find it.' },
+      { position: 3, text: 'Kâo Zung attacking the Demon region, and subduing it in three years. Small men should not be employed in such enterprises.' },
+      { position: 4, text: 'Its subject with rags provided against any leak in his boat, and on his guard all day long.' },
+      { position: 5, text: 'Its subject as the neighbour in the east who slaughters an ox for his sacrifice; but this is not equal to the small spring sacrifice of the neighbour in the west, whose sincerity receives the blessing.' },
+      { position: 6, text: 'Its subject with even his head immersed. The position is perilous.' },
+    ],
+  },
+  64: {
+    name: 'Not Yet Completed',
+    meaning: 'Work still in progress and approaching completion',
+    judgment: 'Wei Ji. There is good fortune. The little fox almost completes the crossing but gets its tail wet. There is nothing advantageous.',
+    image: 'Fire above water forms Wei Ji. The superior man carefully distinguishes between things.',
+    lines: [
+      { position: 1, text: 'Its subject as a fox whose tail gets immersed. There will be occasion for regret.' },
+      { position: 2, text: 'Its subject dragging back his carriage-wheel. With firmness and correctness there will be good fortune.' },
+      { position: 3, text: 'Its subject, with the state of things not yet remedied, advancing on; which will be evil. But there will be advantage in trying to cross the great stream.' },
+      { position: 4, text: 'Its subject by firm correctness obtaining good fortune, so that all occasion for repentance disappears. Let him stir himself up, as if he were invading the Demon region, where for three years rewards will come to him from the great kingdom.' },
+      { position: 5, text: 'Its subject by firm correctness obtaining good fortune, and having no occasion for repentance. We see in him the brightness of a superior man, and the possession of sincerity. There will be good fortune.' },
+      { position: 6, text: 'Its subject full of confidence and feasting quietly. There will be no error. If he cherish this confidence till he is like the fox who gets his head immersed, it will fail of what is right.' },
+    ],
+  },
+};
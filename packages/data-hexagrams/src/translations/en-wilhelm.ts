@@ -0,0 +1,908 @@
+/**
+ * English Wilhelm-Baynes translation of all 64 hexagrams ('en-wilhelm')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'The Creative',
+    meaning: 'Heaven, the creative principle, pure yang energy',
+    judgment: 'The Creative works sublime success, furthering through perseverance.',
+    image: 'The movement of heaven is full of power. Thus the superior man makes himself strong and untiring.',
+    lines: [
+      { position: 1, text: 'Hidden dragon. Do not act.' },
+      { position: 2, text: 'Dragon appearing in the field. It furthers one to see the great man.' },
+      { position: 3, text: 'All day long the superior man is creatively active. At nightfall his mind is still beset with cares. Danger. No blame.' },
+      { position: 4, text: 'Wavering flight over the depths. No blame.' },
+      { position: 5, text: 'Flying dragon in the heavens. It furthers one to see the great man.' },
+      { position: 6, text: 'Arrogant dragon will have cause to repent.' },
+    ],
+    allMoving: 'There appears a flight of dragons without heads. Good fortune.',
+  },
+  2: {
+    name: 'The Receptive',
+    meaning: 'Earth, the receptive principle, pure yin energy',
+    judgment: 'The Receptive brings about sublime success, furthering through the perseverance of a mare.',
+    image: 'The earth\'s condition is receptive devotion. Thus the superior man who has breadth of character carries the outer world.',
+    lines: [
+      { position: 1, text: 'When there is hoarfrost underfoot, solid ice is not far off.' },
+      { position: 2, text: 'Straight, square, great. Without purpose, yet nothing remains unfurthered.' },
+      { position: 3, text: 'Hidden lines. One is able to remain persevering. If by chance you are in the service of a king, seek not works, but bring to completion.' },
+      { position: 4, text: 'A tied-up sack. No blame, no praise.' },
+      { position: 5, text: 'A yellow lower garment brings supreme good fortune.' },
+      { position: 6, text: 'Dragons fight in the meadow. Their blood is black and yellow.' },
+    ],
+    allMoving: 'Lasting perseverance furthers.',
+  },
+  11: {
+    name: 'Peace',
+    meaning: 'Heaven and earth unite, harmony and prosperity',
+    judgment: 'Peace. The small departs, the great approaches. Good fortune. Success.',
+    image: 'Heaven and earth unite: the image of Peace. Thus the ruler divides and completes the course of heaven and earth.',
+    lines: [
+      { position: 1, text: 'When ribbon grass is pulled up, the sod comes with it. Each according to his kind. Undertakings bring good fortune.' },
+      { position: 2, text: 'Bearing with the uncultured in gentleness, fording the river with resolution, not neglecting what is distant, not regarding one\'s companions: thus one may manage to walk in the middle.' },
+      { position: 3, text: 'No plain not followed by a slope. No going not followed by a return. He who remains persevering in danger is without blame. Do not complain about this truth; enjoy the good fortune you still possess.' },
+      { position: 4, text: 'He flutters down, not boasting of his wealth, together with his neighbor, guileless and sincere.' },
+      { position: 5, text: 'The sovereign I gives his daughter in marriage. This brings blessing and supreme good fortune.' },
+      { position: 6, text: 'The wall falls back into the moat. Use no army now. Make your commands known within your own town. Perseverance brings humiliation.' },
+    ],
+  },
+  12: {
+    name: 'Standstill',
+    meaning: 'Heaven and earth do not unite, stagnation',
+    judgment: 'Standstill. Evil people do not further the perseverance of the superior man. The great departs, the small approaches.',
+    image: 'Heaven and earth do not unite: the image of Standstill. Thus the superior man falls back upon his inner worth.',
+    lines: [
+      { position: 1, text: 'When ribbon grass is pulled up, the sod comes with it. Each according to his kind. Perseverance brings good fortune and success.' },
+      { position: 2, text: 'They bear and endure; this means good fortune for inferior people. The standstill serves to help the great man to attain success.' },
+      { position: 3, text: 'They bear shame.' },
+      { position: 4, text: 'He who acts at the command of the highest remains without blame. Those of like mind partake of the blessing.' },
+      { position: 5, text: 'Standstill is giving way. Good fortune for the great man. "What if it should fail, what if it should fail?" In this way he ties it to a cluster of mulberry shoots.' },
+      { position: 6, text: 'The standstill comes to an end. First standstill, then good fortune.' },
+    ],
+  },
+  19: {
+    name: 'Approach',
+    meaning: 'Drawing near, becoming great, advancing',
+    judgment: 'Approach has supreme success. Perseverance furthers. When the eighth month comes, there will be misfortune.',
+    image: 'The earth above the lake: the image of Approach. Thus the superior man is inexhaustible in his will to teach.',
+    lines: [
+      { position: 1, text: 'Joint approach. Perseverance brings good fortune.' },
+      { position: 2, text: 'Joint approach. Good fortune. Everything furthers.' },
+      { position: 3, text: 'Comfortable approach. Nothing that would further. If one is induced to grieve over it, one becomes free of blame.' },
+      { position: 4, text: 'Complete approach. No blame.' },
+      { position: 5, text: 'Wise approach. This is right for a great prince. Good fortune.' },
+      { position: 6, text: 'Greathearted approach. Good fortune. No blame.' },
+    ],
+  },
+  20: {
+    name: 'Contemplation',
+    meaning: 'Viewing, observing, being an example',
+    judgment: 'Contemplation. The ablution has been made, but not yet the offering. Full of trust they look up to him.',
+    image: 'The wind blows over the earth: the image of Contemplation. Thus the kings of old visited the regions of the world.',
+    lines: [
+      { position: 1, text: 'Boylike contemplation. For an inferior man, no blame. For a superior man, humiliation.' },
+      { position: 2, text: 'Contemplation through the crack of the door. Furthering for the perseverance of a woman.' },
+      { position: 3, text: 'Contemplation of my life decides the choice between advance and retreat.' },
+      { position: 4, text: 'Contemplation of the light of the kingdom. It furthers one to exert influence as the guest of a king.' },
+      { position: 5, text: 'Contemplation of my life. The superior man is without blame.' },
+      { position: 6, text: 'Contemplation of his life. The superior man is without blame.' },
+    ],
+  },
+  23: {
+    name: 'Splitting Apart',
+    meaning: 'Decay, stripping away, deterioration',
+    judgment: 'Splitting Apart. It does not further one to go anywhere.',
+    image: 'The mountain rests on the earth: the image of Splitting Apart. Thus those above can ensure their position only by giving generously to those below.',
+    lines: [
+      { position: 1, text: 'The leg of the bed is split. Those who persevere are destroyed. Misfortune.' },
+      { position: 2, text: 'The bed is split at the edge. Those who persevere are destroyed. Misfortune.' },
+      { position: 3, text: 'He splits with them. No blame.' },
+      { position: 4, text: 'The bed is split up to the skin. Misfortune.' },
+      { position: 5, text: 'A shoal of fishes. Favor comes through the court ladies. Everything acts to further.' },
+      { position: 6, text: 'There is a large fruit still uneaten. The superior man receives a carriage. The house of the inferior man is split apart.' },
+    ],
+  },
+  24: {
+    name: 'Return',
+    meaning: 'The turning point, renewal, coming back',
+    judgment: 'Return. Success. Going out and coming in without error. Friends come without blame. To and fro goes the way.',
+    image: 'Thunder within the earth: the image of the Turning Point. Thus the kings of antiquity closed the passes at the time of solstice.',
+    lines: [
+      { position: 1, text: 'Return from a short distance. No need for remorse. Great good fortune.' },
+      { position: 2, text: 'Quiet return. Good fortune.' },
+      { position: 3, text: 'Repeated return. Danger. No blame.' },
+      { position: 4, text: 'Walking in the midst of others, one returns alone.' },
+      { position: 5, text: 'Noblehearted return. No remorse.' },
+      { position: 6, text: 'Missing the return. Misfortune. Misfortune from within and without. If armies are set marching in this way, one will in the end suffer a great defeat, disastrous for the ruler of the country. For ten years it will not be possible to attack again.' },
+    ],
+  },
+  33: {
+    name: 'Retreat',
+    meaning: 'Withdrawal, yielding, strategic retreat',
+    judgment: 'Retreat. Success. In what is small, perseverance furthers.',
+    image: 'Mountain under heaven: the image of Retreat. Thus the superior man keeps the inferior at a distance, not angrily but with reserve.',
+    lines: [
+      { position: 1, text: 'At the tail in retreat. This is dangerous. One must not wish to undertake anything.' },
+      { position: 2, text: 'He holds him fast with yellow oxhide. No one can tear him loose.' },
+      { position: 3, text: 'A halted retreat is nerve-wracking and dangerous. To retain people as men- and maidservants brings good fortune.' },
+      { position: 4, text: 'Voluntary retreat brings good fortune to the superior man and downfall to the inferior man.' },
+      { position: 5, text: 'Friendly retreat. Perseverance brings good fortune.' },
+      { position: 6, text: 'Cheerful retreat. Everything serves to further.' },
+    ],
+  },
+  34: {
+    name: 'The Power of the Great',
+    meaning: 'Great strength, vigor, powerful advance',
+    judgment: 'The Power of the Great. Perseverance furthers.',
+    image: 'Thunder in heaven above: the image of the Power of the Great. Thus the superior man does not tread upon paths that do not accord with established order.',
+    lines: [
+      { position: 1, text: 'Power in the toes. Continuing brings misfortune. This is certainly true.' },
+      { position: 2, text: 'Perseverance brings good fortune.' },
+      { position: 3, text: 'The inferior man works through power. The superior man does not act thus. To continue is dangerous. A goat butts against a hedge and gets its horns entangled.' },
+      { position: 4, text: 'Perseverance brings good fortune. Remorse disappears. The hedge opens; there is no entanglement. Power depends upon the axle of a big cart.' },
+      { position: 5, text: 'Loses the goat with ease. No remorse.' },
+      { position: 6, text: 'A goat butts against a hedge. It cannot go backward, it cannot go forward. Nothing serves to further. If one notes the difficulty, this brings good fortune.' },
+    ],
+  },
+  43: {
+    name: 'Breakthrough',
+    meaning: 'Resoluteness, determination, breaking through',
+    judgment: 'Breakthrough. One must resolutely make the matter known at the court of the king. It must be announced truthfully.',
+    image: 'The lake has risen up to heaven: the image of Breakthrough. Thus the superior man dispenses riches downward and refrains from resting on his virtue.',
+    lines: [
+      { position: 1, text: 'Mighty in the forward-striding toes. When one goes and is not equal to the task, one makes a mistake.' },
+      { position: 2, text: 'A cry of alarm. Arms at evening and at night. Fear nothing.' },
+      { position: 3, text: 'To be powerful in the cheekbones brings misfortune. The superior man is firmly resolved. He walks alone and is caught in the rain. He is bespattered, and people murmur against him. No blame.' },
+      { position: 4, text: 'There is no skin on his thighs, and walking comes hard. If a man were to let himself be led like a sheep, remorse would disappear. But if these words are heard they will not be believed.' },
+      { position: 5, text: 'In dealing with weeds, firm resolution is necessary. Walking in the middle remains free of blame.' },
+      { position: 6, text: 'No cry. In the end misfortune comes.' },
+    ],
+  },
+  44: {
+    name: 'Coming to Meet',
+    meaning: 'Encounter, meeting, temptation',
+    judgment: 'Coming to Meet. The maiden is powerful. One should not marry such a maiden.',
+    image: 'Under heaven, wind: the image of Coming to Meet. Thus does the prince act when disseminating his commands and proclaiming them to the four quarters of heaven.',
+    lines: [
+      { position: 1, text: 'It must be checked with a brake of bronze. Perseverance brings good fortune. If one lets it take its course, one experiences misfortune. Even a lean pig has it in him to rage around.' },
+      { position: 2, text: 'There is a fish in the tank. No blame. Does not further guests.' },
+      { position: 3, text: 'There is no skin on his thighs, and walking comes hard. If one is mindful of the danger, no great mistake is made.' },
+      { position: 4, text: 'No fish in the tank. This leads to misfortune.' },
+      { position: 5, text: 'A melon covered with willow leaves. Hidden lines. Then it drops down to one from heaven.' },
+      { position: 6, text: 'He comes to meet with his horns. Humiliation. No blame.' },
+    ],
+  },
+  3: {
+    name: 'Difficulty at the Beginning',
+    meaning: 'Initial struggle, birth pangs, difficulty',
+    judgment: 'Difficulty at the Beginning works supreme success, furthering through perseverance. Do not appoint frontmen. Further through the appointment of followers.',
+    image: 'Thunder and rain stir; clouds and thunder roll: the image of Difficulty at the Beginning. Thus the superior man brings order to the confused state of affairs.',
+    lines: [
+      { position: 1, text: 'Hesitation and hindrance. It furthers one to remain persevering. It furthers one to appoint helpers.' },
+      { position: 2, text: 'Difficulties pile up. Horse and wagon part. He is not a robber; he wants to woo when the time comes. The maiden is chaste, she does not pledge herself. Ten years—then she pledges herself.' },
+      { position: 3, text: 'Whoever hunts deer without the forester only loses his way in the forest. The superior man understands the signs of the time and prefers to desist. To go on brings humiliation.' },
+      { position: 4, text: 'Horse and wagon part. Strive for union. To go brings good fortune. Everything acts to further.' },
+      { position: 5, text: 'Difficulties in blessing. A little perseverance brings good fortune. Great perseverance brings misfortune.' },
+      { position: 6, text: 'Horse and wagon part. Bloody tears flow.' },
+    ],
+  },
+  4: {
+    name: 'Youthful Folly',
+    meaning: 'Ignorance, youth, inexperience',
+    judgment: 'Youthful Folly has success. It is not I who seeks the young fool; the young fool seeks me. At the first oracle I inform him. If he asks two or three times, it is importunity. If he importunes, I give him no information. Perseverance furthers.',
+    image: 'A spring issuing from the mountain: the image of Youthful Folly. Thus the superior man develops his character by thoroughness in all that he does.',
+    lines: [
+      { position: 1, text: 'To make a fool develop, it furthers one to apply discipline. The fetters should be removed. To go on in this way brings humiliation.' },
+      { position: 2, text: 'To bear with fools in kindliness brings good fortune. To know how to take women brings good fortune. The son is capable of taking charge of the household.' },
+      { position: 3, text: 'Take not a maiden who, when she sees a man of bronze, loses possession of herself. Nothing furthers.' },
+      { position: 4, text: 'Entangled folly brings humiliation.' },
+      { position: 5, text: 'Childlike folly brings good fortune.' },
+      { position: 6, text: 'In punishing folly it does not further one to commit transgressions. The only thing that furthers is to prevent transgressions.' },
+    ],
+  },
+  5: {
+    name: 'Waiting',
+    meaning: 'Nourishment, patience, favorable time',
+    judgment: 'Waiting. If you are sincere, you have light and success. Perseverance brings good fortune. Going to meet the great man brings good fortune.',
+    image: 'Clouds rise up to heaven: the image of Waiting. Thus the superior man eats and drinks, rests and finds recreation.',
+    lines: [
+      { position: 1, text: 'Waiting in the meadow. It furthers one to abide in what endures. No blame.' },
+      { position: 2, text: 'Waiting on the sand. There is some gossip. The end brings good fortune.' },
+      { position: 3, text: 'Waiting in the mud brings about the arrival of the enemy.' },
+      { position: 4, text: 'Waiting in blood. Get out of the pit.' },
+      { position: 5, text: 'Waiting at meat and drink. Perseverance brings good fortune.' },
+      { position: 6, text: 'One falls into the pit. Three uninvited guests arrive. Honor them, and in the end there will be good fortune.' },
+    ],
+  },
+  6: {
+    name: 'Conflict',
+    meaning: 'Litigation, discord, striving',
+    judgment: 'Conflict. You are sincere and are obstructed. A cautious halt halfway brings good fortune. Going through to the end brings misfortune. It furthers one to see the great man. It does not further one to cross the great water.',
+    image: 'Heaven and water go their opposite ways: the image of Conflict. Thus in all his transactions the superior man carefully considers the beginning.',
+    lines: [
+      { position: 1, text: 'If one does not perpetuate the affair, there is a little gossip. In the end, good fortune comes.' },
+      { position: 2, text: 'One cannot engage in conflict; one returns home, gives way. The people of his town, three hundred households, remain free of guilt.' },
+      { position: 3, text: 'To nourish oneself on ancient virtue induces perseverance. Danger. In the end, good fortune comes. If by chance you are in the service of a king, seek not works.' },
+      { position: 4, text: 'One cannot engage in conflict. One turns back and submits to fate, changes one\'s attitude, and finds peace in perseverance. Good fortune.' },
+      { position: 5, text: 'To contend before him brings supreme good fortune.' },
+      { position: 6, text: 'Even if by chance a leather belt is bestowed on one, by the end of a morning it will have been snatched away three times.' },
+    ],
+  },
+  7: {
+    name: 'The Army',
+    meaning: 'Troops, military discipline, legality',
+    judgment: 'The Army. The army needs perseverance and a strong man. Good fortune without blame.',
+    image: 'In the middle of the earth is water: the image of the Army. Thus the superior man increases his masses by generosity toward the people.',
+    lines: [
+      { position: 1, text: 'An army must set forth in proper order. If the order is not good, misfortune threatens.' },
+      { position: 2, text: 'In the midst of the army. Good fortune. No blame. The king bestows a triple decoration.' },
+      { position: 3, text: 'Perchance the army carries corpses in the wagon. Misfortune.' },
+      { position: 4, text: 'The army retreats. No blame.' },
+      { position: 5, text: 'There is game in the field. It furthers one to catch it. Without blame. Let the eldest lead the army. The younger transports corpses; then perseverance brings misfortune.' },
+      { position: 6, text: 'The great prince issues commands, founds states, vests families with fiefs. Inferior people should not be employed.' },
+    ],
+  },
+  8: {
+    name: 'Holding Together',
+    meaning: 'Union, alliance, loyalty',
+    judgment: 'Holding Together brings good fortune. But if the wrong man holds the gathering, nothing serves to further. If some are uncertain, repeatedly calling them brings good fortune.',
+    image: 'Over the earth is water: the image of Holding Together. Thus the kings of antiquity bestowed fiefs on the princes of the blood and made all of them members of the family.',
+    lines: [
+      { position: 1, text: 'Hold to him in truth and loyalty; this is without blame. Truth, like a full earthen bowl: thus in the end good fortune comes from without.' },
+      { position: 2, text: 'Hold to him inwardly. Perseverance brings good fortune.' },
+      { position: 3, text: 'You hold together with the wrong people.' },
+      { position: 4, text: 'Hold to him outwardly also. Perseverance brings good fortune.' },
+      { position: 5, text: 'Manifestation of holding together. In the hunt the king uses beaters on three sides only and foregoes game that runs off in front. The citizens need no warning. Good fortune.' },
+      { position: 6, text: 'He finds no head for holding together. Misfortune.' },
+    ],
+  },
+  9: {
+    name: 'The Taming Power of the Small',
+    meaning: 'Restraint, accumulation, subtle influence',
+    judgment: 'The Taming Power of the Small has success. Dense clouds, no rain from our western region.',
+    image: 'Wind blows over heaven: the image of the Taming Power of the Small. Thus the superior man refines the outward aspect of his nature.',
+    lines: [
+      { position: 1, text: 'Return to the way. How could there be blame in this? Good fortune.' },
+      { position: 2, text: 'He allows himself to be drawn into returning. Good fortune.' },
+      { position: 3, text: 'The spokes burst out of the wagon wheels. Man and wife roll their eyes.' },
+      { position: 4, text: 'If you are sincere, blood vanishes and fear gives way. No blame.' },
+      { position: 5, text: 'If you are sincere and loyally attached, you are rich in your neighbor.' },
+      { position: 6, text: 'The rain comes, there is rest. This is due to the lasting effect of character. Perseverance brings the woman into danger. The moon is nearly full. If the superior man persists, misfortune comes.' },
+    ],
+  },
+  10: {
+    name: 'Treading',
+    meaning: 'Walking, conduct, propriety',
+    judgment: 'Treading. Treading upon the tail of the tiger. It does not bite the man. Success.',
+    image: 'Heaven above, the lake below: the image of Treading. Thus the superior man discriminates between high and low, and thereby fortifies the thinking of the people.',
+    lines: [
+      { position: 1, text: 'Simple conduct. Progress without blame.' },
+      { position: 2, text: 'Treading a smooth, level course. The perseverance of a dark man brings good fortune.' },
+      { position: 3, text: 'A one-eyed man is able to see, a lame man is able to tread. He treads on the tail of the tiger. The tiger bites the man. Misfortune. Thus does a warrior act on behalf of his great prince.' },
+      { position: 4, text: 'He treads on the tail of the tiger. Caution and circumspection lead ultimately to good fortune.' },
+      { position: 5, text: 'Resolute conduct. Perseverance with awareness of danger.' },
+      { position: 6, text: 'Look to your conduct and weigh the favorable signs. When everything is fulfilled, supreme good fortune comes.' },
+    ],
+  },
+  13: {
+    name: 'Fellowship with Men',
+    meaning: 'Community, unity, brotherhood',
+    judgment: 'Fellowship with Men in the open. Success. It furthers one to cross the great water. The perseverance of the superior man furthers.',
+    image: 'Heaven together with fire: the image of Fellowship with Men. Thus the superior man organizes the clans and makes distinctions between things.',
+    lines: [
+      { position: 1, text: 'Fellowship with men at the gate. No blame.' },
+      { position: 2, text: 'Fellowship with men in the clan. Humiliation.' },
+      { position: 3, text: 'He hides weapons in the thicket; he climbs the high hill in front of it. For three years he does not rise up.' },
+      { position: 4, text: 'He climbs up on his wall; he cannot attack. Good fortune.' },
+      { position: 5, text: 'Men bound in fellowship first weep and lament, but afterward they laugh. After great struggles they succeed in meeting.' },
+      { position: 6, text: 'Fellowship with men in the meadow. No remorse.' },
+    ],
+  },
+  14: {
+    name: 'Possession in Great Measure',
+    meaning: 'Great abundance, wealth, confidence',
+    judgment: 'Possession in Great Measure. Supreme success.',
+    image: 'Fire in heaven above: the image of Possession in Great Measure. Thus the superior man curbs evil and furthers good, and thereby obeys heaven.',
+    lines: [
+      { position: 1, text: 'No relationship with what is harmful; there is no blame in this. If one remains conscious of difficulty, one remains without blame.' },
+      { position: 2, text: 'A big wagon for loading. One may undertake something. No blame.' },
+      { position: 3, text: 'A prince offers it to the Son of Heaven. A petty man cannot do this.' },
+      { position: 4, text: 'He makes a difference between himself and his neighbor. No blame.' },
+      { position: 5, text: 'He whose truth is accessible, yet dignified, has good fortune.' },
+      { position: 6, text: 'He is blessed by heaven. Good fortune. Nothing that does not further.' },
+    ],
+  },
+  15: {
+    name: 'Modesty',
+    meaning: 'Humility, restraint, yielding',
+    judgment: 'Modesty creates success. The superior man carries things to conclusion.',
+    image: 'Within the earth, a mountain: the image of Modesty. Thus the superior man reduces that which is too much and augments that which is too little.',
+    lines: [
+      { position: 1, text: 'A superior man modest about his modesty may cross the great water. Good fortune.' },
+      { position: 2, text: 'Modesty that comes to expression. Perseverance brings good fortune.' },
+      { position: 3, text: 'A superior man of modesty and merit carries things to conclusion. Good fortune.' },
+      { position: 4, text: 'Nothing that would not further modesty in movement.' },
+      { position: 5, text: 'No boasting of wealth before one\'s neighbor. It is favorable to attack with force. Nothing that would not further.' },
+      { position: 6, text: 'Modesty that comes to expression. It is favorable to set armies marching to chastise one\'s own city and one\'s country.' },
+    ],
+  },
+  16: {
+    name: 'Enthusiasm',
+    meaning: 'Joy, readiness, harmony',
+    judgment: 'Enthusiasm. It furthers one to install feudal princes and set the army marching.',
+    image: 'Thunder in the earth: the image of Enthusiasm. Thus the ancient kings made music to promote harmony and offered it with reverence to the Supreme Being.',
+    lines: [
+      { position: 1, text: 'Enthusiasm that expresses itself brings misfortune.' },
+      { position: 2, text: 'Firm as a rock. Not a whole day. Perseverance brings good fortune.' },
+      { position: 3, text: 'Enthusiasm that looks upward creates remorse. Hesitation brings remorse.' },
+      { position: 4, text: 'The source of enthusiasm. He achieves great things. Doubt not. You gather friends around you as a hair clasp gathers the hair.' },
+      { position: 5, text: 'Persistently ill, and still does not die.' },
+      { position: 6, text: 'Deluded enthusiasm. But if after completion one changes, there is no blame.' },
+    ],
+  },
+  17: {
+    name: 'Following',
+    meaning: 'Following, obedience, flexibility',
+    judgment: 'Following creates supreme success. Furthering perseverance brings reward. No blame.',
+    image: 'Thunder follows lightning: the image of Following. Thus the superior man enters the realm of rest when the sun has set.',
+    lines: [
+      { position: 1, text: 'The standard is changing. Perseverance brings good fortune. To go out of the door in company produces deeds.' },
+      { position: 2, text: 'If one clings to the little boy, one loses the strong man.' },
+      { position: 3, text: 'If one clings to the strong man, one loses the little boy. Through following one finds what one seeks. It furthers one to remain persevering.' },
+      { position: 4, text: 'Following creates success. Perseverance brings misfortune. To go one\'s way with sincerity brings clarity. How could there be blame in this?' },
+      { position: 5, text: 'Sincere in the good. Good fortune.' },
+      { position: 6, text: 'He meets with firm allegiance and is still further bound. The king introduces him to the Western Mountain.' },
+    ],
+  },
+  18: {
+    name: 'Work on What Has Been Spoiled',
+    meaning: 'Decay, restoration, elimination of rot',
+    judgment: 'Work on What Has Been Spoiled creates supreme success. It furthers one to cross the great water. Before the starting point, three days. After the starting point, three days.',
+    image: 'Wind blowing over the mountain: the image of Work on What Has Been Spoiled. Thus the superior man stirs up the people and strengthens their spirit.',
+    lines: [
+      { position: 1, text: 'Setting right what has been spoiled by the father. If there is a son, no blame rests upon the departed father. Danger. In the end good fortune.' },
+      { position: 2, text: 'Setting right what has been spoiled by the mother. One must not be too persevering.' },
+      { position: 3, text: 'Setting right what has been spoiled by the father. There will be a little remorse. No great blame.' },
+      { position: 4, text: 'Tolerating what has been spoiled by the father. In continuing one sees humiliation.' },
+      { position: 5, text: 'Setting right what has been spoiled by the father. One meets with praise.' },
+      { position: 6, text: 'He does not serve kings and princes, sets himself higher goals.' },
+    ],
+  },
+  21: {
+    name: 'Biting Through',
+    meaning: 'Determination, removing obstacles, decisiveness',
+    judgment: 'Biting Through creates success. It is favorable to impose penalties.',
+    image: 'Thunder and lightning: the image of Biting Through. Thus the kings of former times made firm the laws through clearly defined penalties.',
+    lines: [
+      { position: 1, text: 'His feet are fastened in the stocks, so that his toes disappear. No blame.' },
+      { position: 2, text: 'Bites through tender meat, so that his nose disappears. No blame.' },
+      { position: 3, text: 'Bites on old dried meat and strikes on something poisonous. Slight humiliation. No blame.' },
+      { position: 4, text: 'Bites on dried gristly meat. Receives metal arrows. It furthers one to be mindful of difficulties and to be persevering. Good fortune.' },
+      { position: 5, text: 'Bites on dried lean meat. Receives yellow gold. Perseveringly aware of danger. No blame.' },
+      { position: 6, text: 'His neck is fastened in the wooden cangue, so that his ears disappear. Misfortune.' },
+    ],
+  },
+  22: {
+    name: 'Grace',
+    meaning: 'Beauty, decoration, adorning',
+    judgment: 'Grace has success. In small matters it is favorable to have somewhere to go.',
+    image: 'Fire clings to the mountain: the image of Grace. Thus the superior man throws light upon the affairs of the world, but does not dare to act from his own will.',
+    lines: [
+      { position: 1, text: 'He lends grace to his toes, leaves the carriage, and walks.' },
+      { position: 2, text: 'Lends grace to the beard on his chin.' },
+      { position: 3, text: 'Graceful and moist. Constant perseverance brings good fortune.' },
+      { position: 4, text: 'Grace or simplicity? A white horse comes as if on wings. He is not a robber, he will woo at the right time.' },
+      { position: 5, text: 'Grace in hills and gardens. The roll of silk is meager and small. Humiliation, but in the end good fortune.' },
+      { position: 6, text: 'Simple grace. No blame.' },
+    ],
+  },
+  25: {
+    name: 'Innocence',
+    meaning: 'Guilelessness, integrity, spontaneity',
+    judgment: 'Innocence. Supreme success. Perseverance furthers. If someone is not as he should be, he has misfortune, and it does not further him to undertake anything.',
+    image: 'Thunder rolls under heaven: the image of Innocence. Thus the kings of old, rich in virtue, cultivated the good and rewarded the worthy.',
+    lines: [
+      { position: 1, text: 'Innocent behavior brings good fortune.' },
+      { position: 2, text: 'If one does not count on the harvest while plowing, nor on the use of the ground while clearing it, it furthers one to undertake something.' },
+      { position: 3, text: 'Undeserved misfortune. The cow that was tethered by someone is the wanderer\'s gain, the citizen\'s loss.' },
+      { position: 4, text: 'He who can be persevering remains without blame.' },
+      { position: 5, text: 'Use no medicine in an illness incurred through no fault of your own. It will pass of itself.' },
+      { position: 6, text: 'Innocent action brings misfortune. Nothing furthers.' },
+    ],
+  },
+  26: {
+    name: 'The Taming Power of the Great',
+    meaning: 'Accumulation of power, discipline, restraint',
+    judgment: 'The Taming Power of the Great. Perseverance furthers. It does not eat at home. Good fortune. It furthers one to cross the great water.',
+    image: 'Heaven within the mountain: the image of the Taming Power of the Great. Thus the superior man stores up a wealth of goodness in order to support the people.',
+    lines: [
+      { position: 1, text: 'Danger is at hand. It furthers one to desist.' },
+      { position: 2, text: 'The axletrees are taken from the wagon.' },
+      { position: 3, text: 'A good horse that follows others. Awareness of danger, with perseverance, furthers. Practice chariot driving and armed defense daily. It furthers one to have somewhere to go.' },
+      { position: 4, text: 'The headboard of a young bull. Great good fortune.' },
+      { position: 5, text: 'The tusk of a gelded boar. Good fortune.' },
+      { position: 6, text: 'One attains the way of heaven. Success.' },
+    ],
+  },
+  27: {
+    name: 'The Corners of the Mouth',
+    meaning: 'Nourishment, provision, sustenance',
+    judgment: 'The Corners of the Mouth. Perseverance brings good fortune. Pay heed to the providing of nourishment and to what a man seeks to fill his own mouth with.',
+    image: 'Thunder below, mountain above: the image of Providing Nourishment. Thus the superior man is careful of his words and temperate in eating and drinking.',
+    lines: [
+      { position: 1, text: 'You let your magic tortoise go, and look at me with the corners of your mouth drooping. Misfortune.' },
+      { position: 2, text: 'Turning to the summit for nourishment, deviating from the path to seek nourishment from the hill. Continuing to do this brings misfortune.' },
+      { position: 3, text: 'Turning away from nourishment. Perseverance brings misfortune. Do not act thus for ten years. Nothing serves to further.' },
+      { position: 4, text: 'Turning to the summit for provision of nourishment brings good fortune. Spying about with sharp eyes like a tiger with insatiable craving. No blame.' },
+      { position: 5, text: 'Turning away from the path. To remain persevering brings good fortune. One should not cross the great water.' },
+      { position: 6, text: 'The source of nourishment. Awareness of danger brings good fortune. It furthers one to cross the great water.' },
+    ],
+  },
+  28: {
+    name: 'Preponderance of the Great',
+    meaning: 'Excess, extremity, imbalance',
+    judgment: 'Preponderance of the Great. The ridgepole sags to the breaking point. It furthers one to have somewhere to go. Success.',
+    image: 'Wind blows over the lake: the image of Preponderance of the Great. Thus the superior man, when he stands alone, is unafraid, and if he has to renounce the world, he is undismayed.',
+    lines: [
+      { position: 1, text: 'To spread white rushes underneath. No blame.' },
+      { position: 2, text: 'A dry poplar sprouts at the root. An older man takes a young wife. Everything furthers.' },
+      { position: 3, text: 'The ridgepole sags to the breaking point. Misfortune.' },
+      { position: 4, text: 'The ridgepole is braced. Good fortune. If there are ulterior motives, it is humiliating.' },
+      { position: 5, text: 'A withered poplar puts forth flowers. An older woman takes a husband. No blame. No praise.' },
+      { position: 6, text: 'One must go through the water. It goes over one\'s head. Misfortune. No blame.' },
+    ],
+  },
+  29: {
+    name: 'The Abysmal',
+    meaning: 'Danger, flowing water, depth',
+    judgment: 'The Abysmal repeated. If you are sincere, you have success in your heart, and whatever you do succeeds.',
+    image: 'Water flows on continually and reaches its goal: the image of the Abysmal repeated. Thus the superior man walks in lasting virtue and carries on the work of teaching.',
+    lines: [
+      { position: 1, text: 'Repetition of the Abysmal. In the abyss one falls into a pit. Misfortune.' },
+      { position: 2, text: 'The abyss is dangerous. One should strive to attain small things only.' },
+      { position: 3, text: 'Forward and backward, abyss on abyss. In danger like this, pause at first and wait, otherwise you will fall into a pit in the abyss. Do not act in this way.' },
+      { position: 4, text: 'A jug of wine, a bowl of rice with it; earthen vessels simply handed in through the window. There is certainly no blame in this.' },
+      { position: 5, text: 'The abyss is not filled to overflowing, it is filled only to the rim. No blame.' },
+      { position: 6, text: 'Bound with cords and ropes, shut in between thorn-hedged prison walls: for three years one does not find the way. Misfortune.' },
+    ],
+  },
+  30: {
+    name: 'The Clinging',
+    meaning: 'Fire, illumination, clarity',
+    judgment: 'The Clinging. Perseverance furthers. It brings success. Care of the cow brings good fortune.',
+    image: 'That which is bright rises twice: the image of the Clinging. Thus the great man, by perpetually reinforcing his luminosity, illuminates the world.',
+    lines: [
+      { position: 1, text: 'The footprints run crisscross. If one is seriously intent, no blame.' },
+      { position: 2, text: 'Yellow light. Supreme good fortune.' },
+      { position: 3, text: 'In the light of the setting sun, men either beat the pot and sing or loudly bewail the approach of old age. Misfortune.' },
+      { position: 4, text: 'Its coming is sudden; it flames up, dies down, is thrown away.' },
+      { position: 5, text: 'Tears in floods, sighing and lamenting. Good fortune.' },
+      { position: 6, text: 'The king uses him to march forth and chastise. Then it is best to kill the leaders and take captive the followers. No blame.' },
+    ],
+  },
+  31: {
+    name: 'Influence',
+    meaning: 'Attraction, courtship, reciprocal action',
+    judgment: 'Influence. Success. Perseverance furthers. It furthers one to take a maiden to wife.',
+    image: 'A lake on the mountain: the image of Influence. Thus the superior man encourages people to approach him by his readiness to receive them.',
+    lines: [
+      { position: 1, text: 'The influence shows itself in the big toe.' },
+      { position: 2, text: 'The influence shows itself in the calves of the legs. Misfortune. Tarrying brings good fortune.' },
+      { position: 3, text: 'The influence shows itself in the thighs. Holds to that which follows it. To continue is humiliating.' },
+      { position: 4, text: 'Perseverance brings good fortune. Remorse disappears. If a man is agitated in mind, and his thoughts go hither and thither, only those friends on whom he fixes his conscious thoughts will follow.' },
+      { position: 5, text: 'The influence shows itself in the back of the neck. No remorse.' },
+      { position: 6, text: 'The influence shows itself in the jaws, cheeks, and tongue.' },
+    ],
+  },
+  32: {
+    name: 'Duration',
+    meaning: 'Constancy, persistence, continuity',
+    judgment: 'Duration. Success. No blame. Perseverance furthers. It furthers one to have somewhere to go.',
+    image: 'Thunder and wind: the image of Duration. Thus the superior man stands firm and does not change his direction.',
+    lines: [
+      { position: 1, text: 'Seeking duration too hastily brings misfortune persistently. Nothing that would further.' },
+      { position: 2, text: 'Remorse disappears.' },
+      { position: 3, text: 'He who does not give duration to his character meets with disgrace. Persistent humiliation.' },
+      { position: 4, text: 'No game in the field.' },
+      { position: 5, text: 'Giving duration to one\'s character through perseverance. This is good fortune for a woman, misfortune for a man.' },
+      { position: 6, text: 'Restlessness as an enduring condition brings misfortune.' },
+    ],
+  },
+  35: {
+    name: 'Progress',
+    meaning: 'Advancement, promotion, moving upward',
+    judgment: 'Progress. The powerful horse is emulous. It is advantageous to further movement in any direction. It furthers one to present offerings.',
+    image: 'The sun rising over the earth: the image of Progress. Thus the superior man himself brightens his bright virtue.',
+    lines: [
+      { position: 1, text: 'Progressing, but turned back. Perseverance brings good fortune. If one meets with no confidence, one should remain calm. No mistake.' },
+      { position: 2, text: 'Progressing, but in sorrow. Perseverance brings good fortune. Then one obtains great happiness from one\'s ancestress.' },
+      { position: 3, text: 'All are in accord. Remorse disappears.' },
+      { position: 4, text: 'Progress like a hamster. Perseverance brings danger.' },
+      { position: 5, text: 'Remorse disappears. Take not gain and loss to heart. Undertakings bring good fortune. Everything serves to further.' },
+      { position: 6, text: 'Making progress with the horns is permissible only for the purpose of punishing one\'s own city. To be conscious of danger brings good fortune. No blame. Perseverance brings humiliation.' },
+    ],
+  },
+  36: {
+    name: 'Darkening of the Light',
+    meaning: 'Obscuration, adversity, hidden virtue',
+    judgment: 'Darkening of the Light. In adversity it furthers one to be persevering.',
+    image: 'The light has sunk into the earth: the image of Darkening of the Light. Thus does the superior man live with the great mass: he veils his light yet still shines.',
+    lines: [
+      { position: 1, text: 'Darkening of the light during flight. He lowers his wings. The superior man does not eat for three days on his wanderings. But he has somewhere to go. The host has occasion to gossip about him.' },
+      { position: 2, text: 'Darkening of the light injures him in the left thigh. He gives aid with the strength of a horse. Good fortune.' },
+      { position: 3, text: 'Darkening of the light during the hunt in the south. Their great leader is captured. One must not expect perseverance too soon.' },
+      { position: 4, text: 'He penetrates the left side of the belly. One gets at the very heart of the darkening of the light, and leaves gate and courtyard.' },
+      { position: 5, text: 'Darkening of the light as with Prince Chi. Perseverance furthers.' },
+      { position: 6, text: 'Not light but darkness. First he climbed up to heaven, then he plunged into the depths of the earth.' },
+    ],
+  },
+  37: {
+    name: 'The Family',
+    meaning: 'Household, relationships, foundation',
+    judgment: 'The Family. It is favorable for the woman to be firm and correct.',
+    image: 'Wind rises from fire: the image of the Family. Thus the superior man has substance in his words and preserves unity in his actions.',
+    lines: [
+      { position: 1, text: 'Firm seclusion within the family. Remorse disappears.' },
+      { position: 2, text: 'She should not follow her whims. She must attend within to the food. Perseverance brings good fortune.' },
+      { position: 3, text: 'When tempers flare up in the family, too great severity brings remorse. Good fortune nonetheless. When woman and child dally and laugh, it leads in the end to humiliation.' },
+      { position: 4, text: 'She is the treasure of the house. Great good fortune.' },
+      { position: 5, text: 'As a king he approaches his family. Fear not. Good fortune.' },
+      { position: 6, text: 'His work commands respect. In the end good fortune comes.' },
+    ],
+  },
+  38: {
+    name: 'Opposition',
+    meaning: 'Divergence, separation, misunderstanding',
+    judgment: 'Opposition. In small matters, good fortune.',
+    image: 'Fire above, lake below: the image of Opposition. Thus amid all fellowship the superior man retains his individuality.',
+    lines: [
+      { position: 1, text: 'Remorse disappears. If you lose your horse, do not run after it; it will come back of its own accord. When you see evil people, guard yourself against mistakes.' },
+      { position: 2, text: 'One meets his lord in a narrow street. No blame.' },
+      { position: 3, text: 'One sees the wagon dragged back, the oxen halted, a man\'s hair and nose cut off. Not a good beginning, but a good end.' },
+      { position: 4, text: 'Isolated through opposition, one meets a like-minded man with whom one can associate in good faith. Despite the danger, no blame.' },
+      { position: 5, text: 'Remorse disappears. The companion bites his way through the wrappings. If one goes to him, how could it be a mistake?' },
+      { position: 6, text: 'Isolated through opposition, one sees one\'s companion as a pig covered with dirt, as a wagon full of devils. First one draws a bow against him, then one lays the bow aside. He is not a robber; he will woo at the right time. As one goes, rain falls; then good fortune comes.' },
+    ],
+  },
+  39: {
+    name: 'Obstruction',
+    meaning: 'Difficulty, halt, standstill',
+    judgment: 'Obstruction. Southwest furthers. Northeast does not further. It furthers one to see the great man. Perseverance brings good fortune.',
+    image: 'Water on the mountain: the image of Obstruction. Thus the superior man turns his attention inward and cultivates his character.',
+    lines: [
+      { position: 1, text: 'Going leads to obstructions, coming meets with praise.' },
+      { position: 2, text: 'The king\'s servant is beset by obstruction upon obstruction, but it is not his own fault.' },
+      { position: 3, text: 'Going leads to obstructions; hence he comes back.' },
+      { position: 4, text: 'Going leads to obstructions, coming leads to union.' },
+      { position: 5, text: 'In the midst of the greatest obstructions, friends come.' },
+      { position: 6, text: 'Going leads to obstructions, coming leads to great good fortune. It furthers one to see the great man.' },
+    ],
+  },
+  40: {
+    name: 'Deliverance',
+    meaning: 'Release, liberation, solution',
+    judgment: 'Deliverance. Southwest furthers. If there is nowhere to go, return brings good fortune. If there is somewhere to go, hastening brings good fortune.',
+    image: 'Thunder and rain set in: the image of Deliverance. Thus the superior man forgives mistakes and deals gently with misdemeanors.',
+    lines: [
+      { position: 1, text: 'Without blame.' },
+      { position: 2, text: 'One kills three foxes in the field and receives a yellow arrow. Perseverance brings good fortune.' },
+      { position: 3, text: 'If a man carries a burden on his back and nonetheless rides in a carriage, he thereby encourages robbers to draw near. Perseverance leads to humiliation.' },
+      { position: 4, text: 'Deliver yourself from your great toe. Then the companion comes, and him you can trust.' },
+      { position: 5, text: 'If only the superior man can deliver himself, it brings good fortune. Thus he proves to inferior men that he is in earnest.' },
+      { position: 6, text: 'The prince shoots at a hawk on a high wall. He kills it. Everything serves to further.' },
+    ],
+  },
+  41: {
+    name: 'Decrease',
+    meaning: 'Reduction, sacrifice, taking away',
+    judgment: 'Decrease combined with sincerity brings about supreme good fortune without blame. One may be persevering in this. It furthers one to undertake something.',
+    image: 'The lake at the foot of the mountain: the image of Decrease. Thus the superior man curbs his anger and restrains his instincts.',
+    lines: [
+      { position: 1, text: 'Going quickly when one\'s tasks are finished is without blame. But one must reflect on how much one may decrease others.' },
+      { position: 2, text: 'Perseverance furthers. To undertake something brings misfortune. Without decreasing oneself, one is able to bring increase to others.' },
+      { position: 3, text: 'When three people journey together, their number decreases by one. When one man journeys alone, he finds a companion.' },
+      { position: 4, text: 'If a man decreases his faults, it makes the other hasten to come and rejoice. No blame.' },
+      { position: 5, text: 'Someone does indeed increase him. Ten pairs of tortoises cannot oppose it. Supreme good fortune.' },
+      { position: 6, text: 'If one is increased without depriving others, there is no blame. Perseverance brings good fortune. It furthers one to undertake something. One obtains servants but no longer has a separate home.' },
+    ],
+  },
+  42: {
+    name: 'Increase',
+    meaning: 'Expansion, growth, advancement',
+    judgment: 'Increase. It furthers one to undertake something. It furthers one to cross the great water.',
+    image: 'Wind and thunder: the image of Increase. Thus the superior man when he sees good in others, lends them aid; when he sees fault in himself, he amends it.',
+    lines: [
+      { position: 1, text: 'It furthers one to accomplish great deeds. Supreme good fortune. No blame.' },
+      { position: 2, text: 'Someone does indeed increase him; ten pairs of tortoises cannot oppose it. Constant perseverance brings good fortune. The king presents him before God. Good fortune.' },
+      { position: 3, text: 'One is enriched through unfortunate events. No blame, if you are sincere and walk in the middle, and report with a seal to the prince.' },
+      { position: 4, text: 'If you walk in the middle and report to the prince, he will follow. It furthers one to be used in the removal of the capital.' },
+      { position: 5, text: 'If in truth you have a kind heart, ask not. Supreme good fortune. Truly, kindness will be recognized as your virtue.' },
+      { position: 6, text: 'He brings increase to no one. Indeed, someone even strikes him. He does not keep his heart constantly steady. Misfortune.' },
+    ],
+  },
+  45: {
+    name: 'Gathering Together',
+    meaning: 'Assembly, convocation, collection',
+    judgment: 'Gathering Together. Success. The king approaches his temple. It furthers one to see the great man. Success. It furthers one to undertake something. It furthers one to offer sacrifice.',
+    image: 'Over the earth, the lake: the image of Gathering Together. Thus the superior man sets his weapons in order.',
+    lines: [
+      { position: 1, text: 'If you are sincere, but not to the end, there will sometimes be confusion, sometimes gathering together. If you call out, then after one grasp of the hand you can laugh again. Regret not. Going is without blame.' },
+      { position: 2, text: 'Letting oneself be drawn brings good fortune and remains blameless. If one is sincere, it furthers one to bring even a small offering.' },
+      { position: 3, text: 'Gathering together amid sighs. Nothing that would further. Going is without blame. Slight humiliation.' },
+      { position: 4, text: 'Great good fortune. No blame.' },
+      { position: 5, text: 'If in gathering together one has position, this brings no blame. If there are some who are not yet sincerely in the work, sublime and enduring perseverance is needed. Then remorse disappears.' },
+      { position: 6, text: 'Lamenting and sighing, floods of tears. No blame.' },
+    ],
+  },
+  46: {
+    name: 'Pushing Upward',
+    meaning: 'Rising, ascending, promotion',
+    judgment: 'Pushing Upward has supreme success. One must see the great man. Do not let fear rule. Go south. Good fortune.',
+    image: 'Within the earth, wood grows: the image of Pushing Upward. Thus the superior man of devoted character heaps up small things to achieve something high and great.',
+    lines: [
+      { position: 1, text: 'Pushing upward that meets with confidence brings great good fortune.' },
+      { position: 2, text: 'If one is sincere, it furthers one to bring even a small offering. No blame.' },
+      { position: 3, text: 'One pushes upward into an empty city.' },
+      { position: 4, text: 'The king offers him Mount Ch\'i. Good fortune. No blame.' },
+      { position: 5, text: 'Perseverance brings good fortune. One pushes upward by steps.' },
+      { position: 6, text: 'Pushing upward in darkness. It furthers one to be unremittingly persevering.' },
+    ],
+  },
+  47: {
+    name: 'Oppression',
+    meaning: 'Exhaustion, difficulty, calamity',
+    judgment: 'Oppression. Success. Perseverance. The great man brings about good fortune. No blame. When one has something to say, it is not believed.',
+    image: 'There is no water in the lake: the image of Oppression. Thus the superior man stakes his life on following his will.',
+    lines: [
+      { position: 1, text: 'One sits oppressed under a bare tree and strays into a gloomy valley. For three years one sees nothing.' },
+      { position: 2, text: 'One is oppressed while at meat and drink. The man with the scarlet knee bands is just coming. It furthers one to offer sacrifice. To set forth brings misfortune. No blame.' },
+      { position: 3, text: 'A man permits himself to be oppressed by stone, and leans on thorns and thistles. He enters his house and does not see his wife. Misfortune.' },
+      { position: 4, text: 'He comes very quietly, oppressed in a golden carriage. Humiliation, but the end is reached.' },
+      { position: 5, text: 'His nose and feet are cut off. Oppression at the hands of the man with the purple knee bands. Joy comes softly. It furthers one to make offerings and libations.' },
+      { position: 6, text: 'He is oppressed by creeping vines. He moves uncertainly and says, "Movement brings remorse." If one feels remorse over this and makes a start, good fortune comes.' },
+    ],
+  },
+  48: {
+    name: 'The Well',
+    meaning: 'Water source, renewal, community',
+    judgment: 'The Well. The town may be changed, but the well cannot be changed. It neither decreases nor increases. They come and go drawing from the well. If one gets down almost to the water and the rope does not go all the way, or the jug breaks, it brings misfortune.',
+    image: 'Water over wood: the image of the Well. Thus the superior man encourages the people at their work, and exhorts them to help one another.',
+    lines: [
+      { position: 1, text: 'One does not drink the mud of the well. No animals come to an old well.' },
+      { position: 2, text: 'At the wellhole one shoots fishes. The jug is broken and leaks.' },
+      { position: 3, text: 'The well is cleaned, but no one drinks from it. This is my heart\'s sorrow, for one might draw from it. If the king were clear-minded, good fortune might be enjoyed in common.' },
+      { position: 4, text: 'The well is being lined. No blame.' },
+      { position: 5, text: 'In the well there is a clear, cold spring from which one can drink.' },
+      { position: 6, text: 'One draws from the well without hindrance. It is dependable. Supreme good fortune.' },
+    ],
+  },
+  49: {
+    name: 'Revolution',
+    meaning: 'Transformation, radical change, renewal',
+    judgment: 'Revolution. On your own day you are believed. Supreme success, furthering perseverance. Remorse disappears.',
+    image: 'Fire in the lake: the image of Revolution. Thus the superior man sets the calendar in order and makes the seasons clear.',
+    lines: [
+      { position: 1, text: 'Wrapped in the hide of a yellow cow.' },
+      { position: 2, text: 'When one\'s own day comes, one may create revolution. Starting brings good fortune. No blame.' },
+      { position: 3, text: 'Starting brings misfortune. Perseverance brings danger. When talk of revolution has gone the rounds three times, one may commit himself, and men will believe him.' },
+      { position: 4, text: 'Remorse disappears. Men believe him. Changing the form of government brings good fortune.' },
+      { position: 5, text: 'The great man changes like a tiger. Even before he questions the oracle he is believed.' },
+      { position: 6, text: 'The superior man changes like a panther. The inferior man molts in the face. Starting brings misfortune. To remain persevering brings good fortune.' },
+    ],
+  },
+  50: {
+    name: 'The Cauldron',
+    meaning: 'Vessel, transformation, nourishment',
+    judgment: 'The Cauldron. Supreme good fortune. Success.',
+    image: 'Fire over wood: the image of the Cauldron. Thus the superior man consolidates his fate by the cultivation of himself.',
+    lines: [
+      { position: 1, text: 'A ting with legs upturned. Furthers removal of stagnating stuff. One takes a concubine for the sake of her son. No blame.' },
+      { position: 2, text: 'There is food in the ting. My comrades are envious, but they cannot harm me. Good fortune.' },
+      { position: 3, text: 'The handle of the ting is altered. One is impeded in his way of life. The fat of the pheasant is not eaten. Once rain falls, remorse is spent. Good fortune comes in the end.' },
+      { position: 4, text: 'The legs of the ting are broken. The prince\'s meal is spilled and his person is soiled. Misfortune.' },
+      { position: 5, text: 'The ting has yellow handles, golden carrying rings. Perseverance furthers.' },
+      { position: 6, text: 'The ting has rings of jade. Great good fortune. Nothing that would not act to further.' },
+    ],
+  },
+  51: {
+    name: 'The Arousing',
+    meaning: 'Thunder, awakening, shock',
+    judgment: 'The Arousing. Shock brings success. Shock comes--oh, oh! Laughing words--ha, ha! The shock terrifies for a hundred miles, and he does not let drop the sacrificial spoon and chalice.',
+    image: 'Thunder repeated: the image of the Arousing. Thus in fear and trembling the superior man sets his life in order.',
+    lines: [
+      { position: 1, text: 'Shock comes—oh, oh! Then follow laughing words—ha, ha! Good fortune.' },
+      { position: 2, text: 'Shock comes bringing danger. A hundred thousand times you lose your treasures and must climb the nine hills. Do not go in pursuit of them. After seven days you will get them back again.' },
+      { position: 3, text: 'Shock comes and makes one distraught. If shock spurs to action one remains free of misfortune.' },
+      { position: 4, text: 'Shock is mired.' },
+      { position: 5, text: 'Shock goes hither and thither. Danger. However, nothing at all is lost. Yet there are things to be done.' },
+      { position: 6, text: 'Shock brings ruin and terrified gazing around. Going ahead brings misfortune. If it has not yet touched one\'s own body but has reached one\'s neighbor first, there is no blame. One\'s comrades have something to talk about.' },
+    ],
+  },
+  52: {
+    name: 'Keeping Still',
+    meaning: 'Mountain, stillness, non-action',
+    judgment: 'Keeping Still. The mountain. Keeping his back still so that he no longer feels his body. He goes into his courtyard and does not see his people. No blame.',
+    image: 'Mountains standing close together: the image of Keeping Still. Thus the superior man does not permit his thoughts to go beyond his situation.',
+    lines: [
+      { position: 1, text: 'Keeping his toes still. No blame. Continued perseverance furthers.' },
+      { position: 2, text: 'Keeping his calves still. He cannot rescue him whom he follows. His heart is not glad.' },
+      { position: 3, text: 'Keeping his hips still. Making his sacrum stiff. Dangerous. The heart suffocates.' },
+      { position: 4, text: 'Keeping his trunk still. No blame.' },
+      { position: 5, text: 'Keeping his jaws still. The words have order. Remorse disappears.' },
+      { position: 6, text: 'Noblehearted keeping still. Good fortune.' },
+    ],
+  },
+  53: {
+    name: 'Development',
+    meaning: 'Gradual progress, stages, advance',
+    judgment: 'Development. The maiden is given in marriage. Good fortune. It furthers one to undertake something.',
+    image: 'On the mountain, wind: the image of Development. Thus the superior man abides in dignity and virtue, to improve the mores.',
+    lines: [
+      { position: 1, text: 'The wild goose gradually draws near the shore. The young son is in danger. There is talk. No blame.' },
+      { position: 2, text: 'The wild goose gradually draws near the cliff. Eating and drinking in peace and concord. Good fortune.' },
+      { position: 3, text: 'The wild goose gradually draws near the plateau. The man goes forth and does not return. The woman carries a child but does not bring it forth. Misfortune. It furthers one to fight off robbers.' },
+      { position: 4, text: 'The wild goose goes gradually to the tree. Perhaps it will find a flat branch. No blame.' },
+      { position: 5, text: 'The wild goose gradually draws near the summit. For three years the woman has no child. In the end nothing can hinder her. Good fortune.' },
+      { position: 6, text: 'The wild goose gradually draws near the cloud heights. Its feathers can be used for the sacred dance. Good fortune.' },
+    ],
+  },
+  54: {
+    name: 'The Marrying Maiden',
+    meaning: 'Subordinate position, natural order, transition',
+    judgment: 'The Marrying Maiden. Undertakings bring misfortune. Nothing that would further.',
+    image: 'Thunder over the lake: the image of the Marrying Maiden. Thus the superior man understands the transitory in the light of the eternity of the end.',
+    lines: [
+      { position: 1, text: 'The marrying maiden as a concubine. A lame man who is able to tread. Undertakings bring good fortune.' },
+      { position: 2, text: 'A one-eyed man who is able to see. The perseverance of a solitary man furthers.' },
+      { position: 3, text: 'The marrying maiden as a slave. She marries as a concubine.' },
+      { position: 4, text: 'The marrying maiden draws out the allotted time. A late marriage comes in due course.' },
+      { position: 5, text: 'The sovereign I gave his daughter in marriage. The embroidered garments of the princess were not as gorgeous as those of the servingmaid. The moon that is nearly full brings good fortune.' },
+      { position: 6, text: 'The woman holds the basket, but there are no fruits in it. The man stabs the sheep, but no blood flows. Nothing that acts to further.' },
+    ],
+  },
+  55: {
+    name: 'Abundance',
+    meaning: 'Fullness, peak, maximum',
+    judgment: 'Abundance has success. The king attains abundance. Be not sad. Be like the sun at midday.',
+    image: 'Both thunder and lightning come: the image of Abundance. Thus the superior man decides lawsuits and carries out punishments.',
+    lines: [
+      { position: 1, text: 'When a man meets his destined ruler, they can be together ten days, and it is not a mistake. Going meets with recognition.' },
+      { position: 2, text: 'The curtain is of such fullness that the polestars can be seen at noon. Through going one meets with mistrust and hate. If one rouses him through truth, good fortune comes.' },
+      { position: 3, text: 'The underbrush is of such abundance that the small stars can be seen at noon. He breaks his right arm. No blame.' },
+      { position: 4, text: 'The curtain is of such fullness that the polestars can be seen at noon. He meets his ruler, who is of like kind. Good fortune.' },
+      { position: 5, text: 'Lines are coming, blessing and fame draw near. Good fortune.' },
+      { position: 6, text: 'His house is in a state of abundance. He screens off his family. He peers through the gate and no longer perceives anyone. For three years he sees nothing. Misfortune.' },
+    ],
+  },
+  56: {
+    name: 'The Wanderer',
+    meaning: 'Travel, exile, adaptation',
+    judgment: 'The Wanderer. Success through perseverance. The wanderer finds food and shelter. Good fortune small.',
+    image: 'Fire on the mountain: the image of the Wanderer. Thus the superior man is careful and reserved, and thereby avoids punishments and hardships.',
+    lines: [
+      { position: 1, text: 'If the wanderer busies himself with trivial things, he draws down misfortune upon himself.' },
+      { position: 2, text: 'The wanderer comes to an inn. He has his property with him. He wins the steadfastness of a young servant.' },
+      { position: 3, text: 'The wanderer\'s inn burns down. He loses the steadfastness of his young servant. Danger.' },
+      { position: 4, text: 'The wanderer rests in a shelter. He obtains his property and an ax. My heart is not glad.' },
+      { position: 5, text: 'He shoots a pheasant. It drops with the first arrow. In the end this brings both praise and office.' },
+      { position: 6, text: 'The bird\'s nest burns up. The wanderer laughs at first, then must needs lament and weep. Through carelessness he loses his cow. Misfortune.' },
+    ],
+  },
+  57: {
+    name: 'The Gentle',
+    meaning: 'Wind, gentleness, flexibility',
+    judgment: 'The Gentle. Success through what is small. It furthers one to have somewhere to go. It furthers one to see the great man.',
+    image: 'Wind following wind: the image of the Gentle. Thus the superior man spreads his commands abroad and carries out his undertakings.',
+    lines: [
+      { position: 1, text: 'In advancing and in retreating, the perseverance of a warrior furthers.' },
+      { position: 2, text: 'Penetration under the bed. Priests and magicians are used in great number. Good fortune. No blame.' },
+      { position: 3, text: 'Repeated penetration. Humiliation.' },
+      { position: 4, text: 'Remorse vanishes. During the hunt three kinds of game are caught.' },
+      { position: 5, text: 'Perseverance brings good fortune. Remorse vanishes. Nothing that does not further. No beginning, but an end. Before the change, three days. After the change, three days. Good fortune.' },
+      { position: 6, text: 'Penetration under the bed. He loses his property and his ax. Perseverance brings misfortune.' },
+    ],
+  },
+  58: {
+    name: 'The Joyous',
+    meaning: 'Lake, pleasure, joy',
+    judgment: 'The Joyous. Success. Perseverance is favorable.',
+    image: 'Lakes joining: the image of the Joyous. Thus the superior man joins with his friends for discussion and practice.',
+    lines: [
+      { position: 1, text: 'Contented joyousness. Good fortune.' },
+      { position: 2, text: 'Sincere joyousness. Good fortune. Remorse disappears.' },
+      { position: 3, text: 'Coming joyousness. Misfortune.' },
+      { position: 4, text: 'Joyousness that is weighed is not at peace. After ridding himself of mistakes a man has joy.' },
+      { position: 5, text: 'Sincerity toward disintegrating influences is dangerous.' },
+      { position: 6, text: 'Seductive joyousness.' },
+    ],
+  },
+  59: {
+    name: 'Dispersion',
+    meaning: 'Separation, dissolution, scattering',
+    judgment: 'Dispersion. Success. The king approaches his temple. It furthers one to cross the great water. Perseverance furthers.',
+    image: 'Wind blowing over water: the image of Dispersion. Thus the kings of old made offerings to the Lord and built temples.',
+    lines: [
+      { position: 1, text: 'He brings help with the strength of a horse. Good fortune.' },
+      { position: 2, text: 'At the dissolution he hurries to that which supports him. Remorse disappears.' },
+      { position: 3, text: 'He dissolves his self. No remorse.' },
+      { position: 4, text: 'He dissolves his bond with his group. Supreme good fortune. Dispersion leads in turn to accumulation. This is something that ordinary men do not think of.' },
+      { position: 5, text: 'His loud cries are as dissolving as sweat. Dissolution! A king abides without blame.' },
+      { position: 6, text: 'He dissolves his blood. Departing, keeping at a distance, going out, is without blame.' },
+    ],
+  },
+  60: {
+    name: 'Limitation',
+    meaning: 'Restriction, boundaries, self-control',
+    judgment: 'Limitation. Success. Galling limitation must not be persevered in.',
+    image: 'Water over a lake: the image of Limitation. Thus the superior man creates number and measure, and examines the nature of his actions.',
+    lines: [
+      { position: 1, text: 'Not going out of the door and the courtyard is without blame.' },
+      { position: 2, text: 'Not going out of the gate and the courtyard brings misfortune.' },
+      { position: 3, text: 'He who knows no limitation will have cause to lament. No blame.' },
+      { position: 4, text: 'Contented limitation. Success.' },
+      { position: 5, text: 'Sweet limitation brings good fortune. Going brings esteem.' },
+      { position: 6, text: 'Galling limitation. Perseverance brings misfortune. Remorse disappears.' },
+    ],
+  },
+  61: {
+    name: 'Inner Truth',
+    meaning: 'Sincerity, trustworthiness, integrity',
+    judgment: 'Inner Truth. Pigs and fishes. Good fortune. It furthers one to cross the great water. Perseverance furthers.',
+    image: 'Wind over lake: the image of Inner Truth. Thus the superior man discusses criminal cases in order to postpone death sentences.',
+    lines: [
+      { position: 1, text: 'Being prepared brings good fortune. If there are secret designs, it is disquieting.' },
+      { position: 2, text: 'A crane calling in the shade. Its young answers it. I have a good goblet. I will share it with you.' },
+      { position: 3, text: 'He finds a comrade. Now he beats the drum, now he stops. Now he sobs, now he sings.' },
+      { position: 4, text: 'The moon nearly at the full. The team horse goes astray. No blame.' },
+      { position: 5, text: 'He possesses truth, which links together. No blame.' },
+      { position: 6, text: 'Cockcrow penetrating to heaven. Perseverance brings misfortune.' },
+    ],
+  },
+  62: {
+    name: 'Preponderance of the Small',
+    meaning: 'Excess of caution, petty details, limitation',
+    judgment: 'Preponderance of the Small. Success. Perseverance furthers. Small things may be done; great things should not be done. The flying bird brings the message: It is not well to strive upward, Well to strive downward. Great good fortune.',
+    image: 'Thunder on the mountain: the image of Preponderance of the Small. Thus in his conduct the superior man stresses what is slight.',
+    lines: [
+      { position: 1, text: 'The bird meets with misfortune through flying.' },
+      { position: 2, text: 'She passes by her ancestor and meets her ancestress. He does not reach his prince and meets the official. No blame.' },
+      { position: 3, text: 'If one is not extremely careful, somebody may come up from behind and strike him. Misfortune.' },
+      { position: 4, text: 'No blame. He meets him without passing by. Going brings danger. One must be on guard. Do not act. Be constantly persevering.' },
+      { position: 5, text: 'Dense clouds, no rain from our western territory. The prince shoots and hits him who is in the cave.' },
+      { position: 6, text: 'He passes him by, not meeting him. The flying bird leaves him. Misfortune. This means bad luck and injury.' },
+    ],
+  },
+  63: {
+    name: 'After Completion',
+    meaning: 'Completion, fulfillment, beyond the crisis',
+    judgment: 'After Completion. Success in small matters. Perseverance furthers. There is advantage in undertaking something. The beginning brings good fortune, the end brings disorder.',
+    image: 'Water over fire: the image of After Completion. Thus the superior man takes thought of danger and arms himself against it beforehand.',
+    lines: [
+      { position: 1, text: 'He brakes his wheels. He gets his tail in the water. No blame.' },
+      { position: 2, text: 'The woman loses the curtain of her carriage. Do not run after it; on the seventh day you will get it.' },
+      { position: 3, text: 'The Illustrious Ancestor disciplines the Devil\'s Country. After three years he conquers it. Inferior people must not be employed.' },
+      { position: 4, text: 'The finest clothes turn to rags. Be careful all day long.' },
+      { position: 5, text: 'The neighbor in the east who slaughters an ox does not attain as much real happiness as the neighbor in the west with his small offering.' },
+      { position: 6, text: 'He gets his head in the water. Danger.' },
+    ],
+  },
+  64: {
+    name: 'Before Completion',
+    meaning: 'Incompletion, transition, work in progress',
+    judgment: 'Before Completion. Success. The small fox, after nearly completing the crossing, gets his tail wet. No advantage in anything.',
+    image: 'Fire over water: the image of Before Completion. Thus the superior man is careful in the differentiation of things.',
+    lines: [
+      { position: 1, text: 'He gets his tail in the water. Humiliating.' },
+      { position: 2, text: 'He brakes his wheels. Perseverance brings good fortune.' },
+      { position: 3, text: 'Before completion, attack brings misfortune. It furthers one to cross the great water.' },
+      { position: 4, text: 'Perseverance brings good fortune. Remorse disappears. Shock, thus to discipline the Devil\'s Country. For three years, great realms are awarded.' },
+      { position: 5, text: 'Perseverance brings good fortune. No remorse. The light of the superior man is true. Good fortune.' },
+      { position: 6, text: 'There is drinking of wine in genuine confidence. No blame. But if one wets his head, he loses it, in truth.' },
+    ],
+  },
+};
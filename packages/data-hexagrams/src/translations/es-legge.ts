@@ -0,0 +1,908 @@
+/**
+ * Spanish rendering of the James Legge translation of all 64 hexagrams ('es-legge')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'Lo Creativo',
+    meaning: 'El principio creativo; cielo y energía yang',
+    judgment: 'Qian. Gran progreso y éxito. La ventaja de ser firme y correcto.',
+    image: 'El cielo se mueve con vigor. El hombre superior aumenta su virtud y realiza su obra.',
+    lines: [
+      { position: 1, text: 'El dragón yace oculto en lo profundo. No es tiempo de actuar.' },
+      { position: 2, text: 'El dragón aparece en el campo. Será ventajoso encontrarse con el gran hombre.' },
+      { position: 3, text: 'El hombre superior está activo y vigilante todo el día, y aún por la tarde se mantiene cuidadoso y aprensivo. La posición es peligrosa, pero no habrá error.' },
+      { position: 4, text: 'El dragón parece saltar hacia arriba, pero sigue en lo profundo. No habrá error.' },
+      { position: 5, text: 'El dragón vuela en el cielo. Será ventajoso encontrarse con el gran hombre.' },
+      { position: 6, text: 'El dragón excede los límites debidos. Habrá ocasión de arrepentimiento.' },
+    ],
+    allMoving: 'Si la hueste de dragones aparece sin cabezas, habrá buena fortuna.',
+  },
+  2: {
+    name: 'Lo Receptivo',
+    meaning: 'El principio receptivo; tierra y energía yin',
+    judgment: 'Kun. Lo receptivo produce gran progreso y éxito, cuando el sujeto muestra la firme corrección de una yegua.',
+    image: 'La tierra está en su elemento abajo. El hombre superior, con gran virtud, sostiene las cosas.',
+    lines: [
+      { position: 1, text: 'El sujeto pisa la escarcha. El hielo firme vendrá con el tiempo.' },
+      { position: 2, text: 'Es recto, cuadrado y grande. Su acción, sin esfuerzos repetidos, será ventajosa en todo sentido.' },
+      { position: 3, text: 'El sujeto contiene su excelencia, pero la mantiene con firmeza. Si ha de servir al rey, aunque no reclame el éxito para sí, llevará los asuntos a buen término.' },
+      { position: 4, text: 'Es como un saco atado. No habrá motivo de culpa ni de elogio.' },
+      { position: 5, text: 'La prenda inferior amarilla. Habrá gran buena fortuna.' },
+      { position: 6, text: 'Dragones luchan en el campo abierto. Su sangre es púrpura y amarilla.' },
+    ],
+    allMoving: 'Será ventajoso ser perpetuamente correcto y firme.',
+  },
+  11: {
+    name: 'La Paz',
+    meaning: 'Armonía entre cielo y tierra',
+    judgment: 'Tai. Lo pequeño parte; lo grande se acerca. Es propicio ser firme y correcto.',
+    image: 'Cielo y tierra encontrándose forman Tai. El hombre superior así distribuye sus tesoros para beneficiar al pueblo común.',
+    lines: [
+      { position: 1, text: 'Se arranca la hierba y con ella salen los demás tallos unidos a su raíz. Avanzar será afortunado.' },
+      { position: 2, text: 'Soporta a los incultos, cruzará el río sin barca, no olvida a los lejanos y no tiene amistades egoístas. Así se muestra actuando conforme al justo medio.' },
+      { position: 3, text: 'Como no hay paz que no pueda ser perturbada ni partida que no sea seguida de un retorno, quien es firme y correcto en la dificultad y el peligro no cometerá error. No hay motivo de tristeza; en lo que aún ha de disfrutar será feliz.' },
+      { position: 4, text: 'Desciende revoloteando, sin apoyarse en sus ricos recursos, sino llamando a sus vecinos. Todos vienen no por advertencia, sino con sinceridad de corazón.' },
+      { position: 5, text: 'El soberano Di-yi da a su hermana menor en matrimonio. Con tal conducta hay felicidad y gran buena fortuna.' },
+      { position: 6, text: 'La muralla de la ciudad vuelve al foso. No es tiempo de usar el ejército. El sujeto puede anunciar sus órdenes a la gente de su ciudad; pero por correcto y firme que sea, tendrá motivo de pesar.' },
+    ],
+  },
+  12: {
+    name: 'El Estancamiento',
+    meaning: 'Estancamiento por falta de unidad entre cielo y tierra',
+    judgment: 'Pi. No es propicio para el firme y correcto. Lo grande parte; lo pequeño se acerca.',
+    image: 'Cielo y tierra sin contacto forman Pi. El hombre superior administra su virtud y evita la calamidad.',
+    lines: [
+      { position: 1, text: 'Se arranca la hierba y con ella salen los tallos unidos a su raíz. Con firme corrección habrá buena fortuna y progreso.' },
+      { position: 2, text: 'El sujeto soporta con paciencia y obediencia. Los hombres pequeños en tal posición tendrán buena fortuna. Si el gran hombre está en ella, tendrá éxito a través de su aflicción.' },
+      { position: 3, text: 'El sujeto se avergüenza del propósito que guarda en su pecho.' },
+      { position: 4, text: 'Actúa conforme a la ordenanza del Cielo y no comete error. Sus compañeros vendrán a compartir su felicidad.' },
+      { position: 5, text: 'Vemos a quien pone fin a la aflicción y la obstrucción, el gran hombre afortunado. Pero que diga: «¡Podemos perecer! ¡Podemos perecer!»; así el estado de cosas se afirmará, como atado a un macizo de moreras.' },
+      { position: 6, text: 'Vemos el derrocamiento de la condición de aflicción y obstrucción. Antes existía esa condición. En adelante habrá alegría.' },
+    ],
+  },
+  19: {
+    name: 'El Acercamiento',
+    meaning: 'Aproximarse y acercamiento gradual',
+    judgment: 'Lin. Es propicio ser firme y correcto, y estar en guardia contra todo mal.',
+    image: 'El pantano elevándose sobre la tierra forma Lin. El hombre superior, en su conducta, cultiva la bondad y nunca se fatiga.',
+    lines: [
+      { position: 1, text: 'Avanza en compañía del sujeto de la segunda línea. Por su firme corrección habrá buena fortuna.' },
+      { position: 2, text: 'Avanza en compañía del sujeto de la primera línea. Habrá buena fortuna; avanzar será ventajoso en todo sentido.' },
+      { position: 3, text: 'Uno muy complacido de avanzar, pero cuya acción no será ventajosa en modo alguno. Si se preocupa por ello, no habrá error.' },
+      { position: 4, text: 'Uno que avanza del modo más elevado. No habrá error.' },
+      { position: 5, text: 'El avance de la sabiduría, tal como corresponde al gran gobernante. Habrá buena fortuna.' },
+      { position: 6, text: 'El avance de la honestidad y la generosidad. Habrá buena fortuna y ningún error.' },
+    ],
+  },
+  20: {
+    name: 'La Contemplación',
+    meaning: 'Ver ampliamente; ofrecer con sinceridad',
+    judgment: 'Guan. La ablución se ha realizado, pero no las ofrendas sacrificiales. Se muestra fe y reverencia.',
+    image: 'El viento se mueve sobre la tierra formando Guan. Los reyes antiguos así contemplaban el mundo y establecían enseñanzas.',
+    lines: [
+      { position: 1, text: 'La mirada de un muchacho; no censurable en hombres de rango inferior, pero motivo de pesar en hombres superiores.' },
+      { position: 2, text: 'Uno que atisba desde una puerta. Sería ventajoso si fuera meramente la firme corrección de una mujer.' },
+      { position: 3, text: 'Uno que mira el curso de su propia vida para avanzar o retroceder en consecuencia.' },
+      { position: 4, text: 'Uno que contempla la gloria del reino. Le será ventajoso, siendo como es, buscar ser huésped del rey.' },
+      { position: 5, text: 'El gobernante que contempla el curso de su propia vida. Como hombre superior, no caerá así en error.' },
+      { position: 6, text: 'El sujeto contempla su carácter para ver si es en verdad el de un hombre superior. No caerá en error.' },
+    ],
+  },
+  23: {
+    name: 'La Decadencia',
+    meaning: 'División y despojo; separación gradual',
+    judgment: 'Bo. No es propicio tener adónde ir.',
+    image: 'La montaña adherida a la tierra forma Bo. Los hombres superiores consolidan el estado y fortalecen los lazos entre el pueblo.',
+    lines: [
+      { position: 1, text: 'Uno que derriba el lecho dañando sus patas. El daño llegará a destruir toda firme corrección, y habrá mal.' },
+      { position: 2, text: 'Uno que derriba el lecho dañando su armazón. El daño llegará a destruir toda firme corrección, y habrá mal.' },
+      { position: 3, text: 'Uno entre los derribadores con quien no habrá error.' },
+      { position: 4, text: 'El sujeto ha derribado el lecho y va a herir la piel de quien yace en él. Habrá mal.' },
+      { position: 5, text: 'El sujeto conduce a los demás como una sarta de peces y obtiene para ellos el favor que recae en los moradores del palacio. Habrá ventaja en todo sentido.' },
+      { position: 6, text: 'El gran fruto no ha sido comido. El hombre superior encuentra de nuevo al pueblo como un carro que lo lleva. Los hombres pequeños, con su conducta, derriban sus propias moradas.' },
+    ],
+  },
+  24: {
+    name: 'El Retorno',
+    meaning: 'Regresando; el punto de inflexión del año',
+    judgment: 'Fu. Hay salida y entrada sin error. Los amigos vienen sin equivocación. Ir y venir es el camino.',
+    image: 'Trueno en la tierra forma Fu. Los reyes antiguos cerraban puertas y pasajes en el solsticio de invierno.',
+    lines: [
+      { position: 1, text: 'El sujeto vuelve de un error de poca extensión, que no llegaría a nada que requiera arrepentimiento. Habrá gran buena fortuna.' },
+      { position: 2, text: 'El admirable retorno del sujeto. Habrá buena fortuna.' },
+      { position: 3, text: 'Uno que ha hecho retornos repetidos. La posición es peligrosa, pero no habrá error.' },
+      { position: 4, text: 'El sujeto se mueve justo en el centro entre los representados por las otras líneas partidas, y sin embargo vuelve solo a su camino propio.' },
+      { position: 5, text: 'El noble retorno del sujeto. No habrá motivo de arrepentimiento.' },
+      { position: 6, text: 'El sujeto anda del todo extraviado en cuanto al retorno. Habrá mal. Habrá calamidades y errores. Si con sus ideas pone las huestes en marcha, el final será una gran derrota que alcanzará al gobernante del estado. Ni en diez años podrá reparar el desastre.' },
+    ],
+  },
+  33: {
+    name: 'La Retirada',
+    meaning: 'Retirarse en momento oportuno',
+    judgment: 'Dun. Progreso próspero. En asuntos pequeños, ser firme y correcto es propicio.',
+    image: 'Cielo bajo la montaña forma Dun. El hombre superior mantiene al hombre inferior a distancia con dignidad y reserva.',
+    lines: [
+      { position: 1, text: 'Una cola que se retira. La posición es peligrosa. No debe hacerse movimiento en ninguna dirección.' },
+      { position: 2, text: 'El sujeto sostiene su propósito firmemente como con una correa hecha de piel de buey amarillo, que no puede romperse.' },
+      { position: 3, text: 'Uno que se retira pero atado, con angustia y peligro. Si tratara a quienes lo atan como se cuida a un sirviente o a una concubina, le sería afortunado.' },
+      { position: 4, text: 'El sujeto se retira a pesar de sus inclinaciones. En el hombre superior esto llevará a la buena fortuna; el hombre pequeño no puede alcanzarlo.' },
+      { position: 5, text: 'El sujeto se retira de manera admirable. Con firme corrección habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto se retira de manera noble. Será ventajoso en todo sentido.' },
+    ],
+  },
+  34: {
+    name: 'La Gran Fuerza',
+    meaning: 'El vigor de la gran fuerza en su lugar apropiado',
+    judgment: 'Da Zhuang. Ser firme y correcto es propicio.',
+    image: 'Trueno en el cielo arriba forma Da Zhuang. El hombre superior no camina por senderos que entran en conflicto con el orden establecido.',
+    lines: [
+      { position: 1, text: 'El sujeto manifiesta su fuerza en los dedos de los pies. Pero el avance llevará al mal, con toda certeza.' },
+      { position: 2, text: 'Con firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'El hombre pequeño usa toda su fuerza; el hombre superior tiene por norma no hacerlo. Aun con firme corrección la posición sería peligrosa. Es como un carnero que embiste contra una cerca y se le enredan los cuernos.' },
+      { position: 4, text: 'Un caso en que la firme corrección lleva a la buena fortuna y desaparece la ocasión de arrepentimiento. Vemos la cerca abierta sin que los cuernos se enreden. La fuerza es como la de los radios de la rueda de un gran carro.' },
+      { position: 5, text: 'El sujeto pierde su fuerza de carnero en la comodidad de su posición. Pero no habrá ocasión de arrepentimiento.' },
+      { position: 6, text: 'Uno como el carnero que embiste la cerca y no puede ni retroceder ni avanzar como quisiera. No habrá ventaja en ningún aspecto; pero si comprende la dificultad de su posición, habrá buena fortuna.' },
+    ],
+  },
+  43: {
+    name: 'La Resolución',
+    meaning: 'Atravesar con determinación y sinceridad',
+    judgment: 'Guai. Se debe dar a conocer el asunto en el palacio del rey con perfecta sinceridad. Hay peligro.',
+    image: 'El agua del pantano elevándose al cielo forma Guai. El hombre superior dispensa sus favores hacia abajo sin retenerlos.',
+    lines: [
+      { position: 1, text: 'El sujeto, en el orgullo de su fuerza, avanza con los dedos del pie. Sigue adelante, pero no tendrá éxito. Habrá motivo de culpa.' },
+      { position: 2, text: 'El sujeto, lleno de aprensión, pide ayuda. A altas horas de la noche puede haber hostilidades armadas contra él, pero no necesita inquietarse por ellas.' },
+      { position: 3, text: 'El sujeto está a punto de avanzar con la fuerza expresada en sus pómulos. Habrá mal. Pero el hombre superior, decidido a eliminar al culpable, caminará solo y hallará la lluvia, hasta ser odiado por sus compañeros como si estuviera contaminado por los otros. Al final no habrá culpa contra él.' },
+      { position: 4, text: 'Uno a quien se le ha arrancado la piel de las nalgas y que camina lenta y penosamente. Si pudiera actuar como una oveja conducida tras sus compañeras, la ocasión de arrepentimiento desaparecería. Pero aunque oiga estas palabras, no las creerá.' },
+      { position: 5, text: 'Los hombres pequeños son como un lecho de verdolaga, que debe ser arrancado con la máxima determinación. Teniendo el sujeto tal determinación, su acción, en armonía con su posición central, no llevará a error.' },
+      { position: 6, text: 'El sujeto no tiene a nadie a quien clamar y apelar. Su final será malo.' },
+    ],
+  },
+  44: {
+    name: 'El Encuentro',
+    meaning: 'Encuentro; una influencia femenina que se vuelve predominante',
+    judgment: 'Gou. Hay una joven; no se debe desposarla.',
+    image: 'Viento bajo el cielo forma Gou. El príncipe emite sus mandatos y estos llegan a todas las regiones.',
+    lines: [
+      { position: 1, text: 'El sujeto debe ser retenido como un carro atado y sujeto a un freno de metal, en cuyo caso con firme corrección habrá buena fortuna. Pero si se mueve en cualquier dirección, aparecerá el mal. Será como un cerdo flaco, que sin duda no deja de saltar.' },
+      { position: 2, text: 'El sujeto con un zurrón de pescado. No habrá error. Pero no convendrá dejar que el sujeto de la primera línea avance hacia los huéspedes.' },
+      { position: 3, text: 'Uno a quien se le ha arrancado la piel de las nalgas, de modo que camina con dificultad. Está en una condición peligrosa, pero no habrá gran error.' },
+      { position: 4, text: 'El sujeto con su zurrón, pero sin pescado. Esto dará lugar al mal.' },
+      { position: 5, text: 'Un níspero que cubre la calabaza que está debajo. Si el sujeto mantiene ocultas sus brillantes cualidades, un buen resultado descenderá como del Cielo.' },
+      { position: 6, text: 'El sujeto recibe a otros con sus cuernos. Habrá ocasión de pesar, pero no tendrá culpa.' },
+    ],
+  },
+  3: {
+    name: 'La Dificultad Inicial',
+    meaning: 'Dificultad y lucha al principio',
+    judgment: 'Zhun. Es propicio ser firme y correcto, y no tener lugar adónde ir. Es propicio designar príncipes feudales.',
+    image: 'Nubes y trueno forman Zhun. El hombre superior así refina el aspecto exterior de su naturaleza.',
+    lines: [
+      { position: 1, text: 'Hay dificultad para avanzar. Será ventajoso permanecer correcto y firme, y ser nombrado señor feudal.' },
+      { position: 2, text: 'Está afligido y obligado a volver; hasta los caballos de su carro parecen retroceder. Pero no lo asalta un saqueador, sino que lo busca un pretendiente. La joven mantiene su firme corrección y rehúsa la unión; después de diez años se unirá.' },
+      { position: 3, text: 'Quien sigue al ciervo sin guía del guardabosques se encuentra en medio del bosque. El hombre superior, conocedor de los riesgos ocultos, prefiere abandonar la caza. Si avanzara, lo lamentaría.' },
+      { position: 4, text: 'Los caballos de su carro parecen retroceder. Ella busca la ayuda de quien la pretende por esposa. Avanzar será afortunado; todo resultará ventajoso.' },
+      { position: 5, text: 'Tiene dificultad en dispensar los ricos favores que se esperan de él. Con firmeza y corrección habrá buena fortuna en lo pequeño; en lo grande habrá mal.' },
+      { position: 6, text: 'Los caballos de su carro se ven obligados a retroceder, y llora lágrimas de sangre a raudales.' },
+    ],
+  },
+  4: {
+    name: 'La Inexperiencia Juvenil',
+    meaning: 'Juventud e inexperiencia, buscando orientación',
+    judgment: 'Meng. Es propicio que no sea yo quien busque al joven e inexperto, sino que él me busque. En la primera consulta le informo de sus dudas.',
+    image: 'El manantial bajo la montaña forma Meng. El hombre superior así cultiva su carácter.',
+    lines: [
+      { position: 1, text: 'Para disipar la ignorancia será ventajoso usar el castigo, pero quitar los grilletes de la mente. Seguir en ese camino de castigo dará ocasión de pesar.' },
+      { position: 2, text: 'Ejercer la tolerancia con los ignorantes es afortunado, como lo es recibir esposa. Es como un hijo capaz de sostener la carga de su familia.' },
+      { position: 3, text: 'No se debe desposar a una mujer que se conmueve al ver a un hombre rico y no guarda su persona. De ella no vendrá ventaja alguna.' },
+      { position: 4, text: 'Está atado como con grilletes de ignorancia. Habrá ocasión de pesar.' },
+      { position: 5, text: 'El muchacho sencillo y sin experiencia. Habrá buena fortuna.' },
+      { position: 6, text: 'Golpea al joven ignorante. No vendrá ventaja de dañarlo; la ventaja vendría de protegerlo del daño.' },
+    ],
+  },
+  5: {
+    name: 'La Espera',
+    meaning: 'Espera pacífica con fe',
+    judgment: 'Xu. Con la sinceridad que seguramente estará allí, habrá luz, decisión y buena fortuna. Ir a cruzar la gran agua trae buena fortuna.',
+    image: 'Nubes elevándose hacia el cielo forman Xu. El hombre superior en su ocio come y bebe y está de buen ánimo.',
+    lines: [
+      { position: 1, text: 'Espera en la frontera lejana. Le irá bien mantener constantemente el propósito así mostrado; entonces no habrá error.' },
+      { position: 2, text: 'Espera en la arena del arroyo de montaña. Sufrirá el pequeño daño de que hablen contra él, pero al final habrá buena fortuna.' },
+      { position: 3, text: 'Está en el lodo junto al arroyo. Con ello invita la llegada del daño.' },
+      { position: 4, text: 'Espera en el lugar de la sangre. Pero saldrá de la caverna.' },
+      { position: 5, text: 'Espera entre los enseres de un banquete. Por su firmeza y corrección habrá buena fortuna.' },
+      { position: 6, text: 'Ha entrado en la caverna. Pero llegan tres huéspedes, sin ser llamados, a ayudarle. Si los recibe con respeto, al final habrá buena fortuna.' },
+    ],
+  },
+  6: {
+    name: 'El Conflicto',
+    meaning: 'Contienda y disputa',
+    judgment: 'Song. Tenemos sinceridad y confianza en nosotros, pero estamos detenidos por falta de fe en otros. Si en medio de la dificultad permanecemos firmes y correctos, hay buena fortuna al final.',
+    image: 'Cielo y agua yendo en direcciones opuestas forman Song. El hombre superior en sus deliberaciones debe sopesar cuidadosamente.',
+    lines: [
+      { position: 1, text: 'No perpetúa el asunto que es objeto de la disputa. Sufrirá el pequeño daño de que hablen contra él, pero el final será afortunado.' },
+      { position: 2, text: 'No está a la altura de la disputa. Si se retira y se oculta, los habitantes de su ciudad, trescientas familias, no sufrirán calamidad.' },
+      { position: 3, text: 'Se mantiene en el antiguo lugar asignado para su sustento y conserva firmemente su corrección. Aunque la posición es peligrosa, habrá buena fortuna al final. Si se ocupa de los asuntos del rey, no reclamará el mérito.' },
+      { position: 4, text: 'No está a la altura de la disputa. Vuelve al estudio de los decretos del Cielo, cambia su deseo de disputar y descansa en la firmeza y la corrección. Habrá buena fortuna.' },
+      { position: 5, text: 'Litiga, y con gran buena fortuna.' },
+      { position: 6, text: 'Puede que el soberano le confiera el cinturón de cuero, pero tres veces le será quitado en una mañana.' },
+    ],
+  },
+  7: {
+    name: 'El Ejército',
+    meaning: 'Una fuerza organizada, disciplina y orden',
+    judgment: 'Shi. El ejército requiere firmeza y buena fortuna llega al líder sin culpa.',
+    image: 'Agua en la tierra forma el Ejército. El hombre superior así anima a la multitud.',
+    lines: [
+      { position: 1, text: 'La hueste sale conforme a las reglas de tal movimiento. Si éstas no son buenas, habrá mal.' },
+      { position: 2, text: 'El jefe está en medio de la hueste. Habrá buena fortuna y ningún error. El rey le ha transmitido tres veces su encargo.' },
+      { position: 3, text: 'Puede que la hueste tenga muchos jefes ineficaces. Habrá mal.' },
+      { position: 4, text: 'La hueste está en retirada. No hay error.' },
+      { position: 5, text: 'Hay aves en los campos que será ventajoso capturar y destruir. En ese caso no habrá error. Si el hijo mayor dirige la hueste y hombres más jóvenes ocupan cargos ociosamente, por firme y correcto que sea, habrá mal.' },
+      { position: 6, text: 'El gran gobernante entrega sus encargos, nombrando a unos gobernantes de estados y a otros jefes de clanes. Pero los hombres pequeños no deben ser empleados en tales puestos.' },
+    ],
+  },
+  8: {
+    name: 'La Unión',
+    meaning: 'Unirse para un propósito común',
+    judgment: 'Bi. Trae buena fortuna. Pero examine si la unión está basada en lo verdadero.',
+    image: 'Agua sobre la tierra forma Bi. Los reyes antiguos así establecieron a los príncipes como ministros del estado.',
+    lines: [
+      { position: 1, text: 'Que el sujeto busque la unión con su objeto siendo sincero; no habrá error. Que su sinceridad sea como una vasija de barro llena, y al final traerá otras ventajas.' },
+      { position: 2, text: 'El movimiento hacia la unión procede del interior. Con firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'Busca la unión con quienes no deberían ser sus asociados.' },
+      { position: 4, text: 'Busca la unión con quien está más allá de sí. Con firme corrección habrá buena fortuna.' },
+      { position: 5, text: 'El ejemplo más ilustre de búsqueda de unión. El rey dirige la caza sólo en tres direcciones y permite la huida de los animales que tiene delante. La gente de sus pueblos no se advierte mutuamente para impedirlo. Habrá buena fortuna.' },
+      { position: 6, text: 'Busca la unión sin haber dado el primer paso. Habrá mal.' },
+    ],
+  },
+  9: {
+    name: 'La Pequeña Restricción',
+    meaning: 'El poder restrictivo de las cosas pequeñas',
+    judgment: 'Xiao Chu. Trae buena fortuna. Nubes densas pero sin lluvia vienen del límite de nuestro territorio occidental.',
+    image: 'El viento moviéndose por el cielo forma Xiao Chu. El hombre superior así refina el aspecto exterior de su naturaleza.',
+    lines: [
+      { position: 1, text: 'Vuelve y sigue su propio curso. ¿En qué error podría caer? Habrá buena fortuna.' },
+      { position: 2, text: 'Es arrastrado con otros a volver. Habrá buena fortuna.' },
+      { position: 3, text: 'Se quitan los rayos de las ruedas del carro; marido y mujer se miran con ojos esquivos.' },
+      { position: 4, text: 'Posee sinceridad; así se evita el peligro de derramamiento de sangre y se disipa su aprensión. No habrá error.' },
+      { position: 5, text: 'Posee sinceridad y atrae a otros a unirse con él. Rico en recursos, emplea a sus vecinos en la misma causa.' },
+      { position: 6, text: 'Ha caído la lluvia y se detiene el avance; así debemos valorar la plena acumulación de virtud. Pero una esposa que ejerce contención, por firme y correcta que sea, está en peligro; y como la luna cercana a llenarse, el hombre superior que ahora emprende sus planes encontrará el mal.' },
+    ],
+  },
+  10: {
+    name: 'El Pisar Respetuoso',
+    meaning: 'Conducta apropiada y humildad',
+    judgment: 'Lu. Cuando uno pisa la cola de un tigre y este no lo muerde, hay buena fortuna.',
+    image: 'Cielo y pantano forman Lu. El hombre superior así establece una distinción entre alto y bajo.',
+    lines: [
+      { position: 1, text: 'Pisa su camino acostumbrado. Si avanza, no habrá error.' },
+      { position: 2, text: 'Pisa el camino llano y fácil; un hombre tranquilo y solitario, para quien, si es firme y correcto, habrá buena fortuna.' },
+      { position: 3, text: 'Un tuerto que cree ver; un cojo que cree caminar bien; uno que pisa la cola del tigre y es mordido. Todo indica mala fortuna. Tenemos a un mero bravucón haciendo el papel de gran gobernante.' },
+      { position: 4, text: 'Pisa la cola de un tigre. Se llena de cautela y al final habrá buena fortuna.' },
+      { position: 5, text: 'El paso resuelto del sujeto. Aunque sea firme y correcto, habrá peligro.' },
+      { position: 6, text: 'Que mire todo el camino recorrido y examine el presagio que ofrece. Si es completo y sin falla, habrá gran buena fortuna.' },
+    ],
+  },
+  13: {
+    name: 'La Comunidad con los Hombres',
+    meaning: 'Asociación con hombres en lo abierto',
+    judgment: 'Tong Ren. En lo abierto trae buena fortuna. Es propicio cruzar la gran agua.',
+    image: 'Cielo y fuego forman Tong Ren. El hombre superior así divide las cosas en categorías.',
+    lines: [
+      { position: 1, text: 'El representante de la unión de los hombres sale de su puerta. No habrá error.' },
+      { position: 2, text: 'El representante de la unión de los hombres en relación con sus parientes. Habrá ocasión de pesar.' },
+      { position: 3, text: 'Esconde sus armas en la hierba espesa y en lo alto del montículo. Durante tres años no hace demostración alguna.' },
+      { position: 4, text: 'Está montado sobre la muralla de la ciudad, pero no procede al ataque que contempla. Habrá buena fortuna.' },
+      { position: 5, text: 'El representante de la unión de los hombres primero gime y clama, y después ríe. Su gran hueste vence, y él y el sujeto de la segunda línea se encuentran.' },
+      { position: 6, text: 'El representante de la unión de los hombres en las afueras. No habrá ocasión de arrepentimiento.' },
+    ],
+  },
+  14: {
+    name: 'La Gran Posesión',
+    meaning: 'Grandes posesiones y alta posición',
+    judgment: 'Da You. Suprema buena fortuna.',
+    image: 'Fuego elevándose hacia el cielo forma Da You. El hombre superior así frena el mal y manifiesta el bien.',
+    lines: [
+      { position: 1, text: 'No hay acercamiento a lo dañino, y no hay error. Que se comprenda la dificultad y el peligro de la posición, y no habrá error hasta el fin.' },
+      { position: 2, text: 'Tenemos un gran carro con su carga. En cualquier dirección que se avance, no habrá error.' },
+      { position: 3, text: 'Un príncipe feudal presenta sus ofrendas al Hijo del Cielo. Un hombre pequeño no estaría a la altura de tal deber.' },
+      { position: 4, text: 'Mantiene bajo control sus grandes recursos. No habrá error.' },
+      { position: 5, text: 'La sinceridad del sujeto es correspondida por todos los demás. Que muestre la debida majestad y habrá buena fortuna.' },
+      { position: 6, text: 'Es ayudado por el Cielo. Habrá buena fortuna y ventaja en todo sentido.' },
+    ],
+  },
+  15: {
+    name: 'La Modestia',
+    meaning: 'Autocontrol modesto y cedencia',
+    judgment: 'Qian. La modestia trae buena fortuna. El hombre superior lleva su obra a conclusión.',
+    image: 'Una montaña dentro de la tierra forma Qian. El hombre superior disminuye lo mucho y aumenta lo poco.',
+    lines: [
+      { position: 1, text: 'El hombre superior que añade humildad a la humildad. Incluso el gran río puede cruzarse así, y habrá buena fortuna.' },
+      { position: 2, text: 'Humildad que se ha hecho reconocer. Con firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'El hombre superior de mérito reconocido mantendrá su éxito hasta el fin y tendrá buena fortuna.' },
+      { position: 4, text: 'Uno cuya acción sería ventajosa en todo sentido, avivando aún más su humildad.' },
+      { position: 5, text: 'Uno que, sin ser rico, es capaz de emplear a sus vecinos. Puede usar con ventaja la fuerza de las armas. Todos sus movimientos serán ventajosos.' },
+      { position: 6, text: 'Humildad que se ha hecho reconocer. El sujeto pondrá con ventaja sus huestes en marcha, pero sólo castigará sus propias ciudades y estado.' },
+    ],
+  },
+  16: {
+    name: 'El Entusiasmo',
+    meaning: 'Armonía y placer en acuerdo',
+    judgment: 'Yu. Es propicio establecer príncipes feudales y poner el ejército en movimiento.',
+    image: 'Trueno en la tierra forma Yu. Los reyes antiguos usaban la música para celebrar sus logros y los ofrecían a lo divino.',
+    lines: [
+      { position: 1, text: 'Proclama su placer y satisfacción. Habrá mal.' },
+      { position: 2, text: 'Es firme como una roca. Ve una cosa sin esperar a que suceda; con su firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'Mira hacia arriba buscando favores mientras se entrega al placer. Si entendiera, debería arrepentirse; con su demora habrá en verdad ocasión de arrepentimiento.' },
+      { position: 4, text: 'De él vienen la armonía y la satisfacción. Grande es el éxito que obtiene. Que no deje entrar sospechas en su mente, y así los amigos se reunirán a su alrededor.' },
+      { position: 5, text: 'Tiene una dolencia crónica, pero sigue viviendo sin morir.' },
+      { position: 6, text: 'Tiene la mente oscurecida y cegada por el placer. Pero si cambia su curso aun cuando pueda considerarse completado, no habrá error.' },
+    ],
+  },
+  17: {
+    name: 'El Seguimiento',
+    meaning: 'Dar y recibir en secuencia',
+    judgment: 'Sui. Suprema buena fortuna. No hay culpa en ser firme y correcto. Hay ventaja en ceder al tiempo.',
+    image: 'Trueno sobre el lago forma Sui. El hombre superior se retira del mundo al anochecer para descansar.',
+    lines: [
+      { position: 1, text: 'Vemos a uno que cambia el objeto de su búsqueda; pero si es firme y correcto, habrá buena fortuna. Saliendo de su puerta para hallar compañeros, logrará mérito.' },
+      { position: 2, text: 'Vemos a uno que se aferra al muchacho y suelta al hombre de edad y experiencia.' },
+      { position: 3, text: 'Vemos a uno que se aferra al hombre de edad y experiencia y suelta al muchacho. Tal seguimiento obtendrá lo que busca; pero será ventajoso adherirse a lo firme y correcto.' },
+      { position: 4, text: 'Vemos a uno seguido y que obtiene adeptos. Aunque sea firme y correcto, habrá mal. Pero si es sincero en su curso y lo hace evidente, ¿en qué error puede caer?' },
+      { position: 5, text: 'El gobernante sincero en fomentar todo lo excelente. Habrá buena fortuna.' },
+      { position: 6, text: 'Vemos la sinceridad firmemente sostenida, aferrada y bien atada. Vemos al rey con ella presentando sus ofrendas en la montaña occidental.' },
+    ],
+  },
+  18: {
+    name: 'La Corrupción',
+    meaning: 'Decadencia y remedio; enderezar lo arruinado',
+    judgment: 'Gu. Hay gran buena fortuna en enderezar las cosas. Es propicio cruzar la gran agua.',
+    image: 'Viento soplando bajo la montaña forma Gu. El hombre superior así incita al pueblo y fortalece su virtud.',
+    lines: [
+      { position: 1, text: 'Un hijo que se ocupa de los problemas causados por su padre. Si es un hijo capaz, el padre escapará a la culpa de haber errado. La posición es peligrosa, pero al final habrá buena fortuna.' },
+      { position: 2, text: 'Un hijo que se ocupa de los problemas causados por su madre. No debe llevar su firme corrección al extremo.' },
+      { position: 3, text: 'Un hijo que se ocupa de los problemas causados por su padre. Puede haber una pequeña ocasión de arrepentimiento, pero no habrá gran error.' },
+      { position: 4, text: 'Un hijo que mira con indulgencia los problemas causados por su padre. Si avanza, hallará motivo de pesar.' },
+      { position: 5, text: 'Un hijo que se ocupa de los problemas causados por su padre. Obtiene el elogio de usar el instrumento adecuado para su obra.' },
+      { position: 6, text: 'Uno que no sirve ni al rey ni al señor feudal, sino que con espíritu elevado prefiere atender a sus propios asuntos.' },
+    ],
+  },
+  21: {
+    name: 'La Mordedura a Través',
+    meaning: 'Masticar y morder a través de obstáculos',
+    judgment: 'Yao He. Masticar y morder a través trae buena fortuna. Es propicio procesar al criminal.',
+    image: 'Relámpago sobre trueno forma Yao He. Los reyes antiguos así hacían las penas claras y severas.',
+    lines: [
+      { position: 1, text: 'Uno cuyos pies están en el cepo y ha perdido los dedos. No habrá error.' },
+      { position: 2, text: 'Uno que muerde la carne blanda y llega a arrancar la nariz. No habrá error.' },
+      { position: 3, text: 'Uno que roe carne seca y encuentra algo desagradable. Habrá ocasión de algún pequeño pesar, pero ningún gran error.' },
+      { position: 4, text: 'Uno que roe la carne seca sobre el hueso y obtiene las prendas de dinero y flechas. Le será ventajoso comprender la dificultad de su tarea y ser firme; así habrá buena fortuna.' },
+      { position: 5, text: 'Uno que roe carne seca y encuentra el oro amarillo. Que sea firme y correcto, consciente del peligro de su posición. No habrá error.' },
+      { position: 6, text: 'Uno que lleva la canga y ha perdido las orejas. Habrá mal.' },
+    ],
+  },
+  22: {
+    name: 'La Ornamentación',
+    meaning: 'Elegancia y embellecimiento',
+    judgment: 'Bi. Hay buena fortuna en asuntos pequeños. Es bueno tener algún destino adónde ir.',
+    image: 'Fuego al pie de la montaña forma Bi. El hombre superior así ilumina su cultura y no se atreve a cortar el litigio.',
+    lines: [
+      { position: 1, text: 'Uno que adorna sus pies. Puede renunciar al carruaje y caminar a pie.' },
+      { position: 2, text: 'Uno que adorna su barba.' },
+      { position: 3, text: 'Uno adornado y cubierto de ricos favores. Pero que mantenga siempre su firme corrección, y habrá buena fortuna.' },
+      { position: 4, text: 'Uno que parece adornado, pero sólo de blanco. Como montado en un caballo blanco y provisto de alas, busca la unión con el sujeto de la primera línea, mientras el tercero persigue, no como salteador, sino con intención de alianza matrimonial.' },
+      { position: 5, text: 'El sujeto es adornado por los habitantes de las alturas y los jardines. Lleva su rollo de seda, pequeño y escaso. Puede parecer mezquino, pero al final habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto con el blanco como único adorno. No habrá error.' },
+    ],
+  },
+  25: {
+    name: 'La Buena Fortuna Inesperada',
+    meaning: 'Intención inocente y rectitud natural',
+    judgment: 'Wu Wang. Hay suprema buena fortuna. Es propicio ser correcto y firme.',
+    image: 'Trueno bajo el cielo forma Wu Wang. Los reyes antiguos así fomentaban la virtud abundantemente.',
+    lines: [
+      { position: 1, text: 'El sujeto, libre de toda falta de sinceridad. Su avance irá acompañado de buena fortuna.' },
+      { position: 2, text: 'Uno que cosecha sin haber arado y recoge el producto de sus campos del tercer año sin haberlos cultivado el primero con ese fin. A tal persona le será ventajoso moverse en cualquier dirección.' },
+      { position: 3, text: 'Calamidad que sobreviene a uno libre de falta de sinceridad; como en el caso de un buey atado. Un transeúnte lo encuentra y se lo lleva, mientras la gente del vecindario sufre la calamidad de ser acusada y detenida.' },
+      { position: 4, text: 'Si el sujeto puede permanecer firme y correcto, no habrá error.' },
+      { position: 5, text: 'Uno libre de falta de sinceridad que, sin embargo, ha enfermado. Que no use medicina, y tendrá ocasión de alegrarse por su recuperación.' },
+      { position: 6, text: 'El sujeto, libre de falta de sinceridad, caerá sin embargo en error si actúa. Su acción no será ventajosa en modo alguno.' },
+    ],
+  },
+  26: {
+    name: 'La Gran Acumulación',
+    meaning: 'Acumular la fuerza para contener',
+    judgment: 'Da Chu. Es propicio ser firme y correcto. Si no fuera por su hogar, hay buena fortuna. Es propicio cruzar la gran agua.',
+    image: 'Cielo bajo la montaña forma Da Chu. El hombre superior acumula virtud para beneficiar al mundo.',
+    lines: [
+      { position: 1, text: 'El sujeto está en una posición de peligro. Le será ventajoso detener su avance.' },
+      { position: 2, text: 'Un carro al que se le ha quitado la correa de debajo.' },
+      { position: 3, text: 'El sujeto se abre paso con buenos caballos. Le será ventajoso comprender la dificultad de su curso y ser firme y correcto, ejercitándose a diario en la conducción del carro y en los métodos de defensa; entonces habrá ventaja en cualquier dirección en que avance.' },
+      { position: 4, text: 'El toro joven y el trozo de madera sobre sus cuernos. Habrá gran buena fortuna.' },
+      { position: 5, text: 'Los dientes de un cerdo castrado. Habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto dispone del firmamento del cielo. Habrá progreso.' },
+    ],
+  },
+  27: {
+    name: 'La Provisión de Nutrición',
+    meaning: 'Atender al sustento y la nutrición',
+    judgment: 'Yi. La corrección firme trae buena fortuna. Presta atención a proporcionar nutrición.',
+    image: 'Trueno bajo la montaña forma Yi. El hombre superior es cuidadoso en sus palabras y moderado en el comer y beber.',
+    lines: [
+      { position: 1, text: 'Es como si soltaras tu eficaz tortuga y me miraras hasta que se te cayera la mandíbula. Habrá mal.' },
+      { position: 2, text: 'Uno que mira hacia abajo buscando sustento, lo cual es contrario a lo debido; o que lo busca en la altura de arriba, y avanzar hacia ella llevará al mal.' },
+      { position: 3, text: 'Uno que actúa contra el método de nutrir. Por firme que sea, habrá mal. Durante diez años que no emprenda acción alguna, pues no será ventajosa en modo alguno.' },
+      { position: 4, text: 'Uno que mira hacia abajo buscando el poder de nutrir. Habrá buena fortuna. Mirando con la fija mirada del tigre, y con el deseo que lo impulsa salto tras salto, no caerá en error.' },
+      { position: 5, text: 'Uno que actúa contra lo regular y debido; pero si permanece firme, habrá buena fortuna. No debe, sin embargo, intentar cruzar el gran río.' },
+      { position: 6, text: 'Aquel de quien procede el sustento. Su posición es peligrosa, pero habrá buena fortuna. Será ventajoso cruzar el gran río.' },
+    ],
+  },
+  28: {
+    name: 'El Gran Exceso',
+    meaning: 'Ir demasiado lejos; exceder el medio',
+    judgment: 'Da Guo. La viga se cede peligrosamente. Es propicio tener adónde ir. Pequeña buena fortuna.',
+    image: 'El viento gira sobre el lago formando Da Guo. El hombre superior se mantiene solo sin temor.',
+    lines: [
+      { position: 1, text: 'Uno que coloca esteras de hierba blanca mao bajo las cosas puestas en el suelo. No habrá error.' },
+      { position: 2, text: 'Un sauce decaído que echa brotes, o un anciano en posesión de su joven esposa. Habrá ventaja en todo sentido.' },
+      { position: 3, text: 'Una viga débil. Habrá mal.' },
+      { position: 4, text: 'Una viga que se curva hacia arriba. Habrá buena fortuna. Si el sujeto busca otra ayuda, habrá motivo de pesar.' },
+      { position: 5, text: 'Un sauce decaído que echa flores, o una anciana en posesión de su joven marido. No habrá ocasión de culpa ni de elogio.' },
+      { position: 6, text: 'El sujeto, con audacia extraordinaria, vadea un arroyo hasta que el agua le cubre la coronilla. Habrá mal, pero no motivo de culpa.' },
+    ],
+  },
+  29: {
+    name: 'El Pozo',
+    meaning: 'Peligro repetido; fluir a través de dificultades',
+    judgment: 'Kan repetido. Si tienes verdad y sinceridad, y las muestras a otros, tendrás buena fortuna.',
+    image: 'El agua sigue fluyendo y también llena; la doble repetición del trigrama del agua indica la idea de fluir. El hombre superior aplica esto a la práctica perpetua de la virtud.',
+    lines: [
+      { position: 1, text: 'El sujeto está en el doble desfiladero y aun así entra en una caverna dentro de él. Habrá mal.' },
+      { position: 2, text: 'El sujeto está en todo el peligro del desfiladero. Obtendrá, sin embargo, un poco de la liberación que busca.' },
+      { position: 3, text: 'El sujeto, venga o vaya, se enfrenta a un desfiladero. Todo es peligro e inquietud para él. Sus esfuerzos lo llevarán a la caverna del foso. En tal caso no debe haber acción.' },
+      { position: 4, text: 'El sujeto en un banquete, con sólo una botella de licor y una cesta auxiliar de arroz, mientras las copas y cuencos son sólo de barro. Introduce sus lecciones importantes según lo admite la inteligencia de su gobernante. Al final no habrá error.' },
+      { position: 5, text: 'El agua del desfiladero aún no está llena, de modo que pueda correr; pero pronto se establecerá el orden. No habrá error.' },
+      { position: 6, text: 'El sujeto atado con cuerdas de tres o dos hebras y puesto en el matorral de espinos. Pero en tres años no aprende el curso que ha de seguir. Habrá mal.' },
+    ],
+  },
+  30: {
+    name: 'El Fuego',
+    meaning: 'Brillo e iluminación',
+    judgment: 'Li. Es propicio ser firme y correcto. Hay buena fortuna en cuidar de la vaca.',
+    image: 'Fuego repetido, la imagen del Fuego. El hombre superior así se vuelve perpetuamente resplandeciente con luz y amor.',
+    lines: [
+      { position: 1, text: 'Uno dispuesto a moverse con pasos confusos. Pero pisa a la vez con reverencia, y no habrá error.' },
+      { position: 2, text: 'El sujeto en su lugar de amarillo. Habrá gran buena fortuna.' },
+      { position: 3, text: 'El sujeto en una posición como la del sol declinante. En vez de tocar su instrumento de barro y cantar, profiere los gemidos de un anciano de ochenta años. Habrá mal.' },
+      { position: 4, text: 'El modo de llegar del sujeto. ¡Qué abrupto es, como con fuego, con muerte, para ser rechazado por todos!' },
+      { position: 5, text: 'El sujeto derrama lágrimas a torrentes y gime de pena. Habrá buena fortuna.' },
+      { position: 6, text: 'El rey emplea al sujeto en sus expediciones punitivas. Logrando admirable mérito, quebranta sólo a los jefes y no extiende su severidad a sus seguidores. No habrá error.' },
+    ],
+  },
+  31: {
+    name: 'La Influencia Mutua',
+    meaning: 'Influir por atracción y respuesta natural',
+    judgment: 'Xian. Hay buena fortuna en ser firme y correcto. Es propicio tener una doncella.',
+    image: 'Un pantano en la montaña forma Xian. El hombre superior así busca popularidad estando listo para recibir.',
+    lines: [
+      { position: 1, text: 'Uno que mueve los dedos gordos de los pies.' },
+      { position: 2, text: 'Uno que mueve las pantorrillas. Habrá mal. Si permanece quieto en su lugar, habrá buena fortuna.' },
+      { position: 3, text: 'Uno que mueve los muslos y se aferra a aquellos a quienes sigue. Avanzar así causará pesar.' },
+      { position: 4, text: 'Firme corrección, que llevará a la buena fortuna e impedirá toda ocasión de arrepentimiento. Si el sujeto es inquieto en sus movimientos, sólo sus amigos seguirán su propósito.' },
+      { position: 5, text: 'Uno que mueve la carne a lo largo de la espina sobre el corazón. No habrá ocasión de arrepentimiento.' },
+      { position: 6, text: 'Uno que mueve las mandíbulas y la lengua.' },
+    ],
+  },
+  32: {
+    name: 'La Permanencia',
+    meaning: 'Perdurar sin cambio con buen resultado',
+    judgment: 'Heng. Hay buena fortuna, no hay culpa. Es propicio ser firme y correcto.',
+    image: 'Trueno y viento forman Heng. El hombre superior permanece resuelto e inmutable.',
+    lines: [
+      { position: 1, text: 'El sujeto desea profundamente una larga continuidad. Aun con firme corrección habrá mal; no habrá ventaja alguna.' },
+      { position: 2, text: 'Toda ocasión de arrepentimiento desaparece.' },
+      { position: 3, text: 'Uno que no mantiene continuamente su virtud. Hay quienes se lo imputarán como deshonra. Por firme que sea, habrá motivo de pesar.' },
+      { position: 4, text: 'Un campo donde no hay caza.' },
+      { position: 5, text: 'Uno que mantiene continuamente la virtud indicada. En una esposa será afortunado; en un marido, malo.' },
+      { position: 6, text: 'El sujeto se excita buscando una larga continuidad. Habrá mal.' },
+    ],
+  },
+  35: {
+    name: 'El Avance',
+    meaning: 'Promoción y movimiento hacia adelante',
+    judgment: 'Jin. Progreso. Se presenta un buen caballo. En un día hay progreso muchas veces.',
+    image: 'Fuego sobre la tierra forma Jin. El hombre superior así reconoce la excelencia luminosa y honra la virtud.',
+    lines: [
+      { position: 1, text: 'Uno que desea avanzar y a la vez es retenido. Que sea firme y correcto, y habrá buena fortuna. Si no se confía en él, que mantenga una mente amplia y generosa, y no habrá error.' },
+      { position: 2, text: 'El sujeto avanza y, sin embargo, está triste. Si es firme y correcto, habrá buena fortuna. Recibirá esta gran bendición de su abuela.' },
+      { position: 3, text: 'El sujeto goza de la confianza de todos los que lo rodean. Toda ocasión de arrepentimiento desaparecerá.' },
+      { position: 4, text: 'El sujeto avanza como una marmota. Por firme y correcto que sea, la posición es de peligro.' },
+      { position: 5, text: 'Toda ocasión de arrepentimiento desaparece del sujeto. Pero que no se preocupe de si fracasará o tendrá éxito. Avanzar será afortunado y ventajoso en todo sentido.' },
+      { position: 6, text: 'Uno que avanza con los cuernos. Pero sólo los usa para castigar a la gente rebelde de su propia ciudad. La posición es peligrosa, pero habrá buena fortuna. Sin embargo, por firme y correcto que sea, habrá ocasión de pesar.' },
+    ],
+  },
+  36: {
+    name: 'El Eclipse de la Luz',
+    meaning: 'Brillo oculto; perdurar en la oscuridad',
+    judgment: 'Ming Yi. En la adversidad, es propicio ser firme y correcto.',
+    image: 'Luz entrando en la tierra forma Ming Yi. El hombre superior oculta su luz, pero aún brilla.',
+    lines: [
+      { position: 1, text: 'El sujeto, en la condición indicada por Ming Yi, vuela pero con las alas caídas. Cuando el hombre superior piensa en marcharse, puede pasar tres días sin comer. Adondequiera que vaya, la gente de allí puede hablar de él con burla.' },
+      { position: 2, text: 'El sujeto, en la condición indicada por Ming Yi, herido en el muslo izquierdo. Se salva con la fuerza de un caballo veloz y es afortunado.' },
+      { position: 3, text: 'El sujeto, en la condición indicada por Ming Yi, caza en el sur y captura al gran jefe de la oscuridad. No debe estar ansioso por corregirlo todo de una vez.' },
+      { position: 4, text: 'El sujeto acaba de entrar en el lado izquierdo del vientre de la tierra oscura. Pero es capaz de llevar a cabo la actitud apropiada a la condición indicada por Ming Yi, abandonando la puerta y el patio del señor de la oscuridad.' },
+      { position: 5, text: 'El conde de Ji en la condición indicada por Ming Yi. Será ventajoso ser firme y correcto.' },
+      { position: 6, text: 'El caso en que no hay luz, sino sólo oscuridad. El sujeto había subido al principio a lo alto del cielo; su futuro será entrar en la tierra.' },
+    ],
+  },
+  37: {
+    name: 'La Familia',
+    meaning: 'Relaciones domésticas y orden',
+    judgment: 'Jia Ren. Es propicio que la mujer sea firme y correcta.',
+    image: 'El viento surge del fuego: la imagen de la Familia. El hombre superior tiene sustancia en sus palabras y unidad en sus acciones.',
+    lines: [
+      { position: 1, text: 'El sujeto establece normas restrictivas en su casa. La ocasión de arrepentimiento desaparecerá.' },
+      { position: 2, text: 'La sujeto no toma nada sobre sí, sino que en su lugar central se ocupa de preparar la comida. Por su firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'El sujeto trata a los miembros de la casa con severidad rigurosa. Habrá ocasión de arrepentimiento, habrá peligro, pero habrá buena fortuna. Si la esposa y los hijos se dedicaran a sonreír y parlotear, al final habría motivo de pesar.' },
+      { position: 4, text: 'El sujeto enriquece a la familia. Habrá gran buena fortuna.' },
+      { position: 5, text: 'La influencia del rey se extiende a su familia. No hay por qué inquietarse: habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto posee sinceridad y está revestido de majestad. Al final habrá buena fortuna.' },
+    ],
+  },
+  38: {
+    name: 'La Separación',
+    meaning: 'Estar opuesto, distanciamiento',
+    judgment: 'Kui. En asuntos pequeños hay buena fortuna.',
+    image: 'Fuego sobre el lago forma Kui. El hombre superior a pesar de su diferencia retiene su unidad con otros.',
+    lines: [
+      { position: 1, text: 'La ocasión de arrepentimiento desaparecerá. Ha perdido sus caballos, pero que no los busque; volverán por sí mismos. Si se encuentra con hombres malos, no errará al tratar con ellos.' },
+      { position: 2, text: 'El sujeto se encuentra por casualidad con su señor en un callejón. No habrá error.' },
+      { position: 3, text: 'Uno cuyo carro es arrastrado hacia atrás mientras los bueyes son empujados, y él mismo sufre el rapado de la cabeza y el corte de la nariz. No hay un buen comienzo, pero habrá un buen final.' },
+      { position: 4, text: 'El sujeto está solo en medio de la desunión reinante. Pero se encuentra con el hombre bueno; unen sus deseos sinceros. La posición es peligrosa, pero no habrá error.' },
+      { position: 5, text: 'Toda ocasión de arrepentimiento desaparece. Con su pariente y ministro se une estrecha y prontamente, como si mordiera un trozo de piel. Cuando avanza con esta ayuda, ¿qué error puede haber?' },
+      { position: 6, text: 'El sujeto está solo en medio de la desunión reinante. En el sujeto de la tercera línea le parece ver un cerdo que lleva a cuestas una carga de barro, o un carro lleno de fantasmas. Primero tiende su arco contra él y después lo destensa, pues descubre que no es un asaltante que quiere dañarle, sino un pariente cercano. Al avanzar encontrará una lluvia benigna, y habrá buena fortuna.' },
+    ],
+  },
+  39: {
+    name: 'El Cojear',
+    meaning: 'Detención y progreso difícil',
+    judgment: 'Jian. Es favorable ir al suroeste, y no favorable ir al noreste. Es propicio ver al gran hombre.',
+    image: 'Agua en la montaña forma Jian. El hombre superior vuelve su atención hacia dentro y cultiva su carácter.',
+    lines: [
+      { position: 1, text: 'Avanzando, el sujeto encontrará mayores dificultades, mientras que permaneciendo quieto tendrá motivo de elogio.' },
+      { position: 2, text: 'El ministro del rey lucha con dificultad tras dificultad, y no en vista de su propia ventaja.' },
+      { position: 3, text: 'El sujeto avanza, pero sólo hacia mayores dificultades. Permanece quieto y vuelve a sus antiguos compañeros.' },
+      { position: 4, text: 'El sujeto avanza, pero sólo hacia mayores dificultades. Permanece quieto y se une al sujeto de la línea de arriba.' },
+      { position: 5, text: 'El sujeto lucha con las mayores dificultades, mientras los amigos vienen a ayudarle.' },
+      { position: 6, text: 'El sujeto que avanza sólo aumenta las dificultades, mientras que permanecer quieto producirá gran mérito. Habrá buena fortuna, y será ventajoso encontrarse con el gran hombre.' },
+    ],
+  },
+  40: {
+    name: 'El Aflojar',
+    meaning: 'Liberación de la restricción y la dificultad',
+    judgment: 'Jie. Es favorable ir al suroeste. No hay destino y volver es buena fortuna.',
+    image: 'Trueno y lluvia se juntan formando Jie. El hombre superior así perdona los errores de otros.',
+    lines: [
+      { position: 1, text: 'El sujeto no cometerá error.' },
+      { position: 2, text: 'El sujeto atrapa, cazando, tres zorros y obtiene las flechas amarillas. Con firme corrección habrá buena fortuna.' },
+      { position: 3, text: 'Uno que es porteador de cargas y, sin embargo, viaja en carruaje. Con ello invita a los ladrones a atacarle. Por firme y correcto que intente ser, habrá motivo de pesar.' },
+      { position: 4, text: 'Uno a quien se dice: quita tus dedos del pie. Entonces vendrán amigos, y entre ellos y tú habrá confianza mutua.' },
+      { position: 5, text: 'El sujeto, el hombre superior, cumple su función de eliminar todo lo perjudicial, en cuyo caso habrá buena fortuna, y hasta los hombres pequeños mostrarán confianza en él.' },
+      { position: 6, text: 'Un príncipe feudal que con su arco dispara a un halcón en lo alto de una muralla y lo alcanza. El efecto de su acción será ventajoso en todo sentido.' },
+    ],
+  },
+  41: {
+    name: 'La Disminución',
+    meaning: 'Disminuir para avanzar',
+    judgment: 'Sun. Con sinceridad, hay suprema buena fortuna sin culpa. Es propicio ser firme y correcto.',
+    image: 'Bajo la montaña hay un lago formando Sun. El hombre superior así frena su ira y restringe sus deseos.',
+    lines: [
+      { position: 1, text: 'El sujeto suspende sus propios asuntos y se apresura a ayudar al sujeto de la cuarta línea. No cometerá error, pero que considere hasta dónde debe contribuir de lo suyo para el otro.' },
+      { position: 2, text: 'Será ventajoso que el sujeto mantenga una firme corrección, y la acción de su parte será mala. Puede dar aumento sin quitarse nada a sí mismo.' },
+      { position: 3, text: 'Cómo de tres hombres que caminan juntos el número disminuye en uno; y cómo uno, caminando, encuentra a su amigo.' },
+      { position: 4, text: 'El sujeto disminuye el mal que padece empleando al sujeto de la primera línea para que se apresure hacia él, y se alegre. No habrá error.' },
+      { position: 5, text: 'Hay quienes añaden a las provisiones del sujeto diez pares de caparazones de tortuga y no aceptan negativa. Habrá gran buena fortuna.' },
+      { position: 6, text: 'El sujeto da aumento a otros sin quitar de lo suyo. No habrá error. Con firme corrección habrá buena fortuna. Habrá ventaja en todo movimiento que se haga. Encontrará más ministros de los que pueden contarse por sus clanes.' },
+    ],
+  },
+  42: {
+    name: 'El Aumento',
+    meaning: 'Multiplicación y avance',
+    judgment: 'Yi. Es propicio tener un destino. Es propicio cruzar la gran agua.',
+    image: 'Viento y trueno forman Yi. El hombre superior así elimina lo malo y fortalece lo bueno.',
+    lines: [
+      { position: 1, text: 'Será ventajoso para el sujeto en su posición hacer un gran movimiento. Si resulta muy afortunado, no se le imputará culpa.' },
+      { position: 2, text: 'Hay quienes añaden a las provisiones del sujeto diez pares de caparazones de tortuga cuyos oráculos no pueden contradecirse. Que persevere en ser firme y correcto, y habrá buena fortuna. Que el rey, con las virtudes así distinguidas, las emplee al presentar sus ofrendas a Dios, y habrá buena fortuna.' },
+      { position: 3, text: 'Aumento dado al sujeto por medio de lo malo, de modo que sea conducido al bien y quede sin culpa. Que sea sincero y siga el camino del medio; así obtendrá el reconocimiento del gobernante, como un oficial que se anuncia a su príncipe con el símbolo de su rango.' },
+      { position: 4, text: 'El sujeto sigue el curso debido. Su consejo al príncipe es seguido. Se puede confiar en él con ventaja en un movimiento como el traslado de la capital.' },
+      { position: 5, text: 'El sujeto, con corazón sincero, busca beneficiar a todos los de abajo. No hay por qué preguntar; el resultado será gran buena fortuna. Todos los de abajo reconocerán con corazón sincero su bondad.' },
+      { position: 6, text: 'Uno a cuyo aumento nadie contribuirá, mientras muchos intentarán atacarle. No observa regla constante en el orden de su corazón. Habrá mal.' },
+    ],
+  },
+  45: {
+    name: 'La Asamblea',
+    meaning: 'Reunirse en unión y comunión',
+    judgment: 'Cui. El rey se acerca a su templo. Es propicio ver al gran hombre. Hay buena fortuna.',
+    image: 'El lago se eleva sobre la tierra formando Cui. El hombre superior así ordena a sus oficiales.',
+    lines: [
+      { position: 1, text: 'El sujeto tiene un deseo sincero de unión, pero no puede llevarlo a cabo, de modo que se introduce desorden en la esfera de su unión. Si clama pidiendo ayuda a su correlato propio, de pronto sus lágrimas darán paso a sonrisas. No debe preocuparse por la dificultad pasajera; al avanzar, no habrá error.' },
+      { position: 2, text: 'El sujeto es conducido adelante por su correlato. Habrá buena fortuna y ausencia de error. Hay entera sinceridad, y en tal caso hasta las pequeñas ofrendas del sacrificio de primavera son aceptables.' },
+      { position: 3, text: 'El sujeto se esfuerza por la unión y la busca con suspiros, sin hallar ventaja en ninguna parte. Si avanza no errará, aunque pueda haber algún pequeño motivo de pesar.' },
+      { position: 4, text: 'El sujeto está en un estado tal que, si es muy afortunado, no recibirá culpa.' },
+      { position: 5, text: 'La unión de todos bajo el sujeto en el lugar de dignidad. No habrá error. Si algunos no confían en él, que procure que su virtud sea grande, duradera y firmemente correcta, y toda ocasión de arrepentimiento desaparecerá.' },
+      { position: 6, text: 'El sujeto suspira y llora; pero estará libre de culpa.' },
+    ],
+  },
+  46: {
+    name: 'El Ascenso',
+    meaning: 'Avanzar sin obstáculo',
+    judgment: 'Sheng. Hay gran buena fortuna. No es impropio ver al gran hombre. No albergues tristeza por perderlo. Ir al sur trae buena fortuna.',
+    image: 'Madera dentro de la tierra forma Sheng. El hombre superior a través de su respeto y perseverancia expande su virtud.',
+    lines: [
+      { position: 1, text: 'El sujeto asciende con la bienvenida de los que están por encima de él. Habrá gran buena fortuna.' },
+      { position: 2, text: 'El sujeto tiene aquella sinceridad que hace aceptables hasta las pequeñas ofrendas del sacrificio de primavera. No habrá error.' },
+      { position: 3, text: 'El sujeto asciende como a una ciudad vacía.' },
+      { position: 4, text: 'El sujeto es empleado por el rey para presentar sus ofrendas en el monte Qi. Habrá buena fortuna; no habrá error.' },
+      { position: 5, text: 'El sujeto es firmemente correcto y por ello goza de buena fortuna. Sube las escaleras con toda la debida ceremonia.' },
+      { position: 6, text: 'El sujeto asciende a ciegas. La ventaja se hallará en mantener sin cesar una firme corrección.' },
+    ],
+  },
+  47: {
+    name: 'El Agotamiento',
+    meaning: 'Opresión y reducción a la estrechez',
+    judgment: 'Kun. Hay buena fortuna. No hay culpa. El hombre superior trae buena fortuna. Pero si tiene algo que decir, no será creído.',
+    image: 'El lago sin agua forma Kun. El hombre superior así arriesga su vida persiguiendo su voluntad.',
+    lines: [
+      { position: 1, text: 'El sujeto, con las nalgas desnudas, apretado bajo el tocón de un árbol. Entra en un valle oscuro y durante tres años no tiene perspectiva de liberación.' },
+      { position: 2, text: 'El sujeto está apretado en medio de su vino y sus manjares. Pronto le llegan las rodilleras rojas del gobernante. Le convendrá mantener su sinceridad como al sacrificar. Las operaciones activas llevarían al mal, pero no incurrirá en culpa.' },
+      { position: 3, text: 'El sujeto apretado ante una roca amenazante. Se agarra a espinos. Entra en su palacio y no ve a su esposa. Habrá mal.' },
+      { position: 4, text: 'El sujeto avanza muy lentamente para ayudar al sujeto de la primera línea, que está apretado por el carro adornado de metal delante de él. Habrá ocasión de pesar, pero el final será bueno.' },
+      { position: 5, text: 'El sujeto con la nariz y los pies cortados. Está apretado por sus ministros con sus mandiles escarlata. Sin embargo, es pausado en sus movimientos y está satisfecho. Le convendrá ser tan sincero como al sacrificar a los seres espirituales.' },
+      { position: 6, text: 'El sujeto apretado como si estuviera atado con enredaderas; o en una posición alta y peligrosa, diciéndose: si me muevo, me arrepentiré. Si se arrepiente de sus errores pasados, habrá buena fortuna en su avance.' },
+    ],
+  },
+  48: {
+    name: 'El Pozo',
+    meaning: 'Agua pura y provisión constante',
+    judgment: 'Jing. La ciudad puede cambiar pero no el pozo. No disminuye ni aumenta. Yendo y viniendo, sacando agua, todos se benefician del pozo.',
+    image: 'El agua pasa sobre la madera formando Jing. El hombre superior anima al pueblo común a apoyarse mutuamente.',
+    lines: [
+      { position: 1, text: 'Un pozo tan fangoso que los hombres no beben de él; o un pozo viejo al que no acuden ni pájaros ni otras criaturas.' },
+      { position: 2, text: 'Un pozo del que por un agujero el agua escapa y corre hacia los camarones y pequeñas criaturas entre la hierba, o uno cuya agua se sale de un cesto roto.' },
+      { position: 3, text: 'Un pozo que ha sido limpiado, pero no se usa. Nuestros corazones se apenan por ello, pues el agua podría sacarse y usarse. Si el rey fuera inteligente, tanto él como nosotros podríamos recibir su beneficio.' },
+      { position: 4, text: 'Un pozo cuyo revestimiento está bien colocado. No habrá error.' },
+      { position: 5, text: 'Un pozo claro y límpido, cuyas aguas de fría fuente se beben libremente.' },
+      { position: 6, text: 'El agua del pozo subida hasta arriba, que no se deja cubrir. Esto sugiere la idea de sinceridad. Habrá gran buena fortuna.' },
+    ],
+  },
+  49: {
+    name: 'La Revolución',
+    meaning: 'Cambio y transformación total',
+    judgment: 'Ge. En su propio día es creído. Hay suprema buena fortuna, y es propicio ser firme y correcto.',
+    image: 'Fuego en el lago forma Ge. El hombre superior fija el calendario y aclara las estaciones.',
+    lines: [
+      { position: 1, text: 'El sujeto está como atado con la piel de un buey amarillo.' },
+      { position: 2, text: 'El sujeto hace sus cambios después de que ha pasado algún tiempo. La acción emprendida será afortunada. No habrá error.' },
+      { position: 3, text: 'El sujeto muestra que la acción emprendida será mala. Aunque sea firme y correcto, su posición es peligrosa. Si el cambio que contempla ha sido discutido plenamente tres veces, se le creerá.' },
+      { position: 4, text: 'La ocasión de arrepentimiento desaparece del sujeto. Que se le crea; y aunque cambie las ordenanzas existentes, habrá buena fortuna.' },
+      { position: 5, text: 'El gran hombre produce sus cambios como el tigre cuando cambia sus rayas. Antes de adivinar, se le cree.' },
+      { position: 6, text: 'El hombre superior produce sus cambios como el leopardo cuando cambia sus manchas, mientras los hombres pequeños cambian de cara y muestran su obediencia. Avanzar ahora llevaría al mal, pero habrá buena fortuna en permanecer firme y correcto.' },
+    ],
+  },
+  50: {
+    name: 'El Caldero',
+    meaning: 'Símbolo de transformación y sustento',
+    judgment: 'Ding. Hay gran buena fortuna. Hay éxito.',
+    image: 'Fuego sobre madera forma Ding. El hombre superior pone en orden lo desordenado.',
+    lines: [
+      { position: 1, text: 'El caldero volcado con las patas hacia arriba. Pero habrá ventaja en que se libre de lo malo que contenía. O nos muestra a la concubina cuya posición mejora por medio de su hijo. No habrá error.' },
+      { position: 2, text: 'El caldero con las cosas que se han de cocer en él. Si el sujeto puede decir: mi enemigo me detesta, pero no puede acercarse a mí, habrá buena fortuna.' },
+      { position: 3, text: 'El caldero con el lugar de sus orejas cambiado. El progreso del sujeto se detiene por ello. La carne grasa del faisán que está en el caldero no se comerá. Pero vendrá la lluvia benigna, y los motivos de arrepentimiento desaparecerán. Al final habrá buena fortuna.' },
+      { position: 4, text: 'El caldero con las patas rotas; y su contenido, destinado al uso del gobernante, volcado y derramado. El sujeto se sonrojará de vergüenza. Habrá mal.' },
+      { position: 5, text: 'El caldero con orejas amarillas y una barra de metal en ellas. Habrá ventaja en ser firme y correcto.' },
+      { position: 6, text: 'El caldero con una barra de jade. Habrá gran buena fortuna. Toda acción emprendida será ventajosa en todo sentido.' },
+    ],
+  },
+  51: {
+    name: 'El Despertar',
+    meaning: 'Choque y movimiento, poner en orden',
+    judgment: 'Zhen. Hay buena fortuna. El choque viene como advertencia. El temblor y el miedo son seguidos por alegría y risa.',
+    image: 'Trueno repetido forma la imagen del Despertar. El hombre superior prepara ordenadamente su sustento.',
+    lines: [
+      { position: 1, text: 'El sujeto, cuando se acerca el movimiento, mira alrededor con aprensión, y después sonríe y habla alegremente. Habrá buena fortuna.' },
+      { position: 2, text: 'El sujeto, cuando se acerca el movimiento, está en posición de peligro. Juzga mejor dejar los objetos que posee y subir a una altura muy elevada. No hay ocasión de perseguir las cosas que ha dejado; en siete días las encontrará.' },
+      { position: 3, text: 'El sujeto está aturdido en medio de los movimientos alarmantes. Si esos movimientos lo excitan a la acción correcta, no habrá error.' },
+      { position: 4, text: 'El sujeto, en medio de los movimientos alarmantes, se hunde indolente cada vez más en el fango.' },
+      { position: 5, text: 'El sujeto va y viene en medio de los movimientos alarmantes, siempre en peligro; pero quizá no sufra pérdida y halle algún asunto que pueda realizar.' },
+      { position: 6, text: 'El sujeto, en medio de los movimientos alarmantes, jadea consternado y mira alrededor con temblorosa aprensión. Si actúa, habrá mal. Si toma precauciones antes de que el movimiento lo alcance, cuando sólo está en sus vecinos, no habrá error, aunque sus parientes hablen contra él.' },
+    ],
+  },
+  52: {
+    name: 'La Montaña',
+    meaning: 'Inmovilidad y permanecer quieto en su lugar',
+    judgment: 'Gen. Cuando es tiempo de permanecer quieto, permanece quieto; cuando es tiempo de avanzar, avanza. Así avanzar y retroceder en el momento apropiado trae buena fortuna.',
+    image: 'Montañas juntas forman Gen. El hombre superior no va más allá de los límites de su posición.',
+    lines: [
+      { position: 1, text: 'El sujeto mantiene en reposo los dedos de los pies. No habrá error; pero le será ventajoso ser persistentemente firme y correcto.' },
+      { position: 2, text: 'El sujeto mantiene en reposo las pantorrillas. No puede ayudar a aquel a quien sigue, y está descontento en su ánimo.' },
+      { position: 3, text: 'El sujeto mantiene en reposo los lomos y separa las costillas del cuerpo de abajo. La situación es peligrosa, y el corazón arde de excitación contenida.' },
+      { position: 4, text: 'El sujeto mantiene en reposo el tronco. No habrá error.' },
+      { position: 5, text: 'El sujeto mantiene en reposo las mandíbulas, de modo que sus palabras son todas ordenadas. La ocasión de arrepentimiento desaparecerá.' },
+      { position: 6, text: 'El sujeto mantiene con devoción su reposo. Habrá buena fortuna.' },
+    ],
+  },
+  53: {
+    name: 'El Progreso Gradual',
+    meaning: 'Avanzar paso a paso en secuencia apropiada',
+    judgment: 'Jian. La doncella es entregada en matrimonio. Buena fortuna. Es propicio tener un destino adónde ir.',
+    image: 'Viento sobre la montaña forma Jian. El hombre superior mora en excelencia y mejora las costumbres.',
+    lines: [
+      { position: 1, text: 'Los gansos salvajes se acercan gradualmente a la orilla. Un joven oficial en circunstancias semejantes estará en posición de peligro y se hablará contra él; pero no habrá error.' },
+      { position: 2, text: 'Los gansos se acercan gradualmente a las grandes rocas, donde comen y beben con alegría y sosiego. Habrá buena fortuna.' },
+      { position: 3, text: 'Los gansos avanzan gradualmente hacia las llanuras secas. Sugiere la idea de un marido que parte en una expedición y no vuelve, y de una esposa encinta que no criará a su hijo. Habrá mal. El caso simbolizado podría ser ventajoso para resistir a los saqueadores.' },
+      { position: 4, text: 'Los gansos avanzan gradualmente hacia los árboles. Pueden posarse en las ramas planas. No habrá error.' },
+      { position: 5, text: 'Los gansos avanzan gradualmente hacia el alto montículo. Sugiere la idea de una esposa que durante tres años no queda encinta; pero al final no puede impedirse el resultado natural. Habrá buena fortuna.' },
+      { position: 6, text: 'Los gansos avanzan gradualmente hacia las grandes alturas de más allá. Sus plumas pueden usarse como adornos. Habrá buena fortuna.' },
+    ],
+  },
+  54: {
+    name: 'La Doncella que se Entrega en Matrimonio',
+    meaning: 'Sumisión femenina y la completación de las cosas',
+    judgment: 'Gui Mei. Las empresas traen desgracia. No hay nada que sea propicio.',
+    image: 'Trueno sobre el lago forma Gui Mei. El hombre superior entiende las cosas que llegan a su fin.',
+    lines: [
+      { position: 1, text: 'La hermana menor casada en una posición auxiliar a la verdadera esposa. Sugiere la idea de una persona coja de una pierna que aun así logra caminar. Avanzar será afortunado.' },
+      { position: 2, text: 'Ella, ciega de un ojo, y sin embargo capaz de ver. Habrá ventaja en que mantenga la firme corrección de una viuda solitaria.' },
+      { position: 3, text: 'La hermana menor que iba a casarse en una posición baja. Vuelve y acepta una posición auxiliar.' },
+      { position: 4, text: 'La hermana menor que ha de casarse prolonga el plazo. Puede tardar en casarse, pero llegará el momento.' },
+      { position: 5, text: 'La boda de la hermana menor del rey Yi. Las mangas de ella como esposa principal no igualaban a las de la hermana aún más joven que la acompañaba en calidad inferior. La luna casi llena. Habrá buena fortuna.' },
+      { position: 6, text: 'La joven que lleva la cesta, pero sin nada en ella, y el caballero que sacrifica la oveja, pero sin que brote sangre. No habrá ventaja alguna.' },
+    ],
+  },
+  55: {
+    name: 'La Abundancia',
+    meaning: 'Plenitud y prosperidad',
+    judgment: 'Feng. El rey alcanza plenitud. No llores. Sé como el sol al mediodía.',
+    image: 'Relámpago y trueno se juntan formando Feng. El hombre superior juzga a los que causan desorden.',
+    lines: [
+      { position: 1, text: 'El sujeto se encuentra con su compañero. Aunque ambos son del mismo carácter, no habrá error. El avance suscitará aprobación.' },
+      { position: 2, text: 'El sujeto está rodeado de pantallas tan grandes y gruesas que a mediodía puede ver la Osa Mayor. Si va e intenta iluminar a su gobernante así simbolizado, hará que se le mire con sospecha y desagrado. Que abrigue su sentimiento de sincera devoción para mover así el ánimo de su gobernante, y habrá buena fortuna.' },
+      { position: 3, text: 'El sujeto con una pantalla adicional de un estandarte grande y grueso, a través del cual a mediodía sólo puede ver la pequeña estrella Mei. En la oscuridad se rompe el brazo derecho; pero no habrá error.' },
+      { position: 4, text: 'El sujeto en una tienda tan grande y gruesa que a mediodía puede ver la Osa Mayor. Pero se encuentra con el sujeto de la primera línea, tan poco distinguido como él. Habrá buena fortuna.' },
+      { position: 5, text: 'El sujeto reúne a su alrededor a los hombres de brillante capacidad. Habrá ocasión de felicitación y elogio. Habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto con su casa agrandada, pero que sólo sirve de pantalla a su familia. Cuando mira a su puerta, todo está quieto y no hay nadie. Durante tres años no se ve a nadie. Habrá mal.' },
+    ],
+  },
+  56: {
+    name: 'El Viajero',
+    meaning: 'Uno que viaja y está lejos de casa',
+    judgment: 'Lu. Es propicio que el viajero sea firme y correcto; trae buena fortuna en su viaje.',
+    image: 'Fuego en la montaña forma Lu. El hombre superior así se vuelve reflexivo y cuidadoso.',
+    lines: [
+      { position: 1, text: 'El extranjero mezquino y ocupado en cosas mezquinas. Así atrae sobre sí mayor calamidad.' },
+      { position: 2, text: 'El extranjero ocupa su posada, lleva consigo sus medios de vida y cuenta con buenos y fieles sirvientes.' },
+      { position: 3, text: 'El extranjero que ha quemado su posada y perdido a sus sirvientes. Por firme y correcto que intente ser, estará en peligro.' },
+      { position: 4, text: 'El viajero en un lugar de descanso, con sus medios de vida y el hacha, pero diciendo aún: no estoy tranquilo en mi ánimo.' },
+      { position: 5, text: 'El sujeto dispara a un faisán. Perderá su flecha, pero al final obtendrá elogio y un alto cargo.' },
+      { position: 6, text: 'Un pájaro que quema su nido. El extranjero así representado primero ríe y luego grita. Ha perdido con demasiada facilidad su docilidad de buey. Habrá mal.' },
+    ],
+  },
+  57: {
+    name: 'Lo Acomodadizo',
+    meaning: 'Suavidad, penetración, sumisión',
+    judgment: 'Xun. Hay buena fortuna. Es propicio tener un destino adónde ir. Es propicio ver al gran hombre.',
+    image: 'Viento siguiendo viento forma Xun. El hombre superior así actúa como cuando despacha sus órdenes.',
+    lines: [
+      { position: 1, text: 'El sujeto avanza y retrocede. Le sería ventajoso tener la firme corrección de un soldado valiente.' },
+      { position: 2, text: 'El representante de Sun bajo un diván, empleando adivinos y exorcistas de un modo que roza la confusión. Habrá buena fortuna y no habrá error.' },
+      { position: 3, text: 'El sujeto penetra sólo mediante esfuerzos violentos y repetidos. Habrá ocasión de pesar.' },
+      { position: 4, text: 'Toda ocasión de arrepentimiento ha pasado. El sujeto obtiene en su cacería presas para su triple uso.' },
+      { position: 5, text: 'Con firme corrección habrá buena fortuna. Toda ocasión de arrepentimiento desaparecerá, y todos sus movimientos serán ventajosos. Puede que no haya habido buen comienzo, pero habrá buen final. Tres días antes de hacer cualquier cambio, que lo anuncie; y tres días después, que lo reconsidere. Así habrá buena fortuna.' },
+      { position: 6, text: 'El representante de la penetración bajo un diván, habiendo perdido el hacha con que ejecutaba sus decisiones. Por firme y correcto que intente ser, habrá mal.' },
+    ],
+  },
+  58: {
+    name: 'Lo Abierto',
+    meaning: 'Alegría, satisfacción, apoyo mutuo',
+    judgment: 'Dui. Hay buena fortuna. La corrección firme es propicia.',
+    image: 'Dos lagos unidos forman Dui. El hombre superior así discute y conversa.',
+    lines: [
+      { position: 1, text: 'El placer de la armonía interior. Habrá buena fortuna.' },
+      { position: 2, text: 'El placer que surge de la sinceridad interior. Habrá buena fortuna. La ocasión de arrepentimiento desaparecerá.' },
+      { position: 3, text: 'El sujeto atrae a su alrededor todo lo que puede dar placer. Habrá mal.' },
+      { position: 4, text: 'El sujeto delibera sobre en qué buscar su placer y no está en reposo. Roza lo que sería perjudicial, pero habrá motivo de alegría.' },
+      { position: 5, text: 'El sujeto confía en alguien que le haría daño. La situación es peligrosa.' },
+      { position: 6, text: 'El placer del sujeto que guía y atrae a otros.' },
+    ],
+  },
+  59: {
+    name: 'La Dispersión',
+    meaning: 'Unión que se disuelve y dispersa',
+    judgment: 'Huan. Hay buena fortuna. El rey se acerca a su lugar de culto. Es propicio cruzar la gran agua.',
+    image: 'Viento moviéndose sobre agua forma Huan. Los reyes antiguos erigían templos para honrar lo divino.',
+    lines: [
+      { position: 1, text: 'El sujeto se ocupa de rescatar del mal inminente y cuenta con la ayuda de un caballo fuerte. Habrá buena fortuna.' },
+      { position: 2, text: 'El sujeto, en medio de la dispersión, corre hacia su recurso de seguridad. Toda ocasión de arrepentimiento desaparecerá.' },
+      { position: 3, text: 'El sujeto descarta toda consideración hacia su propia persona. No habrá ocasión de arrepentimiento.' },
+      { position: 4, text: 'El sujeto dispersa los distintos partidos del estado, lo cual lleva a gran buena fortuna. De la dispersión reúne de nuevo a hombres buenos que destacan, una multitud como un montículo, lo que los hombres comunes no habrían imaginado.' },
+      { position: 5, text: 'El sujeto, en medio de la dispersión, emite sus grandes proclamas como el sudor brota de su cuerpo. Distribuye también las acumulaciones de los graneros reales. No habrá error.' },
+      { position: 6, text: 'El sujeto se deshace de lo que pueden llamarse sus heridas sangrientas y se aparta de sus ansiosos temores. No habrá error.' },
+    ],
+  },
+  60: {
+    name: 'La Regulación',
+    meaning: 'Restricción y regulación dentro de límites',
+    judgment: 'Jie. Hay buena fortuna. Las restricciones dolorosas no deben persistir.',
+    image: 'Agua sobre el lago forma Jie. El hombre superior establece sus pensamientos e investiga la naturaleza de las cosas.',
+    lines: [
+      { position: 1, text: 'El sujeto no sale del patio de fuera de su puerta. No habrá error.' },
+      { position: 2, text: 'El sujeto no sale del patio de dentro de su portón. Habrá mal.' },
+      { position: 3, text: 'El sujeto no da muestras de observar las normas debidas, en cuyo caso lo veremos lamentarse. Pero no habrá a quien culpar sino a sí mismo.' },
+      { position: 4, text: 'El sujeto atiende tranquila y naturalmente a todas las normas. Habrá progreso y éxito.' },
+      { position: 5, text: 'El sujeto promulga sus normas con dulzura y aceptación. Habrá buena fortuna. El avance con ellas dará motivo de admiración.' },
+      { position: 6, text: 'El sujeto promulga normas severas y difíciles. Aun con firmeza y corrección habrá mal. Pero aunque haya motivo de arrepentimiento, éste desaparecerá con el tiempo.' },
+    ],
+  },
+  61: {
+    name: 'La Confianza Fiel',
+    meaning: 'Buena fe y confianza entre las partes',
+    judgment: 'Zhong Fu. Hay buena fortuna. Es propicio cruzar la gran agua.',
+    image: 'Viento soplando sobre el lago forma Zhong Fu. El hombre superior determina demandas y pospone ejecuciones.',
+    lines: [
+      { position: 1, text: 'El sujeto descansa en sí mismo. Habrá buena fortuna. Si buscara a otro, no hallaría reposo.' },
+      { position: 2, text: 'El sujeto es como la grulla que clama en su oculto retiro, y sus crías le responden. Es como si dijera: tengo una copa de buen licor y la compartiré contigo.' },
+      { position: 3, text: 'El sujeto se ha encontrado con su compañero. Ya toca su tambor, ya lo deja. Ya llora, ya canta.' },
+      { position: 4, text: 'El sujeto es como la luna casi llena, y como un caballo de carro cuyo compañero desaparece. No habrá error.' },
+      { position: 5, text: 'El sujeto es perfectamente sincero y une a otros a sí en la más estrecha unión. No habrá error.' },
+      { position: 6, text: 'El sujeto en la posición de un gallo que intenta subir al cielo. Aun con firme corrección habrá mal.' },
+    ],
+  },
+  62: {
+    name: 'El Pequeño Exceso',
+    meaning: 'Exceder en asuntos pequeños',
+    judgment: 'Xiao Guo. Hay buena fortuna en asuntos pequeños. No es propicio emprender grandes asuntos.',
+    image: 'Trueno sobre la montaña forma Xiao Guo. El hombre superior así enfatiza lo pequeño y lo toma con ligereza.',
+    lines: [
+      { position: 1, text: 'Un pájaro que vuela y asciende hasta que el resultado es malo.' },
+      { position: 2, text: 'El sujeto pasa junto a su abuelo y se encuentra con su abuela; no intenta nada contra su gobernante, sino que lo encuentra como su ministro. No habrá error.' },
+      { position: 3, text: 'El sujeto no toma precauciones extraordinarias contra el peligro; y algunos hallan en consecuencia ocasión de atacarle y dañarle. Habrá mal.' },
+      { position: 4, text: 'El sujeto no cae en error, sino que atiende a la exigencia de su situación sin excederse en su curso natural. Si avanza, habrá peligro, y debe ser cauto. No hay ocasión de emplear la firmeza perpetuamente.' },
+      { position: 5, text: 'Nubes densas pero sin lluvia, que vienen de las fronteras del oeste. Muestra también al príncipe disparando su flecha y cogiendo al pájaro en una cueva.' },
+      { position: 6, text: 'El sujeto no atiende a la exigencia de su situación y excede su curso debido. Sugiere la imagen de un pájaro que vuela muy alto. Habrá mal. El caso es lo que se llama calamidad y daño causado por uno mismo.' },
+    ],
+  },
+  63: {
+    name: 'Después de la Completación',
+    meaning: 'Ya completado y la necesidad de permanecer vigilante',
+    judgment: 'Ji Ji. Hay buena fortuna en asuntos pequeños. Es propicio perseverar. Al principio hay buena fortuna, al final desorden.',
+    image: 'Agua sobre fuego forma Ji Ji. El hombre superior piensa de antemano en las dificultades y se previene contra ellas.',
+    lines: [
+      { position: 1, text: 'El sujeto como un conductor que frena su rueda, o como un zorro que se ha mojado la cola. No habrá error.' },
+      { position: 2, text: 'La sujeto como una esposa que ha perdido la cortina de su carruaje. No hay ocasión de ir en su busca. En siete días la encontrará.' },
+      { position: 3, text: 'Gao Zong ataca la región de los demonios y la somete en tres años. No deben emplearse hombres pequeños en tales empresas.' },
+      { position: 4, text: 'El sujeto con trapos preparados contra cualquier vía de agua en su barca, y en guardia todo el día.' },
+      { position: 5, text: 'El sujeto como el vecino del este que sacrifica un buey; pero esto no iguala al pequeño sacrificio de primavera del vecino del oeste, cuya sinceridad recibe la bendición.' },
+      { position: 6, text: 'El sujeto con la cabeza sumergida. La posición es peligrosa.' },
+    ],
+  },
+  64: {
+    name: 'Aún No Completado',
+    meaning: 'Trabajo aún en progreso y acercándose a la completación',
+    judgment: 'Wei Ji. Hay buena fortuna. El pequeño zorro casi completa el cruce pero se moja la cola. No hay nada propicio.',
+    image: 'Fuego sobre agua forma Wei Ji. El hombre superior distingue cuidadosamente entre las cosas.',
+    lines: [
+      { position: 1, text: 'El sujeto como un zorro cuya cola queda sumergida. Habrá ocasión de pesar.' },
+      { position: 2, text: 'El sujeto frena la rueda de su carro. Con firmeza y corrección habrá buena fortuna.' },
+      { position: 3, text: 'El sujeto, sin estar aún remediado el estado de cosas, avanza; lo cual será malo. Pero habrá ventaja en intentar cruzar el gran río.' },
+      { position: 4, text: 'El sujeto, por su firme corrección, obtiene buena fortuna, de modo que desaparece toda ocasión de arrepentimiento. Que se anime como si invadiera la región de los demonios, donde durante tres años le llegarán recompensas del gran reino.' },
+      { position: 5, text: 'El sujeto, por su firme corrección, obtiene buena fortuna y no tiene ocasión de arrepentimiento. Vemos en él el brillo del hombre superior y la posesión de sinceridad. Habrá buena fortuna.' },
+      { position: 6, text: 'El sujeto, lleno de confianza, banquetea tranquilamente. No habrá error. Si abriga esa confianza hasta ser como el zorro que sumerge la cabeza, faltará a lo que es correcto.' },
+    ],
+  },
+};
@@ -0,0 +1,908 @@
+/**
+ * Spanish rendering of the Wilhelm-Baynes translation of all 64 hexagrams ('es-wilhelm')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'Lo Creativo',
+    meaning: 'Cielo, el principio creativo, energía yang pura',
+    judgment: 'Lo Creativo obra elevado éxito, propiciando mediante la perseverancia.',
+    image: 'El movimiento del cielo es poderoso. Así el hombre superior se hace fuerte e incansable.',
+    lines: [
+      { position: 1, text: 'Dragón oculto. No actúes.' },
+      { position: 2, text: 'Dragón que aparece en el campo. Es propicio ver al gran hombre.' },
+      { position: 3, text: 'Todo el día el hombre superior está creativamente activo. Al anochecer su mente sigue llena de cuidados. Peligro. Sin culpa.' },
+      { position: 4, text: 'Vuelo vacilante sobre las profundidades. Sin culpa.' },
+      { position: 5, text: 'Dragón volador en el cielo. Es propicio ver al gran hombre.' },
+      { position: 6, text: 'El dragón arrogante tendrá motivo de arrepentimiento.' },
+    ],
+    allMoving: 'Aparece un vuelo de dragones sin cabeza. Ventura.',
+  },
+  2: {
+    name: 'Lo Receptivo',
+    meaning: 'Tierra, el principio receptivo, energía yin pura',
+    judgment: 'Lo Receptivo obra elevado éxito, propiciando por la perseverancia de una yegua.',
+    image: 'La condición de la tierra es la devoción receptiva. Así el hombre superior que tiene amplitud de carácter sostiene el mundo exterior.',
+    lines: [
+      { position: 1, text: 'Cuando hay escarcha bajo los pies, el hielo sólido no está lejos.' },
+      { position: 2, text: 'Recto, cuadrado, grande. Sin propósito, y sin embargo nada queda sin favorecer.' },
+      { position: 3, text: 'Líneas ocultas. Uno es capaz de permanecer perseverante. Si por azar estás al servicio de un rey, no busques obras, sino lleva a término.' },
+      { position: 4, text: 'Un saco atado. Sin culpa, sin elogio.' },
+      { position: 5, text: 'Una prenda inferior amarilla trae elevada ventura.' },
+      { position: 6, text: 'Dragones luchan en la pradera. Su sangre es negra y amarilla.' },
+    ],
+    allMoving: 'Es propicia la perseverancia duradera.',
+  },
+  11: {
+    name: 'La Paz',
+    meaning: 'Cielo y tierra se unen, armonía y prosperidad',
+    judgment: 'Paz. Lo pequeño se va, lo grande se acerca. Buena fortuna. Éxito.',
+    image: 'Cielo y tierra se unen: la imagen de la Paz. Así el gobernante divide y completa el curso del cielo y la tierra.',
+    lines: [
+      { position: 1, text: 'Cuando se arranca la hierba, el césped sale con ella. Cada uno según su especie. Las empresas traen ventura.' },
+      { position: 2, text: 'Soportar a los incultos con suavidad, vadear el río con resolución, no descuidar lo lejano, no atender a los compañeros: así se logra andar por el medio.' },
+      { position: 3, text: 'No hay llano al que no siga una pendiente. No hay ida a la que no siga un retorno. Quien persevera en el peligro queda sin culpa. No te quejes de esta verdad; disfruta de la ventura que aún posees.' },
+      { position: 4, text: 'Desciende revoloteando, sin jactarse de su riqueza, junto con su vecino, sin malicia y sincero.' },
+      { position: 5, text: 'El soberano I da a su hija en matrimonio. Esto trae bendición y elevada ventura.' },
+      { position: 6, text: 'La muralla cae de nuevo al foso. No emplees ahora el ejército. Da a conocer tus órdenes en tu propia ciudad. La perseverancia trae humillación.' },
+    ],
+  },
+  12: {
+    name: 'El Estancamiento',
+    meaning: 'Cielo y tierra no se unen, estancamiento',
+    judgment: 'Estancamiento. La gente malvada no propicia la perseverancia del hombre superior. Lo grande se va, lo pequeño se acerca.',
+    image: 'Cielo y tierra no se unen: la imagen del Estancamiento. Así el hombre superior se repliega en su valor interior.',
+    lines: [
+      { position: 1, text: 'Cuando se arranca la hierba, el césped sale con ella. Cada uno según su especie. La perseverancia trae ventura y éxito.' },
+      { position: 2, text: 'Soportan y aguantan; esto significa ventura para las personas inferiores. El estancamiento ayuda al gran hombre a alcanzar el éxito.' },
+      { position: 3, text: 'Soportan la vergüenza.' },
+      { position: 4, text: 'Quien actúa por mandato del más alto queda sin culpa. Los de ánimo afín participan de la bendición.' },
+      { position: 5, text: 'El estancamiento cede. Ventura para el gran hombre. «¿Y si fracasara, y si fracasara?» Así lo ata a un macizo de brotes de morera.' },
+      { position: 6, text: 'El estancamiento llega a su fin. Primero estancamiento, después ventura.' },
+    ],
+  },
+  19: {
+    name: 'El Acercamiento',
+    meaning: 'Aproximarse, volverse grande, avanzar',
+    judgment: 'El Acercamiento tiene éxito supremo. La perseverancia propicia. Cuando llegue el octavo mes, habrá infortunio.',
+    image: 'La tierra sobre el lago: la imagen del Acercamiento. Así el hombre superior es inagotable en su voluntad de enseñar.',
+    lines: [
+      { position: 1, text: 'Acercamiento conjunto. La perseverancia trae ventura.' },
+      { position: 2, text: 'Acercamiento conjunto. Ventura. Todo es propicio.' },
+      { position: 3, text: 'Acercamiento cómodo. Nada sería propicio. Si uno llega a afligirse por ello, queda libre de culpa.' },
+      { position: 4, text: 'Acercamiento completo. Sin culpa.' },
+      { position: 5, text: 'Acercamiento sabio. Esto es lo justo para un gran príncipe. Ventura.' },
+      { position: 6, text: 'Acercamiento generoso. Ventura. Sin culpa.' },
+    ],
+  },
+  20: {
+    name: 'La Contemplación',
+    meaning: 'Ver, observar, ser un ejemplo',
+    judgment: 'Contemplación. La ablución se ha hecho, pero aún no la ofrenda. Llenos de confianza lo miran.',
+    image: 'El viento sopla sobre la tierra: la imagen de la Contemplación. Así los reyes de antaño visitaban las regiones del mundo.',
+    lines: [
+      { position: 1, text: 'Contemplación infantil. Para el hombre inferior, sin culpa. Para el hombre superior, humillación.' },
+      { position: 2, text: 'Contemplación por la rendija de la puerta. Es propicia la perseverancia de una mujer.' },
+      { position: 3, text: 'La contemplación de mi vida decide la elección entre avance y retirada.' },
+      { position: 4, text: 'Contemplación de la luz del reino. Es propicio ejercer influencia como huésped de un rey.' },
+      { position: 5, text: 'Contemplación de mi vida. El hombre superior queda sin culpa.' },
+      { position: 6, text: 'Contemplación de su vida. El hombre superior queda sin culpa.' },
+    ],
+  },
+  23: {
+    name: 'La Desintegración',
+    meaning: 'Decadencia, despojo, deterioro',
+    judgment: 'Desintegración. No es propicio ir a ningún lugar.',
+    image: 'La montaña descansa sobre la tierra: la imagen de la Desintegración. Así los de arriba solo pueden asegurar su posición dando generosamente a los de abajo.',
+    lines: [
+      { position: 1, text: 'Se parte la pata de la cama. Los que perseveran son destruidos. Desventura.' },
+      { position: 2, text: 'Se parte la cama por el borde. Los que perseveran son destruidos. Desventura.' },
+      { position: 3, text: 'Rompe con ellos. Sin culpa.' },
+      { position: 4, text: 'Se parte la cama hasta la piel. Desventura.' },
+      { position: 5, text: 'Un banco de peces. El favor llega por medio de las damas de la corte. Todo es propicio.' },
+      { position: 6, text: 'Queda un gran fruto sin comer. El hombre superior recibe un carruaje. La casa del hombre inferior se desintegra.' },
+    ],
+  },
+  24: {
+    name: 'El Retorno',
+    meaning: 'El punto de inflexión, renovación, volver',
+    judgment: 'Retorno. Éxito. Salir y entrar sin error. Los amigos vienen sin culpa. El camino va y viene.',
+    image: 'Trueno dentro de la tierra: la imagen del Punto de Inflexión. Así los reyes de la antigüedad cerraban los pasos en el solsticio.',
+    lines: [
+      { position: 1, text: 'Retorno desde una corta distancia. No hace falta arrepentimiento. Gran ventura.' },
+      { position: 2, text: 'Retorno sereno. Ventura.' },
+      { position: 3, text: 'Retorno repetido. Peligro. Sin culpa.' },
+      { position: 4, text: 'Caminando en medio de otros, uno retorna solo.' },
+      { position: 5, text: 'Retorno magnánimo. Sin arrepentimiento.' },
+      { position: 6, text: 'Errar el retorno. Desventura. Desgracia de dentro y de fuera. Si se ponen ejércitos en marcha de este modo, al final se sufrirá una gran derrota, desastrosa para el gobernante del país. Durante diez años no será posible atacar de nuevo.' },
+    ],
+  },
+  33: {
+    name: 'La Retirada',
+    meaning: 'Retiro, ceder, retirada estratégica',
+    judgment: 'Retirada. Éxito. En lo pequeño, la perseverancia propicia.',
+    image: 'Montaña bajo el cielo: la imagen de la Retirada. Así el hombre superior mantiene al inferior a distancia, no con ira sino con reserva.',
+    lines: [
+      { position: 1, text: 'En la cola de la retirada. Esto es peligroso. No se debe desear emprender nada.' },
+      { position: 2, text: 'Lo sujeta firmemente con cuero de buey amarillo. Nadie puede soltarlo.' },
+      { position: 3, text: 'Una retirada detenida es angustiosa y peligrosa. Retener a la gente como sirvientes y sirvientas trae ventura.' },
+      { position: 4, text: 'La retirada voluntaria trae ventura al noble y la ruina al hombre vulgar.' },
+      { position: 5, text: 'Retirada amistosa. La perseverancia trae ventura.' },
+      { position: 6, text: 'Retirada alegre. Todo es propicio.' },
+    ],
+  },
+  34: {
+    name: 'El Poder de lo Grande',
+    meaning: 'Gran fuerza, vigor, avance poderoso',
+    judgment: 'El Poder de lo Grande. La perseverancia propicia.',
+    image: 'Trueno en el cielo: la imagen del Poder de lo Grande. Así el hombre superior no pisa senderos que no concuerdan con el orden establecido.',
+    lines: [
+      { position: 1, text: 'Poder en los dedos de los pies. Seguir adelante trae desventura. Esto es ciertamente verdad.' },
+      { position: 2, text: 'La perseverancia trae ventura.' },
+      { position: 3, text: 'El hombre vulgar actúa mediante el poder. El noble no actúa así. Continuar es peligroso. Un macho cabrío embiste contra un seto y se le enredan los cuernos.' },
+      { position: 4, text: 'La perseverancia trae ventura. El arrepentimiento desaparece. El seto se abre; no hay enredo. El poder depende del eje de un gran carro.' },
+      { position: 5, text: 'Pierde la cabra con facilidad. Sin arrepentimiento.' },
+      { position: 6, text: 'Un macho cabrío embiste contra un seto. No puede retroceder, no puede avanzar. Nada es propicio. Si uno advierte la dificultad, esto trae ventura.' },
+    ],
+  },
+  43: {
+    name: 'La Resolución',
+    meaning: 'Determinación, decisión, atravesar',
+    judgment: 'Resolución. Uno debe hacer saber resueltamente el asunto en la corte del rey. Debe anunciarse con veracidad.',
+    image: 'El lago se ha elevado al cielo: la imagen de la Resolución. Así el hombre superior dispensa riquezas hacia abajo y se abstiene de descansar en su virtud.',
+    lines: [
+      { position: 1, text: 'Poderoso en los dedos del pie que avanzan. Cuando uno va y no está a la altura de la tarea, comete un error.' },
+      { position: 2, text: 'Un grito de alarma. Armas al atardecer y de noche. No temas nada.' },
+      { position: 3, text: 'Ser poderoso en los pómulos trae desventura. El noble está firmemente resuelto. Camina solo y le sorprende la lluvia. Queda salpicado y la gente murmura contra él. Sin culpa.' },
+      { position: 4, text: 'No hay piel en sus muslos, y caminar le resulta difícil. Si un hombre se dejara conducir como una oveja, el arrepentimiento desaparecería. Pero si se oyen estas palabras, no se creerán.' },
+      { position: 5, text: 'Al tratar con las malas hierbas es necesaria una firme resolución. Caminar por el medio queda libre de culpa.' },
+      { position: 6, text: 'Ningún grito. Al final llega la desventura.' },
+    ],
+  },
+  44: {
+    name: 'El Ir al Encuentro',
+    meaning: 'Encuentro, reunión, tentación',
+    judgment: 'Ir al Encuentro. La doncella es poderosa. No se debe desposar a tal doncella.',
+    image: 'Bajo el cielo, viento: la imagen del Ir al Encuentro. Así actúa el príncipe al diseminar sus mandatos y proclamarlos a los cuatro rincones del cielo.',
+    lines: [
+      { position: 1, text: 'Debe ser frenado con un freno de bronce. La perseverancia trae ventura. Si se le deja seguir su curso, se experimenta desventura. Incluso un cerdo flaco lleva en sí la capacidad de desmandarse.' },
+      { position: 2, text: 'Hay un pez en el estanque. Sin culpa. No es propicio para los huéspedes.' },
+      { position: 3, text: 'No hay piel en sus muslos, y caminar le resulta difícil. Si uno es consciente del peligro, no comete un gran error.' },
+      { position: 4, text: 'No hay pez en el estanque. Esto conduce a la desventura.' },
+      { position: 5, text: 'Un melón cubierto de hojas de sauce. Líneas ocultas. Entonces le cae a uno del cielo.' },
+      { position: 6, text: 'Sale al encuentro con sus cuernos. Humillación. Sin culpa.' },
+    ],
+  },
+  3: {
+    name: 'La Dificultad Inicial',
+    meaning: 'Lucha inicial, dolores de parto, dificultad',
+    judgment: 'La Dificultad Inicial obra éxito supremo, propiciando mediante la perseverancia. No se debe emprender nada. Propicia instalar ayudantes.',
+    image: 'Trueno y lluvia se agitan; nubes y trueno ruedan: la imagen de la Dificultad Inicial. Así el hombre superior ordena el estado confuso.',
+    lines: [
+      { position: 1, text: 'Vacilación y obstáculo. Es propicio permanecer perseverante. Es propicio designar ayudantes.' },
+      { position: 2, text: 'Las dificultades se acumulan. Caballo y carro se separan. No es un salteador; quiere cortejar cuando llegue el tiempo. La doncella es casta, no se compromete. Diez años, y entonces se compromete.' },
+      { position: 3, text: 'Quien caza ciervos sin guardabosques sólo se extravía en el bosque. El hombre superior comprende los signos del tiempo y prefiere desistir. Seguir adelante trae humillación.' },
+      { position: 4, text: 'Caballo y carro se separan. Busca la unión. Ir trae ventura. Todo es propicio.' },
+      { position: 5, text: 'Dificultades en la bendición. Un poco de perseverancia trae ventura. Una gran perseverancia trae desventura.' },
+      { position: 6, text: 'Caballo y carro se separan. Fluyen lágrimas de sangre.' },
+    ],
+  },
+  4: {
+    name: 'La Insensatez Juvenil',
+    meaning: 'Ignorancia, juventud, inexperiencia',
+    judgment: 'La Insensatez Juvenil tiene éxito. No soy yo quien busca al joven insensato; el joven insensato me busca. La perseverancia propicia.',
+    image: 'Un manantial que brota de la montaña: la imagen de la Insensatez Juvenil. Así el hombre superior desarrolla su carácter mediante la minuciosidad en todo lo que hace.',
+    lines: [
+      { position: 1, text: 'Para desarrollar al insensato es propicio aplicar disciplina. Hay que quitar los grilletes. Continuar así trae humillación.' },
+      { position: 2, text: 'Soportar a los insensatos con bondad trae ventura. Saber tomar mujer trae ventura. El hijo es capaz de hacerse cargo del hogar.' },
+      { position: 3, text: 'No tomes una doncella que, al ver a un hombre de bronce, pierde el dominio de sí. Nada es propicio.' },
+      { position: 4, text: 'La insensatez enredada trae humillación.' },
+      { position: 5, text: 'La insensatez infantil trae ventura.' },
+      { position: 6, text: 'Al castigar la insensatez no es propicio cometer transgresiones. Lo único propicio es prevenir las transgresiones.' },
+    ],
+  },
+  5: {
+    name: 'La Espera',
+    meaning: 'Nutrición, paciencia, tiempo favorable',
+    judgment: 'Espera. Si eres sincero, tienes luz y éxito. La perseverancia trae buena fortuna. Ir al encuentro del gran hombre trae buena fortuna.',
+    image: 'Las nubes se elevan hacia el cielo: la imagen de la Espera. Así el hombre superior come y bebe, descansa y se divierte.',
+    lines: [
+      { position: 1, text: 'Espera en la pradera. Es propicio permanecer en lo que perdura. Sin culpa.' },
+      { position: 2, text: 'Espera en la arena. Hay algunas habladurías. El final trae ventura.' },
+      { position: 3, text: 'Esperar en el lodo provoca la llegada del enemigo.' },
+      { position: 4, text: 'Espera en la sangre. Sal del hoyo.' },
+      { position: 5, text: 'Espera ante el vino y la comida. La perseverancia trae ventura.' },
+      { position: 6, text: 'Uno cae en el hoyo. Llegan tres huéspedes no invitados. Hónralos y al final habrá ventura.' },
+    ],
+  },
+  6: {
+    name: 'El Conflicto',
+    meaning: 'Litigio, discordia, contienda',
+    judgment: 'Conflicto. Eres sincero pero estás obstruido. Una parada cautelosa a mitad del camino trae buena fortuna. Ir hasta el final trae desgracia.',
+    image: 'Cielo y agua van en direcciones opuestas: la imagen del Conflicto. Así el hombre superior considera cuidadosamente el comienzo.',
+    lines: [
+      { position: 1, text: 'Si uno no perpetúa el asunto, hay algunas habladurías. Al final llega la ventura.' },
+      { position: 2, text: 'Uno no puede entablar el conflicto; vuelve a casa y cede. La gente de su ciudad, trescientos hogares, queda libre de culpa.' },
+      { position: 3, text: 'Alimentarse de la virtud antigua induce a la perseverancia. Peligro. Al final llega la ventura. Si por azar estás al servicio de un rey, no busques obras.' },
+      { position: 4, text: 'Uno no puede entablar el conflicto. Se vuelve y se somete al destino, cambia de actitud y halla paz en la perseverancia. Ventura.' },
+      { position: 5, text: 'Litigar ante él trae elevada ventura.' },
+      { position: 6, text: 'Aunque por azar se le conceda a uno un cinturón de cuero, antes de acabar la mañana se lo habrán arrebatado tres veces.' },
+    ],
+  },
+  7: {
+    name: 'El Ejército',
+    meaning: 'Tropas, disciplina militar, legalidad',
+    judgment: 'El Ejército. El ejército necesita perseverancia y un hombre fuerte. Buena fortuna sin culpa.',
+    image: 'En medio de la tierra hay agua: la imagen del Ejército. Así el hombre superior aumenta sus masas con generosidad hacia el pueblo.',
+    lines: [
+      { position: 1, text: 'Un ejército debe partir en el orden debido. Si el orden no es bueno, amenaza la desventura.' },
+      { position: 2, text: 'En medio del ejército. Ventura. Sin culpa. El rey otorga una triple condecoración.' },
+      { position: 3, text: 'Quizá el ejército lleva cadáveres en el carro. Desventura.' },
+      { position: 4, text: 'El ejército se retira. Sin culpa.' },
+      { position: 5, text: 'Hay caza en el campo. Es propicio atraparla. Sin culpa. Que el mayor dirija el ejército. El menor transporta cadáveres; entonces la perseverancia trae desventura.' },
+      { position: 6, text: 'El gran príncipe da órdenes, funda estados, confiere feudos a las familias. No deben emplearse personas inferiores.' },
+    ],
+  },
+  8: {
+    name: 'La Unión',
+    meaning: 'Unión, alianza, lealtad',
+    judgment: 'Unión trae buena fortuna. Pero si el hombre equivocado sostiene la reunión, nada sirve para avanzar.',
+    image: 'Sobre la tierra hay agua: la imagen de la Unión. Así los reyes de la antigüedad otorgaban feudos a los príncipes.',
+    lines: [
+      { position: 1, text: 'Mantente unido a él con verdad y lealtad; esto no es culpa. La verdad, como un cuenco de barro lleno: así al final la ventura viene de fuera.' },
+      { position: 2, text: 'Mantente unido a él interiormente. La perseverancia trae ventura.' },
+      { position: 3, text: 'Te unes a la gente equivocada.' },
+      { position: 4, text: 'Mantente unido a él también exteriormente. La perseverancia trae ventura.' },
+      { position: 5, text: 'Manifestación de la unión. En la cacería el rey usa batidores sólo por tres lados y renuncia a la caza que huye por delante. Los ciudadanos no necesitan advertencia. Ventura.' },
+      { position: 6, text: 'No encuentra cabeza para la unión. Desventura.' },
+    ],
+  },
+  9: {
+    name: 'El Poder Domesticador de lo Pequeño',
+    meaning: 'Restricción, acumulación, influencia sutil',
+    judgment: 'El Poder Domesticador de lo Pequeño tiene éxito. Nubes densas, sin lluvia de nuestra región occidental.',
+    image: 'El viento sopla sobre el cielo: la imagen del Poder Domesticador de lo Pequeño. Así el hombre superior refina el aspecto exterior de su naturaleza.',
+    lines: [
+      { position: 1, text: 'Retorno al camino. ¿Cómo podría haber culpa en esto? Ventura.' },
+      { position: 2, text: 'Se deja arrastrar al retorno. Ventura.' },
+      { position: 3, text: 'Los rayos saltan de las ruedas del carro. Marido y mujer se miran con enojo.' },
+      { position: 4, text: 'Si eres sincero, la sangre se desvanece y el temor cede. Sin culpa.' },
+      { position: 5, text: 'Si eres sincero y lealmente unido, eres rico en tu prójimo.' },
+      { position: 6, text: 'Llega la lluvia, hay descanso. Se debe al efecto duradero del carácter. La perseverancia pone a la mujer en peligro. La luna está casi llena. Si el hombre superior persiste, llega la desventura.' },
+    ],
+  },
+  10: {
+    name: 'El Paso Firme',
+    meaning: 'Caminar, conducta, propiedad',
+    judgment: 'Paso Firme. Pisar la cola del tigre. No muerde al hombre. Éxito.',
+    image: 'Cielo arriba, lago abajo: la imagen del Paso Firme. Así el hombre superior discrimina entre alto y bajo.',
+    lines: [
+      { position: 1, text: 'Conducta sencilla. Progreso sin culpa.' },
+      { position: 2, text: 'Recorrer un camino llano y liso. La perseverancia de un hombre retirado trae ventura.' },
+      { position: 3, text: 'Un tuerto puede ver, un cojo puede caminar. Pisa la cola del tigre. El tigre muerde al hombre. Desventura. Así actúa un guerrero en nombre de su gran príncipe.' },
+      { position: 4, text: 'Pisa la cola del tigre. La cautela y la circunspección llevan finalmente a la ventura.' },
+      { position: 5, text: 'Conducta resuelta. Perseverancia consciente del peligro.' },
+      { position: 6, text: 'Observa tu conducta y pondera los signos favorables. Cuando todo se cumple, llega la elevada ventura.' },
+    ],
+  },
+  13: {
+    name: 'Comunidad con los Hombres',
+    meaning: 'Comunidad, unidad, hermandad',
+    judgment: 'Comunidad con los Hombres en lo abierto. Éxito. Propicia cruzar la gran agua.',
+    image: 'Cielo junto con fuego: la imagen de Comunidad con los Hombres. Así el hombre superior organiza los clanes.',
+    lines: [
+      { position: 1, text: 'Comunidad con los hombres a la puerta. Sin culpa.' },
+      { position: 2, text: 'Comunidad con los hombres en el clan. Humillación.' },
+      { position: 3, text: 'Oculta armas en la espesura; sube a la colina alta que está delante. Durante tres años no se levanta.' },
+      { position: 4, text: 'Sube a su muralla; no puede atacar. Ventura.' },
+      { position: 5, text: 'Los hombres unidos en comunidad primero lloran y se lamentan, pero después ríen. Tras grandes luchas logran encontrarse.' },
+      { position: 6, text: 'Comunidad con los hombres en la pradera. Sin arrepentimiento.' },
+    ],
+  },
+  14: {
+    name: 'Posesión en Gran Medida',
+    meaning: 'Gran abundancia, riqueza, confianza',
+    judgment: 'Posesión en Gran Medida. Éxito supremo.',
+    image: 'Fuego en el cielo arriba: la imagen de Posesión en Gran Medida. Así el hombre superior frena el mal y propicia el bien.',
+    lines: [
+      { position: 1, text: 'Ninguna relación con lo dañino; en esto no hay culpa. Si uno permanece consciente de la dificultad, queda sin culpa.' },
+      { position: 2, text: 'Un gran carro para cargar. Se puede emprender algo. Sin culpa.' },
+      { position: 3, text: 'Un príncipe lo ofrece al Hijo del Cielo. Un hombre mezquino no puede hacer esto.' },
+      { position: 4, text: 'Establece una diferencia entre sí mismo y su vecino. Sin culpa.' },
+      { position: 5, text: 'Quien tiene una verdad accesible y a la vez digna tiene ventura.' },
+      { position: 6, text: 'Es bendecido por el cielo. Ventura. Nada que no sea propicio.' },
+    ],
+  },
+  15: {
+    name: 'La Modestia',
+    meaning: 'Humildad, restricción, cedencia',
+    judgment: 'Modestia crea éxito. El hombre superior lleva las cosas a conclusión.',
+    image: 'Dentro de la tierra, una montaña: la imagen de la Modestia. Así el hombre superior reduce lo excesivo y aumenta lo insuficiente.',
+    lines: [
+      { position: 1, text: 'Un hombre superior modesto en su modestia puede cruzar las grandes aguas. Ventura.' },
+      { position: 2, text: 'Modestia que llega a expresarse. La perseverancia trae ventura.' },
+      { position: 3, text: 'Un hombre superior de modestia y mérito lleva las cosas a término. Ventura.' },
+      { position: 4, text: 'Nada que no favorezca la modestia en movimiento.' },
+      { position: 5, text: 'No jactarse de la riqueza ante el vecino. Es propicio atacar con fuerza. Nada que no sea propicio.' },
+      { position: 6, text: 'Modestia que llega a expresarse. Es propicio poner en marcha ejércitos para castigar la propia ciudad y el propio país.' },
+    ],
+  },
+  16: {
+    name: 'El Entusiasmo',
+    meaning: 'Alegría, disposición, armonía',
+    judgment: 'Entusiasmo. Propicia instalar príncipes feudales y poner el ejército en marcha.',
+    image: 'Trueno en la tierra: la imagen del Entusiasmo. Así los reyes antiguos hicieron música para promover la armonía.',
+    lines: [
+      { position: 1, text: 'El entusiasmo que se expresa trae desventura.' },
+      { position: 2, text: 'Firme como una roca. No un día entero. La perseverancia trae ventura.' },
+      { position: 3, text: 'El entusiasmo que mira hacia arriba crea arrepentimiento. La vacilación trae arrepentimiento.' },
+      { position: 4, text: 'La fuente del entusiasmo. Logra grandes cosas. No dudes. Reúnes amigos a tu alrededor como un broche reúne el cabello.' },
+      { position: 5, text: 'Enfermo persistentemente, y aún no muere.' },
+      { position: 6, text: 'Entusiasmo engañado. Pero si tras la consumación uno cambia, no hay culpa.' },
+    ],
+  },
+  17: {
+    name: 'Seguimiento',
+    meaning: 'Seguir, obediencia, flexibilidad',
+    judgment: 'Seguimiento crea éxito supremo. La perseverancia que propicia trae recompensa.',
+    image: 'El trueno sigue al relámpago: la imagen de Seguimiento. Así el hombre superior entra en el reino del descanso.',
+    lines: [
+      { position: 1, text: 'El criterio cambia. La perseverancia trae ventura. Salir por la puerta en compañía produce obras.' },
+      { position: 2, text: 'Si uno se aferra al muchacho, pierde al hombre fuerte.' },
+      { position: 3, text: 'Si uno se aferra al hombre fuerte, pierde al muchacho. Siguiendo se halla lo que se busca. Es propicio permanecer perseverante.' },
+      { position: 4, text: 'El seguimiento crea éxito. La perseverancia trae desventura. Seguir el propio camino con sinceridad trae claridad. ¿Cómo podría haber culpa en esto?' },
+      { position: 5, text: 'Sincero en lo bueno. Ventura.' },
+      { position: 6, text: 'Encuentra una firme lealtad y queda aún más atado. El rey lo presenta ante la Montaña del Oeste.' },
+    ],
+  },
+  18: {
+    name: 'Trabajo en lo Que Ha Sido Arruinado',
+    meaning: 'Decadencia, restauración, eliminación de podredumbre',
+    judgment: 'Trabajo en lo Que Ha Sido Arruinado crea éxito supremo. Propicia cruzar la gran agua.',
+    image: 'El viento soplando bajo la montaña: la imagen de Trabajo en lo Que Ha Sido Arruinado. Así el hombre superior incita al pueblo y fortalece su virtud.',
+    lines: [
+      { position: 1, text: 'Enmendar lo que el padre ha echado a perder. Si hay un hijo, no recae culpa sobre el padre difunto. Peligro. Al final ventura.' },
+      { position: 2, text: 'Enmendar lo que la madre ha echado a perder. No hay que ser demasiado perseverante.' },
+      { position: 3, text: 'Enmendar lo que el padre ha echado a perder. Habrá un poco de arrepentimiento. Ninguna gran culpa.' },
+      { position: 4, text: 'Tolerar lo que el padre ha echado a perder. Si se continúa, se ve humillación.' },
+      { position: 5, text: 'Enmendar lo que el padre ha echado a perder. Se encuentra elogio.' },
+      { position: 6, text: 'No sirve a reyes ni príncipes; se fija metas más altas.' },
+    ],
+  },
+  21: {
+    name: 'Mordedura a Través',
+    meaning: 'Determinación, eliminación de obstáculos, decisión',
+    judgment: 'Mordedura a Través crea éxito. Es favorable imponer penas.',
+    image: 'Trueno y relámpago: la imagen de Mordedura a Través. Así los reyes de tiempos anteriores hicieron firme las leyes.',
+    lines: [
+      { position: 1, text: 'Sus pies están sujetos en el cepo, de modo que desaparecen sus dedos. Sin culpa.' },
+      { position: 2, text: 'Muerde carne tierna, de modo que desaparece su nariz. Sin culpa.' },
+      { position: 3, text: 'Muerde carne vieja y seca y da con algo venenoso. Leve humillación. Sin culpa.' },
+      { position: 4, text: 'Muerde carne seca con cartílago. Recibe flechas de metal. Es propicio tener presentes las dificultades y ser perseverante. Ventura.' },
+      { position: 5, text: 'Muerde carne magra y seca. Recibe oro amarillo. Perseverante y consciente del peligro. Sin culpa.' },
+      { position: 6, text: 'Su cuello está sujeto en la canga de madera, de modo que desaparecen sus orejas. Desventura.' },
+    ],
+  },
+  22: {
+    name: 'La Gracia',
+    meaning: 'Belleza, decoración, adorno',
+    judgment: 'Gracia tiene éxito. En pequeños asuntos es favorable tener adónde ir.',
+    image: 'Fuego se adhiere a la montaña: la imagen de la Gracia. Así el hombre superior ilumina los asuntos del mundo.',
+    lines: [
+      { position: 1, text: 'Da gracia a sus dedos, deja el carruaje y camina.' },
+      { position: 2, text: 'Da gracia a la barba de su mentón.' },
+      { position: 3, text: 'Grácil y húmedo. La perseverancia constante trae ventura.' },
+      { position: 4, text: '¿Gracia o sencillez? Un caballo blanco llega como con alas. No es un salteador; cortejará en el momento oportuno.' },
+      { position: 5, text: 'Gracia en colinas y jardines. El rollo de seda es pobre y pequeño. Humillación, pero al final ventura.' },
+      { position: 6, text: 'Gracia sencilla. Sin culpa.' },
+    ],
+  },
+  25: {
+    name: 'La Inocencia',
+    meaning: 'Ingenuidad, integridad, espontaneidad',
+    judgment: 'Inocencia. Éxito supremo. La perseverancia propicia.',
+    image: 'El trueno rueda bajo el cielo: la imagen de la Inocencia. Así los reyes de antaño, ricos en virtud, cultivaban el bien.',
+    lines: [
+      { position: 1, text: 'La conducta inocente trae ventura.' },
+      { position: 2, text: 'Si uno no cuenta con la cosecha al arar, ni con el uso del terreno al desbrozarlo, es propicio emprender algo.' },
+      { position: 3, text: 'Desgracia inmerecida. La vaca que alguien ató es ganancia del caminante y pérdida del ciudadano.' },
+      { position: 4, text: 'Quien puede perseverar queda sin culpa.' },
+      { position: 5, text: 'No uses medicina en una enfermedad contraída sin culpa propia. Pasará por sí sola.' },
+      { position: 6, text: 'La acción inocente trae desventura. Nada es propicio.' },
+    ],
+  },
+  26: {
+    name: 'El Poder Domesticador de lo Grande',
+    meaning: 'Acumulación de poder, disciplina, restricción',
+    judgment: 'El Poder Domesticador de lo Grande. La perseverancia propicia. No come en casa. Buena fortuna.',
+    image: 'Cielo dentro de la montaña: la imagen del Poder Domesticador de lo Grande. Así el hombre superior acumula muchos dichos y hechos del pasado para fortalecer su carácter.',
+    lines: [
+      { position: 1, text: 'El peligro está cerca. Es propicio desistir.' },
+      { position: 2, text: 'Se quitan los ejes del carro.' },
+      { position: 3, text: 'Un buen caballo que sigue a otros. La conciencia del peligro, con perseverancia, es propicia. Practica a diario la conducción del carro y la defensa armada. Es propicio tener adónde ir.' },
+      { position: 4, text: 'La tabla protectora de un toro joven. Gran ventura.' },
+      { position: 5, text: 'El colmillo de un jabalí castrado. Ventura.' },
+      { position: 6, text: 'Se alcanza el camino del cielo. Éxito.' },
+    ],
+  },
+  27: {
+    name: 'Las Esquinas de la Boca',
+    meaning: 'Nutrición, provisión, sustento',
+    judgment: 'Las Esquinas de la Boca. La perseverancia trae buena fortuna. Presta atención a la provisión de nutrición.',
+    image: 'Trueno debajo, montaña arriba: la imagen de Provisión de Nutrición. Así el hombre superior es cuidadoso con sus palabras y moderado en el comer y beber.',
+    lines: [
+      { position: 1, text: 'Dejas ir a tu tortuga mágica y me miras con las comisuras de la boca caídas. Desventura.' },
+      { position: 2, text: 'Volverse a la cumbre en busca de alimento, desviarse del camino para buscar alimento en la colina. Seguir así trae desventura.' },
+      { position: 3, text: 'Apartarse del alimento. La perseverancia trae desventura. No actúes así durante diez años. Nada es propicio.' },
+      { position: 4, text: 'Volverse a la cumbre en busca de alimento trae ventura. Acechar con ojos agudos como un tigre de ansia insaciable. Sin culpa.' },
+      { position: 5, text: 'Apartarse del camino. Permanecer perseverante trae ventura. No se debe cruzar las grandes aguas.' },
+      { position: 6, text: 'La fuente del alimento. La conciencia del peligro trae ventura. Es propicio cruzar las grandes aguas.' },
+    ],
+  },
+  28: {
+    name: 'Preponderancia de lo Grande',
+    meaning: 'Exceso, extremidad, desequilibrio',
+    judgment: 'Preponderancia de lo Grande. La viga se cede al punto de ruptura. Propicia tener adónde ir.',
+    image: 'El lago desborda la madera: la imagen de Preponderancia de lo Grande. Así el hombre superior se mantiene solo sin temor y se retira del mundo sin pena.',
+    lines: [
+      { position: 1, text: 'Extender juncos blancos debajo. Sin culpa.' },
+      { position: 2, text: 'Un álamo seco brota en la raíz. Un hombre mayor toma una esposa joven. Todo es propicio.' },
+      { position: 3, text: 'La viga maestra se comba hasta romperse. Desventura.' },
+      { position: 4, text: 'La viga maestra se apuntala. Ventura. Si hay segundas intenciones, es humillante.' },
+      { position: 5, text: 'Un álamo marchito echa flores. Una mujer mayor toma marido. Sin culpa. Sin elogio.' },
+      { position: 6, text: 'Hay que atravesar el agua. Cubre la cabeza. Desventura. Sin culpa.' },
+    ],
+  },
+  29: {
+    name: 'El Abismo',
+    meaning: 'Peligro, agua que fluye, profundidad',
+    judgment: 'El Abismo repetido. Si eres sincero, tienes éxito en tu corazón.',
+    image: 'El agua fluye continuamente y alcanza su meta: la imagen del Abismo repetido. Así el hombre superior camina en virtud duradera y prosigue la obra de enseñar.',
+    lines: [
+      { position: 1, text: 'Repetición de lo Abismal. En el abismo uno cae en un hoyo. Desventura.' },
+      { position: 2, text: 'El abismo es peligroso. Hay que esforzarse en alcanzar sólo cosas pequeñas.' },
+      { position: 3, text: 'Adelante y atrás, abismo sobre abismo. En un peligro así, detente primero y espera; de lo contrario caerás en un hoyo del abismo. No actúes así.' },
+      { position: 4, text: 'Un jarro de vino, un cuenco de arroz con él; vasijas de barro entregadas simplemente por la ventana. Ciertamente no hay culpa en esto.' },
+      { position: 5, text: 'El abismo no se llena hasta rebosar; se llena sólo hasta el borde. Sin culpa.' },
+      { position: 6, text: 'Atado con cuerdas y sogas, encerrado entre muros de prisión cercados de espinos: durante tres años no se halla el camino. Desventura.' },
+    ],
+  },
+  30: {
+    name: 'Lo que se Adhiere',
+    meaning: 'Fuego, iluminación, claridad',
+    judgment: 'Lo que se Adhiere. La perseverancia propicia. Trae éxito. El cuidado de la vaca trae buena fortuna.',
+    image: 'Lo que es brillante se alza dos veces: la imagen de Lo que se Adhiere. Así el gran hombre, reforzando perpetuamente su luminosidad, ilumina el mundo.',
+    lines: [
+      { position: 1, text: 'Las huellas se entrecruzan. Si uno tiene una intención seria, sin culpa.' },
+      { position: 2, text: 'Luz amarilla. Elevada ventura.' },
+      { position: 3, text: 'A la luz del sol poniente, los hombres o bien golpean la olla y cantan, o bien lamentan a gritos la llegada de la vejez. Desventura.' },
+      { position: 4, text: 'Su llegada es repentina; arde, se apaga, es desechado.' },
+      { position: 5, text: 'Lágrimas a raudales, suspiros y lamentos. Ventura.' },
+      { position: 6, text: 'El rey lo emplea para salir a castigar. Entonces lo mejor es matar a los cabecillas y tomar cautivos a los seguidores. Sin culpa.' },
+    ],
+  },
+  31: {
+    name: 'La Influencia',
+    meaning: 'Atracción, cortejo, acción recíproca',
+    judgment: 'Influencia. Éxito. La perseverancia propicia. Propicia tomar una doncella como esposa.',
+    image: 'Un lago en la montaña: la imagen de la Influencia. Así el hombre superior anima a la gente a acercarse.',
+    lines: [
+      { position: 1, text: 'La influencia se muestra en el dedo gordo del pie.' },
+      { position: 2, text: 'La influencia se muestra en las pantorrillas. Desventura. Demorarse trae ventura.' },
+      { position: 3, text: 'La influencia se muestra en los muslos. Se aferra a lo que le sigue. Continuar es humillante.' },
+      { position: 4, text: 'La perseverancia trae ventura. El arrepentimiento desaparece. Si un hombre está agitado y sus pensamientos van de aquí para allá, sólo le seguirán los amigos en quienes fija sus pensamientos conscientes.' },
+      { position: 5, text: 'La influencia se muestra en la nuca. Sin arrepentimiento.' },
+      { position: 6, text: 'La influencia se muestra en las mandíbulas, las mejillas y la lengua.' },
+    ],
+  },
+  32: {
+    name: 'La Duración',
+    meaning: 'Constancia, persistencia, continuidad',
+    judgment: 'Duración. Éxito. Sin culpa. La perseverancia propicia.',
+    image: 'Trueno y viento: la imagen de la Duración. Así el hombre superior se mantiene firme.',
+    lines: [
+      { position: 1, text: 'Buscar la duración con demasiada prisa trae desventura persistente. Nada sería propicio.' },
+      { position: 2, text: 'El arrepentimiento desaparece.' },
+      { position: 3, text: 'Quien no da duración a su carácter encuentra deshonra. Humillación persistente.' },
+      { position: 4, text: 'No hay caza en el campo.' },
+      { position: 5, text: 'Dar duración al propio carácter mediante la perseverancia. Esto es ventura para una mujer, desventura para un hombre.' },
+      { position: 6, text: 'La inquietud como condición duradera trae desventura.' },
+    ],
+  },
+  35: {
+    name: 'El Progreso',
+    meaning: 'Avance, promoción, movimiento hacia arriba',
+    judgment: 'Progreso. El caballo poderoso es émulo. Propicia avanzar en cualquier dirección.',
+    image: 'El sol se eleva sobre la tierra: la imagen del Progreso. Así el hombre superior ilumina su virtud luminosa.',
+    lines: [
+      { position: 1, text: 'Progresar, pero ser rechazado. La perseverancia trae ventura. Si uno no encuentra confianza, debe permanecer sereno. Sin error.' },
+      { position: 2, text: 'Progresar, pero con pesar. La perseverancia trae ventura. Entonces se obtiene gran dicha de la antepasada.' },
+      { position: 3, text: 'Todos están de acuerdo. El arrepentimiento desaparece.' },
+      { position: 4, text: 'Progresar como un hámster. La perseverancia trae peligro.' },
+      { position: 5, text: 'El arrepentimiento desaparece. No tomes a pecho la ganancia y la pérdida. Las empresas traen ventura. Todo es propicio.' },
+      { position: 6, text: 'Progresar con los cuernos sólo es lícito para castigar a la propia ciudad. Ser consciente del peligro trae ventura. Sin culpa. La perseverancia trae humillación.' },
+    ],
+  },
+  36: {
+    name: 'Oscurecimiento de la Luz',
+    meaning: 'Oscurecimiento, adversidad, virtud oculta',
+    judgment: 'Oscurecimiento de la Luz. En la adversidad conviene la perseverancia.',
+    image: 'La luz se ha hundido en la tierra: la imagen del Oscurecimiento de la Luz. Así vive el hombre superior con la gran masa: vela su luz pero aún brilla.',
+    lines: [
+      { position: 1, text: 'Oscurecimiento de la luz durante el vuelo. Baja las alas. El noble no come durante tres días en su peregrinar. Pero tiene adónde ir. El anfitrión tiene ocasión de murmurar sobre él.' },
+      { position: 2, text: 'El oscurecimiento de la luz lo hiere en el muslo izquierdo. Presta ayuda con la fuerza de un caballo. Ventura.' },
+      { position: 3, text: 'Oscurecimiento de la luz durante la cacería en el sur. Se captura a su gran caudillo. No se debe esperar la perseverancia demasiado pronto.' },
+      { position: 4, text: 'Penetra en el lado izquierdo del vientre. Se llega al corazón mismo del oscurecimiento de la luz y se abandona la puerta y el patio.' },
+      { position: 5, text: 'Oscurecimiento de la luz como en el caso del príncipe Chi. La perseverancia es propicia.' },
+      { position: 6, text: 'No luz sino oscuridad. Primero subió al cielo, luego se hundió en las profundidades de la tierra.' },
+    ],
+  },
+  37: {
+    name: 'La Familia',
+    meaning: 'Hogar, relaciones, fundamento',
+    judgment: 'La Familia. Es favorable que la mujer sea firme y correcta.',
+    image: 'El viento se alza del fuego: la imagen de la Familia. Así el hombre superior tiene sustancia en sus palabras y constancia en sus acciones.',
+    lines: [
+      { position: 1, text: 'Firme reclusión dentro de la familia. El arrepentimiento desaparece.' },
+      { position: 2, text: 'No debe seguir sus caprichos. Debe ocuparse dentro de la comida. La perseverancia trae ventura.' },
+      { position: 3, text: 'Cuando los ánimos se encienden en la familia, la excesiva severidad trae arrepentimiento. Ventura no obstante. Cuando mujer e hijos retozan y ríen, ello conduce al final a la humillación.' },
+      { position: 4, text: 'Ella es el tesoro de la casa. Gran ventura.' },
+      { position: 5, text: 'Como rey se acerca a su familia. No temas. Ventura.' },
+      { position: 6, text: 'Su obra inspira respeto. Al final llega la ventura.' },
+    ],
+  },
+  38: {
+    name: 'La Oposición',
+    meaning: 'Divergencia, separación, incomprensión',
+    judgment: 'Oposición. En pequeños asuntos, buena fortuna.',
+    image: 'Fuego arriba, lago abajo: la imagen de la Oposición. Así en toda compañía el hombre superior retiene su individualidad.',
+    lines: [
+      { position: 1, text: 'El arrepentimiento desaparece. Si pierdes tu caballo, no corras tras él; volverá por sí solo. Cuando veas gente mala, guárdate de errores.' },
+      { position: 2, text: 'Uno encuentra a su señor en una callejuela. Sin culpa.' },
+      { position: 3, text: 'Uno ve el carro arrastrado hacia atrás, los bueyes detenidos, el cabello y la nariz de un hombre cortados. No es un buen comienzo, pero sí un buen final.' },
+      { position: 4, text: 'Aislado por la oposición, uno encuentra a un hombre afín con quien puede asociarse de buena fe. Pese al peligro, sin culpa.' },
+      { position: 5, text: 'El arrepentimiento desaparece. El compañero se abre paso mordiendo a través de las envolturas. Si uno va hacia él, ¿cómo podría ser un error?' },
+      { position: 6, text: 'Aislado por la oposición, uno ve a su compañero como un cerdo cubierto de barro, como un carro lleno de demonios. Primero tiende el arco contra él, luego lo deja a un lado. No es un bandido; cortejará en el momento oportuno. Al avanzar cae la lluvia; entonces llega la ventura.' },
+    ],
+  },
+  39: {
+    name: 'La Obstrucción',
+    meaning: 'Dificultad, parada, estancamiento',
+    judgment: 'Obstrucción. El suroeste propicia. El noreste no propicia. Propicia ver al gran hombre.',
+    image: 'Agua en la montaña: la imagen de la Obstrucción. Así el hombre superior vuelve su atención hacia dentro y cultiva su carácter.',
+    lines: [
+      { position: 1, text: 'Ir conduce a obstáculos; venir encuentra elogio.' },
+      { position: 2, text: 'El servidor del rey se ve acosado por obstáculo tras obstáculo, pero no es por culpa suya.' },
+      { position: 3, text: 'Ir conduce a obstáculos; por eso vuelve.' },
+      { position: 4, text: 'Ir conduce a obstáculos; venir conduce a la unión.' },
+      { position: 5, text: 'En medio de los mayores obstáculos vienen los amigos.' },
+      { position: 6, text: 'Ir conduce a obstáculos; venir conduce a gran ventura. Es propicio ver al gran hombre.' },
+    ],
+  },
+  40: {
+    name: 'La Liberación',
+    meaning: 'Liberación, emancipación, solución',
+    judgment: 'Liberación. El suroeste propicia. Si no hay adónde ir, el regreso trae buena fortuna.',
+    image: 'Trueno y lluvia se instalan: la imagen de la Liberación. Así el hombre superior perdona errores y trata con gentileza las faltas.',
+    lines: [
+      { position: 1, text: 'Sin culpa.' },
+      { position: 2, text: 'Uno mata tres zorros en el campo y recibe una flecha amarilla. La perseverancia trae ventura.' },
+      { position: 3, text: 'Si un hombre lleva una carga a cuestas y, no obstante, viaja en carruaje, atrae a los bandidos. La perseverancia conduce a la humillación.' },
+      { position: 4, text: 'Libérate de tu dedo gordo. Entonces viene el compañero, y en él puedes confiar.' },
+      { position: 5, text: 'Si el noble puede liberarse, ello trae ventura. Así demuestra a los hombres vulgares que va en serio.' },
+      { position: 6, text: 'El príncipe dispara contra un halcón sobre una alta muralla. Lo abate. Todo es propicio.' },
+    ],
+  },
+  41: {
+    name: 'La Disminución',
+    meaning: 'Reducción, sacrificio, eliminación',
+    judgment: 'Disminución combinada con sinceridad trae suprema buena fortuna sin culpa.',
+    image: 'El lago al pie de la montaña: la imagen de la Disminución. Así el hombre superior frena su ira y restringe sus instintos.',
+    lines: [
+      { position: 1, text: 'Ir rápidamente cuando se han terminado las tareas es sin culpa. Pero hay que reflexionar cuánto se puede disminuir a otros.' },
+      { position: 2, text: 'La perseverancia es propicia. Emprender algo trae desventura. Sin disminuirse uno mismo, se puede aumentar a los demás.' },
+      { position: 3, text: 'Cuando tres personas viajan juntas, su número disminuye en uno. Cuando un hombre viaja solo, encuentra un compañero.' },
+      { position: 4, text: 'Si un hombre disminuye sus faltas, hace que el otro se apresure a venir y se alegre. Sin culpa.' },
+      { position: 5, text: 'Alguien lo aumenta ciertamente. Diez pares de tortugas no pueden oponerse. Elevada ventura.' },
+      { position: 6, text: 'Si uno es aumentado sin privar a otros, no hay culpa. La perseverancia trae ventura. Es propicio emprender algo. Se obtienen servidores, pero ya no se tiene un hogar aparte.' },
+    ],
+  },
+  42: {
+    name: 'El Aumento',
+    meaning: 'Expansión, crecimiento, avance',
+    judgment: 'Aumento. Propicia emprender algo. Propicia cruzar la gran agua.',
+    image: 'Viento y trueno: la imagen del Aumento. Así el hombre superior cuando ve bien en otros, les presta ayuda; cuando ve falta en sí mismo, la enmienda.',
+    lines: [
+      { position: 1, text: 'Es propicio realizar grandes obras. Elevada ventura. Sin culpa.' },
+      { position: 2, text: 'Alguien lo aumenta ciertamente; diez pares de tortugas no pueden oponerse. La perseverancia constante trae ventura. El rey lo presenta ante Dios. Ventura.' },
+      { position: 3, text: 'Uno se enriquece mediante sucesos desafortunados. Sin culpa, si eres sincero, caminas por el medio e informas al príncipe con un sello.' },
+      { position: 4, text: 'Si caminas por el medio e informas al príncipe, él te seguirá. Es propicio ser empleado en el traslado de la capital.' },
+      { position: 5, text: 'Si en verdad tienes un corazón bondadoso, no preguntes. Elevada ventura. En verdad, la bondad será reconocida como tu virtud.' },
+      { position: 6, text: 'No aporta aumento a nadie. En efecto, alguien incluso lo golpea. No mantiene su corazón constantemente firme. Desventura.' },
+    ],
+  },
+  45: {
+    name: 'Reunión',
+    meaning: 'Asamblea, convocatoria, colección',
+    judgment: 'Reunión. Éxito. El rey se acerca a su templo. Propicia ver al gran hombre.',
+    image: 'Sobre la tierra, el lago: la imagen de la Reunión. Así el hombre superior ordena sus armas.',
+    lines: [
+      { position: 1, text: 'Si eres sincero, pero no hasta el final, habrá a veces confusión, a veces reunión. Si llamas, después de un apretón de manos podrás volver a reír. No te lamentes. Ir es sin culpa.' },
+      { position: 2, text: 'Dejarse atraer trae ventura y queda sin culpa. Si uno es sincero, es propicio llevar incluso una pequeña ofrenda.' },
+      { position: 3, text: 'Reunión entre suspiros. Nada sería propicio. Ir es sin culpa. Leve humillación.' },
+      { position: 4, text: 'Gran ventura. Sin culpa.' },
+      { position: 5, text: 'Si en la reunión uno tiene posición, esto no trae culpa. Si hay algunos que aún no están sinceramente en la obra, se necesita una perseverancia sublime y duradera. Entonces el arrepentimiento desaparece.' },
+      { position: 6, text: 'Lamentos y suspiros, lágrimas a raudales. Sin culpa.' },
+    ],
+  },
+  46: {
+    name: 'Empuje Hacia Arriba',
+    meaning: 'Ascenso, elevación, promoción',
+    judgment: 'Empuje Hacia Arriba tiene éxito supremo. Se debe ver al gran hombre. No dejes que el miedo gobierne.',
+    image: 'Dentro de la tierra, la madera crece: la imagen del Empuje Hacia Arriba. Así el hombre superior de carácter devoto acumula pequeñas cosas para alcanzar algo alto y grande.',
+    lines: [
+      { position: 1, text: 'El ascenso que encuentra confianza trae gran ventura.' },
+      { position: 2, text: 'Si uno es sincero, es propicio llevar incluso una pequeña ofrenda. Sin culpa.' },
+      { position: 3, text: 'Uno asciende a una ciudad vacía.' },
+      { position: 4, text: 'El rey le ofrece el monte Ch\'i. Ventura. Sin culpa.' },
+      { position: 5, text: 'La perseverancia trae ventura. Uno asciende por escalones.' },
+      { position: 6, text: 'Ascenso en la oscuridad. Es propicio perseverar sin descanso.' },
+    ],
+  },
+  47: {
+    name: 'La Opresión',
+    meaning: 'Agotamiento, dificultad, calamidad',
+    judgment: 'Opresión. Éxito. Perseverancia. El gran hombre trae buena fortuna. Sin culpa.',
+    image: 'No hay agua en el lago: la imagen de la Opresión. Así el hombre superior arriesga su vida siguiendo su voluntad.',
+    lines: [
+      { position: 1, text: 'Uno se sienta oprimido bajo un árbol desnudo y se extravía en un valle sombrío. Durante tres años no ve nada.' },
+      { position: 2, text: 'Uno es oprimido mientras come y bebe. El hombre de las rodilleras escarlata está llegando. Es propicio ofrecer sacrificio. Partir trae desventura. Sin culpa.' },
+      { position: 3, text: 'Un hombre se deja oprimir por la piedra y se apoya en espinos y cardos. Entra en su casa y no ve a su mujer. Desventura.' },
+      { position: 4, text: 'Llega muy despacio, oprimido en un carruaje dorado. Humillación, pero se alcanza el final.' },
+      { position: 5, text: 'Le cortan la nariz y los pies. Opresión a manos del hombre de las rodilleras púrpura. La alegría llega suavemente. Es propicio hacer ofrendas y libaciones.' },
+      { position: 6, text: 'Está oprimido por enredaderas. Se mueve con inseguridad y dice: "El movimiento trae arrepentimiento". Si uno siente arrepentimiento por ello y emprende la marcha, llega la ventura.' },
+    ],
+  },
+  48: {
+    name: 'El Pozo',
+    meaning: 'Fuente de agua, renovación, comunidad',
+    judgment: 'El Pozo. La ciudad puede cambiar, pero el pozo no puede cambiar. Ni disminuye ni aumenta.',
+    image: 'Agua sobre madera: la imagen del Pozo. Así el hombre superior anima al pueblo en su trabajo y los exhorta a ayudarse mutuamente.',
+    lines: [
+      { position: 1, text: 'No se bebe el lodo del pozo. Ningún animal acude a un pozo viejo.' },
+      { position: 2, text: 'En el hueco del pozo se disparan peces. El cántaro está roto y gotea.' },
+      { position: 3, text: 'El pozo está limpio, pero nadie bebe de él. Ésta es la pena de mi corazón, pues se podría sacar agua de él. Si el rey tuviera la mente clara, la ventura podría disfrutarse en común.' },
+      { position: 4, text: 'El pozo está siendo revestido. Sin culpa.' },
+      { position: 5, text: 'En el pozo hay un manantial claro y frío del que se puede beber.' },
+      { position: 6, text: 'Se saca agua del pozo sin impedimento. Es de confianza. Elevada ventura.' },
+    ],
+  },
+  49: {
+    name: 'La Revolución',
+    meaning: 'Transformación, cambio radical, renovación',
+    judgment: 'Revolución. En tu propio día te creen. Éxito supremo, la perseverancia propicia. El arrepentimiento desaparece.',
+    image: 'Fuego en el lago: la imagen de la Revolución. Así el hombre superior fija el calendario y aclara las estaciones.',
+    lines: [
+      { position: 1, text: 'Envuelto en la piel de una vaca amarilla.' },
+      { position: 2, text: 'Cuando llega el propio día, se puede hacer la revolución. Partir trae ventura. Sin culpa.' },
+      { position: 3, text: 'Partir trae desventura. La perseverancia trae peligro. Cuando la palabra de revolución ha dado tres vueltas, uno puede comprometerse, y la gente le creerá.' },
+      { position: 4, text: 'El arrepentimiento desaparece. La gente le cree. Cambiar la forma de gobierno trae ventura.' },
+      { position: 5, text: 'El gran hombre cambia como un tigre. Aun antes de consultar el oráculo se le cree.' },
+      { position: 6, text: 'El noble cambia como una pantera. El hombre vulgar muda el rostro. Partir trae desventura. Permanecer perseverante trae ventura.' },
+    ],
+  },
+  50: {
+    name: 'El Caldero',
+    meaning: 'Recipiente, transformación, nutrición',
+    judgment: 'El Caldero. Suprema buena fortuna. Éxito.',
+    image: 'Fuego sobre madera: la imagen del Caldero. Así el hombre superior consolida su destino mediante el cultivo de sí mismo.',
+    lines: [
+      { position: 1, text: 'Un ting con las patas hacia arriba. Es propicio para retirar lo estancado. Se toma una concubina por causa de su hijo. Sin culpa.' },
+      { position: 2, text: 'Hay comida en el ting. Mis compañeros sienten envidia, pero no pueden hacerme daño. Ventura.' },
+      { position: 3, text: 'El asa del ting está alterada. Uno se ve impedido en su modo de vida. No se come la grasa del faisán. Cuando cae la lluvia, el arrepentimiento se agota. Al final llega la ventura.' },
+      { position: 4, text: 'Las patas del ting están rotas. Se derrama la comida del príncipe y su persona queda manchada. Desventura.' },
+      { position: 5, text: 'El ting tiene asas amarillas y anillas doradas. La perseverancia es propicia.' },
+      { position: 6, text: 'El ting tiene anillas de jade. Gran ventura. Nada que no sea propicio.' },
+    ],
+  },
+  51: {
+    name: 'El Despertar',
+    meaning: 'Trueno, despertar, choque',
+    judgment: 'El Despertar. Choque trae éxito. Choque viene--¡oh, oh! Palabras riendo--¡ja, ja! El choque aterroriza a cien millas.',
+    image: 'Trueno repetido: la imagen del Despertar. Así el hombre superior ordena su vida con miedo y temblor.',
+    lines: [
+      { position: 1, text: 'Llega la conmoción: ¡oh, oh! Luego siguen palabras risueñas: ¡ja, ja! Ventura.' },
+      { position: 2, text: 'Llega la conmoción trayendo peligro. Cien mil veces pierdes tus tesoros y debes subir los nueve montes. No vayas en su busca. Después de siete días los recuperarás.' },
+      { position: 3, text: 'Llega la conmoción y lo deja a uno aturdido. Si la conmoción incita a la acción, se queda libre de desventura.' },
+      { position: 4, text: 'La conmoción queda empantanada.' },
+      { position: 5, text: 'La conmoción va de aquí para allá. Peligro. Sin embargo, no se pierde nada. Aun así, hay cosas que hacer.' },
+      { position: 6, text: 'La conmoción trae ruina y miradas aterradas alrededor. Avanzar trae desventura. Si aún no ha tocado el propio cuerpo sino que ha alcanzado primero al vecino, no hay culpa. Los compañeros tienen de qué hablar.' },
+    ],
+  },
+  52: {
+    name: 'Mantener Inmóvil',
+    meaning: 'Montaña, quietud, no-acción',
+    judgment: 'Mantener Inmóvil. La montaña. Mantiene su espalda inmóvil de modo que ya no siente su cuerpo. Sin culpa.',
+    image: 'Montañas que están juntas: la imagen de Mantener Inmóvil. Así el hombre superior no permite que sus pensamientos vayan más allá de su situación.',
+    lines: [
+      { position: 1, text: 'Mantener quietos los dedos de los pies. Sin culpa. La perseverancia continuada es propicia.' },
+      { position: 2, text: 'Mantener quietas las pantorrillas. No puede rescatar a aquel a quien sigue. Su corazón no está contento.' },
+      { position: 3, text: 'Mantener quietas las caderas. Poner rígido el sacro. Peligroso. El corazón se sofoca.' },
+      { position: 4, text: 'Mantener quieto el tronco. Sin culpa.' },
+      { position: 5, text: 'Mantener quietas las mandíbulas. Las palabras tienen orden. El arrepentimiento desaparece.' },
+      { position: 6, text: 'Quietud de noble corazón. Ventura.' },
+    ],
+  },
+  53: {
+    name: 'El Desarrollo',
+    meaning: 'Progreso gradual, etapas, avance',
+    judgment: 'Desarrollo. La doncella es entregada en matrimonio. Buena fortuna. Propicia emprender algo.',
+    image: 'En la montaña, viento: la imagen del Desarrollo. Así el hombre superior permanece en dignidad y virtud, para mejorar las costumbres.',
+    lines: [
+      { position: 1, text: 'El ganso salvaje se acerca poco a poco a la orilla. El hijo joven está en peligro. Hay habladurías. Sin culpa.' },
+      { position: 2, text: 'El ganso salvaje se acerca poco a poco al peñasco. Comer y beber en paz y concordia. Ventura.' },
+      { position: 3, text: 'El ganso salvaje se acerca poco a poco a la meseta. El hombre parte y no regresa. La mujer lleva un hijo pero no lo da a luz. Desventura. Es propicio rechazar a los bandidos.' },
+      { position: 4, text: 'El ganso salvaje va poco a poco al árbol. Quizá encuentre una rama plana. Sin culpa.' },
+      { position: 5, text: 'El ganso salvaje se acerca poco a poco a la cumbre. Durante tres años la mujer no tiene hijo. Al final nada puede impedírselo. Ventura.' },
+      { position: 6, text: 'El ganso salvaje se acerca poco a poco a las alturas de las nubes. Sus plumas pueden usarse para la danza sagrada. Ventura.' },
+    ],
+  },
+  54: {
+    name: 'La Doncella Desposada',
+    meaning: 'Posición subordinada, orden natural, transición',
+    judgment: 'La Doncella Desposada. Las empresas traen desgracia. Nada que propiciaría.',
+    image: 'Trueno sobre el lago: la imagen de la Doncella Desposada. Así el hombre superior entiende lo transitorio a la luz de la eternidad del fin.',
+    lines: [
+      { position: 1, text: 'La muchacha que se casa como concubina. Un cojo que puede andar. Las empresas traen ventura.' },
+      { position: 2, text: 'Un tuerto que puede ver. La perseverancia de un hombre solitario es propicia.' },
+      { position: 3, text: 'La muchacha que se casa como esclava. Se casa como concubina.' },
+      { position: 4, text: 'La muchacha que se casa demora el plazo asignado. Un matrimonio tardío llega a su debido tiempo.' },
+      { position: 5, text: 'El soberano I dio a su hija en matrimonio. Las vestiduras bordadas de la princesa no eran tan espléndidas como las de la doncella. La luna casi llena trae ventura.' },
+      { position: 6, text: 'La mujer sostiene la cesta, pero no hay frutos en ella. El hombre apuñala la oveja, pero no fluye sangre. Nada que sea propicio.' },
+    ],
+  },
+  55: {
+    name: 'La Abundancia',
+    meaning: 'Plenitud, pico, máximo',
+    judgment: 'Abundancia tiene éxito. El rey alcanza abundancia. No estés triste. Sé como el sol al mediodía.',
+    image: 'Trueno y relámpago vienen: la imagen de la Abundancia. Así el hombre superior decide demandas y ejecuta castigos.',
+    lines: [
+      { position: 1, text: 'Cuando un hombre encuentra a su soberano destinado, pueden estar juntos diez días, y no es un error. Ir encuentra reconocimiento.' },
+      { position: 2, text: 'La cortina es de tal plenitud que se ven las estrellas polares a mediodía. Al ir se encuentra desconfianza y odio. Si uno lo despierta mediante la verdad, llega la ventura.' },
+      { position: 3, text: 'La maleza es de tal abundancia que se ven las estrellas pequeñas a mediodía. Se rompe el brazo derecho. Sin culpa.' },
+      { position: 4, text: 'La cortina es de tal plenitud que se ven las estrellas polares a mediodía. Encuentra a su soberano, que es de su misma clase. Ventura.' },
+      { position: 5, text: 'Llegan líneas; bendición y fama se acercan. Ventura.' },
+      { position: 6, text: 'Su casa está en estado de abundancia. Aísla a su familia. Mira por la puerta y ya no ve a nadie. Durante tres años no ve nada. Desventura.' },
+    ],
+  },
+  56: {
+    name: 'El Viajero',
+    meaning: 'Viaje, exilio, adaptación',
+    judgment: 'El Viajero. Éxito mediante la perseverancia. El viajero encuentra comida y refugio. Buena fortuna pequeña.',
+    image: 'Fuego en la montaña: la imagen del Viajero. Así el hombre superior es cuidadoso y reservado, y así evita castigos y dificultades.',
+    lines: [
+      { position: 1, text: 'Si el caminante se ocupa de cosas triviales, atrae la desventura sobre sí.' },
+      { position: 2, text: 'El caminante llega a una posada. Lleva consigo sus bienes. Gana la lealtad de un joven sirviente.' },
+      { position: 3, text: 'La posada del caminante se incendia. Pierde la lealtad de su joven sirviente. Peligro.' },
+      { position: 4, text: 'El caminante descansa en un refugio. Obtiene sus bienes y un hacha. Mi corazón no está contento.' },
+      { position: 5, text: 'Dispara a un faisán. Cae con la primera flecha. Al final esto trae elogio y cargo.' },
+      { position: 6, text: 'El nido del pájaro arde. El caminante ríe al principio, luego debe lamentarse y llorar. Por descuido pierde su vaca. Desventura.' },
+    ],
+  },
+  57: {
+    name: 'Lo Suave',
+    meaning: 'Viento, suavidad, flexibilidad',
+    judgment: 'Lo Suave. Éxito a través de lo pequeño. Propicia tener adónde ir. Propicia ver al gran hombre.',
+    image: 'Viento siguiendo viento: la imagen de Lo Suave. Así el hombre superior difunde sus mandatos y lleva a cabo sus empresas.',
+    lines: [
+      { position: 1, text: 'Al avanzar y al retroceder, la perseverancia de un guerrero es propicia.' },
+      { position: 2, text: 'Penetración bajo la cama. Se emplean sacerdotes y magos en gran número. Ventura. Sin culpa.' },
+      { position: 3, text: 'Penetración reiterada. Humillación.' },
+      { position: 4, text: 'El arrepentimiento se desvanece. Durante la cacería se capturan tres clases de presas.' },
+      { position: 5, text: 'La perseverancia trae ventura. El arrepentimiento se desvanece. Nada que no sea propicio. Sin comienzo, pero con final. Antes del cambio, tres días. Después del cambio, tres días. Ventura.' },
+      { position: 6, text: 'Penetración bajo la cama. Pierde sus bienes y su hacha. La perseverancia trae desventura.' },
+    ],
+  },
+  58: {
+    name: 'Lo Alegre',
+    meaning: 'Lago, placer, alegría',
+    judgment: 'Lo Alegre. Éxito. La perseverancia es favorable.',
+    image: 'Lagos que se unen: la imagen de Lo Alegre. Así el hombre superior se une con sus amigos para discusión y práctica.',
+    lines: [
+      { position: 1, text: 'Alegría satisfecha. Ventura.' },
+      { position: 2, text: 'Alegría sincera. Ventura. El arrepentimiento desaparece.' },
+      { position: 3, text: 'Alegría que viene. Desventura.' },
+      { position: 4, text: 'La alegría sopesada no está en paz. Tras librarse de los errores, un hombre tiene alegría.' },
+      { position: 5, text: 'La sinceridad hacia las influencias disgregadoras es peligrosa.' },
+      { position: 6, text: 'Alegría seductora.' },
+    ],
+  },
+  59: {
+    name: 'La Dispersión',
+    meaning: 'Separación, disolución, dispersión',
+    judgment: 'Dispersión. Éxito. El rey se acerca a su templo. Propicia cruzar la gran agua. La perseverancia propicia.',
+    image: 'Viento soplando sobre agua: la imagen de la Dispersión. Así los reyes de antaño hacían ofrendas al Señor y construían templos.',
+    lines: [
+      { position: 1, text: 'Presta ayuda con la fuerza de un caballo. Ventura.' },
+      { position: 2, text: 'En la disolución corre hacia lo que le sostiene. El arrepentimiento desaparece.' },
+      { position: 3, text: 'Disuelve su propio yo. Sin arrepentimiento.' },
+      { position: 4, text: 'Disuelve su vínculo con su grupo. Elevada ventura. La dispersión conduce a su vez a la acumulación. Esto es algo que los hombres comunes no piensan.' },
+      { position: 5, text: 'Sus fuertes gritos disuelven como el sudor. ¡Disolución! Un rey permanece sin culpa.' },
+      { position: 6, text: 'Disuelve su sangre. Partir, mantenerse a distancia, salir, es sin culpa.' },
+    ],
+  },
+  60: {
+    name: 'La Limitación',
+    meaning: 'Restricción, límites, autocontrol',
+    judgment: 'Limitación. Éxito. La limitación penosa no debe persistir.',
+    image: 'Agua sobre un lago: la imagen de la Limitación. Así el hombre superior crea número y medida, y examina la naturaleza de sus acciones.',
+    lines: [
+      { position: 1, text: 'No salir de la puerta y el patio es sin culpa.' },
+      { position: 2, text: 'No salir del portón y el patio trae desventura.' },
+      { position: 3, text: 'Quien no conoce limitación tendrá motivo para lamentarse. Sin culpa.' },
+      { position: 4, text: 'Limitación satisfecha. Éxito.' },
+      { position: 5, text: 'La limitación dulce trae ventura. Ir trae estima.' },
+      { position: 6, text: 'Limitación amarga. La perseverancia trae desventura. El arrepentimiento desaparece.' },
+    ],
+  },
+  61: {
+    name: 'La Verdad Interior',
+    meaning: 'Sinceridad, confiabilidad, integridad',
+    judgment: 'Verdad Interior. Cerdos y peces. Buena fortuna. Propicia cruzar la gran agua. La perseverancia propicia.',
+    image: 'Viento sobre lago: la imagen de la Verdad Interior. Así el hombre superior discute casos criminales para posponer sentencias de muerte.',
+    lines: [
+      { position: 1, text: 'Estar preparado trae ventura. Si hay designios secretos, es inquietante.' },
+      { position: 2, text: 'Una grulla llama en la sombra. Su cría le responde. Tengo una buena copa. La compartiré contigo.' },
+      { position: 3, text: 'Encuentra un camarada. Ya toca el tambor, ya se detiene. Ya solloza, ya canta.' },
+      { position: 4, text: 'La luna casi llena. El caballo de tiro se extravía. Sin culpa.' },
+      { position: 5, text: 'Posee la verdad, que une. Sin culpa.' },
+      { position: 6, text: 'El canto del gallo que penetra hasta el cielo. La perseverancia trae desventura.' },
+    ],
+  },
+  62: {
+    name: 'Preponderancia de lo Pequeño',
+    meaning: 'Exceso de cautela, detalles menores, limitación',
+    judgment: 'Preponderancia de lo Pequeño. Éxito. La perseverancia propicia. Lo pequeño se puede hacer; lo grande no se debe hacer.',
+    image: 'Trueno en la montaña: la imagen de Preponderancia de lo Pequeño. Así el hombre superior en su conducta da excesiva importancia al respeto.',
+    lines: [
+      { position: 1, text: 'El pájaro encuentra la desventura al volar.' },
+      { position: 2, text: 'Ella pasa junto a su antepasado y encuentra a su antepasada. Él no llega hasta su príncipe y encuentra al funcionario. Sin culpa.' },
+      { position: 3, text: 'Si uno no es extremadamente cuidadoso, alguien puede acercarse por detrás y golpearlo. Desventura.' },
+      { position: 4, text: 'Sin culpa. Lo encuentra sin pasar de largo. Ir trae peligro. Hay que estar en guardia. No actúes. Sé constantemente perseverante.' },
+      { position: 5, text: 'Nubes densas, sin lluvia de nuestra región occidental. El príncipe dispara y alcanza al que está en la cueva.' },
+      { position: 6, text: 'Pasa de largo sin encontrarlo. El pájaro que vuela lo abandona. Desventura. Esto significa mala suerte y daño.' },
+    ],
+  },
+  63: {
+    name: 'Después de la Completación',
+    meaning: 'Completación, cumplimiento, más allá de la crisis',
+    judgment: 'Después de la Completación. Éxito en pequeños asuntos. La perseverancia propicia. El comienzo trae buena fortuna, el final trae desorden.',
+    image: 'Agua sobre fuego: la imagen de Después de la Completación. Así el hombre superior prevé el peligro y se arma contra él de antemano.',
+    lines: [
+      { position: 1, text: 'Frena sus ruedas. Mete la cola en el agua. Sin culpa.' },
+      { position: 2, text: 'La mujer pierde la cortina de su carruaje. No corras tras ella; al séptimo día la recuperarás.' },
+      { position: 3, text: 'El Ilustre Antepasado castiga el País de los Demonios. Después de tres años lo conquista. No deben emplearse hombres vulgares.' },
+      { position: 4, text: 'Las ropas más finas se convierten en harapos. Ten cuidado todo el día.' },
+      { position: 5, text: 'El vecino del este que sacrifica un buey no alcanza tanta dicha verdadera como el vecino del oeste con su pequeña ofrenda.' },
+      { position: 6, text: 'Mete la cabeza en el agua. Peligro.' },
+    ],
+  },
+  64: {
+    name: 'Antes de la Completación',
+    meaning: 'Incompletación, transición, trabajo en progreso',
+    judgment: 'Antes de la Completación. Éxito. El pequeño zorro, después de casi completar el cruce, se moja la cola. Ninguna ventaja.',
+    image: 'Fuego sobre agua: la imagen de Antes de la Completación. Así el hombre superior diferencia cuidadosamente las cosas.',
+    lines: [
+      { position: 1, text: 'Mete la cola en el agua. Humillante.' },
+      { position: 2, text: 'Frena sus ruedas. La perseverancia trae ventura.' },
+      { position: 3, text: 'Antes de la consumación, atacar trae desventura. Es propicio cruzar las grandes aguas.' },
+      { position: 4, text: 'La perseverancia trae ventura. El arrepentimiento desaparece. Conmoción, para castigar así el País de los Demonios. Durante tres años se conceden grandes reinos.' },
+      { position: 5, text: 'La perseverancia trae ventura. Sin arrepentimiento. La luz del noble es verdadera. Ventura.' },
+      { position: 6, text: 'Se bebe vino con genuina confianza. Sin culpa. Pero si uno se moja la cabeza, la pierde, en verdad.' },
+    ],
+  },
+};
@@ -0,0 +1,908 @@
+/**
+ * Spanish rendering of the Zhouyi classical text of all 64 hexagrams ('es-zhouyi')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'Lo Creativo',
+    meaning: 'Cielo, principio creador, yang puro',
+    judgment: 'Sublime éxito, propicio mediante la perseverancia.',
+    image: 'El movimiento del Cielo es vigoroso. El hombre superior se fortalece sin cesar.',
+    lines: [
+      { position: 1, text: 'Dragón sumergido: no actuar.' },
+      { position: 2, text: 'Dragón visible en el campo: propicio ver al gran hombre.' },
+      { position: 3, text: 'El hombre noble se esfuerza sin descanso todo el día y al anochecer sigue alerta. Peligro, pero sin falta.' },
+      { position: 4, text: 'Quizá salta en el abismo. Sin falta.' },
+      { position: 5, text: 'Dragón volando en el cielo: propicio ver al gran hombre.' },
+      { position: 6, text: 'Dragón altivo: habrá arrepentimiento.' },
+    ],
+    allMoving: 'Se ve una multitud de dragones sin cabeza. Ventura.',
+  },
+  2: {
+    name: 'Lo Receptivo',
+    meaning: 'Tierra, principio receptivo, yin puro',
+    judgment: 'Sublime éxito, propicio mediante la perseverancia de una yegua.',
+    image: 'La condición de la Tierra es receptiva. El hombre superior con amplia virtud sostiene todas las cosas.',
+    lines: [
+      { position: 1, text: 'Se pisa la escarcha: llegará el hielo firme.' },
+      { position: 2, text: 'Recto, cuadrado, grande. Sin práctica, nada deja de ser propicio.' },
+      { position: 3, text: 'Contiene su brillo y puede perseverar. Si sirve al rey, no logra obra propia, pero alcanza el final.' },
+      { position: 4, text: 'Saco atado: sin falta, sin alabanza.' },
+      { position: 5, text: 'Falda amarilla: elevada ventura.' },
+      { position: 6, text: 'Dragones combaten en el campo; su sangre es oscura y amarilla.' },
+    ],
+    allMoving: 'Propicia la perseverancia perpetua.',
+  },
+  11: {
+    name: 'La Paz',
+    meaning: 'La paz, prosperidad, comunicación entre cielo y tierra',
+    judgment: 'Lo pequeño parte, lo grande llega. Buena fortuna. Éxito.',
+    image: 'Cielo y tierra se comunican: la Paz. El gobernante así completa el curso del cielo y la tierra.',
+    lines: [
+      { position: 1, text: 'Se arranca el junco con sus raíces, junto a los de su especie: avanzar es venturoso.' },
+      { position: 2, text: 'Abarcar lo inculto, vadear el río, no olvidar lo lejano, prescindir de los amigos: se alcanza el camino del medio.' },
+      { position: 3, text: 'No hay llano sin pendiente, no hay ida sin retorno. Firmeza en la dificultad: sin falta. No te aflijas; con sinceridad, en el sustento hay bendición.' },
+      { position: 4, text: 'Revoloteando, no se enriquece solo sino con su vecino; sin advertencia, con sinceridad.' },
+      { position: 5, text: 'El emperador Yi casa a su hermana menor: bendición y elevada ventura.' },
+      { position: 6, text: 'La muralla se derrumba en el foso. No uses el ejército. Desde la ciudad se proclaman órdenes: la perseverancia trae pesar.' },
+    ],
+  },
+  12: {
+    name: 'El Estancamiento',
+    meaning: 'El estancamiento, obstrucción, falta de comunicación',
+    judgment: 'Estancamiento de gente indigna. No propicio para la perseverancia del hombre superior. Lo grande parte, lo pequeño llega.',
+    image: 'Cielo y tierra no se comunican: el Estancamiento. El hombre superior modera su virtud para evitar calamidades.',
+    lines: [
+      { position: 1, text: 'Se arranca el junco con sus raíces, junto a los de su especie: la perseverancia trae ventura y éxito.' },
+      { position: 2, text: 'Abarcar y acatar: ventura para el hombre vulgar; el gran hombre, en el estancamiento, prospera.' },
+      { position: 3, text: 'Abarcar la vergüenza.' },
+      { position: 4, text: 'Con mandato, sin falta; los compañeros comparten la bendición.' },
+      { position: 5, text: 'Cesa el estancamiento: ventura para el gran hombre. «¡Perecerá, perecerá!»: se ata a la morera frondosa.' },
+      { position: 6, text: 'Se derriba el estancamiento: primero estancamiento, luego alegría.' },
+    ],
+  },
+  19: {
+    name: 'El Acercamiento',
+    meaning: 'El acercamiento, aproximación, supervisión',
+    judgment: 'Sublime éxito, propicio mediante la perseverancia. Cuando llegue el octavo mes, habrá adversidad.',
+    image: 'Sobre el lago hay tierra: el Acercamiento. El hombre superior enseña y reflexiona sin límite.',
+    lines: [
+      { position: 1, text: 'Acercamiento conmovedor: la perseverancia trae ventura.' },
+      { position: 2, text: 'Acercamiento conmovedor: ventura, nada deja de ser propicio.' },
+      { position: 3, text: 'Acercamiento dulzón: nada propicio. Si ya se preocupa, sin falta.' },
+      { position: 4, text: 'Acercamiento pleno: sin falta.' },
+      { position: 5, text: 'Acercamiento sabio, propio del gran soberano: ventura.' },
+      { position: 6, text: 'Acercamiento generoso: ventura, sin falta.' },
+    ],
+  },
+  20: {
+    name: 'La Contemplación',
+    meaning: 'La contemplación, observar, ser modelo',
+    judgment: 'La ablución se ha hecho, pero no la ofrenda. Con sinceridad, solemne reverencia.',
+    image: 'El viento recorre la tierra: la Contemplación. Los antiguos reyes visitaban las regiones, observaban al pueblo y establecían las enseñanzas.',
+    lines: [
+      { position: 1, text: 'Mirada de niño: para el hombre vulgar sin falta, para el noble pesar.' },
+      { position: 2, text: 'Mirar por la rendija: propicia la firmeza de la mujer.' },
+      { position: 3, text: 'Contemplar mi vida: avanzar o retroceder.' },
+      { position: 4, text: 'Contemplar la luz del reino: propicio ser huésped del rey.' },
+      { position: 5, text: 'Contemplar mi vida: el noble queda sin falta.' },
+      { position: 6, text: 'Contemplar su vida: el noble queda sin falta.' },
+    ],
+  },
+  23: {
+    name: 'La Desintegración',
+    meaning: 'La desintegración, desprendimiento, decadencia',
+    judgment: 'No propicio emprender nada.',
+    image: 'La montaña se adhiere a la tierra: la Desintegración. Los de arriba con generosidad hacia abajo aseguran la morada.',
+    lines: [
+      { position: 1, text: 'Se desgasta la cama por las patas; se destruye la rectitud: desventura.' },
+      { position: 2, text: 'Se desgasta la cama por el armazón; se destruye la rectitud: desventura.' },
+      { position: 3, text: 'Desgastarse con ellos: sin falta.' },
+      { position: 4, text: 'Se desgasta la cama hasta la piel: desventura.' },
+      { position: 5, text: 'Peces ensartados: con las damas de palacio se obtiene favor; nada deja de ser propicio.' },
+      { position: 6, text: 'Un gran fruto no comido: el noble obtiene un carro, el hombre vulgar destruye su choza.' },
+    ],
+  },
+  24: {
+    name: 'El Retorno',
+    meaning: 'El retorno, renovación, punto de inflexión',
+    judgment: 'Éxito. Salir y entrar sin aflicción. Los amigos vienen sin culpa.',
+    image: 'Trueno en la tierra: el Retorno. Los antiguos reyes en el solsticio cerraban los pasos.',
+    lines: [
+      { position: 1, text: 'Volver sin alejarse: sin pesar grave, elevada ventura.' },
+      { position: 2, text: 'Retorno sereno: ventura.' },
+      { position: 3, text: 'Retorno reiterado: peligro, sin falta.' },
+      { position: 4, text: 'Andando en el medio, vuelve solo.' },
+      { position: 5, text: 'Retorno sincero: sin arrepentimiento.' },
+      { position: 6, text: 'Retorno extraviado: desventura, hay calamidades. Si moviliza el ejército, al final gran derrota que alcanza al soberano; en diez años no podrá volver a campaña.' },
+    ],
+  },
+  33: {
+    name: 'La Retirada',
+    meaning: 'La retirada, retirarse, ocultarse',
+    judgment: 'Éxito. En lo pequeño, propicio mediante la perseverancia.',
+    image: 'Bajo el cielo hay una montaña: la Retirada. El hombre superior se aleja del hombre inferior.',
+    lines: [
+      { position: 1, text: 'Retirada en la cola: peligro; no actuar teniendo adónde ir.' },
+      { position: 2, text: 'Sujetarlo con cuero de buey amarillo: nadie puede soltarlo.' },
+      { position: 3, text: 'Retirada atada: hay enfermedad y peligro; mantener sirvientes y concubinas trae ventura.' },
+      { position: 4, text: 'Retirada amable: ventura para el noble, no para el hombre vulgar.' },
+      { position: 5, text: 'Retirada excelente: la perseverancia trae ventura.' },
+      { position: 6, text: 'Retirada holgada: nada deja de ser propicio.' },
+    ],
+  },
+  34: {
+    name: 'El Poder de lo Grande',
+    meaning: 'El poder de lo grande, gran fuerza, vigor',
+    judgment: 'Propicio mediante la perseverancia.',
+    image: 'Trueno en el cielo: el Poder de lo Grande. El hombre superior no pisa lo que no es correcto.',
+    lines: [
+      { position: 1, text: 'Fuerza en los dedos del pie: avanzar trae desventura; hay confianza.' },
+      { position: 2, text: 'La perseverancia trae ventura.' },
+      { position: 3, text: 'El hombre vulgar usa la fuerza, el noble usa la red: la perseverancia es peligrosa. El carnero embiste la cerca y se traba los cuernos.' },
+      { position: 4, text: 'La perseverancia trae ventura, el arrepentimiento se desvanece. La cerca se abre, no queda trabado; fuerza en el eje del gran carro.' },
+      { position: 5, text: 'Pierde el carnero en Yi: sin arrepentimiento.' },
+      { position: 6, text: 'El carnero embiste la cerca: no puede retroceder ni avanzar, nada propicio; en la dificultad, ventura.' },
+    ],
+  },
+  43: {
+    name: 'La Resolución',
+    meaning: 'La resolución, irrupción, avance decisivo',
+    judgment: 'Proclamar en la corte del rey. Con sinceridad clamar: hay peligro.',
+    image: 'El lago asciende al cielo: la Resolución. El hombre superior distribuye beneficios hacia abajo.',
+    lines: [
+      { position: 1, text: 'Fuerza en los dedos delanteros del pie: ir sin vencer es falta.' },
+      { position: 2, text: 'Alarma y gritos: al anochecer hay armas; no te inquietes.' },
+      { position: 3, text: 'Fuerza en los pómulos: hay desventura. El noble, resuelto, camina solo y encuentra la lluvia; mojado e irritado, sin falta.' },
+      { position: 4, text: 'Las nalgas sin piel, camina a trompicones. Llevar la oveja: el arrepentimiento se desvanece; oye palabras y no las cree.' },
+      { position: 5, text: 'La hierba del campo, resolución firme: andando por el medio, sin falta.' },
+      { position: 6, text: 'Sin gritos: al final hay desventura.' },
+    ],
+  },
+  44: {
+    name: 'El Ir al Encuentro',
+    meaning: 'El encuentro, venir al encuentro, tentación',
+    judgment: 'La mujer es poderosa. No se debe tomar esposa.',
+    image: 'Bajo el cielo hay viento: el Encuentro. El soberano difunde sus mandatos a los cuatro puntos cardinales.',
+    lines: [
+      { position: 1, text: 'Atado a un freno de metal: la perseverancia trae ventura. Tener adónde ir: se ve desventura; el cerdo flaco, confiado, patalea.' },
+      { position: 2, text: 'En el envoltorio hay pescado: sin falta; no es propicio para el huésped.' },
+      { position: 3, text: 'Las nalgas sin piel, camina a trompicones: peligro, sin gran falta.' },
+      { position: 4, text: 'En el envoltorio no hay pescado: levantarse trae desventura.' },
+      { position: 5, text: 'Con sauce envolver el melón; contener la belleza: algo cae del cielo.' },
+      { position: 6, text: 'Encuentro con los cuernos: pesar, sin falta.' },
+    ],
+  },
+  3: {
+    name: 'La Dificultad Inicial',
+    meaning: 'Dificultad inicial, brote naciente, comienzo arduo',
+    judgment: 'Sublime éxito, propicio mediante la perseverancia. No emprender nada. Propicio establecer ayudantes.',
+    image: 'Nubes y trueno: la Dificultad Inicial. El hombre superior pone orden en los asuntos.',
+    lines: [
+      { position: 1, text: 'Vacilar y rondar: propicio permanecer firme, propicio establecer señores.' },
+      { position: 2, text: 'Dificultad y titubeo; montados a caballo se dispersan. No son bandidos, sino pretendientes. La doncella es firme y no se promete; a los diez años se promete.' },
+      { position: 3, text: 'Perseguir al ciervo sin guardabosques solo lleva al interior del bosque. El noble percibe la señal y prefiere desistir; avanzar trae pesar.' },
+      { position: 4, text: 'Montados a caballo se dispersan. Buscar el matrimonio: avanzar es venturoso, nada deja de ser propicio.' },
+      { position: 5, text: 'Se retiene su riqueza. Pequeña perseverancia: ventura. Gran perseverancia: desventura.' },
+      { position: 6, text: 'Montados a caballo se dispersan; lágrimas de sangre corren sin cesar.' },
+    ],
+  },
+  4: {
+    name: 'La Insensatez Juvenil',
+    meaning: 'Insensatez juvenil, inexperiencia, oscuridad inicial',
+    judgment: 'Éxito. No soy yo quien busca al joven insensato; el joven insensato me busca. En la primera consulta informo; si pregunta dos o tres veces, es irreverencia. Si es irreverente, no informo. Propicio mediante la perseverancia.',
+    image: 'Bajo la montaña brota un manantial: la Insensatez Juvenil. El hombre superior con acción decidida cultiva la virtud.',
+    lines: [
+      { position: 1, text: 'Despertar al ignorante: propicio usar la corrección y quitar los grilletes; seguir así trae pesar.' },
+      { position: 2, text: 'Acoger al ignorante: ventura. Tomar esposa: ventura. El hijo puede regir la casa.' },
+      { position: 3, text: 'No tomes a esa mujer: ve a un hombre de oro y no se posee. Nada propicio.' },
+      { position: 4, text: 'Ignorancia acorralada: pesar.' },
+      { position: 5, text: 'Ignorancia infantil: ventura.' },
+      { position: 6, text: 'Golpear al ignorante: no es propicio ser agresor, es propicio defenderse del agresor.' },
+    ],
+  },
+  5: {
+    name: 'La Espera',
+    meaning: 'La espera, aguardar, nutrición',
+    judgment: 'Con sinceridad, brillante éxito. La perseverancia trae buena fortuna. Propicio cruzar la gran agua.',
+    image: 'Nubes ascienden al cielo: la Espera. El hombre superior come, bebe y se regocija.',
+    lines: [
+      { position: 1, text: 'Esperar en las afueras: propicio mantener la constancia. Sin falta.' },
+      { position: 2, text: 'Esperar en la arena: algunas críticas, al final ventura.' },
+      { position: 3, text: 'Esperar en el barro atrae a los bandidos.' },
+      { position: 4, text: 'Esperar en la sangre: salir de la cueva.' },
+      { position: 5, text: 'Esperar con vino y comida: la perseverancia trae ventura.' },
+      { position: 6, text: 'Entrar en la cueva: llegan tres huéspedes no invitados. Honrarlos trae ventura al final.' },
+    ],
+  },
+  6: {
+    name: 'El Conflicto',
+    meaning: 'Conflicto, litigio, contienda',
+    judgment: 'Con sinceridad obstruida, cautela. Buena fortuna en el medio. Adversidad al final. Propicio ver al gran hombre. No propicio cruzar la gran agua.',
+    image: 'Cielo y agua van en direcciones opuestas: el Conflicto. El hombre superior en sus asuntos planea desde el comienzo.',
+    lines: [
+      { position: 1, text: 'No prolongar el asunto: algunas críticas, al final ventura.' },
+      { position: 2, text: 'No gana el pleito; regresa y huye. Los trescientos hogares de su aldea quedan sin calamidad.' },
+      { position: 3, text: 'Vivir de la virtud antigua: firmeza en el peligro, al final ventura. Si sirve al rey, no logra obra propia.' },
+      { position: 4, text: 'No gana el pleito; vuelve y acata el mandato, cambia y halla paz en la firmeza. Ventura.' },
+      { position: 5, text: 'Pleito: elevada ventura.' },
+      { position: 6, text: 'Quizá se le otorga un cinturón de cuero; en una mañana se lo quitan tres veces.' },
+    ],
+  },
+  7: {
+    name: 'El Ejército',
+    meaning: 'El ejército, las tropas, la multitud',
+    judgment: 'El ejército con perseverancia. Un hombre maduro, buena fortuna. Sin culpa.',
+    image: 'En medio de la tierra hay agua: el Ejército. El hombre superior acoge al pueblo y nutre a la multitud.',
+    lines: [
+      { position: 1, text: 'El ejército sale con disciplina; sin buen orden, desventura.' },
+      { position: 2, text: 'En medio del ejército: ventura, sin falta. El rey confiere tres veces su mandato.' },
+      { position: 3, text: 'El ejército quizá carga cadáveres: desventura.' },
+      { position: 4, text: 'El ejército acampa a la izquierda: sin falta.' },
+      { position: 5, text: 'Hay presas en el campo: propicio capturarlas, sin falta. El primogénito dirige el ejército; el menor carga cadáveres: la perseverancia trae desventura.' },
+      { position: 6, text: 'El gran soberano da el mandato: funda estados y establece casas. No emplear al hombre vulgar.' },
+    ],
+  },
+  8: {
+    name: 'La Unión',
+    meaning: 'La unión, solidaridad, alianza',
+    judgment: 'Buena fortuna. Examina el oráculo: sublime, duradera perseverancia. Sin culpa. Los inquietos vienen. Para el rezagado, adversidad.',
+    image: 'Agua sobre la tierra: la Unión. Los antiguos reyes establecieron miríadas de estados y se aliaron con los señores feudales.',
+    lines: [
+      { position: 1, text: 'Con sinceridad se une a él: sin falta. Sinceridad que colma la vasija; al final llega otra ventura.' },
+      { position: 2, text: 'Unirse desde dentro: la perseverancia trae ventura.' },
+      { position: 3, text: 'Unirse con quien no debe.' },
+      { position: 4, text: 'Unirse hacia fuera: la perseverancia trae ventura.' },
+      { position: 5, text: 'Unión manifiesta: el rey caza por tres lados y deja escapar la presa de delante; la gente de la aldea no está alarmada. Ventura.' },
+      { position: 6, text: 'Unirse sin cabeza: desventura.' },
+    ],
+  },
+  9: {
+    name: 'El Poder Domesticador de lo Pequeño',
+    meaning: 'El poder domesticador de lo pequeño, pequeña acumulación',
+    judgment: 'Éxito. Nubes densas sin lluvia desde nuestra región occidental.',
+    image: 'El viento recorre el cielo: el Poder Domesticador de lo Pequeño. El hombre superior cultiva las virtudes de la cultura.',
+    lines: [
+      { position: 1, text: 'Volver por su propio camino: ¿qué falta hay? Ventura.' },
+      { position: 2, text: 'Volver arrastrado: ventura.' },
+      { position: 3, text: 'El carro pierde los radios; marido y mujer se vuelven la cara.' },
+      { position: 4, text: 'Con sinceridad, la sangre se va y el temor se disipa. Sin falta.' },
+      { position: 5, text: 'Con sinceridad estrechamente unida, enriquece a su vecino.' },
+      { position: 6, text: 'Ya llovió, ya se descansa; se honra la virtud acumulada. La mujer firme corre peligro. La luna casi llena: si el noble avanza, desventura.' },
+    ],
+  },
+  10: {
+    name: 'El Porte',
+    meaning: 'El porte, la conducta, pisar con cuidado',
+    judgment: 'Pisar la cola del tigre. No muerde al hombre. Éxito.',
+    image: 'Arriba el cielo, abajo el lago: el Porte. El hombre superior distingue entre lo alto y lo bajo, y establece la voluntad del pueblo.',
+    lines: [
+      { position: 1, text: 'Pisar con sencillez: avanzar sin falta.' },
+      { position: 2, text: 'Pisar un camino llano y amplio: el hombre retirado, con perseverancia, tiene ventura.' },
+      { position: 3, text: 'El tuerto puede ver, el cojo puede andar; pisa la cola del tigre y este muerde al hombre: desventura. El guerrero actúa por el gran señor.' },
+      { position: 4, text: 'Pisa la cola del tigre con temor y cautela: al final ventura.' },
+      { position: 5, text: 'Pisar resuelto: perseverancia en el peligro.' },
+      { position: 6, text: 'Mirar el camino pisado y examinar los presagios: si se completa el giro, elevada ventura.' },
+    ],
+  },
+  13: {
+    name: 'La Comunidad con los Hombres',
+    meaning: 'Comunidad con los hombres, hermandad, unión',
+    judgment: 'Comunidad con los hombres en lo abierto. Éxito. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
+    image: 'Cielo y fuego: la Comunidad con los Hombres. El hombre superior organiza los clanes y distingue las cosas.',
+    lines: [
+      { position: 1, text: 'Comunidad a la puerta: sin falta.' },
+      { position: 2, text: 'Comunidad dentro del clan: pesar.' },
+      { position: 3, text: 'Esconde tropas en la maleza, sube a la alta colina; en tres años no se alza.' },
+      { position: 4, text: 'Sube a la muralla pero no puede atacar: ventura.' },
+      { position: 5, text: 'Comunidad: primero llantos y lamentos, después risas. El gran ejército vence y se encuentran.' },
+      { position: 6, text: 'Comunidad en las afueras: sin arrepentimiento.' },
+    ],
+  },
+  14: {
+    name: 'La Gran Posesión',
+    meaning: 'La gran posesión, abundancia, prosperidad',
+    judgment: 'Sublime éxito.',
+    image: 'Fuego en lo alto del cielo: la Gran Posesión. El hombre superior reprime el mal y promueve el bien.',
+    lines: [
+      { position: 1, text: 'Sin trato con lo dañino: no es falta; en la dificultad, sin falta.' },
+      { position: 2, text: 'Un gran carro para cargar: hay adónde ir, sin falta.' },
+      { position: 3, text: 'El duque ofrece banquete al Hijo del Cielo; el hombre vulgar no puede.' },
+      { position: 4, text: 'No ostenta su abundancia: sin falta.' },
+      { position: 5, text: 'Su sinceridad se comunica, con dignidad: ventura.' },
+      { position: 6, text: 'El Cielo lo protege: ventura, nada deja de ser propicio.' },
+    ],
+  },
+  15: {
+    name: 'La Modestia',
+    meaning: 'La modestia, humildad, contención',
+    judgment: 'Éxito. El hombre superior tiene buen final.',
+    image: 'En medio de la tierra hay una montaña: la Modestia. El hombre superior reduce lo excesivo y aumenta lo escaso.',
+    lines: [
+      { position: 1, text: 'El noble humilde en su humildad puede cruzar el gran río: ventura.' },
+      { position: 2, text: 'Humildad que resuena: la perseverancia trae ventura.' },
+      { position: 3, text: 'El noble humilde y laborioso llega al final: ventura.' },
+      { position: 4, text: 'Nada deja de ser propicio: desplegar la humildad.' },
+      { position: 5, text: 'No se enriquece solo sino con su vecino: propicio atacar y someter; nada deja de ser propicio.' },
+      { position: 6, text: 'Humildad que resuena: propicio movilizar el ejército para someter ciudades y estados.' },
+    ],
+  },
+  16: {
+    name: 'El Entusiasmo',
+    meaning: 'El entusiasmo, alegría, preparación',
+    judgment: 'Propicio establecer feudatarios y mover el ejército.',
+    image: 'Trueno surge de la tierra: el Entusiasmo. Los antiguos reyes hacían música para honrar la virtud.',
+    lines: [
+      { position: 1, text: 'Entusiasmo que resuena: desventura.' },
+      { position: 2, text: 'Firme como la piedra; no espera todo el día: la perseverancia trae ventura.' },
+      { position: 3, text: 'Entusiasmo que mira hacia arriba: pesar; tardar trae pesar.' },
+      { position: 4, text: 'Fuente del entusiasmo: gran logro. No dudes; los amigos se juntan como cabellos en el broche.' },
+      { position: 5, text: 'Perseverancia en la enfermedad: persiste sin morir.' },
+      { position: 6, text: 'Entusiasmo ciego: consumado, si cambia, sin falta.' },
+    ],
+  },
+  17: {
+    name: 'El Seguimiento',
+    meaning: 'El seguimiento, adaptarse, ir con la corriente',
+    judgment: 'Sublime éxito. Propicio mediante la perseverancia. Sin culpa.',
+    image: 'Trueno dentro del lago: el Seguimiento. El hombre superior al anochecer entra a descansar.',
+    lines: [
+      { position: 1, text: 'El cargo cambia: la perseverancia trae ventura; salir por la puerta y tratar con otros da mérito.' },
+      { position: 2, text: 'Atado al muchacho, pierde al hombre maduro.' },
+      { position: 3, text: 'Atado al hombre maduro, pierde al muchacho. Siguiendo, lo que busca lo obtiene: propicio permanecer firme.' },
+      { position: 4, text: 'Seguir para obtener: la perseverancia trae desventura. Con sinceridad en el camino y claridad, ¿qué falta hay?' },
+      { position: 5, text: 'Sinceridad en lo excelente: ventura.' },
+      { position: 6, text: 'Lo sujeta y lo ata, y luego lo sigue y lo liga; el rey ofrece sacrificio en la Montaña del Oeste.' },
+    ],
+  },
+  18: {
+    name: 'La Corrupción',
+    meaning: 'La corrupción, reparar lo echado a perder, renovación',
+    judgment: 'Sublime éxito. Propicio cruzar la gran agua. Tres días antes del comienzo, tres días después del comienzo.',
+    image: 'Viento bajo la montaña: la Corrupción. El hombre superior estimula al pueblo y nutre la virtud.',
+    lines: [
+      { position: 1, text: 'Corregir la corrupción del padre: hay un hijo, el difunto queda sin falta; peligro, al final ventura.' },
+      { position: 2, text: 'Corregir la corrupción de la madre: no se puede ser demasiado firme.' },
+      { position: 3, text: 'Corregir la corrupción del padre: pequeño pesar, sin gran falta.' },
+      { position: 4, text: 'Consentir la corrupción del padre: avanzar trae pesar.' },
+      { position: 5, text: 'Corregir la corrupción del padre: se gana alabanza.' },
+      { position: 6, text: 'No sirve a reyes ni señores; eleva y ennoblece su propia tarea.' },
+    ],
+  },
+  21: {
+    name: 'La Mordedura a Través',
+    meaning: 'La mordedura, morder a través, justicia',
+    judgment: 'Éxito. Propicio aplicar castigos.',
+    image: 'Trueno y fuego: la Mordedura a Través. Los antiguos reyes clarificaban los castigos y establecían las leyes.',
+    lines: [
+      { position: 1, text: 'Grillos en los pies que ocultan los dedos: sin falta.' },
+      { position: 2, text: 'Morder la carne tierna hasta hundir la nariz: sin falta.' },
+      { position: 3, text: 'Morder carne curada y encontrar veneno: pequeño pesar, sin falta.' },
+      { position: 4, text: 'Morder carne seca con hueso y hallar una punta de metal: propicia la firmeza en la dificultad; ventura.' },
+      { position: 5, text: 'Morder carne seca y hallar oro amarillo: firmeza ante el peligro, sin falta.' },
+      { position: 6, text: 'Cargar la canga que oculta las orejas: desventura.' },
+    ],
+  },
+  22: {
+    name: 'La Gracia',
+    meaning: 'La gracia, ornamento, belleza formal',
+    judgment: 'Éxito. En lo pequeño, propicio emprender algo.',
+    image: 'Fuego bajo la montaña: la Gracia. El hombre superior aclara los asuntos del gobierno.',
+    lines: [
+      { position: 1, text: 'Adorna sus pies: deja el carro y va a pie.' },
+      { position: 2, text: 'Adorna su barba.' },
+      { position: 3, text: 'Adornado y lustroso: la perseverancia constante trae ventura.' },
+      { position: 4, text: 'Adornado y canoso; un caballo blanco como alado. No son bandidos, sino pretendientes.' },
+      { position: 5, text: 'Adorno en colinas y jardines; el rollo de seda es escaso: pesar, al final ventura.' },
+      { position: 6, text: 'Adorno blanco: sin falta.' },
+    ],
+  },
+  25: {
+    name: 'La Inocencia',
+    meaning: 'La inocencia, sin falsedad, lo inesperado',
+    judgment: 'Sublime éxito, propicio mediante la perseverancia. Si no es correcto, hay calamidad; no propicio emprender nada.',
+    image: 'Bajo el cielo el trueno avanza: la Inocencia. Los antiguos reyes con abundancia correspondían a las estaciones y nutrían todas las cosas.',
+    lines: [
+      { position: 1, text: 'Sin falsedad: avanzar es venturoso.' },
+      { position: 2, text: 'No ara y cosecha, no desbroza y cultiva: entonces es propicio tener adónde ir.' },
+      { position: 3, text: 'Calamidad inesperada: alguien ata un buey; lo que gana el caminante es la calamidad del aldeano.' },
+      { position: 4, text: 'Puede perseverar: sin falta.' },
+      { position: 5, text: 'Enfermedad inesperada: sin medicina, habrá alegría.' },
+      { position: 6, text: 'Sin falsedad, actuar trae calamidad: nada propicio.' },
+    ],
+  },
+  26: {
+    name: 'El Poder Domesticador de lo Grande',
+    meaning: 'El poder domesticador de lo grande, gran acumulación',
+    judgment: 'Propicio mediante la perseverancia. No comer en casa es buena fortuna. Propicio cruzar la gran agua.',
+    image: 'El cielo dentro de la montaña: el Poder Domesticador de lo Grande. El hombre superior conoce muchos dichos y hechos del pasado.',
+    lines: [
+      { position: 1, text: 'Hay peligro: propicio detenerse.' },
+      { position: 2, text: 'El carro pierde su sujeción.' },
+      { position: 3, text: 'Buenos caballos en persecución: propicia la firmeza en la dificultad. Ejercitarse a diario en el carro y la defensa: propicio tener adónde ir.' },
+      { position: 4, text: 'La tablilla en los cuernos del ternero: elevada ventura.' },
+      { position: 5, text: 'Los colmillos del cerdo castrado: ventura.' },
+      { position: 6, text: '¡Qué camino del Cielo!: éxito.' },
+    ],
+  },
+  27: {
+    name: 'La Nutrición',
+    meaning: 'Las comisuras de la boca, nutrición, sustento',
+    judgment: 'La perseverancia trae buena fortuna. Observa la nutrición y cómo uno busca llenar su boca.',
+    image: 'Trueno bajo la montaña: la Nutrición. El hombre superior es cuidadoso con sus palabras.',
+    lines: [
+      { position: 1, text: 'Abandonas tu tortuga prodigiosa y miras mis mandíbulas abiertas: desventura.' },
+      { position: 2, text: 'Sustento invertido, contra la norma; buscar sustento en la colina: avanzar trae desventura.' },
+      { position: 3, text: 'Contrariar el sustento: la perseverancia trae desventura; diez años sin actuar, nada propicio.' },
+      { position: 4, text: 'Sustento invertido: ventura. El tigre mira fijamente, su deseo persiste sin cesar: sin falta.' },
+      { position: 5, text: 'Contra la norma: permanecer firme trae ventura; no se puede cruzar el gran río.' },
+      { position: 6, text: 'Fuente del sustento: peligro y ventura; propicio cruzar el gran río.' },
+    ],
+  },
+  28: {
+    name: 'El Exceso de lo Grande',
+    meaning: 'El exceso de lo grande, preponderancia, extremo',
+    judgment: 'La viga maestra se dobla. Propicio emprender algo. Éxito.',
+    image: 'El lago sobre el viento: el Exceso de lo Grande. El hombre superior permanece solo sin temor.',
+    lines: [
+      { position: 1, text: 'Extender juncos blancos como base: sin falta.' },
+      { position: 2, text: 'El sauce seco echa brotes; el anciano toma una joven esposa: nada deja de ser propicio.' },
+      { position: 3, text: 'La viga se comba: desventura.' },
+      { position: 4, text: 'La viga se eleva: ventura. Si hay otra cosa, pesar.' },
+      { position: 5, text: 'El sauce seco echa flores; la anciana toma un joven marido: sin falta, sin alabanza.' },
+      { position: 6, text: 'Vadear en exceso hasta cubrir la cabeza: desventura, sin falta.' },
+    ],
+  },
+  29: {
+    name: 'Lo Abismal',
+    meaning: 'Lo abismal, el agua, peligro repetido',
+    judgment: 'El Abismo repetido. Con sinceridad, solo el corazón tiene éxito. La acción es estimada.',
+    image: 'El agua fluye sin cesar: lo Abismal. El hombre superior actúa con virtud constante.',
+    lines: [
+      { position: 1, text: 'Abismo repetido: entrar en la fosa del abismo, desventura.' },
+      { position: 2, text: 'El abismo tiene peligro: buscar lo pequeño se obtiene.' },
+      { position: 3, text: 'Venir de abismo en abismo; peligro y apoyo inestable; entrar en la fosa del abismo: no actuar.' },
+      { position: 4, text: 'Una jarra de vino y dos cestas de grano en vasija de barro; entregar lo pactado por la ventana: al final sin falta.' },
+      { position: 5, text: 'El abismo no se colma; cuando se nivela, sin falta.' },
+      { position: 6, text: 'Atado con cuerdas trenzadas, puesto entre zarzas: tres años sin lograrlo, desventura.' },
+    ],
+  },
+  30: {
+    name: 'Lo Adherente',
+    meaning: 'Lo adherente, el fuego, claridad',
+    judgment: 'Propicio mediante la perseverancia. Éxito. Criar una vaca trae buena fortuna.',
+    image: 'La claridad surge dos veces: lo Adherente. El gran hombre perpetuando la luz ilumina los cuatro puntos cardinales.',
+    lines: [
+      { position: 1, text: 'Pasos entrecruzados: con reverencia, sin falta.' },
+      { position: 2, text: 'Luz amarilla: elevada ventura.' },
+      { position: 3, text: 'La luz del sol poniente: si no se golpea la vasija y se canta, vendrán los lamentos de la vejez: desventura.' },
+      { position: 4, text: 'Llega de golpe: arde, muere, es abandonado.' },
+      { position: 5, text: 'Lágrimas a raudales, tristeza y lamentos: ventura.' },
+      { position: 6, text: 'El rey sale en campaña: es digno decapitar al cabecilla y capturar a quienes no son de su banda. Sin falta.' },
+    ],
+  },
+  31: {
+    name: 'La Influencia',
+    meaning: 'La influencia, atracción mutua, cortejo',
+    judgment: 'Éxito. Propicio mediante la perseverancia. Tomar esposa trae buena fortuna.',
+    image: 'Lago sobre la montaña: la Influencia. El hombre superior con humildad recibe a las personas.',
+    lines: [
+      { position: 1, text: 'Influjo en el dedo gordo.' },
+      { position: 2, text: 'Influjo en las pantorrillas: desventura; quedarse quieto, ventura.' },
+      { position: 3, text: 'Influjo en los muslos, se aferra a lo que sigue: avanzar trae pesar.' },
+      { position: 4, text: 'La perseverancia trae ventura, el arrepentimiento se desvanece. Inquieto va y viene: los amigos siguen tu pensamiento.' },
+      { position: 5, text: 'Influjo en la espalda: sin arrepentimiento.' },
+      { position: 6, text: 'Influjo en las mandíbulas, las mejillas y la lengua.' },
+    ],
+  },
+  32: {
+    name: 'La Duración',
+    meaning: 'La duración, constancia, perseverancia',
+    judgment: 'Éxito. Sin culpa. Propicio mediante la perseverancia. Propicio emprender algo.',
+    image: 'Trueno y viento: la Duración. El hombre superior permanece firme y no cambia de dirección.',
+    lines: [
+      { position: 1, text: 'Constancia ahondada: la perseverancia trae desventura, nada propicio.' },
+      { position: 2, text: 'El arrepentimiento se desvanece.' },
+      { position: 3, text: 'No es constante en su virtud: quizá reciba vergüenza; la perseverancia trae pesar.' },
+      { position: 4, text: 'En el campo no hay presa.' },
+      { position: 5, text: 'Constante en su virtud, firme: ventura para la mujer, desventura para el hombre.' },
+      { position: 6, text: 'Constancia agitada: desventura.' },
+    ],
+  },
+  35: {
+    name: 'El Progreso',
+    meaning: 'El progreso, avance, ascenso',
+    judgment: 'El marqués pacífico recibe caballos en abundancia y es recibido tres veces en un día.',
+    image: 'El fuego surge de la tierra: el Progreso. El hombre superior ilumina su virtud luminosa.',
+    lines: [
+      { position: 1, text: 'Avanzar y ser frenado: la perseverancia trae ventura. Sin confianza, la holgura no trae falta.' },
+      { position: 2, text: 'Avanzar con pesar: la perseverancia trae ventura. Recibe esta gran bendición de su abuela.' },
+      { position: 3, text: 'Todos asienten: el arrepentimiento se desvanece.' },
+      { position: 4, text: 'Avanzar como una rata de campo: la perseverancia es peligrosa.' },
+      { position: 5, text: 'El arrepentimiento se desvanece; no te inquietes por perder o ganar: avanzar trae ventura, nada deja de ser propicio.' },
+      { position: 6, text: 'Avanzar con los cuernos, sólo para castigar la ciudad: peligro y ventura, sin falta; la perseverancia trae pesar.' },
+    ],
+  },
+  36: {
+    name: 'El Oscurecimiento de la Luz',
+    meaning: 'El oscurecimiento de la luz, luz herida, adversidad',
+    judgment: 'Propicio en la dificultad mediante la perseverancia.',
+    image: 'La luz entra en la tierra: el Oscurecimiento de la Luz. El hombre superior vela su claridad ante las dificultades.',
+    lines: [
+      { position: 1, text: 'La luz herida en vuelo baja sus alas. El noble en camino no come en tres días; tiene adónde ir, el anfitrión tiene palabras.' },
+      { position: 2, text: 'La luz herida, herido en el muslo izquierdo: salvado por un caballo fuerte, ventura.' },
+      { position: 3, text: 'La luz herida en la cacería del sur: captura al gran cabecilla; no se puede apresurar la perseverancia.' },
+      { position: 4, text: 'Entra en el costado izquierdo del vientre, capta el corazón de la luz herida y sale por la puerta del patio.' },
+      { position: 5, text: 'La luz herida del príncipe Ji: propicia la perseverancia.' },
+      { position: 6, text: 'Sin luz, oscuridad: primero sube al cielo, después entra en la tierra.' },
+    ],
+  },
+  37: {
+    name: 'La Familia',
+    meaning: 'La familia, el clan, el hogar',
+    judgment: 'Propicio para la perseverancia de la mujer.',
+    image: 'El viento surge del fuego: la Familia. El hombre superior tiene sustancia en sus palabras y constancia en su conducta.',
+    lines: [
+      { position: 1, text: 'Resguardar la casa: el arrepentimiento se desvanece.' },
+      { position: 2, text: 'Sin nada que perseguir, en el centro prepara la comida: la perseverancia trae ventura.' },
+      { position: 3, text: 'La gente de la casa gime de rigor: arrepentimiento y peligro, ventura. Mujeres y niños ríen a carcajadas: al final, pesar.' },
+      { position: 4, text: 'Enriquecer la casa: gran ventura.' },
+      { position: 5, text: 'El rey llega a su casa: no te inquietes, ventura.' },
+      { position: 6, text: 'Hay confianza y majestad: al final, ventura.' },
+    ],
+  },
+  38: {
+    name: 'La Oposición',
+    meaning: 'La oposición, divergencia, miradas opuestas',
+    judgment: 'En asuntos pequeños, buena fortuna.',
+    image: 'Fuego sobre el lago: la Oposición. El hombre superior siendo igual mantiene su diferencia.',
+    lines: [
+      { position: 1, text: 'El arrepentimiento se desvanece. Se pierde el caballo: no lo persigas, vuelve por sí mismo. Ver al malvado: sin falta.' },
+      { position: 2, text: 'Encontrar al señor en el callejón: sin falta.' },
+      { position: 3, text: 'Se ve el carro arrastrado, el buey retenido, el hombre tatuado y desnarigado: sin comienzo, con final.' },
+      { position: 4, text: 'Oposición y soledad: encuentra a un hombre fundamental; confianza mutua, peligro, sin falta.' },
+      { position: 5, text: 'El arrepentimiento se desvanece. Su clan muerde la piel: avanzar, ¿qué falta hay?' },
+      { position: 6, text: 'Oposición y soledad: ve un cerdo cubierto de barro, un carro cargado de espíritus. Primero tensa el arco, luego lo suelta: no son bandidos sino pretendientes. Avanzar y encontrar la lluvia trae ventura.' },
+    ],
+  },
+  39: {
+    name: 'La Obstrucción',
+    meaning: 'La obstrucción, dificultad, impedimento',
+    judgment: 'Propicio el suroeste. No propicio el noreste. Propicio ver al gran hombre. La perseverancia trae buena fortuna.',
+    image: 'Agua sobre la montaña: la Obstrucción. El hombre superior se vuelve hacia sí mismo y cultiva su virtud.',
+    lines: [
+      { position: 1, text: 'Ir es obstáculo, venir trae elogio.' },
+      { position: 2, text: 'El ministro del rey, obstáculo tras obstáculo, no por causa propia.' },
+      { position: 3, text: 'Ir es obstáculo, venir es regresar.' },
+      { position: 4, text: 'Ir es obstáculo, venir es unirse.' },
+      { position: 5, text: 'Gran obstáculo: llegan amigos.' },
+      { position: 6, text: 'Ir es obstáculo, venir es grandeza: ventura; propicio ver al gran hombre.' },
+    ],
+  },
+  40: {
+    name: 'La Liberación',
+    meaning: 'La liberación, solución, alivio',
+    judgment: 'Propicio el suroeste. Si no hay adónde ir, el retorno trae buena fortuna. Si hay adónde ir, actuar pronto trae buena fortuna.',
+    image: 'Trueno y lluvia actúan: la Liberación. El hombre superior perdona las faltas y absuelve los crímenes.',
+    lines: [
+      { position: 1, text: 'Sin falta.' },
+      { position: 2, text: 'En la cacería se capturan tres zorros y se obtiene una flecha amarilla: la perseverancia trae ventura.' },
+      { position: 3, text: 'Carga a cuestas y monta en carro: atrae a los bandidos; la perseverancia trae pesar.' },
+      { position: 4, text: 'Libera tu dedo gordo: el amigo llega y hay confianza.' },
+      { position: 5, text: 'El noble sólo tiene liberación: ventura; confianza incluso del hombre vulgar.' },
+      { position: 6, text: 'El duque dispara al halcón sobre la alta muralla y lo abate: nada deja de ser propicio.' },
+    ],
+  },
+  41: {
+    name: 'La Disminución',
+    meaning: 'La disminución, reducción, sacrificio',
+    judgment: 'Con sinceridad, sublime buena fortuna. Sin culpa. Se puede perseverar. Propicio emprender algo.',
+    image: 'Bajo la montaña hay un lago: la Disminución. El hombre superior frena la ira y reprime los deseos.',
+    lines: [
+      { position: 1, text: 'Terminada la tarea, partir deprisa: sin falta; medir cuánto disminuir.' },
+      { position: 2, text: 'Propicia la perseverancia; avanzar trae desventura. Sin disminuir, aumentar.' },
+      { position: 3, text: 'Tres personas caminan: se pierde una; una persona camina: encuentra a su amigo.' },
+      { position: 4, text: 'Disminuir su dolencia: hacerlo deprisa trae alegría, sin falta.' },
+      { position: 5, text: 'Alguien lo aumenta con una tortuga de diez pares de conchas: no puede rehusarse, elevada ventura.' },
+      { position: 6, text: 'Sin disminuir, aumentar: sin falta, la perseverancia trae ventura, propicio tener adónde ir; obtiene servidores sin familia.' },
+    ],
+  },
+  42: {
+    name: 'El Aumento',
+    meaning: 'El aumento, beneficio, incremento',
+    judgment: 'Propicio emprender algo. Propicio cruzar la gran agua.',
+    image: 'Viento y trueno: el Aumento. El hombre superior al ver el bien se mueve hacia él.',
+    lines: [
+      { position: 1, text: 'Propicio emplearse en grandes obras: elevada ventura, sin falta.' },
+      { position: 2, text: 'Alguien lo aumenta con una tortuga de diez pares de conchas: no puede rehusarse; la perseverancia perpetua trae ventura. El rey ofrece sacrificio al Soberano: ventura.' },
+      { position: 3, text: 'Aumentarlo mediante sucesos desgraciados: sin falta. Con confianza, andando por el medio, informar al duque con la tablilla de jade.' },
+      { position: 4, text: 'Andando por el medio, informa al duque y éste lo sigue: propicio servir de apoyo para trasladar el Estado.' },
+      { position: 5, text: 'Con confianza y corazón benévolo, sin preguntar: elevada ventura. Con confianza, benevolencia hacia mi virtud.' },
+      { position: 6, text: 'Nadie lo aumenta, alguien lo golpea; el corazón no es constante: desventura.' },
+    ],
+  },
+  45: {
+    name: 'La Reunión',
+    meaning: 'La reunión, congregación, asamblea',
+    judgment: 'Éxito. El rey se acerca al templo. Propicio ver al gran hombre. Éxito. Propicio mediante la perseverancia. Usar grandes ofrendas trae buena fortuna.',
+    image: 'El lago sobre la tierra: la Reunión. El hombre superior prepara las armas para lo imprevisto.',
+    lines: [
+      { position: 1, text: 'Hay confianza pero no hasta el final: desorden y reunión. Si grita, un apretón de manos y se ríe; no te inquietes, avanzar sin falta.' },
+      { position: 2, text: 'Ser atraído: ventura, sin falta; con confianza, propicio ofrecer el sacrificio de primavera.' },
+      { position: 3, text: 'Reunión con suspiros: nada propicio; avanzar sin falta, pequeño pesar.' },
+      { position: 4, text: 'Gran ventura, sin falta.' },
+      { position: 5, text: 'Reunión con posición: sin falta. Sin confianza: elevada y perpetua perseverancia, el arrepentimiento se desvanece.' },
+      { position: 6, text: 'Suspiros, lágrimas y mocos: sin falta.' },
+    ],
+  },
+  46: {
+    name: 'El Ascenso',
+    meaning: 'El ascenso, empuje hacia arriba, promoción',
+    judgment: 'Sublime éxito. Es propicio ver al gran hombre. No te preocupes. Una expedición al sur trae buena fortuna.',
+    image: 'En la tierra crece la madera: el Ascenso. El hombre superior con docilidad acumula lo pequeño para alcanzar lo alto y grande.',
+    lines: [
+      { position: 1, text: 'Ascenso aceptado: gran ventura.' },
+      { position: 2, text: 'Con confianza, propicio ofrecer el sacrificio de primavera: sin falta.' },
+      { position: 3, text: 'Ascender a una ciudad vacía.' },
+      { position: 4, text: 'El rey ofrece sacrificio en el monte Qi: ventura, sin falta.' },
+      { position: 5, text: 'La perseverancia trae ventura: subir los escalones.' },
+      { position: 6, text: 'Ascenso en la oscuridad: propicia una perseverancia incesante.' },
+    ],
+  },
+  47: {
+    name: 'La Opresión',
+    meaning: 'La opresión, agotamiento, dificultad extrema',
+    judgment: 'Éxito. La perseverancia. El gran hombre tiene buena fortuna. Sin culpa. Si tiene palabras, no serán creídas.',
+    image: 'El lago sin agua: la Opresión. El hombre superior arriesga su vida para cumplir su voluntad.',
+    lines: [
+      { position: 1, text: 'Las nalgas agobiadas en un tocón; entra en un valle oscuro: tres años sin ver a nadie.' },
+      { position: 2, text: 'Agobiado por el vino y la comida; llegan las bandas rojas: propicio ofrecer sacrificio; avanzar trae desventura, sin falta.' },
+      { position: 3, text: 'Agobiado por la piedra, apoyado en abrojos; entra en su casa y no ve a su esposa: desventura.' },
+      { position: 4, text: 'Llega lentamente, agobiado por el carro de metal: pesar, pero hay final.' },
+      { position: 5, text: 'Desnarigado y amputado, agobiado por las bandas escarlata; poco a poco llega el alivio: propicio ofrecer sacrificios.' },
+      { position: 6, text: 'Agobiado por enredaderas, en lo inestable; dice: moverse trae arrepentimiento. Hay arrepentimiento: avanzar trae ventura.' },
+    ],
+  },
+  48: {
+    name: 'El Pozo',
+    meaning: 'El pozo, fuente inagotable, renovación',
+    judgment: 'La ciudad puede cambiar, pero el pozo no cambia. No pierde ni gana. Van y vienen al pozo. Casi llegar y no sacar el agua, o romper el cántaro, trae adversidad.',
+    image: 'Agua sobre madera: el Pozo. El hombre superior estimula al pueblo y los exhorta a ayudarse.',
+    lines: [
+      { position: 1, text: 'Pozo cenagoso, no se bebe; en el pozo viejo no hay aves.' },
+      { position: 2, text: 'En el fondo del pozo se dispara a los pececillos; el cántaro roto gotea.' },
+      { position: 3, text: 'El pozo limpio y nadie bebe: mi corazón se aflige. Se puede sacar agua; si el rey es lúcido, todos reciben su bendición.' },
+      { position: 4, text: 'El pozo revestido: sin falta.' },
+      { position: 5, text: 'El pozo claro: se bebe de la fuente fría.' },
+      { position: 6, text: 'El pozo recogido, no se cubre: hay confianza, elevada ventura.' },
+    ],
+  },
+  49: {
+    name: 'La Revolución',
+    meaning: 'La revolución, transformación, muda',
+    judgment: 'En el día propio se es creído. Sublime éxito. Propicio mediante la perseverancia. El arrepentimiento desaparece.',
+    image: 'Fuego en medio del lago: la Revolución. El hombre superior ordena el calendario y aclara las estaciones.',
+    lines: [
+      { position: 1, text: 'Atado con cuero de buey amarillo.' },
+      { position: 2, text: 'Llegado el día, se cambia: avanzar trae ventura, sin falta.' },
+      { position: 3, text: 'Avanzar trae desventura, la perseverancia es peligrosa. La palabra del cambio se cumple tres veces: hay confianza.' },
+      { position: 4, text: 'El arrepentimiento se desvanece. Hay confianza, cambiar el mandato: ventura.' },
+      { position: 5, text: 'El gran hombre cambia como el tigre: sin consultar el oráculo hay confianza.' },
+      { position: 6, text: 'El noble cambia como el leopardo, el hombre vulgar cambia el rostro: avanzar trae desventura, permanecer firme trae ventura.' },
+    ],
+  },
+  50: {
+    name: 'El Caldero',
+    meaning: 'El caldero, transformación, nutrición sagrada',
+    judgment: 'Sublime buena fortuna. Éxito.',
+    image: 'Fuego sobre madera: el Caldero. El hombre superior rectifica su posición y consolida su destino.',
+    lines: [
+      { position: 1, text: 'El caldero con las patas al revés: propicio sacar lo malo; obtener concubina por su hijo: sin falta.' },
+      { position: 2, text: 'El caldero tiene contenido; mi rival está enfermo y no puede alcanzarme: ventura.' },
+      { position: 3, text: 'Las asas del caldero cambiadas, su marcha se obstruye; la grasa de faisán no se come. Al llover, mengua el arrepentimiento: al final, ventura.' },
+      { position: 4, text: 'El caldero rompe una pata y vuelca el guiso del duque; su aspecto queda empapado: desventura.' },
+      { position: 5, text: 'El caldero de asas amarillas y barra de metal: propicia la perseverancia.' },
+      { position: 6, text: 'El caldero con barra de jade: gran ventura, nada deja de ser propicio.' },
+    ],
+  },
+  51: {
+    name: 'Lo Suscitativo',
+    meaning: 'Lo suscitativo, el trueno, conmoción',
+    judgment: 'Éxito. El trueno llega causando temor, después palabras y risas. El trueno aterroriza a cien millas, pero no deja caer el cáliz del sacrificio.',
+    image: 'Trueno repetido: lo Suscitativo. El hombre superior con temor y temblor cultiva su persona.',
+    lines: [
+      { position: 1, text: 'Llega el trueno con temor; después, risas y palabras alegres: ventura.' },
+      { position: 2, text: 'Llega el trueno con peligro; se pierden cien mil cauris; sube a los nueve montes: no los persigas, en siete días los recobras.' },
+      { position: 3, text: 'El trueno aturde: moverse con el trueno, sin calamidad.' },
+      { position: 4, text: 'El trueno se hunde en el lodo.' },
+      { position: 5, text: 'El trueno va y viene, peligro: nada se pierde, hay asuntos.' },
+      { position: 6, text: 'El trueno desmorona, la mirada espantada: avanzar trae desventura. El trueno no en uno mismo sino en el vecino: sin falta. En el matrimonio hay palabras.' },
+    ],
+  },
+  52: {
+    name: 'El Aquietamiento',
+    meaning: 'El aquietamiento, la montaña, detenerse',
+    judgment: 'Aquietar la espalda de modo que ya no siente el cuerpo. Camina por el patio y no ve a las personas. Sin culpa.',
+    image: 'Montañas sucesivas: el Aquietamiento. El hombre superior no permite que sus pensamientos vayan más allá de su posición.',
+    lines: [
+      { position: 1, text: 'Detener los dedos del pie: sin falta, propicia la perseverancia perpetua.' },
+      { position: 2, text: 'Detener las pantorrillas: no salva a quien sigue, su corazón no está contento.' },
+      { position: 3, text: 'Detener la cintura, desgarrar la espalda: peligro, el corazón se abrasa.' },
+      { position: 4, text: 'Detener el tronco: sin falta.' },
+      { position: 5, text: 'Detener las mandíbulas: las palabras tienen orden, el arrepentimiento se desvanece.' },
+      { position: 6, text: 'Quietud sincera: ventura.' },
+    ],
+  },
+  53: {
+    name: 'El Desarrollo Gradual',
+    meaning: 'El desarrollo gradual, progreso paulatino',
+    judgment: 'La doncella es dada en matrimonio. Buena fortuna. Propicio mediante la perseverancia.',
+    image: 'Sobre la montaña hay viento: el Desarrollo Gradual. El hombre superior mora en virtud digna y mejora las costumbres.',
+    lines: [
+      { position: 1, text: 'El ánsar avanza hacia la orilla: el joven en peligro, hay palabras, sin falta.' },
+      { position: 2, text: 'El ánsar avanza hacia la roca: come y bebe con alegría, ventura.' },
+      { position: 3, text: 'El ánsar avanza hacia la meseta: el marido parte y no vuelve, la esposa concibe y no da a luz: desventura; propicio defenderse de los bandidos.' },
+      { position: 4, text: 'El ánsar avanza hacia el árbol: quizá halle una rama plana, sin falta.' },
+      { position: 5, text: 'El ánsar avanza hacia la colina: la esposa tres años sin concebir; al final nada la vence: ventura.' },
+      { position: 6, text: 'El ánsar avanza hacia la meseta alta: sus plumas sirven para el rito, ventura.' },
+    ],
+  },
+  54: {
+    name: 'La Doncella Desposada',
+    meaning: 'La doncella desposada, matrimonio, subordinación',
+    judgment: 'Emprender trae adversidad. Nada propicio.',
+    image: 'Trueno sobre el lago: la Doncella Desposada. El hombre superior reconoce lo transitorio y comprende el deterioro.',
+    lines: [
+      { position: 1, text: 'La joven casadera como hermana acompañante: el cojo puede andar, avanzar trae ventura.' },
+      { position: 2, text: 'El tuerto puede ver: propicia la perseverancia del recluido.' },
+      { position: 3, text: 'La joven casadera como sirvienta: vuelve casada como acompañante.' },
+      { position: 4, text: 'La joven casadera demora la fecha: la boda tardía tiene su tiempo.' },
+      { position: 5, text: 'El soberano Yi casa a su hermana: las mangas de la señora no igualan en belleza a las de la acompañante. La luna casi llena: ventura.' },
+      { position: 6, text: 'La mujer sostiene la cesta sin fruto; el hombre degüella la oveja sin sangre: nada propicio.' },
+    ],
+  },
+  55: {
+    name: 'La Abundancia',
+    meaning: 'La abundancia, plenitud, grandeza',
+    judgment: 'Éxito. El rey la alcanza. No te preocupes. Es apropiado ser como el sol al mediodía.',
+    image: 'Trueno y relámpago llegan juntos: la Abundancia. El hombre superior decide los litigios y ejecuta los castigos.',
+    lines: [
+      { position: 1, text: 'Encuentra a su señor compañero: aunque sean diez días, sin falta; avanzar trae honra.' },
+      { position: 2, text: 'Abundancia de toldos: a mediodía se ve la Osa; avanzar trae sospecha y enfermedad. Con confianza que se manifiesta: ventura.' },
+      { position: 3, text: 'Abundancia de cortinas: a mediodía se ven estrellas menudas; se rompe el brazo derecho: sin falta.' },
+      { position: 4, text: 'Abundancia de toldos: a mediodía se ve la Osa; encuentra a su señor igual: ventura.' },
+      { position: 5, text: 'Llega la belleza, hay celebración y elogio: ventura.' },
+      { position: 6, text: 'Abundancia en la casa, toldos sobre la familia; mira por la puerta, silencio, no hay nadie: tres años sin ver a nadie, desventura.' },
+    ],
+  },
+  56: {
+    name: 'El Viajero',
+    meaning: 'El viajero, el forastero, tránsito',
+    judgment: 'Propicio mediante la perseverancia. Éxito. Para el viajero, la perseverancia trae buena fortuna.',
+    image: 'Fuego sobre la montaña: el Viajero. El hombre superior con claridad y cautela aplica los castigos.',
+    lines: [
+      { position: 1, text: 'El viajero mezquino: así se acarrea calamidad.' },
+      { position: 2, text: 'El viajero llega a la posada, guarda sus recursos, obtiene un joven sirviente: perseverancia.' },
+      { position: 3, text: 'El viajero quema su posada, pierde a su joven sirviente: la perseverancia es peligrosa.' },
+      { position: 4, text: 'El viajero en un refugio obtiene sus recursos y un hacha: mi corazón no está contento.' },
+      { position: 5, text: 'Dispara a un faisán y pierde una flecha: al final obtiene elogio y mandato.' },
+      { position: 6, text: 'El pájaro quema su nido; el viajero primero ríe y luego gime. Pierde el buey en Yi: desventura.' },
+    ],
+  },
+  57: {
+    name: 'Lo Suave',
+    meaning: 'Lo suave, el viento, penetración gentil',
+    judgment: 'Pequeño éxito. Propicio emprender algo. Propicio ver al gran hombre.',
+    image: 'Viento sigue al viento: lo Suave. El hombre superior reitera sus mandatos al ejecutar los asuntos.',
+    lines: [
+      { position: 1, text: 'Avanzar y retroceder: propicia la perseverancia del guerrero.' },
+      { position: 2, text: 'Penetrar bajo el lecho; emplear escribas y chamanes en abundancia: ventura, sin falta.' },
+      { position: 3, text: 'Penetración reiterada: pesar.' },
+      { position: 4, text: 'El arrepentimiento se desvanece: en la cacería se obtienen tres clases de presa.' },
+      { position: 5, text: 'La perseverancia trae ventura, el arrepentimiento se desvanece, nada deja de ser propicio. Sin comienzo, con final. Tres días antes de geng, tres días después de geng: ventura.' },
+      { position: 6, text: 'Penetrar bajo el lecho, perder sus recursos y su hacha: la perseverancia trae desventura.' },
+    ],
+  },
+  58: {
+    name: 'Lo Sereno',
+    meaning: 'Lo sereno, el lago, alegría',
+    judgment: 'Éxito. Propicio mediante la perseverancia.',
+    image: 'Lagos conectados: lo Sereno. El hombre superior con amigos discute y practica.',
+    lines: [
+      { position: 1, text: 'Alegría armoniosa: ventura.' },
+      { position: 2, text: 'Alegría confiada: ventura, el arrepentimiento se desvanece.' },
+      { position: 3, text: 'Alegría que viene: desventura.' },
+      { position: 4, text: 'Alegría negociada, aún sin paz: apartado de la enfermedad, hay alegría.' },
+      { position: 5, text: 'Confianza en lo que desgasta: hay peligro.' },
+      { position: 6, text: 'Alegría atraída.' },
+    ],
+  },
+  59: {
+    name: 'La Dispersión',
+    meaning: 'La dispersión, disolución, disipación',
+    judgment: 'Éxito. El rey se acerca a tener un templo. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
+    image: 'El viento recorre el agua: la Dispersión. Los antiguos reyes hacían ofrendas a lo supremo y erigían templos.',
+    lines: [
+      { position: 1, text: 'Salvado por un caballo fuerte: ventura.' },
+      { position: 2, text: 'En la dispersión corre hacia su apoyo: el arrepentimiento se desvanece.' },
+      { position: 3, text: 'Dispersa su propia persona: sin arrepentimiento.' },
+      { position: 4, text: 'Dispersa su grupo: elevada ventura. La dispersión forma un montículo: no es lo que se piensa de ordinario.' },
+      { position: 5, text: 'Dispersa como el sudor su gran proclama; dispersa la residencia del rey: sin falta.' },
+      { position: 6, text: 'Dispersa su sangre, se aleja y sale: sin falta.' },
+    ],
+  },
+  60: {
+    name: 'La Limitación',
+    meaning: 'La limitación, moderación, medida',
+    judgment: 'Éxito. La limitación amarga no puede persistir.',
+    image: 'Sobre el lago hay agua: la Limitación. El hombre superior establece números y medidas.',
+    lines: [
+      { position: 1, text: 'No salir del patio de la casa: sin falta.' },
+      { position: 2, text: 'No salir del patio de la puerta: desventura.' },
+      { position: 3, text: 'Sin mesura, entonces lamentos: sin falta.' },
+      { position: 4, text: 'Mesura tranquila: éxito.' },
+      { position: 5, text: 'Mesura dulce: ventura; avanzar trae honra.' },
+      { position: 6, text: 'Mesura amarga: la perseverancia trae desventura, el arrepentimiento se desvanece.' },
+    ],
+  },
+  61: {
+    name: 'La Verdad Interior',
+    meaning: 'La verdad interior, sinceridad central, confianza',
+    judgment: 'Cerdos y peces. Buena fortuna. Propicio cruzar la gran agua. Propicio mediante la perseverancia.',
+    image: 'Viento sobre el lago: la Verdad Interior. El hombre superior delibera sobre los procesos y pospone las ejecuciones.',
+    lines: [
+      { position: 1, text: 'Preparado: ventura; si hay otro, no hay sosiego.' },
+      { position: 2, text: 'La grulla canta a la sombra, su cría le responde. Tengo una buena copa, la compartiré contigo.' },
+      { position: 3, text: 'Encuentra al rival: ya toca el tambor, ya se detiene, ya llora, ya canta.' },
+      { position: 4, text: 'La luna casi llena; se pierde un caballo de la pareja: sin falta.' },
+      { position: 5, text: 'Hay confianza que une estrechamente: sin falta.' },
+      { position: 6, text: 'El canto del gallo sube al cielo: la perseverancia trae desventura.' },
+    ],
+  },
+  62: {
+    name: 'El Exceso de lo Pequeño',
+    meaning: 'El exceso de lo pequeño, preponderancia de lo pequeño',
+    judgment: 'Éxito. Propicio mediante la perseverancia. Se pueden hacer cosas pequeñas, no se deben hacer cosas grandes. El pájaro volando deja su canto: no conviene ascender, conviene descender. Gran buena fortuna.',
+    image: 'Trueno sobre la montaña: el Exceso de lo Pequeño. El hombre superior en su conducta excede en respeto.',
+    lines: [
+      { position: 1, text: 'El pájaro en vuelo: así, desventura.' },
+      { position: 2, text: 'Pasa junto al abuelo y encuentra a la abuela; no llega al señor y encuentra al ministro: sin falta.' },
+      { position: 3, text: 'No se excede en prevenirlo; si sigue, alguien lo hiere: desventura.' },
+      { position: 4, text: 'Sin falta: no se excede y lo encuentra. Avanzar es peligroso, hay que precaverse; no usar perseverancia perpetua.' },
+      { position: 5, text: 'Nubes densas sin lluvia desde nuestro arrabal del oeste; el duque dispara con cuerda y toma al que está en la cueva.' },
+      { position: 6, text: 'No lo encuentra, se excede: el pájaro en vuelo se aleja; desventura, esto se llama calamidad.' },
+    ],
+  },
+  63: {
+    name: 'Después de la Consumación',
+    meaning: 'Después de la consumación, ya cruzado, completado',
+    judgment: 'Éxito en lo pequeño. Propicio mediante la perseverancia. Al principio buena fortuna, al final desorden.',
+    image: 'Agua sobre fuego: Después de la Consumación. El hombre superior reflexiona sobre las calamidades y se previene contra ellas.',
+    lines: [
+      { position: 1, text: 'Frena sus ruedas, moja su cola: sin falta.' },
+      { position: 2, text: 'La esposa pierde el velo de su carro: no lo persigas, en siete días lo recobras.' },
+      { position: 3, text: 'Gaozong ataca el País de los Demonios, en tres años lo vence: no emplear al hombre vulgar.' },
+      { position: 4, text: 'La seda tiene trapos para las grietas: estar alerta todo el día.' },
+      { position: 5, text: 'El vecino del este sacrifica un buey; no iguala el sencillo sacrificio del vecino del oeste, que recibe de verdad su bendición.' },
+      { position: 6, text: 'Moja su cabeza: peligro.' },
+    ],
+  },
+  64: {
+    name: 'Antes de la Consumación',
+    meaning: 'Antes de la consumación, aún no cruzado, incompleto',
+    judgment: 'Éxito. El pequeño zorro casi cruza, se moja la cola. Nada propicio.',
+    image: 'Fuego sobre agua: Antes de la Consumación. El hombre superior con cautela distingue las cosas y las ubica en su lugar.',
+    lines: [
+      { position: 1, text: 'Moja su cola: pesar.' },
+      { position: 2, text: 'Frena sus ruedas: la perseverancia trae ventura.' },
+      { position: 3, text: 'Antes de la consumación, avanzar trae desventura; propicio cruzar el gran río.' },
+      { position: 4, text: 'La perseverancia trae ventura, el arrepentimiento se desvanece. Con estruendo ataca el País de los Demonios; en tres años hay recompensa del gran Estado.' },
+      { position: 5, text: 'La perseverancia trae ventura, sin arrepentimiento. La luz del noble: hay confianza, ventura.' },
+      { position: 6, text: 'Hay confianza al beber vino: sin falta. Si moja su cabeza, la confianza pierde su rectitud.' },
+    ],
+  },
+};
@@ -0,0 +1,908 @@
+/**
+ * French rendering of the Wilhelm translation of all 64 hexagrams ('fr-wilhelm')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'Le Créateur',
+    meaning: 'Le ciel, le principe créateur, l\'énergie yang pure',
+    judgment: 'Le Créateur opère une sublime réussite, favorisant par la persévérance.',
+    image: 'Le mouvement du ciel est plein de puissance. Ainsi l\'homme noble se rend fort et infatigable.',
+    lines: [
+      { position: 1, text: 'Dragon caché. N\'agis pas.' },
+      { position: 2, text: 'Dragon apparaissant dans le champ. Il est avantageux de voir le grand homme.' },
+      { position: 3, text: 'Tout le jour l\'homme noble est créativement actif. Le soir encore son esprit est plein de soucis. Danger. Pas de blâme.' },
+      { position: 4, text: 'Envol hésitant au-dessus de l\'abîme. Pas de blâme.' },
+      { position: 5, text: 'Dragon volant dans le ciel. Il est avantageux de voir le grand homme.' },
+      { position: 6, text: 'Le dragon orgueilleux aura à se repentir.' },
+    ],
+    allMoving: 'Il apparaît une troupe de dragons sans tête. Félicité.',
+  },
+  2: {
+    name: 'Le Réceptif',
+    meaning: 'La terre, le principe réceptif, l\'énergie yin pure',
+    judgment: 'Le Réceptif opère une sublime réussite, favorisant par la persévérance d\'une jument.',
+    image: 'L\'état de la terre est le dévouement réceptif. Ainsi l\'homme noble, au caractère ample, porte le monde extérieur.',
+    lines: [
+      { position: 1, text: 'Quand on marche sur le givre, la glace solide n\'est pas loin.' },
+      { position: 2, text: 'Droit, carré, grand. Sans intention, et pourtant rien qui ne soit favorisé.' },
+      { position: 3, text: 'Lignes cachées. On est capable de persévérer. Si par hasard tu es au service d\'un roi, ne cherche pas les œuvres, mais mène à terme.' },
+      { position: 4, text: 'Un sac noué. Pas de blâme, pas de louange.' },
+      { position: 5, text: 'Un vêtement inférieur jaune apporte une sublime félicité.' },
+      { position: 6, text: 'Des dragons combattent dans la prairie. Leur sang est noir et jaune.' },
+    ],
+    allMoving: 'La persévérance durable est avantageuse.',
+  },
+  11: {
+    name: 'La Paix',
+    meaning: 'Le ciel et la terre s\'unissent, harmonie et prospérité',
+    judgment: 'La Paix. Le petit s\'en va, le grand s\'approche. Félicité. Succès.',
+    image: 'Le ciel et la terre s\'unissent : l\'image de la Paix. Ainsi le souverain partage et accomplit le cours du ciel et de la terre.',
+    lines: [
+      { position: 1, text: 'Quand on arrache le chiendent, la motte vient avec. Chacun selon son espèce. Les entreprises apportent la félicité.' },
+      { position: 2, text: 'Supporter les incultes avec douceur, passer le fleuve à gué avec résolution, ne pas négliger ce qui est lointain, ne pas avoir égard à ses compagnons : ainsi l\'on peut parvenir à marcher dans le milieu.' },
+      { position: 3, text: 'Pas de plaine qui ne soit suivie d\'une pente. Pas d\'aller qui ne soit suivi d\'un retour. Celui qui demeure persévérant dans le danger est sans blâme. Ne te plains pas de cette vérité ; jouis de la félicité que tu possèdes encore.' },
+      { position: 4, text: 'Il descend en voletant, sans se vanter de sa richesse, avec son voisin, sans artifice et sincère.' },
+      { position: 5, text: 'Le souverain I donne sa fille en mariage. Cela apporte la bénédiction et une sublime félicité.' },
+      { position: 6, text: 'Le rempart retombe dans le fossé. N\'emploie pas d\'armée maintenant. Fais connaître tes ordres dans ta propre ville. La persévérance apporte l\'humiliation.' },
+    ],
+  },
+  12: {
+    name: 'La Stagnation',
+    meaning: 'Le ciel et la terre ne s\'unissent pas, immobilité',
+    judgment: 'La Stagnation. Les hommes mauvais ne favorisent pas la persévérance de l\'homme noble. Le grand s\'en va, le petit s\'approche.',
+    image: 'Le ciel et la terre ne s\'unissent pas : l\'image de la Stagnation. Ainsi l\'homme noble se replie sur sa valeur intérieure.',
+    lines: [
+      { position: 1, text: 'Quand on arrache le chiendent, la motte vient avec. Chacun selon son espèce. La persévérance apporte la félicité et le succès.' },
+      { position: 2, text: 'Ils supportent et endurent ; cela signifie la félicité pour les hommes vulgaires. La stagnation aide le grand homme à réussir.' },
+      { position: 3, text: 'Ils supportent la honte.' },
+      { position: 4, text: 'Celui qui agit sur l\'ordre du très-haut demeure sans blâme. Ceux qui sont de même esprit participent à la bénédiction.' },
+      { position: 5, text: 'La stagnation cède. Félicité pour le grand homme. « Et si cela échouait, et si cela échouait ? » Ainsi il l\'attache à une touffe de pousses de mûrier.' },
+      { position: 6, text: 'La stagnation prend fin. D\'abord la stagnation, puis la félicité.' },
+    ],
+  },
+  19: {
+    name: 'L\'Approche',
+    meaning: 'S\'approcher, devenir grand, avancer',
+    judgment: 'L\'Approche a une sublime réussite. La persévérance est avantageuse. Quand viendra le huitième mois, il y aura infortune.',
+    image: 'La terre au-dessus du lac : l\'image de l\'Approche. Ainsi l\'homme noble est inépuisable dans sa volonté d\'enseigner.',
+    lines: [
+      { position: 1, text: 'Approche commune. La persévérance apporte la félicité.' },
+      { position: 2, text: 'Approche commune. Félicité. Tout est avantageux.' },
+      { position: 3, text: 'Approche complaisante. Rien qui soit avantageux. Si l\'on est amené à s\'en affliger, on se libère du blâme.' },
+      { position: 4, text: 'Approche parfaite. Pas de blâme.' },
+      { position: 5, text: 'Approche sage. Cela convient à un grand prince. Félicité.' },
+      { position: 6, text: 'Approche magnanime. Félicité. Pas de blâme.' },
+    ],
+  },
+  20: {
+    name: 'La Contemplation',
+    meaning: 'Regarder, observer, servir d\'exemple',
+    judgment: 'La Contemplation. L\'ablution a été faite, mais pas encore l\'offrande. Pleins de confiance, ils lèvent les yeux vers lui.',
+    image: 'Le vent souffle sur la terre : l\'image de la Contemplation. Ainsi les rois d\'autrefois visitaient les régions du monde.',
+    lines: [
+      { position: 1, text: 'Contemplation puérile. Pour un homme vulgaire, pas de blâme. Pour un homme noble, humiliation.' },
+      { position: 2, text: 'Contemplation par la fente de la porte. Avantageux pour la persévérance d\'une femme.' },
+      { position: 3, text: 'La contemplation de ma vie décide du choix entre avancer et reculer.' },
+      { position: 4, text: 'Contemplation de la lumière du royaume. Il est avantageux d\'exercer son influence comme hôte d\'un roi.' },
+      { position: 5, text: 'Contemplation de ma vie. L\'homme noble est sans blâme.' },
+      { position: 6, text: 'Contemplation de sa vie. L\'homme noble est sans blâme.' },
+    ],
+  },
+  23: {
+    name: 'L\'Éclatement',
+    meaning: 'Déclin, dépouillement, détérioration',
+    judgment: 'L\'Éclatement. Il n\'est pas avantageux d\'aller où que ce soit.',
+    image: 'La montagne repose sur la terre : l\'image de l\'Éclatement. Ainsi ceux d\'en haut ne peuvent assurer leur position qu\'en donnant généreusement à ceux d\'en bas.',
+    lines: [
+      { position: 1, text: 'Le pied du lit est brisé. Ceux qui persévèrent sont anéantis. Infortune.' },
+      { position: 2, text: 'Le lit est brisé sur le bord. Ceux qui persévèrent sont anéantis. Infortune.' },
+      { position: 3, text: 'Il rompt avec eux. Pas de blâme.' },
+      { position: 4, text: 'Le lit est brisé jusqu\'à la peau. Infortune.' },
+      { position: 5, text: 'Un banc de poissons. La faveur vient par les dames de la cour. Tout est avantageux.' },
+      { position: 6, text: 'Il reste un grand fruit non mangé. L\'homme noble reçoit une voiture. La maison de l\'homme vulgaire est brisée.' },
+    ],
+  },
+  24: {
+    name: 'Le Retour',
+    meaning: 'Le tournant, le renouveau, le retour',
+    judgment: 'Le Retour. Succès. Sortir et entrer sans faute. Les amis viennent sans blâme. Aller et venir, tel est le chemin.',
+    image: 'Le tonnerre au milieu de la terre : l\'image du Tournant. Ainsi les rois de l\'Antiquité fermaient les passages au temps du solstice.',
+    lines: [
+      { position: 1, text: 'Retour d\'une courte distance. Pas besoin de remords. Grande félicité.' },
+      { position: 2, text: 'Retour paisible. Félicité.' },
+      { position: 3, text: 'Retour répété. Danger. Pas de blâme.' },
+      { position: 4, text: 'Marchant au milieu des autres, on revient seul.' },
+      { position: 5, text: 'Retour magnanime. Pas de remords.' },
+      { position: 6, text: 'Retour manqué. Infortune. Infortune du dedans et du dehors. Si l\'on fait ainsi marcher des armées, on subira à la fin une grande défaite, désastreuse pour le souverain du pays. Pendant dix ans il ne sera pas possible d\'attaquer de nouveau.' },
+    ],
+  },
+  33: {
+    name: 'La Retraite',
+    meaning: 'Retrait, repli, retraite stratégique',
+    judgment: 'La Retraite. Succès. Dans les petites choses, la persévérance est avantageuse.',
+    image: 'La montagne sous le ciel : l\'image de la Retraite. Ainsi l\'homme noble tient à distance l\'homme vulgaire, non avec colère mais avec réserve.',
+    lines: [
+      { position: 1, text: 'À la queue dans la retraite. Cela est dangereux. Il ne faut pas vouloir entreprendre quoi que ce soit.' },
+      { position: 2, text: 'Il le tient ferme avec une peau de bœuf jaune. Nul ne peut l\'en arracher.' },
+      { position: 3, text: 'Une retraite arrêtée est éprouvante et dangereuse. Garder des gens comme serviteurs et servantes apporte la félicité.' },
+      { position: 4, text: 'La retraite volontaire apporte la félicité à l\'homme noble et la chute à l\'homme vulgaire.' },
+      { position: 5, text: 'Retraite amicale. La persévérance apporte la félicité.' },
+      { position: 6, text: 'Retraite sereine. Tout est avantageux.' },
+    ],
+  },
+  34: {
+    name: 'La Puissance du grand',
+    meaning: 'Grande force, vigueur, avancée puissante',
+    judgment: 'La Puissance du grand. La persévérance est avantageuse.',
+    image: 'Le tonnerre en haut dans le ciel : l\'image de la Puissance du grand. Ainsi l\'homme noble ne foule pas les chemins qui ne s\'accordent pas avec l\'ordre établi.',
+    lines: [
+      { position: 1, text: 'Puissance dans les orteils. Continuer apporte l\'infortune. Cela est certainement vrai.' },
+      { position: 2, text: 'La persévérance apporte la félicité.' },
+      { position: 3, text: 'L\'homme vulgaire agit par la puissance. L\'homme noble n\'agit pas ainsi. Continuer est dangereux. Un bouc donne de la tête contre une haie et s\'y empêtre les cornes.' },
+      { position: 4, text: 'La persévérance apporte la félicité. Le remords disparaît. La haie s\'ouvre ; pas d\'empêtrement. La puissance dépend de l\'essieu d\'un grand chariot.' },
+      { position: 5, text: 'Perd le bouc dans la facilité. Pas de remords.' },
+      { position: 6, text: 'Un bouc donne de la tête contre une haie. Il ne peut reculer, il ne peut avancer. Rien n\'est avantageux. Si l\'on prend conscience de la difficulté, cela apporte la félicité.' },
+    ],
+  },
+  43: {
+    name: 'La Percée',
+    meaning: 'Résolution, détermination, percée',
+    judgment: 'La Percée. Il faut résolument faire connaître l\'affaire à la cour du roi. Elle doit être annoncée avec vérité.',
+    image: 'Le lac est monté jusqu\'au ciel : l\'image de la Percée. Ainsi l\'homme noble répand ses richesses vers le bas et se garde de se reposer sur sa vertu.',
+    lines: [
+      { position: 1, text: 'Puissant dans les orteils qui s\'avancent. Quand on va et que l\'on n\'est pas à la hauteur de la tâche, on commet une faute.' },
+      { position: 2, text: 'Un cri d\'alarme. Des armes le soir et la nuit. Ne crains rien.' },
+      { position: 3, text: 'Être puissant dans les pommettes apporte l\'infortune. L\'homme noble est fermement résolu. Il marche seul et est surpris par la pluie. Il est éclaboussé, et les gens murmurent contre lui. Pas de blâme.' },
+      { position: 4, text: 'Il n\'y a pas de peau sur ses cuisses, et la marche est pénible. Si l\'on se laissait conduire comme un mouton, le remords disparaîtrait. Mais si l\'on entend ces paroles, on n\'y croira pas.' },
+      { position: 5, text: 'Face aux mauvaises herbes, une ferme résolution est nécessaire. Marcher dans le milieu demeure sans blâme.' },
+      { position: 6, text: 'Pas de cri. À la fin vient l\'infortune.' },
+    ],
+  },
+  44: {
+    name: 'Venir à la rencontre',
+    meaning: 'Rencontre, entrevue, tentation',
+    judgment: 'Venir à la rencontre. La jeune fille est puissante. Il ne faut pas épouser une telle jeune fille.',
+    image: 'Sous le ciel, le vent : l\'image de Venir à la rencontre. Ainsi agit le prince quand il répand ses ordres et les proclame aux quatre régions du ciel.',
+    lines: [
+      { position: 1, text: 'Il faut l\'arrêter avec un frein de bronze. La persévérance apporte la félicité. Si on le laisse aller, on connaît l\'infortune. Même un porc maigre a en lui de quoi se déchaîner.' },
+      { position: 2, text: 'Il y a un poisson dans le vivier. Pas de blâme. Pas avantageux pour les hôtes.' },
+      { position: 3, text: 'Il n\'y a pas de peau sur ses cuisses, et la marche est pénible. Si l\'on est attentif au danger, on ne commet pas de grande faute.' },
+      { position: 4, text: 'Pas de poisson dans le vivier. Cela mène à l\'infortune.' },
+      { position: 5, text: 'Un melon couvert de feuilles de saule. Lignes cachées. Alors cela tombe du ciel.' },
+      { position: 6, text: 'Il vient à la rencontre avec ses cornes. Humiliation. Pas de blâme.' },
+    ],
+  },
+  3: {
+    name: 'La Difficulté initiale',
+    meaning: 'Lutte des commencements, douleurs de l\'enfantement, difficulté',
+    judgment: 'La Difficulté initiale opère une sublime réussite, favorisant par la persévérance. Il ne faut pas nommer de meneurs. Il est avantageux de nommer des aides.',
+    image: 'Le tonnerre et la pluie s\'agitent ; nuages et tonnerre roulent : l\'image de la Difficulté initiale. Ainsi l\'homme noble met de l\'ordre dans la confusion des affaires.',
+    lines: [
+      { position: 1, text: 'Hésitation et entrave. Il est avantageux de demeurer persévérant. Il est avantageux de nommer des aides.' },
+      { position: 2, text: 'Les difficultés s\'amoncellent. Cheval et chariot se séparent. Il n\'est pas un brigand ; il veut courtiser quand le temps viendra. La jeune fille est chaste, elle ne s\'engage pas. Dix ans, puis elle s\'engage.' },
+      { position: 3, text: 'Qui chasse le cerf sans garde-forestier ne fait que s\'égarer dans la forêt. L\'homme noble comprend les signes du temps et préfère renoncer. Continuer apporte l\'humiliation.' },
+      { position: 4, text: 'Cheval et chariot se séparent. Recherche l\'union. Aller apporte la félicité. Tout est favorable.' },
+      { position: 5, text: 'Difficultés dans la bénédiction. Une petite persévérance apporte la félicité. Une grande persévérance apporte l\'infortune.' },
+      { position: 6, text: 'Cheval et chariot se séparent. Des larmes de sang coulent.' },
+    ],
+  },
+  4: {
+    name: 'La Folie juvénile',
+    meaning: 'Ignorance, jeunesse, inexpérience',
+    judgment: 'La Folie juvénile a du succès. Ce n\'est pas moi qui cherche le jeune fou, c\'est le jeune fou qui me cherche. Au premier oracle je le renseigne. S\'il interroge deux ou trois fois, c\'est de l\'importunité. S\'il importune, je ne le renseigne pas. La persévérance est avantageuse.',
+    image: 'Au pied de la montagne jaillit une source : l\'image de la Jeunesse. Ainsi l\'homme noble affermit son caractère par la rigueur en tout ce qu\'il fait.',
+    lines: [
+      { position: 1, text: 'Pour développer le fou, il est avantageux d\'appliquer la discipline. Les entraves doivent être ôtées. Continuer ainsi apporte l\'humiliation.' },
+      { position: 2, text: 'Supporter les fous avec bonté apporte la félicité. Savoir prendre les femmes apporte la félicité. Le fils est capable de diriger la maison.' },
+      { position: 3, text: 'Ne prends pas une jeune fille qui, voyant un homme d\'airain, perd la maîtrise d\'elle-même. Rien n\'est avantageux.' },
+      { position: 4, text: 'La folie empêtrée apporte l\'humiliation.' },
+      { position: 5, text: 'La folie enfantine apporte la félicité.' },
+      { position: 6, text: 'En punissant la folie, il n\'est pas avantageux de commettre des excès. Seul est avantageux d\'empêcher les excès.' },
+    ],
+  },
+  5: {
+    name: 'L\'Attente',
+    meaning: 'Nourriture, patience, moment favorable',
+    judgment: 'L\'Attente. Si tu es sincère, tu as la lumière et le succès. La persévérance apporte la félicité. Aller à la rencontre du grand homme apporte la félicité.',
+    image: 'Les nuages montent au ciel : l\'image de l\'Attente. Ainsi l\'homme noble mange et boit, se repose et se divertit.',
+    lines: [
+      { position: 1, text: 'Attente dans la prairie. Il est avantageux de demeurer dans ce qui dure. Pas de blâme.' },
+      { position: 2, text: 'Attente sur le sable. Il y a quelques commérages. La fin apporte la félicité.' },
+      { position: 3, text: 'L\'attente dans la boue provoque l\'arrivée de l\'ennemi.' },
+      { position: 4, text: 'Attente dans le sang. Sors du trou.' },
+      { position: 5, text: 'Attente près du vin et des mets. La persévérance apporte la félicité.' },
+      { position: 6, text: 'On tombe dans le trou. Trois hôtes non invités arrivent. Honore-les, et à la fin viendra la félicité.' },
+    ],
+  },
+  6: {
+    name: 'Le Conflit',
+    meaning: 'Procès, discorde, lutte',
+    judgment: 'Le Conflit. Tu es sincère et l\'on te fait obstacle. S\'arrêter prudemment à mi-chemin apporte la félicité. Aller jusqu\'au bout apporte l\'infortune. Il est avantageux de voir le grand homme. Il n\'est pas avantageux de traverser les grandes eaux.',
+    image: 'Le ciel et l\'eau vont en sens opposé : l\'image du Conflit. Ainsi, dans toutes ses affaires, l\'homme noble considère avec soin le commencement.',
+    lines: [
+      { position: 1, text: 'Si l\'on ne perpétue pas l\'affaire, il y a un peu de commérage. À la fin vient la félicité.' },
+      { position: 2, text: 'On ne peut soutenir le conflit ; on rentre chez soi, on cède. Les gens de sa ville, trois cents foyers, restent sans faute.' },
+      { position: 3, text: 'Se nourrir de l\'ancienne vertu engendre la persévérance. Danger. À la fin vient la félicité. Si par hasard tu es au service d\'un roi, ne cherche pas les œuvres.' },
+      { position: 4, text: 'On ne peut soutenir le conflit. On fait demi-tour et l\'on se soumet au destin, on change d\'attitude et l\'on trouve la paix dans la persévérance. Félicité.' },
+      { position: 5, text: 'Plaider devant lui apporte une sublime félicité.' },
+      { position: 6, text: 'Même si par hasard on reçoit une ceinture de cuir, à la fin de la matinée elle aura été arrachée trois fois.' },
+    ],
+  },
+  7: {
+    name: 'L\'Armée',
+    meaning: 'Les troupes, la discipline militaire, la légalité',
+    judgment: 'L\'Armée. L\'armée a besoin de persévérance et d\'un homme fort. Félicité sans blâme.',
+    image: 'Au milieu de la terre il y a de l\'eau : l\'image de l\'Armée. Ainsi l\'homme noble accroît ses masses par sa générosité envers le peuple.',
+    lines: [
+      { position: 1, text: 'Une armée doit partir en bon ordre. Si l\'ordre n\'est pas bon, l\'infortune menace.' },
+      { position: 2, text: 'Au milieu de l\'armée. Félicité. Pas de blâme. Le roi décerne une triple distinction.' },
+      { position: 3, text: 'Il se peut que l\'armée transporte des cadavres sur le chariot. Infortune.' },
+      { position: 4, text: 'L\'armée se retire. Pas de blâme.' },
+      { position: 5, text: 'Il y a du gibier dans le champ. Il est avantageux de le capturer. Pas de blâme. Que l\'aîné conduise l\'armée. Le cadet transporte des cadavres ; alors la persévérance apporte l\'infortune.' },
+      { position: 6, text: 'Le grand prince donne des ordres, fonde des États, investit des familles de fiefs. Il ne faut pas employer des hommes vulgaires.' },
+    ],
+  },
+  8: {
+    name: 'La Solidarité',
+    meaning: 'Union, alliance, loyauté',
+    judgment: 'La Solidarité apporte la félicité. Mais si le mauvais homme tient l\'assemblée, rien n\'est avantageux. Si certains sont incertains, les appeler à plusieurs reprises apporte la félicité.',
+    image: 'Sur la terre il y a de l\'eau : l\'image de la Solidarité. Ainsi les rois de l\'Antiquité conféraient des fiefs aux princes du sang et faisaient de tous les membres de la famille.',
+    lines: [
+      { position: 1, text: 'Tiens-toi à lui dans la vérité et la loyauté ; cela est sans blâme. La vérité, comme un bol de terre plein : ainsi à la fin la félicité vient du dehors.' },
+      { position: 2, text: 'Tiens-toi à lui intérieurement. La persévérance apporte la félicité.' },
+      { position: 3, text: 'Tu te tiens avec les mauvaises gens.' },
+      { position: 4, text: 'Tiens-toi à lui extérieurement aussi. La persévérance apporte la félicité.' },
+      { position: 5, text: 'Manifestation de la solidarité. À la chasse, le roi ne rabat que de trois côtés et laisse aller le gibier qui s\'enfuit devant. Les citoyens n\'ont pas besoin d\'avertissement. Félicité.' },
+      { position: 6, text: 'Il ne trouve pas de chef pour la solidarité. Infortune.' },
+    ],
+  },
+  9: {
+    name: 'Le Pouvoir d\'apprivoisement du petit',
+    meaning: 'Retenue, accumulation, influence subtile',
+    judgment: 'Le Pouvoir d\'apprivoisement du petit a du succès. Nuages épais, pas de pluie venant de notre région de l\'ouest.',
+    image: 'Le vent souffle au-dessus du ciel : l\'image du Pouvoir d\'apprivoisement du petit. Ainsi l\'homme noble affine l\'aspect extérieur de sa nature.',
+    lines: [
+      { position: 1, text: 'Retour sur la voie. Comment y aurait-il là un blâme ? Félicité.' },
+      { position: 2, text: 'Il se laisse entraîner au retour. Félicité.' },
+      { position: 3, text: 'Les rayons se détachent des roues du chariot. Mari et femme roulent des yeux.' },
+      { position: 4, text: 'Si tu es sincère, le sang s\'en va et la crainte cède. Pas de blâme.' },
+      { position: 5, text: 'Si tu es sincère et fidèlement attaché, tu es riche en ton voisin.' },
+      { position: 6, text: 'La pluie vient, c\'est le repos. Cela est dû à l\'effet durable du caractère. La persévérance met la femme en danger. La lune est presque pleine. Si l\'homme noble persiste, l\'infortune vient.' },
+    ],
+  },
+  10: {
+    name: 'La Marche',
+    meaning: 'Marcher, conduite, bienséance',
+    judgment: 'La Marche. Marcher sur la queue du tigre. Il ne mord pas l\'homme. Succès.',
+    image: 'En haut le ciel, en bas le lac : l\'image de la Marche. Ainsi l\'homme noble distingue le haut et le bas, et affermit par là la pensée du peuple.',
+    lines: [
+      { position: 1, text: 'Conduite simple. Progrès sans blâme.' },
+      { position: 2, text: 'Marcher sur un chemin uni et plat. La persévérance d\'un homme obscur apporte la félicité.' },
+      { position: 3, text: 'Un borgne peut voir, un boiteux peut marcher. Il marche sur la queue du tigre. Le tigre mord l\'homme. Infortune. Ainsi agit un guerrier pour son grand prince.' },
+      { position: 4, text: 'Il marche sur la queue du tigre. La prudence et la circonspection mènent finalement à la félicité.' },
+      { position: 5, text: 'Conduite résolue. Persévérance avec conscience du danger.' },
+      { position: 6, text: 'Regarde ta conduite et pèse les signes favorables. Quand tout est accompli, vient une sublime félicité.' },
+    ],
+  },
+  13: {
+    name: 'La Communauté avec les hommes',
+    meaning: 'Communauté, unité, fraternité',
+    judgment: 'Communauté avec les hommes en plein air. Succès. Il est avantageux de traverser les grandes eaux. La persévérance de l\'homme noble est avantageuse.',
+    image: 'Le ciel avec le feu : l\'image de la Communauté avec les hommes. Ainsi l\'homme noble organise les clans et fait la distinction entre les choses.',
+    lines: [
+      { position: 1, text: 'Communauté avec les hommes à la porte. Pas de blâme.' },
+      { position: 2, text: 'Communauté avec les hommes dans le clan. Humiliation.' },
+      { position: 3, text: 'Il cache des armes dans les fourrés ; il gravit la haute colline qui est devant. Pendant trois ans il ne se lève pas.' },
+      { position: 4, text: 'Il monte sur son mur ; il ne peut attaquer. Félicité.' },
+      { position: 5, text: 'Les hommes unis en communauté pleurent et se lamentent d\'abord, mais ensuite ils rient. Après de grandes luttes ils réussissent à se rencontrer.' },
+      { position: 6, text: 'Communauté avec les hommes dans la prairie. Pas de remords.' },
+    ],
+  },
+  14: {
+    name: 'Le Grand Avoir',
+    meaning: 'Grande abondance, richesse, confiance',
+    judgment: 'Le Grand Avoir. Sublime succès.',
+    image: 'Le feu en haut dans le ciel : l\'image du Grand Avoir. Ainsi l\'homme noble réprime le mal et favorise le bien, et obéit par là au ciel.',
+    lines: [
+      { position: 1, text: 'Pas de relation avec ce qui est nuisible ; il n\'y a pas là de blâme. Si l\'on reste conscient de la difficulté, on demeure sans blâme.' },
+      { position: 2, text: 'Un grand chariot pour charger. On peut entreprendre quelque chose. Pas de blâme.' },
+      { position: 3, text: 'Un prince l\'offre au Fils du Ciel. Un homme petit ne le peut pas.' },
+      { position: 4, text: 'Il fait une différence entre lui-même et son voisin. Pas de blâme.' },
+      { position: 5, text: 'Celui dont la vérité est accessible et pourtant digne a la félicité.' },
+      { position: 6, text: 'Il est béni par le ciel. Félicité. Rien qui ne soit avantageux.' },
+    ],
+  },
+  15: {
+    name: 'L\'Humilité',
+    meaning: 'Modestie, retenue, souplesse',
+    judgment: 'L\'Humilité crée le succès. L\'homme noble mène les choses à terme.',
+    image: 'Au milieu de la terre, une montagne : l\'image de l\'Humilité. Ainsi l\'homme noble diminue ce qui est de trop et augmente ce qui est trop peu.',
+    lines: [
+      { position: 1, text: 'Un homme noble humble dans son humilité peut traverser les grandes eaux. Félicité.' },
+      { position: 2, text: 'Humilité qui s\'exprime. La persévérance apporte la félicité.' },
+      { position: 3, text: 'Un homme noble, humble et méritant, mène les choses à terme. Félicité.' },
+      { position: 4, text: 'Rien qui ne favorise l\'humilité dans le mouvement.' },
+      { position: 5, text: 'Ne pas se vanter de sa richesse devant son voisin. Il est avantageux d\'attaquer avec force. Rien qui ne soit avantageux.' },
+      { position: 6, text: 'Humilité qui s\'exprime. Il est avantageux de faire marcher les armées pour châtier sa propre ville et son pays.' },
+    ],
+  },
+  16: {
+    name: 'L\'Enthousiasme',
+    meaning: 'Joie, disponibilité, harmonie',
+    judgment: 'L\'Enthousiasme. Il est avantageux d\'installer des aides et de faire marcher les armées.',
+    image: 'Le tonnerre jaillit de la terre : l\'image de l\'Enthousiasme. Ainsi les anciens rois faisaient de la musique pour honorer les mérites et l\'offraient avec révérence au Dieu suprême.',
+    lines: [
+      { position: 1, text: 'L\'enthousiasme qui s\'exprime apporte l\'infortune.' },
+      { position: 2, text: 'Ferme comme un roc. Pas une journée entière. La persévérance apporte la félicité.' },
+      { position: 3, text: 'L\'enthousiasme qui regarde vers le haut crée le remords. L\'hésitation apporte le remords.' },
+      { position: 4, text: 'La source de l\'enthousiasme. Il accomplit de grandes choses. Ne doute pas. Tu rassembles des amis autour de toi comme une agrafe rassemble les cheveux.' },
+      { position: 5, text: 'Constamment malade, et pourtant il ne meurt pas.' },
+      { position: 6, text: 'Enthousiasme aveuglé. Mais si, après l\'accomplissement, on change, il n\'y a pas de blâme.' },
+    ],
+  },
+  17: {
+    name: 'La Suite',
+    meaning: 'Suivre, obéissance, souplesse',
+    judgment: 'La Suite a une sublime réussite. La persévérance est avantageuse. Pas de blâme.',
+    image: 'Au milieu du lac, le tonnerre : l\'image de la Suite. Ainsi l\'homme noble, à la tombée de la nuit, rentre pour se reposer.',
+    lines: [
+      { position: 1, text: 'La règle change. La persévérance apporte la félicité. Sortir de la porte pour frayer avec autrui produit des œuvres.' },
+      { position: 2, text: 'Si l\'on s\'attache au petit garçon, on perd l\'homme fort.' },
+      { position: 3, text: 'Si l\'on s\'attache à l\'homme fort, on perd le petit garçon. En suivant, on trouve ce que l\'on cherche. Il est avantageux de demeurer persévérant.' },
+      { position: 4, text: 'La suite crée le succès. La persévérance apporte l\'infortune. Suivre son chemin avec sincérité apporte la clarté. Comment y aurait-il là un blâme ?' },
+      { position: 5, text: 'Sincère dans le bien. Félicité.' },
+      { position: 6, text: 'Il rencontre un ferme attachement et se trouve lié davantage encore. Le roi le présente à la Montagne de l\'Ouest.' },
+    ],
+  },
+  18: {
+    name: 'Le Travail sur ce qui est corrompu',
+    meaning: 'Déclin, restauration, élimination de la pourriture',
+    judgment: 'Le Travail sur ce qui est corrompu a une sublime réussite. Il est avantageux de traverser les grandes eaux. Avant le point de départ, trois jours. Après le point de départ, trois jours.',
+    image: 'Au pied de la montagne souffle le vent : l\'image de ce qui est corrompu. Ainsi l\'homme noble secoue le peuple et fortifie son esprit.',
+    lines: [
+      { position: 1, text: 'Remettre en ordre ce que le père a corrompu. S\'il y a un fils, aucun blâme ne reste sur le père défunt. Danger. À la fin, félicité.' },
+      { position: 2, text: 'Remettre en ordre ce que la mère a corrompu. Il ne faut pas être trop persévérant.' },
+      { position: 3, text: 'Remettre en ordre ce que le père a corrompu. Il y aura un peu de remords. Pas de grand blâme.' },
+      { position: 4, text: 'Tolérer ce que le père a corrompu. En continuant, on voit l\'humiliation.' },
+      { position: 5, text: 'Remettre en ordre ce que le père a corrompu. On reçoit des louanges.' },
+      { position: 6, text: 'Il ne sert pas les rois et les princes, il se fixe des buts plus élevés.' },
+    ],
+  },
+  21: {
+    name: 'Mordre au travers',
+    meaning: 'Détermination, suppression des obstacles, fermeté',
+    judgment: 'Mordre au travers a du succès. Il est avantageux de rendre la justice.',
+    image: 'Le tonnerre et l\'éclair : l\'image de Mordre au travers. Ainsi les rois d\'autrefois affermissaient les lois par des peines clairement définies.',
+    lines: [
+      { position: 1, text: 'Les pieds pris dans les entraves, de sorte que les orteils disparaissent. Pas de blâme.' },
+      { position: 2, text: 'Mord dans la chair tendre, de sorte que le nez disparaît. Pas de blâme.' },
+      { position: 3, text: 'Mord dans de la vieille viande séchée et tombe sur quelque chose de vénéneux. Légère humiliation. Pas de blâme.' },
+      { position: 4, text: 'Mord dans de la viande séchée et cartilagineuse. Reçoit des flèches de métal. Il est avantageux d\'être conscient des difficultés et persévérant. Félicité.' },
+      { position: 5, text: 'Mord dans de la viande maigre séchée. Reçoit de l\'or jaune. Persévérant et conscient du danger. Pas de blâme.' },
+      { position: 6, text: 'Le cou pris dans la cangue de bois, de sorte que les oreilles disparaissent. Infortune.' },
+    ],
+  },
+  22: {
+    name: 'La Grâce',
+    meaning: 'Beauté, ornement, parure',
+    judgment: 'La Grâce a du succès. Dans les petites choses, il est avantageux d\'entreprendre quelque chose.',
+    image: 'Le feu au pied de la montagne : l\'image de la Grâce. Ainsi l\'homme noble éclaire les affaires courantes, mais n\'ose pas trancher par là les litiges.',
+    lines: [
+      { position: 1, text: 'Il orne ses orteils, quitte la voiture et va à pied.' },
+      { position: 2, text: 'Orne la barbe de son menton.' },
+      { position: 3, text: 'Gracieux et humide. La persévérance constante apporte la félicité.' },
+      { position: 4, text: 'Grâce ou simplicité ? Un cheval blanc arrive comme sur des ailes. Il n\'est pas un brigand, il veut courtiser au bon moment.' },
+      { position: 5, text: 'Grâce dans les collines et les jardins. Le rouleau de soie est maigre et petit. Humiliation, mais à la fin félicité.' },
+      { position: 6, text: 'Grâce simple. Pas de blâme.' },
+    ],
+  },
+  25: {
+    name: 'L\'Innocence',
+    meaning: 'Absence de ruse, intégrité, spontanéité',
+    judgment: 'L\'Innocence. Sublime succès. La persévérance est avantageuse. Si quelqu\'un n\'est pas comme il doit être, il a l\'infortune, et il ne lui est pas avantageux d\'entreprendre quoi que ce soit.',
+    image: 'Sous le ciel roule le tonnerre : l\'image de l\'Innocence. Ainsi les rois d\'autrefois, riches en vertu, cultivaient le bien et récompensaient les hommes de valeur.',
+    lines: [
+      { position: 1, text: 'Une conduite innocente apporte la félicité.' },
+      { position: 2, text: 'Si l\'on ne compte pas sur la récolte en labourant, ni sur l\'usage du sol en le défrichant, il est avantageux d\'entreprendre quelque chose.' },
+      { position: 3, text: 'Infortune imméritée. La vache que quelqu\'un a attachée est le gain du voyageur et la perte du citadin.' },
+      { position: 4, text: 'Celui qui peut être persévérant demeure sans blâme.' },
+      { position: 5, text: 'N\'use pas de remède pour une maladie dont tu n\'es pas coupable. Elle passera d\'elle-même.' },
+      { position: 6, text: 'L\'action innocente apporte l\'infortune. Rien n\'est avantageux.' },
+    ],
+  },
+  26: {
+    name: 'Le Pouvoir d\'apprivoisement du grand',
+    meaning: 'Accumulation de force, discipline, retenue',
+    judgment: 'Le Pouvoir d\'apprivoisement du grand. La persévérance est avantageuse. Ne pas manger chez soi apporte la félicité. Il est avantageux de traverser les grandes eaux.',
+    image: 'Le ciel au milieu de la montagne : l\'image du Pouvoir d\'apprivoisement du grand. Ainsi l\'homme noble amasse un trésor de bien pour soutenir le peuple.',
+    lines: [
+      { position: 1, text: 'Le danger est proche. Il est avantageux de renoncer.' },
+      { position: 2, text: 'On retire les essieux du chariot.' },
+      { position: 3, text: 'Un bon cheval qui suit les autres. La conscience du danger, avec persévérance, est avantageuse. Exerce-toi chaque jour à conduire le char et à la défense armée. Il est avantageux d\'avoir un but.' },
+      { position: 4, text: 'La planchette frontale d\'un jeune taureau. Grande félicité.' },
+      { position: 5, text: 'La défense d\'un sanglier châtré. Félicité.' },
+      { position: 6, text: 'On atteint la voie du ciel. Succès.' },
+    ],
+  },
+  27: {
+    name: 'Les Commissures des lèvres',
+    meaning: 'Nourriture, approvisionnement, subsistance',
+    judgment: 'Les Commissures des lèvres. La persévérance apporte la félicité. Prends garde à la nourriture et à ce dont un homme cherche à remplir sa propre bouche.',
+    image: 'En bas le tonnerre, en haut la montagne : l\'image de la Nourriture. Ainsi l\'homme noble est attentif à ses paroles et modéré dans le manger et le boire.',
+    lines: [
+      { position: 1, text: 'Tu laisses aller ta tortue magique et tu me regardes les commissures des lèvres pendantes. Infortune.' },
+      { position: 2, text: 'Se tourner vers le sommet pour la nourriture, s\'écarter du chemin pour chercher la nourriture sur la colline. Continuer ainsi apporte l\'infortune.' },
+      { position: 3, text: 'Se détourner de la nourriture. La persévérance apporte l\'infortune. N\'agis pas ainsi pendant dix ans. Rien n\'est avantageux.' },
+      { position: 4, text: 'Se tourner vers le sommet pour la nourriture apporte la félicité. Épier d\'un œil perçant comme un tigre à la convoitise insatiable. Pas de blâme.' },
+      { position: 5, text: 'S\'écarter du chemin. Demeurer persévérant apporte la félicité. Il ne faut pas traverser les grandes eaux.' },
+      { position: 6, text: 'La source de la nourriture. La conscience du danger apporte la félicité. Il est avantageux de traverser les grandes eaux.' },
+    ],
+  },
+  28: {
+    name: 'La Prépondérance du grand',
+    meaning: 'Excès, extrémité, déséquilibre',
+    judgment: 'La Prépondérance du grand. La poutre faîtière ploie jusqu\'à rompre. Il est avantageux d\'avoir un but. Succès.',
+    image: 'Le lac s\'élève au-dessus des arbres : l\'image de la Prépondérance du grand. Ainsi l\'homme noble, quand il est seul, est sans crainte, et s\'il doit renoncer au monde, il est sans découragement.',
+    lines: [
+      { position: 1, text: 'Étendre des joncs blancs par-dessous. Pas de blâme.' },
+      { position: 2, text: 'Un peuplier sec bourgeonne à la racine. Un homme âgé prend une jeune épouse. Tout est avantageux.' },
+      { position: 3, text: 'La poutre faîtière ploie jusqu\'à rompre. Infortune.' },
+      { position: 4, text: 'La poutre faîtière est étayée. Félicité. S\'il y a des arrière-pensées, c\'est humiliant.' },
+      { position: 5, text: 'Un peuplier desséché produit des fleurs. Une femme âgée prend un mari. Pas de blâme. Pas de louange.' },
+      { position: 6, text: 'Il faut passer à travers l\'eau. Elle passe par-dessus la tête. Infortune. Pas de blâme.' },
+    ],
+  },
+  29: {
+    name: 'L\'Insondable',
+    meaning: 'Danger, eau courante, profondeur',
+    judgment: 'L\'Insondable redoublé. Si tu es sincère, tu as le succès dans ton cœur, et tout ce que tu fais réussit.',
+    image: 'L\'eau coule sans cesse et atteint son but : l\'image de l\'Insondable redoublé. Ainsi l\'homme noble marche dans une vertu durable et poursuit l\'œuvre d\'enseignement.',
+    lines: [
+      { position: 1, text: 'Répétition de l\'Insondable. Dans l\'abîme on tombe dans un trou. Infortune.' },
+      { position: 2, text: 'L\'abîme est dangereux. Il faut ne chercher à atteindre que de petites choses.' },
+      { position: 3, text: 'En avant et en arrière, abîme sur abîme. Dans un tel danger, arrête-toi d\'abord et attends, sinon tu tomberas dans un trou de l\'abîme. N\'agis pas ainsi.' },
+      { position: 4, text: 'Une cruche de vin, un bol de riz avec elle ; des vases de terre simplement tendus par la fenêtre. Il n\'y a certainement là aucun blâme.' },
+      { position: 5, text: 'L\'abîme ne déborde pas, il n\'est rempli que jusqu\'au bord. Pas de blâme.' },
+      { position: 6, text: 'Lié de cordes et de câbles, enfermé entre des murs de prison entourés d\'épines : pendant trois ans on ne trouve pas le chemin. Infortune.' },
+    ],
+  },
+  30: {
+    name: 'Ce qui s\'attache',
+    meaning: 'Le feu, l\'illumination, la clarté',
+    judgment: 'Ce qui s\'attache. La persévérance est avantageuse. Elle apporte le succès. Prendre soin de la vache apporte la félicité.',
+    image: 'La clarté s\'élève deux fois : l\'image du Feu. Ainsi le grand homme, en perpétuant sa clarté, illumine les quatre régions du monde.',
+    lines: [
+      { position: 1, text: 'Les traces de pas s\'entrecroisent. Si l\'on est sérieusement appliqué, pas de blâme.' },
+      { position: 2, text: 'Lumière jaune. Sublime félicité.' },
+      { position: 3, text: 'À la lumière du soleil couchant, les hommes ou bien frappent sur le pot et chantent, ou bien se lamentent à grands cris sur l\'approche de la vieillesse. Infortune.' },
+      { position: 4, text: 'Sa venue est soudaine ; il flambe, s\'éteint, est rejeté.' },
+      { position: 5, text: 'Des larmes à flots, des soupirs et des lamentations. Félicité.' },
+      { position: 6, text: 'Le roi l\'emploie pour partir en campagne et châtier. Il vaut mieux alors tuer les chefs et faire prisonniers les suivants. Pas de blâme.' },
+    ],
+  },
+  31: {
+    name: 'L\'Influence',
+    meaning: 'Attraction, cour amoureuse, action réciproque',
+    judgment: 'L\'Influence. Succès. La persévérance est avantageuse. Prendre une jeune fille pour épouse apporte la félicité.',
+    image: 'Un lac sur la montagne : l\'image de l\'Influence. Ainsi l\'homme noble, par sa disposition à les recevoir, encourage les hommes à s\'approcher de lui.',
+    lines: [
+      { position: 1, text: 'L\'influence se manifeste dans le gros orteil.' },
+      { position: 2, text: 'L\'influence se manifeste dans les mollets. Infortune. S\'attarder apporte la félicité.' },
+      { position: 3, text: 'L\'influence se manifeste dans les cuisses. Il s\'attache à ce qui le suit. Continuer est humiliant.' },
+      { position: 4, text: 'La persévérance apporte la félicité. Le remords disparaît. Si un homme a l\'esprit agité et que ses pensées vont çà et là, seuls le suivront les amis sur qui il fixe ses pensées conscientes.' },
+      { position: 5, text: 'L\'influence se manifeste dans la nuque. Pas de remords.' },
+      { position: 6, text: 'L\'influence se manifeste dans les mâchoires, les joues et la langue.' },
+    ],
+  },
+  32: {
+    name: 'La Durée',
+    meaning: 'Constance, persévérance, continuité',
+    judgment: 'La Durée. Succès. Pas de blâme. La persévérance est avantageuse. Il est avantageux d\'avoir un but.',
+    image: 'Le tonnerre et le vent : l\'image de la Durée. Ainsi l\'homme noble se tient ferme et ne change pas de direction.',
+    lines: [
+      { position: 1, text: 'Chercher la durée trop hâtivement apporte constamment l\'infortune. Rien qui soit avantageux.' },
+      { position: 2, text: 'Le remords disparaît.' },
+      { position: 3, text: 'Celui qui ne donne pas de durée à son caractère rencontre la disgrâce. Humiliation persistante.' },
+      { position: 4, text: 'Pas de gibier dans le champ.' },
+      { position: 5, text: 'Donner de la durée à son caractère par la persévérance. C\'est la félicité pour une femme, l\'infortune pour un homme.' },
+      { position: 6, text: 'L\'agitation comme état durable apporte l\'infortune.' },
+    ],
+  },
+  35: {
+    name: 'Le Progrès',
+    meaning: 'Avancement, promotion, ascension',
+    judgment: 'Le Progrès. Le puissant prince est honoré de chevaux en grand nombre. En un seul jour il est reçu trois fois.',
+    image: 'Le soleil se lève au-dessus de la terre : l\'image du Progrès. Ainsi l\'homme noble fait lui-même briller sa claire vertu.',
+    lines: [
+      { position: 1, text: 'Progressant, mais repoussé. La persévérance apporte la félicité. Si l\'on ne rencontre pas de confiance, il faut rester calme. Pas de faute.' },
+      { position: 2, text: 'Progressant, mais dans l\'affliction. La persévérance apporte la félicité. On reçoit alors un grand bonheur de son aïeule.' },
+      { position: 3, text: 'Tous sont d\'accord. Le remords disparaît.' },
+      { position: 4, text: 'Progrès comme un hamster. La persévérance apporte le danger.' },
+      { position: 5, text: 'Le remords disparaît. Ne prends pas à cœur le gain et la perte. Les entreprises apportent la félicité. Tout est avantageux.' },
+      { position: 6, text: 'Progresser avec les cornes n\'est permis que pour châtier sa propre ville. La conscience du danger apporte la félicité. Pas de blâme. La persévérance apporte l\'humiliation.' },
+    ],
+  },
+  36: {
+    name: 'L\'Obscurcissement de la lumière',
+    meaning: 'Obscurité, adversité, vertu cachée',
+    judgment: 'L\'Obscurcissement de la lumière. Dans l\'adversité il est avantageux d\'être persévérant.',
+    image: 'La lumière a sombré dans la terre : l\'image de l\'Obscurcissement de la lumière. Ainsi l\'homme noble vit avec la grande foule : il voile sa lumière et pourtant il brille.',
+    lines: [
+      { position: 1, text: 'Obscurcissement de la lumière pendant le vol. Il abaisse ses ailes. L\'homme noble ne mange pas pendant trois jours au cours de ses pérégrinations. Mais il a un but. L\'hôte trouve à médire de lui.' },
+      { position: 2, text: 'L\'obscurcissement de la lumière le blesse à la cuisse gauche. Il porte secours avec la force d\'un cheval. Félicité.' },
+      { position: 3, text: 'Obscurcissement de la lumière pendant la chasse au sud. Leur grand chef est capturé. Il ne faut pas attendre la persévérance trop tôt.' },
+      { position: 4, text: 'Il pénètre dans le côté gauche du ventre. On atteint le cœur même de l\'obscurcissement de la lumière, et l\'on quitte porte et cour.' },
+      { position: 5, text: 'Obscurcissement de la lumière comme chez le prince Ki. La persévérance est avantageuse.' },
+      { position: 6, text: 'Non pas la lumière mais l\'obscurité. D\'abord il monta jusqu\'au ciel, puis il plongea dans les profondeurs de la terre.' },
+    ],
+  },
+  37: {
+    name: 'La Famille',
+    meaning: 'Le foyer, les relations, le fondement',
+    judgment: 'La Famille. La persévérance de la femme est avantageuse.',
+    image: 'Le vent naît du feu : l\'image de la Famille. Ainsi l\'homme noble a de la substance dans ses paroles et de la constance dans sa conduite.',
+    lines: [
+      { position: 1, text: 'Ferme réclusion au sein de la famille. Le remords disparaît.' },
+      { position: 2, text: 'Elle ne doit pas suivre ses caprices. Elle doit veiller à la nourriture au-dedans. La persévérance apporte la félicité.' },
+      { position: 3, text: 'Quand les esprits s\'échauffent dans la famille, une trop grande sévérité apporte le remords. Félicité néanmoins. Quand femme et enfant badinent et rient, cela mène à la fin à l\'humiliation.' },
+      { position: 4, text: 'Elle est le trésor de la maison. Grande félicité.' },
+      { position: 5, text: 'En roi il s\'approche de sa famille. Ne crains rien. Félicité.' },
+      { position: 6, text: 'Son œuvre inspire le respect. À la fin vient la félicité.' },
+    ],
+  },
+  38: {
+    name: 'L\'Opposition',
+    meaning: 'Divergence, séparation, malentendu',
+    judgment: 'L\'Opposition. Dans les petites choses, félicité.',
+    image: 'En haut le feu, en bas le lac : l\'image de l\'Opposition. Ainsi, au sein de toute communauté, l\'homme noble garde son individualité.',
+    lines: [
+      { position: 1, text: 'Le remords disparaît. Si tu perds ton cheval, ne cours pas après lui ; il reviendra de lui-même. Quand tu vois des hommes mauvais, garde-toi des fautes.' },
+      { position: 2, text: 'On rencontre son maître dans une ruelle étroite. Pas de blâme.' },
+      { position: 3, text: 'On voit le chariot traîné en arrière, les bœufs arrêtés, un homme aux cheveux et au nez coupés. Pas un bon début, mais une bonne fin.' },
+      { position: 4, text: 'Isolé par l\'opposition, on rencontre un homme de même esprit avec qui l\'on peut frayer en bonne foi. Malgré le danger, pas de blâme.' },
+      { position: 5, text: 'Le remords disparaît. Le compagnon se fraie un chemin en mordant à travers les enveloppes. Si l\'on va vers lui, comment serait-ce une faute ?' },
+      { position: 6, text: 'Isolé par l\'opposition, on voit son compagnon comme un porc couvert de boue, comme un chariot plein de diables. D\'abord on tend l\'arc contre lui, puis on pose l\'arc. Il n\'est pas un brigand, il veut courtiser au bon moment. Quand on va, la pluie tombe ; alors vient la félicité.' },
+    ],
+  },
+  39: {
+    name: 'L\'Obstacle',
+    meaning: 'Difficulté, arrêt, immobilité',
+    judgment: 'L\'Obstacle. Le sud-ouest est avantageux. Le nord-est n\'est pas avantageux. Il est avantageux de voir le grand homme. La persévérance apporte la félicité.',
+    image: 'L\'eau sur la montagne : l\'image de l\'Obstacle. Ainsi l\'homme noble tourne son attention vers lui-même et cultive son caractère.',
+    lines: [
+      { position: 1, text: 'Aller mène aux obstacles, venir rencontre la louange.' },
+      { position: 2, text: 'Le serviteur du roi est assailli d\'obstacle sur obstacle, mais ce n\'est pas par sa propre faute.' },
+      { position: 3, text: 'Aller mène aux obstacles ; c\'est pourquoi il revient.' },
+      { position: 4, text: 'Aller mène aux obstacles, venir mène à l\'union.' },
+      { position: 5, text: 'Au milieu des plus grands obstacles, des amis viennent.' },
+      { position: 6, text: 'Aller mène aux obstacles, venir mène à une grande félicité. Il est avantageux de voir le grand homme.' },
+    ],
+  },
+  40: {
+    name: 'La Libération',
+    meaning: 'Délivrance, affranchissement, solution',
+    judgment: 'La Libération. Le sud-ouest est avantageux. S\'il n\'y a plus nulle part où aller, le retour apporte la félicité. S\'il y a encore un but, se hâter apporte la félicité.',
+    image: 'Le tonnerre et la pluie se mettent en mouvement : l\'image de la Libération. Ainsi l\'homme noble pardonne les fautes et traite avec douceur les délits.',
+    lines: [
+      { position: 1, text: 'Sans blâme.' },
+      { position: 2, text: 'On tue trois renards dans le champ et l\'on reçoit une flèche jaune. La persévérance apporte la félicité.' },
+      { position: 3, text: 'Si un homme porte un fardeau sur le dos et voyage pourtant en voiture, il attire par là les brigands. La persévérance mène à l\'humiliation.' },
+      { position: 4, text: 'Libère-toi de ton gros orteil. Alors le compagnon vient, et en lui tu peux avoir confiance.' },
+      { position: 5, text: 'Si seulement l\'homme noble peut se libérer, cela apporte la félicité. Ainsi il prouve aux hommes vulgaires qu\'il est sérieux.' },
+      { position: 6, text: 'Le prince tire sur un faucon posé sur un haut mur. Il le tue. Tout est avantageux.' },
+    ],
+  },
+  41: {
+    name: 'La Diminution',
+    meaning: 'Réduction, sacrifice, retranchement',
+    judgment: 'La Diminution jointe à la sincérité apporte une sublime félicité sans blâme. On peut y persévérer. Il est avantageux d\'entreprendre quelque chose.',
+    image: 'Au pied de la montagne, le lac : l\'image de la Diminution. Ainsi l\'homme noble maîtrise sa colère et réfrène ses instincts.',
+    lines: [
+      { position: 1, text: 'Partir vite quand ses tâches sont achevées est sans blâme. Mais il faut réfléchir à ce dont on peut diminuer les autres.' },
+      { position: 2, text: 'La persévérance est avantageuse. Entreprendre quelque chose apporte l\'infortune. Sans se diminuer soi-même, on peut apporter l\'augmentation aux autres.' },
+      { position: 3, text: 'Quand trois personnes voyagent ensemble, leur nombre diminue d\'une. Quand un homme voyage seul, il trouve un compagnon.' },
+      { position: 4, text: 'Si un homme diminue ses défauts, il fait que l\'autre se hâte de venir et se réjouit. Pas de blâme.' },
+      { position: 5, text: 'Quelqu\'un l\'augmente vraiment. Dix paires de tortues ne peuvent s\'y opposer. Sublime félicité.' },
+      { position: 6, text: 'Si l\'on est augmenté sans priver les autres, il n\'y a pas de blâme. La persévérance apporte la félicité. Il est avantageux d\'entreprendre quelque chose. On obtient des serviteurs, mais on n\'a plus de foyer à soi.' },
+    ],
+  },
+  42: {
+    name: 'L\'Augmentation',
+    meaning: 'Expansion, croissance, progrès',
+    judgment: 'L\'Augmentation. Il est avantageux d\'entreprendre quelque chose. Il est avantageux de traverser les grandes eaux.',
+    image: 'Le vent et le tonnerre : l\'image de l\'Augmentation. Ainsi l\'homme noble, quand il voit le bien chez les autres, l\'imite ; quand il voit une faute en lui-même, il s\'en défait.',
+    lines: [
+      { position: 1, text: 'Il est avantageux d\'accomplir de grandes œuvres. Sublime félicité. Pas de blâme.' },
+      { position: 2, text: 'Quelqu\'un l\'augmente vraiment ; dix paires de tortues ne peuvent s\'y opposer. La persévérance constante apporte la félicité. Le roi le présente devant Dieu. Félicité.' },
+      { position: 3, text: 'On est enrichi par des événements malheureux. Pas de blâme, si tu es sincère, marches dans le milieu et fais ton rapport au prince avec un sceau.' },
+      { position: 4, text: 'Si tu marches dans le milieu et fais ton rapport au prince, il suivra. Il est avantageux d\'être employé au transfert de la capitale.' },
+      { position: 5, text: 'Si en vérité tu as un cœur bienveillant, ne demande pas. Sublime félicité. En vérité, la bonté sera reconnue comme ta vertu.' },
+      { position: 6, text: 'Il n\'apporte d\'augmentation à personne. Bien plus, quelqu\'un le frappe. Il ne garde pas son cœur constamment ferme. Infortune.' },
+    ],
+  },
+  45: {
+    name: 'Le Rassemblement',
+    meaning: 'Assemblée, convocation, réunion',
+    judgment: 'Le Rassemblement. Succès. Le roi s\'approche de son temple. Il est avantageux de voir le grand homme. Succès. Il est avantageux d\'entreprendre quelque chose. Il est avantageux d\'offrir des sacrifices.',
+    image: 'Au-dessus de la terre, le lac : l\'image du Rassemblement. Ainsi l\'homme noble met ses armes en ordre pour faire face à l\'imprévu.',
+    lines: [
+      { position: 1, text: 'Si tu es sincère, mais non jusqu\'au bout, il y aura tantôt confusion, tantôt rassemblement. Si tu appelles, après une poignée de main tu pourras rire de nouveau. Ne regrette rien. Aller est sans blâme.' },
+      { position: 2, text: 'Se laisser attirer apporte la félicité et demeure sans blâme. Si l\'on est sincère, il est avantageux d\'apporter même une petite offrande.' },
+      { position: 3, text: 'Rassemblement parmi les soupirs. Rien qui soit avantageux. Aller est sans blâme. Légère humiliation.' },
+      { position: 4, text: 'Grande félicité. Pas de blâme.' },
+      { position: 5, text: 'Si dans le rassemblement on a une position, cela n\'apporte pas de blâme. S\'il en est qui ne sont pas encore sincèrement à l\'œuvre, une persévérance sublime et durable est nécessaire. Alors le remords disparaît.' },
+      { position: 6, text: 'Lamentations et soupirs, larmes à flots. Pas de blâme.' },
+    ],
+  },
+  46: {
+    name: 'La Poussée vers le haut',
+    meaning: 'Élévation, ascension, promotion',
+    judgment: 'La Poussée vers le haut a une sublime réussite. Il faut voir le grand homme. Ne crains rien. Partir vers le sud apporte la félicité.',
+    image: 'Au milieu de la terre croît le bois : l\'image de la Poussée vers le haut. Ainsi l\'homme noble au caractère dévoué accumule les petites choses pour atteindre ce qui est haut et grand.',
+    lines: [
+      { position: 1, text: 'Une poussée vers le haut qui rencontre la confiance apporte une grande félicité.' },
+      { position: 2, text: 'Si l\'on est sincère, il est avantageux d\'apporter même une petite offrande. Pas de blâme.' },
+      { position: 3, text: 'On pousse vers le haut dans une ville vide.' },
+      { position: 4, text: 'Le roi lui offre le mont Ki. Félicité. Pas de blâme.' },
+      { position: 5, text: 'La persévérance apporte la félicité. On pousse vers le haut par degrés.' },
+      { position: 6, text: 'Poussée vers le haut dans l\'obscurité. Il est avantageux d\'être persévérant sans relâche.' },
+    ],
+  },
+  47: {
+    name: 'L\'Accablement',
+    meaning: 'Épuisement, difficulté, calamité',
+    judgment: 'L\'Accablement. Succès. Persévérance. Le grand homme apporte la félicité. Pas de blâme. Quand on a quelque chose à dire, on n\'est pas cru.',
+    image: 'Il n\'y a pas d\'eau dans le lac : l\'image de l\'Accablement. Ainsi l\'homme noble met sa vie en jeu pour suivre sa volonté.',
+    lines: [
+      { position: 1, text: 'On est assis, accablé, sous un arbre dénudé et l\'on s\'égare dans une vallée sombre. Pendant trois ans on ne voit rien.' },
+      { position: 2, text: 'On est accablé au milieu du vin et des mets. L\'homme aux genouillères écarlates arrive justement. Il est avantageux d\'offrir des sacrifices. Partir apporte l\'infortune. Pas de blâme.' },
+      { position: 3, text: 'Un homme se laisse accabler par la pierre et s\'appuie sur les épines et les chardons. Il entre dans sa maison et ne voit pas sa femme. Infortune.' },
+      { position: 4, text: 'Il vient très lentement, accablé dans une voiture d\'or. Humiliation, mais la fin est atteinte.' },
+      { position: 5, text: 'On lui coupe le nez et les pieds. Accablement par l\'homme aux genouillères pourpres. La joie vient doucement. Il est avantageux d\'offrir des sacrifices et des libations.' },
+      { position: 6, text: 'Il est accablé par des plantes grimpantes. Il se meut avec incertitude et dit : « Le mouvement apporte le remords. » Si l\'on en éprouve du remords et que l\'on se met en route, la félicité vient.' },
+    ],
+  },
+  48: {
+    name: 'Le Puits',
+    meaning: 'Source d\'eau, renouveau, communauté',
+    judgment: 'Le Puits. On peut changer la ville, mais on ne peut changer le puits. Il ne diminue ni n\'augmente. Ils vont et viennent et puisent au puits. Si l\'on arrive presque jusqu\'à l\'eau et que la corde ne descend pas jusqu\'au bout, ou que la cruche se brise, cela apporte l\'infortune.',
+    image: 'L\'eau au-dessus du bois : l\'image du Puits. Ainsi l\'homme noble encourage le peuple au travail et l\'exhorte à s\'entraider.',
+    lines: [
+      { position: 1, text: 'On ne boit pas la boue du puits. Aucun animal ne vient à un vieux puits.' },
+      { position: 2, text: 'Au trou du puits on tire sur des poissons. La cruche est brisée et fuit.' },
+      { position: 3, text: 'Le puits est nettoyé, mais personne n\'y boit. C\'est la peine de mon cœur, car on pourrait y puiser. Si le roi avait l\'esprit clair, on pourrait jouir ensemble de la félicité.' },
+      { position: 4, text: 'On revêt le puits de maçonnerie. Pas de blâme.' },
+      { position: 5, text: 'Dans le puits il y a une source claire et froide où l\'on peut boire.' },
+      { position: 6, text: 'On puise au puits sans entrave. Il est digne de confiance. Sublime félicité.' },
+    ],
+  },
+  49: {
+    name: 'La Révolution',
+    meaning: 'Transformation, changement radical, renouveau',
+    judgment: 'La Révolution. En ton propre jour, tu trouves créance. Sublime succès, favorisant par la persévérance. Le remords disparaît.',
+    image: 'Le feu dans le lac : l\'image de la Révolution. Ainsi l\'homme noble met en ordre le calendrier et rend claires les saisons.',
+    lines: [
+      { position: 1, text: 'Enveloppé dans la peau d\'une vache jaune.' },
+      { position: 2, text: 'Quand son propre jour est venu, on peut faire la révolution. Partir apporte la félicité. Pas de blâme.' },
+      { position: 3, text: 'Partir apporte l\'infortune. La persévérance apporte le danger. Quand le propos de révolution a fait trois fois le tour, on peut s\'engager, et les hommes le croiront.' },
+      { position: 4, text: 'Le remords disparaît. Les hommes le croient. Changer la forme du gouvernement apporte la félicité.' },
+      { position: 5, text: 'Le grand homme change comme un tigre. Avant même d\'interroger l\'oracle, il trouve créance.' },
+      { position: 6, text: 'L\'homme noble change comme une panthère. L\'homme vulgaire mue au visage. Partir apporte l\'infortune. Demeurer persévérant apporte la félicité.' },
+    ],
+  },
+  50: {
+    name: 'Le Chaudron',
+    meaning: 'Récipient, transformation, nourriture',
+    judgment: 'Le Chaudron. Sublime félicité. Succès.',
+    image: 'Le feu au-dessus du bois : l\'image du Chaudron. Ainsi l\'homme noble affermit son destin en se cultivant lui-même.',
+    lines: [
+      { position: 1, text: 'Un chaudron aux pieds renversés. Favorable pour ôter ce qui stagne. On prend une concubine pour l\'amour de son fils. Pas de blâme.' },
+      { position: 2, text: 'Il y a de la nourriture dans le chaudron. Mes compagnons sont envieux, mais ils ne peuvent me nuire. Félicité.' },
+      { position: 3, text: 'L\'anse du chaudron est altérée. On est entravé dans sa manière de vivre. La graisse du faisan n\'est pas mangée. Dès que la pluie tombe, le remords s\'épuise. À la fin vient la félicité.' },
+      { position: 4, text: 'Les pieds du chaudron sont brisés. Le repas du prince est renversé et sa personne est souillée. Infortune.' },
+      { position: 5, text: 'Le chaudron a des anses jaunes, des anneaux de portage d\'or. La persévérance est avantageuse.' },
+      { position: 6, text: 'Le chaudron a des anneaux de jade. Grande félicité. Rien qui ne soit avantageux.' },
+    ],
+  },
+  51: {
+    name: 'L\'Éveilleur',
+    meaning: 'Le tonnerre, l\'éveil, l\'ébranlement',
+    judgment: 'L\'Éveilleur. L\'ébranlement apporte le succès. L\'ébranlement vient : oh, oh ! Paroles rieuses : ha, ha ! L\'ébranlement effraie à cent lieues à la ronde, et il ne laisse pas tomber la cuillère ni la coupe sacrificielles.',
+    image: 'Le tonnerre redoublé : l\'image de l\'Ébranlement. Ainsi, dans la crainte et le tremblement, l\'homme noble met sa vie en ordre.',
+    lines: [
+      { position: 1, text: 'L\'ébranlement vient : oh, oh ! Puis suivent des paroles rieuses : ha, ha ! Félicité.' },
+      { position: 2, text: 'L\'ébranlement vient et apporte le danger. Cent mille fois tu perds tes trésors et tu dois gravir les neuf collines. Ne les poursuis pas. Après sept jours tu les recouvreras.' },
+      { position: 3, text: 'L\'ébranlement vient et vous trouble. Si l\'ébranlement pousse à l\'action, on reste exempt d\'infortune.' },
+      { position: 4, text: 'L\'ébranlement s\'enlise.' },
+      { position: 5, text: 'L\'ébranlement va çà et là. Danger. Pourtant rien n\'est perdu. Il y a cependant des choses à faire.' },
+      { position: 6, text: 'L\'ébranlement apporte la ruine et des regards effarés alentour. Avancer apporte l\'infortune. S\'il n\'a pas encore touché son propre corps mais a d\'abord atteint le voisin, il n\'y a pas de blâme. Les compagnons ont de quoi parler.' },
+    ],
+  },
+  52: {
+    name: 'L\'Immobilisation',
+    meaning: 'La montagne, l\'immobilité, le non-agir',
+    judgment: 'L\'Immobilisation. La montagne. Tenir son dos immobile, de sorte qu\'il ne sent plus son corps. Il va dans sa cour et ne voit pas ses gens. Pas de blâme.',
+    image: 'Des montagnes qui se tiennent l\'une contre l\'autre : l\'image de l\'Immobilisation. Ainsi l\'homme noble ne laisse pas ses pensées aller au-delà de sa situation.',
+    lines: [
+      { position: 1, text: 'Tenir ses orteils immobiles. Pas de blâme. La persévérance constante est avantageuse.' },
+      { position: 2, text: 'Tenir ses mollets immobiles. Il ne peut secourir celui qu\'il suit. Son cœur n\'est pas joyeux.' },
+      { position: 3, text: 'Tenir ses hanches immobiles. Raidir son sacrum. Dangereux. Le cœur suffoque.' },
+      { position: 4, text: 'Tenir son tronc immobile. Pas de blâme.' },
+      { position: 5, text: 'Tenir ses mâchoires immobiles. Les paroles ont de l\'ordre. Le remords disparaît.' },
+      { position: 6, text: 'Immobilisation magnanime. Félicité.' },
+    ],
+  },
+  53: {
+    name: 'Le Développement progressif',
+    meaning: 'Progrès graduel, étapes, avancée',
+    judgment: 'Le Développement progressif. La jeune fille est donnée en mariage. Félicité. Il est avantageux d\'entreprendre quelque chose.',
+    image: 'Sur la montagne, un arbre : l\'image du Développement progressif. Ainsi l\'homme noble demeure dans la dignité et la vertu, afin d\'améliorer les mœurs.',
+    lines: [
+      { position: 1, text: 'L\'oie sauvage s\'approche peu à peu du rivage. Le jeune fils est en danger. Il y a des propos. Pas de blâme.' },
+      { position: 2, text: 'L\'oie sauvage s\'approche peu à peu du rocher. Manger et boire dans la paix et la concorde. Félicité.' },
+      { position: 3, text: 'L\'oie sauvage s\'approche peu à peu du plateau. L\'homme part et ne revient pas. La femme porte un enfant mais ne le met pas au monde. Infortune. Il est avantageux de repousser les brigands.' },
+      { position: 4, text: 'L\'oie sauvage va peu à peu vers l\'arbre. Peut-être trouvera-t-elle une branche plate. Pas de blâme.' },
+      { position: 5, text: 'L\'oie sauvage s\'approche peu à peu du sommet. Pendant trois ans la femme n\'a pas d\'enfant. À la fin rien ne peut l\'en empêcher. Félicité.' },
+      { position: 6, text: 'L\'oie sauvage s\'approche peu à peu des hauteurs des nuages. Ses plumes peuvent servir à la danse sacrée. Félicité.' },
+    ],
+  },
+  54: {
+    name: 'L\'Épousée',
+    meaning: 'Position subordonnée, ordre naturel, transition',
+    judgment: 'L\'Épousée. Les entreprises apportent l\'infortune. Rien qui soit avantageux.',
+    image: 'Le tonnerre au-dessus du lac : l\'image de l\'Épousée. Ainsi l\'homme noble comprend ce qui est passager à la lumière de l\'éternité de la fin.',
+    lines: [
+      { position: 1, text: 'L\'épousée comme concubine. Un boiteux qui peut marcher. Les entreprises apportent la félicité.' },
+      { position: 2, text: 'Un borgne qui peut voir. La persévérance d\'un homme solitaire est avantageuse.' },
+      { position: 3, text: 'L\'épousée comme esclave. Elle se marie comme concubine.' },
+      { position: 4, text: 'L\'épousée laisse passer le temps fixé. Un mariage tardif vient en son temps.' },
+      { position: 5, text: 'Le souverain I donna sa fille en mariage. Les vêtements brodés de la princesse n\'étaient pas aussi splendides que ceux de la servante. La lune presque pleine apporte la félicité.' },
+      { position: 6, text: 'La femme tient la corbeille, mais il n\'y a pas de fruits dedans. L\'homme égorge le mouton, mais le sang ne coule pas. Rien qui soit avantageux.' },
+    ],
+  },
+  55: {
+    name: 'L\'Abondance',
+    meaning: 'Plénitude, apogée, maximum',
+    judgment: 'L\'Abondance a du succès. Le roi atteint l\'abondance. Ne sois pas triste. Sois comme le soleil à midi.',
+    image: 'Le tonnerre et l\'éclair viennent ensemble : l\'image de l\'Abondance. Ainsi l\'homme noble tranche les procès et exécute les peines.',
+    lines: [
+      { position: 1, text: 'Quand un homme rencontre le maître qui lui est destiné, ils peuvent être ensemble dix jours, et ce n\'est pas une faute. Aller rencontre la reconnaissance.' },
+      { position: 2, text: 'Le rideau est d\'une telle plénitude qu\'on peut voir les étoiles polaires à midi. En allant, on rencontre la méfiance et la haine. Si on l\'éveille par la vérité, la félicité vient.' },
+      { position: 3, text: 'Le fourré est d\'une telle abondance qu\'on peut voir les petites étoiles à midi. Il se brise le bras droit. Pas de blâme.' },
+      { position: 4, text: 'Le rideau est d\'une telle plénitude qu\'on peut voir les étoiles polaires à midi. Il rencontre son maître, qui est de même nature. Félicité.' },
+      { position: 5, text: 'Des lignes arrivent, la bénédiction et la gloire s\'approchent. Félicité.' },
+      { position: 6, text: 'Sa maison est dans l\'abondance. Il isole sa famille. Il regarde par la porte et n\'aperçoit plus personne. Pendant trois ans il ne voit rien. Infortune.' },
+    ],
+  },
+  56: {
+    name: 'Le Voyageur',
+    meaning: 'Voyage, exil, adaptation',
+    judgment: 'Le Voyageur. Succès par la petitesse. La persévérance apporte la félicité au voyageur.',
+    image: 'Le feu sur la montagne : l\'image du Voyageur. Ainsi l\'homme noble est clair et prudent, et évite par là les châtiments et les épreuves.',
+    lines: [
+      { position: 1, text: 'Si le voyageur s\'occupe de choses insignifiantes, il attire sur lui l\'infortune.' },
+      { position: 2, text: 'Le voyageur arrive à une auberge. Il a ses biens avec lui. Il gagne la fidélité d\'un jeune serviteur.' },
+      { position: 3, text: 'L\'auberge du voyageur brûle. Il perd la fidélité de son jeune serviteur. Danger.' },
+      { position: 4, text: 'Le voyageur se repose dans un abri. Il obtient ses biens et une hache. Mon cœur n\'est pas joyeux.' },
+      { position: 5, text: 'Il tire sur un faisan. Il tombe à la première flèche. À la fin cela apporte louange et charge.' },
+      { position: 6, text: 'Le nid de l\'oiseau brûle. Le voyageur rit d\'abord, puis il doit se lamenter et pleurer. Par insouciance il perd sa vache. Infortune.' },
+    ],
+  },
+  57: {
+    name: 'Le Doux',
+    meaning: 'Le vent, la douceur, la souplesse',
+    judgment: 'Le Doux. Succès par ce qui est petit. Il est avantageux d\'avoir un but. Il est avantageux de voir le grand homme.',
+    image: 'Des vents qui se suivent : l\'image du Doux pénétrant. Ainsi l\'homme noble répand ses ordres et mène à bien ses entreprises.',
+    lines: [
+      { position: 1, text: 'En avançant et en reculant, la persévérance d\'un guerrier est avantageuse.' },
+      { position: 2, text: 'Pénétration sous le lit. On emploie prêtres et magiciens en grand nombre. Félicité. Pas de blâme.' },
+      { position: 3, text: 'Pénétration répétée. Humiliation.' },
+      { position: 4, text: 'Le remords disparaît. À la chasse on prend trois sortes de gibier.' },
+      { position: 5, text: 'La persévérance apporte la félicité. Le remords disparaît. Rien qui ne soit avantageux. Pas de commencement, mais une fin. Avant le changement, trois jours. Après le changement, trois jours. Félicité.' },
+      { position: 6, text: 'Pénétration sous le lit. Il perd ses biens et sa hache. La persévérance apporte l\'infortune.' },
+    ],
+  },
+  58: {
+    name: 'Le Serein',
+    meaning: 'Le lac, le plaisir, la joie',
+    judgment: 'Le Serein. Succès. La persévérance est avantageuse.',
+    image: 'Des lacs qui se joignent : l\'image du Serein. Ainsi l\'homme noble se joint à ses amis pour la discussion et l\'exercice.',
+    lines: [
+      { position: 1, text: 'Sérénité satisfaite. Félicité.' },
+      { position: 2, text: 'Sérénité sincère. Félicité. Le remords disparaît.' },
+      { position: 3, text: 'Sérénité qui vient. Infortune.' },
+      { position: 4, text: 'La sérénité qui pèse n\'est pas en paix. Après s\'être défait de ses fautes, un homme a de la joie.' },
+      { position: 5, text: 'La sincérité envers les influences dissolvantes est dangereuse.' },
+      { position: 6, text: 'Sérénité séductrice.' },
+    ],
+  },
+  59: {
+    name: 'La Dissolution',
+    meaning: 'Séparation, dissolution, dispersion',
+    judgment: 'La Dissolution. Succès. Le roi s\'approche de son temple. Il est avantageux de traverser les grandes eaux. La persévérance est avantageuse.',
+    image: 'Le vent souffle sur l\'eau : l\'image de la Dissolution. Ainsi les rois d\'autrefois offraient des sacrifices au Seigneur et bâtissaient des temples.',
+    lines: [
+      { position: 1, text: 'Il apporte du secours avec la force d\'un cheval. Félicité.' },
+      { position: 2, text: 'Lors de la dissolution il se hâte vers ce qui le soutient. Le remords disparaît.' },
+      { position: 3, text: 'Il dissout son moi. Pas de remords.' },
+      { position: 4, text: 'Il dissout son lien avec son groupe. Sublime félicité. La dissolution mène à son tour à l\'accumulation. C\'est là une chose à laquelle les hommes ordinaires ne pensent pas.' },
+      { position: 5, text: 'Ses grands cris dissolvent comme la sueur. Dissolution ! Un roi demeure sans blâme.' },
+      { position: 6, text: 'Il dissout son sang. S\'en aller, se tenir à distance, sortir, est sans blâme.' },
+    ],
+  },
+  60: {
+    name: 'La Limitation',
+    meaning: 'Restriction, bornes, maîtrise de soi',
+    judgment: 'La Limitation. Succès. Il ne faut pas persévérer dans une limitation amère.',
+    image: 'L\'eau au-dessus du lac : l\'image de la Limitation. Ainsi l\'homme noble crée le nombre et la mesure, et examine la nature de ses actes.',
+    lines: [
+      { position: 1, text: 'Ne pas sortir de la porte et de la cour est sans blâme.' },
+      { position: 2, text: 'Ne pas sortir du portail et de la cour apporte l\'infortune.' },
+      { position: 3, text: 'Celui qui ne connaît pas de limitation aura sujet de se lamenter. Pas de blâme.' },
+      { position: 4, text: 'Limitation paisible. Succès.' },
+      { position: 5, text: 'Une limitation douce apporte la félicité. Aller apporte l\'estime.' },
+      { position: 6, text: 'Limitation amère. La persévérance apporte l\'infortune. Le remords disparaît.' },
+    ],
+  },
+  61: {
+    name: 'La Vérité intérieure',
+    meaning: 'Sincérité, fiabilité, intégrité',
+    judgment: 'La Vérité intérieure. Porcs et poissons. Félicité. Il est avantageux de traverser les grandes eaux. La persévérance est avantageuse.',
+    image: 'Le vent au-dessus du lac : l\'image de la Vérité intérieure. Ainsi l\'homme noble délibère sur les affaires criminelles afin de différer les condamnations à mort.',
+    lines: [
+      { position: 1, text: 'Être prêt apporte la félicité. S\'il y a des desseins secrets, c\'est inquiétant.' },
+      { position: 2, text: 'Une grue qui appelle dans l\'ombre. Son petit lui répond. J\'ai une bonne coupe. Je veux la partager avec toi.' },
+      { position: 3, text: 'Il trouve un compagnon. Tantôt il bat le tambour, tantôt il s\'arrête. Tantôt il sanglote, tantôt il chante.' },
+      { position: 4, text: 'La lune presque pleine. Le cheval d\'attelage s\'égare. Pas de blâme.' },
+      { position: 5, text: 'Il possède la vérité qui unit. Pas de blâme.' },
+      { position: 6, text: 'Le chant du coq qui pénètre jusqu\'au ciel. La persévérance apporte l\'infortune.' },
+    ],
+  },
+  62: {
+    name: 'La Prépondérance du petit',
+    meaning: 'Excès de prudence, menus détails, limitation',
+    judgment: 'La Prépondérance du petit. Succès. La persévérance est avantageuse. On peut faire les petites choses ; on ne doit pas faire les grandes. L\'oiseau qui vole apporte le message : il n\'est pas bon de tendre vers le haut, il est bon de rester en bas. Grande félicité.',
+    image: 'Le tonnerre sur la montagne : l\'image de la Prépondérance du petit. Ainsi, dans sa conduite, l\'homme noble met l\'accent sur ce qui est modeste.',
+    lines: [
+      { position: 1, text: 'L\'oiseau rencontre l\'infortune en volant.' },
+      { position: 2, text: 'Elle dépasse son aïeul et rencontre son aïeule. Il n\'atteint pas son prince et rencontre le fonctionnaire. Pas de blâme.' },
+      { position: 3, text: 'Si l\'on n\'est pas extrêmement prudent, quelqu\'un peut survenir par derrière et le frapper. Infortune.' },
+      { position: 4, text: 'Pas de blâme. Il le rencontre sans le dépasser. Aller apporte le danger. Il faut être sur ses gardes. N\'agis pas. Sois constamment persévérant.' },
+      { position: 5, text: 'Nuages épais, pas de pluie venant de notre territoire de l\'ouest. Le prince tire et atteint celui qui est dans la caverne.' },
+      { position: 6, text: 'Il le dépasse sans le rencontrer. L\'oiseau qui vole le quitte. Infortune. Cela signifie malheur et dommage.' },
+    ],
+  },
+  63: {
+    name: 'Après l\'accomplissement',
+    meaning: 'Achèvement, plénitude, au-delà de la crise',
+    judgment: 'Après l\'accomplissement. Succès dans les petites choses. La persévérance est avantageuse. Il est avantageux d\'entreprendre quelque chose. Le commencement apporte la félicité, la fin le désordre.',
+    image: 'L\'eau au-dessus du feu : l\'image de l\'État après l\'accomplissement. Ainsi l\'homme noble songe au malheur et s\'arme d\'avance contre lui.',
+    lines: [
+      { position: 1, text: 'Il freine ses roues. Il se mouille la queue. Pas de blâme.' },
+      { position: 2, text: 'La femme perd le rideau de sa voiture. Ne cours pas après ; le septième jour tu le retrouveras.' },
+      { position: 3, text: 'L\'Illustre Ancêtre châtie le Pays des Démons. Au bout de trois ans il le soumet. Il ne faut pas employer des hommes vulgaires.' },
+      { position: 4, text: 'Les plus beaux vêtements tournent en haillons. Sois prudent tout le jour.' },
+      { position: 5, text: 'Le voisin de l\'est qui égorge un bœuf n\'obtient pas autant de vrai bonheur que le voisin de l\'ouest avec sa petite offrande.' },
+      { position: 6, text: 'Il se mouille la tête. Danger.' },
+    ],
+  },
+  64: {
+    name: 'Avant l\'accomplissement',
+    meaning: 'Inachèvement, transition, œuvre en cours',
+    judgment: 'Avant l\'accomplissement. Succès. Le petit renard, ayant presque achevé la traversée, se mouille la queue. Rien qui soit avantageux.',
+    image: 'Le feu au-dessus de l\'eau : l\'image de l\'État avant l\'accomplissement. Ainsi l\'homme noble est prudent dans la distinction des choses.',
+    lines: [
+      { position: 1, text: 'Il se mouille la queue. Humiliant.' },
+      { position: 2, text: 'Il freine ses roues. La persévérance apporte la félicité.' },
+      { position: 3, text: 'Avant l\'accomplissement, attaquer apporte l\'infortune. Il est avantageux de traverser les grandes eaux.' },
+      { position: 4, text: 'La persévérance apporte la félicité. Le remords disparaît. Ébranlement, pour châtier le Pays des Démons. Pendant trois ans, de grands royaumes sont accordés.' },
+      { position: 5, text: 'La persévérance apporte la félicité. Pas de remords. La lumière de l\'homme noble est vraie. Félicité.' },
+      { position: 6, text: 'On boit du vin en toute confiance. Pas de blâme. Mais si l\'on se mouille la tête, on la perd en vérité.' },
+    ],
+  },
+};
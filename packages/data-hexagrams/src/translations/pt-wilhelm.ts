@@ -0,0 +1,908 @@
+/**
+ * Portuguese rendering of the Wilhelm translation of all 64 hexagrams ('pt-wilhelm')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: 'O Criativo',
+    meaning: 'Céu, o princípio criativo, energia yang pura',
+    judgment: 'O Criativo opera sublime sucesso, favorecendo pela perseverança.',
+    image: 'O movimento do céu é cheio de força. Assim o homem superior se torna forte e incansável.',
+    lines: [
+      { position: 1, text: 'Dragão oculto. Não aja.' },
+      { position: 2, text: 'Dragão que aparece no campo. É favorável ver o grande homem.' },
+      { position: 3, text: 'Durante todo o dia o homem superior é criativamente ativo. Ao anoitecer sua mente ainda está cheia de preocupações. Perigo. Nenhuma culpa.' },
+      { position: 4, text: 'Voo hesitante sobre as profundezas. Nenhuma culpa.' },
+      { position: 5, text: 'Dragão voando no céu. É favorável ver o grande homem.' },
+      { position: 6, text: 'O dragão arrogante terá motivo de arrependimento.' },
+    ],
+    allMoving: 'Aparece um bando de dragões sem cabeça. Boa fortuna.',
+  },
+  2: {
+    name: 'O Receptivo',
+    meaning: 'Terra, o princípio receptivo, energia yin pura',
+    judgment: 'O Receptivo traz sublime sucesso, favorecendo pela perseverança de uma égua.',
+    image: 'A condição da terra é a devoção receptiva. Assim o homem superior, de caráter amplo, sustenta o mundo exterior.',
+    lines: [
+      { position: 1, text: 'Quando há geada sob os pés, o gelo sólido não está longe.' },
+      { position: 2, text: 'Reto, quadrado, grande. Sem propósito, e contudo nada deixa de ser favorecido.' },
+      { position: 3, text: 'Linhas ocultas. É possível permanecer perseverante. Se por acaso estiver a serviço de um rei, não busque obras, mas leve a termo.' },
+      { position: 4, text: 'Um saco amarrado. Nenhuma culpa, nenhum louvor.' },
+      { position: 5, text: 'Uma veste inferior amarela traz suprema boa fortuna.' },
+      { position: 6, text: 'Dragões lutam no prado. Seu sangue é negro e amarelo.' },
+    ],
+    allMoving: 'A perseverança duradoura é favorável.',
+  },
+  11: {
+    name: 'A Paz',
+    meaning: 'Céu e terra se unem, harmonia e prosperidade',
+    judgment: 'A Paz. O pequeno se vai, o grande se aproxima. Boa fortuna. Sucesso.',
+    image: 'Céu e terra se unem: a imagem da Paz. Assim o governante divide e completa o curso do céu e da terra.',
+    lines: [
+      { position: 1, text: 'Quando se arranca a grama, o torrão vem junto. Cada um segundo sua espécie. Os empreendimentos trazem boa fortuna.' },
+      { position: 2, text: 'Suportar os incultos com brandura, atravessar o rio com resolução, não negligenciar o que está distante, não considerar os companheiros: assim se pode conseguir caminhar no meio.' },
+      { position: 3, text: 'Não há planície que não seja seguida de uma encosta. Não há ida que não seja seguida de um retorno. Quem permanece perseverante no perigo é sem culpa. Não se queixe desta verdade; desfrute a boa fortuna que ainda possui.' },
+      { position: 4, text: 'Ele desce esvoaçando, sem se vangloriar de sua riqueza, junto com seu vizinho, sem malícia e sincero.' },
+      { position: 5, text: 'O soberano I dá sua filha em casamento. Isso traz bênção e suprema boa fortuna.' },
+      { position: 6, text: 'A muralha cai de volta no fosso. Não use exércitos agora. Dê a conhecer suas ordens em sua própria cidade. A perseverança traz humilhação.' },
+    ],
+  },
+  12: {
+    name: 'Estagnação',
+    meaning: 'Céu e terra não se unem, paralisação',
+    judgment: 'Estagnação. Pessoas más não favorecem a perseverança do homem superior. O grande se vai, o pequeno se aproxima.',
+    image: 'Céu e terra não se unem: a imagem da Estagnação. Assim o homem superior se recolhe em seu valor interior.',
+    lines: [
+      { position: 1, text: 'Quando se arranca a grama, o torrão vem junto. Cada um segundo sua espécie. A perseverança traz boa fortuna e sucesso.' },
+      { position: 2, text: 'Eles suportam e toleram; isso significa boa fortuna para os homens inferiores. A estagnação serve para ajudar o grande homem a alcançar o sucesso.' },
+      { position: 3, text: 'Eles suportam a vergonha.' },
+      { position: 4, text: 'Quem age por ordem do altíssimo permanece sem culpa. Os que têm o mesmo espírito participam da bênção.' },
+      { position: 5, text: 'A estagnação cede. Boa fortuna para o grande homem. “E se falhar, e se falhar?” Assim ele a amarra a um feixe de brotos de amoreira.' },
+      { position: 6, text: 'A estagnação chega ao fim. Primeiro estagnação, depois boa fortuna.' },
+    ],
+  },
+  19: {
+    name: 'Aproximação',
+    meaning: 'Aproximar-se, tornar-se grande, avançar',
+    judgment: 'A Aproximação tem supremo sucesso. A perseverança é favorável. Quando chegar o oitavo mês, haverá infortúnio.',
+    image: 'A terra acima do lago: a imagem da Aproximação. Assim o homem superior é inesgotável em sua vontade de ensinar.',
+    lines: [
+      { position: 1, text: 'Aproximação conjunta. A perseverança traz boa fortuna.' },
+      { position: 2, text: 'Aproximação conjunta. Boa fortuna. Tudo é favorável.' },
+      { position: 3, text: 'Aproximação complacente. Nada que seja favorável. Se alguém é levado a afligir-se com isso, fica livre de culpa.' },
+      { position: 4, text: 'Aproximação completa. Nenhuma culpa.' },
+      { position: 5, text: 'Aproximação sábia. Isso é adequado a um grande príncipe. Boa fortuna.' },
+      { position: 6, text: 'Aproximação magnânima. Boa fortuna. Nenhuma culpa.' },
+    ],
+  },
+  20: {
+    name: 'Contemplação',
+    meaning: 'Ver, observar, ser exemplo',
+    judgment: 'Contemplação. A ablução foi feita, mas ainda não a oferenda. Cheios de confiança, erguem os olhos para ele.',
+    image: 'O vento sopra sobre a terra: a imagem da Contemplação. Assim os reis de outrora visitavam as regiões do mundo.',
+    lines: [
+      { position: 1, text: 'Contemplação infantil. Para um homem inferior, nenhuma culpa. Para um homem superior, humilhação.' },
+      { position: 2, text: 'Contemplação pela fresta da porta. Favorável à perseverança de uma mulher.' },
+      { position: 3, text: 'A contemplação de minha vida decide a escolha entre avançar e recuar.' },
+      { position: 4, text: 'Contemplação da luz do reino. É favorável exercer influência como hóspede de um rei.' },
+      { position: 5, text: 'Contemplação de minha vida. O homem superior é sem culpa.' },
+      { position: 6, text: 'Contemplação de sua vida. O homem superior é sem culpa.' },
+    ],
+  },
+  23: {
+    name: 'Desintegração',
+    meaning: 'Decadência, despojamento, deterioração',
+    judgment: 'Desintegração. Não é favorável ir a parte alguma.',
+    image: 'A montanha repousa sobre a terra: a imagem da Desintegração. Assim os que estão em cima só podem assegurar sua posição dando generosamente aos que estão embaixo.',
+    lines: [
+      { position: 1, text: 'O pé da cama se parte. Os que perseveram são destruídos. Infortúnio.' },
+      { position: 2, text: 'A cama se parte na borda. Os que perseveram são destruídos. Infortúnio.' },
+      { position: 3, text: 'Ele rompe com eles. Nenhuma culpa.' },
+      { position: 4, text: 'A cama se parte até a pele. Infortúnio.' },
+      { position: 5, text: 'Um cardume de peixes. O favor vem através das damas da corte. Tudo é favorável.' },
+      { position: 6, text: 'Há um grande fruto ainda não comido. O homem superior recebe uma carruagem. A casa do homem inferior se desintegra.' },
+    ],
+  },
+  24: {
+    name: 'O Retorno',
+    meaning: 'O ponto de mutação, renovação, regresso',
+    judgment: 'O Retorno. Sucesso. Sair e entrar sem erro. Os amigos chegam sem culpa. Ir e vir, assim é o caminho.',
+    image: 'O trovão dentro da terra: a imagem do Ponto de Mutação. Assim os reis da Antiguidade fechavam as passagens na época do solstício.',
+    lines: [
+      { position: 1, text: 'Retorno de uma curta distância. Não há necessidade de arrependimento. Grande boa fortuna.' },
+      { position: 2, text: 'Retorno tranquilo. Boa fortuna.' },
+      { position: 3, text: 'Retorno repetido. Perigo. Nenhuma culpa.' },
+      { position: 4, text: 'Caminhando no meio dos outros, retorna-se sozinho.' },
+      { position: 5, text: 'Retorno magnânimo. Nenhum arrependimento.' },
+      { position: 6, text: 'Retorno falhado. Infortúnio. Infortúnio de dentro e de fora. Se assim se põem exércitos em marcha, sofre-se no fim uma grande derrota, desastrosa para o governante do país. Durante dez anos não será possível atacar de novo.' },
+    ],
+  },
+  33: {
+    name: 'A Retirada',
+    meaning: 'Retraimento, recuo, retirada estratégica',
+    judgment: 'A Retirada. Sucesso. Nas pequenas coisas, a perseverança é favorável.',
+    image: 'A montanha sob o céu: a imagem da Retirada. Assim o homem superior mantém à distância o homem inferior, não com raiva, mas com reserva.',
+    lines: [
+      { position: 1, text: 'Na cauda da retirada. Isso é perigoso. Não se deve querer empreender nada.' },
+      { position: 2, text: 'Ele o segura firme com couro de boi amarelo. Ninguém consegue soltá-lo.' },
+      { position: 3, text: 'Uma retirada interrompida é angustiante e perigosa. Manter pessoas como servos e servas traz boa fortuna.' },
+      { position: 4, text: 'A retirada voluntária traz boa fortuna ao homem superior e ruína ao homem inferior.' },
+      { position: 5, text: 'Retirada amistosa. A perseverança traz boa fortuna.' },
+      { position: 6, text: 'Retirada alegre. Tudo é favorável.' },
+    ],
+  },
+  34: {
+    name: 'O Poder do Grande',
+    meaning: 'Grande força, vigor, avanço poderoso',
+    judgment: 'O Poder do Grande. A perseverança é favorável.',
+    image: 'O trovão no alto do céu: a imagem do Poder do Grande. Assim o homem superior não trilha caminhos que não estejam de acordo com a ordem estabelecida.',
+    lines: [
+      { position: 1, text: 'Poder nos dedos dos pés. Continuar traz infortúnio. Isso é certamente verdade.' },
+      { position: 2, text: 'A perseverança traz boa fortuna.' },
+      { position: 3, text: 'O homem inferior age pela força. O homem superior não age assim. Continuar é perigoso. Um bode investe contra uma sebe e enreda os chifres.' },
+      { position: 4, text: 'A perseverança traz boa fortuna. O arrependimento desaparece. A sebe se abre; não há enredamento. O poder depende do eixo de uma grande carroça.' },
+      { position: 5, text: 'Perde o bode com facilidade. Nenhum arrependimento.' },
+      { position: 6, text: 'Um bode investe contra uma sebe. Não pode recuar, não pode avançar. Nada é favorável. Se se percebe a dificuldade, isso traz boa fortuna.' },
+    ],
+  },
+  43: {
+    name: 'Irromper',
+    meaning: 'Resolução, determinação, ruptura',
+    judgment: 'Irromper. É preciso tornar o assunto conhecido resolutamente na corte do rei. Deve ser anunciado com verdade.',
+    image: 'O lago subiu até o céu: a imagem de Irromper. Assim o homem superior distribui riquezas para baixo e evita repousar sobre sua virtude.',
+    lines: [
+      { position: 1, text: 'Poderoso nos dedos dos pés que avançam. Quando se vai e não se está à altura da tarefa, comete-se um erro.' },
+      { position: 2, text: 'Um grito de alarme. Armas à tarde e à noite. Nada tema.' },
+      { position: 3, text: 'Ser poderoso nas maçãs do rosto traz infortúnio. O homem superior está firmemente resolvido. Caminha sozinho e é apanhado pela chuva. Fica salpicado, e as pessoas murmuram contra ele. Nenhuma culpa.' },
+      { position: 4, text: 'Não há pele em suas coxas, e o caminhar é difícil. Se um homem se deixasse conduzir como uma ovelha, o arrependimento desapareceria. Mas se ouvir estas palavras, não acreditará nelas.' },
+      { position: 5, text: 'Ao lidar com ervas daninhas, é necessária firme resolução. Caminhar no meio permanece sem culpa.' },
+      { position: 6, text: 'Nenhum grito. No fim vem o infortúnio.' },
+    ],
+  },
+  44: {
+    name: 'Vir ao Encontro',
+    meaning: 'Encontro, reunião, tentação',
+    judgment: 'Vir ao Encontro. A donzela é poderosa. Não se deve casar com tal donzela.',
+    image: 'Sob o céu, o vento: a imagem de Vir ao Encontro. Assim age o príncipe quando difunde suas ordens e as proclama aos quatro cantos do céu.',
+    lines: [
+      { position: 1, text: 'É preciso contê-lo com um freio de bronze. A perseverança traz boa fortuna. Se se deixa seguir seu curso, experimenta-se o infortúnio. Até um porco magro tem em si a capacidade de se enfurecer.' },
+      { position: 2, text: 'Há um peixe no tanque. Nenhuma culpa. Não é favorável aos hóspedes.' },
+      { position: 3, text: 'Não há pele em suas coxas, e o caminhar é difícil. Se se está atento ao perigo, não se comete grande erro.' },
+      { position: 4, text: 'Nenhum peixe no tanque. Isso leva ao infortúnio.' },
+      { position: 5, text: 'Um melão coberto de folhas de salgueiro. Linhas ocultas. Então cai do céu para nós.' },
+      { position: 6, text: 'Ele vem ao encontro com os chifres. Humilhação. Nenhuma culpa.' },
+    ],
+  },
+  3: {
+    name: 'Dificuldade Inicial',
+    meaning: 'Luta inicial, dores do parto, dificuldade',
+    judgment: 'A Dificuldade Inicial opera supremo sucesso, favorecendo pela perseverança. Não se devem nomear líderes. É favorável nomear auxiliares.',
+    image: 'Trovão e chuva se agitam; nuvens e trovão rolam: a imagem da Dificuldade Inicial. Assim o homem superior põe ordem na confusão das coisas.',
+    lines: [
+      { position: 1, text: 'Hesitação e obstáculo. É favorável permanecer perseverante. É favorável nomear auxiliares.' },
+      { position: 2, text: 'As dificuldades se acumulam. Cavalo e carroça se separam. Ele não é um salteador; quer cortejar quando chegar o tempo. A donzela é casta, não se compromete. Dez anos, e então se compromete.' },
+      { position: 3, text: 'Quem caça o cervo sem o guarda-florestal apenas se perde na floresta. O homem superior compreende os sinais do tempo e prefere desistir. Prosseguir traz humilhação.' },
+      { position: 4, text: 'Cavalo e carroça se separam. Busque a união. Ir traz boa fortuna. Tudo é favorável.' },
+      { position: 5, text: 'Dificuldades na bênção. Um pouco de perseverança traz boa fortuna. Grande perseverança traz infortúnio.' },
+      { position: 6, text: 'Cavalo e carroça se separam. Lágrimas de sangue correm.' },
+    ],
+  },
+  4: {
+    name: 'Insensatez Juvenil',
+    meaning: 'Ignorância, juventude, inexperiência',
+    judgment: 'A Insensatez Juvenil tem sucesso. Não sou eu quem procura o jovem tolo; é o jovem tolo que me procura. Ao primeiro oráculo eu o informo. Se pergunta duas ou três vezes, é importunação. Se importuna, não lhe dou informação. A perseverança é favorável.',
+    image: 'Uma fonte brota ao pé da montanha: a imagem da Juventude. Assim o homem superior fortalece seu caráter pela minúcia em tudo o que faz.',
+    lines: [
+      { position: 1, text: 'Para desenvolver o tolo, é favorável aplicar disciplina. Os grilhões devem ser retirados. Continuar assim traz humilhação.' },
+      { position: 2, text: 'Suportar os tolos com bondade traz boa fortuna. Saber tomar as mulheres traz boa fortuna. O filho é capaz de dirigir a casa.' },
+      { position: 3, text: 'Não tome uma donzela que, ao ver um homem de bronze, perde o domínio de si. Nada é favorável.' },
+      { position: 4, text: 'A insensatez enredada traz humilhação.' },
+      { position: 5, text: 'A insensatez infantil traz boa fortuna.' },
+      { position: 6, text: 'Ao punir a insensatez, não é favorável cometer transgressões. O único favorável é impedir transgressões.' },
+    ],
+  },
+  5: {
+    name: 'A Espera',
+    meaning: 'Nutrição, paciência, momento propício',
+    judgment: 'A Espera. Se você é sincero, tem luz e sucesso. A perseverança traz boa fortuna. Ir ao encontro do grande homem traz boa fortuna.',
+    image: 'As nuvens sobem ao céu: a imagem da Espera. Assim o homem superior come e bebe, descansa e se alegra.',
+    lines: [
+      { position: 1, text: 'Espera no prado. É favorável permanecer no que perdura. Nenhuma culpa.' },
+      { position: 2, text: 'Espera na areia. Há um pouco de mexerico. O fim traz boa fortuna.' },
+      { position: 3, text: 'A espera na lama provoca a chegada do inimigo.' },
+      { position: 4, text: 'Espera no sangue. Saia da cova.' },
+      { position: 5, text: 'Espera junto ao vinho e à comida. A perseverança traz boa fortuna.' },
+      { position: 6, text: 'Cai-se na cova. Chegam três hóspedes não convidados. Honre-os, e no fim haverá boa fortuna.' },
+    ],
+  },
+  6: {
+    name: 'Conflito',
+    meaning: 'Litígio, discórdia, contenda',
+    judgment: 'Conflito. Você é sincero e encontra obstáculos. Uma parada cautelosa no meio do caminho traz boa fortuna. Ir até o fim traz infortúnio. É favorável ver o grande homem. Não é favorável atravessar a grande água.',
+    image: 'O céu e a água seguem caminhos opostos: a imagem do Conflito. Assim, em todos os seus negócios, o homem superior considera com cuidado o começo.',
+    lines: [
+      { position: 1, text: 'Se não se perpetua o assunto, há um pouco de mexerico. No fim vem a boa fortuna.' },
+      { position: 2, text: 'Não se pode sustentar o conflito; volta-se para casa, cede-se. As pessoas de sua cidade, trezentas famílias, permanecem sem culpa.' },
+      { position: 3, text: 'Nutrir-se da antiga virtude gera perseverança. Perigo. No fim vem a boa fortuna. Se por acaso estiver a serviço de um rei, não busque obras.' },
+      { position: 4, text: 'Não se pode sustentar o conflito. Volta-se atrás e submete-se ao destino, muda-se de atitude e encontra-se paz na perseverança. Boa fortuna.' },
+      { position: 5, text: 'Contender diante dele traz suprema boa fortuna.' },
+      { position: 6, text: 'Mesmo que por acaso se receba um cinto de couro, até o fim da manhã ele terá sido arrebatado três vezes.' },
+    ],
+  },
+  7: {
+    name: 'O Exército',
+    meaning: 'Tropas, disciplina militar, legalidade',
+    judgment: 'O Exército. O exército necessita de perseverança e de um homem forte. Boa fortuna sem culpa.',
+    image: 'No meio da terra há água: a imagem do Exército. Assim o homem superior aumenta suas massas pela generosidade para com o povo.',
+    lines: [
+      { position: 1, text: 'Um exército deve partir em boa ordem. Se a ordem não é boa, o infortúnio ameaça.' },
+      { position: 2, text: 'No meio do exército. Boa fortuna. Nenhuma culpa. O rei concede uma tripla condecoração.' },
+      { position: 3, text: 'Talvez o exército carregue cadáveres na carroça. Infortúnio.' },
+      { position: 4, text: 'O exército se retira. Nenhuma culpa.' },
+      { position: 5, text: 'Há caça no campo. É favorável capturá-la. Sem culpa. Que o mais velho conduza o exército. O mais jovem transporta cadáveres; então a perseverança traz infortúnio.' },
+      { position: 6, text: 'O grande príncipe dá ordens, funda Estados, concede feudos a famílias. Não se devem empregar homens inferiores.' },
+    ],
+  },
+  8: {
+    name: 'Solidariedade',
+    meaning: 'União, aliança, lealdade',
+    judgment: 'A Solidariedade traz boa fortuna. Mas se o homem errado conduz a reunião, nada é favorável. Se alguns estão incertos, chamá-los repetidamente traz boa fortuna.',
+    image: 'Sobre a terra há água: a imagem da Solidariedade. Assim os reis da Antiguidade concediam feudos aos príncipes de sangue e faziam de todos membros da família.',
+    lines: [
+      { position: 1, text: 'Mantenha-se ao lado dele com verdade e lealdade; isso é sem culpa. A verdade, como uma tigela de barro cheia: assim no fim a boa fortuna vem de fora.' },
+      { position: 2, text: 'Mantenha-se ao lado dele interiormente. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'Você se une às pessoas erradas.' },
+      { position: 4, text: 'Mantenha-se ao lado dele também exteriormente. A perseverança traz boa fortuna.' },
+      { position: 5, text: 'Manifestação da solidariedade. Na caçada o rei usa batedores apenas em três lados e deixa escapar a caça que foge pela frente. Os cidadãos não precisam de advertência. Boa fortuna.' },
+      { position: 6, text: 'Ele não encontra cabeça para a solidariedade. Infortúnio.' },
+    ],
+  },
+  9: {
+    name: 'O Poder de Domar do Pequeno',
+    meaning: 'Contenção, acúmulo, influência sutil',
+    judgment: 'O Poder de Domar do Pequeno tem sucesso. Nuvens densas, nenhuma chuva da nossa região ocidental.',
+    image: 'O vento sopra sobre o céu: a imagem do Poder de Domar do Pequeno. Assim o homem superior refina o aspecto exterior de sua natureza.',
+    lines: [
+      { position: 1, text: 'Retorno ao caminho. Como poderia haver culpa nisso? Boa fortuna.' },
+      { position: 2, text: 'Ele se deixa levar ao retorno. Boa fortuna.' },
+      { position: 3, text: 'Os raios saltam das rodas da carroça. Marido e mulher reviram os olhos.' },
+      { position: 4, text: 'Se você é sincero, o sangue desaparece e o medo cede. Nenhuma culpa.' },
+      { position: 5, text: 'Se você é sincero e lealmente unido, é rico em seu vizinho.' },
+      { position: 6, text: 'A chuva vem, há descanso. Isso se deve ao efeito duradouro do caráter. A perseverança põe a mulher em perigo. A lua está quase cheia. Se o homem superior persiste, vem o infortúnio.' },
+    ],
+  },
+  10: {
+    name: 'A Conduta',
+    meaning: 'Caminhar, comportamento, decoro',
+    judgment: 'A Conduta. Pisar na cauda do tigre. Ele não morde o homem. Sucesso.',
+    image: 'O céu em cima, o lago embaixo: a imagem da Conduta. Assim o homem superior distingue entre alto e baixo e com isso fortalece o pensamento do povo.',
+    lines: [
+      { position: 1, text: 'Conduta simples. Progresso sem culpa.' },
+      { position: 2, text: 'Trilhar um caminho plano e liso. A perseverança de um homem obscuro traz boa fortuna.' },
+      { position: 3, text: 'Um caolho consegue ver, um coxo consegue caminhar. Ele pisa na cauda do tigre. O tigre morde o homem. Infortúnio. Assim age um guerreiro em nome de seu grande príncipe.' },
+      { position: 4, text: 'Ele pisa na cauda do tigre. Cautela e circunspecção levam por fim à boa fortuna.' },
+      { position: 5, text: 'Conduta resoluta. Perseverança com consciência do perigo.' },
+      { position: 6, text: 'Observe sua conduta e pese os sinais favoráveis. Quando tudo se cumpre, vem a suprema boa fortuna.' },
+    ],
+  },
+  13: {
+    name: 'Comunidade com os Homens',
+    meaning: 'Comunidade, união, fraternidade',
+    judgment: 'Comunidade com os homens ao ar livre. Sucesso. É favorável atravessar a grande água. A perseverança do homem superior é favorável.',
+    image: 'O céu junto com o fogo: a imagem da Comunidade com os Homens. Assim o homem superior organiza os clãs e faz distinções entre as coisas.',
+    lines: [
+      { position: 1, text: 'Comunidade com os homens no portão. Nenhuma culpa.' },
+      { position: 2, text: 'Comunidade com os homens no clã. Humilhação.' },
+      { position: 3, text: 'Ele esconde armas no matagal; sobe a alta colina à frente. Durante três anos não se levanta.' },
+      { position: 4, text: 'Ele sobe em sua muralha; não pode atacar. Boa fortuna.' },
+      { position: 5, text: 'Os homens unidos em comunidade primeiro choram e se lamentam, mas depois riem. Após grandes lutas conseguem encontrar-se.' },
+      { position: 6, text: 'Comunidade com os homens no prado. Nenhum arrependimento.' },
+    ],
+  },
+  14: {
+    name: 'Grandes Posses',
+    meaning: 'Grande abundância, riqueza, confiança',
+    judgment: 'Grandes Posses. Supremo sucesso.',
+    image: 'O fogo no alto do céu: a imagem das Grandes Posses. Assim o homem superior reprime o mal e favorece o bem, e com isso obedece ao céu.',
+    lines: [
+      { position: 1, text: 'Nenhuma relação com o que é nocivo; não há culpa nisso. Se se permanece consciente da dificuldade, permanece-se sem culpa.' },
+      { position: 2, text: 'Uma grande carroça para carregar. Pode-se empreender algo. Nenhuma culpa.' },
+      { position: 3, text: 'Um príncipe o oferece ao Filho do Céu. Um homem mesquinho não pode fazer isso.' },
+      { position: 4, text: 'Ele faz diferença entre si mesmo e seu vizinho. Nenhuma culpa.' },
+      { position: 5, text: 'Aquele cuja verdade é acessível, e contudo digna, tem boa fortuna.' },
+      { position: 6, text: 'Ele é abençoado pelo céu. Boa fortuna. Nada que não seja favorável.' },
+    ],
+  },
+  15: {
+    name: 'Modéstia',
+    meaning: 'Humildade, contenção, brandura',
+    judgment: 'A Modéstia cria sucesso. O homem superior leva as coisas a termo.',
+    image: 'No meio da terra, uma montanha: a imagem da Modéstia. Assim o homem superior reduz o que é demais e aumenta o que é de menos.',
+    lines: [
+      { position: 1, text: 'Um homem superior modesto em sua modéstia pode atravessar a grande água. Boa fortuna.' },
+      { position: 2, text: 'Modéstia que se expressa. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'Um homem superior modesto e de mérito leva as coisas a termo. Boa fortuna.' },
+      { position: 4, text: 'Nada que não favoreça a modéstia em movimento.' },
+      { position: 5, text: 'Não se vangloriar da riqueza diante do vizinho. É favorável atacar com força. Nada que não seja favorável.' },
+      { position: 6, text: 'Modéstia que se expressa. É favorável pôr exércitos em marcha para castigar a própria cidade e o próprio país.' },
+    ],
+  },
+  16: {
+    name: 'Entusiasmo',
+    meaning: 'Alegria, prontidão, harmonia',
+    judgment: 'Entusiasmo. É favorável nomear auxiliares e pôr o exército em marcha.',
+    image: 'O trovão irrompe da terra: a imagem do Entusiasmo. Assim os antigos reis faziam música para honrar os méritos e a ofereciam com reverência ao Ser Supremo.',
+    lines: [
+      { position: 1, text: 'O entusiasmo que se expressa traz infortúnio.' },
+      { position: 2, text: 'Firme como uma rocha. Não um dia inteiro. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'O entusiasmo que olha para cima cria arrependimento. A hesitação traz arrependimento.' },
+      { position: 4, text: 'A fonte do entusiasmo. Ele realiza grandes coisas. Não duvide. Você reúne amigos à sua volta como um grampo reúne os cabelos.' },
+      { position: 5, text: 'Constantemente doente, e contudo não morre.' },
+      { position: 6, text: 'Entusiasmo iludido. Mas se depois de consumado se muda, não há culpa.' },
+    ],
+  },
+  17: {
+    name: 'Seguir',
+    meaning: 'Seguir, obediência, flexibilidade',
+    judgment: 'Seguir traz supremo sucesso. A perseverança é favorável. Nenhuma culpa.',
+    image: 'No meio do lago, o trovão: a imagem de Seguir. Assim o homem superior, ao cair da noite, recolhe-se para o descanso.',
+    lines: [
+      { position: 1, text: 'A norma está mudando. A perseverança traz boa fortuna. Sair pela porta em companhia produz obras.' },
+      { position: 2, text: 'Se alguém se apega ao menino, perde o homem forte.' },
+      { position: 3, text: 'Se alguém se apega ao homem forte, perde o menino. Seguindo, encontra-se o que se busca. É favorável permanecer perseverante.' },
+      { position: 4, text: 'Seguir cria sucesso. A perseverança traz infortúnio. Seguir seu caminho com sinceridade traz clareza. Como poderia haver culpa nisso?' },
+      { position: 5, text: 'Sincero no bem. Boa fortuna.' },
+      { position: 6, text: 'Ele encontra firme lealdade e é ainda mais ligado. O rei o apresenta à Montanha Ocidental.' },
+    ],
+  },
+  18: {
+    name: 'Trabalho sobre o que se Deteriorou',
+    meaning: 'Decadência, restauração, eliminação do que apodreceu',
+    judgment: 'O Trabalho sobre o que se Deteriorou traz supremo sucesso. É favorável atravessar a grande água. Antes do ponto de partida, três dias. Depois do ponto de partida, três dias.',
+    image: 'O vento sopra ao pé da montanha: a imagem da Deterioração. Assim o homem superior desperta o povo e fortalece seu espírito.',
+    lines: [
+      { position: 1, text: 'Corrigir o que foi deteriorado pelo pai. Se há um filho, nenhuma culpa recai sobre o pai falecido. Perigo. No fim, boa fortuna.' },
+      { position: 2, text: 'Corrigir o que foi deteriorado pela mãe. Não se deve ser perseverante demais.' },
+      { position: 3, text: 'Corrigir o que foi deteriorado pelo pai. Haverá um pouco de arrependimento. Nenhuma grande culpa.' },
+      { position: 4, text: 'Tolerar o que foi deteriorado pelo pai. Continuando, vê-se a humilhação.' },
+      { position: 5, text: 'Corrigir o que foi deteriorado pelo pai. Recebe-se louvor.' },
+      { position: 6, text: 'Ele não serve a reis e príncipes, estabelece para si metas mais elevadas.' },
+    ],
+  },
+  21: {
+    name: 'Morder',
+    meaning: 'Determinação, remoção de obstáculos, decisão',
+    judgment: 'Morder tem sucesso. É favorável aplicar a justiça.',
+    image: 'Trovão e relâmpago: a imagem de Morder. Assim os reis de outrora firmavam as leis por meio de penas claramente definidas.',
+    lines: [
+      { position: 1, text: 'Os pés presos no tronco, de modo que os dedos desaparecem. Nenhuma culpa.' },
+      { position: 2, text: 'Morde carne macia, de modo que o nariz desaparece. Nenhuma culpa.' },
+      { position: 3, text: 'Morde carne seca e velha e encontra algo venenoso. Leve humilhação. Nenhuma culpa.' },
+      { position: 4, text: 'Morde carne seca cartilaginosa. Recebe flechas de metal. É favorável estar atento às dificuldades e ser perseverante. Boa fortuna.' },
+      { position: 5, text: 'Morde carne magra seca. Recebe ouro amarelo. Perseverante e consciente do perigo. Nenhuma culpa.' },
+      { position: 6, text: 'O pescoço preso na canga de madeira, de modo que as orelhas desaparecem. Infortúnio.' },
+    ],
+  },
+  22: {
+    name: 'Graciosidade',
+    meaning: 'Beleza, ornamento, adorno',
+    judgment: 'A Graciosidade tem sucesso. Nas pequenas coisas é favorável empreender algo.',
+    image: 'O fogo ao pé da montanha: a imagem da Graciosidade. Assim o homem superior esclarece os assuntos correntes, mas não ousa decidir por isso as questões litigiosas.',
+    lines: [
+      { position: 1, text: 'Ele adorna os dedos dos pés, deixa a carruagem e caminha.' },
+      { position: 2, text: 'Adorna a barba do queixo.' },
+      { position: 3, text: 'Gracioso e úmido. A perseverança constante traz boa fortuna.' },
+      { position: 4, text: 'Graciosidade ou simplicidade? Um cavalo branco vem como se tivesse asas. Ele não é um salteador, quer cortejar no momento certo.' },
+      { position: 5, text: 'Graciosidade nas colinas e jardins. O rolo de seda é pobre e pequeno. Humilhação, mas no fim boa fortuna.' },
+      { position: 6, text: 'Graciosidade simples. Nenhuma culpa.' },
+    ],
+  },
+  25: {
+    name: 'Inocência',
+    meaning: 'Ausência de malícia, integridade, espontaneidade',
+    judgment: 'Inocência. Supremo sucesso. A perseverança é favorável. Se alguém não é como deveria ser, tem infortúnio, e não lhe é favorável empreender nada.',
+    image: 'O trovão rola sob o céu: a imagem da Inocência. Assim os reis de outrora, ricos em virtude, cultivavam o bem e recompensavam os dignos.',
+    lines: [
+      { position: 1, text: 'O comportamento inocente traz boa fortuna.' },
+      { position: 2, text: 'Se não se conta com a colheita ao arar, nem com o uso do solo ao desbravá-lo, é favorável empreender algo.' },
+      { position: 3, text: 'Infortúnio imerecido. A vaca que alguém amarrou é o ganho do viajante e a perda do cidadão.' },
+      { position: 4, text: 'Quem consegue ser perseverante permanece sem culpa.' },
+      { position: 5, text: 'Não use remédio para uma doença contraída sem culpa sua. Ela passará por si mesma.' },
+      { position: 6, text: 'A ação inocente traz infortúnio. Nada é favorável.' },
+    ],
+  },
+  26: {
+    name: 'O Poder de Domar do Grande',
+    meaning: 'Acúmulo de força, disciplina, contenção',
+    judgment: 'O Poder de Domar do Grande. A perseverança é favorável. Não comer em casa traz boa fortuna. É favorável atravessar a grande água.',
+    image: 'O céu dentro da montanha: a imagem do Poder de Domar do Grande. Assim o homem superior acumula um tesouro de bondade para sustentar o povo.',
+    lines: [
+      { position: 1, text: 'O perigo está próximo. É favorável desistir.' },
+      { position: 2, text: 'Retiram-se os eixos da carroça.' },
+      { position: 3, text: 'Um bom cavalo que segue os outros. A consciência do perigo, com perseverança, é favorável. Pratique diariamente a condução do carro e a defesa armada. É favorável ter para onde ir.' },
+      { position: 4, text: 'A prancha na testa de um jovem touro. Grande boa fortuna.' },
+      { position: 5, text: 'A presa de um javali castrado. Boa fortuna.' },
+      { position: 6, text: 'Alcança-se o caminho do céu. Sucesso.' },
+    ],
+  },
+  27: {
+    name: 'As Bordas da Boca',
+    meaning: 'Nutrição, provisão, sustento',
+    judgment: 'As Bordas da Boca. A perseverança traz boa fortuna. Preste atenção ao provimento de alimento e àquilo com que um homem busca encher a própria boca.',
+    image: 'Embaixo o trovão, em cima a montanha: a imagem da Nutrição. Assim o homem superior é cuidadoso com suas palavras e moderado no comer e no beber.',
+    lines: [
+      { position: 1, text: 'Você deixa ir sua tartaruga mágica e me olha com as bordas da boca caídas. Infortúnio.' },
+      { position: 2, text: 'Voltar-se para o cume em busca de alimento, desviar-se do caminho para buscar alimento na colina. Continuar assim traz infortúnio.' },
+      { position: 3, text: 'Desviar-se da nutrição. A perseverança traz infortúnio. Não aja assim durante dez anos. Nada é favorável.' },
+      { position: 4, text: 'Voltar-se para o cume em busca de alimento traz boa fortuna. Espreitar com olhos penetrantes como um tigre de cobiça insaciável. Nenhuma culpa.' },
+      { position: 5, text: 'Desviar-se do caminho. Permanecer perseverante traz boa fortuna. Não se deve atravessar a grande água.' },
+      { position: 6, text: 'A fonte da nutrição. A consciência do perigo traz boa fortuna. É favorável atravessar a grande água.' },
+    ],
+  },
+  28: {
+    name: 'Preponderância do Grande',
+    meaning: 'Excesso, extremo, desequilíbrio',
+    judgment: 'Preponderância do Grande. A viga mestra verga até o ponto de ruptura. É favorável ter para onde ir. Sucesso.',
+    image: 'O lago se eleva acima das árvores: a imagem da Preponderância do Grande. Assim o homem superior, quando está só, não tem medo, e se tem de renunciar ao mundo, não desanima.',
+    lines: [
+      { position: 1, text: 'Estender juncos brancos por baixo. Nenhuma culpa.' },
+      { position: 2, text: 'Um álamo seco brota na raiz. Um homem mais velho toma uma jovem esposa. Tudo é favorável.' },
+      { position: 3, text: 'A viga mestra verga até o ponto de ruptura. Infortúnio.' },
+      { position: 4, text: 'A viga mestra é escorada. Boa fortuna. Se há segundas intenções, é humilhante.' },
+      { position: 5, text: 'Um álamo seco dá flores. Uma mulher mais velha toma um marido. Nenhuma culpa. Nenhum louvor.' },
+      { position: 6, text: 'É preciso atravessar a água. Ela passa por cima da cabeça. Infortúnio. Nenhuma culpa.' },
+    ],
+  },
+  29: {
+    name: 'O Abismal',
+    meaning: 'Perigo, água corrente, profundidade',
+    judgment: 'O Abismal repetido. Se você é sincero, tem sucesso no coração, e tudo o que faz é bem-sucedido.',
+    image: 'A água flui sem cessar e alcança sua meta: a imagem do Abismal repetido. Assim o homem superior caminha em virtude duradoura e prossegue a obra de ensinar.',
+    lines: [
+      { position: 1, text: 'Repetição do Abismal. No abismo cai-se numa cova. Infortúnio.' },
+      { position: 2, text: 'O abismo é perigoso. Deve-se procurar alcançar apenas coisas pequenas.' },
+      { position: 3, text: 'Para a frente e para trás, abismo sobre abismo. Em tal perigo, pare primeiro e espere, senão você cairá numa cova do abismo. Não aja assim.' },
+      { position: 4, text: 'Um jarro de vinho, uma tigela de arroz junto; vasos de barro simplesmente passados pela janela. Certamente não há culpa nisso.' },
+      { position: 5, text: 'O abismo não transborda, enche-se apenas até a borda. Nenhuma culpa.' },
+      { position: 6, text: 'Amarrado com cordas e cabos, encerrado entre muros de prisão cercados de espinhos: durante três anos não se encontra o caminho. Infortúnio.' },
+    ],
+  },
+  30: {
+    name: 'Aderir',
+    meaning: 'Fogo, iluminação, clareza',
+    judgment: 'Aderir. A perseverança é favorável. Ela traz sucesso. Cuidar da vaca traz boa fortuna.',
+    image: 'O que é luminoso se eleva duas vezes: a imagem do Fogo. Assim o grande homem, perpetuando sua claridade, ilumina as quatro regiões do mundo.',
+    lines: [
+      { position: 1, text: 'As pegadas se cruzam. Se há seriedade, nenhuma culpa.' },
+      { position: 2, text: 'Luz amarela. Suprema boa fortuna.' },
+      { position: 3, text: 'À luz do sol poente, os homens ou batem na panela e cantam, ou lamentam em voz alta a chegada da velhice. Infortúnio.' },
+      { position: 4, text: 'Sua chegada é súbita; inflama-se, apaga-se, é jogado fora.' },
+      { position: 5, text: 'Lágrimas em torrentes, suspiros e lamentos. Boa fortuna.' },
+      { position: 6, text: 'O rei o emprega para marchar e castigar. Então é melhor matar os chefes e fazer prisioneiros os seguidores. Nenhuma culpa.' },
+    ],
+  },
+  31: {
+    name: 'Influência',
+    meaning: 'Atração, namoro, ação recíproca',
+    judgment: 'Influência. Sucesso. A perseverança é favorável. Tomar uma donzela por esposa traz boa fortuna.',
+    image: 'Um lago sobre a montanha: a imagem da Influência. Assim o homem superior, por sua disposição de recebê-los, encoraja as pessoas a se aproximarem dele.',
+    lines: [
+      { position: 1, text: 'A influência se manifesta no dedão do pé.' },
+      { position: 2, text: 'A influência se manifesta nas panturrilhas. Infortúnio. Demorar-se traz boa fortuna.' },
+      { position: 3, text: 'A influência se manifesta nas coxas. Apega-se ao que o segue. Continuar é humilhante.' },
+      { position: 4, text: 'A perseverança traz boa fortuna. O arrependimento desaparece. Se um homem tem a mente agitada e seus pensamentos vão de um lado para outro, só o seguirão os amigos em quem fixa seus pensamentos conscientes.' },
+      { position: 5, text: 'A influência se manifesta na nuca. Nenhum arrependimento.' },
+      { position: 6, text: 'A influência se manifesta nas mandíbulas, nas faces e na língua.' },
+    ],
+  },
+  32: {
+    name: 'Duração',
+    meaning: 'Constância, persistência, continuidade',
+    judgment: 'Duração. Sucesso. Nenhuma culpa. A perseverança é favorável. É favorável ter para onde ir.',
+    image: 'Trovão e vento: a imagem da Duração. Assim o homem superior permanece firme e não muda de direção.',
+    lines: [
+      { position: 1, text: 'Buscar a duração com pressa demais traz persistentemente infortúnio. Nada que seja favorável.' },
+      { position: 2, text: 'O arrependimento desaparece.' },
+      { position: 3, text: 'Quem não dá duração a seu caráter encontra a desonra. Humilhação persistente.' },
+      { position: 4, text: 'Nenhuma caça no campo.' },
+      { position: 5, text: 'Dar duração ao caráter pela perseverança. Isso é boa fortuna para uma mulher, infortúnio para um homem.' },
+      { position: 6, text: 'A inquietação como estado duradouro traz infortúnio.' },
+    ],
+  },
+  35: {
+    name: 'Progresso',
+    meaning: 'Avanço, promoção, ascensão',
+    judgment: 'Progresso. O príncipe poderoso é honrado com cavalos em grande número. Num só dia é recebido três vezes.',
+    image: 'O sol se ergue sobre a terra: a imagem do Progresso. Assim o homem superior faz brilhar ele mesmo sua clara virtude.',
+    lines: [
+      { position: 1, text: 'Progredindo, mas repelido. A perseverança traz boa fortuna. Se não se encontra confiança, deve-se permanecer calmo. Nenhum erro.' },
+      { position: 2, text: 'Progredindo, mas com tristeza. A perseverança traz boa fortuna. Então se obtém grande felicidade da antepassada.' },
+      { position: 3, text: 'Todos estão de acordo. O arrependimento desaparece.' },
+      { position: 4, text: 'Progresso como um hamster. A perseverança traz perigo.' },
+      { position: 5, text: 'O arrependimento desaparece. Não leve a sério o ganho e a perda. Os empreendimentos trazem boa fortuna. Tudo é favorável.' },
+      { position: 6, text: 'Avançar com os chifres só é permitido para castigar a própria cidade. A consciência do perigo traz boa fortuna. Nenhuma culpa. A perseverança traz humilhação.' },
+    ],
+  },
+  36: {
+    name: 'Obscurecimento da Luz',
+    meaning: 'Escuridão, adversidade, virtude oculta',
+    judgment: 'Obscurecimento da Luz. Na adversidade é favorável ser perseverante.',
+    image: 'A luz afundou na terra: a imagem do Obscurecimento da Luz. Assim o homem superior convive com a grande massa: oculta sua luz e contudo brilha.',
+    lines: [
+      { position: 1, text: 'Obscurecimento da luz durante o voo. Ele abaixa as asas. O homem superior não come durante três dias em suas andanças. Mas tem para onde ir. O anfitrião tem motivo para falar dele.' },
+      { position: 2, text: 'O obscurecimento da luz o fere na coxa esquerda. Ele presta auxílio com a força de um cavalo. Boa fortuna.' },
+      { position: 3, text: 'Obscurecimento da luz durante a caçada no sul. Seu grande chefe é capturado. Não se deve esperar perseverança cedo demais.' },
+      { position: 4, text: 'Ele penetra no lado esquerdo do ventre. Chega-se ao próprio coração do obscurecimento da luz, e deixam-se portão e pátio.' },
+      { position: 5, text: 'Obscurecimento da luz como no caso do príncipe Chi. A perseverança é favorável.' },
+      { position: 6, text: 'Não luz, mas escuridão. Primeiro subiu ao céu, depois mergulhou nas profundezas da terra.' },
+    ],
+  },
+  37: {
+    name: 'A Família',
+    meaning: 'Lar, relações, fundamento',
+    judgment: 'A Família. A perseverança da mulher é favorável.',
+    image: 'O vento nasce do fogo: a imagem da Família. Assim o homem superior tem substância em suas palavras e constância em sua conduta.',
+    lines: [
+      { position: 1, text: 'Firme reclusão no seio da família. O arrependimento desaparece.' },
+      { position: 2, text: 'Ela não deve seguir seus caprichos. Deve cuidar do alimento dentro de casa. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'Quando os ânimos se exaltam na família, severidade demasiada traz arrependimento. Boa fortuna, ainda assim. Quando mulher e criança brincam e riem, isso leva no fim à humilhação.' },
+      { position: 4, text: 'Ela é o tesouro da casa. Grande boa fortuna.' },
+      { position: 5, text: 'Como rei ele se aproxima de sua família. Não tema. Boa fortuna.' },
+      { position: 6, text: 'Sua obra impõe respeito. No fim vem a boa fortuna.' },
+    ],
+  },
+  38: {
+    name: 'Oposição',
+    meaning: 'Divergência, separação, mal-entendido',
+    judgment: 'Oposição. Nas pequenas coisas, boa fortuna.',
+    image: 'Em cima o fogo, embaixo o lago: a imagem da Oposição. Assim, em meio a toda comunidade, o homem superior conserva sua individualidade.',
+    lines: [
+      { position: 1, text: 'O arrependimento desaparece. Se perder seu cavalo, não corra atrás dele; ele voltará por si mesmo. Quando vir pessoas más, guarde-se de erros.' },
+      { position: 2, text: 'Encontra-se o senhor numa rua estreita. Nenhuma culpa.' },
+      { position: 3, text: 'Vê-se a carroça arrastada para trás, os bois detidos, um homem com o cabelo e o nariz cortados. Não um bom começo, mas um bom fim.' },
+      { position: 4, text: 'Isolado pela oposição, encontra-se um homem de mesmo espírito com quem se pode conviver de boa-fé. Apesar do perigo, nenhuma culpa.' },
+      { position: 5, text: 'O arrependimento desaparece. O companheiro abre caminho mordendo através dos invólucros. Se se vai até ele, como poderia ser um erro?' },
+      { position: 6, text: 'Isolado pela oposição, vê-se o companheiro como um porco coberto de lama, como uma carroça cheia de demônios. Primeiro retesa-se o arco contra ele, depois pousa-se o arco. Ele não é um salteador, quer cortejar no momento certo. Ao ir, cai a chuva; então vem a boa fortuna.' },
+    ],
+  },
+  39: {
+    name: 'Obstrução',
+    meaning: 'Dificuldade, parada, impedimento',
+    judgment: 'Obstrução. O sudoeste é favorável. O nordeste não é favorável. É favorável ver o grande homem. A perseverança traz boa fortuna.',
+    image: 'Água sobre a montanha: a imagem da Obstrução. Assim o homem superior volta a atenção para si mesmo e cultiva seu caráter.',
+    lines: [
+      { position: 1, text: 'Ir leva a obstruções, vir encontra louvor.' },
+      { position: 2, text: 'O servo do rei é acossado por obstrução sobre obstrução, mas não por culpa sua.' },
+      { position: 3, text: 'Ir leva a obstruções; por isso ele volta.' },
+      { position: 4, text: 'Ir leva a obstruções, vir leva à união.' },
+      { position: 5, text: 'Em meio às maiores obstruções, vêm amigos.' },
+      { position: 6, text: 'Ir leva a obstruções, vir leva a grande boa fortuna. É favorável ver o grande homem.' },
+    ],
+  },
+  40: {
+    name: 'Liberação',
+    meaning: 'Libertação, alívio, solução',
+    judgment: 'Liberação. O sudoeste é favorável. Se não há para onde ir, o retorno traz boa fortuna. Se há para onde ir, apressar-se traz boa fortuna.',
+    image: 'Trovão e chuva se instalam: a imagem da Liberação. Assim o homem superior perdoa os erros e trata com brandura os delitos.',
+    lines: [
+      { position: 1, text: 'Sem culpa.' },
+      { position: 2, text: 'Matam-se três raposas no campo e recebe-se uma flecha amarela. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'Se um homem carrega um fardo nas costas e ainda assim anda de carruagem, com isso atrai os salteadores. A perseverança leva à humilhação.' },
+      { position: 4, text: 'Liberte-se do seu dedão do pé. Então vem o companheiro, e nele você pode confiar.' },
+      { position: 5, text: 'Se ao menos o homem superior consegue libertar-se, isso traz boa fortuna. Assim ele prova aos homens inferiores que fala sério.' },
+      { position: 6, text: 'O príncipe atira num falcão sobre uma muralha alta. Ele o abate. Tudo é favorável.' },
+    ],
+  },
+  41: {
+    name: 'Diminuição',
+    meaning: 'Redução, sacrifício, subtração',
+    judgment: 'A Diminuição unida à sinceridade traz suprema boa fortuna sem culpa. Pode-se perseverar nisso. É favorável empreender algo.',
+    image: 'O lago ao pé da montanha: a imagem da Diminuição. Assim o homem superior refreia sua ira e contém seus instintos.',
+    lines: [
+      { position: 1, text: 'Partir depressa quando as tarefas estão concluídas é sem culpa. Mas é preciso refletir sobre quanto se pode diminuir os outros.' },
+      { position: 2, text: 'A perseverança é favorável. Empreender algo traz infortúnio. Sem diminuir a si mesmo, pode-se trazer aumento aos outros.' },
+      { position: 3, text: 'Quando três pessoas viajam juntas, seu número diminui em um. Quando um homem viaja sozinho, encontra um companheiro.' },
+      { position: 4, text: 'Se um homem diminui seus defeitos, faz com que o outro se apresse a vir e se alegre. Nenhuma culpa.' },
+      { position: 5, text: 'Alguém de fato o aumenta. Dez pares de tartarugas não podem opor-se. Suprema boa fortuna.' },
+      { position: 6, text: 'Se alguém é aumentado sem privar os outros, não há culpa. A perseverança traz boa fortuna. É favorável empreender algo. Obtêm-se servos, mas já não se tem um lar próprio.' },
+    ],
+  },
+  42: {
+    name: 'Aumento',
+    meaning: 'Expansão, crescimento, avanço',
+    judgment: 'Aumento. É favorável empreender algo. É favorável atravessar a grande água.',
+    image: 'Vento e trovão: a imagem do Aumento. Assim o homem superior, quando vê o bem nos outros, imita-o; quando vê falta em si mesmo, corrige-a.',
+    lines: [
+      { position: 1, text: 'É favorável realizar grandes feitos. Suprema boa fortuna. Nenhuma culpa.' },
+      { position: 2, text: 'Alguém de fato o aumenta; dez pares de tartarugas não podem opor-se. A perseverança constante traz boa fortuna. O rei o apresenta diante de Deus. Boa fortuna.' },
+      { position: 3, text: 'Enriquece-se por meio de acontecimentos infelizes. Nenhuma culpa, se você é sincero, caminha no meio e relata ao príncipe com um selo.' },
+      { position: 4, text: 'Se você caminha no meio e relata ao príncipe, ele o seguirá. É favorável ser empregado na mudança da capital.' },
+      { position: 5, text: 'Se em verdade você tem um coração bondoso, não pergunte. Suprema boa fortuna. Em verdade, a bondade será reconhecida como sua virtude.' },
+      { position: 6, text: 'Ele não traz aumento a ninguém. Pelo contrário, alguém até o golpeia. Ele não mantém o coração constantemente firme. Infortúnio.' },
+    ],
+  },
+  45: {
+    name: 'Reunião',
+    meaning: 'Assembleia, convocação, agrupamento',
+    judgment: 'Reunião. Sucesso. O rei se aproxima de seu templo. É favorável ver o grande homem. Sucesso. É favorável empreender algo. É favorável oferecer sacrifícios.',
+    image: 'Sobre a terra, o lago: a imagem da Reunião. Assim o homem superior põe suas armas em ordem para enfrentar o imprevisto.',
+    lines: [
+      { position: 1, text: 'Se você é sincero, mas não até o fim, haverá ora confusão, ora reunião. Se chamar, depois de um aperto de mão poderá rir de novo. Não lamente. Ir é sem culpa.' },
+      { position: 2, text: 'Deixar-se atrair traz boa fortuna e permanece sem culpa. Se se é sincero, é favorável levar mesmo uma pequena oferenda.' },
+      { position: 3, text: 'Reunião entre suspiros. Nada que seja favorável. Ir é sem culpa. Leve humilhação.' },
+      { position: 4, text: 'Grande boa fortuna. Nenhuma culpa.' },
+      { position: 5, text: 'Se na reunião se tem uma posição, isso não traz culpa. Se há alguns que ainda não estão sinceramente na obra, é necessária uma perseverança sublime e duradoura. Então o arrependimento desaparece.' },
+      { position: 6, text: 'Lamentos e suspiros, torrentes de lágrimas. Nenhuma culpa.' },
+    ],
+  },
+  46: {
+    name: 'Ascensão',
+    meaning: 'Elevação, subida, promoção',
+    judgment: 'A Ascensão tem supremo sucesso. É preciso ver o grande homem. Não tema. Partir para o sul traz boa fortuna.',
+    image: 'No meio da terra cresce a madeira: a imagem da Ascensão. Assim o homem superior, de caráter devotado, acumula pequenas coisas para alcançar algo alto e grande.',
+    lines: [
+      { position: 1, text: 'A ascensão que encontra confiança traz grande boa fortuna.' },
+      { position: 2, text: 'Se se é sincero, é favorável levar mesmo uma pequena oferenda. Nenhuma culpa.' },
+      { position: 3, text: 'Sobe-se para uma cidade vazia.' },
+      { position: 4, text: 'O rei lhe oferece o monte Chi. Boa fortuna. Nenhuma culpa.' },
+      { position: 5, text: 'A perseverança traz boa fortuna. Sobe-se degrau por degrau.' },
+      { position: 6, text: 'Ascensão na escuridão. É favorável ser incessantemente perseverante.' },
+    ],
+  },
+  47: {
+    name: 'Opressão',
+    meaning: 'Esgotamento, dificuldade, calamidade',
+    judgment: 'Opressão. Sucesso. Perseverança. O grande homem traz boa fortuna. Nenhuma culpa. Quando se tem algo a dizer, não se é acreditado.',
+    image: 'Não há água no lago: a imagem da Opressão. Assim o homem superior arrisca a vida para seguir sua vontade.',
+    lines: [
+      { position: 1, text: 'Senta-se oprimido sob uma árvore nua e se extravia num vale sombrio. Durante três anos não se vê nada.' },
+      { position: 2, text: 'Está-se oprimido em meio ao vinho e à comida. O homem das joelheiras escarlates está justamente chegando. É favorável oferecer sacrifício. Partir traz infortúnio. Nenhuma culpa.' },
+      { position: 3, text: 'Um homem se deixa oprimir pela pedra e se apoia em espinhos e cardos. Entra em sua casa e não vê sua mulher. Infortúnio.' },
+      { position: 4, text: 'Ele vem muito devagar, oprimido numa carruagem de ouro. Humilhação, mas o fim é alcançado.' },
+      { position: 5, text: 'Seu nariz e seus pés são cortados. Opressão pelas mãos do homem das joelheiras púrpuras. A alegria vem devagar. É favorável fazer oferendas e libações.' },
+      { position: 6, text: 'Ele é oprimido por trepadeiras. Move-se com incerteza e diz: “O movimento traz arrependimento.” Se se sente arrependimento por isso e se dá um passo, vem a boa fortuna.' },
+    ],
+  },
+  48: {
+    name: 'O Poço',
+    meaning: 'Fonte de água, renovação, comunidade',
+    judgment: 'O Poço. Pode-se mudar a cidade, mas não se pode mudar o poço. Ele não diminui nem aumenta. Eles vêm e vão tirando água do poço. Se se desce quase até a água e a corda não chega até o fim, ou o jarro se quebra, isso traz infortúnio.',
+    image: 'Água sobre a madeira: a imagem do Poço. Assim o homem superior encoraja o povo em seu trabalho e o exorta a ajudar-se mutuamente.',
+    lines: [
+      { position: 1, text: 'Não se bebe a lama do poço. Nenhum animal vem a um poço velho.' },
+      { position: 2, text: 'No buraco do poço atira-se nos peixes. O jarro está quebrado e vaza.' },
+      { position: 3, text: 'O poço está limpo, mas ninguém bebe dele. Esta é a tristeza do meu coração, pois se poderia tirar água dele. Se o rei fosse lúcido, a boa fortuna poderia ser desfrutada em comum.' },
+      { position: 4, text: 'O poço está sendo revestido. Nenhuma culpa.' },
+      { position: 5, text: 'No poço há uma fonte límpida e fria da qual se pode beber.' },
+      { position: 6, text: 'Tira-se água do poço sem impedimento. Ele é confiável. Suprema boa fortuna.' },
+    ],
+  },
+  49: {
+    name: 'Revolução',
+    meaning: 'Transformação, mudança radical, renovação',
+    judgment: 'Revolução. No seu próprio dia você é acreditado. Supremo sucesso, favorecendo pela perseverança. O arrependimento desaparece.',
+    image: 'Fogo no lago: a imagem da Revolução. Assim o homem superior ordena o calendário e torna claras as estações.',
+    lines: [
+      { position: 1, text: 'Envolto na pele de uma vaca amarela.' },
+      { position: 2, text: 'Quando chega o próprio dia, pode-se fazer a revolução. Partir traz boa fortuna. Nenhuma culpa.' },
+      { position: 3, text: 'Partir traz infortúnio. A perseverança traz perigo. Quando a conversa sobre a revolução já deu três voltas, pode-se comprometer-se, e os homens acreditarão nele.' },
+      { position: 4, text: 'O arrependimento desaparece. Os homens acreditam nele. Mudar a forma de governo traz boa fortuna.' },
+      { position: 5, text: 'O grande homem muda como um tigre. Mesmo antes de consultar o oráculo, ele é acreditado.' },
+      { position: 6, text: 'O homem superior muda como uma pantera. O homem inferior muda de rosto. Partir traz infortúnio. Permanecer perseverante traz boa fortuna.' },
+    ],
+  },
+  50: {
+    name: 'O Caldeirão',
+    meaning: 'Vaso, transformação, nutrição',
+    judgment: 'O Caldeirão. Suprema boa fortuna. Sucesso.',
+    image: 'Fogo sobre a madeira: a imagem do Caldeirão. Assim o homem superior consolida seu destino pelo cultivo de si mesmo.',
+    lines: [
+      { position: 1, text: 'Um caldeirão com os pés virados para cima. Favorece a remoção do que estagnou. Toma-se uma concubina por causa de seu filho. Nenhuma culpa.' },
+      { position: 2, text: 'Há alimento no caldeirão. Meus companheiros têm inveja, mas não podem me prejudicar. Boa fortuna.' },
+      { position: 3, text: 'A alça do caldeirão está alterada. Fica-se impedido no modo de vida. A gordura do faisão não é comida. Assim que cai a chuva, o arrependimento se esgota. No fim vem a boa fortuna.' },
+      { position: 4, text: 'Os pés do caldeirão estão quebrados. A refeição do príncipe é derramada e sua pessoa é manchada. Infortúnio.' },
+      { position: 5, text: 'O caldeirão tem alças amarelas, argolas de ouro para carregar. A perseverança é favorável.' },
+      { position: 6, text: 'O caldeirão tem argolas de jade. Grande boa fortuna. Nada que não seja favorável.' },
+    ],
+  },
+  51: {
+    name: 'O Incitar',
+    meaning: 'Trovão, despertar, choque',
+    judgment: 'O Incitar. O choque traz sucesso. O choque vem: oh, oh! Palavras risonhas: ha, ha! O choque aterroriza por cem milhas, e ele não deixa cair a colher nem o cálice sacrificiais.',
+    image: 'Trovão repetido: a imagem do Choque. Assim, com temor e tremor, o homem superior põe sua vida em ordem.',
+    lines: [
+      { position: 1, text: 'O choque vem: oh, oh! Depois seguem palavras risonhas: ha, ha! Boa fortuna.' },
+      { position: 2, text: 'O choque vem trazendo perigo. Cem mil vezes você perde seus tesouros e precisa subir as nove colinas. Não corra atrás deles. Depois de sete dias você os terá de volta.' },
+      { position: 3, text: 'O choque vem e deixa a pessoa transtornada. Se o choque impele à ação, fica-se livre de infortúnio.' },
+      { position: 4, text: 'O choque fica atolado.' },
+      { position: 5, text: 'O choque vai de um lado para outro. Perigo. Contudo, nada se perde. Há, porém, coisas a fazer.' },
+      { position: 6, text: 'O choque traz ruína e olhares aterrorizados em volta. Avançar traz infortúnio. Se ainda não tocou o próprio corpo, mas atingiu primeiro o vizinho, não há culpa. Os companheiros têm do que falar.' },
+    ],
+  },
+  52: {
+    name: 'A Quietude',
+    meaning: 'Montanha, imobilidade, não-ação',
+    judgment: 'A Quietude. A montanha. Manter as costas quietas, de modo que já não sente o corpo. Ele vai a seu pátio e não vê sua gente. Nenhuma culpa.',
+    image: 'Montanhas erguidas lado a lado: a imagem da Quietude. Assim o homem superior não permite que seus pensamentos ultrapassem sua situação.',
+    lines: [
+      { position: 1, text: 'Manter quietos os dedos dos pés. Nenhuma culpa. A perseverança constante é favorável.' },
+      { position: 2, text: 'Manter quietas as panturrilhas. Ele não pode socorrer aquele a quem segue. Seu coração não está alegre.' },
+      { position: 3, text: 'Manter quietos os quadris. Enrijecer o sacro. Perigoso. O coração sufoca.' },
+      { position: 4, text: 'Manter quieto o tronco. Nenhuma culpa.' },
+      { position: 5, text: 'Manter quietas as mandíbulas. As palavras têm ordem. O arrependimento desaparece.' },
+      { position: 6, text: 'Quietude magnânima. Boa fortuna.' },
+    ],
+  },
+  53: {
+    name: 'Desenvolvimento',
+    meaning: 'Progresso gradual, etapas, avanço',
+    judgment: 'Desenvolvimento. A donzela é dada em casamento. Boa fortuna. É favorável empreender algo.',
+    image: 'Sobre a montanha, uma árvore: a imagem do Desenvolvimento. Assim o homem superior permanece na dignidade e na virtude, para melhorar os costumes.',
+    lines: [
+      { position: 1, text: 'O ganso selvagem aproxima-se gradualmente da margem. O filho jovem está em perigo. Há falatório. Nenhuma culpa.' },
+      { position: 2, text: 'O ganso selvagem aproxima-se gradualmente do rochedo. Comer e beber em paz e concórdia. Boa fortuna.' },
+      { position: 3, text: 'O ganso selvagem aproxima-se gradualmente do planalto. O homem parte e não volta. A mulher carrega uma criança mas não a dá à luz. Infortúnio. É favorável repelir os salteadores.' },
+      { position: 4, text: 'O ganso selvagem vai gradualmente para a árvore. Talvez encontre um galho plano. Nenhuma culpa.' },
+      { position: 5, text: 'O ganso selvagem aproxima-se gradualmente do cume. Durante três anos a mulher não tem filho. No fim nada pode impedi-la. Boa fortuna.' },
+      { position: 6, text: 'O ganso selvagem aproxima-se gradualmente das alturas das nuvens. Suas penas podem ser usadas na dança sagrada. Boa fortuna.' },
+    ],
+  },
+  54: {
+    name: 'A Jovem que se Casa',
+    meaning: 'Posição subordinada, ordem natural, transição',
+    judgment: 'A Jovem que se Casa. Os empreendimentos trazem infortúnio. Nada que seja favorável.',
+    image: 'O trovão sobre o lago: a imagem da Jovem que se Casa. Assim o homem superior compreende o transitório à luz da eternidade do fim.',
+    lines: [
+      { position: 1, text: 'A jovem que se casa como concubina. Um coxo que consegue caminhar. Os empreendimentos trazem boa fortuna.' },
+      { position: 2, text: 'Um caolho que consegue ver. A perseverança de um homem solitário é favorável.' },
+      { position: 3, text: 'A jovem que se casa como escrava. Ela se casa como concubina.' },
+      { position: 4, text: 'A jovem que se casa prolonga o tempo marcado. Um casamento tardio vem no devido tempo.' },
+      { position: 5, text: 'O soberano I deu sua filha em casamento. As vestes bordadas da princesa não eram tão esplêndidas quanto as da criada. A lua quase cheia traz boa fortuna.' },
+      { position: 6, text: 'A mulher segura o cesto, mas não há frutos nele. O homem apunhala a ovelha, mas não corre sangue. Nada que seja favorável.' },
+    ],
+  },
+  55: {
+    name: 'Abundância',
+    meaning: 'Plenitude, apogeu, máximo',
+    judgment: 'A Abundância tem sucesso. O rei alcança a abundância. Não fique triste. Seja como o sol ao meio-dia.',
+    image: 'Trovão e relâmpago vêm juntos: a imagem da Abundância. Assim o homem superior decide os processos e executa as punições.',
+    lines: [
+      { position: 1, text: 'Quando um homem encontra o senhor que lhe é destinado, podem estar juntos dez dias, e não é erro. Ir encontra reconhecimento.' },
+      { position: 2, text: 'A cortina é de tal plenitude que se podem ver as estrelas polares ao meio-dia. Indo, encontra-se desconfiança e ódio. Se se o desperta pela verdade, vem a boa fortuna.' },
+      { position: 3, text: 'O matagal é de tal abundância que se podem ver as pequenas estrelas ao meio-dia. Ele quebra o braço direito. Nenhuma culpa.' },
+      { position: 4, text: 'A cortina é de tal plenitude que se podem ver as estrelas polares ao meio-dia. Ele encontra seu senhor, que é de igual natureza. Boa fortuna.' },
+      { position: 5, text: 'Linhas estão chegando, bênção e fama se aproximam. Boa fortuna.' },
+      { position: 6, text: 'Sua casa está em estado de abundância. Ele isola sua família. Espia pelo portão e já não percebe ninguém. Durante três anos não vê nada. Infortúnio.' },
+    ],
+  },
+  56: {
+    name: 'O Viajante',
+    meaning: 'Viagem, exílio, adaptação',
+    judgment: 'O Viajante. Sucesso pela pequenez. A perseverança traz boa fortuna ao viajante.',
+    image: 'Fogo sobre a montanha: a imagem do Viajante. Assim o homem superior é lúcido e cauteloso, e com isso evita punições e penas.',
+    lines: [
+      { position: 1, text: 'Se o viajante se ocupa de coisas triviais, atrai sobre si o infortúnio.' },
+      { position: 2, text: 'O viajante chega a uma hospedaria. Tem consigo seus bens. Conquista a lealdade de um jovem servo.' },
+      { position: 3, text: 'A hospedaria do viajante se incendeia. Ele perde a lealdade de seu jovem servo. Perigo.' },
+      { position: 4, text: 'O viajante repousa num abrigo. Obtém seus bens e um machado. Meu coração não está alegre.' },
+      { position: 5, text: 'Ele atira num faisão. Este cai com a primeira flecha. No fim isso traz louvor e cargo.' },
+      { position: 6, text: 'O ninho do pássaro queima. O viajante ri primeiro, depois tem de lamentar e chorar. Por descuido perde sua vaca. Infortúnio.' },
+    ],
+  },
+  57: {
+    name: 'A Suavidade',
+    meaning: 'Vento, brandura, flexibilidade',
+    judgment: 'A Suavidade. Sucesso pelo que é pequeno. É favorável ter para onde ir. É favorável ver o grande homem.',
+    image: 'Ventos que se seguem: a imagem da Suavidade penetrante. Assim o homem superior difunde suas ordens e realiza seus empreendimentos.',
+    lines: [
+      { position: 1, text: 'Ao avançar e ao recuar, a perseverança de um guerreiro é favorável.' },
+      { position: 2, text: 'Penetração debaixo da cama. Sacerdotes e magos são empregados em grande número. Boa fortuna. Nenhuma culpa.' },
+      { position: 3, text: 'Penetração repetida. Humilhação.' },
+      { position: 4, text: 'O arrependimento desaparece. Na caçada capturam-se três espécies de caça.' },
+      { position: 5, text: 'A perseverança traz boa fortuna. O arrependimento desaparece. Nada que não seja favorável. Nenhum começo, mas um fim. Antes da mudança, três dias. Depois da mudança, três dias. Boa fortuna.' },
+      { position: 6, text: 'Penetração debaixo da cama. Ele perde seus bens e seu machado. A perseverança traz infortúnio.' },
+    ],
+  },
+  58: {
+    name: 'A Alegria',
+    meaning: 'Lago, prazer, alegria',
+    judgment: 'A Alegria. Sucesso. A perseverança é favorável.',
+    image: 'Lagos que se unem: a imagem da Alegria. Assim o homem superior se une a seus amigos para a discussão e a prática.',
+    lines: [
+      { position: 1, text: 'Alegria contente. Boa fortuna.' },
+      { position: 2, text: 'Alegria sincera. Boa fortuna. O arrependimento desaparece.' },
+      { position: 3, text: 'Alegria que vem. Infortúnio.' },
+      { position: 4, text: 'A alegria ponderada não está em paz. Depois de livrar-se dos erros, o homem tem alegria.' },
+      { position: 5, text: 'A sinceridade para com influências desagregadoras é perigosa.' },
+      { position: 6, text: 'Alegria sedutora.' },
+    ],
+  },
+  59: {
+    name: 'Dispersão',
+    meaning: 'Separação, dissolução, dispersão',
+    judgment: 'Dispersão. Sucesso. O rei se aproxima de seu templo. É favorável atravessar a grande água. A perseverança é favorável.',
+    image: 'O vento sopra sobre a água: a imagem da Dispersão. Assim os reis de outrora faziam oferendas ao Senhor e construíam templos.',
+    lines: [
+      { position: 1, text: 'Ele traz ajuda com a força de um cavalo. Boa fortuna.' },
+      { position: 2, text: 'Na dissolução ele se apressa para aquilo que o sustenta. O arrependimento desaparece.' },
+      { position: 3, text: 'Ele dissolve seu eu. Nenhum arrependimento.' },
+      { position: 4, text: 'Ele dissolve seu vínculo com seu grupo. Suprema boa fortuna. A dispersão leva por sua vez à acumulação. Isso é algo em que os homens comuns não pensam.' },
+      { position: 5, text: 'Seus gritos altos dissolvem como o suor. Dissolução! Um rei permanece sem culpa.' },
+      { position: 6, text: 'Ele dissolve seu sangue. Partir, manter-se à distância, sair, é sem culpa.' },
+    ],
+  },
+  60: {
+    name: 'Limitação',
+    meaning: 'Restrição, limites, autodomínio',
+    judgment: 'Limitação. Sucesso. Não se deve perseverar numa limitação amarga.',
+    image: 'Água sobre o lago: a imagem da Limitação. Assim o homem superior cria número e medida e examina a natureza de suas ações.',
+    lines: [
+      { position: 1, text: 'Não sair pela porta e pelo pátio é sem culpa.' },
+      { position: 2, text: 'Não sair pelo portão e pelo pátio traz infortúnio.' },
+      { position: 3, text: 'Quem não conhece limitação terá motivo para lamentar. Nenhuma culpa.' },
+      { position: 4, text: 'Limitação serena. Sucesso.' },
+      { position: 5, text: 'A limitação doce traz boa fortuna. Ir traz estima.' },
+      { position: 6, text: 'Limitação amarga. A perseverança traz infortúnio. O arrependimento desaparece.' },
+    ],
+  },
+  61: {
+    name: 'Verdade Interior',
+    meaning: 'Sinceridade, confiabilidade, integridade',
+    judgment: 'Verdade Interior. Porcos e peixes. Boa fortuna. É favorável atravessar a grande água. A perseverança é favorável.',
+    image: 'Vento sobre o lago: a imagem da Verdade Interior. Assim o homem superior examina os casos criminais a fim de adiar as sentenças de morte.',
+    lines: [
+      { position: 1, text: 'Estar preparado traz boa fortuna. Se há desígnios secretos, é inquietante.' },
+      { position: 2, text: 'Uma grou que chama na sombra. Seu filhote lhe responde. Tenho uma boa taça. Quero compartilhá-la com você.' },
+      { position: 3, text: 'Ele encontra um companheiro. Ora bate o tambor, ora para. Ora soluça, ora canta.' },
+      { position: 4, text: 'A lua quase cheia. O cavalo da parelha se extravia. Nenhuma culpa.' },
+      { position: 5, text: 'Ele possui a verdade, que une. Nenhuma culpa.' },
+      { position: 6, text: 'O canto do galo que penetra até o céu. A perseverança traz infortúnio.' },
+    ],
+  },
+  62: {
+    name: 'Preponderância do Pequeno',
+    meaning: 'Excesso de cautela, pormenores, limitação',
+    judgment: 'Preponderância do Pequeno. Sucesso. A perseverança é favorável. Podem-se fazer coisas pequenas; não se devem fazer coisas grandes. O pássaro que voa traz a mensagem: não é bom esforçar-se para cima, é bom permanecer embaixo. Grande boa fortuna.',
+    image: 'Trovão sobre a montanha: a imagem da Preponderância do Pequeno. Assim o homem superior, em sua conduta, dá ênfase ao que é modesto.',
+    lines: [
+      { position: 1, text: 'O pássaro encontra o infortúnio ao voar.' },
+      { position: 2, text: 'Ela passa pelo antepassado e encontra a antepassada. Ele não alcança seu príncipe e encontra o funcionário. Nenhuma culpa.' },
+      { position: 3, text: 'Se não se é extremamente cuidadoso, alguém pode vir por trás e golpeá-lo. Infortúnio.' },
+      { position: 4, text: 'Nenhuma culpa. Ele o encontra sem passar por ele. Ir traz perigo. É preciso estar de guarda. Não aja. Seja constantemente perseverante.' },
+      { position: 5, text: 'Nuvens densas, nenhuma chuva do nosso território ocidental. O príncipe atira e atinge aquele que está na caverna.' },
+      { position: 6, text: 'Ele passa por ele sem encontrá-lo. O pássaro que voa o abandona. Infortúnio. Isso significa desgraça e dano.' },
+    ],
+  },
+  63: {
+    name: 'Após a Conclusão',
+    meaning: 'Conclusão, realização, além da crise',
+    judgment: 'Após a Conclusão. Sucesso nas pequenas coisas. A perseverança é favorável. Há vantagem em empreender algo. O começo traz boa fortuna, o fim traz desordem.',
+    image: 'Água sobre o fogo: a imagem do estado Após a Conclusão. Assim o homem superior pensa no infortúnio e se arma antecipadamente contra ele.',
+    lines: [
+      { position: 1, text: 'Ele freia suas rodas. Molha a cauda na água. Nenhuma culpa.' },
+      { position: 2, text: 'A mulher perde a cortina de sua carruagem. Não corra atrás dela; no sétimo dia você a terá.' },
+      { position: 3, text: 'O Ilustre Antepassado disciplina o País dos Demônios. Depois de três anos ele o conquista. Não se devem empregar homens inferiores.' },
+      { position: 4, text: 'As roupas mais finas se tornam trapos. Seja cuidadoso o dia inteiro.' },
+      { position: 5, text: 'O vizinho do leste que sacrifica um boi não alcança tanta felicidade verdadeira quanto o vizinho do oeste com sua pequena oferenda.' },
+      { position: 6, text: 'Ele molha a cabeça na água. Perigo.' },
+    ],
+  },
+  64: {
+    name: 'Antes da Conclusão',
+    meaning: 'Incompletude, transição, obra em andamento',
+    judgment: 'Antes da Conclusão. Sucesso. A pequena raposa, tendo quase completado a travessia, molha a cauda. Nada é favorável.',
+    image: 'Fogo sobre a água: a imagem do estado Antes da Conclusão. Assim o homem superior é cuidadoso na distinção das coisas.',
+    lines: [
+      { position: 1, text: 'Ele molha a cauda na água. Humilhante.' },
+      { position: 2, text: 'Ele freia suas rodas. A perseverança traz boa fortuna.' },
+      { position: 3, text: 'Antes da conclusão, atacar traz infortúnio. É favorável atravessar a grande água.' },
+      { position: 4, text: 'A perseverança traz boa fortuna. O arrependimento desaparece. Choque, para disciplinar o País dos Demônios. Durante três anos, grandes reinos são concedidos.' },
+      { position: 5, text: 'A perseverança traz boa fortuna. Nenhum arrependimento. A luz do homem superior é verdadeira. Boa fortuna.' },
+      { position: 6, text: 'Bebe-se vinho com genuína confiança. Nenhuma culpa. Mas se se molha a cabeça, perde-se a verdade.' },
+    ],
+  },
+};
@@ -0,0 +1,908 @@
+/**
+ * Chinese classical text (周易) of all 64 hexagrams ('zh-zhouyi')
+ *
+ * Loaded on demand through loading.ts rather than imported directly.
+ */
+
+import { HexagramTranslation } from '../types';
+
+export const translations: Record<number, HexagramTranslation> = {
+  1: {
+    name: '乾',
+    meaning: '天，創造原則，純陽能量',
+    judgment: '元亨利貞。',
+    image: '天行健，君子以自強不息。',
+    lines: [
+      { position: 1, text: '潛龍勿用。' },
+      { position: 2, text: '見龍在田，利見大人。' },
+      { position: 3, text: '君子終日乾乾，夕惕若，厲，無咎。' },
+      { position: 4, text: '或躍在淵，無咎。' },
+      { position: 5, text: '飛龍在天，利見大人。' },
+      { position: 6, text: '亢龍有悔。' },
+    ],
+    allMoving: '見群龍無首，吉。',
+  },
+  2: {
+    name: '坤',
+    meaning: '地，接受原則，純陰能量',
+    judgment: '元亨，利牝馬之貞。',
+    image: '地勢坤，君子以厚德載物。',
+    lines: [
+      { position: 1, text: '履霜，堅冰至。' },
+      { position: 2, text: '直方大，不習無不利。' },
+      { position: 3, text: '含章可貞。或從王事，無成有終。' },
+      { position: 4, text: '括囊，無咎無譽。' },
+      { position: 5, text: '黃裳，元吉。' },
+      { position: 6, text: '龍戰于野，其血玄黃。' },
+    ],
+    allMoving: '利永貞。',
+  },
+  11: {
+    name: '泰',
+    meaning: '天地交泰，和諧繁榮',
+    judgment: '小往大來，吉亨。',
+    image: '天地交，泰。后以財成天地之道。',
+    lines: [
+      { position: 1, text: '拔茅茹，以其彙，征吉。' },
+      { position: 2, text: '包荒，用馮河，不遐遺，朋亡，得尚于中行。' },
+      { position: 3, text: '無平不陂，無往不復，艱貞無咎。勿恤其孚，于食有福。' },
+      { position: 4, text: '翩翩不富以其鄰，不戒以孚。' },
+      { position: 5, text: '帝乙歸妹，以祉元吉。' },
+      { position: 6, text: '城復于隍，勿用師。自邑告命，貞吝。' },
+    ],
+  },
+  12: {
+    name: '否',
+    meaning: '天地不交，閉塞',
+    judgment: '否之匪人，不利君子貞，大往小來。',
+    image: '天地不交，否。君子以儉德辟難。',
+    lines: [
+      { position: 1, text: '拔茅茹，以其彙，貞吉亨。' },
+      { position: 2, text: '包承，小人吉，大人否亨。' },
+      { position: 3, text: '包羞。' },
+      { position: 4, text: '有命無咎，疇離祉。' },
+      { position: 5, text: '休否，大人吉。其亡其亡，繫于苞桑。' },
+      { position: 6, text: '傾否，先否後喜。' },
+    ],
+  },
+  19: {
+    name: '臨',
+    meaning: '臨近，變大，前進',
+    judgment: '元亨利貞，至于八月有凶。',
+    image: '澤上有地，臨。君子以教思無窮。',
+    lines: [
+      { position: 1, text: '咸臨，貞吉。' },
+      { position: 2, text: '咸臨，吉無不利。' },
+      { position: 3, text: '甘臨，無攸利。既憂之，無咎。' },
+      { position: 4, text: '至臨，無咎。' },
+      { position: 5, text: '知臨，大君之宜，吉。' },
+      { position: 6, text: '敦臨，吉無咎。' },
+    ],
+  },
+  20: {
+    name: '觀',
+    meaning: '觀看，觀察，成為榜樣',
+    judgment: '盥而不薦，有孚顒若。',
+    image: '風行地上，觀。先王以省方觀民設教。',
+    lines: [
+      { position: 1, text: '童觀，小人無咎，君子吝。' },
+      { position: 2, text: '闚觀，利女貞。' },
+      { position: 3, text: '觀我生，進退。' },
+      { position: 4, text: '觀國之光，利用賓于王。' },
+      { position: 5, text: '觀我生，君子無咎。' },
+      { position: 6, text: '觀其生，君子無咎。' },
+    ],
+  },
+  23: {
+    name: '剝',
+    meaning: '剝落，剝奪，衰敗',
+    judgment: '不利有攸往。',
+    image: '山附於地，剝。上以厚下安宅。',
+    lines: [
+      { position: 1, text: '剝床以足，蔑貞凶。' },
+      { position: 2, text: '剝床以辨，蔑貞凶。' },
+      { position: 3, text: '剝之，無咎。' },
+      { position: 4, text: '剝床以膚，凶。' },
+      { position: 5, text: '貫魚，以宮人寵，無不利。' },
+      { position: 6, text: '碩果不食，君子得輿，小人剝廬。' },
+    ],
+  },
+  24: {
+    name: '復',
+    meaning: '轉折點，更新，返回',
+    judgment: '亨。出入無疾，朋來無咎。',
+    image: '雷在地中，復。先王以至日閉關。',
+    lines: [
+      { position: 1, text: '不遠復，無祇悔，元吉。' },
+      { position: 2, text: '休復，吉。' },
+      { position: 3, text: '頻復，厲無咎。' },
+      { position: 4, text: '中行獨復。' },
+      { position: 5, text: '敦復，無悔。' },
+      { position: 6, text: '迷復，凶，有災眚。用行師，終有大敗，以其國君凶，至于十年不克征。' },
+    ],
+  },
+  33: {
+    name: '遯',
+    meaning: '退避，讓步，戰略撤退',
+    judgment: '亨，小利貞。',
+    image: '天下有山，遯。君子以遠小人。',
+    lines: [
+      { position: 1, text: '遯尾，厲，勿用有攸往。' },
+      { position: 2, text: '執之用黃牛之革，莫之勝說。' },
+      { position: 3, text: '係遯，有疾厲，畜臣妾吉。' },
+      { position: 4, text: '好遯，君子吉，小人否。' },
+      { position: 5, text: '嘉遯，貞吉。' },
+      { position: 6, text: '肥遯，無不利。' },
+    ],
+  },
+  34: {
+    name: '大壯',
+    meaning: '大力量，活力，強大前進',
+    judgment: '利貞。',
+    image: '雷在天上，大壯。君子以非禮弗履。',
+    lines: [
+      { position: 1, text: '壯于趾，征凶，有孚。' },
+      { position: 2, text: '貞吉。' },
+      { position: 3, text: '小人用壯，君子用罔，貞厲。羝羊觸藩，羸其角。' },
+      { position: 4, text: '貞吉悔亡，藩決不羸，壯于大輿之輹。' },
+      { position: 5, text: '喪羊于易，無悔。' },
+      { position: 6, text: '羝羊觸藩，不能退，不能遂，無攸利，艱則吉。' },
+    ],
+  },
+  43: {
+    name: '夬',
+    meaning: '決斷，決心，突破',
+    judgment: '揚于王庭，孚號有厲。',
+    image: '澤上於天，夬。君子以施祿及下。',
+    lines: [
+      { position: 1, text: '壯于前趾，往不勝為咎。' },
+      { position: 2, text: '惕號，莫夜有戎，勿恤。' },
+      { position: 3, text: '壯于頄，有凶。君子夬夬，獨行遇雨，若濡有慍，無咎。' },
+      { position: 4, text: '臀無膚，其行次且。牽羊悔亡，聞言不信。' },
+      { position: 5, text: '莧陸夬夬，中行無咎。' },
+      { position: 6, text: '無號，終有凶。' },
+    ],
+  },
+  44: {
+    name: '姤',
+    meaning: '遇見，會面，誘惑',
+    judgment: '女壯，勿用取女。',
+    image: '天下有風，姤。后以施命誥四方。',
+    lines: [
+      { position: 1, text: '繫于金柅，貞吉，有攸往，見凶，羸豕孚蹢躅。' },
+      { position: 2, text: '包有魚，無咎，不利賓。' },
+      { position: 3, text: '臀無膚，其行次且，厲，無大咎。' },
+      { position: 4, text: '包無魚，起凶。' },
+      { position: 5, text: '以杞包瓜，含章，有隕自天。' },
+      { position: 6, text: '姤其角，吝，無咎。' },
+    ],
+  },
+  3: {
+    name: '屯',
+    meaning: '初期困難，分娩陣痛，困難',
+    judgment: '元亨，利貞，勿用有攸往，利建侯。',
+    image: '雲雷，屯。君子以經綸。',
+    lines: [
+      { position: 1, text: '磐桓，利居貞，利建侯。' },
+      { position: 2, text: '屯如邅如，乘馬班如。匪寇婚媾，女子貞不字，十年乃字。' },
+      { position: 3, text: '即鹿無虞，惟入于林中，君子幾不如舍，往吝。' },
+      { position: 4, text: '乘馬班如，求婚媾，往吉，無不利。' },
+      { position: 5, text: '屯其膏，小貞吉，大貞凶。' },
+      { position: 6, text: '乘馬班如，泣血漣如。' },
+    ],
+  },
+  4: {
+    name: '蒙',
+    meaning: '無知，青年，缺乏經驗',
+    judgment: '亨。匪我求童蒙，童蒙求我。初筮告，再三瀆，瀆則不告，利貞。',
+    image: '山下出泉，蒙。君子以果行育德。',
+    lines: [
+      { position: 1, text: '發蒙，利用刑人，用說桎梏，以往吝。' },
+      { position: 2, text: '包蒙吉，納婦吉，子克家。' },
+      { position: 3, text: '勿用取女，見金夫，不有躬，無攸利。' },
+      { position: 4, text: '困蒙，吝。' },
+      { position: 5, text: '童蒙，吉。' },
+      { position: 6, text: '擊蒙，不利為寇，利禦寇。' },
+    ],
+  },
+  5: {
+    name: '需',
+    meaning: '滋養，耐心，有利時期',
+    judgment: '有孚，光亨，貞吉，利涉大川。',
+    image: '雲上於天，需。君子以飲食宴樂。',
+    lines: [
+      { position: 1, text: '需于郊，利用恆，無咎。' },
+      { position: 2, text: '需于沙，小有言，終吉。' },
+      { position: 3, text: '需于泥，致寇至。' },
+      { position: 4, text: '需于血，出自穴。' },
+      { position: 5, text: '需于酒食，貞吉。' },
+      { position: 6, text: '入于穴，有不速之客三人來，敬之終吉。' },
+    ],
+  },
+  6: {
+    name: '訟',
+    meaning: '訴訟，不和，競爭',
+    judgment: '有孚窒惕，中吉。終凶。利見大人，不利涉大川。',
+    image: '天與水違行，訟。君子以作事謀始。',
+    lines: [
+      { position: 1, text: '不永所事，小有言，終吉。' },
+      { position: 2, text: '不克訟，歸而逋，其邑人三百戶，無眚。' },
+      { position: 3, text: '食舊德，貞厲，終吉。或從王事，無成。' },
+      { position: 4, text: '不克訟，復即命，渝安貞，吉。' },
+      { position: 5, text: '訟元吉。' },
+      { position: 6, text: '或錫之鞶帶，終朝三褫之。' },
+    ],
+  },
+  7: {
+    name: '師',
+    meaning: '軍隊，軍事紀律，合法性',
+    judgment: '師貞，丈人吉，無咎。',
+    image: '地中有水，師。君子以容民畜眾。',
+    lines: [
+      { position: 1, text: '師出以律，否臧凶。' },
+      { position: 2, text: '在師中，吉無咎，王三錫命。' },
+      { position: 3, text: '師或輿尸，凶。' },
+      { position: 4, text: '師左次，無咎。' },
+      { position: 5, text: '田有禽，利執言，無咎。長子帥師，弟子輿尸，貞凶。' },
+      { position: 6, text: '大君有命，開國承家，小人勿用。' },
+    ],
+  },
+  8: {
+    name: '比',
+    meaning: '團結，聯盟，忠誠',
+    judgment: '吉。原筮元永貞，無咎。不寧方來，後夫凶。',
+    image: '水上於地，比。先王以建萬國，親諸侯。',
+    lines: [
+      { position: 1, text: '有孚比之，無咎。有孚盈缶，終來有他吉。' },
+      { position: 2, text: '比之自內，貞吉。' },
+      { position: 3, text: '比之匪人。' },
+      { position: 4, text: '外比之，貞吉。' },
+      { position: 5, text: '顯比，王用三驅，失前禽，邑人不誡，吉。' },
+      { position: 6, text: '比之無首，凶。' },
+    ],
+  },
+  9: {
+    name: '小畜',
+    meaning: '馴服，積累，微妙影響',
+    judgment: '亨。密雲不雨，自我西郊。',
+    image: '風行於天，小畜。君子以懿文德。',
+    lines: [
+      { position: 1, text: '復自道，何其咎，吉。' },
+      { position: 2, text: '牽復，吉。' },
+      { position: 3, text: '輿說輻，夫妻反目。' },
+      { position: 4, text: '有孚，血去惕出，無咎。' },
+      { position: 5, text: '有孚攣如，富以其鄰。' },
+      { position: 6, text: '既雨既處，尚德載，婦貞厲。月幾望，君子征凶。' },
+    ],
+  },
+  10: {
+    name: '履',
+    meaning: '行走，行為，禮儀',
+    judgment: '履虎尾，不咥人，亨。',
+    image: '上天下澤，履。君子以辨上下，定民志。',
+    lines: [
+      { position: 1, text: '素履，往無咎。' },
+      { position: 2, text: '履道坦坦，幽人貞吉。' },
+      { position: 3, text: '眇能視，跛能履，履虎尾，咥人，凶。武人為于大君。' },
+      { position: 4, text: '履虎尾，愬愬終吉。' },
+      { position: 5, text: '夬履，貞厲。' },
+      { position: 6, text: '視履考祥，其旋元吉。' },
+    ],
+  },
+  13: {
+    name: '同人',
+    meaning: '社區，統一，兄弟情誼',
+    judgment: '同人於野，亨。利涉大川，利貞。',
+    image: '天與火，同人。君子以類族辨物。',
+    lines: [
+      { position: 1, text: '同人于門，無咎。' },
+      { position: 2, text: '同人于宗，吝。' },
+      { position: 3, text: '伏戎于莽，升其高陵，三歲不興。' },
+      { position: 4, text: '乘其墉，弗克攻，吉。' },
+      { position: 5, text: '同人先號咷而後笑，大師克相遇。' },
+      { position: 6, text: '同人于郊，無悔。' },
+    ],
+  },
+  14: {
+    name: '大有',
+    meaning: '大豐富，財富，信心',
+    judgment: '元亨。',
+    image: '火在天上，大有。君子以遏惡揚善。',
+    lines: [
+      { position: 1, text: '無交害，匪咎，艱則無咎。' },
+      { position: 2, text: '大車以載，有攸往，無咎。' },
+      { position: 3, text: '公用亨于天子，小人弗克。' },
+      { position: 4, text: '匪其彭，無咎。' },
+      { position: 5, text: '厥孚交如，威如，吉。' },
+      { position: 6, text: '自天祐之，吉無不利。' },
+    ],
+  },
+  15: {
+    name: '謙',
+    meaning: '謙虛，節制，讓步',
+    judgment: '亨，君子有終。',
+    image: '地中有山，謙。君子以裒多益寡。',
+    lines: [
+      { position: 1, text: '謙謙君子，用涉大川，吉。' },
+      { position: 2, text: '鳴謙，貞吉。' },
+      { position: 3, text: '勞謙君子，有終吉。' },
+      { position: 4, text: '無不利，撝謙。' },
+      { position: 5, text: '不富以其鄰，利用侵伐，無不利。' },
+      { position: 6, text: '鳴謙，利用行師，征邑國。' },
+    ],
+  },
+  16: {
+    name: '豫',
+    meaning: '歡樂，準備，和諧',
+    judgment: '利建侯行師。',
+    image: '雷在地中，豫。先王以作樂崇德。',
+    lines: [
+      { position: 1, text: '鳴豫，凶。' },
+      { position: 2, text: '介于石，不終日，貞吉。' },
+      { position: 3, text: '盱豫悔，遲有悔。' },
+      { position: 4, text: '由豫，大有得，勿疑，朋盍簪。' },
+      { position: 5, text: '貞疾，恆不死。' },
+      { position: 6, text: '冥豫，成有渝，無咎。' },
+    ],
+  },
+  17: {
+    name: '隨',
+    meaning: '跟隨，順從，靈活',
+    judgment: '元亨，利貞，無咎。',
+    image: '雷在澤上，隨。君子以嚮晦入宴息。',
+    lines: [
+      { position: 1, text: '官有渝，貞吉，出門交有功。' },
+      { position: 2, text: '係小子，失丈夫。' },
+      { position: 3, text: '係丈夫，失小子，隨有求得，利居貞。' },
+      { position: 4, text: '隨有獲，貞凶。有孚在道，以明，何咎。' },
+      { position: 5, text: '孚于嘉，吉。' },
+      { position: 6, text: '拘係之，乃從維之，王用亨于西山。' },
+    ],
+  },
+  18: {
+    name: '蠱',
+    meaning: '腐爛，修復，消除腐爛',
+    judgment: '元亨，利涉大川。先甲三日，後甲三日。',
+    image: '風山蠱，蠱。君子以振民育德。',
+    lines: [
+      { position: 1, text: '幹父之蠱，有子，考無咎，厲終吉。' },
+      { position: 2, text: '幹母之蠱，不可貞。' },
+      { position: 3, text: '幹父之蠱，小有悔，無大咎。' },
+      { position: 4, text: '裕父之蠱，往見吝。' },
+      { position: 5, text: '幹父之蠱，用譽。' },
+      { position: 6, text: '不事王侯，高尚其事。' },
+    ],
+  },
+  21: {
+    name: '噬嗑',
+    meaning: '決心，消除障礙，果斷',
+    judgment: '亨。利用獄。',
+    image: '雷電噬嗑，先王以明罰敕法。',
+    lines: [
+      { position: 1, text: '屨校滅趾，無咎。' },
+      { position: 2, text: '噬膚滅鼻，無咎。' },
+      { position: 3, text: '噬腊肉，遇毒，小吝，無咎。' },
+      { position: 4, text: '噬乾胏，得金矢，利艱貞，吉。' },
+      { position: 5, text: '噬乾肉，得黃金，貞厲，無咎。' },
+      { position: 6, text: '何校滅耳，凶。' },
+    ],
+  },
+  22: {
+    name: '賁',
+    meaning: '美麗，裝飾，裝扮',
+    judgment: '亨。小利有攸往。',
+    image: '火山賁，賁。君子以明庶政。',
+    lines: [
+      { position: 1, text: '賁其趾，舍車而徒。' },
+      { position: 2, text: '賁其須。' },
+      { position: 3, text: '賁如濡如，永貞吉。' },
+      { position: 4, text: '賁如皤如，白馬翰如，匪寇婚媾。' },
+      { position: 5, text: '賁于丘園，束帛戔戔，吝，終吉。' },
+      { position: 6, text: '白賁，無咎。' },
+    ],
+  },
+  25: {
+    name: '無妄',
+    meaning: '無欺，正直，自發性',
+    judgment: '元亨，利貞。其匪正有眚，不利有攸往。',
+    image: '天下雷行，無妄。先王以茂對時，育萬物。',
+    lines: [
+      { position: 1, text: '無妄，往吉。' },
+      { position: 2, text: '不耕穫，不菑畬，則利有攸往。' },
+      { position: 3, text: '無妄之災，或繫之牛，行人之得，邑人之災。' },
+      { position: 4, text: '可貞，無咎。' },
+      { position: 5, text: '無妄之疾，勿藥有喜。' },
+      { position: 6, text: '無妄，行有眚，無攸利。' },
+    ],
+  },
+  26: {
+    name: '大畜',
+    meaning: '積累力量，紀律，節制',
+    judgment: '利貞。不家食吉。利涉大川。',
+    image: '天在山中，大畜。君子以多識前言往行。',
+    lines: [
+      { position: 1, text: '有厲，利已。' },
+      { position: 2, text: '輿說輹。' },
+      { position: 3, text: '良馬逐，利艱貞。曰閑輿衛，利有攸往。' },
+      { position: 4, text: '童牛之牿，元吉。' },
+      { position: 5, text: '豶豕之牙，吉。' },
+      { position: 6, text: '何天之衢，亨。' },
+    ],
+  },
+  27: {
+    name: '頤',
+    meaning: '營養，供應，維持',
+    judgment: '貞吉。觀頤，自求口實。',
+    image: '雷山頤，頤。君子以慎言語。',
+    lines: [
+      { position: 1, text: '舍爾靈龜，觀我朵頤，凶。' },
+      { position: 2, text: '顛頤，拂經，于丘頤，征凶。' },
+      { position: 3, text: '拂頤，貞凶，十年勿用，無攸利。' },
+      { position: 4, text: '顛頤吉，虎視眈眈，其欲逐逐，無咎。' },
+      { position: 5, text: '拂經，居貞吉，不可涉大川。' },
+      { position: 6, text: '由頤，厲吉，利涉大川。' },
+    ],
+  },
+  28: {
+    name: '大過',
+    meaning: '超過，極端，不平衡',
+    judgment: '棟隆，利有攸往，亨。',
+    image: '澤風大過，大過。君子以獨立不懼。',
+    lines: [
+      { position: 1, text: '藉用白茅，無咎。' },
+      { position: 2, text: '枯楊生稊，老夫得其女妻，無不利。' },
+      { position: 3, text: '棟橈，凶。' },
+      { position: 4, text: '棟隆，吉。有它吝。' },
+      { position: 5, text: '枯楊生華，老婦得其士夫，無咎無譽。' },
+      { position: 6, text: '過涉滅頂，凶，無咎。' },
+    ],
+  },
+  29: {
+    name: '坎',
+    meaning: '危險，水流，深度',
+    judgment: '習坎，有孚，維心亨，行有尚。',
+    image: '水流不息，坎。君子以常德行。',
+    lines: [
+      { position: 1, text: '習坎，入于坎窞，凶。' },
+      { position: 2, text: '坎有險，求小得。' },
+      { position: 3, text: '來之坎坎，險且枕，入于坎窞，勿用。' },
+      { position: 4, text: '樽酒簋貳，用缶，納約自牖，終無咎。' },
+      { position: 5, text: '坎不盈，祗既平，無咎。' },
+      { position: 6, text: '係用徽纆，寘于叢棘，三歲不得，凶。' },
+    ],
+  },
+  30: {
+    name: '離',
+    meaning: '火，照明，清晰',
+    judgment: '利貞，亨。畜牝牛吉。',
+    image: '明两作離，離。大人以繼明照于四方。',
+    lines: [
+      { position: 1, text: '履錯然，敬之無咎。' },
+      { position: 2, text: '黃離，元吉。' },
+      { position: 3, text: '日昃之離，不鼓缶而歌，則大耋之嗟，凶。' },
+      { position: 4, text: '突如其來如，焚如，死如，棄如。' },
+      { position: 5, text: '出涕沱若，戚嗟若，吉。' },
+      { position: 6, text: '王用出征，有嘉折首，獲匪其醜，無咎。' },
+    ],
+  },
+  31: {
+    name: '咸',
+    meaning: '吸引，求婚，相互作用',
+    judgment: '亨，利貞，娶女吉。',
+    image: '澤山咸，咸。君子以虛受人。',
+    lines: [
+      { position: 1, text: '咸其拇。' },
+      { position: 2, text: '咸其腓，凶，居吉。' },
+      { position: 3, text: '咸其股，執其隨，往吝。' },
+      { position: 4, text: '貞吉悔亡，憧憧往來，朋從爾思。' },
+      { position: 5, text: '咸其脢，無悔。' },
+      { position: 6, text: '咸其輔頰舌。' },
+    ],
+  },
+  32: {
+    name: '恆',
+    meaning: '常，堅持，連續',
+    judgment: '亨，無咎，利貞，利有攸往。',
+    image: '雷風恆，恆。君子以立不易方。',
+    lines: [
+      { position: 1, text: '浚恆，貞凶，無攸利。' },
+      { position: 2, text: '悔亡。' },
+      { position: 3, text: '不恆其德，或承之羞，貞吝。' },
+      { position: 4, text: '田無禽。' },
+      { position: 5, text: '恆其德，貞，婦人吉，夫子凶。' },
+      { position: 6, text: '振恆，凶。' },
+    ],
+  },
+  35: {
+    name: '晉',
+    meaning: '進步，提升，向上運動',
+    judgment: '康侯用錫馬蕃庶，晝日三接。',
+    image: '火出地上，晉。君子以自昭明德。',
+    lines: [
+      { position: 1, text: '晉如摧如，貞吉。罔孚，裕無咎。' },
+      { position: 2, text: '晉如愁如，貞吉。受茲介福，于其王母。' },
+      { position: 3, text: '眾允，悔亡。' },
+      { position: 4, text: '晉如鼫鼠，貞厲。' },
+      { position: 5, text: '悔亡，失得勿恤，往吉，無不利。' },
+      { position: 6, text: '晉其角，維用伐邑，厲吉無咎，貞吝。' },
+    ],
+  },
+  36: {
+    name: '明夷',
+    meaning: '昏暗，逆境，隱德',
+    judgment: '利艱貞。',
+    image: '明入地中，明夷。君子以蒙難。',
+    lines: [
+      { position: 1, text: '明夷于飛，垂其翼。君子于行，三日不食，有攸往，主人有言。' },
+      { position: 2, text: '明夷，夷于左股，用拯馬壯，吉。' },
+      { position: 3, text: '明夷于南狩，得其大首，不可疾貞。' },
+      { position: 4, text: '入于左腹，獲明夷之心，于出門庭。' },
+      { position: 5, text: '箕子之明夷，利貞。' },
+      { position: 6, text: '不明晦，初登于天，後入于地。' },
+    ],
+  },
+  37: {
+    name: '家人',
+    meaning: '家庭，關係，基礎',
+    judgment: '利女貞。',
+    image: '風自火出，家人。君子以言有物，行有恆。',
+    lines: [
+      { position: 1, text: '閑有家，悔亡。' },
+      { position: 2, text: '無攸遂，在中饋，貞吉。' },
+      { position: 3, text: '家人嗃嗃，悔厲吉；婦子嘻嘻，終吝。' },
+      { position: 4, text: '富家，大吉。' },
+      { position: 5, text: '王假有家，勿恤，吉。' },
+      { position: 6, text: '有孚威如，終吉。' },
+    ],
+  },
+  38: {
+    name: '睽',
+    meaning: '分歧，分離，誤解',
+    judgment: '小事吉。',
+    image: '火澤睽，睽。君子以同而異。',
+    lines: [
+      { position: 1, text: '悔亡，喪馬勿逐，自復；見惡人，無咎。' },
+      { position: 2, text: '遇主于巷，無咎。' },
+      { position: 3, text: '見輿曳，其牛掣，其人天且劓，無初有終。' },
+      { position: 4, text: '睽孤，遇元夫，交孚，厲無咎。' },
+      { position: 5, text: '悔亡，厥宗噬膚，往何咎。' },
+      { position: 6, text: '睽孤，見豕負塗，載鬼一車，先張之弧，後說之弧，匪寇婚媾，往遇雨則吉。' },
+    ],
+  },
+  39: {
+    name: '蹇',
+    meaning: '障礙，停頓，靜止',
+    judgment: '利西南，不利東北。利見大人，貞吉。',
+    image: '山上有水，蹇。君子以反身修德。',
+    lines: [
+      { position: 1, text: '往蹇，來譽。' },
+      { position: 2, text: '王臣蹇蹇，匪躬之故。' },
+      { position: 3, text: '往蹇，來反。' },
+      { position: 4, text: '往蹇，來連。' },
+      { position: 5, text: '大蹇，朋來。' },
+      { position: 6, text: '往蹇，來碩，吉；利見大人。' },
+    ],
+  },
+  40: {
+    name: '解',
+    meaning: '解放，解脫，解決',
+    judgment: '利西南，無所往，其來復吉。有攸往，夙吉。',
+    image: '雷雨作解，解。君子以赦過宥罪。',
+    lines: [
+      { position: 1, text: '無咎。' },
+      { position: 2, text: '田獲三狐，得黃矢，貞吉。' },
+      { position: 3, text: '負且乘，致寇至，貞吝。' },
+      { position: 4, text: '解而拇，朋至斯孚。' },
+      { position: 5, text: '君子維有解，吉；有孚于小人。' },
+      { position: 6, text: '公用射隼于高墉之上，獲之，無不利。' },
+    ],
+  },
+  41: {
+    name: '損',
+    meaning: '減少，犧牲，消除',
+    judgment: '有孚，元吉，無咎，可貞，利有攸往。',
+    image: '山下有澤，損。君子以懲忿窒欲。',
+    lines: [
+      { position: 1, text: '已事遄往，無咎，酌損之。' },
+      { position: 2, text: '利貞，征凶，弗損益之。' },
+      { position: 3, text: '三人行，則損一人；一人行，則得其友。' },
+      { position: 4, text: '損其疾，使遄有喜，無咎。' },
+      { position: 5, text: '或益之十朋之龜，弗克違，元吉。' },
+      { position: 6, text: '弗損益之，無咎，貞吉，利有攸往，得臣無家。' },
+    ],
+  },
+  42: {
+    name: '益',
+    meaning: '擴大，成長，進步',
+    judgment: '利有攸往，利涉大川。',
+    image: '風雷益，益。君子以見善則遷。',
+    lines: [
+      { position: 1, text: '利用為大作，元吉，無咎。' },
+      { position: 2, text: '或益之十朋之龜，弗克違，永貞吉。王用享于帝，吉。' },
+      { position: 3, text: '益之用凶事，無咎。有孚中行，告公用圭。' },
+      { position: 4, text: '中行，告公從。利用為依遷國。' },
+      { position: 5, text: '有孚惠心，勿問元吉。有孚惠我德。' },
+      { position: 6, text: '莫益之，或擊之，立心勿恆，凶。' },
+    ],
+  },
+  45: {
+    name: '萃',
+    meaning: '聚集，集會，收集',
+    judgment: '亨。王假之，利見大人，亨，利貞，用大牲吉。',
+    image: '澤上於地，萃。君子以除戎器。',
+    lines: [
+      { position: 1, text: '有孚不終，乃亂乃萃，若號，一握為笑，勿恤，往無咎。' },
+      { position: 2, text: '引吉，無咎，孚乃利用禴。' },
+      { position: 3, text: '萃如嗟如，無攸利，往無咎，小吝。' },
+      { position: 4, text: '大吉，無咎。' },
+      { position: 5, text: '萃有位，無咎。匪孚，元永貞，悔亡。' },
+      { position: 6, text: '齎咨涕洟，無咎。' },
+    ],
+  },
+  46: {
+    name: '升',
+    meaning: '上升，上升，晉升',
+    judgment: '元亨，用見大人，勿恤，南征吉。',
+    image: '地中生木，升。君子以順德積小以高大。',
+    lines: [
+      { position: 1, text: '允升，大吉。' },
+      { position: 2, text: '孚乃利用禴，無咎。' },
+      { position: 3, text: '升虛邑。' },
+      { position: 4, text: '王用亨于岐山，吉無咎。' },
+      { position: 5, text: '貞吉，升階。' },
+      { position: 6, text: '冥升，利于不息之貞。' },
+    ],
+  },
+  47: {
+    name: '困',
+    meaning: '壓迫，耗盡，困難',
+    judgment: '亨，貞，大人吉，無咎，有言不信。',
+    image: '澤無水，困。君子以致命遂志。',
+    lines: [
+      { position: 1, text: '臀困于株木，入于幽谷，三歲不覿。' },
+      { position: 2, text: '困于酒食，朱紱方來，利用享祀，征凶，無咎。' },
+      { position: 3, text: '困于石，據于蒺藜，入于其宮，不見其妻，凶。' },
+      { position: 4, text: '來徐徐，困于金車，吝，有終。' },
+      { position: 5, text: '劓刖，困于赤紱，乃徐有說，利用祭祀。' },
+      { position: 6, text: '困于葛藟，于臲卼，曰動悔。有悔，征吉。' },
+    ],
+  },
+  48: {
+    name: '井',
+    meaning: '水源，更新，社區',
+    judgment: '改邑不改井，無喪無得，往來井井。汔至，亦未繘井，羸其瓶兇。',
+    image: '水風井，井。君子以勞民勸相。',
+    lines: [
+      { position: 1, text: '井泥不食，舊井無禽。' },
+      { position: 2, text: '井谷射鮒，甕敝漏。' },
+      { position: 3, text: '井渫不食，為我心惻，可用汲，王明，並受其福。' },
+      { position: 4, text: '井甃，無咎。' },
+      { position: 5, text: '井冽，寒泉食。' },
+      { position: 6, text: '井收勿幕，有孚元吉。' },
+    ],
+  },
+  49: {
+    name: '革',
+    meaning: '革命，轉變，激進變化',
+    judgment: '己日乃孚，元亨，利貞，悔亡。',
+    image: '澤中有火，革。君子以治曆明時。',
+    lines: [
+      { position: 1, text: '鞏用黃牛之革。' },
+      { position: 2, text: '已日乃革之，征吉，無咎。' },
+      { position: 3, text: '征凶，貞厲，革言三就，有孚。' },
+      { position: 4, text: '悔亡，有孚改命，吉。' },
+      { position: 5, text: '大人虎變，未占有孚。' },
+      { position: 6, text: '君子豹變，小人革面，征凶，居貞吉。' },
+    ],
+  },
+  50: {
+    name: '鼎',
+    meaning: '鍋，轉變，營養',
+    judgment: '元吉，亨。',
+    image: '火風鼎，鼎。君子以正位凝命。',
+    lines: [
+      { position: 1, text: '鼎顛趾，利出否，得妾以其子，無咎。' },
+      { position: 2, text: '鼎有實，我仇有疾，不我能即，吉。' },
+      { position: 3, text: '鼎耳革，其行塞，雉膏不食，方雨虧悔，終吉。' },
+      { position: 4, text: '鼎折足，覆公餗，其形渥，凶。' },
+      { position: 5, text: '鼎黃耳金鉉，利貞。' },
+      { position: 6, text: '鼎玉鉉，大吉，無不利。' },
+    ],
+  },
+  51: {
+    name: '震',
+    meaning: '雷，喚醒，震驚',
+    judgment: '亨。震來虩虩，笑言啞啞，震驚百里，不喪匙箸。',
+    image: '雷二震，震。君子以恐懼修身。',
+    lines: [
+      { position: 1, text: '震來虩虩，後笑言啞啞，吉。' },
+      { position: 2, text: '震來厲，億喪貝，躋于九陵，勿逐，七日得。' },
+      { position: 3, text: '震蘇蘇，震行無眚。' },
+      { position: 4, text: '震遂泥。' },
+      { position: 5, text: '震往來厲，億無喪，有事。' },
+      { position: 6, text: '震索索，視矍矍，征凶。震不于其躬，于其鄰，無咎。婚媾有言。' },
+    ],
+  },
+  52: {
+    name: '艮',
+    meaning: '山，靜止，不行動',
+    judgment: '艮其背，不獲其身，行其庭，不見其人，無咎。',
+    image: '兩山相繼，艮。君子以思不出其位。',
+    lines: [
+      { position: 1, text: '艮其趾，無咎，利永貞。' },
+      { position: 2, text: '艮其腓，不拯其隨，其心不快。' },
+      { position: 3, text: '艮其限，列其夤，厲薰心。' },
+      { position: 4, text: '艮其身，無咎。' },
+      { position: 5, text: '艮其輔，言有序，悔亡。' },
+      { position: 6, text: '敦艮，吉。' },
+    ],
+  },
+  53: {
+    name: '漸',
+    meaning: '逐漸進步，階段，前進',
+    judgment: '女歸吉，利貞。',
+    image: '山上有風，漸。君子以居賢德善俗。',
+    lines: [
+      { position: 1, text: '鴻漸于干，小子厲，有言，無咎。' },
+      { position: 2, text: '鴻漸于磐，飲食衎衎，吉。' },
+      { position: 3, text: '鴻漸于陸，夫征不復，婦孕不育，凶；利禦寇。' },
+      { position: 4, text: '鴻漸于木，或得其桷，無咎。' },
+      { position: 5, text: '鴻漸于陵，婦三歲不孕，終莫之勝，吉。' },
+      { position: 6, text: '鴻漸于陸，其羽可用為儀，吉。' },
+    ],
+  },
+  54: {
+    name: '歸妹',
+    meaning: '從屬地位，自然秩序，過渡',
+    judgment: '征凶，無攸利。',
+    image: '雷在澤上，歸妹。君子以永終知敝。',
+    lines: [
+      { position: 1, text: '歸妹以娣，跛能履，征吉。' },
+      { position: 2, text: '眇能視，利幽人之貞。' },
+      { position: 3, text: '歸妹以須，反歸以娣。' },
+      { position: 4, text: '歸妹愆期，遲歸有時。' },
+      { position: 5, text: '帝乙歸妹，其君之袂，不如其娣之袂良，月幾望，吉。' },
+      { position: 6, text: '女承筐無實，士刲羊無血，無攸利。' },
+    ],
+  },
+  55: {
+    name: '豐',
+    meaning: '豐富，高峰，最大',
+    judgment: '亨，王假之，勿憂，宜日中。',
+    image: '雷電皆至，豐。君子以折獄致刑。',
+    lines: [
+      { position: 1, text: '遇其配主，雖旬無咎，往有尚。' },
+      { position: 2, text: '豐其蔀，日中見斗，往得疑疾，有孚發若，吉。' },
+      { position: 3, text: '豐其沛，日中見沫，折其右肱，無咎。' },
+      { position: 4, text: '豐其蔀，日中見斗，遇其夷主，吉。' },
+      { position: 5, text: '來章，有慶譽，吉。' },
+      { position: 6, text: '豐其屋，蔀其家，闚其戶，闃其無人，三歲不覿，凶。' },
+    ],
+  },
+  56: {
+    name: '旅',
+    meaning: '旅行，流放，適應',
+    judgment: '利貞，亨。旅貞吉。',
+    image: '火山旅，旅。君子以明慎用刑。',
+    lines: [
+      { position: 1, text: '旅瑣瑣，斯其所取災。' },
+      { position: 2, text: '旅即次，懷其資，得童僕貞。' },
+      { position: 3, text: '旅焚其次，喪其童僕，貞厲。' },
+      { position: 4, text: '旅于處，得其資斧，我心不快。' },
+      { position: 5, text: '射雉一矢亡，終以譽命。' },
+      { position: 6, text: '鳥焚其巢，旅人先笑後號咷。喪牛于易，凶。' },
+    ],
+  },
+  57: {
+    name: '巽',
+    meaning: '風，溫柔，靈活',
+    judgment: '小亨，利有攸往，利見大人。',
+    image: '隨風隨風，巽。君子以申命行事。',
+    lines: [
+      { position: 1, text: '進退，利武人之貞。' },
+      { position: 2, text: '巽在床下，用史巫紛若，吉無咎。' },
+      { position: 3, text: '頻巽，吝。' },
+      { position: 4, text: '悔亡，田獲三品。' },
+      { position: 5, text: '貞吉悔亡，無不利。無初有終，先庚三日，後庚三日，吉。' },
+      { position: 6, text: '巽在床下，喪其資斧，貞凶。' },
+    ],
+  },
+  58: {
+    name: '兌',
+    meaning: '湖，快樂，歡樂',
+    judgment: '亨，利貞。',
+    image: '澤澤相連，兌。君子以朋友講習。',
+    lines: [
+      { position: 1, text: '和兌，吉。' },
+      { position: 2, text: '孚兌，吉，悔亡。' },
+      { position: 3, text: '來兌，凶。' },
+      { position: 4, text: '商兌未寧，介疾有喜。' },
+      { position: 5, text: '孚于剝，有厲。' },
+      { position: 6, text: '引兌。' },
+    ],
+  },
+  59: {
+    name: '渙',
+    meaning: '分離，溶解，分散',
+    judgment: '亨，王假有廟，利涉大川，利貞。',
+    image: '風行水上，渙。先王以享于帝，立廟。',
+    lines: [
+      { position: 1, text: '用拯馬壯，吉。' },
+      { position: 2, text: '渙奔其机，悔亡。' },
+      { position: 3, text: '渙其躬，無悔。' },
+      { position: 4, text: '渙其群，元吉。渙有丘，匪夷所思。' },
+      { position: 5, text: '渙汗其大號，渙王居，無咎。' },
+      { position: 6, text: '渙其血，去逖出，無咎。' },
+    ],
+  },
+  60: {
+    name: '節',
+    meaning: '限制，界限，自我克制',
+    judgment: '亨。苦節，不可貞。',
+    image: '澤上有水，節。君子以制數度。',
+    lines: [
+      { position: 1, text: '不出戶庭，無咎。' },
+      { position: 2, text: '不出門庭，凶。' },
+      { position: 3, text: '不節若，則嗟若，無咎。' },
+      { position: 4, text: '安節，亨。' },
+      { position: 5, text: '甘節，吉，往有尚。' },
+      { position: 6, text: '苦節，貞凶，悔亡。' },
+    ],
+  },
+  61: {
+    name: '中孚',
+    meaning: '誠意，可信，誠正',
+    judgment: '豚魚，吉。利涉大川，利貞。',
+    image: '風澤中孚，中孚。君子以議獄緩死。',
+    lines: [
+      { position: 1, text: '虞吉，有它不燕。' },
+      { position: 2, text: '鳴鶴在陰，其子和之。我有好爵，吾與爾靡之。' },
+      { position: 3, text: '得敵，或鼓或罷，或泣或歌。' },
+      { position: 4, text: '月幾望，馬匹亡，無咎。' },
+      { position: 5, text: '有孚攣如，無咎。' },
+      { position: 6, text: '翰音登于天，貞凶。' },
+    ],
+  },
+  62: {
+    name: '小過',
+    meaning: '小心謹慎過度，瑣碎細節',
+    judgment: '亨，利貞。可小事，不可大事。飛鳥遺之音，不宜上，宜下，大吉。',
+    image: '雷山小過，小過。君子以行過乎恭。',
+    lines: [
+      { position: 1, text: '飛鳥以凶。' },
+      { position: 2, text: '過其祖，遇其妣；不及其君，遇其臣；無咎。' },
+      { position: 3, text: '弗過防之，從或戕之，凶。' },
+      { position: 4, text: '無咎，弗過遇之。往厲必戒，勿用永貞。' },
+      { position: 5, text: '密雲不雨，自我西郊，公弋取彼在穴。' },
+      { position: 6, text: '弗遇過之，飛鳥離之，凶，是謂災眚。' },
+    ],
+  },
+  63: {
+    name: '既濟',
+    meaning: '完成，成就，渡過危機',
+    judgment: '亨小，利貞，初吉終亂。',
+    image: '水在火上，既濟。君子以思患而預防之。',
+    lines: [
+      { position: 1, text: '曳其輪，濡其尾，無咎。' },
+      { position: 2, text: '婦喪其茀，勿逐，七日得。' },
+      { position: 3, text: '高宗伐鬼方，三年克之，小人勿用。' },
+      { position: 4, text: '繻有衣袽，終日戒。' },
+      { position: 5, text: '東鄰殺牛，不如西鄰之禴祭，實受其福。' },
+      { position: 6, text: '濡其首，厲。' },
+    ],
+  },
+  64: {
+    name: '未濟',
+    meaning: '未完成，過渡，進行中的工作',
+    judgment: '亨，小狐汔濟，濡其尾，無攸利。',
+    image: '火在水上，未濟。君子以愼辨物居方。',
+    lines: [
+      { position: 1, text: '濡其尾，吝。' },
+      { position: 2, text: '曳其輪，貞吉。' },
+      { position: 3, text: '未濟，征凶，利涉大川。' },
+      { position: 4, text: '貞吉，悔亡，震用伐鬼方，三年有賞于大國。' },
+      { position: 5, text: '貞吉，無悔，君子之光，有孚，吉。' },
+      { position: 6, text: '有孚于飲酒，無咎，濡其首，有孚失是。' },
+    ],
+  },
+};
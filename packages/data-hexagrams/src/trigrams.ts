@@ -0,0 +1,193 @@
+/**
+ * The Eight Trigrams (八卦)
+ *
+ * Sources (Public Domain):
+ * - Shuo Gua 說卦 (Discussion of the Trigrams, Ten Wings)
+ * - Wilhelm-Baynes Translation (Public Domain since 2020)
+ *
+ * Family members, attributes and images follow the Shuo Gua.
+ * Directions are given for both the Earlier Heaven (Fu Xi) and
+ * Later Heaven (King Wen) arrangements; the Later Heaven numbers
+ * are the Lo Shu square numbers.
+ */
+
+import { Trigram, TrigramId, TrigramTranslation } from './types';
+
+export const trigrams: Record<TrigramId, Trigram> = {
+  heaven: {
+    id: 'heaven',
+    symbol: '☰',
+    chinese: '乾',
+    pinyin: 'qián',
+    binary: '111',
+    family: 'father',
+    element: 'metal',
+    earlierHeaven: { direction: 'S', number: 1 },
+    laterHeaven: { direction: 'NW', number: 6 },
+    translations: {
+      en: { name: 'The Creative', attribute: 'Strong', image: 'Heaven', family: 'Father' },
+      es: { name: 'Lo Creativo', attribute: 'Fuerte', image: 'Cielo', family: 'Padre' },
+      zh: { name: '乾', attribute: '健', image: '天', family: '父' },
+      fr: { name: 'Le Créateur', attribute: 'Fort', image: 'Ciel', family: 'Père' },
+      de: { name: 'Das Schöpferische', attribute: 'Stark', image: 'Himmel', family: 'Vater' },
+      pt: { name: 'O Criativo', attribute: 'Forte', image: 'Céu', family: 'Pai' },
+    },
+  },
+  lake: {
+    id: 'lake',
+    symbol: '☱',
+    chinese: '兌',
+    pinyin: 'duì',
+    binary: '110',
+    family: 'youngest-daughter',
+    element: 'metal',
+    earlierHeaven: { direction: 'SE', number: 2 },
+    laterHeaven: { direction: 'W', number: 7 },
+    translations: {
+      en: { name: 'The Joyous', attribute: 'Joyful', image: 'Lake', family: 'Youngest daughter' },
+      es: { name: 'Lo Sereno', attribute: 'Alegre', image: 'Lago', family: 'Hija menor' },
+      zh: { name: '兌', attribute: '說', image: '澤', family: '少女' },
+      fr: { name: 'Le Serein', attribute: 'Joyeux', image: 'Lac', family: 'Fille cadette' },
+      de: { name: 'Das Heitere', attribute: 'Fröhlich', image: 'See', family: 'Jüngste Tochter' },
+      pt: { name: 'A Alegria', attribute: 'Alegre', image: 'Lago', family: 'Filha mais nova' },
+    },
+  },
+  fire: {
+    id: 'fire',
+    symbol: '☲',
+    chinese: '離',
+    pinyin: 'lí',
+    binary: '101',
+    family: 'middle-daughter',
+    element: 'fire',
+    earlierHeaven: { direction: 'E', number: 3 },
+    laterHeaven: { direction: 'S', number: 9 },
+    translations: {
+      en: { name: 'The Clinging', attribute: 'Light-giving', image: 'Fire', family: 'Middle daughter' },
+      es: { name: 'Lo Adherente', attribute: 'Luminoso', image: 'Fuego', family: 'Hija mediana' },
+      zh: { name: '離', attribute: '麗', image: '火', family: '中女' },
+      fr: { name: 'Ce qui s\'attache', attribute: 'Lumineux', image: 'Feu', family: 'Fille puînée' },
+      de: { name: 'Das Haftende', attribute: 'Leuchtend', image: 'Feuer', family: 'Mittlere Tochter' },
+      pt: { name: 'O Aderir', attribute: 'Luminoso', image: 'Fogo', family: 'Filha do meio' },
+    },
+  },
+  thunder: {
+    id: 'thunder',
+    symbol: '☳',
+    chinese: '震',
+    pinyin: 'zhèn',
+    binary: '100',
+    family: 'eldest-son',
+    element: 'wood',
+    earlierHeaven: { direction: 'NE', number: 4 },
+    laterHeaven: { direction: 'E', number: 3 },
+    translations: {
+      en: { name: 'The Arousing', attribute: 'Inciting movement', image: 'Thunder', family: 'Eldest son' },
+      es: { name: 'Lo Suscitativo', attribute: 'Movilizador', image: 'Trueno', family: 'Hijo mayor' },
+      zh: { name: '震', attribute: '動', image: '雷', family: '長男' },
+      fr: { name: 'L\'Éveilleur', attribute: 'Mouvement', image: 'Tonnerre', family: 'Fils aîné' },
+      de: { name: 'Das Erregende', attribute: 'Bewegend', image: 'Donner', family: 'Ältester Sohn' },
+      pt: { name: 'O Incitar', attribute: 'Movimento', image: 'Trovão', family: 'Filho mais velho' },
+    },
+  },
+  wind: {
+    id: 'wind',
+    symbol: '☴',
+    chinese: '巽',
+    pinyin: 'xùn',
+    binary: '011',
+    family: 'eldest-daughter',
+    element: 'wood',
+    earlierHeaven: { direction: 'SW', number: 5 },
+    laterHeaven: { direction: 'SE', number: 4 },
+    translations: {
+      en: { name: 'The Gentle', attribute: 'Penetrating', image: 'Wind, wood', family: 'Eldest daughter' },
+      es: { name: 'Lo Suave', attribute: 'Penetrante', image: 'Viento, madera', family: 'Hija mayor' },
+      zh: { name: '巽', attribute: '入', image: '風', family: '長女' },
+      fr: { name: 'Le Doux', attribute: 'Pénétrant', image: 'Vent, bois', family: 'Fille aînée' },
+      de: { name: 'Das Sanfte', attribute: 'Eindringend', image: 'Wind, Holz', family: 'Älteste Tochter' },
+      pt: { name: 'A Suavidade', attribute: 'Penetrante', image: 'Vento, madeira', family: 'Filha mais velha' },
+    },
+  },
+  water: {
+    id: 'water',
+    symbol: '☵',
+    chinese: '坎',
+    pinyin: 'kǎn',
+    binary: '010',
+    family: 'middle-son',
+    element: 'water',
+    earlierHeaven: { direction: 'W', number: 6 },
+    laterHeaven: { direction: 'N', number: 1 },
+    translations: {
+      en: { name: 'The Abysmal', attribute: 'Dangerous', image: 'Water', family: 'Middle son' },
+      es: { name: 'Lo Abismal', attribute: 'Peligroso', image: 'Agua', family: 'Hijo mediano' },
+      zh: { name: '坎', attribute: '陷', image: '水', family: '中男' },
+      fr: { name: 'L\'Insondable', attribute: 'Dangereux', image: 'Eau', family: 'Fils puîné' },
+      de: { name: 'Das Abgründige', attribute: 'Gefährlich', image: 'Wasser', family: 'Mittlerer Sohn' },
+      pt: { name: 'O Abismal', attribute: 'Perigoso', image: 'Água', family: 'Filho do meio' },
+    },
+  },
+  mountain: {
+    id: 'mountain',
+    symbol: '☶',
+    chinese: '艮',
+    pinyin: 'gèn',
+    binary: '001',
+    family: 'youngest-son',
+    element: 'earth',
+    earlierHeaven: { direction: 'NW', number: 7 },
+    laterHeaven: { direction: 'NE', number: 8 },
+    translations: {
+      en: { name: 'Keeping Still', attribute: 'Resting', image: 'Mountain', family: 'Youngest son' },
+      es: { name: 'El Aquietamiento', attribute: 'Quieto', image: 'Montaña', family: 'Hijo menor' },
+      zh: { name: '艮', attribute: '止', image: '山', family: '少男' },
+      fr: { name: 'L\'Immobilisation', attribute: 'Arrêt', image: 'Montagne', family: 'Fils cadet' },
+      de: { name: 'Das Stillehalten', attribute: 'Ruhend', image: 'Berg', family: 'Jüngster Sohn' },
+      pt: { name: 'A Quietude', attribute: 'Repouso', image: 'Montanha', family: 'Filho mais novo' },
+    },
+  },
+  earth: {
+    id: 'earth',
+    symbol: '☷',
+    chinese: '坤',
+    pinyin: 'kūn',
+    binary: '000',
+    family: 'mother',
+    element: 'earth',
+    earlierHeaven: { direction: 'N', number: 8 },
+    laterHeaven: { direction: 'SW', number: 2 },
+    translations: {
+      en: { name: 'The Receptive', attribute: 'Devoted, yielding', image: 'Earth', family: 'Mother' },
+      es: { name: 'Lo Receptivo', attribute: 'Abnegado, dócil', image: 'Tierra', family: 'Madre' },
+      zh: { name: '坤', attribute: '順', image: '地', family: '母' },
+      fr: { name: 'Le Réceptif', attribute: 'Dévoué', image: 'Terre', family: 'Mère' },
+      de: { name: 'Das Empfangende', attribute: 'Hingebend', image: 'Erde', family: 'Mutter' },
+      pt: { name: 'O Receptivo', attribute: 'Devotado', image: 'Terra', family: 'Mãe' },
+    },
+  },
+};
+
+/**
+ * Trigram order of the Earlier Heaven sequence (乾一 兌二 離三 震四 巽五 坎六 艮七 坤八)
+ */
+export const trigramOrder: TrigramId[] = [
+  'heaven', 'lake', 'fire', 'thunder', 'wind', 'water', 'mountain', 'earth',
+];
+
+export function isTrigramId(value: unknown): value is TrigramId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(trigrams, value);
+}
+
+export function getTrigram(id: TrigramId): Trigram {
+  return trigrams[id];
+}
+
+/**
+ * Gets a trigram translation, falling back to English
+ */
+export function getTrigramTranslation(id: TrigramId, lang: string): TrigramTranslation | undefined {
+  const trigram = trigrams[id];
+  if (!trigram) return undefined;
+  return trigram.translations[lang] || trigram.translations.en;
+}
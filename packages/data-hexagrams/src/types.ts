@@ -6,26 +6,94 @@
  * - Zhouyi 周易 (Classical Chinese, Public Domain)
  */
 
-export type TranslationSource = 'wilhelm' | 'legge' | 'zhouyi';
+import type { TranslationSourceId } from '@iching-kt/core';
+
+/** Translation source of hexagram texts (see TRANSLATION_SOURCES in core) */
+export type TranslationSource = TranslationSourceId;
+
+/** Line position counted from the bottom of the hexagram (1 = bottom, 6 = top) */
+export type LinePosition = 1 | 2 | 3 | 4 | 5 | 6;
+
+/** A single line statement (爻辭) */
+export interface HexagramLine {
+  position: LinePosition;
+  text: string;
+}
 
 export interface HexagramTranslation {
   name: string;
   meaning: string;
   judgment: string;
   image: string;
+  /** Line statements ordered from bottom (position 1) to top (position 6) */
+  lines: HexagramLine[];
+  /** Extra statement for when all six lines are moving (用九/用六, hexagrams 1 and 2 only) */
+  allMoving?: string;
 }
 
 export type TrigramId = 'heaven' | 'earth' | 'thunder' | 'water' | 'mountain' | 'wind' | 'fire' | 'lake';
 
-export interface Hexagram {
+export type TrigramFamilyMember =
+  | 'father' | 'mother'
+  | 'eldest-son' | 'middle-son' | 'youngest-son'
+  | 'eldest-daughter' | 'middle-daughter' | 'youngest-daughter';
+
+/** Five phases (五行) */
+export type WuXingElement = 'wood' | 'fire' | 'earth' | 'metal' | 'water';
+
+export type CompassDirection = 'N' | 'NE' | 'E' | 'SE' | 'S' | 'SW' | 'W' | 'NW';
+
+/** Place of a trigram in one of the two Bagua arrangements */
+export interface TrigramPosition {
+  direction: CompassDirection;
+  /** Earlier Heaven: Fu Xi order number (1-8); Later Heaven: Lo Shu number (1-9, no 5) */
+  number: number;
+}
+
+export interface TrigramTranslation {
+  name: string;
+  attribute: string;
+  image: string;
+  family: string;
+}
+
+export interface Trigram {
+  id: TrigramId;
+  symbol: string;
+  chinese: string;
+  pinyin: string;
+  /** Three lines as '1' (yang) / '0' (yin), index 0 = bottom line */
+  binary: string;
+  family: TrigramFamilyMember;
+  element: WuXingElement;
+  /** Earlier Heaven arrangement (先天八卦, Fu Xi) */
+  earlierHeaven: TrigramPosition;
+  /** Later Heaven arrangement (後天八卦, King Wen), the usual compass direction */
+  laterHeaven: TrigramPosition;
+  /** Translations by language code ('en', 'es', 'zh', 'fr', 'de', 'pt') */
+  translations: Record<string, TrigramTranslation>;
+}
+
+/** The always-loaded part of a hexagram; translations are loaded per key */
+export interface HexagramRecord {
   number: number;
   chinese: string;
   pinyin: string;
   unicode: string;
+  /**
+   * Six lines as '1' (yang) / '0' (yin), bottom line first: index 0 is
+   * the bottom line, so the lower trigram's binary comes first (水雷屯,
+   * hexagram 3, is '100010'). Strings stored top line first before the
+   * casting engine was added must be reversed.
+   */
   binary: string;
   upperTrigram: TrigramId;
   lowerTrigram: TrigramId;
-  /** Translations by language-source key (e.g., 'en-wilhelm', 'en-legge', 'es-wilhelm', 'es-legge', 'zh-zhouyi') */
+}
+
+/** A hexagram record with its translations assembled (see getHexagramsWithTranslations) */
+export interface Hexagram extends HexagramRecord {
+  /** Translations by language-source key (e.g., 'en-wilhelm', 'en-legge', 'es-wilhelm', 'es-legge', 'zh-zhouyi', 'fr-wilhelm', 'de-wilhelm', 'pt-wilhelm') */
   translations: Record<string, HexagramTranslation>;
 }
 
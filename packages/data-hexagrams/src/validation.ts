@@ -0,0 +1,249 @@
+/**
+ * Hexagram Data Validation
+ *
+ * Checks the hexagram and trigram literals for problems a type checker
+ * cannot see:
+ * - Key coverage: every hexagram has every TRANSLATION_KEYS entry, each
+ *   with six line statements (plus 用九/用六 for hexagrams 1 and 2), and
+ *   no other keys
+ * - `binary` made of the lower trigram's lines followed by the upper's
+ * - `unicode` a single, unique code point in U+4DC0–U+4DFF, in King Wen order
+ * - Trigram binaries three lines long and distinct from one another
+ * - The classical (zh-zhouyi) name matching `chinese`
+ * - Attribution metadata for every expected key
+ * - Encoding damage (mojibake, replacement characters, unnormalized text)
+ *   and words missing their diacritics
+ *
+ * Problems come back as a report rather than thrown, so tests can assert
+ * on it and tools can print every problem at once.
+ */
+
+import { TranslationMetadata } from '@iching-kt/core';
+import { TRANSLATION_METADATA } from './attribution';
+import { getHexagramsWithTranslations, TRANSLATION_KEYS } from './hexagrams';
+import { trigrams as defaultTrigrams } from './trigrams';
+import { Hexagram, HexagramTranslation, Trigram, TrigramId } from './types';
+
+export type HexagramDataIssueKind =
+  | 'missing-translation'
+  | 'unexpected-translation'
+  | 'incomplete-translation'
+  | 'trigram-mismatch'
+  | 'invalid-binary'
+  | 'invalid-unicode'
+  | 'duplicate-unicode'
+  | 'name-mismatch'
+  | 'missing-attribution'
+  | 'encoding'
+  | 'missing-diacritic';
+
+export interface HexagramDataIssue {
+  kind: HexagramDataIssueKind;
+  /** Hexagram number, when the issue belongs to a hexagram */
+  hexagram?: number;
+  /** Trigram id, when the issue belongs to a trigram */
+  trigram?: TrigramId;
+  /** Translation key ('es-zhouyi') or trigram translation language ('es') */
+  key?: string;
+  /** Field within the translation, e.g. 'image' or 'lines.3' */
+  field?: string;
+  message: string;
+}
+
+export interface HexagramDataReport {
+  valid: boolean;
+  issues: HexagramDataIssue[];
+  /** How many hexagrams carry each expected translation key */
+  coverage: Record<string, number>;
+}
+
+export interface HexagramDataSource {
+  /** Hexagrams with translations (default: every shipped chunk, assembled) */
+  hexagrams?: Record<number, Hexagram>;
+  trigrams?: Record<TrigramId, Trigram>;
+  /** Translation keys every hexagram must carry (default: TRANSLATION_KEYS) */
+  keys?: readonly string[];
+  /** Attribution by translation key (default: TRANSLATION_METADATA) */
+  metadata?: Record<string, TranslationMetadata>;
+}
+
+const UNICODE_FIRST = 0x4dc0;
+const UNICODE_LAST = 0x4dff;
+
+/** UTF-8 read as Latin-1 / Windows-1252, and the replacement character */
+const ENCODING_DAMAGE =
+  /[ÃÂ][\u0080-\u00bf\u0152\u0153\u0160\u0161\u0178\u017d\u017e\u0192\u02c6\u02dc\u2013\u2014\u2018-\u201e\u2020-\u2022\u2026\u2030\u2039\u203a\u20ac\u2122]|â€|\ufffd/;
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b-\u001f\u007f]/;
+
+/**
+ * Words that only exist with a diacritic, by language. Matched whole-word
+ * and case-insensitively; ambiguous pairs (si/sí, mas/más) are left out.
+ */
+const MISSING_DIACRITICS: Record<string, RegExp[]> = {
+  es: [
+    /(?<![a-zà-öø-ÿ])[a-zà-öø-ÿ]*[cs]ion(?![a-zà-öø-ÿ])/i,
+    /(?<![a-zà-öø-ÿ])(pequen[oa]s?|montanas?|despues|exito|tambien|ademas|dias?|mediodia|alegria|pajaros?|relampagos?|cantaros?|caliz|crimenes|numeros|ninos?|senor(es)?|companer[oa]s?)(?![a-zà-öø-ÿ])/i,
+  ],
+  pt: [
+    /(?<![a-zà-öø-ÿ])[a-zà-öø-ÿ]+(cao|coes)(?![a-zà-öø-ÿ])/i,
+  ],
+};
+
+function textFields(translation: HexagramTranslation): [string, string][] {
+  return [
+    ['name', translation.name],
+    ['meaning', translation.meaning],
+    ['judgment', translation.judgment],
+    ['image', translation.image],
+    ...translation.lines.map((line): [string, string] => [`lines.${line.position}`, line.text]),
+    ...(translation.allMoving !== undefined ? [['allMoving', translation.allMoving] as [string, string]] : []),
+  ];
+}
+
+function checkText(
+  text: string,
+  language: string,
+  where: Omit<HexagramDataIssue, 'kind' | 'message'>,
+  issues: HexagramDataIssue[]
+): void {
+  if (ENCODING_DAMAGE.test(text) || CONTROL_CHARACTERS.test(text)) {
+    issues.push({ kind: 'encoding', ...where, message: `Damaged characters in "${text}"` });
+  } else if (text.normalize('NFC') !== text) {
+    issues.push({ kind: 'encoding', ...where, message: `Text is not NFC-normalized: "${text}"` });
+  }
+  for (const pattern of MISSING_DIACRITICS[language] ?? []) {
+    const match = text.match(pattern);
+    if (match) {
+      issues.push({ kind: 'missing-diacritic', ...where, message: `"${match[0]}" is missing a diacritic` });
+    }
+  }
+}
+
+function checkTranslation(
+  hex: Hexagram,
+  key: string,
+  translation: HexagramTranslation,
+  issues: HexagramDataIssue[]
+): void {
+  const where = { hexagram: hex.number, key };
+  const positions = translation.lines.map((line) => line.position).join(',');
+  if (positions !== '1,2,3,4,5,6') {
+    issues.push({ kind: 'incomplete-translation', ...where, field: 'lines', message: `Line positions are ${positions || 'empty'}` });
+  }
+  const needsAllMoving = hex.number === 1 || hex.number === 2;
+  if (needsAllMoving !== (translation.allMoving !== undefined)) {
+    issues.push({
+      kind: 'incomplete-translation',
+      ...where,
+      field: 'allMoving',
+      message: needsAllMoving ? 'Missing the all-moving statement' : 'Only hexagrams 1 and 2 have an all-moving statement',
+    });
+  }
+  const language = key.split('-')[0];
+  for (const [field, text] of textFields(translation)) {
+    if (!text.trim()) {
+      issues.push({ kind: 'incomplete-translation', ...where, field, message: `Empty ${field}` });
+      continue;
+    }
+    checkText(text, language, { ...where, field }, issues);
+  }
+}
+
+/**
+ * Validates hexagram and trigram data, by default the data this package ships
+ */
+export function validateHexagramData(source: HexagramDataSource = {}): HexagramDataReport {
+  const keys = source.keys ?? TRANSLATION_KEYS;
+  const hexagrams = source.hexagrams ?? getHexagramsWithTranslations(TRANSLATION_KEYS);
+  const trigrams = source.trigrams ?? defaultTrigrams;
+  const metadata = source.metadata ?? TRANSLATION_METADATA;
+  const issues: HexagramDataIssue[] = [];
+  const coverage: Record<string, number> = Object.fromEntries(keys.map((key) => [key, 0]));
+
+  for (const key of keys) {
+    if (!metadata[key]) {
+      issues.push({ kind: 'missing-attribution', key, message: `No attribution metadata for ${key}` });
+    }
+  }
+
+  const trigramsByBinary = new Map<string, TrigramId>();
+  for (const trigram of Object.values(trigrams)) {
+    if (!/^[01]{3}$/.test(trigram.binary)) {
+      issues.push({ kind: 'invalid-binary', trigram: trigram.id, message: `Trigram binary "${trigram.binary}" is not three lines` });
+    } else if (trigramsByBinary.has(trigram.binary)) {
+      issues.push({
+        kind: 'invalid-binary',
+        trigram: trigram.id,
+        message: `Trigram binary ${trigram.binary} is also used by ${trigramsByBinary.get(trigram.binary)}`,
+      });
+    } else {
+      trigramsByBinary.set(trigram.binary, trigram.id);
+    }
+    for (const [language, translation] of Object.entries(trigram.translations)) {
+      for (const field of ['name', 'attribute', 'image', 'family'] as const) {
+        checkText(translation[field], language, { trigram: trigram.id, key: language, field }, issues);
+      }
+    }
+  }
+
+  const hexagramsByCodePoint = new Map<number, number>();
+  for (const hex of Object.values(hexagrams)) {
+    const where = { hexagram: hex.number };
+
+    for (const key of keys) {
+      if (hex.translations[key]) coverage[key]++;
+      else issues.push({ kind: 'missing-translation', ...where, key, message: `Missing translation ${key}` });
+    }
+    for (const [key, translation] of Object.entries(hex.translations)) {
+      if (!keys.includes(key)) {
+        issues.push({ kind: 'unexpected-translation', ...where, key, message: `Unexpected translation key ${key}` });
+      }
+      checkTranslation(hex, key, translation, issues);
+    }
+
+    if (!/^[01]{6}$/.test(hex.binary)) {
+      issues.push({ kind: 'invalid-binary', ...where, message: `Binary "${hex.binary}" is not six lines` });
+    } else {
+      const lower = trigrams[hex.lowerTrigram];
+      const upper = trigrams[hex.upperTrigram];
+      if (!lower || !upper || hex.binary !== lower.binary + upper.binary) {
+        issues.push({
+          kind: 'trigram-mismatch',
+          ...where,
+          message: `Binary ${hex.binary} is ${trigramsByBinary.get(hex.binary.slice(0, 3))} below ` +
+            `${trigramsByBinary.get(hex.binary.slice(3))}, not ${hex.lowerTrigram} below ${hex.upperTrigram}`,
+        });
+      }
+    }
+
+    const codePoints = Array.from(hex.unicode);
+    const codePoint = hex.unicode.codePointAt(0) ?? 0;
+    if (codePoints.length !== 1 || codePoint < UNICODE_FIRST || codePoint > UNICODE_LAST) {
+      issues.push({ kind: 'invalid-unicode', ...where, message: `"${hex.unicode}" is not one character in U+4DC0–U+4DFF` });
+    } else if (hexagramsByCodePoint.has(codePoint)) {
+      issues.push({
+        kind: 'duplicate-unicode',
+        ...where,
+        message: `${hex.unicode} is also used by hexagram ${hexagramsByCodePoint.get(codePoint)}`,
+      });
+    } else {
+      hexagramsByCodePoint.set(codePoint, hex.number);
+      if (codePoint !== UNICODE_FIRST + hex.number - 1) {
+        issues.push({ kind: 'invalid-unicode', ...where, message: `${hex.unicode} is the symbol for hexagram ${codePoint - UNICODE_FIRST + 1}` });
+      }
+    }
+
+    const classical = hex.translations['zh-zhouyi'];
+    if (classical && classical.name !== hex.chinese) {
+      issues.push({
+        kind: 'name-mismatch',
+        ...where,
+        key: 'zh-zhouyi',
+        field: 'name',
+        message: `Classical name ${classical.name} differs from ${hex.chinese}`,
+      });
+    }
+  }
+
+  return { valid: issues.length === 0, issues, coverage };
+}
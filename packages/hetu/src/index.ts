@@ -1,5 +1,5 @@
 import { Knowlet } from '@iching-kt/core';
-import { HeTuView } from '@iching-kt/square';
+import { HeTuView, squareMessages } from '@iching-kt/square';
 
 export const hetuKnowlet: Knowlet = {
   meta: {
@@ -9,19 +9,26 @@ export const hetuKnowlet: Knowlet = {
       en: 'He Tu Diagram',
       es: 'Diagrama He Tu',
       zh: '河圖',
+      fr: 'Diagramme He Tu',
+      de: 'He-Tu-Diagramm',
+      pt: 'Diagrama He Tu',
     },
     description: 'The River Map showing the five elemental cycles',
     descriptions: {
       en: 'The River Map showing the five elemental cycles',
       es: 'El Mapa del Río que muestra los cinco ciclos elementales',
       zh: '顯示五個元素週期的河圖',
+      fr: 'La Carte du Fleuve montrant les cinq cycles élémentaires',
+      de: 'Der Flussplan mit den fünf Wandlungszyklen',
+      pt: 'O Mapa do Rio que mostra os cinco ciclos elementares',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram', 'trigram', 'time'],
     produces: ['hexagram', 'trigram'],
     category: 'board',
   },
+  messages: squareMessages,
   View: HeTuView,
 };
 
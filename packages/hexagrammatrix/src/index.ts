@@ -1,5 +1,5 @@
 import { Knowlet } from '@iching-kt/core';
-import { HexagramMatrixView } from '@iching-kt/square';
+import { HexagramMatrixView, matrixSequenceSetting, squareMessages } from '@iching-kt/square';
 
 export const hexagramMatrixKnowlet: Knowlet = {
   meta: {
@@ -9,19 +9,29 @@ export const hexagramMatrixKnowlet: Knowlet = {
       en: 'Hexagram Matrix',
       es: 'Matriz de Hexagramas',
       zh: '卦象矩陣',
+      fr: 'Matrice des hexagrammes',
+      de: 'Hexagramm-Matrix',
+      pt: 'Matriz de Hexagramas',
     },
     description: 'The 8x8 matrix of all 64 hexagrams',
     descriptions: {
       en: 'The 8x8 matrix of all 64 hexagrams',
       es: 'La matriz 8x8 de los 64 hexagramas',
       zh: '所有64個卦象的8×8矩陣',
+      fr: 'La matrice 8x8 des 64 hexagrammes',
+      de: 'Die 8x8-Matrix aller 64 Hexagramme',
+      pt: 'A matriz 8x8 dos 64 hexagramas',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram', 'trigram', 'time'],
     produces: ['hexagram', 'trigram'],
     category: 'board',
   },
+  settingsSchema: {
+    matrixSequence: matrixSequenceSetting,
+  },
+  messages: squareMessages,
   View: HexagramMatrixView,
 };
 
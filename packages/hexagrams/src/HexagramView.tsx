@@ -1,51 +1,62 @@
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors, getTranslationSourceForLanguage } from '@iching-kt/core';
-import { getHexagram, getHexagramTranslationBySource, TranslationSource } from '@iching-kt/data-hexagrams';
+import {
+  KnowletContext,
+  ActionableElement,
+  getThemeColors,
+  getTranslationLanguage,
+  getTranslationSourceForLanguage,
+  useTranslation,
+} from '@iching-kt/core';
+import {
+  formatAttribution,
+  getHexagram,
+  getHexagramAttribution,
+  getHexagramTranslationBySource,
+  getTrigram,
+  getTrigramTranslation,
+  TrigramId,
+} from '@iching-kt/data-hexagrams';
+import { hexagramsMessages } from './messages';
 
 interface Props {
   context: KnowletContext;
 }
 
-const TRIGRAM_SYMBOLS: Record<string, string> = {
-  heaven: '☰', lake: '☱', fire: '☲', thunder: '☳',
-  wind: '☴', water: '☵', mountain: '☶', earth: '☷',
-};
-
 export function HexagramView({ context }: Props) {
-  // Get hexagram number from inputData (passed from another knowlet)
+  const t = useTranslation(context, hexagramsMessages);
+
+  // Get hexagram number from inputData (passed from another knowlet, validated when routed)
   const hexagramNumber = context.inputData?.type === 'hexagram'
-    ? (context.inputData.value as number)
+    ? context.inputData.value
     : 1; // Default to hexagram 1
 
   // Get translation source from user preferences (with defaults)
-  const translationSource = getTranslationSourceForLanguage(
-    context.language,
-    context.translationPreferences
-  ) as TranslationSource;
+  const translationSource = getTranslationSourceForLanguage(context.language, context.translationPreferences);
 
   const colors = getThemeColors(context.colorScheme);
   const hexagram = getHexagram(hexagramNumber);
-  const translation = getHexagramTranslationBySource(
-    hexagramNumber,
-    context.language,
-    translationSource
-  );
+  const translationLanguage = getTranslationLanguage(context.language);
+  const translation = getHexagramTranslationBySource(hexagramNumber, translationLanguage, translationSource);
+  const attribution = getHexagramAttribution(hexagramNumber, translationLanguage, translationSource);
 
   if (!hexagram || !translation) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
         <Text style={[styles.error, { color: colors.textSecondary }]}>
-          {context.language === 'es' ? 'Hexagrama no encontrado' : 'Hexagram not found'}
+          {t('notFound')}
         </Text>
       </View>
     );
   }
 
-  const handleTrigramPress = (trigramId: string) => {
+  const getTrigramName = (trigramId: TrigramId) =>
+    getTrigramTranslation(trigramId, context.language)?.name ?? trigramId;
+
+  const handleTrigramPress = (trigramId: TrigramId) => {
     context.emitOutput('trigram', trigramId);
   };
 
-  const handleTrigramLongPress = (trigramId: string) => {
+  const handleTrigramLongPress = (trigramId: TrigramId) => {
     context.showKnowletSelector('trigram', trigramId);
   };
 
@@ -59,9 +70,11 @@ export function HexagramView({ context }: Props) {
 
       <Text style={[styles.number, { color: colors.textTertiary }]}>#{hexagram.number}</Text>
       <Text style={[styles.name, { color: colors.text }]}>{translation.name}</Text>
-      <Text style={[styles.translationSource, { color: colors.textTertiary }]}>
-        {translationSource === 'zhouyi' ? '周易 Zhouyi' : translationSource === 'legge' ? 'James Legge (1882)' : 'Wilhelm-Baynes (1950)'}
-      </Text>
+      {attribution && (
+        <Text style={[styles.translationSource, { color: colors.textTertiary }]}>
+          {formatAttribution(attribution)}
+        </Text>
+      )}
       <Text style={[styles.meaning, { color: colors.textSecondary }]}>{translation.meaning}</Text>
 
       {/* Actionable trigrams */}
@@ -69,7 +82,7 @@ export function HexagramView({ context }: Props) {
         <ActionableElement
           outputType="trigram"
           value={hexagram.upperTrigram}
-          label={`Upper trigram: ${hexagram.upperTrigram}`}
+          label={t('upperTrigram', { trigram: getTrigramName(hexagram.upperTrigram) })}
           onPress={() => handleTrigramPress(hexagram.upperTrigram)}
           onLongPress={() => handleTrigramLongPress(hexagram.upperTrigram)}
           isActive={false}
@@ -77,16 +90,16 @@ export function HexagramView({ context }: Props) {
           style={styles.trigramBox}
         >
           <Text style={[styles.trigramLabel, { color: colors.textTertiary }]}>
-            {context.language === 'es' ? 'Superior' : 'Upper'}
+            {t('upper')}
           </Text>
-          <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[hexagram.upperTrigram]}</Text>
-          <Text style={[styles.trigramValue, { color: colors.text }]}>{hexagram.upperTrigram}</Text>
+          <Text style={[styles.trigramSymbol, { color: colors.text }]}>{getTrigram(hexagram.upperTrigram).symbol}</Text>
+          <Text style={[styles.trigramValue, { color: colors.text }]}>{getTrigramName(hexagram.upperTrigram)}</Text>
         </ActionableElement>
 
         <ActionableElement
           outputType="trigram"
           value={hexagram.lowerTrigram}
-          label={`Lower trigram: ${hexagram.lowerTrigram}`}
+          label={t('lowerTrigram', { trigram: getTrigramName(hexagram.lowerTrigram) })}
           onPress={() => handleTrigramPress(hexagram.lowerTrigram)}
           onLongPress={() => handleTrigramLongPress(hexagram.lowerTrigram)}
           isActive={false}
@@ -94,29 +107,29 @@ export function HexagramView({ context }: Props) {
           style={styles.trigramBox}
         >
           <Text style={[styles.trigramLabel, { color: colors.textTertiary }]}>
-            {context.language === 'es' ? 'Inferior' : 'Lower'}
+            {t('lower')}
           </Text>
-          <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[hexagram.lowerTrigram]}</Text>
-          <Text style={[styles.trigramValue, { color: colors.text }]}>{hexagram.lowerTrigram}</Text>
+          <Text style={[styles.trigramSymbol, { color: colors.text }]}>{getTrigram(hexagram.lowerTrigram).symbol}</Text>
+          <Text style={[styles.trigramValue, { color: colors.text }]}>{getTrigramName(hexagram.lowerTrigram)}</Text>
         </ActionableElement>
       </View>
 
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>
-          {context.language === 'es' ? 'El Dictamen' : 'The Judgment'}
+          {t('judgment')}
         </Text>
         <Text style={[styles.sectionText, { color: colors.text }]}>{translation.judgment}</Text>
       </View>
 
       <View style={styles.section}>
         <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>
-          {context.language === 'es' ? 'La Imagen' : 'The Image'}
+          {t('image')}
         </Text>
         <Text style={[styles.sectionText, { color: colors.text }]}>{translation.image}</Text>
       </View>
 
       <View style={[styles.binarySection, { borderTopColor: colors.border }]}>
-        <Text style={[styles.binaryLabel, { color: colors.textTertiary }]}>Binary</Text>
+        <Text style={[styles.binaryLabel, { color: colors.textTertiary }]}>{t('binary')}</Text>
         <Text style={[styles.binaryValue, { color: colors.text }]}>{hexagram.binary}</Text>
       </View>
     </ScrollView>
@@ -1,5 +1,6 @@
 import { Knowlet } from '@iching-kt/core';
 import { HexagramView } from './HexagramView';
+import { hexagramsMessages } from './messages';
 
 /**
  * Hexagrams Knowlet
@@ -8,6 +9,10 @@ import { HexagramView } from './HexagramView';
  * - Chinese (zh): Original 周易 text (untranslated)
  * - English (en): Wilhelm-Baynes or Legge (untranslated, direct from source)
  * - Spanish (es): Claude translations at build time from Chinese/Legge/Wilhelm
+ * - French, German, Portuguese (fr, de, pt): Claude translations from Wilhelm
+ *
+ * The credit line under the name comes from the translation's attribution
+ * metadata (see getHexagramAttribution in @iching-kt/data-hexagrams).
  */
 export const hexagramsKnowlet: Knowlet = {
   meta: {
@@ -17,21 +22,28 @@ export const hexagramsKnowlet: Knowlet = {
       en: 'Hexagram Details',
       es: 'Detalles del Hexagrama',
       zh: '卦象詳情',
+      fr: 'Détails de l\'hexagramme',
+      de: 'Hexagramm-Details',
+      pt: 'Detalhes do Hexagrama',
     },
     description: 'View detailed information about a hexagram',
     descriptions: {
       en: 'View detailed information about a hexagram',
       es: 'Ver información detallada sobre un hexagrama',
       zh: '查看卦象的詳細信息',
+      fr: 'Afficher les informations détaillées d\'un hexagramme',
+      de: 'Ausführliche Informationen zu einem Hexagramm anzeigen',
+      pt: 'Ver informações detalhadas sobre um hexagrama',
     },
     requiredProviders: [],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram'],
     produces: ['trigram'],
     category: 'board',
   },
   // No settingsSchema - source selection is in General Settings > Translation Sources
+  messages: hexagramsMessages,
   View: HexagramView,
 };
 
-export { HexagramView };
+export { HexagramView, hexagramsMessages };
@@ -0,0 +1,64 @@
+import { MessageCatalogs } from '@iching-kt/core';
+
+export const hexagramsMessages: MessageCatalogs = {
+  en: {
+    notFound: 'Hexagram not found',
+    upper: 'Upper',
+    lower: 'Lower',
+    upperTrigram: 'Upper trigram: {trigram}',
+    lowerTrigram: 'Lower trigram: {trigram}',
+    judgment: 'The Judgment',
+    image: 'The Image',
+    binary: 'Binary',
+  },
+  es: {
+    notFound: 'Hexagrama no encontrado',
+    upper: 'Superior',
+    lower: 'Inferior',
+    upperTrigram: 'Trigrama superior: {trigram}',
+    lowerTrigram: 'Trigrama inferior: {trigram}',
+    judgment: 'El Dictamen',
+    image: 'La Imagen',
+    binary: 'Binario',
+  },
+  zh: {
+    notFound: '找不到此卦',
+    upper: '上卦',
+    lower: '下卦',
+    upperTrigram: '上卦：{trigram}',
+    lowerTrigram: '下卦：{trigram}',
+    judgment: '卦辭',
+    image: '象辭',
+    binary: '二進制',
+  },
+  fr: {
+    notFound: 'Hexagramme introuvable',
+    upper: 'Supérieur',
+    lower: 'Inférieur',
+    upperTrigram: 'Trigramme supérieur : {trigram}',
+    lowerTrigram: 'Trigramme inférieur : {trigram}',
+    judgment: 'Le Jugement',
+    image: 'L\'Image',
+    binary: 'Binaire',
+  },
+  de: {
+    notFound: 'Hexagramm nicht gefunden',
+    upper: 'Oben',
+    lower: 'Unten',
+    upperTrigram: 'Oberes Trigramm: {trigram}',
+    lowerTrigram: 'Unteres Trigramm: {trigram}',
+    judgment: 'Das Urteil',
+    image: 'Das Bild',
+    binary: 'Binär',
+  },
+  pt: {
+    notFound: 'Hexagrama não encontrado',
+    upper: 'Superior',
+    lower: 'Inferior',
+    upperTrigram: 'Trigrama superior: {trigram}',
+    lowerTrigram: 'Trigrama inferior: {trigram}',
+    judgment: 'O Julgamento',
+    image: 'A Imagem',
+    binary: 'Binário',
+  },
+};
@@ -1,7 +1,8 @@
 import { View, Text, StyleSheet } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors } from '@iching-kt/core';
+import { KnowletContext, ActionableElement, getThemeColors, useTranslation } from '@iching-kt/core';
 import { getHexagram, getHexagramTranslationBySource } from '@iching-kt/data-hexagrams';
-import { getTranslationSourceForLanguage } from '@iching-kt/core';
+import { getTranslationLanguage, getTranslationSourceForLanguage } from '@iching-kt/core';
+import { hoursMessages } from './messages';
 
 interface Props {
   context: KnowletContext;
@@ -27,6 +28,7 @@ export function HexagramCard({
   onLongPress,
   style,
 }: Props) {
+  const t = useTranslation(context, hoursMessages);
   const colors = getThemeColors(context.colorScheme);
   const hexagram = getHexagram(hexagramNumber);
 
@@ -37,14 +39,14 @@ export function HexagramCard({
   );
   const translation = getHexagramTranslationBySource(
     hexagramNumber,
-    context.language,
+    getTranslationLanguage(context.language),
     translationSource as any
   );
 
   if (!hexagram || !translation) {
     return (
       <View style={[styles.container, { backgroundColor: colors.surfaceSecondary }]}>
-        <Text style={[styles.error, { color: colors.textSecondary }]}>Hexagram not found</Text>
+        <Text style={[styles.error, { color: colors.textSecondary }]}>{t('hexagramNotFound')}</Text>
       </View>
     );
   }
@@ -53,7 +55,7 @@ export function HexagramCard({
     <ActionableElement
       outputType="hexagram"
       value={hexagramNumber}
-      label={`Hexagram ${hexagram.number}: ${translation.name}`}
+      label={t('hexagramLabel', { number: hexagram.number, name: translation.name })}
       onPress={onPress}
       onLongPress={onLongPress}
       isActive={false}
@@ -1,20 +1,33 @@
 import { View, Text, StyleSheet, ScrollView, Pressable } from 'react-native';
 import { useEffect } from 'react';
 import { BackHandler } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors } from '@iching-kt/core';
-import { getHexagram, getHexagramTranslation } from '@iching-kt/data-hexagrams';
+import {
+  KnowletContext,
+  ActionableElement,
+  getThemeColors,
+  getTranslationLanguage,
+  getTranslationSourceForLanguage,
+  useTranslation,
+} from '@iching-kt/core';
+import {
+  getHexagram,
+  getHexagramTranslationBySource,
+  getInverseHexagram,
+  getOppositeHexagram,
+  getNuclearHexagram,
+  getTrigram,
+  getTrigramTranslation,
+  type TrigramId,
+} from '@iching-kt/data-hexagrams';
+import { hoursMessages } from './messages';
 
 interface Props {
   context: KnowletContext;
   hexagramNumber: number;
 }
 
-const TRIGRAM_SYMBOLS: Record<string, string> = {
-  heaven: '☰', lake: '☱', fire: '☲', thunder: '☳',
-  wind: '☴', water: '☵', mountain: '☶', earth: '☷',
-};
-
 export function HexagramDetailView({ context, hexagramNumber }: Props) {
+  const t = useTranslation(context, hoursMessages);
   const colors = getThemeColors(context.colorScheme);
 
   // Handle Android hardware back button to go back in knowlet history
@@ -32,32 +45,44 @@ export function HexagramDetailView({ context, hexagramNumber }: Props) {
     };
   }, [context]);
   const hexagram = getHexagram(hexagramNumber);
-  const translation = getHexagramTranslation(hexagramNumber, context.language);
+  const translation = getHexagramTranslationBySource(
+    hexagramNumber,
+    getTranslationLanguage(context.language),
+    getTranslationSourceForLanguage(context.language, context.translationPreferences)
+  );
 
   if (!hexagram || !translation) {
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
-        <Text style={[styles.error, { color: colors.textSecondary }]}>Hexagram not found</Text>
+        <Text style={[styles.error, { color: colors.textSecondary }]}>{t('hexagramNotFound')}</Text>
       </View>
     );
   }
 
-  const handleTrigramPress = (trigramId: string) => {
-    // Trigram detail view could be added later
+  const getTrigramName = (trigramId: TrigramId) =>
+    getTrigramTranslation(trigramId, context.language)?.name ?? trigramId;
+
+  const handleTrigramPress = (trigramId: TrigramId) => {
     context.emitOutput('trigram', trigramId);
   };
 
-  const handleTrigramLongPress = (trigramId: string) => {
+  const handleTrigramLongPress = (trigramId: TrigramId) => {
     context.showKnowletSelector('trigram', trigramId);
   };
 
+  const relatedHexagrams = [
+    { key: 'inverse', chinese: '綜', label: t('inverse'), number: getInverseHexagram(hexagram.number) },
+    { key: 'opposite', chinese: '錯', label: t('opposite'), number: getOppositeHexagram(hexagram.number) },
+    { key: 'nuclear', chinese: '互', label: t('nuclear'), number: getNuclearHexagram(hexagram.number) },
+  ];
+
   return (
     <View style={[styles.wrapper, { backgroundColor: colors.background }]}>
       <View style={[styles.header, { backgroundColor: colors.surface, borderBottomColor: colors.border }]}>
-        <Pressable onPress={() => context.popView?.()} style={[styles.backButton, { backgroundColor: colors.surfaceSecondary }]} accessibilityLabel="Go back" accessibilityRole="button">
+        <Pressable onPress={() => context.popView?.()} style={[styles.backButton, { backgroundColor: colors.surfaceSecondary }]} accessibilityLabel={t('goBack')} accessibilityRole="button">
           <Text style={[styles.backIcon, { color: colors.primary }]}>←</Text>
           <Text style={[styles.backButtonText, { color: colors.primary }]}>
-            {context.language === 'es' ? 'Atrás' : 'Back'}
+            {t('back')}
           </Text>
         </Pressable>
         <Text style={[styles.headerTitle, { color: colors.text }]}>#{hexagram.number}</Text>
@@ -78,7 +103,7 @@ export function HexagramDetailView({ context, hexagramNumber }: Props) {
           <ActionableElement
             outputType="trigram"
             value={hexagram.upperTrigram}
-            label={`Upper trigram: ${hexagram.upperTrigram}`}
+            label={t('upperTrigram', { trigram: getTrigramName(hexagram.upperTrigram) })}
             onPress={() => handleTrigramPress(hexagram.upperTrigram)}
             onLongPress={() => handleTrigramLongPress(hexagram.upperTrigram)}
             isActive={false}
@@ -86,16 +111,16 @@ export function HexagramDetailView({ context, hexagramNumber }: Props) {
             style={styles.trigramBox}
           >
             <Text style={[styles.trigramLabel, { color: colors.textTertiary }]}>
-              {context.language === 'es' ? 'Superior' : 'Upper'}
+              {t('upper')}
             </Text>
-            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[hexagram.upperTrigram]}</Text>
-            <Text style={[styles.trigramValue, { color: colors.text }]}>{hexagram.upperTrigram}</Text>
+            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{getTrigram(hexagram.upperTrigram).symbol}</Text>
+            <Text style={[styles.trigramValue, { color: colors.text }]}>{getTrigramName(hexagram.upperTrigram)}</Text>
           </ActionableElement>
 
           <ActionableElement
             outputType="trigram"
             value={hexagram.lowerTrigram}
-            label={`Lower trigram: ${hexagram.lowerTrigram}`}
+            label={t('lowerTrigram', { trigram: getTrigramName(hexagram.lowerTrigram) })}
             onPress={() => handleTrigramPress(hexagram.lowerTrigram)}
             onLongPress={() => handleTrigramLongPress(hexagram.lowerTrigram)}
             isActive={false}
@@ -103,29 +128,60 @@ export function HexagramDetailView({ context, hexagramNumber }: Props) {
             style={styles.trigramBox}
           >
             <Text style={[styles.trigramLabel, { color: colors.textTertiary }]}>
-              {context.language === 'es' ? 'Inferior' : 'Lower'}
+              {t('lower')}
             </Text>
-            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[hexagram.lowerTrigram]}</Text>
-            <Text style={[styles.trigramValue, { color: colors.text }]}>{hexagram.lowerTrigram}</Text>
+            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{getTrigram(hexagram.lowerTrigram).symbol}</Text>
+            <Text style={[styles.trigramValue, { color: colors.text }]}>{getTrigramName(hexagram.lowerTrigram)}</Text>
           </ActionableElement>
         </View>
 
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>
-            {context.language === 'es' ? 'El Dictamen' : 'The Judgment'}
+            {t('judgment')}
           </Text>
           <Text style={[styles.sectionText, { color: colors.text }]}>{translation.judgment}</Text>
         </View>
 
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>
-            {context.language === 'es' ? 'La Imagen' : 'The Image'}
+            {t('image')}
           </Text>
           <Text style={[styles.sectionText, { color: colors.text }]}>{translation.image}</Text>
         </View>
 
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: colors.textTertiary }]}>
+            {t('relatedHexagrams')}
+          </Text>
+          <View style={styles.relatedRow}>
+            {relatedHexagrams.map((related) => {
+              const relatedHexagram = related.number ? getHexagram(related.number) : undefined;
+              if (!relatedHexagram) return null;
+              return (
+                <ActionableElement
+                  key={related.key}
+                  outputType="hexagram"
+                  value={relatedHexagram.number}
+                  label={t('relatedHexagram', { relation: related.label, number: relatedHexagram.number })}
+                  onPress={() => context.pushView('hexagram-detail', { hexagramNumber: relatedHexagram.number })}
+                  onLongPress={() => context.showKnowletSelector('hexagram', relatedHexagram.number)}
+                  isActive={false}
+                  colorScheme={context.colorScheme}
+                  style={styles.relatedBox}
+                >
+                  <Text style={[styles.trigramLabel, { color: colors.textTertiary }]}>
+                    {related.label} {related.chinese}
+                  </Text>
+                  <Text style={[styles.trigramSymbol, { color: colors.text }]}>{relatedHexagram.unicode}</Text>
+                  <Text style={[styles.trigramValue, { color: colors.text }]}>#{relatedHexagram.number}</Text>
+                </ActionableElement>
+              );
+            })}
+          </View>
+        </View>
+
         <View style={[styles.binarySection, { borderTopColor: colors.border }]}>
-          <Text style={[styles.binaryLabel, { color: colors.textTertiary }]}>Binary</Text>
+          <Text style={[styles.binaryLabel, { color: colors.textTertiary }]}>{t('binary')}</Text>
           <Text style={[styles.binaryValue, { color: colors.text }]}>{hexagram.binary}</Text>
         </View>
       </ScrollView>
@@ -234,6 +290,15 @@ const styles = StyleSheet.create({
   section: {
     marginBottom: 24,
   },
+  relatedRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  relatedBox: {
+    alignItems: 'center',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
   sectionTitle: {
     fontSize: 14,
     fontWeight: '600',
@@ -1,11 +1,20 @@
 import { useState } from 'react';
 import { View, Text, Pressable, Animated, StyleSheet, ScrollView } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors, TemporalNavigator, AnimatedProgressBar } from '@iching-kt/core';
-import type { TemporalNavigationState } from '@iching-kt/core';
+import {
+  KnowletContext,
+  ActionableElement,
+  getThemeColors,
+  getAbstractColors,
+  TemporalNavigator,
+  AnimatedProgressBar,
+  useTranslation,
+} from '@iching-kt/core';
+import type { ElementOutput, TemporalNavigationState } from '@iching-kt/core';
 import type { SolarTimeData } from '@iching-kt/provider-solar-time';
 import type { EarthlyBranch } from '@iching-kt/provider-time';
 import { getSovereignHexagram } from '@iching-kt/data-hexagrams';
-import { getTranslation } from './data';
+import { getBranchTranslations } from './data';
+import { hoursMessages } from './messages';
 import { HexagramCard } from './HexagramCard';
 import { SlidingHourHeader } from './SlidingHourHeader';
 
@@ -13,7 +22,7 @@ interface Props {
   context: KnowletContext;
 }
 
-const ELEMENT_KEYS: Record<string, string> = {
+const ELEMENT_KEYS: Record<string, ElementOutput> = {
   Water: 'water', Wood: 'wood', Fire: 'fire', Earth: 'earth', Metal: 'metal',
   Agua: 'water', Madera: 'wood', Fuego: 'fire', Tierra: 'earth',
 };
@@ -52,6 +61,7 @@ function formatTime(totalMinutes: number): string {
  * Calculate civil (clock) time range for a shichen based on solar offset
  * Civil time = Solar time - solarOffsetMinutes
  * (If solar is ahead, civil is behind, so we subtract)
+ * The offset is taken from the wall clock, so it includes any DST shift.
  */
 function getCivilTimeRange(branch: EarthlyBranch, solarOffsetMinutes: number): string {
   const solar = SHICHEN_SOLAR_BOUNDARIES[branch];
@@ -89,15 +99,15 @@ function getBranchProgress(offset: number, currentProgress: number): number {
 export function HoursView({ context }: Props) {
   const [viewingOffset, setViewingOffset] = useState(0);
   const solarTimeData = context.situations['solar-time'] as SolarTimeData | undefined;
-  const t = getTranslation(context.language);
+  const t = useTranslation(context, hoursMessages);
+  const branches = getBranchTranslations(context.language);
   const colors = getThemeColors(context.colorScheme);
   const abstractColors = getAbstractColors(context.colorScheme);
 
   if (!solarTimeData) {
-    const loadingText = context.language === 'zh' ? '載入中...' : context.language === 'es' ? 'Cargando...' : 'Loading...';
     return (
       <View style={[styles.container, { backgroundColor: colors.background }]}>
-        <Text style={[styles.loading, { color: colors.textSecondary }]}>{loadingText}</Text>
+        <Text style={[styles.loading, { color: colors.textSecondary }]}>{t('loading')}</Text>
       </View>
     );
   }
@@ -118,9 +128,9 @@ export function HoursView({ context }: Props) {
   // Render content for a specific hour
   const renderHourContent = (hourData: ReturnType<typeof getHourData>, navigation: TemporalNavigationState) => {
     const { branch, progress, isCurrentHour } = hourData;
-    const info = t.branches[branch];
+    const info = branches[branch];
     const elementKey = ELEMENT_KEYS[info.element] || 'earth';
-    const elementColors = abstractColors.elements[elementKey as keyof typeof abstractColors.elements];
+    const elementColors = abstractColors.elements[elementKey];
     const elementColor = elementColors.activeColor;
 
     const sovereignMapping = getSovereignHexagram(branch);
@@ -160,7 +170,7 @@ export function HoursView({ context }: Props) {
         {/* Sliding header carousel: previous / current / next */}
         <SlidingHourHeader
           branch={branch}
-          getBranchInfo={(b) => t.branches[b]}
+          getBranchInfo={(b) => branches[b]}
           textColor={colors.text}
           textSecondaryColor={colors.textSecondary}
         />
@@ -182,7 +192,12 @@ export function HoursView({ context }: Props) {
           </Pressable>
 
           <Text style={[styles.timeRange, { color: colors.textSecondary }]}>
-            {getCivilTimeRange(branch, solarTimeData.solarOffsetMinutes)}
+            {getCivilTimeRange(
+              branch,
+              // solarOffsetMinutes is from standard time; the wall clock adds DST
+              solarTimeData.solarOffsetMinutes -
+                (solarTimeData.utcOffsetMinutes - solarTimeData.standardOffsetMinutes)
+            )}
           </Text>
 
           <Pressable
@@ -214,7 +229,7 @@ export function HoursView({ context }: Props) {
           <View style={styles.dayProgressTrack}>
             {BRANCH_ORDER.map((b, i) => {
               const isViewing = i === viewingBranchIndex;
-              const segmentInfo = t.branches[b];
+              const segmentInfo = branches[b];
               const segmentElementKey = (ELEMENT_KEYS[segmentInfo.element] || 'earth') as keyof typeof abstractColors.elements;
               const segmentElementColors = abstractColors.elements[segmentElementKey];
               const segmentColor = isViewing
@@ -274,7 +289,7 @@ export function HoursView({ context }: Props) {
           <HexagramCard
             context={context}
             hexagramNumber={sovereignMapping.hexagramNumber}
-            label={t.labels.sovereignHexagram}
+            label={t('sovereignHexagram')}
             onPress={handleHexagramPress}
             onLongPress={handleHexagramLongPress}
             style={styles.hexagramCard}
@@ -282,12 +297,12 @@ export function HoursView({ context }: Props) {
 
           <View style={[styles.infoCard, { backgroundColor: colors.surfaceSecondary }]}>
             <View style={styles.infoRow}>
-              <Text style={[styles.label, { color: colors.textTertiary }]}>{t.labels.organ}</Text>
+              <Text style={[styles.label, { color: colors.textTertiary }]}>{t('organ')}</Text>
               <Text style={[styles.value, { color: colors.text }]}>{info.organ}</Text>
             </View>
             <View style={[styles.divider, { backgroundColor: colors.border }]} />
             <View style={styles.infoRow}>
-              <Text style={[styles.label, { color: colors.textTertiary }]}>{t.labels.activity}</Text>
+              <Text style={[styles.label, { color: colors.textTertiary }]}>{t('activity')}</Text>
               <Text style={[styles.value, { color: colors.text }]}>{info.activity}</Text>
             </View>
           </View>
@@ -5,13 +5,14 @@
  * 1. Hexagram names are correctly translated using user's translation source preference
  * 2. Component respects language settings
  * 3. Component properly handles different translation sources (wilhelm, legge, zhouyi)
+ * 4. French, German and Portuguese resolve to their sources, including regional codes
  *
  * Framework: Jest
  * Run: npm test -- --testPathPattern=HexagramCard
  */
 
 import { getHexagram, getHexagramTranslationBySource } from '@iching-kt/data-hexagrams';
-import { getTranslationSourceForLanguage } from '@iching-kt/core';
+import { getTranslationKey, getTranslationLanguage, getTranslationSourceForLanguage } from '@iching-kt/core';
 import type { TranslationPreferences } from '@iching-kt/core';
 
 describe('HexagramCard - Translation Source Behavior', () => {
@@ -220,4 +221,35 @@ describe('HexagramCard - Translation Source Behavior', () => {
       expect(zhTranslation?.name).toBeTruthy();
     });
   });
+
+  describe('Additional Languages', () => {
+    it('should use wilhelm translations for French, German and Portuguese', () => {
+      const expected: Record<string, string> = { fr: 'Le Retour', de: 'Die Wiederkehr', pt: 'O Retorno' };
+      for (const language of ['fr', 'de', 'pt']) {
+        const source = getTranslationSourceForLanguage(language);
+        const translation = getHexagramTranslationBySource(24, language, source as any);
+
+        expect(source).toBe('wilhelm');
+        expect(translation?.name).toBe(expected[language]);
+      }
+    });
+
+    it('should ignore a preferred source the language does not offer', () => {
+      const stored: Record<string, string> = { en: 'zhouyi', de: 'legge' };
+      const prefs = stored as TranslationPreferences;
+
+      expect(getTranslationSourceForLanguage('en', prefs)).toBe('wilhelm');
+      expect(getTranslationSourceForLanguage('de', prefs)).toBe('wilhelm');
+      expect(getTranslationSourceForLanguage('zh', prefs)).toBe('zhouyi');
+    });
+
+    it('should resolve regional and unknown language codes', () => {
+      const prefs: TranslationPreferences = { en: 'legge', es: 'zhouyi' };
+
+      expect(getTranslationLanguage('pt-BR')).toBe('pt');
+      expect(getTranslationKey('pt-BR', prefs)).toBe('pt-wilhelm');
+      expect(getTranslationKey('es-MX', prefs)).toBe('es-zhouyi');
+      expect(getTranslationKey('it', prefs)).toBe('en-legge');
+    });
+  });
 });
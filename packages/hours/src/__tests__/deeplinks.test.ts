@@ -0,0 +1,50 @@
+/**
+ * Hours Deep Link Tests
+ *
+ * Verifies:
+ * 1. Every view the hours knowlet declares survives a link round trip
+ * 2. A hexagram-detail link opens the detail view the knowlet renders
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=hours/src/__tests__/deeplinks
+ */
+
+import {
+  createKnowletHost,
+  createKnowletRegistry,
+  createProviderRegistry,
+  openKnowletLink,
+  parseKnowletLink,
+  serializeKnowletLink,
+} from '@iching-kt/core';
+import { hoursKnowlet } from '../index';
+
+describe('hours links', () => {
+  const knowlets = createKnowletRegistry();
+  knowlets.register(hoursKnowlet);
+
+  it('declares its detail view', () => {
+    expect(hoursKnowlet.meta.views?.map((view) => view.id)).toEqual(['hexagram-detail']);
+  });
+
+  it.each(hoursKnowlet.meta.views ?? [])('round-trips $id', (view) => {
+    const params = Object.fromEntries(
+      Object.keys(view.params ?? {}).map((name) => [name, 44])
+    );
+    const link = { knowletId: 'hours', view: { id: view.id, params } };
+    expect(parseKnowletLink(serializeKnowletLink(link), knowlets)).toEqual(link);
+  });
+
+  it('opens the hexagram detail from a shared link', () => {
+    const host = createKnowletHost({ knowlets, providers: createProviderRegistry() });
+    openKnowletLink(
+      host,
+      parseKnowletLink('iching://knowlet/hours/view/hexagram-detail?hexagramNumber=44', knowlets)
+    );
+
+    expect(host.getContext('hours').currentView).toEqual({
+      id: 'hexagram-detail',
+      params: { hexagramNumber: 44 },
+    });
+  });
+});
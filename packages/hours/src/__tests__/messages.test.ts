@@ -0,0 +1,41 @@
+/**
+ * Hours Messages Tests
+ *
+ * Verifies:
+ * 1. Every supported language has every message key
+ * 2. Regional languages use their base language's messages
+ * 3. Branch texts exist in every supported language
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=hours/src/__tests__/messages
+ */
+
+import { createTranslator, findMissingMessages } from '@iching-kt/core';
+import { hoursKnowlet } from '../index';
+import { getBranchTranslations, translations } from '../data';
+import { hoursMessages } from '../messages';
+
+describe('hoursMessages', () => {
+  it('is complete in every supported language', () => {
+    expect(findMissingMessages(hoursKnowlet)).toEqual({});
+  });
+
+  it('falls back to the base language for regional variants', () => {
+    const t = createTranslator(hoursMessages, 'es-MX');
+    expect(t('upperTrigram', { trigram: 'Kan' })).toBe('Trigrama superior: Kan');
+  });
+});
+
+describe('branch translations', () => {
+  it('covers all twelve branches in every supported language', () => {
+    const branches = Object.keys(translations.en.branches);
+    for (const language of hoursKnowlet.meta.supportedLanguages) {
+      expect(Object.keys(translations[language].branches)).toEqual(branches);
+    }
+  });
+
+  it('falls back to the base language for regional variants', () => {
+    expect(getBranchTranslations('pt-BR').zi.animal).toBe('Rato');
+    expect(getBranchTranslations('de-AT').wu.organ).toBe('Herz');
+  });
+});
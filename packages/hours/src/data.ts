@@ -1,3 +1,4 @@
+import { getLanguageFallbacks } from '@iching-kt/core';
 import { EarthlyBranch } from '@iching-kt/provider-time';
 
 interface BranchInfo {
@@ -15,37 +16,11 @@ interface BranchInfo {
 type Translations = {
   [lang: string]: {
     branches: Record<EarthlyBranch, BranchInfo>;
-    labels: {
-      currentHour: string;
-      timeRange: string;
-      element: string;
-      animal: string;
-      organ: string;
-      activity: string;
-      description: string;
-      shichen: string;
-      sovereignHexagram: string;
-      previousHour: string;
-      nextHour: string;
-    };
   };
 };
 
 export const translations: Translations = {
   en: {
-    labels: {
-      currentHour: 'Current Hour',
-      timeRange: 'Time Range',
-      element: 'Element',
-      animal: 'Animal',
-      organ: 'Meridian',
-      activity: 'Auspicious Activity',
-      description: 'Description',
-      shichen: 'Shichen',
-      sovereignHexagram: 'Sovereign Hexagram',
-      previousHour: '◀ Previous',
-      nextHour: 'Next ▶',
-    },
     branches: {
       zi: {
         chinese: '子',
@@ -182,19 +157,6 @@ export const translations: Translations = {
     },
   },
   es: {
-    labels: {
-      currentHour: 'Hora Actual',
-      timeRange: 'Rango Horario',
-      element: 'Elemento',
-      animal: 'Animal',
-      organ: 'Meridiano',
-      activity: 'Actividad Propicia',
-      description: 'Descripción',
-      shichen: 'Shichen',
-      sovereignHexagram: 'Hexagrama Soberano',
-      previousHour: '◀ Anterior',
-      nextHour: 'Siguiente ▶',
-    },
     branches: {
       zi: {
         chinese: '子',
@@ -331,19 +293,6 @@ export const translations: Translations = {
     },
   },
   zh: {
-    labels: {
-      currentHour: '當前時辰',
-      timeRange: '時間範圍',
-      element: '五行',
-      animal: '生肖',
-      organ: '經絡',
-      activity: '宜事',
-      description: '說明',
-      shichen: '時辰',
-      sovereignHexagram: '消息卦',
-      previousHour: '◀ 上一個',
-      nextHour: '下一個 ▶',
-    },
     branches: {
       zi: {
         chinese: '子',
@@ -479,8 +428,420 @@ export const translations: Translations = {
       },
     },
   },
+  fr: {
+    branches: {
+      zi: {
+        chinese: '子',
+        pinyin: 'zǐ',
+        animal: 'Rat',
+        timeRange: '23:00-01:00',
+        element: 'Eau',
+        yinYang: 'yang',
+        organ: 'Vésicule biliaire',
+        description: 'Le Rat prospère dans le silence de minuit. Le Qi recommence son cycle.',
+        activity: 'Repos profond, travail des rêves, méditation',
+      },
+      chou: {
+        chinese: '丑',
+        pinyin: 'chǒu',
+        animal: 'Buffle',
+        timeRange: '01:00-03:00',
+        element: 'Terre',
+        yinYang: 'yin',
+        organ: 'Foie',
+        description: 'Le Buffle travaille sans relâche dans l\'obscurité. Le foie purifie et régénère le sang.',
+        activity: 'Sommeil profond, détoxication du foie',
+      },
+      yin: {
+        chinese: '寅',
+        pinyin: 'yín',
+        animal: 'Tigre',
+        timeRange: '03:00-05:00',
+        element: 'Bois',
+        yinYang: 'yang',
+        organ: 'Poumons',
+        description: 'Le Tigre s\'éveille avant l\'aube. Les poumons diffusent le Qi dans tout le corps.',
+        activity: 'Respiration profonde, lever matinal des moines',
+      },
+      mao: {
+        chinese: '卯',
+        pinyin: 'mǎo',
+        animal: 'Lièvre',
+        timeRange: '05:00-07:00',
+        element: 'Bois',
+        yinYang: 'yin',
+        organ: 'Gros intestin',
+        description: 'Le Lièvre sort à l\'aube. Temps de l\'élimination et de la purification.',
+        activity: 'Réveil naturel, transit, exercice léger',
+      },
+      chen: {
+        chinese: '辰',
+        pinyin: 'chén',
+        animal: 'Dragon',
+        timeRange: '07:00-09:00',
+        element: 'Terre',
+        yinYang: 'yang',
+        organ: 'Estomac',
+        description: 'Le Dragon apporte l\'énergie du matin. Le Qi de l\'estomac est à son sommet.',
+        activity: 'Petit-déjeuner copieux, commencer le travail important',
+      },
+      si: {
+        chinese: '巳',
+        pinyin: 'sì',
+        animal: 'Serpent',
+        timeRange: '09:00-11:00',
+        element: 'Feu',
+        yinYang: 'yin',
+        organ: 'Rate',
+        description: 'Le Serpent se love au soleil qui réchauffe. La rate transforme la nourriture en énergie.',
+        activity: 'Travail intellectuel, étude, prise de décision',
+      },
+      wu: {
+        chinese: '午',
+        pinyin: 'wǔ',
+        animal: 'Cheval',
+        timeRange: '11:00-13:00',
+        element: 'Feu',
+        yinYang: 'yang',
+        organ: 'Cœur',
+        description: 'Le Cheval galope au zénith de midi. Le Qi du cœur et le Yang atteignent leur maximum.',
+        activity: 'Déjeuner léger, courte pause, échanges sociaux',
+      },
+      wei: {
+        chinese: '未',
+        pinyin: 'wèi',
+        animal: 'Chèvre',
+        timeRange: '13:00-15:00',
+        element: 'Terre',
+        yinYang: 'yin',
+        organ: 'Intestin grêle',
+        description: 'La Chèvre broute paisiblement. L\'intestin grêle sépare le pur de l\'impur.',
+        activity: 'Digérer et assimiler, activités douces',
+      },
+      shen: {
+        chinese: '申',
+        pinyin: 'shēn',
+        animal: 'Singe',
+        timeRange: '15:00-17:00',
+        element: 'Métal',
+        yinYang: 'yang',
+        organ: 'Vessie',
+        description: 'Le Singe est au plus vif. La vessie stocke et libère les liquides.',
+        activity: 'Efficacité maximale, exercice, mémorisation',
+      },
+      you: {
+        chinese: '酉',
+        pinyin: 'yǒu',
+        animal: 'Coq',
+        timeRange: '17:00-19:00',
+        element: 'Métal',
+        yinYang: 'yin',
+        organ: 'Reins',
+        description: 'Le Coq annonce la fin du jour. Les reins conservent l\'essence vitale.',
+        activity: 'Dîner léger, achever le travail, vie sociale',
+      },
+      xu: {
+        chinese: '戌',
+        pinyin: 'xū',
+        animal: 'Chien',
+        timeRange: '19:00-21:00',
+        element: 'Terre',
+        yinYang: 'yang',
+        organ: 'Péricarde',
+        description: 'Le Chien garde la maison au crépuscule. Le péricarde protège le cœur.',
+        activity: 'Détente, intimité, lien affectif',
+      },
+      hai: {
+        chinese: '亥',
+        pinyin: 'hài',
+        animal: 'Cochon',
+        timeRange: '21:00-23:00',
+        element: 'Eau',
+        yinYang: 'yin',
+        organ: 'Triple Réchauffeur',
+        description: 'Le Cochon se repose, satisfait. Le Triple Réchauffeur équilibre tous les systèmes.',
+        activity: 'Se préparer au sommeil, réflexion tranquille',
+      },
+    },
+  },
+  de: {
+    branches: {
+      zi: {
+        chinese: '子',
+        pinyin: 'zǐ',
+        animal: 'Ratte',
+        timeRange: '23:00-01:00',
+        element: 'Wasser',
+        yinYang: 'yang',
+        organ: 'Gallenblase',
+        description: 'Die Ratte gedeiht in der Stille der Mitternacht. Das Qi beginnt seinen Kreislauf von Neuem.',
+        activity: 'Tiefe Ruhe, Traumarbeit, Meditation',
+      },
+      chou: {
+        chinese: '丑',
+        pinyin: 'chǒu',
+        animal: 'Büffel',
+        timeRange: '01:00-03:00',
+        element: 'Erde',
+        yinYang: 'yin',
+        organ: 'Leber',
+        description: 'Der Büffel arbeitet beständig im Dunkeln. Die Leber reinigt und erneuert das Blut.',
+        activity: 'Tiefschlaf, Entgiftung der Leber',
+      },
+      yin: {
+        chinese: '寅',
+        pinyin: 'yín',
+        animal: 'Tiger',
+        timeRange: '03:00-05:00',
+        element: 'Holz',
+        yinYang: 'yang',
+        organ: 'Lunge',
+        description: 'Der Tiger erwacht vor der Morgendämmerung. Die Lunge verteilt das Qi im ganzen Körper.',
+        activity: 'Tiefes Atmen, frühes Aufstehen der Mönche',
+      },
+      mao: {
+        chinese: '卯',
+        pinyin: 'mǎo',
+        animal: 'Hase',
+        timeRange: '05:00-07:00',
+        element: 'Holz',
+        yinYang: 'yin',
+        organ: 'Dickdarm',
+        description: 'Der Hase kommt im Morgengrauen hervor. Zeit der Ausscheidung und Reinigung.',
+        activity: 'Natürlich erwachen, Stuhlgang, leichte Bewegung',
+      },
+      chen: {
+        chinese: '辰',
+        pinyin: 'chén',
+        animal: 'Drache',
+        timeRange: '07:00-09:00',
+        element: 'Erde',
+        yinYang: 'yang',
+        organ: 'Magen',
+        description: 'Der Drache bringt die Energie des Morgens. Das Magen-Qi ist auf seinem Höhepunkt.',
+        activity: 'Kräftig frühstücken, wichtige Arbeit beginnen',
+      },
+      si: {
+        chinese: '巳',
+        pinyin: 'sì',
+        animal: 'Schlange',
+        timeRange: '09:00-11:00',
+        element: 'Feuer',
+        yinYang: 'yin',
+        organ: 'Milz',
+        description: 'Die Schlange ringelt sich in der wärmenden Sonne. Die Milz verwandelt Nahrung in Energie.',
+        activity: 'Geistige Arbeit, Lernen, Entscheidungen',
+      },
+      wu: {
+        chinese: '午',
+        pinyin: 'wǔ',
+        animal: 'Pferd',
+        timeRange: '11:00-13:00',
+        element: 'Feuer',
+        yinYang: 'yang',
+        organ: 'Herz',
+        description: 'Das Pferd galoppiert im Höhepunkt des Mittags. Herz-Qi und Yang erreichen ihr Maximum.',
+        activity: 'Leichtes Mittagessen, kurze Rast, Geselligkeit',
+      },
+      wei: {
+        chinese: '未',
+        pinyin: 'wèi',
+        animal: 'Ziege',
+        timeRange: '13:00-15:00',
+        element: 'Erde',
+        yinYang: 'yin',
+        organ: 'Dünndarm',
+        description: 'Die Ziege grast friedlich. Der Dünndarm trennt das Reine vom Unreinen.',
+        activity: 'Verdauen und aufnehmen, sanfte Tätigkeiten',
+      },
+      shen: {
+        chinese: '申',
+        pinyin: 'shēn',
+        animal: 'Affe',
+        timeRange: '15:00-17:00',
+        element: 'Metall',
+        yinYang: 'yang',
+        organ: 'Blase',
+        description: 'Der Affe ist jetzt am wachsten. Die Blase speichert und gibt Flüssigkeiten ab.',
+        activity: 'Höchste Leistungsfähigkeit, Sport, Lernen',
+      },
+      you: {
+        chinese: '酉',
+        pinyin: 'yǒu',
+        animal: 'Hahn',
+        timeRange: '17:00-19:00',
+        element: 'Metall',
+        yinYang: 'yin',
+        organ: 'Nieren',
+        description: 'Der Hahn ruft das Ende des Tages aus. Die Nieren bewahren die Lebensessenz.',
+        activity: 'Leichtes Abendessen, Arbeit abschließen, Geselligkeit',
+      },
+      xu: {
+        chinese: '戌',
+        pinyin: 'xū',
+        animal: 'Hund',
+        timeRange: '19:00-21:00',
+        element: 'Erde',
+        yinYang: 'yang',
+        organ: 'Perikard',
+        description: 'Der Hund bewacht in der Dämmerung das Haus. Das Perikard schützt das Herz.',
+        activity: 'Entspannung, Nähe, emotionale Verbundenheit',
+      },
+      hai: {
+        chinese: '亥',
+        pinyin: 'hài',
+        animal: 'Schwein',
+        timeRange: '21:00-23:00',
+        element: 'Wasser',
+        yinYang: 'yin',
+        organ: 'Dreifacher Erwärmer',
+        description: 'Das Schwein ruht zufrieden. Der Dreifache Erwärmer gleicht alle Systeme aus.',
+        activity: 'Auf den Schlaf vorbereiten, stille Besinnung',
+      },
+    },
+  },
+  pt: {
+    branches: {
+      zi: {
+        chinese: '子',
+        pinyin: 'zǐ',
+        animal: 'Rato',
+        timeRange: '23:00-01:00',
+        element: 'Água',
+        yinYang: 'yang',
+        organ: 'Vesícula biliar',
+        description: 'O Rato prospera na quietude da meia-noite. O Qi recomeça seu ciclo.',
+        activity: 'Descanso profundo, trabalho com sonhos, meditação',
+      },
+      chou: {
+        chinese: '丑',
+        pinyin: 'chǒu',
+        animal: 'Boi',
+        timeRange: '01:00-03:00',
+        element: 'Terra',
+        yinYang: 'yin',
+        organ: 'Fígado',
+        description: 'O Boi trabalha com constância na escuridão. O fígado purifica e renova o sangue.',
+        activity: 'Sono profundo, desintoxicação do fígado',
+      },
+      yin: {
+        chinese: '寅',
+        pinyin: 'yín',
+        animal: 'Tigre',
+        timeRange: '03:00-05:00',
+        element: 'Madeira',
+        yinYang: 'yang',
+        organ: 'Pulmões',
+        description: 'O Tigre desperta antes do amanhecer. Os pulmões distribuem o Qi por todo o corpo.',
+        activity: 'Respiração profunda, despertar cedo dos monges',
+      },
+      mao: {
+        chinese: '卯',
+        pinyin: 'mǎo',
+        animal: 'Coelho',
+        timeRange: '05:00-07:00',
+        element: 'Madeira',
+        yinYang: 'yin',
+        organ: 'Intestino grosso',
+        description: 'O Coelho surge ao amanhecer. Hora da eliminação e da limpeza.',
+        activity: 'Acordar naturalmente, evacuação, exercício leve',
+      },
+      chen: {
+        chinese: '辰',
+        pinyin: 'chén',
+        animal: 'Dragão',
+        timeRange: '07:00-09:00',
+        element: 'Terra',
+        yinYang: 'yang',
+        organ: 'Estômago',
+        description: 'O Dragão traz a energia da manhã. O Qi do estômago está no auge.',
+        activity: 'Café da manhã farto, começar o trabalho importante',
+      },
+      si: {
+        chinese: '巳',
+        pinyin: 'sì',
+        animal: 'Serpente',
+        timeRange: '09:00-11:00',
+        element: 'Fogo',
+        yinYang: 'yin',
+        organ: 'Baço',
+        description: 'A Serpente se enrosca ao sol que aquece. O baço transforma o alimento em energia.',
+        activity: 'Trabalho mental, estudo, tomada de decisões',
+      },
+      wu: {
+        chinese: '午',
+        pinyin: 'wǔ',
+        animal: 'Cavalo',
+        timeRange: '11:00-13:00',
+        element: 'Fogo',
+        yinYang: 'yang',
+        organ: 'Coração',
+        description: 'O Cavalo galopa no auge do meio-dia. O Qi do coração e o Yang atingem o máximo.',
+        activity: 'Almoço leve, breve descanso, convívio social',
+      },
+      wei: {
+        chinese: '未',
+        pinyin: 'wèi',
+        animal: 'Cabra',
+        timeRange: '13:00-15:00',
+        element: 'Terra',
+        yinYang: 'yin',
+        organ: 'Intestino delgado',
+        description: 'A Cabra pasta em paz. O intestino delgado separa o puro do impuro.',
+        activity: 'Digerir e absorver, atividades suaves',
+      },
+      shen: {
+        chinese: '申',
+        pinyin: 'shēn',
+        animal: 'Macaco',
+        timeRange: '15:00-17:00',
+        element: 'Metal',
+        yinYang: 'yang',
+        organ: 'Bexiga',
+        description: 'O Macaco está mais alerta agora. A bexiga armazena e libera os líquidos.',
+        activity: 'Eficiência máxima, exercício, fixação do estudo',
+      },
+      you: {
+        chinese: '酉',
+        pinyin: 'yǒu',
+        animal: 'Galo',
+        timeRange: '17:00-19:00',
+        element: 'Metal',
+        yinYang: 'yin',
+        organ: 'Rins',
+        description: 'O Galo anuncia o fim do dia. Os rins guardam a essência vital.',
+        activity: 'Jantar leve, concluir o trabalho, convívio',
+      },
+      xu: {
+        chinese: '戌',
+        pinyin: 'xū',
+        animal: 'Cão',
+        timeRange: '19:00-21:00',
+        element: 'Terra',
+        yinYang: 'yang',
+        organ: 'Pericárdio',
+        description: 'O Cão guarda a casa ao entardecer. O pericárdio protege o coração.',
+        activity: 'Relaxamento, intimidade, vínculo emocional',
+      },
+      hai: {
+        chinese: '亥',
+        pinyin: 'hài',
+        animal: 'Porco',
+        timeRange: '21:00-23:00',
+        element: 'Água',
+        yinYang: 'yin',
+        organ: 'Triplo Aquecedor',
+        description: 'O Porco descansa satisfeito. O Triplo Aquecedor equilibra todos os sistemas.',
+        activity: 'Preparar-se para dormir, reflexão tranquila',
+      },
+    },
+  },
 };
 
-export function getTranslation(lang: string) {
-  return translations[lang] || translations.en;
+/**
+ * Branch texts in a language, falling back like UI messages
+ */
+export function getBranchTranslations(lang: string): Record<EarthlyBranch, BranchInfo> {
+  const language = getLanguageFallbacks(lang).find((candidate) => candidate in translations) ?? 'en';
+  return translations[language].branches;
 }
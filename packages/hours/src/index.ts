@@ -1,7 +1,9 @@
+import React from 'react';
 import { Knowlet, KnowletContext } from '@iching-kt/core';
 import { HoursView } from './HoursView';
 import { HexagramDetailView } from './HexagramDetailView';
 import { HexagramCard } from './HexagramCard';
+import { hoursMessages } from './messages';
 
 /**
  * Main view component that handles internal navigation
@@ -10,11 +12,11 @@ function HoursKnowletView({ context }: { context: KnowletContext }) {
   // Route to detail view if hexagram-detail is selected
   if (context.currentView?.id === 'hexagram-detail') {
     const hexagramNumber = context.currentView.params?.hexagramNumber as number;
-    return HexagramDetailView({ context, hexagramNumber });
+    return React.createElement(HexagramDetailView, { context, hexagramNumber });
   }
 
   // Default to main hours view
-  return HoursView({ context });
+  return React.createElement(HoursView, { context });
 }
 
 export const hoursKnowlet: Knowlet = {
@@ -25,20 +27,28 @@ export const hoursKnowlet: Knowlet = {
       en: 'Hours of the Day',
       es: 'Horas del Día',
       zh: '十二時辰',
+      fr: 'Heures du jour',
+      de: 'Stunden des Tages',
+      pt: 'Horas do Dia',
     },
     description: 'Explore the 12 double-hours (Shichen) and their sovereign hexagrams',
     descriptions: {
       en: 'Explore the 12 double-hours (Shichen) and their sovereign hexagrams',
       es: 'Explora las 12 horas dobles (Shichen) y sus hexagramas soberanos',
       zh: '探索十二時辰及其消息卦',
+      fr: 'Explorez les 12 heures doubles (Shichen) et leurs hexagrammes souverains',
+      de: 'Entdecke die 12 Doppelstunden (Shichen) und ihre Herrscherhexagramme',
+      pt: 'Explore as 12 horas duplas (Shichen) e seus hexagramas soberanos',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['time'],
     produces: ['hexagram', 'trigram', 'element', 'yinyang'],
     category: 'board',
+    views: [{ id: 'hexagram-detail', params: { hexagramNumber: 'number' } }],
   },
+  messages: hoursMessages,
   View: HoursKnowletView,
 };
 
-export { HoursView, HexagramDetailView, HexagramCard };
+export { HoursView, HexagramDetailView, HexagramCard, hoursMessages };
@@ -0,0 +1,184 @@
+import { MessageCatalogs } from '@iching-kt/core';
+
+export const hoursMessages: MessageCatalogs = {
+  en: {
+    loading: 'Loading...',
+    currentHour: 'Current Hour',
+    timeRange: 'Time Range',
+    element: 'Element',
+    animal: 'Animal',
+    organ: 'Meridian',
+    activity: 'Auspicious Activity',
+    description: 'Description',
+    shichen: 'Shichen',
+    sovereignHexagram: 'Sovereign Hexagram',
+    previousHour: '◀ Previous',
+    nextHour: 'Next ▶',
+    hexagramNotFound: 'Hexagram not found',
+    back: 'Back',
+    goBack: 'Go back',
+    upper: 'Upper',
+    lower: 'Lower',
+    judgment: 'The Judgment',
+    image: 'The Image',
+    relatedHexagrams: 'Related Hexagrams',
+    inverse: 'Inverse',
+    opposite: 'Opposite',
+    nuclear: 'Nuclear',
+    upperTrigram: 'Upper trigram: {trigram}',
+    lowerTrigram: 'Lower trigram: {trigram}',
+    binary: 'Binary',
+    relatedHexagram: '{relation}: hexagram {number}',
+    hexagramLabel: 'Hexagram {number}: {name}',
+  },
+  es: {
+    loading: 'Cargando...',
+    currentHour: 'Hora Actual',
+    timeRange: 'Rango Horario',
+    element: 'Elemento',
+    animal: 'Animal',
+    organ: 'Meridiano',
+    activity: 'Actividad Propicia',
+    description: 'Descripción',
+    shichen: 'Shichen',
+    sovereignHexagram: 'Hexagrama Soberano',
+    previousHour: '◀ Anterior',
+    nextHour: 'Siguiente ▶',
+    hexagramNotFound: 'Hexagrama no encontrado',
+    back: 'Atrás',
+    goBack: 'Volver',
+    upper: 'Superior',
+    lower: 'Inferior',
+    judgment: 'El Dictamen',
+    image: 'La Imagen',
+    relatedHexagrams: 'Hexagramas Relacionados',
+    inverse: 'Inverso',
+    opposite: 'Opuesto',
+    nuclear: 'Nuclear',
+    upperTrigram: 'Trigrama superior: {trigram}',
+    lowerTrigram: 'Trigrama inferior: {trigram}',
+    binary: 'Binario',
+    relatedHexagram: '{relation}: hexagrama {number}',
+    hexagramLabel: 'Hexagrama {number}: {name}',
+  },
+  zh: {
+    loading: '載入中...',
+    currentHour: '當前時辰',
+    timeRange: '時間範圍',
+    element: '五行',
+    animal: '生肖',
+    organ: '經絡',
+    activity: '宜事',
+    description: '說明',
+    shichen: '時辰',
+    sovereignHexagram: '消息卦',
+    previousHour: '◀ 上一個',
+    nextHour: '下一個 ▶',
+    hexagramNotFound: '找不到此卦',
+    back: '返回',
+    goBack: '返回',
+    upper: '上卦',
+    lower: '下卦',
+    judgment: '卦辭',
+    image: '象辭',
+    relatedHexagrams: '相關卦',
+    inverse: '綜卦',
+    opposite: '錯卦',
+    nuclear: '互卦',
+    upperTrigram: '上卦：{trigram}',
+    lowerTrigram: '下卦：{trigram}',
+    binary: '二進制',
+    relatedHexagram: '{relation}：第{number}卦',
+    hexagramLabel: '第{number}卦：{name}',
+  },
+  fr: {
+    loading: 'Chargement...',
+    currentHour: 'Heure actuelle',
+    timeRange: 'Plage horaire',
+    element: 'Élément',
+    animal: 'Animal',
+    organ: 'Méridien',
+    activity: 'Activité propice',
+    description: 'Description',
+    shichen: 'Shichen',
+    sovereignHexagram: 'Hexagramme souverain',
+    previousHour: '◀ Précédente',
+    nextHour: 'Suivante ▶',
+    hexagramNotFound: 'Hexagramme introuvable',
+    back: 'Retour',
+    goBack: 'Revenir',
+    upper: 'Supérieur',
+    lower: 'Inférieur',
+    judgment: 'Le Jugement',
+    image: 'L\'Image',
+    relatedHexagrams: 'Hexagrammes liés',
+    inverse: 'Inverse',
+    opposite: 'Opposé',
+    nuclear: 'Nucléaire',
+    upperTrigram: 'Trigramme supérieur : {trigram}',
+    lowerTrigram: 'Trigramme inférieur : {trigram}',
+    binary: 'Binaire',
+    relatedHexagram: '{relation} : hexagramme {number}',
+    hexagramLabel: 'Hexagramme {number} : {name}',
+  },
+  de: {
+    loading: 'Wird geladen...',
+    currentHour: 'Aktuelle Stunde',
+    timeRange: 'Zeitraum',
+    element: 'Element',
+    animal: 'Tier',
+    organ: 'Meridian',
+    activity: 'Günstige Tätigkeit',
+    description: 'Beschreibung',
+    shichen: 'Shichen',
+    sovereignHexagram: 'Herrscherhexagramm',
+    previousHour: '◀ Vorherige',
+    nextHour: 'Nächste ▶',
+    hexagramNotFound: 'Hexagramm nicht gefunden',
+    back: 'Zurück',
+    goBack: 'Zurückgehen',
+    upper: 'Oben',
+    lower: 'Unten',
+    judgment: 'Das Urteil',
+    image: 'Das Bild',
+    relatedHexagrams: 'Verwandte Hexagramme',
+    inverse: 'Umgekehrt',
+    opposite: 'Gegensatz',
+    nuclear: 'Kern',
+    upperTrigram: 'Oberes Trigramm: {trigram}',
+    lowerTrigram: 'Unteres Trigramm: {trigram}',
+    binary: 'Binär',
+    relatedHexagram: '{relation}: Hexagramm {number}',
+    hexagramLabel: 'Hexagramm {number}: {name}',
+  },
+  pt: {
+    loading: 'Carregando...',
+    currentHour: 'Hora Atual',
+    timeRange: 'Intervalo de Horário',
+    element: 'Elemento',
+    animal: 'Animal',
+    organ: 'Meridiano',
+    activity: 'Atividade Propícia',
+    description: 'Descrição',
+    shichen: 'Shichen',
+    sovereignHexagram: 'Hexagrama Soberano',
+    previousHour: '◀ Anterior',
+    nextHour: 'Próxima ▶',
+    hexagramNotFound: 'Hexagrama não encontrado',
+    back: 'Voltar',
+    goBack: 'Voltar',
+    upper: 'Superior',
+    lower: 'Inferior',
+    judgment: 'O Julgamento',
+    image: 'A Imagem',
+    relatedHexagrams: 'Hexagramas Relacionados',
+    inverse: 'Inverso',
+    opposite: 'Oposto',
+    nuclear: 'Nuclear',
+    upperTrigram: 'Trigrama superior: {trigram}',
+    lowerTrigram: 'Trigrama inferior: {trigram}',
+    binary: 'Binário',
+    relatedHexagram: '{relation}: hexagrama {number}',
+    hexagramLabel: 'Hexagrama {number}: {name}',
+  },
+};
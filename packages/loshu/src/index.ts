@@ -1,5 +1,5 @@
 import { Knowlet } from '@iching-kt/core';
-import { LoShuView } from '@iching-kt/square';
+import { LoShuView, squareMessages } from '@iching-kt/square';
 
 export const loshuKnowlet: Knowlet = {
   meta: {
@@ -9,19 +9,26 @@ export const loshuKnowlet: Knowlet = {
       en: 'Lo Shu Square',
       es: 'Cuadrado Lo Shu',
       zh: '洛書',
+      fr: 'Carré Lo Shu',
+      de: 'Lo-Shu-Quadrat',
+      pt: 'Quadrado Lo Shu',
     },
     description: 'The ancient 3x3 magic square diagram of I-Ching cosmology',
     descriptions: {
       en: 'The ancient 3x3 magic square diagram of I-Ching cosmology',
       es: 'El antiguo diagrama cuadrado mágico 3x3 de la cosmología del I-Ching',
       zh: '易經宇宙論的古代3×3幻方圖',
+      fr: 'L\'ancien carré magique 3x3 de la cosmologie du Yi King',
+      de: 'Das alte magische 3x3-Quadrat der I-Ging-Kosmologie',
+      pt: 'O antigo diagrama do quadrado mágico 3x3 da cosmologia do I Ching',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram', 'trigram', 'time'],
     produces: ['hexagram', 'trigram'],
     category: 'board',
   },
+  messages: squareMessages,
   View: LoShuView,
 };
 
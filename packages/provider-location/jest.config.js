@@ -0,0 +1,16 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'jsdom',
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
+  testMatch: ['**/__tests__/**/*.test.{ts,tsx}'],
+  transform: {
+    '^.+\\.(ts|tsx|js|jsx)$': 'babel-jest',
+  },
+  transformIgnorePatterns: [
+    'node_modules/(?!(react-native|@react-native|@iching-kt|react-native-web)/)',
+  ],
+  moduleNameMapper: {
+    '^react-native$': 'react-native-web',
+    '^@iching-kt/core$': '<rootDir>/../core/src',
+  },
+};
@@ -1,4 +1,12 @@
-import type { GeoLocator, GeoPosition, GeoLocatorStatus, LocationPermissionState } from '@iching-kt/core';
+import { getScheduler, minuteBoundary } from '@iching-kt/core';
+import type {
+  Clock,
+  Scheduler,
+  GeoLocator,
+  GeoPosition,
+  GeoLocatorStatus,
+  LocationPermissionState,
+} from '@iching-kt/core';
 
 /**
  * TimezoneGeoLocator - Fallback locator that always works
@@ -11,44 +19,48 @@ import type { GeoLocator, GeoPosition, GeoLocatorStatus, LocationPermissionState
  * Example: UTC-5 (New York) = -300 minutes → (-300 / 60) * 15 = -75° longitude
  */
 
-function getTimezoneBasedLongitude(): number {
-  const offsetMinutes = -new Date().getTimezoneOffset();
+function getTimezoneBasedLongitude(now: Date): number {
+  const offsetMinutes = -now.getTimezoneOffset();
   return (offsetMinutes / 60) * 15;
 }
 
-export function createTimezoneGeoLocator(): GeoLocator {
-  const listeners = new Set<(position: GeoPosition) => void>();
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
+export interface TimezoneGeoLocatorConfig {
+  clock?: Clock; // Default: systemClock (real time)
+  scheduler?: Scheduler; // Default: the clock's shared scheduler
+}
 
-  const getCurrentPosition = (): GeoPosition => ({
-    longitude: getTimezoneBasedLongitude(),
-    latitude: 0, // We don't know latitude from timezone alone
-    precision: 'low',
-    timestamp: new Date(),
-  });
+export function createTimezoneGeoLocator(config: TimezoneGeoLocatorConfig = {}): GeoLocator {
+  const { scheduler = getScheduler(config.clock) } = config;
+  const { clock } = scheduler;
+  const listeners = new Set<(position: GeoPosition) => void>();
+  let cancelChecks: (() => void) | null = null;
+  let lastLongitude: number | null = null;
+
+  const getCurrentPosition = (now: Date = clock.now()): GeoPosition => {
+    return {
+      longitude: getTimezoneBasedLongitude(now),
+      latitude: 0, // We don't know latitude from timezone alone
+      precision: 'low',
+      timestamp: now,
+    };
+  };
 
   /**
-   * Calculate milliseconds until next minute boundary.
-   * Aligns timezone checks to minute changes for better power efficiency.
+   * Check the offset at every minute boundary (offset changes fall on
+   * whole minutes), but only notify listeners when it actually changed.
    */
-  const getMillisecondsToNextMinute = (): number => {
-    const now = new Date();
-    const secondsUntilNextMinute = 60 - now.getSeconds();
-    const msUntilNextMinute = secondsUntilNextMinute * 1000 - now.getMilliseconds();
-    return msUntilNextMinute + 100; // Small buffer to ensure past minute boundary
+  const checkTimezone = (now: Date) => {
+    const position = getCurrentPosition(now);
+    if (position.longitude === lastLongitude) return;
+    lastLongitude = position.longitude;
+    listeners.forEach(cb => cb(position));
   };
 
-  const scheduleNextCheck = () => {
-    if (timeoutId || listeners.size === 0) return;
-
-    const delay = getMillisecondsToNextMinute();
-    timeoutId = setTimeout(() => {
-      timeoutId = null;
-      const position = getCurrentPosition();
-      listeners.forEach(cb => cb(position));
-      // Schedule next check
-      scheduleNextCheck();
-    }, delay);
+  const stopChecks = () => {
+    if (cancelChecks) {
+      cancelChecks();
+      cancelChecks = null;
+    }
   };
 
   return {
@@ -80,18 +92,19 @@ export function createTimezoneGeoLocator(): GeoLocator {
       listeners.add(callback);
 
       // Immediately provide current position
-      callback(getCurrentPosition());
+      const position = getCurrentPosition();
+      lastLongitude = position.longitude;
+      callback(position);
 
-      // Start smart timing for timezone changes (rare but possible)
+      // Watch for timezone changes (rare but possible)
       if (listeners.size === 1) {
-        scheduleNextCheck();
+        cancelChecks = scheduler.subscribe(minuteBoundary, checkTimezone);
       }
 
       return () => {
         listeners.delete(callback);
-        if (listeners.size === 0 && timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
+        if (listeners.size === 0) {
+          stopChecks();
         }
       };
     },
@@ -111,10 +124,7 @@ export function createTimezoneGeoLocator(): GeoLocator {
 
     dispose(): void {
       listeners.clear();
-      if (timeoutId) {
-        clearTimeout(timeoutId);
-        timeoutId = null;
-      }
+      stopChecks();
     },
   };
 }
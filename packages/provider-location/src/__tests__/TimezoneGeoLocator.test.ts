@@ -0,0 +1,95 @@
+/**
+ * Timezone GeoLocator Tests
+ *
+ * Verifies:
+ * 1. The position estimates longitude from the device's UTC offset at the
+ *    clock's instant
+ * 2. Subscribers hear of an offset change at the next minute boundary,
+ *    and of nothing while the offset stays the same
+ * 3. Offset and accelerated clocks drive the checks in simulated time
+ * 4. dispose() stops the checks
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=provider-location
+ */
+
+import { createFixedClock, createSimulatedClock } from '@iching-kt/core';
+import type { GeoPosition } from '@iching-kt/core';
+import { createTimezoneGeoLocator } from '../TimezoneGeoLocator';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// New York: UTC-5, UTC-4 from the 2024 spring-forward instant
+const SPRING_FORWARD = Date.parse('2024-03-10T07:00:00Z');
+
+describe('createTimezoneGeoLocator', () => {
+  beforeEach(() => {
+    jest
+      .spyOn(Date.prototype, 'getTimezoneOffset')
+      .mockImplementation(function (this: Date) {
+        return this.getTime() < SPRING_FORWARD ? 300 : 240;
+      });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('estimates longitude from the offset at the clock instant', async () => {
+    const instant = new Date('2024-03-01T12:00:00Z');
+    const locator = createTimezoneGeoLocator({ clock: createFixedClock(instant) });
+
+    await expect(locator.getCurrentPosition()).resolves.toEqual({
+      longitude: -75,
+      latitude: 0,
+      precision: 'low',
+      timestamp: instant,
+    });
+  });
+
+  it('reports an offset change at the next minute boundary only', () => {
+    const clock = createFixedClock(new Date(SPRING_FORWARD - 30 * MINUTE));
+    const locator = createTimezoneGeoLocator({ clock });
+    const received: GeoPosition[] = [];
+
+    locator.subscribe((position) => received.push(position));
+    clock.advance(29 * MINUTE);
+    expect(received.map((position) => position.longitude)).toEqual([-75]);
+
+    clock.advance(2 * MINUTE);
+    expect(received.map((position) => position.longitude)).toEqual([-75, -60]);
+    expect(received[1].timestamp.getTime()).toBeGreaterThanOrEqual(SPRING_FORWARD);
+  });
+
+  it('reads the offset at the instant of an offset clock', async () => {
+    const base = createFixedClock(new Date(SPRING_FORWARD - HOUR));
+    const locator = createTimezoneGeoLocator({ clock: createSimulatedClock({ baseClock: base, offsetMs: 2 * HOUR }) });
+
+    expect((await locator.getCurrentPosition()).longitude).toBe(-60);
+  });
+
+  it('crosses the change on an accelerated clock', () => {
+    const base = createFixedClock(new Date(SPRING_FORWARD - HOUR));
+    const locator = createTimezoneGeoLocator({ clock: createSimulatedClock({ baseClock: base, rate: 60 }) });
+    const received: number[] = [];
+
+    locator.subscribe((position) => received.push(position.longitude));
+    // Two real minutes are two simulated hours
+    base.advance(2 * MINUTE);
+
+    expect(received).toEqual([-75, -60]);
+  });
+
+  it('stops checking once disposed', () => {
+    const clock = createFixedClock(new Date(SPRING_FORWARD - 30 * MINUTE));
+    const locator = createTimezoneGeoLocator({ clock });
+    const callback = jest.fn();
+
+    locator.subscribe(callback);
+    locator.dispose();
+    clock.advance(HOUR);
+
+    expect(callback).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,3 +1,3 @@
-export { createTimezoneGeoLocator } from './TimezoneGeoLocator';
+export { createTimezoneGeoLocator, type TimezoneGeoLocatorConfig } from './TimezoneGeoLocator';
 export { createGpsGeoLocator, type ExpoLocation } from './GpsGeoLocator';
 export { createCompositeGeoLocator, type CompositeGeoLocatorConfig } from './CompositeGeoLocator';
@@ -0,0 +1,168 @@
+/**
+ * Sexagenary Calculator Tests
+ *
+ * Verifies:
+ * 1. Sun longitude places solar terms near their published instants
+ * 2. Year and month pillars change at Lichun and the jie terms
+ * 3. Day pillar counts solar days, starting at the Zi hour (23:00)
+ * 4. Hour stem follows from the day stem
+ * 5. The provider follows the solar-time provider, and wakes at a jie
+ *    term that falls between its shichen updates
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=provider-sexagenary
+ */
+
+import { createFixedClock } from '@iching-kt/core';
+import type { GeoLocator, SituationProvider } from '@iching-kt/core';
+import {
+  createFixedZoneRules,
+  createSolarTimeProvider,
+  findNextSunLongitudeInstant,
+  getSunApparentLongitude,
+  type SolarTimeData,
+} from '@iching-kt/provider-solar-time';
+import { calculateFourPillars, getPillar, getPillarFromStemBranch } from '../calculator';
+import { createSexagenaryProvider } from '../provider';
+
+const BEIJING_LONGITUDE = 120;
+const MINUTE = 60 * 1000;
+
+function pillarsAt(iso: string, longitude = BEIJING_LONGITUDE): string[] {
+  const { year, month, day, hour } = calculateFourPillars(new Date(iso), longitude);
+  return [year.chinese, month.chinese, day.chinese, hour.chinese];
+}
+
+describe('Sun position', () => {
+  it('is near 0° at the March equinox', () => {
+    // 2024-03-20 03:06:21 UTC
+    const longitude = getSunApparentLongitude(new Date('2024-03-20T03:06:21Z'));
+    expect(Math.min(longitude, 360 - longitude)).toBeLessThan(0.001);
+  });
+
+  it('finds Lichun 2024 within a minute of 2024-02-04 08:26:53 UTC', () => {
+    const lichun = findNextSunLongitudeInstant(315, new Date('2024-01-01T00:00:00Z'));
+    const published = new Date('2024-02-04T08:26:53Z').getTime();
+    expect(Math.abs(lichun.getTime() - published)).toBeLessThan(MINUTE);
+  });
+
+  it('finds the December solstice 2024 within a minute of 2024-12-21 09:20:34 UTC', () => {
+    const solstice = findNextSunLongitudeInstant(270, new Date('2024-11-01T00:00:00Z'));
+    const published = new Date('2024-12-21T09:20:34Z').getTime();
+    expect(Math.abs(solstice.getTime() - published)).toBeLessThan(MINUTE);
+  });
+});
+
+describe('Sexagenary cycle', () => {
+  it('starts at 甲子 and ends at 癸亥', () => {
+    expect(getPillar(0).chinese).toBe('甲子');
+    expect(getPillar(59).chinese).toBe('癸亥');
+    expect(getPillar(60).chinese).toBe('甲子');
+    expect(getPillar(-1).chinese).toBe('癸亥');
+  });
+
+  it('pairs stems and branches of equal parity', () => {
+    expect(getPillarFromStemBranch(4, 6).chinese).toBe('戊午');
+    expect(getPillarFromStemBranch(4, 6).index).toBe(54);
+    expect(() => getPillarFromStemBranch(0, 1)).toThrow();
+  });
+});
+
+describe('Four pillars', () => {
+  it('2000-01-01 noon in Beijing is 己卯 丙子 戊午 戊午', () => {
+    expect(pillarsAt('2000-01-01T04:00:00Z')).toEqual(['己卯', '丙子', '戊午', '戊午']);
+  });
+
+  it('changes year and month at Lichun, not at New Year', () => {
+    expect(pillarsAt('2024-01-01T04:00:00Z').slice(0, 2)).toEqual(['癸卯', '甲子']);
+    expect(pillarsAt('2024-02-04T08:20:00Z').slice(0, 2)).toEqual(['癸卯', '乙丑']);
+    expect(pillarsAt('2024-02-04T08:35:00Z').slice(0, 2)).toEqual(['甲辰', '丙寅']);
+  });
+
+  it('changes month at Jingzhe (345°)', () => {
+    // Jingzhe 2024: 2024-03-05 02:22:31 UTC
+    expect(pillarsAt('2024-03-05T02:15:00Z')[1]).toBe('丙寅');
+    expect(pillarsAt('2024-03-05T02:30:00Z')[1]).toBe('丁卯');
+  });
+
+  it('starts the next day at solar 23:00 with a 甲子 hour', () => {
+    // Solar 22:30 and 23:30 on 2000-01-01 at 120°E
+    expect(pillarsAt('2000-01-01T14:30:00Z').slice(2)).toEqual(['戊午', '癸亥']);
+    expect(pillarsAt('2000-01-01T15:30:00Z').slice(2)).toEqual(['己未', '甲子']);
+  });
+
+  it('uses the local solar clock, not the time zone', () => {
+    // 04:00 UTC is solar noon at 120°E but solar 09:00 at 75°E
+    expect(pillarsAt('2000-01-01T04:00:00Z', 75)[3]).toBe('丁巳');
+  });
+
+  it('adds the equation of time for apparent solar time', () => {
+    // Solar 10:50 at 120°E; 16 minutes later it is the Wu hour
+    const instant = new Date('2000-01-01T02:50:00Z');
+    expect(calculateFourPillars(instant, BEIJING_LONGITUDE).hour.chinese).toBe('丁巳');
+    expect(calculateFourPillars(instant, BEIJING_LONGITUDE, 16).hour.chinese).toBe('戊午');
+  });
+});
+
+describe('SexagenaryProvider', () => {
+  function createFakeSolarTimeProvider(civilTime: Date) {
+    const listeners = new Set<(data: SolarTimeData) => void>();
+    let data = { type: 'solar-time', civilTime, longitude: BEIJING_LONGITUDE } as SolarTimeData;
+    const provider: SituationProvider<SolarTimeData> = {
+      id: 'solar-time',
+      name: 'Solar Time',
+      subscribe(callback) {
+        listeners.add(callback);
+        callback(data);
+        return () => listeners.delete(callback);
+      },
+      getCurrentData: () => data,
+    };
+    const emit = (time: Date) => {
+      data = { ...data, civilTime: time };
+      listeners.forEach((cb) => cb(data));
+    };
+    return { provider, listeners, emit };
+  }
+
+  it('recalculates on each solar-time update', () => {
+    const solarTime = createFakeSolarTimeProvider(new Date('2000-01-01T04:00:00Z'));
+    const provider = createSexagenaryProvider({ solarTimeProvider: solarTime.provider });
+    const received: string[] = [];
+
+    const unsubscribe = provider.subscribe((data) => received.push(data.hour.chinese));
+    solarTime.emit(new Date('2000-01-01T06:00:00Z'));
+
+    expect(received).toEqual(['戊午', '己未']);
+    expect(provider.getCurrentData().type).toBe('sexagenary');
+
+    unsubscribe();
+    expect(solarTime.listeners.size).toBe(0);
+  });
+  it('changes the month at a jie between shichen updates', () => {
+    // Jingzhe 2024: 2024-03-05 02:22:31 UTC, solar 10:22 at 120°E, mid Si hour
+    const clock = createFixedClock(new Date('2024-03-05T02:00:00Z'));
+    const geoLocator = {
+      currentPosition: { longitude: BEIJING_LONGITUDE, latitude: 30, precision: 'high', timestamp: new Date(0) },
+      subscribe: () => () => {},
+    } as unknown as GeoLocator;
+    const solarTimeProvider = createSolarTimeProvider({
+      geoLocator,
+      clock,
+      timeZone: 'Asia/Shanghai',
+      zoneRules: createFixedZoneRules({ 'Asia/Shanghai': { standardOffsetMinutes: 480 } }),
+      updateOn: 'shichen',
+    });
+    const provider = createSexagenaryProvider({ solarTimeProvider, clock });
+    const received: string[] = [];
+
+    const unsubscribe = provider.subscribe((data) => received.push(data.month.chinese));
+    clock.advance(30 * MINUTE);
+
+    // The Wu hour begins at 03:00 UTC; the month changed well before it
+    expect(received).toEqual(['丙寅', '丁卯']);
+    expect(provider.getCurrentData().hour.chinese).toMatch(/巳$/);
+
+    unsubscribe();
+  });
+});
@@ -0,0 +1,124 @@
+import { getSunApparentLongitude, type EarthlyBranch } from '@iching-kt/provider-solar-time';
+import type { FourPillars, HeavenlyStem, Pillar } from './types';
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+/** Julian Day Number of 1970-01-01 */
+const UNIX_EPOCH_JDN = 2440588;
+
+/**
+ * Heavenly Stems in order (Jia = 0, Yi = 1, etc.)
+ */
+export const HEAVENLY_STEMS: HeavenlyStem[] = [
+  'jia', 'yi', 'bing', 'ding', 'wu', 'ji', 'geng', 'xin', 'ren', 'gui',
+];
+
+/**
+ * Earthly Branches in order (Zi = 0, Chou = 1, etc.)
+ */
+export const EARTHLY_BRANCHES: EarthlyBranch[] = [
+  'zi', 'chou', 'yin', 'mao', 'chen', 'si',
+  'wu', 'wei', 'shen', 'you', 'xu', 'hai',
+];
+
+const STEM_CHARACTERS = '甲乙丙丁戊己庚辛壬癸';
+const BRANCH_CHARACTERS = '子丑寅卯辰巳午未申酉戌亥';
+
+/**
+ * Sun longitude at which the Yin (寅) month begins: Lichun 立春, 315°.
+ * Each following month starts at the next jie (節) term, 30° later.
+ */
+export const LICHUN_LONGITUDE = 315;
+
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
+}
+
+/**
+ * Get the pillar at a position of the sexagenary cycle (0 = 甲子)
+ */
+export function getPillar(index: number): Pillar {
+  const cycleIndex = mod(index, 60);
+  const stemIndex = cycleIndex % 10;
+  const branchIndex = cycleIndex % 12;
+  return {
+    index: cycleIndex,
+    stemIndex,
+    branchIndex,
+    stem: HEAVENLY_STEMS[stemIndex],
+    branch: EARTHLY_BRANCHES[branchIndex],
+    chinese: STEM_CHARACTERS[stemIndex] + BRANCH_CHARACTERS[branchIndex],
+  };
+}
+
+/**
+ * Get the pillar for a stem and branch. Only pairs of equal parity
+ * (yang stem with yang branch, yin with yin) exist in the cycle.
+ */
+export function getPillarFromStemBranch(stemIndex: number, branchIndex: number): Pillar {
+  if (mod(stemIndex, 2) !== mod(branchIndex, 2)) {
+    throw new Error(`Stem ${stemIndex} and branch ${branchIndex} do not form a sexagenary pair`);
+  }
+  return getPillar(6 * stemIndex - 5 * branchIndex);
+}
+
+/**
+ * Month offset from the Yin month (0 = 寅 ... 11 = 丑) for a sun longitude
+ */
+export function getSolarMonthOffset(sunLongitude: number): number {
+  return Math.floor(mod(sunLongitude - LICHUN_LONGITUDE, 360) / 30);
+}
+
+/**
+ * Calculate the four pillars for an instant at a longitude
+ *
+ * - Year: changes at Lichun (立春), not at the Chinese New Year
+ * - Month: changes at each jie (節) solar term, from the sun's longitude
+ * - Day: counted on the local solar clock (UTC + 4 min per degree of
+ *   longitude, plus the equation of time for apparent solar time); a new
+ *   day starts with the Zi hour at solar 23:00
+ * - Hour: the shichen of the local solar clock; its stem follows from
+ *   the day stem (甲己還加甲 ...)
+ */
+export function calculateFourPillars(
+  instant: Date,
+  longitude: number,
+  equationOfTimeMinutes = 0
+): FourPillars & { sunLongitude: number } {
+  const sunLongitude = getSunApparentLongitude(instant);
+
+  // Year: before Lichun, January and early February belong to the previous year
+  const monthOffset = getSolarMonthOffset(sunLongitude);
+  let year = instant.getUTCFullYear();
+  if (instant.getUTCMonth() <= 1 && monthOffset >= 10) {
+    year -= 1;
+  }
+  const yearPillar = getPillar(year - 4); // 1984 = 甲子
+
+  // Month: the Yin month stem follows from the year stem (甲己之年丙作首 ...)
+  const monthStem = mod(yearPillar.stemIndex * 2 + 2 + monthOffset, 10);
+  const monthBranch = mod(2 + monthOffset, 12);
+  const monthPillar = getPillarFromStemBranch(monthStem, monthBranch);
+
+  // Local solar clock, read through the UTC getters
+  const solarClock = instant.getTime() + (longitude * 4 + equationOfTimeMinutes) * MS_PER_MINUTE;
+
+  // Day: shift by one hour so the Zi hour (23:00) opens the new day
+  const dayNumber = Math.floor((solarClock + 60 * MS_PER_MINUTE) / MS_PER_DAY);
+  const dayPillar = getPillar(dayNumber + UNIX_EPOCH_JDN + 49); // 2000-01-01 = 戊午
+
+  // Hour: 12 shichen of 120 minutes, Zi starting at 23:00
+  const minuteOfDay = mod(Math.floor(solarClock / MS_PER_MINUTE), 24 * 60);
+  const hourBranch = Math.floor(mod(minuteOfDay + 60, 24 * 60) / 120);
+  const hourStem = mod(dayPillar.stemIndex * 2 + hourBranch, 10);
+  const hourPillar = getPillarFromStemBranch(hourStem, hourBranch);
+
+  return {
+    year: yearPillar,
+    month: monthPillar,
+    day: dayPillar,
+    hour: hourPillar,
+    sunLongitude,
+  };
+}
@@ -0,0 +1,10 @@
+export { createSexagenaryProvider, type SexagenaryProviderConfig } from './provider';
+export {
+  calculateFourPillars,
+  getPillar,
+  getPillarFromStemBranch,
+  getSolarMonthOffset,
+  HEAVENLY_STEMS,
+  EARTHLY_BRANCHES,
+} from './calculator';
+export type { SexagenaryData, FourPillars, Pillar, HeavenlyStem } from './types';
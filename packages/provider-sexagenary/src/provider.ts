@@ -0,0 +1,133 @@
+import { earliestBoundary, getScheduler, intervalBoundary } from '@iching-kt/core';
+import type { Boundary, Clock, Scheduler, SituationProvider } from '@iching-kt/core';
+import { findNextSunLongitudeInstant, type SolarTimeData } from '@iching-kt/provider-solar-time';
+import type { SexagenaryData } from './types';
+import { calculateFourPillars, getSolarMonthOffset, LICHUN_LONGITUDE } from './calculator';
+
+/**
+ * SexagenaryProvider - Provides the four pillars (四柱) of the current moment
+ *
+ * Follows a SolarTimeProvider:
+ * - Its updates drive recalculation (every minute, or only at shichen
+ *   transitions with updateOn: 'shichen')
+ * - Its longitude and solar time mode place the solar day and hour
+ *
+ * Also wakes on its own at the next jie (節) term, where the month pillar
+ * (and at Lichun the year pillar) changes, since that need not fall on a
+ * solar-time update.
+ *
+ * Emits: SexagenaryData with year, month, day and hour pillars
+ */
+
+export interface SexagenaryProviderConfig {
+  solarTimeProvider: SituationProvider<SolarTimeData>;
+  clock?: Clock; // Default: systemClock (real time); pass the solar-time provider's clock
+  scheduler?: Scheduler; // Default: the clock's shared scheduler
+}
+
+/** findNextSunLongitudeInstant settles within a second of the crossing */
+const JIE_MARGIN_MS = 1000;
+
+/** Timers cannot wait a whole month (setTimeout stops at ~24.8 days) */
+const JIE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+function getSexagenaryData(civilTime: Date, solarTimeData: SolarTimeData): SexagenaryData {
+  const { longitude, solarTimeMode, equationOfTimeMinutes } = solarTimeData;
+  // Follow the solar time that drives the shichen
+  const { sunLongitude, ...pillars } = calculateFourPillars(
+    civilTime,
+    longitude,
+    solarTimeMode === 'apparent' ? equationOfTimeMinutes : 0
+  );
+
+  return {
+    type: 'sexagenary',
+    civilTime,
+    longitude,
+    sunLongitude,
+    ...pillars,
+  };
+}
+
+export function createSexagenaryProvider(
+  config: SexagenaryProviderConfig
+): SituationProvider<SexagenaryData> {
+  const { solarTimeProvider, scheduler = getScheduler(config.clock) } = config;
+
+  const initialSolarTime = solarTimeProvider.getCurrentData();
+  let currentData = getSexagenaryData(initialSolarTime.civilTime, initialSolarTime);
+  const listeners = new Set<(data: SexagenaryData) => void>();
+  let solarTimeUnsubscribe: (() => void) | null = null;
+  let cancelJieWakeups: (() => void) | null = null;
+
+  const emit = (data: SexagenaryData) => {
+    currentData = data;
+    listeners.forEach((cb) => cb(currentData));
+  };
+
+  // The next jie lies 30° of sun longitude after the one that opened the month
+  const nextJie: Boundary = () => {
+    const longitude = LICHUN_LONGITUDE + 30 * (getSolarMonthOffset(currentData.sunLongitude) + 1);
+    const instant = findNextSunLongitudeInstant(longitude, currentData.civilTime);
+    return new Date(instant.getTime() + JIE_MARGIN_MS);
+  };
+  const jieBoundary = earliestBoundary(nextJie, intervalBoundary(JIE_CHECK_INTERVAL_MS));
+
+  const startUpdates = () => {
+    if (solarTimeUnsubscribe) return; // Already started
+
+    // The solar-time provider calls back immediately, then on each of its updates
+    solarTimeUnsubscribe = solarTimeProvider.subscribe((solarTimeData) => {
+      emit(getSexagenaryData(solarTimeData.civilTime, solarTimeData));
+    });
+    // Its longitude and solar time mode still hold at the jie; the daily
+    // checks in between only emit if the month has changed
+    cancelJieWakeups = scheduler.subscribe(jieBoundary, (now) => {
+      const data = getSexagenaryData(now, solarTimeProvider.getCurrentData());
+      if (data.month.chinese !== currentData.month.chinese) {
+        emit(data);
+      }
+    });
+  };
+
+  const stopUpdates = () => {
+    if (solarTimeUnsubscribe) {
+      solarTimeUnsubscribe();
+      solarTimeUnsubscribe = null;
+    }
+    if (cancelJieWakeups) {
+      cancelJieWakeups();
+      cancelJieWakeups = null;
+    }
+  };
+
+  return {
+    id: 'sexagenary',
+    name: 'Sexagenary Calendar',
+
+    subscribe(callback: (data: SexagenaryData) => void): () => void {
+      listeners.add(callback);
+
+      // Start updates when first listener is added
+      if (listeners.size === 1) {
+        startUpdates();
+      } else {
+        // Immediately provide current data
+        callback(currentData);
+      }
+
+      return () => {
+        listeners.delete(callback);
+
+        // Stop updates when last listener is removed
+        if (listeners.size === 0) {
+          stopUpdates();
+        }
+      };
+    },
+
+    getCurrentData(): SexagenaryData {
+      return currentData;
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { SituationData } from '@iching-kt/core';
+import type { EarthlyBranch } from '@iching-kt/provider-solar-time';
+
+/** Heavenly Stem names for the ten-day cycle */
+export type HeavenlyStem =
+  | 'jia'  // 甲 Yang Wood
+  | 'yi'   // 乙 Yin Wood
+  | 'bing' // 丙 Yang Fire
+  | 'ding' // 丁 Yin Fire
+  | 'wu'   // 戊 Yang Earth
+  | 'ji'   // 己 Yin Earth
+  | 'geng' // 庚 Yang Metal
+  | 'xin'  // 辛 Yin Metal
+  | 'ren'  // 壬 Yang Water
+  | 'gui'; // 癸 Yin Water
+
+/** One stem-branch pair (干支) of the sixty-fold cycle */
+export interface Pillar {
+  /** Position in the sexagenary cycle (0-59, where 0 = 甲子) */
+  index: number;
+  /** Heavenly Stem index (0-9, where 0 = Jia) */
+  stemIndex: number;
+  /** Earthly Branch index (0-11, where 0 = Zi) */
+  branchIndex: number;
+  stem: HeavenlyStem;
+  branch: EarthlyBranch;
+  /** Chinese characters, e.g. '甲子' */
+  chinese: string;
+}
+
+/** The four pillars (四柱) of an instant */
+export interface FourPillars {
+  year: Pillar;
+  month: Pillar;
+  day: Pillar;
+  hour: Pillar;
+}
+
+/** Sexagenary data emitted by SexagenaryProvider */
+export interface SexagenaryData extends SituationData, FourPillars {
+  type: 'sexagenary';
+
+  /** Instant the pillars were calculated for */
+  civilTime: Date;
+
+  /** Longitude used for the local solar day and hour */
+  longitude: number;
+
+  /** Apparent ecliptic longitude of the sun in degrees (drives the month) */
+  sunLongitude: number;
+}
@@ -0,0 +1,123 @@
+/**
+ * Solar Terms Tests
+ *
+ * Verifies:
+ * 1. Term boundaries match published instants within a minute
+ * 2. Current term, progress and next term for a given instant
+ * 3. Terms stay well-formed far outside the present century
+ * 4. The provider emits the new term at the boundary, on real or injected clocks
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=provider-solar-terms
+ */
+
+import { createFixedClock } from '@iching-kt/core';
+import { calculateSolarTerm, getSolarTermIndex, getSolarTermsForYear } from '../calculator';
+import { createSolarTermsProvider } from '../provider';
+import { SOLAR_TERMS, getSolarTermName } from '../terms';
+import type { SolarTermsData } from '../types';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+describe('Solar term data', () => {
+  it('has 24 terms, 15° apart, alternating jie and qi', () => {
+    expect(SOLAR_TERMS).toHaveLength(24);
+    expect(SOLAR_TERMS[0].id).toBe('lichun');
+    expect(SOLAR_TERMS[0].longitude).toBe(315);
+    expect(SOLAR_TERMS[3].longitude).toBe(0);
+    expect(SOLAR_TERMS.filter((term) => term.kind === 'jie')).toHaveLength(12);
+  });
+
+  it('maps sun longitude to term index', () => {
+    expect(getSolarTermIndex(315)).toBe(0);
+    expect(getSolarTermIndex(0)).toBe(3);
+    expect(getSolarTermIndex(314.9)).toBe(23);
+  });
+
+  it('falls back to English names', () => {
+    expect(getSolarTermName(SOLAR_TERMS[3], 'es')).toBe('Equinoccio de primavera');
+    expect(getSolarTermName(SOLAR_TERMS[3], 'fr')).toBe('Spring Equinox');
+  });
+});
+
+describe('Term boundaries', () => {
+  const published2024: [string, string][] = [
+    ['lichun', '2024-02-04T08:26:53Z'],
+    ['jingzhe', '2024-03-05T02:22:31Z'],
+    ['chunfen', '2024-03-20T03:06:21Z'],
+    ['xiazhi', '2024-06-20T20:50:56Z'],
+    ['dongzhi', '2024-12-21T09:20:34Z'],
+  ];
+
+  it.each(published2024)('%s 2024 is within a minute of %s', (id, iso) => {
+    const found = getSolarTermsForYear(2024).find(({ term }) => term.id === id);
+    expect(Math.abs(found!.start.getTime() - new Date(iso).getTime())).toBeLessThan(MINUTE);
+  });
+
+  it.each([1700, 1900, 2024, 2100, 2300])('keeps %i in order, 14-16 days apart', (year) => {
+    const terms = getSolarTermsForYear(year);
+    expect(terms[0].term.id).toBe('xiaohan');
+    expect(terms[23].term.id).toBe('dongzhi');
+    for (let i = 1; i < terms.length; i++) {
+      const gap = (terms[i].start.getTime() - terms[i - 1].start.getTime()) / DAY;
+      expect(gap).toBeGreaterThan(14);
+      expect(gap).toBeLessThan(16);
+    }
+    expect(terms[23].start.getUTCFullYear()).toBe(year);
+  });
+});
+
+describe('calculateSolarTerm', () => {
+  it('finds the term, its start, progress and the next term', () => {
+    // Halfway between Chunfen (03-20 03:06) and Qingming (04-04 07:02)
+    const data = calculateSolarTerm(new Date('2024-03-27T17:00:00Z'));
+    expect(data.term.id).toBe('chunfen');
+    expect(data.nextTerm.id).toBe('qingming');
+    expect(Math.abs(data.termStart.getTime() - new Date('2024-03-20T03:06:21Z').getTime())).toBeLessThan(MINUTE);
+    expect(data.nextTermStart.getTime()).toBeGreaterThan(data.time.getTime());
+    expect(data.progress).toBeGreaterThan(0.45);
+    expect(data.progress).toBeLessThan(0.55);
+  });
+
+  it('wraps from Dahan to Lichun', () => {
+    const data = calculateSolarTerm(new Date('2024-02-01T00:00:00Z'));
+    expect(data.term.id).toBe('dahan');
+    expect(data.nextTerm.id).toBe('lichun');
+  });
+});
+
+describe('SolarTermsProvider', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('emits the new term at the boundary', () => {
+    jest.useFakeTimers({ now: new Date('2024-02-04T08:00:00Z') });
+    const provider = createSolarTermsProvider();
+    const received: SolarTermsData[] = [];
+
+    const unsubscribe = provider.subscribe((data) => received.push(data));
+    expect(received[0].term.id).toBe('dahan');
+
+    // Lichun is ~27 minutes away, before the hourly update
+    jest.advanceTimersByTime(30 * MINUTE);
+    expect(received).toHaveLength(2);
+    expect(received[1].term.id).toBe('lichun');
+    expect(received[1].progress).toBeLessThan(0.01);
+
+    unsubscribe();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('runs on an injected clock', () => {
+    const clock = createFixedClock(new Date('2024-06-20T20:00:00Z'));
+    const provider = createSolarTermsProvider({ clock });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(data.term.id));
+    clock.advance(60 * MINUTE);
+
+    expect(received).toEqual(['mangzhong', 'xiazhi']);
+  });
+});
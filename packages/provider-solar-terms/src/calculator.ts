@@ -0,0 +1,67 @@
+import {
+  findNextSunLongitudeInstant,
+  getSunApparentLongitude,
+} from '@iching-kt/provider-solar-time';
+import type { SolarTermInstant, SolarTermPosition } from './types';
+import { LICHUN_LONGITUDE, SOLAR_TERMS } from './terms';
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A term lasts between 14.7 and 15.8 days, so its start always lies
+ * within this many days before any instant inside it
+ */
+const TERM_SEARCH_BACK_DAYS = 17;
+
+/**
+ * Index (0-23, from Lichun) of the term the sun is in at a longitude
+ */
+export function getSolarTermIndex(sunLongitude: number): number {
+  const fromLichun = (((sunLongitude - LICHUN_LONGITUDE) % 360) + 360) % 360;
+  return Math.floor(fromLichun / 15);
+}
+
+/**
+ * Calculate the current solar term, its start, progress and the next term
+ *
+ * All boundaries are computed from the sun's apparent longitude, so this
+ * works for any year.
+ */
+export function calculateSolarTerm(time: Date): SolarTermPosition {
+  const sunLongitude = getSunApparentLongitude(time);
+  const index = getSolarTermIndex(sunLongitude);
+  const term = SOLAR_TERMS[index];
+  const nextTerm = SOLAR_TERMS[(index + 1) % 24];
+
+  const searchFrom = new Date(time.getTime() - TERM_SEARCH_BACK_DAYS * MS_PER_DAY);
+  const termStart = findNextSunLongitudeInstant(term.longitude, searchFrom);
+  const nextTermStart = findNextSunLongitudeInstant(nextTerm.longitude, time);
+
+  const duration = nextTermStart.getTime() - termStart.getTime();
+  const elapsed = time.getTime() - termStart.getTime();
+  const progress = Math.min(1, Math.max(0, elapsed / duration));
+
+  return {
+    time,
+    sunLongitude,
+    term,
+    termStart,
+    progress,
+    nextTerm,
+    nextTermStart,
+  };
+}
+
+/**
+ * All 24 terms that begin in a Gregorian year (UTC), from Xiaohan (小寒)
+ * in early January to Dongzhi (冬至) in late December
+ */
+export function getSolarTermsForYear(year: number): SolarTermInstant[] {
+  const yearStart = new Date(Date.UTC(year, 0, 1));
+  const xiaohanIndex = SOLAR_TERMS.findIndex((term) => term.id === 'xiaohan');
+
+  return Array.from({ length: 24 }, (_, i) => {
+    const term = SOLAR_TERMS[(xiaohanIndex + i) % 24];
+    return { term, start: findNextSunLongitudeInstant(term.longitude, yearStart) };
+  });
+}
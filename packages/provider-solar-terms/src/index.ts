@@ -0,0 +1,11 @@
+export { createSolarTermsProvider, type SolarTermsProviderConfig } from './provider';
+export { calculateSolarTerm, getSolarTermIndex, getSolarTermsForYear } from './calculator';
+export { SOLAR_TERMS, getSolarTerm, getSolarTermName } from './terms';
+export type {
+  SolarTermsData,
+  SolarTermPosition,
+  SolarTerm,
+  SolarTermId,
+  SolarTermKind,
+  SolarTermInstant,
+} from './types';
@@ -0,0 +1,90 @@
+import { earliestBoundary, getScheduler, intervalBoundary } from '@iching-kt/core';
+import type { Clock, Scheduler, SituationProvider } from '@iching-kt/core';
+import type { SolarTermsData } from './types';
+import { calculateSolarTerm } from './calculator';
+
+/**
+ * SolarTermsProvider - Provides the current solar term (節氣)
+ *
+ * Updates:
+ * - Exactly at the next term boundary
+ * - Every updateIntervalMs in between, to refresh progress
+ *
+ * Emits: SolarTermsData with current term, progress and next-term instant
+ */
+
+export interface SolarTermsProviderConfig {
+  updateIntervalMs?: number; // Default: 3600000 (1 hour)
+  clock?: Clock; // Default: systemClock (real time)
+  scheduler?: Scheduler; // Default: the clock's shared scheduler
+}
+
+function getCurrentSolarTermsData(time: Date): SolarTermsData {
+  return {
+    type: 'solar-terms',
+    ...calculateSolarTerm(time),
+  };
+}
+
+export function createSolarTermsProvider(
+  config: SolarTermsProviderConfig = {}
+): SituationProvider<SolarTermsData> {
+  const { updateIntervalMs = 3600000, scheduler = getScheduler(config.clock) } = config;
+  const { clock } = scheduler;
+
+  let currentData = getCurrentSolarTermsData(clock.now());
+  const listeners = new Set<(data: SolarTermsData) => void>();
+  let cancelUpdates: (() => void) | null = null;
+
+  const updateData = (now: Date) => {
+    currentData = getCurrentSolarTermsData(now);
+    listeners.forEach((cb) => cb(currentData));
+  };
+
+  /**
+   * Wake at the term boundary if it comes before the next regular update,
+   * so the new term is emitted on time
+   */
+  const boundary = earliestBoundary(
+    intervalBoundary(updateIntervalMs),
+    () => currentData.nextTermStart
+  );
+
+  const stopUpdates = () => {
+    if (cancelUpdates) {
+      cancelUpdates();
+      cancelUpdates = null;
+    }
+  };
+
+  return {
+    id: 'solar-terms',
+    name: 'Solar Terms',
+
+    subscribe(callback: (data: SolarTermsData) => void): () => void {
+      listeners.add(callback);
+
+      // Start updates when first listener is added
+      if (listeners.size === 1) {
+        currentData = getCurrentSolarTermsData(clock.now());
+        cancelUpdates = scheduler.subscribe(boundary, updateData);
+      }
+
+      // Immediately provide current data
+      callback(currentData);
+
+      return () => {
+        listeners.delete(callback);
+
+        // Stop updates when last listener is removed
+        if (listeners.size === 0) {
+          stopUpdates();
+        }
+      };
+    },
+
+    getCurrentData(): SolarTermsData {
+      return currentData;
+    },
+  };
+}
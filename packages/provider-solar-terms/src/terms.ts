@@ -0,0 +1,62 @@
+import type { SolarTerm, SolarTermId, SolarTermKind } from './types';
+
+/**
+ * The 24 Solar Terms (二十四節氣)
+ *
+ * Each term begins when the sun's apparent ecliptic longitude reaches a
+ * multiple of 15°. Lichun (立春, 315°) opens the solar year; even
+ * indices are the jie (節) terms that open the solar months, odd indices
+ * the qi (中氣) terms in between.
+ */
+
+type TermRow = [SolarTermId, string, string, string];
+
+const TERM_ROWS: TermRow[] = [
+  ['lichun', '立春', 'Start of Spring', 'Inicio de la primavera'],
+  ['yushui', '雨水', 'Rain Water', 'Agua de lluvia'],
+  ['jingzhe', '驚蟄', 'Awakening of Insects', 'Despertar de los insectos'],
+  ['chunfen', '春分', 'Spring Equinox', 'Equinoccio de primavera'],
+  ['qingming', '清明', 'Pure Brightness', 'Claridad pura'],
+  ['guyu', '穀雨', 'Grain Rain', 'Lluvia de grano'],
+  ['lixia', '立夏', 'Start of Summer', 'Inicio del verano'],
+  ['xiaoman', '小滿', 'Grain Buds', 'Grano lleno'],
+  ['mangzhong', '芒種', 'Grain in Ear', 'Grano en espiga'],
+  ['xiazhi', '夏至', 'Summer Solstice', 'Solsticio de verano'],
+  ['xiaoshu', '小暑', 'Minor Heat', 'Calor menor'],
+  ['dashu', '大暑', 'Major Heat', 'Calor mayor'],
+  ['liqiu', '立秋', 'Start of Autumn', 'Inicio del otoño'],
+  ['chushu', '處暑', 'End of Heat', 'Fin del calor'],
+  ['bailu', '白露', 'White Dew', 'Rocío blanco'],
+  ['qiufen', '秋分', 'Autumn Equinox', 'Equinoccio de otoño'],
+  ['hanlu', '寒露', 'Cold Dew', 'Rocío frío'],
+  ['shuangjiang', '霜降', 'Frost Descent', 'Descenso de la escarcha'],
+  ['lidong', '立冬', 'Start of Winter', 'Inicio del invierno'],
+  ['xiaoxue', '小雪', 'Minor Snow', 'Nieve menor'],
+  ['daxue', '大雪', 'Major Snow', 'Nieve mayor'],
+  ['dongzhi', '冬至', 'Winter Solstice', 'Solsticio de invierno'],
+  ['xiaohan', '小寒', 'Minor Cold', 'Frío menor'],
+  ['dahan', '大寒', 'Major Cold', 'Frío mayor'],
+];
+
+/** Sun longitude at Lichun, the first term */
+export const LICHUN_LONGITUDE = 315;
+
+export const SOLAR_TERMS: SolarTerm[] = TERM_ROWS.map(([id, chinese, en, es], index) => ({
+  id,
+  index,
+  chinese,
+  longitude: (LICHUN_LONGITUDE + index * 15) % 360,
+  kind: (index % 2 === 0 ? 'jie' : 'qi') as SolarTermKind,
+  names: { en, es, zh: chinese },
+}));
+
+export function getSolarTerm(id: SolarTermId): SolarTerm | undefined {
+  return SOLAR_TERMS.find((term) => term.id === id);
+}
+
+/**
+ * Gets a term name, falling back to English
+ */
+export function getSolarTermName(term: SolarTerm, lang: string): string {
+  return term.names[lang] || term.names.en;
+}
@@ -0,0 +1,80 @@
+import type { SituationData } from '@iching-kt/core';
+
+/** The 24 solar terms (節氣), in order from Lichun */
+export type SolarTermId =
+  | 'lichun'      // 立春 315°
+  | 'yushui'      // 雨水 330°
+  | 'jingzhe'     // 驚蟄 345°
+  | 'chunfen'     // 春分   0°
+  | 'qingming'    // 清明  15°
+  | 'guyu'        // 穀雨  30°
+  | 'lixia'       // 立夏  45°
+  | 'xiaoman'     // 小滿  60°
+  | 'mangzhong'   // 芒種  75°
+  | 'xiazhi'      // 夏至  90°
+  | 'xiaoshu'     // 小暑 105°
+  | 'dashu'       // 大暑 120°
+  | 'liqiu'       // 立秋 135°
+  | 'chushu'      // 處暑 150°
+  | 'bailu'       // 白露 165°
+  | 'qiufen'      // 秋分 180°
+  | 'hanlu'       // 寒露 195°
+  | 'shuangjiang' // 霜降 210°
+  | 'lidong'      // 立冬 225°
+  | 'xiaoxue'     // 小雪 240°
+  | 'daxue'       // 大雪 255°
+  | 'dongzhi'     // 冬至 270°
+  | 'xiaohan'     // 小寒 285°
+  | 'dahan';      // 大寒 300°
+
+/**
+ * 'jie' (節) terms open the solar months; 'qi' (中氣) terms fall in
+ * their middle
+ */
+export type SolarTermKind = 'jie' | 'qi';
+
+export interface SolarTerm {
+  id: SolarTermId;
+  /** Index from Lichun (0-23) */
+  index: number;
+  chinese: string;
+  /** Apparent ecliptic longitude of the sun at the start of the term */
+  longitude: number;
+  kind: SolarTermKind;
+  names: Record<string, string>;
+}
+
+/** A solar term together with the instant it begins */
+export interface SolarTermInstant {
+  term: SolarTerm;
+  start: Date;
+}
+
+/** Where an instant falls among the solar terms */
+export interface SolarTermPosition {
+  /** Instant the data was calculated for */
+  time: Date;
+
+  /** Apparent ecliptic longitude of the sun in degrees */
+  sunLongitude: number;
+
+  /** Current solar term */
+  term: SolarTerm;
+
+  /** Instant the current term began */
+  termStart: Date;
+
+  /** Progress through the current term (0.0 to 1.0) */
+  progress: number;
+
+  /** Next solar term */
+  nextTerm: SolarTerm;
+
+  /** Instant the next term begins */
+  nextTermStart: Date;
+}
+
+/** Solar term data emitted by SolarTermsProvider */
+export interface SolarTermsData extends SituationData, SolarTermPosition {
+  type: 'solar-terms';
+}
@@ -10,18 +10,98 @@
 // Import functions directly for testing
 // This simulates what the tests would verify
 
-function calculateTrueSolarTime(civilTime, longitude) {
-  const currentOffsetMinutes = -civilTime.getTimezoneOffset();
-  const testWinterDate = new Date(civilTime.getFullYear(), 0, 2);
-  const testSummerDate = new Date(civilTime.getFullYear(), 6, 2);
-  const winterOffsetMinutes = -testWinterDate.getTimezoneOffset();
-  const summerOffsetMinutes = -testSummerDate.getTimezoneOffset();
-  const standardOffsetMinutes = Math.min(winterOffsetMinutes, summerOffsetMinutes);
+// Equation of time in minutes (Meeus eq. 28.3). ΔT (~1 min) is left out
+// here; it moves the result by well under a second.
+function getEquationOfTime(date) {
+  const DEG = Math.PI / 180;
+  const T = (date.getTime() / 86400000 + 2440587.5 - 2451545.0) / 36525;
+  const norm = (deg) => ((deg % 360) + 360) % 360;
+  const L0 = norm(280.46646 + 36000.76983 * T + 0.0003032 * T * T) * DEG;
+  const M = norm(357.52911 + 35999.05029 * T - 0.0001537 * T * T) * DEG;
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T;
+  const epsilon = (23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60) * DEG;
+  const y = Math.tan(epsilon / 2) ** 2;
+  const radians =
+    y * Math.sin(2 * L0) -
+    2 * e * Math.sin(M) +
+    4 * e * y * Math.sin(M) * Math.cos(2 * L0) -
+    0.5 * y * y * Math.sin(4 * L0) -
+    1.25 * e * e * Math.sin(2 * M);
+  return (radians / DEG) * 4;
+}
+
+// Zone rules from the engine's tz database (Intl), as in src/timezone.ts
+const MONTH_MS = 30.44 * 24 * 60 * 60 * 1000;
+const DST_SEARCH_MONTHS = 9;
+
+function getIntlOffsetMinutes(timeZone, instant) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const fields = {};
+  parts.forEach((part) => {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value);
+  });
+  const wallClock = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - instantSeconds) / 60000);
+}
+
+function getIntlStandardOffsetMinutes(timeZone, instant) {
+  const now = getIntlOffsetMinutes(timeZone, instant);
+  let minBefore = now;
+  let minAfter = now;
+  for (let month = 1; month <= DST_SEARCH_MONTHS; month++) {
+    const shift = month * MONTH_MS;
+    minBefore = Math.min(minBefore, getIntlOffsetMinutes(timeZone, new Date(instant.getTime() - shift)));
+    minAfter = Math.min(minAfter, getIntlOffsetMinutes(timeZone, new Date(instant.getTime() + shift)));
+  }
+  if (minBefore < now && minAfter < now) return Math.max(minBefore, minAfter);
+  return now;
+}
+
+const intlZoneRules = {
+  getOffsetMinutes: getIntlOffsetMinutes,
+  getStandardOffsetMinutes: getIntlStandardOffsetMinutes,
+};
+
+function getDeviceTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+function getClockAtOffset(time, offsetMinutes) {
+  const clock = new Date(time.getTime() + offsetMinutes * 60 * 1000);
+  return { hour: clock.getUTCHours(), minute: clock.getUTCMinutes() };
+}
+
+function calculateTrueSolarTime(civilTime, longitude, options = {}) {
+  const { mode = 'mean', timeZone = getDeviceTimeZone(), zoneRules = intlZoneRules } = options;
+  const utcOffsetMinutes = zoneRules.getOffsetMinutes(timeZone, civilTime);
+  const standardOffsetMinutes = zoneRules.getStandardOffsetMinutes(timeZone, civilTime);
   const timezoneCentralLongitude = (standardOffsetMinutes / 60) * 15;
   const longitudeOffset = longitude - timezoneCentralLongitude;
   const solarOffsetMinutes = longitudeOffset * 4;
-  const solarTime = new Date(civilTime.getTime() + solarOffsetMinutes * 60 * 1000);
-  return { solarTime, offsetMinutes: solarOffsetMinutes };
+  const meanSolarTime = new Date(civilTime.getTime() + solarOffsetMinutes * 60 * 1000);
+  const equationOfTimeMinutes = getEquationOfTime(civilTime);
+  const apparentSolarTime = new Date(meanSolarTime.getTime() + equationOfTimeMinutes * 60 * 1000);
+  const isApparent = mode === 'apparent';
+  return {
+    solarTime: isApparent ? apparentSolarTime : meanSolarTime,
+    offsetMinutes: isApparent ? solarOffsetMinutes + equationOfTimeMinutes : solarOffsetMinutes,
+    meanSolarTime,
+    apparentSolarTime,
+    equationOfTimeMinutes,
+    timeZone,
+    utcOffsetMinutes,
+    standardOffsetMinutes,
+  };
 }
 
 function runTest(name, fn) {
@@ -54,11 +134,14 @@ let totalCount = 0;
 
 console.log('\n=== Solar Time Calculator Tests ===\n');
 
+// CET tests name their zone, so they pass on any device
+const CET = { timeZone: 'Europe/Madrid' };
+
 // Test 1: CET meridian, no DST
 totalCount++;
 if (runTest('CET at 15°E (January, no DST): offset ≈ 0', () => {
   const civilTime = new Date('2026-01-18T17:43:00Z');
-  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 15);
+  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 15, CET);
   assertClose(offsetMinutes, 0, 1, 'Offset should be ~0 on CET meridian');
 })) passCount++;
 
@@ -66,7 +149,7 @@ if (runTest('CET at 15°E (January, no DST): offset ≈ 0', () => {
 totalCount++;
 if (runTest('CET at 15°E (July, with DST): offset ≈ 0 (BUG FIX)', () => {
   const civilTime = new Date('2026-07-18T16:43:00Z');
-  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 15);
+  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 15, CET);
   assertClose(offsetMinutes, 0, 1, 'Offset should be ~0 even with CEST DST');
 })) passCount++;
 
@@ -74,7 +157,7 @@ if (runTest('CET at 15°E (July, with DST): offset ≈ 0 (BUG FIX)', () => {
 totalCount++;
 if (runTest('15° west of CET meridian: offset ≈ -60', () => {
   const civilTime = new Date('2026-01-18T17:43:00Z');
-  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 0);
+  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 0, CET);
   assertClose(offsetMinutes, -60, 2, 'Should be -60 min (15° west)');
 })) passCount++;
 
@@ -82,7 +165,7 @@ if (runTest('15° west of CET meridian: offset ≈ -60', () => {
 totalCount++;
 if (runTest('15° east of CET meridian: offset ≈ +60', () => {
   const civilTime = new Date('2026-01-18T17:43:00Z');
-  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 30);
+  const { offsetMinutes } = calculateTrueSolarTime(civilTime, 30, CET);
   assertClose(offsetMinutes, 60, 2, 'Should be +60 min (15° east)');
 })) passCount++;
 
@@ -90,7 +173,7 @@ if (runTest('15° east of CET meridian: offset ≈ +60', () => {
 totalCount++;
 if (runTest('solarTime Date object has offset applied', () => {
   const civilTime = new Date('2026-01-18T12:00:00Z');
-  const { solarTime, offsetMinutes } = calculateTrueSolarTime(civilTime, 15);
+  const { solarTime, offsetMinutes } = calculateTrueSolarTime(civilTime, 15, CET);
   if (!(solarTime instanceof Date)) {
     throw new Error('solarTime should be a Date object');
   }
@@ -101,16 +184,15 @@ if (runTest('solarTime Date object has offset applied', () => {
 // Test 6: Longitude offset calculation (offset-independent)
 totalCount++;
 if (runTest('Longitude offset calculation: large east/west separation', () => {
-  // This test doesn't depend on timezone, just verifies the offset calculation works
   // Use CET meridian as reference (15°E)
   const civilTime = new Date('2026-01-18T17:43:00Z');
 
   // At 45°E (30° east of CET meridian): offset = +120 min
-  const result1 = calculateTrueSolarTime(civilTime, 45);
+  const result1 = calculateTrueSolarTime(civilTime, 45, CET);
   assertClose(result1.offsetMinutes, 120, 2, 'Should be +120 min for +30° east');
 
   // At -15°E (30° west of CET meridian): offset = -120 min
-  const result2 = calculateTrueSolarTime(civilTime, -15);
+  const result2 = calculateTrueSolarTime(civilTime, -15, CET);
   assertClose(result2.offsetMinutes, -120, 2, 'Should be -120 min for -30° west');
 })) passCount++;
 
@@ -118,7 +200,7 @@ if (runTest('Longitude offset calculation: large east/west separation', () => {
 totalCount++;
 if (runTest('User scenario: Spain 19:43 CEST, 15°E (Bug report)', () => {
   const civilTime = new Date('2026-07-18T17:43:00Z');
-  const { solarTime, offsetMinutes } = calculateTrueSolarTime(civilTime, 15);
+  const { solarTime, offsetMinutes } = calculateTrueSolarTime(civilTime, 15, CET);
 
   // Should be on meridian, so offset near 0
   assertClose(offsetMinutes, 0, 2, 'At CET meridian, offset should be ~0');
@@ -527,6 +609,158 @@ if (runTest('Integration: Large west offset causes shichen to go back 2 periods'
   }
 })) passCount++;
 
+// ============================================================================
+// TESTS: Equation of Time (Apparent Solar Time)
+// ============================================================================
+
+console.log('\n--- Equation of Time (Apparent Solar Time) ---\n');
+
+totalCount++;
+if (runTest('Equation of time: Meeus example 28.b (1992-10-13) ≈ +13.71 min', () => {
+  const eot = getEquationOfTime(new Date('1992-10-13T00:00:00Z'));
+  assertClose(eot, 13.71, 0.05, 'Should match the worked example');
+})) passCount++;
+
+totalCount++;
+if (runTest('Equation of time: extremes in February and November', () => {
+  assertClose(getEquationOfTime(new Date('2026-02-11T12:00:00Z')), -14.2, 0.2, 'February minimum ≈ -14.2 min');
+  assertClose(getEquationOfTime(new Date('2026-11-03T12:00:00Z')), 16.4, 0.2, 'November maximum ≈ +16.4 min');
+})) passCount++;
+
+totalCount++;
+if (runTest('Equation of time: near zero four times a year', () => {
+  const zeroDates = ['2026-04-15', '2026-06-13', '2026-09-01', '2026-12-25'];
+  zeroDates.forEach((date) => {
+    assertClose(getEquationOfTime(new Date(`${date}T12:00:00Z`)), 0, 1, `Should be ~0 on ${date}`);
+  });
+})) passCount++;
+
+totalCount++;
+if (runTest('Mean mode (default): solarTime is mean solar time', () => {
+  const civilTime = new Date('2026-11-03T12:00:00Z');
+  const result = calculateTrueSolarTime(civilTime, 15);
+  if (result.solarTime.getTime() !== result.meanSolarTime.getTime()) {
+    throw new Error('solarTime should equal meanSolarTime in mean mode');
+  }
+  const diff = (result.apparentSolarTime - result.meanSolarTime) / 60000;
+  assertClose(diff, result.equationOfTimeMinutes, 0.001, 'Apparent = mean + EoT');
+})) passCount++;
+
+totalCount++;
+if (runTest('Apparent mode: solarTime and offset include the equation of time', () => {
+  const civilTime = new Date('2026-11-03T12:00:00Z');
+  const mean = calculateTrueSolarTime(civilTime, 15, { mode: 'mean' });
+  const apparent = calculateTrueSolarTime(civilTime, 15, { mode: 'apparent' });
+  if (apparent.solarTime.getTime() !== apparent.apparentSolarTime.getTime()) {
+    throw new Error('solarTime should equal apparentSolarTime in apparent mode');
+  }
+  assertClose(
+    apparent.offsetMinutes - mean.offsetMinutes,
+    apparent.equationOfTimeMinutes,
+    0.001,
+    'Offset difference should be the equation of time'
+  );
+})) passCount++;
+
+totalCount++;
+if (runTest('Apparent mode: early November shifts shichen forward (Si → Wu)', () => {
+  // Civil 10:50 at the central meridian: mean 10:50 (Si), apparent ~11:06 (Wu)
+  const civilTime = new Date(2026, 10, 3, 10, 50, 0);
+  const mean = calculateTrueSolarTime(civilTime, localCentralMeridian, { mode: 'mean' });
+  const apparent = calculateTrueSolarTime(civilTime, localCentralMeridian, { mode: 'apparent' });
+  const meanShichen = getShichenFromSolarTime(mean.solarTime);
+  const apparentShichen = getShichenFromSolarTime(apparent.solarTime);
+  if (meanShichen.branch !== 'si') {
+    throw new Error(`Expected Si hour for mean solar time, got ${meanShichen.branch}`);
+  }
+  if (apparentShichen.branch !== 'wu') {
+    throw new Error(`Expected Wu hour for apparent solar time, got ${apparentShichen.branch}`);
+  }
+})) passCount++;
+
+// ============================================================================
+// TESTS: IANA Time Zones
+// ============================================================================
+
+console.log('\n--- IANA Time Zones ---\n');
+
+totalCount++;
+if (runTest('New York at -74°: +4 min from EST, winter and summer', () => {
+  const zone = { timeZone: 'America/New_York' };
+  const winter = calculateTrueSolarTime(new Date('2026-01-15T17:00:00Z'), -74, zone);
+  const summer = calculateTrueSolarTime(new Date('2026-07-15T16:00:00Z'), -74, zone);
+  assertClose(winter.offsetMinutes, 4, 0.01, 'Winter offset should be +4 min');
+  assertClose(summer.offsetMinutes, 4, 0.01, 'Summer offset should be +4 min (DST ignored)');
+  assertClose(summer.utcOffsetMinutes, -240, 0, 'EDT is UTC-4');
+  assertClose(summer.standardOffsetMinutes, -300, 0, 'EST is UTC-5');
+})) passCount++;
+
+totalCount++;
+if (runTest('Half-hour zone: Asia/Kolkata central meridian is 82.5°E', () => {
+  const { offsetMinutes } = calculateTrueSolarTime(new Date('2026-03-01T06:30:00Z'), 82.5, {
+    timeZone: 'Asia/Kolkata',
+  });
+  assertClose(offsetMinutes, 0, 0.01, 'Offset at 82.5°E in IST should be 0');
+})) passCount++;
+
+totalCount++;
+if (runTest('Standard offset change within a year: Asia/Almaty (UTC+6 → UTC+5, March 2024)', () => {
+  const zone = { timeZone: 'Asia/Almaty' };
+  const before = calculateTrueSolarTime(new Date('2024-01-15T06:00:00Z'), 76.9, zone);
+  const after = calculateTrueSolarTime(new Date('2024-06-01T06:00:00Z'), 76.9, zone);
+  assertClose(before.standardOffsetMinutes, 360, 0, 'January 2024 should still be UTC+6');
+  assertClose(after.standardOffsetMinutes, 300, 0, 'June 2024 should be UTC+5');
+})) passCount++;
+
+totalCount++;
+if (runTest('Solar clock read in the zone, not the device: Beijing noon', () => {
+  // 04:00 UTC is 12:00 in Beijing; at 120°E solar time is also 12:00
+  const result = calculateTrueSolarTime(new Date('2026-01-15T04:00:00Z'), 120, {
+    timeZone: 'Asia/Shanghai',
+  });
+  const solarClock = getClockAtOffset(result.solarTime, result.standardOffsetMinutes);
+  if (solarClock.hour !== 12 || solarClock.minute !== 0) {
+    throw new Error(`Expected solar 12:00, got ${solarClock.hour}:${solarClock.minute}`);
+  }
+})) passCount++;
+
+totalCount++;
+if (runTest('Summer in Madrid: solar clock is an hour behind the CEST wall clock', () => {
+  // 17:43 UTC = 19:43 CEST; at 15°E the solar clock reads 18:43
+  const civilTime = new Date('2026-07-18T17:43:00Z');
+  const result = calculateTrueSolarTime(civilTime, 15, CET);
+  const civilClock = getClockAtOffset(civilTime, result.utcOffsetMinutes);
+  const solarClock = getClockAtOffset(result.solarTime, result.standardOffsetMinutes);
+  if (civilClock.hour !== 19 || solarClock.hour !== 18) {
+    throw new Error(`Expected civil 19h and solar 18h, got ${civilClock.hour}h and ${solarClock.hour}h`);
+  }
+})) passCount++;
+
+totalCount++;
+if (runTest('Unknown zone throws RangeError', () => {
+  try {
+    calculateTrueSolarTime(new Date(), 0, { timeZone: 'Mars/Olympus_Mons' });
+  } catch (error) {
+    if (error instanceof RangeError) return;
+    throw error;
+  }
+  throw new Error('Expected a RangeError');
+})) passCount++;
+
+totalCount++;
+if (runTest('Custom zone rules replace the tz database', () => {
+  const zoneRules = {
+    getOffsetMinutes: () => 120,
+    getStandardOffsetMinutes: () => 60,
+  };
+  const result = calculateTrueSolarTime(new Date('2026-07-18T12:00:00Z'), 20, {
+    timeZone: 'Test/Zone',
+    zoneRules,
+  });
+  assertClose(result.offsetMinutes, 20, 0.01, 'Offset should come from the custom standard offset');
+  assertClose(result.utcOffsetMinutes, 120, 0, 'UTC offset should come from the custom rules');
+})) passCount++;
+
 // ============================================================================
 // RESULTS
 // ============================================================================
@@ -545,6 +779,8 @@ if (passCount === totalCount) {
   console.log('  - Mean solar time: verified offset is constant across seasons');
   console.log('  - Shichen mapping: all 12 double-hours with sovereign hexagrams');
   console.log('  - Integration: solar time + shichen for real-world locations');
+  console.log('  - Equation of time: apparent vs mean solar time and shichen');
+  console.log('  - IANA zones: explicit zones, half-hour zones, standard offset changes');
   console.log('');
   process.exit(0);
 } else {
@@ -0,0 +1,136 @@
+/**
+ * Solar Time Provider Tests
+ *
+ * Verifies:
+ * 1. getCurrentData reads civil and solar time from the clock and the
+ *    locator's position
+ * 2. 'minute' updates wake at every minute, 'shichen' updates only at
+ *    the next double-hour
+ * 3. Offset and accelerated clocks drive the provider in simulated time
+ * 4. A new position is emitted at once
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=provider-solar-time
+ */
+
+import { createFixedClock, createSimulatedClock } from '@iching-kt/core';
+import type { GeoLocator, GeoPosition } from '@iching-kt/core';
+import { createSolarTimeProvider, type SolarTimeProviderConfig } from '../provider';
+import { createFixedZoneRules } from '../timezone';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// On Beijing's standard meridian, local mean solar time is China Standard Time
+const TIME_ZONE = 'Asia/Shanghai';
+const zoneRules = createFixedZoneRules({ [TIME_ZONE]: { standardOffsetMinutes: 480 } });
+
+/** Locator whose position is moved by the test */
+function createManualLocator(longitude: number) {
+  let position: GeoPosition = { longitude, latitude: 30, precision: 'high', timestamp: new Date(0) };
+  const listeners = new Set<(position: GeoPosition) => void>();
+  const locator = {
+    id: 'manual',
+    name: 'Manual',
+    maxPrecision: 'high',
+    get currentPosition() {
+      return position;
+    },
+    subscribe(callback: (position: GeoPosition) => void) {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    },
+  } as unknown as GeoLocator;
+  return {
+    locator,
+    move(next: number) {
+      position = { ...position, longitude: next };
+      listeners.forEach((cb) => cb(position));
+    },
+  };
+}
+
+function createProvider(config: Partial<SolarTimeProviderConfig> & Pick<SolarTimeProviderConfig, 'clock'>) {
+  const { locator, move } = createManualLocator(120);
+  const provider = createSolarTimeProvider({ geoLocator: locator, timeZone: TIME_ZONE, zoneRules, ...config });
+  return { provider, move };
+}
+
+describe('createSolarTimeProvider', () => {
+  it('reads the current data from a fixed clock', () => {
+    const { provider } = createProvider({ clock: createFixedClock(new Date('2024-06-01T02:58:00Z')) });
+
+    expect(provider.getCurrentData()).toMatchObject({
+      hour: 10,
+      minute: 58,
+      solarHour: 10,
+      solarMinute: 58,
+      solarOffsetMinutes: 0,
+      precision: 'high',
+      shichen: { branch: 'si', minutesToNext: 2 },
+    });
+  });
+
+  it('emits at once, then at every minute boundary', () => {
+    const clock = createFixedClock(new Date('2024-06-01T02:58:30Z'));
+    const { provider } = createProvider({ clock });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(`${data.solarMinute} ${data.shichen.branch}`));
+    clock.advance(2 * MINUTE);
+
+    expect(received).toEqual(['58 si', '59 si', '0 wu']);
+    expect(provider.getCurrentData().solarHour).toBe(11);
+  });
+
+  it('only wakes at the next double-hour in shichen mode', () => {
+    const clock = createFixedClock(new Date('2024-06-01T02:30:00Z'));
+    const { provider } = createProvider({ clock, updateOn: 'shichen' });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(data.shichen.branch));
+    clock.advance(29 * MINUTE);
+    expect(received).toEqual(['si']);
+
+    clock.advance(2 * HOUR + 2 * MINUTE);
+    expect(received).toEqual(['si', 'wu', 'wei']);
+  });
+
+  it('runs ahead on an offset clock', () => {
+    const base = createFixedClock(new Date('2024-06-01T02:00:00Z'));
+    const { provider } = createProvider({ clock: createSimulatedClock({ baseClock: base, offsetMs: 12 * HOUR }) });
+
+    expect(provider.getCurrentData()).toMatchObject({ hour: 22, shichen: { branch: 'hai' } });
+  });
+
+  it('passes simulated double-hours on an accelerated clock', () => {
+    const base = createFixedClock(new Date('2024-06-01T02:00:00Z'));
+    const clock = createSimulatedClock({ baseClock: base, rate: 3600 });
+    const { provider } = createProvider({ clock, updateOn: 'shichen' });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(data.shichen.branch));
+    // Four real seconds are four simulated hours, from 10:00 to 14:00
+    base.advance(4 * 1000);
+
+    expect(received).toEqual(['si', 'wu', 'wei']);
+  });
+
+  it('emits a new position at once and moves the next double-hour', () => {
+    const clock = createFixedClock(new Date('2024-06-01T02:30:00Z'));
+    const { provider, move } = createProvider({ clock, updateOn: 'shichen' });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(`${data.solarHour}:${data.solarMinute} ${data.shichen.branch}`));
+    // 15° east puts solar time an hour ahead
+    move(135);
+    expect(received).toEqual(['10:30 si', '11:30 wu']);
+    expect(provider.getCurrentData().longitude).toBe(135);
+
+    // Wei now begins at 12:00 civil time, not 13:00
+    clock.advance(89 * MINUTE);
+    expect(received).toHaveLength(2);
+    clock.advance(2 * MINUTE);
+    expect(received).toEqual(['10:30 si', '11:30 wu', '13:0 wei']);
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Solar position
+ *
+ * Solar coordinates after Jean Meeus, "Astronomical Algorithms" (2nd ed.),
+ * chapters 22 and 25, from a truncated VSOP87 series. The apparent
+ * ecliptic longitude is good to about one arcsecond, which places a
+ * solar term within a minute or so of the published instant. Works for
+ * any year; there are no lookup tables.
+ */
+
+const DEG = Math.PI / 180;
+const MS_PER_DAY = 86400000;
+
+/** Julian Day of the Unix epoch (1970-01-01T00:00:00Z) */
+const UNIX_EPOCH_JD = 2440587.5;
+
+/** Julian Day of J2000.0 (2000-01-01T12:00:00 TT) */
+const J2000_JD = 2451545.0;
+
+/** Mean length of the tropical year in days */
+export const TROPICAL_YEAR_DAYS = 365.24219;
+
+function normalizeDegrees(degrees: number): number {
+  const result = degrees % 360;
+  return result < 0 ? result + 360 : result;
+}
+
+/**
+ * Julian Day (UT) for an instant
+ */
+export function getJulianDay(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+/**
+ * Approximate ΔT = TT − UT in seconds (Espenak & Meeus polynomials,
+ * long-term parabola outside 1900-2150)
+ */
+export function getDeltaTSeconds(date: Date): number {
+  const year = date.getUTCFullYear() + (date.getUTCMonth() + 0.5) / 12;
+  if (year >= 2005 && year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  if (year >= 1986 && year < 2005) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t * t + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year >= 1900 && year < 1986) {
+    const t = year - 1900;
+    return -2.79 + 1.494119 * t - 0.0598939 * t * t + 0.0061966 * t ** 3 - 0.000197 * t ** 4;
+  }
+  const u = (year - 1820) / 100;
+  return -20 + 32 * u * u;
+}
+
+/**
+ * Julian centuries of Terrestrial Time since J2000.0
+ */
+function getJulianCenturiesTT(date: Date): number {
+  const jde = getJulianDay(date) + getDeltaTSeconds(date) / 86400;
+  return (jde - J2000_JD) / 36525;
+}
+
+/**
+ * Earth heliocentric longitude series (VSOP87, truncated as in Meeus,
+ * Appendix III). Each term is [A, B, C] for A·cos(B + C·τ), in 1e-8 rad.
+ */
+type SeriesTerm = [number, number, number];
+
+const EARTH_L0: SeriesTerm[] = [
+  [175347046, 0, 0], [3341656, 4.6692568, 6283.07585], [34894, 4.6261, 12566.1517],
+  [3497, 2.7441, 5753.3849], [3418, 2.8289, 3.5231], [3136, 3.6277, 77713.7715],
+  [2676, 4.4181, 7860.4194], [2343, 6.1352, 3930.2097], [1324, 0.7425, 11506.7698],
+  [1273, 2.0371, 529.691], [1199, 1.1096, 1577.3435], [990, 5.233, 5884.927],
+  [902, 2.045, 26.298], [857, 3.508, 398.149], [780, 1.179, 5223.694],
+  [753, 2.533, 5507.553], [505, 4.583, 18849.228], [492, 4.205, 775.523],
+  [357, 2.92, 0.067], [317, 5.849, 11790.629], [284, 1.899, 796.298],
+  [271, 0.315, 10977.079], [243, 0.345, 5486.778], [206, 4.806, 2544.314],
+  [205, 1.869, 5573.143], [202, 2.458, 6069.777], [156, 0.833, 213.299],
+  [132, 3.411, 2942.463], [126, 1.083, 20.775], [115, 0.645, 0.98],
+  [103, 0.636, 4694.003], [102, 0.976, 15720.839], [102, 4.267, 7.114],
+  [99, 6.21, 2146.17], [98, 0.68, 155.42], [86, 5.98, 161000.69],
+  [85, 1.3, 6275.96], [85, 3.67, 71430.7], [80, 1.81, 17260.15],
+  [79, 3.04, 12036.46], [75, 1.76, 5088.63], [74, 3.5, 3154.69],
+  [74, 4.68, 801.82], [70, 0.83, 9437.76], [62, 3.98, 8827.39],
+  [61, 1.82, 7084.9], [57, 2.78, 6286.6], [56, 4.39, 14143.5],
+  [56, 3.47, 6279.55], [52, 0.19, 12139.55], [52, 1.33, 1748.02],
+  [51, 0.28, 5856.48], [49, 0.49, 1194.45], [41, 5.37, 8429.24],
+  [41, 2.4, 19651.05], [39, 6.17, 10447.39], [37, 6.04, 10213.29],
+  [37, 2.57, 1059.38], [36, 1.71, 2352.87], [36, 1.78, 6812.77],
+  [33, 0.59, 17789.85], [30, 0.44, 83996.85], [30, 2.74, 1349.87],
+  [25, 3.16, 4690.48],
+];
+
+const EARTH_L1: SeriesTerm[] = [
+  [628331966747, 0, 0], [206059, 2.678235, 6283.07585], [4303, 2.6351, 12566.1517],
+  [425, 1.59, 3.523], [119, 5.796, 26.298], [109, 2.966, 1577.344],
+  [93, 2.59, 18849.23], [72, 1.14, 529.69], [68, 1.87, 398.15],
+  [67, 4.41, 5507.55], [59, 2.89, 5223.69], [56, 2.17, 155.42],
+  [45, 0.4, 796.3], [36, 0.47, 775.52], [29, 2.65, 7.11],
+  [21, 5.34, 0.98], [19, 1.85, 5486.78], [19, 4.97, 213.3],
+  [17, 2.99, 6275.96], [16, 0.03, 2544.31], [16, 1.43, 2146.17],
+  [15, 1.21, 10977.08], [12, 2.83, 1748.02], [12, 3.26, 5088.63],
+  [12, 5.27, 1194.45], [12, 2.08, 4694], [11, 0.77, 553.57],
+  [10, 1.3, 6286.6], [10, 4.24, 1349.87], [9, 2.7, 242.73],
+  [9, 5.64, 951.72], [8, 5.3, 2352.87], [6, 2.65, 9437.76],
+  [6, 4.67, 4690.48],
+];
+
+const EARTH_L2: SeriesTerm[] = [
+  [52919, 0, 0], [8720, 1.0721, 6283.0758], [309, 0.867, 12566.152],
+  [27, 0.05, 3.52], [16, 5.19, 26.3], [16, 3.68, 155.42],
+  [10, 0.76, 18849.23], [9, 2.06, 77713.77], [7, 0.83, 775.52],
+  [5, 4.66, 1577.34], [4, 1.03, 7.11], [4, 3.44, 5573.14],
+  [3, 5.14, 796.3], [3, 6.05, 5507.55], [3, 1.19, 242.73],
+  [3, 6.12, 529.69], [3, 0.31, 398.15], [3, 2.28, 553.57],
+  [2, 4.38, 5223.69], [2, 3.75, 0.98],
+];
+
+const EARTH_L3: SeriesTerm[] = [
+  [289, 5.844, 6283.076], [35, 0, 0], [17, 5.49, 12566.15],
+  [3, 5.2, 155.42], [1, 4.72, 3.52], [1, 5.3, 18849.23],
+  [1, 5.97, 242.73],
+];
+
+const EARTH_L4: SeriesTerm[] = [[114, 3.142, 0], [8, 4.13, 6283.08], [1, 3.84, 12566.15]];
+
+const EARTH_L5: SeriesTerm[] = [[1, 3.14, 0]];
+
+function sumSeries(terms: SeriesTerm[], tau: number): number {
+  let sum = 0;
+  for (const [a, b, c] of terms) {
+    sum += a * Math.cos(b + c * tau);
+  }
+  return sum;
+}
+
+export interface SunPosition {
+  /** Apparent ecliptic longitude in degrees (0-360, 0 = March equinox) */
+  apparentLongitude: number;
+  /** Geometric mean longitude in degrees (0-360) */
+  meanLongitude: number;
+  /** Nutation in longitude in degrees */
+  nutationInLongitude: number;
+  /** True obliquity of the ecliptic in degrees */
+  obliquity: number;
+  /** Apparent right ascension in degrees (0-360) */
+  rightAscension: number;
+  /** Apparent declination in degrees */
+  declination: number;
+}
+
+/**
+ * Apparent position of the sun at an instant
+ */
+export function getSunPosition(date: Date): SunPosition {
+  const T = getJulianCenturiesTT(date);
+  const tau = T / 10;
+
+  // Heliocentric longitude of the Earth, turned around to the Sun
+  const earthLongitude =
+    (sumSeries(EARTH_L0, tau) +
+      tau * (sumSeries(EARTH_L1, tau) +
+      tau * (sumSeries(EARTH_L2, tau) +
+      tau * (sumSeries(EARTH_L3, tau) +
+      tau * (sumSeries(EARTH_L4, tau) +
+      tau * sumSeries(EARTH_L5, tau)))))) / 1e8;
+  // Conversion to the FK5 frame: -0.09033"
+  const geometricLongitude = normalizeDegrees(earthLongitude / DEG + 180 - 0.09033 / 3600);
+
+  const L0 = normalizeDegrees(280.4664567 + 360007.6982779 * tau + 0.03032028 * tau * tau);
+  const M = normalizeDegrees(357.52911 + 35999.05029 * T - 0.0001537 * T * T);
+  const moonMeanLongitude = 218.3165 + 481267.8813 * T;
+  const omega = 125.04452 - 1934.136261 * T;
+
+  // Nutation (main terms, Meeus chapter 22)
+  const nutationInLongitude =
+    (-17.2 * Math.sin(omega * DEG) -
+      1.32 * Math.sin(2 * L0 * DEG) -
+      0.23 * Math.sin(2 * moonMeanLongitude * DEG) +
+      0.21 * Math.sin(2 * omega * DEG)) / 3600;
+  const nutationInObliquity =
+    (9.2 * Math.cos(omega * DEG) +
+      0.57 * Math.cos(2 * L0 * DEG) +
+      0.1 * Math.cos(2 * moonMeanLongitude * DEG) -
+      0.09 * Math.cos(2 * omega * DEG)) / 3600;
+
+  // Aberration: -20.4898" / R, with the Earth-Sun distance R in AU
+  const distance = 1.000140 - 0.016708 * Math.cos(M * DEG) - 0.000139 * Math.cos(2 * M * DEG);
+  const aberration = -20.4898 / 3600 / distance;
+
+  const apparentLongitude = normalizeDegrees(geometricLongitude + nutationInLongitude + aberration);
+
+  const meanObliquity = 23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60;
+  const obliquity = meanObliquity + nutationInObliquity;
+
+  const lambda = apparentLongitude * DEG;
+  const rightAscension = normalizeDegrees(
+    Math.atan2(Math.cos(obliquity * DEG) * Math.sin(lambda), Math.cos(lambda)) / DEG
+  );
+  const declination = Math.asin(Math.sin(obliquity * DEG) * Math.sin(lambda)) / DEG;
+
+  return {
+    apparentLongitude,
+    meanLongitude: L0,
+    nutationInLongitude,
+    obliquity,
+    rightAscension,
+    declination,
+  };
+}
+
+/**
+ * Equation of time in minutes: apparent minus mean solar time
+ *
+ * Positive when the sundial is ahead of the clock (around November,
+ * up to +16.4 min), negative when behind (around February, down to
+ * −14.2 min). Meeus equation 28.3, good to a few seconds.
+ */
+export function getEquationOfTime(date: Date): number {
+  const T = getJulianCenturiesTT(date);
+
+  const L0 = normalizeDegrees(280.46646 + 36000.76983 * T + 0.0003032 * T * T) * DEG;
+  const M = normalizeDegrees(357.52911 + 35999.05029 * T - 0.0001537 * T * T) * DEG;
+  const e = 0.016708634 - 0.000042037 * T - 0.0000001267 * T * T;
+  const epsilon = (23 + (26 + (21.448 - T * (46.815 + T * (0.00059 - T * 0.001813))) / 60) / 60) * DEG;
+  const y = Math.tan(epsilon / 2) ** 2;
+
+  const radians =
+    y * Math.sin(2 * L0) -
+    2 * e * Math.sin(M) +
+    4 * e * y * Math.sin(M) * Math.cos(2 * L0) -
+    0.5 * y * y * Math.sin(4 * L0) -
+    1.25 * e * e * Math.sin(2 * M);
+
+  // 1° of hour angle = 4 minutes of time
+  return (radians / DEG) * 4;
+}
+
+/**
+ * Apparent ecliptic longitude of the sun in degrees (0-360)
+ */
+export function getSunApparentLongitude(date: Date): number {
+  return getSunPosition(date).apparentLongitude;
+}
+
+/**
+ * Finds the instant at which the sun reaches an apparent longitude.
+ * Searches forward from `from` (inclusive), at most one year ahead.
+ */
+export function findNextSunLongitudeInstant(targetLongitude: number, from: Date): Date {
+  const target = normalizeDegrees(targetLongitude);
+  const degreesAhead = normalizeDegrees(target - getSunApparentLongitude(from));
+
+  // First estimate from the mean motion of the sun (~0.9856°/day)
+  let time = from.getTime() + (degreesAhead / 360) * TROPICAL_YEAR_DAYS * MS_PER_DAY;
+
+  // Refine with Newton steps; the sun moves between 0.95 and 1.02°/day
+  for (let i = 0; i < 10; i++) {
+    const longitude = getSunApparentLongitude(new Date(time));
+    let delta = target - longitude;
+    if (delta > 180) delta -= 360;
+    if (delta < -180) delta += 360;
+    const step = (delta / 360) * TROPICAL_YEAR_DAYS * MS_PER_DAY;
+    time += step;
+    if (Math.abs(step) < 1000) break;
+  }
+
+  return new Date(Math.round(time));
+}
@@ -1,44 +1,79 @@
-import type { EarthlyBranch, ShichenData } from './types';
+import type { EarthlyBranch, ShichenData, SolarTimeMode } from './types';
+import { getEquationOfTime } from './astronomy';
+import { getDeviceTimeZone, intlZoneRules, type ZoneRulesSource } from './timezone';
+
+const MS_PER_MINUTE = 60 * 1000;
+
+export interface SolarTimeOptions {
+  /** Which solar time is returned as solarTime (default: 'mean') */
+  mode?: SolarTimeMode;
+  /** IANA time zone of the civil clock (default: the device's zone) */
+  timeZone?: string;
+  /** Source of zone offsets (default: the engine's built-in tz database) */
+  zoneRules?: ZoneRulesSource;
+}
+
+export interface SolarTimeCalculation {
+  /** Solar time selected by the mode */
+  solarTime: Date;
+  /** Offset of solarTime from the zone's standard time in minutes */
+  offsetMinutes: number;
+  /** Local mean solar time (longitude offset only) */
+  meanSolarTime: Date;
+  /** Local apparent solar time (mean solar time + equation of time) */
+  apparentSolarTime: Date;
+  /** Equation of time in minutes (apparent - mean) */
+  equationOfTimeMinutes: number;
+  /** IANA time zone used for the civil clock */
+  timeZone: string;
+  /** UTC offset of the zone at civilTime, DST included */
+  utcOffsetMinutes: number;
+  /** Standard (non-DST) UTC offset of the zone at civilTime */
+  standardOffsetMinutes: number;
+}
 
 /**
- * Calculate true local solar time from civil time and longitude
+ * Calculate local solar time from civil time and longitude
  *
  * Formula:
- * 1. Get STANDARD timezone offset (not DST-adjusted)
+ * 1. Get the zone's STANDARD offset (not DST-adjusted) from its IANA rules
  * 2. Calculate timezone central meridian: (offsetMinutes / 60) * 15
  * 3. Calculate longitude offset from timezone center
  * 4. Convert longitude offset to time: 4 minutes per degree
- * 5. Apply offset to civil time
+ * 5. Apply offset to civil time -> local MEAN solar time
+ * 6. Add the equation of time -> local APPARENT (sundial) solar time
+ *
+ * The equation of time swings between about -14 and +16 minutes over
+ * the year. `options.mode` selects which of the two times is returned as
+ * `solarTime` (default: 'mean'); both are always returned.
  *
  * IMPORTANT: The timezone central meridian is a physical constant and does NOT
  * change with DST. We must use the standard (winter) timezone offset, not the
- * DST-adjusted offset.
+ * DST-adjusted offset. Solar times are instants shifted from civilTime; read
+ * their clock fields with getClockAtOffset() and the zone's standard offset,
+ * not with the device's local getters.
  *
- * Example: User at -74° longitude in UTC-5 timezone (EST, not EDT)
+ * Example: User at -74° longitude in America/New_York (EST, UTC-5)
  * - Timezone central meridian: (-300 / 60) * 15 = -75°
  * - Longitude offset: -74 - (-75) = +1°
  * - Solar offset: +1 * 4 = +4 minutes
- * - Solar time is 4 minutes ahead of clock time
+ * - Solar time is 4 minutes ahead of standard clock time
  */
 export function calculateTrueSolarTime(
   civilTime: Date,
-  longitude: number
-): { solarTime: Date; offsetMinutes: number } {
-  // Step 1: Get timezone offset and remove DST adjustment if present
-  // getTimezoneOffset() returns the CURRENT offset (includes DST if active)
-  const currentOffsetMinutes = -civilTime.getTimezoneOffset();
-
-  // To find the STANDARD offset, we check if DST is likely active by comparing
-  // with a known non-DST date. In Northern Hemisphere, DST is roughly March-November.
-  // A more reliable approach: check offset on winter date (January 2) and summer date (July 2)
-  const testWinterDate = new Date(civilTime.getFullYear(), 0, 2); // January 2
-  const testSummerDate = new Date(civilTime.getFullYear(), 6, 2); // July 2
-
-  const winterOffsetMinutes = -testWinterDate.getTimezoneOffset();
-  const summerOffsetMinutes = -testSummerDate.getTimezoneOffset();
-
-  // Determine standard offset (the smaller one, which is always standard time)
-  const standardOffsetMinutes = Math.min(winterOffsetMinutes, summerOffsetMinutes);
+  longitude: number,
+  options: SolarTimeOptions = {}
+): SolarTimeCalculation {
+  const {
+    mode = 'mean',
+    timeZone = getDeviceTimeZone(),
+    zoneRules = intlZoneRules,
+  } = options;
+
+  // Step 1: Get the zone's offsets at this instant from its rules
+  // (throws RangeError for unknown zones)
+  const utcOffsetMinutes = zoneRules.getOffsetMinutes(timeZone, civilTime);
+  const standardOffsetMinutes = zoneRules.getStandardOffsetMinutes(timeZone, civilTime);
 
   // Step 2: Calculate timezone central meridian using STANDARD offset
   // This meridian is a physical constant and doesn't change with DST
@@ -53,11 +88,39 @@ export function calculateTrueSolarTime(
 
   // Step 5: Apply offset to civil time (use the actual current offset to stay in civil time)
   // The solarOffsetMinutes is relative to the timezone's meridian
-  const solarTime = new Date(
+  const meanSolarTime = new Date(
     civilTime.getTime() + solarOffsetMinutes * 60 * 1000
   );
 
-  return { solarTime, offsetMinutes: solarOffsetMinutes };
+  // Step 6: Apparent solar time follows the real sun
+  const equationOfTimeMinutes = getEquationOfTime(civilTime);
+  const apparentSolarTime = new Date(
+    meanSolarTime.getTime() + equationOfTimeMinutes * 60 * 1000
+  );
+
+  const isApparent = mode === 'apparent';
+  return {
+    solarTime: isApparent ? apparentSolarTime : meanSolarTime,
+    offsetMinutes: isApparent ? solarOffsetMinutes + equationOfTimeMinutes : solarOffsetMinutes,
+    meanSolarTime,
+    apparentSolarTime,
+    equationOfTimeMinutes,
+    timeZone,
+    utcOffsetMinutes,
+    standardOffsetMinutes,
+  };
+}
+
+/**
+ * Read hour and minute of a clock running at a fixed UTC offset.
+ *
+ * With the zone's standard offset this reads a solar time returned by
+ * calculateTrueSolarTime; with its UTC offset, the civil time. Unlike
+ * getHours(), the result does not depend on the device's time zone.
+ */
+export function getClockAtOffset(time: Date, offsetMinutes: number): { hour: number; minute: number } {
+  const clock = new Date(time.getTime() + offsetMinutes * MS_PER_MINUTE);
+  return { hour: clock.getUTCHours(), minute: clock.getUTCMinutes() };
 }
 
 /**
@@ -97,10 +160,15 @@ const SOVEREIGN_HEXAGRAMS: number[] = [
  * - 12 periods of 2 hours each
  * - Zi hour starts at 23:00 (not midnight!)
  * - Each shichen corresponds to an Earthly Branch and Sovereign Hexagram
+ *
+ * Pass the zone's standard offset to read the solar clock independently
+ * of the device; without it the device's local getters are used.
  */
-export function getShichenFromSolarTime(solarTime: Date): ShichenData {
-  const hours = solarTime.getHours();
-  const minutes = solarTime.getMinutes();
+export function getShichenFromSolarTime(solarTime: Date, standardOffsetMinutes?: number): ShichenData {
+  const { hour: hours, minute: minutes } =
+    standardOffsetMinutes === undefined
+      ? { hour: solarTime.getHours(), minute: solarTime.getMinutes() }
+      : getClockAtOffset(solarTime, standardOffsetMinutes);
   const totalMinutes = hours * 60 + minutes;
 
   // Adjust for Zi hour starting at 23:00 instead of 00:00
@@ -124,3 +192,14 @@ export function getShichenFromSolarTime(solarTime: Date): ShichenData {
     minutesToNext,
   };
 }
+
+/**
+ * Civil instant of the next shichen transition
+ *
+ * minutesToNext counts whole minutes of the solar clock, so the seconds
+ * already elapsed in the current solar minute are taken off.
+ */
+export function getNextShichenStart(civilTime: Date, solarTime: Date, shichen: ShichenData): Date {
+  const elapsedInMinute = ((solarTime.getTime() % MS_PER_MINUTE) + MS_PER_MINUTE) % MS_PER_MINUTE;
+  return new Date(civilTime.getTime() + shichen.minutesToNext * MS_PER_MINUTE - elapsedInMinute);
+}
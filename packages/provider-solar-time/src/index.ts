@@ -1,3 +1,33 @@
-export { createSolarTimeProvider, type SolarTimeProviderConfig } from './provider';
-export { calculateTrueSolarTime, getShichenFromSolarTime } from './calculator';
-export type { SolarTimeData, ShichenData, EarthlyBranch } from './types';
+export {
+  createSolarTimeProvider,
+  calculateSolarTimeData,
+  type SolarTimeProviderConfig,
+  type SolarTimeUpdateMode,
+} from './provider';
+export {
+  calculateTrueSolarTime,
+  getClockAtOffset,
+  getShichenFromSolarTime,
+  getNextShichenStart,
+  type SolarTimeCalculation,
+  type SolarTimeOptions,
+} from './calculator';
+export {
+  getJulianDay,
+  getDeltaTSeconds,
+  getSunPosition,
+  getSunApparentLongitude,
+  getEquationOfTime,
+  findNextSunLongitudeInstant,
+  TROPICAL_YEAR_DAYS,
+  type SunPosition,
+} from './astronomy';
+export {
+  intlZoneRules,
+  createFixedZoneRules,
+  getDeviceTimeZone,
+  isValidTimeZone,
+  type ZoneRulesSource,
+  type FixedZoneRule,
+} from './timezone';
+export type { SolarTimeData, SolarTimeMode, ShichenData, EarthlyBranch } from './types';
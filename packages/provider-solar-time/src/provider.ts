@@ -1,32 +1,68 @@
-import type { SituationProvider, GeoLocator, GeoPosition } from '@iching-kt/core';
-import type { SolarTimeData } from './types';
-import { calculateTrueSolarTime, getShichenFromSolarTime } from './calculator';
+import { getScheduler, minuteBoundary } from '@iching-kt/core';
+import type {
+  Boundary,
+  Clock,
+  Scheduler,
+  SituationProvider,
+  GeoLocator,
+  GeoPosition,
+} from '@iching-kt/core';
+import type { SolarTimeData, SolarTimeMode } from './types';
+import {
+  calculateTrueSolarTime,
+  getClockAtOffset,
+  getNextShichenStart,
+  getShichenFromSolarTime,
+  type SolarTimeOptions,
+} from './calculator';
+import { getDeviceTimeZone, intlZoneRules, type ZoneRulesSource } from './timezone';
 
 /**
  * SolarTimeProvider - Provides true local solar time based on user location
  *
  * Combines:
  * - GeoLocator position updates (longitude)
- * - Timer for regular time updates
+ * - Scheduler wakeups at minute or shichen boundaries (on the injected Clock)
+ * - IANA zone rules for the civil clock (device zone by default)
  *
- * Emits: SolarTimeData with dual times (civil + solar), precision, shichen
+ * Emits: SolarTimeData with civil, mean and apparent solar times, precision, shichen
  */
 
+/**
+ * When the provider wakes on its own:
+ * - 'minute': every civil minute (clock fields stay current)
+ * - 'shichen': only at shichen transitions, for consumers that show the
+ *   double-hour alone; position changes still update at once
+ */
+export type SolarTimeUpdateMode = 'minute' | 'shichen';
+
 export interface SolarTimeProviderConfig {
   geoLocator: GeoLocator;
   updateIntervalMs?: number; // Default: 60000 (1 minute)
+  solarTimeMode?: SolarTimeMode; // Default: 'mean'
+  timeZone?: string; // IANA zone, default: the device's zone
+  zoneRules?: ZoneRulesSource; // Default: the engine's built-in tz database
+  updateOn?: SolarTimeUpdateMode; // Default: 'minute'
+  clock?: Clock; // Default: systemClock (real time)
+  scheduler?: Scheduler; // Default: the clock's shared scheduler
 }
 
-function getCurrentSolarTimeData(
-  geoLocator: GeoLocator,
-  civilTime: Date
+/**
+ * Calculate SolarTimeData for any instant and place
+ *
+ * Without a position, the longitude is estimated from the central
+ * meridian of the zone's standard offset (low precision).
+ */
+export function calculateSolarTimeData(
+  civilTime: Date,
+  position: GeoPosition | null | undefined,
+  options: SolarTimeOptions = {}
 ): SolarTimeData {
-  // Get current position from geoLocator
-  let position: GeoPosition | null | undefined = geoLocator.currentPosition;
+  const { timeZone = getDeviceTimeZone(), zoneRules = intlZoneRules } = options;
 
   if (!position) {
-    // Fallback: estimate longitude from timezone offset
-    const offsetMinutes = -civilTime.getTimezoneOffset();
+    // Fallback: estimate longitude from the zone's standard offset
+    const offsetMinutes = zoneRules.getStandardOffsetMinutes(timeZone, civilTime);
     const longitude = (offsetMinutes / 60) * 15;
     position = {
       longitude,
@@ -37,26 +73,42 @@ function getCurrentSolarTimeData(
   }
 
   // Calculate solar time
-  const { solarTime, offsetMinutes } = calculateTrueSolarTime(
-    civilTime,
-    position.longitude
-  );
+  const {
+    solarTime,
+    offsetMinutes,
+    meanSolarTime,
+    apparentSolarTime,
+    equationOfTimeMinutes,
+    utcOffsetMinutes,
+    standardOffsetMinutes,
+  } = calculateTrueSolarTime(civilTime, position.longitude, { ...options, timeZone, zoneRules });
+
+  // Read both clocks in the zone, independently of the device's zone
+  const civilClock = getClockAtOffset(civilTime, utcOffsetMinutes);
+  const solarClock = getClockAtOffset(solarTime, standardOffsetMinutes);
 
   // Get shichen data
-  const shichen = getShichenFromSolarTime(solarTime);
+  const shichen = getShichenFromSolarTime(solarTime, standardOffsetMinutes);
 
   return {
     type: 'solar-time',
     civilTime,
+    timeZone,
+    utcOffsetMinutes,
+    standardOffsetMinutes,
     solarTime,
     solarOffsetMinutes: offsetMinutes,
+    solarTimeMode: options.mode ?? 'mean',
+    meanSolarTime,
+    apparentSolarTime,
+    equationOfTimeMinutes,
     precision: position.precision,
     shichen,
     longitude: position.longitude,
-    hour: civilTime.getHours(),
-    minute: civilTime.getMinutes(),
-    solarHour: solarTime.getHours(),
-    solarMinute: solarTime.getMinutes(),
+    hour: civilClock.hour,
+    minute: civilClock.minute,
+    solarHour: solarClock.hour,
+    solarMinute: solarClock.minute,
     // Legacy compatibility
     earthlyBranch: shichen.branch,
     earthlyBranchIndex: shichen.index,
@@ -67,56 +119,57 @@ function getCurrentSolarTimeData(
 export function createSolarTimeProvider(
   config: SolarTimeProviderConfig
 ): SituationProvider<SolarTimeData> {
-  const { geoLocator, updateIntervalMs = 60000 } = config;
-
-  let currentData = getCurrentSolarTimeData(geoLocator, new Date());
+  const {
+    geoLocator,
+    solarTimeMode = 'mean',
+    timeZone,
+    zoneRules,
+    updateOn = 'minute',
+    scheduler = getScheduler(config.clock),
+  } = config;
+  const { clock } = scheduler;
+  const options: SolarTimeOptions = { mode: solarTimeMode, timeZone, zoneRules };
+
+  const getCurrentSolarTimeData = (now: Date = clock.now()) =>
+    calculateSolarTimeData(now, geoLocator.currentPosition, options);
+
+  let currentData = getCurrentSolarTimeData();
   const listeners = new Set<(data: SolarTimeData) => void>();
-  let timeTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  let cancelWakeups: (() => void) | null = null;
   let geoUnsubscribe: (() => void) | null = null;
 
-  const updateData = () => {
-    currentData = getCurrentSolarTimeData(geoLocator, new Date());
+  const updateData = (now?: Date) => {
+    currentData = getCurrentSolarTimeData(now);
     listeners.forEach((cb) => cb(currentData));
   };
 
-  /**
-   * Calculate milliseconds until next minute boundary.
-   * This creates idle periods by aligning updates to minute changes,
-   * allowing Android to enter low-power states between updates.
-   */
-  const getMillisecondsToNextMinute = (): number => {
-    const now = new Date();
-    const secondsUntilNextMinute = 60 - now.getSeconds();
-    const msUntilNextMinute = secondsUntilNextMinute * 1000 - now.getMilliseconds();
-    // Add small buffer (100ms) to ensure we're past the minute boundary
-    return msUntilNextMinute + 100;
-  };
-
-  const scheduleNextUpdate = () => {
-    if (timeTimeoutId) return; // Already scheduled
+  // The shichen boundary follows the latest data, read after each update
+  const boundary: Boundary =
+    updateOn === 'shichen'
+      ? () => getNextShichenStart(currentData.civilTime, currentData.solarTime, currentData.shichen)
+      : minuteBoundary;
 
-    const delay = getMillisecondsToNextMinute();
-    timeTimeoutId = setTimeout(() => {
-      timeTimeoutId = null;
-      updateData();
-      // Schedule next update at the next minute boundary
-      scheduleNextUpdate();
-    }, delay);
+  const scheduleWakeups = () => {
+    if (cancelWakeups) cancelWakeups();
+    cancelWakeups = scheduler.subscribe(boundary, updateData);
   };
 
   const startUpdates = () => {
-    if (timeTimeoutId || geoUnsubscribe) {
+    if (cancelWakeups || geoUnsubscribe) {
       return; // Already started
     }
 
     // Subscribe to position updates from geoLocator
-    geoUnsubscribe = geoLocator.subscribe((position) => {
+    geoUnsubscribe = geoLocator.subscribe(() => {
       // Position changed, recalculate solar time
       updateData();
+      // A new longitude moves the next shichen transition
+      if (updateOn === 'shichen' && cancelWakeups) {
+        scheduleWakeups();
+      }
     });
 
-    // Start smart timing (aligns to minute boundaries)
-    scheduleNextUpdate();
+    scheduleWakeups();
   };
 
   const stopUpdates = () => {
@@ -125,9 +178,9 @@ export function createSolarTimeProvider(
       geoUnsubscribe = null;
     }
 
-    if (timeTimeoutId) {
-      clearTimeout(timeTimeoutId);
-      timeTimeoutId = null;
+    if (cancelWakeups) {
+      cancelWakeups();
+      cancelWakeups = null;
     }
   };
 
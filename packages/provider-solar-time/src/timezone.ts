@@ -0,0 +1,147 @@
+/**
+ * Time zone rules
+ *
+ * Solar time needs the standard (non-DST) UTC offset of a zone, whose
+ * central meridian is the reference for the longitude correction. Zones
+ * are named by IANA id ('Europe/Madrid', 'Asia/Shanghai', ...), so solar
+ * time can be computed for any place, not just the device's zone.
+ *
+ * The default source reads the tz database bundled with the JavaScript
+ * engine through Intl; nothing is fetched over the network.
+ */
+
+const MS_PER_MINUTE = 60 * 1000;
+const MONTH_MS = 30.44 * 24 * 60 * MS_PER_MINUTE;
+
+/** DST lasts at most about eight months (e.g. March to November) */
+const DST_SEARCH_MONTHS = 9;
+
+export interface ZoneRulesSource {
+  /** UTC offset in minutes of a zone at an instant, DST included */
+  getOffsetMinutes: (timeZone: string, instant: Date) => number;
+  /** Standard (non-DST) UTC offset in minutes of a zone at an instant */
+  getStandardOffsetMinutes: (timeZone: string, instant: Date) => number;
+}
+
+/**
+ * The device's IANA time zone
+ */
+export function getDeviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    // Throws RangeError for unknown zones
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function getIntlOffsetMinutes(timeZone: string, instant: Date): number {
+  const fields: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      fields[part.type] = Number(part.value);
+    }
+  }
+  // The zone's wall clock, read as if it were UTC
+  const wallClock = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour,
+    fields.minute,
+    fields.second
+  );
+  const instantSeconds = Math.floor(instant.getTime() / 1000) * 1000;
+  return Math.round((wallClock - instantSeconds) / MS_PER_MINUTE);
+}
+
+/**
+ * Standard offset from the offsets in the months around an instant
+ *
+ * DST is a bump: the offset rises and falls back within a year, so an
+ * instant is in DST when lower offsets occur both before and after it.
+ * A change of standard offset is a step that is not undone, so the
+ * instant keeps the offset of its own side of the step.
+ */
+function getIntlStandardOffsetMinutes(timeZone: string, instant: Date): number {
+  const now = getIntlOffsetMinutes(timeZone, instant);
+  let minBefore = now;
+  let minAfter = now;
+  for (let month = 1; month <= DST_SEARCH_MONTHS; month++) {
+    const shift = month * MONTH_MS;
+    minBefore = Math.min(minBefore, getIntlOffsetMinutes(timeZone, new Date(instant.getTime() - shift)));
+    minAfter = Math.min(minAfter, getIntlOffsetMinutes(timeZone, new Date(instant.getTime() + shift)));
+  }
+
+  if (minBefore < now && minAfter < now) {
+    return Math.max(minBefore, minAfter);
+  }
+  return now;
+}
+
+/**
+ * Zone rules from the engine's built-in tz database (Intl)
+ */
+export const intlZoneRules: ZoneRulesSource = {
+  getOffsetMinutes: getIntlOffsetMinutes,
+  getStandardOffsetMinutes: getIntlStandardOffsetMinutes,
+};
+
+export interface FixedZoneRule {
+  /** Standard UTC offset in minutes */
+  standardOffsetMinutes: number;
+  /** Extra minutes while DST is in effect (default: 60) */
+  dstOffsetMinutes?: number;
+  /** Whether DST is in effect at an instant */
+  isDst?: (instant: Date) => boolean;
+}
+
+/**
+ * Zone rules from explicit definitions, for engines without time zone
+ * support in Intl or for pinning rules in tests. Unknown zones throw.
+ */
+export function createFixedZoneRules(rules: Record<string, FixedZoneRule>): ZoneRulesSource {
+  const getRule = (timeZone: string): FixedZoneRule => {
+    const rule = Object.prototype.hasOwnProperty.call(rules, timeZone) ? rules[timeZone] : undefined;
+    if (!rule) {
+      throw new RangeError(`No zone rule for time zone: ${timeZone}`);
+    }
+    return rule;
+  };
+
+  return {
+    getOffsetMinutes(timeZone, instant) {
+      const rule = getRule(timeZone);
+      const dst = rule.isDst?.(instant) ? rule.dstOffsetMinutes ?? 60 : 0;
+      return rule.standardOffsetMinutes + dst;
+    },
+    getStandardOffsetMinutes(timeZone) {
+      return getRule(timeZone).standardOffsetMinutes;
+    },
+  };
+}
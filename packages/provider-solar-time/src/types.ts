@@ -15,6 +15,13 @@ export type EarthlyBranch =
   | 'xu'   // 戌 Dog     19:00-21:00
   | 'hai'; // 亥 Pig     21:00-23:00
 
+/**
+ * Which solar time drives the shichen:
+ * - 'mean': local mean solar time (longitude offset only, even hours)
+ * - 'apparent': true sundial time, including the equation of time
+ */
+export type SolarTimeMode = 'mean' | 'apparent';
+
 /** Shichen (double-hour) data with hexagram correlation */
 export interface ShichenData {
   /** Shichen index (0-11, where 0 = Zi/Rat hour starting at solar 23:00) */
@@ -33,15 +40,36 @@ export interface ShichenData {
 export interface SolarTimeData extends SituationData {
   type: 'solar-time';
 
-  /** Civil clock time (with timezone/DST as reported by device) */
+  /** Civil clock time (the instant; read in timeZone with utcOffsetMinutes) */
   civilTime: Date;
 
-  /** True local solar time */
+  /** IANA time zone of the civil clock */
+  timeZone: string;
+
+  /** UTC offset of the zone at civilTime in minutes, DST included */
+  utcOffsetMinutes: number;
+
+  /** Standard (non-DST) UTC offset of the zone in minutes; its meridian is the solar reference */
+  standardOffsetMinutes: number;
+
+  /** Local solar time driving the shichen (mean or apparent, per solarTimeMode) */
   solarTime: Date;
 
-  /** Offset from civil time in minutes (positive = solar ahead of civil) */
+  /** Offset of solarTime from the zone's standard time in minutes (positive = solar ahead) */
   solarOffsetMinutes: number;
 
+  /** Which solar time drives the shichen */
+  solarTimeMode: SolarTimeMode;
+
+  /** Local mean solar time (longitude offset only) */
+  meanSolarTime: Date;
+
+  /** Local apparent solar time (including the equation of time) */
+  apparentSolarTime: Date;
+
+  /** Equation of time in minutes (apparent - mean) */
+  equationOfTimeMinutes: number;
+
   /** Precision of the solar time calculation */
   precision: LocationPrecision;
 
@@ -51,10 +79,10 @@ export interface SolarTimeData extends SituationData {
   /** Longitude used for calculation */
   longitude: number;
 
-  /** Civil time hour (0-23) */
+  /** Civil time hour in timeZone (0-23) */
   hour: number;
 
-  /** Civil time minute (0-59) */
+  /** Civil time minute in timeZone (0-59) */
   minute: number;
 
   /** Solar time hour (0-23) */
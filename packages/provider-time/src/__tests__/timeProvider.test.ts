@@ -0,0 +1,89 @@
+/**
+ * Time Provider Tests
+ *
+ * Verifies:
+ * 1. getCurrentData reads the hour, minute and double-hour from the clock
+ * 2. Subscribers get an update at every minute boundary, and the new
+ *    double-hour when it begins
+ * 3. Offset and accelerated clocks drive the provider in simulated time
+ * 4. The last unsubscribe cancels the wakeups
+ *
+ * Framework: Jest
+ * Run: npm test -- --testPathPattern=provider-time
+ */
+
+import { createFixedClock, createSimulatedClock, getScheduler } from '@iching-kt/core';
+import { createTimeProvider, type TimeData } from '../index';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Local times, since the provider reads the device's clock face
+const at = (hour: number, minute: number, second = 0) => new Date(2024, 5, 1, hour, minute, second);
+
+describe('createTimeProvider', () => {
+  it('reads the current data from a fixed clock', () => {
+    const provider = createTimeProvider({ clock: createFixedClock(at(23, 30)) });
+
+    expect(provider.getCurrentData()).toEqual({
+      hour: 23,
+      minute: 30,
+      earthlyBranch: 'zi',
+      earthlyBranchIndex: 0,
+      branchProgress: 0.25,
+    });
+  });
+
+  it('updates at each minute boundary and enters the next double-hour', () => {
+    const clock = createFixedClock(at(10, 58, 30));
+    const provider = createTimeProvider({ clock });
+    const received: TimeData[] = [];
+
+    provider.subscribe((data) => received.push(data));
+    clock.advance(MINUTE);
+    expect(received.map((data) => data.minute)).toEqual([59]);
+    expect(received[0].earthlyBranch).toBe('si');
+
+    clock.advance(MINUTE);
+    expect(received.map((data) => data.minute)).toEqual([59, 0]);
+    expect(received[1].earthlyBranch).toBe('wu');
+    expect(received[1].branchProgress).toBe(0);
+    expect(provider.getCurrentData()).toBe(received[1]);
+  });
+
+  it('runs ahead on an offset clock', () => {
+    const base = createFixedClock(at(9, 0));
+    const provider = createTimeProvider({ clock: createSimulatedClock({ baseClock: base, offsetMs: 6 * HOUR }) });
+
+    expect(provider.getCurrentData()).toMatchObject({ hour: 15, minute: 0, earthlyBranch: 'shen' });
+  });
+
+  it('passes simulated minutes on an accelerated clock', () => {
+    const base = createFixedClock(at(12, 50));
+    const provider = createTimeProvider({ clock: createSimulatedClock({ baseClock: base, rate: 60 }) });
+    const received: string[] = [];
+
+    provider.subscribe((data) => received.push(data.earthlyBranch));
+    // Ten real seconds are ten simulated minutes, 12:51 to 13:00
+    base.advance(10.5 * 1000);
+
+    expect(received).toHaveLength(10);
+    expect(received[8]).toBe('wu');
+    expect(received[9]).toBe('wei');
+    expect(provider.getCurrentData()).toMatchObject({ hour: 13, minute: 0 });
+  });
+
+  it('stops waking once the last subscriber leaves', () => {
+    const clock = createFixedClock(at(8, 0));
+    const scheduler = getScheduler(clock);
+    const provider = createTimeProvider({ scheduler });
+    const callback = jest.fn();
+
+    const unsubscribe = provider.subscribe(callback);
+    unsubscribe();
+    clock.advance(5 * MINUTE);
+
+    expect(callback).not.toHaveBeenCalled();
+    expect(provider.getCurrentData().minute).toBe(0);
+  });
+});
@@ -1,4 +1,4 @@
-import { SituationProvider } from '@iching-kt/core';
+import { Clock, Scheduler, SituationProvider, getScheduler, minuteBoundary } from '@iching-kt/core';
 
 // I-Ching uses 12 double-hours (shi chen), each 2 hours
 // Starting at 23:00 (Zi hour) through the day
@@ -41,8 +41,7 @@ function getBranchProgress(hour: number, minute: number): number {
   return (hourInBranch * 60 + minute) / 120;
 }
 
-function getCurrentTimeData(): TimeData {
-  const now = new Date();
+function getCurrentTimeData(now: Date): TimeData {
   const hour = now.getHours();
   const minute = now.getMinutes();
   const branchIndex = getEarthlyBranchIndex(hour);
@@ -56,37 +55,22 @@ function getCurrentTimeData(): TimeData {
   };
 }
 
-export function createTimeProvider(): SituationProvider<TimeData> {
-  let currentData = getCurrentTimeData();
-  const listeners = new Set<(data: TimeData) => void>();
-  let timeoutId: ReturnType<typeof setTimeout> | null = null;
-
-  const updateData = () => {
-    currentData = getCurrentTimeData();
-    listeners.forEach((cb) => cb(currentData));
-  };
+export interface TimeProviderConfig {
+  clock?: Clock; // Default: systemClock (real time)
+  scheduler?: Scheduler; // Default: the clock's shared scheduler
+}
 
-  /**
-   * Calculate milliseconds until next minute boundary.
-   * Aligns updates to minute changes for better power efficiency.
-   */
-  const getMillisecondsToNextMinute = (): number => {
-    const now = new Date();
-    const secondsUntilNextMinute = 60 - now.getSeconds();
-    const msUntilNextMinute = secondsUntilNextMinute * 1000 - now.getMilliseconds();
-    return msUntilNextMinute + 100; // Small buffer to ensure past minute boundary
-  };
+export function createTimeProvider(config: TimeProviderConfig = {}): SituationProvider<TimeData> {
+  const { scheduler = getScheduler(config.clock) } = config;
+  const { clock } = scheduler;
 
-  const scheduleNextUpdate = () => {
-    if (timeoutId || listeners.size === 0) return;
+  let currentData = getCurrentTimeData(clock.now());
+  const listeners = new Set<(data: TimeData) => void>();
+  let cancelUpdates: (() => void) | null = null;
 
-    const delay = getMillisecondsToNextMinute();
-    timeoutId = setTimeout(() => {
-      timeoutId = null;
-      updateData();
-      // Schedule next update at the next minute boundary
-      scheduleNextUpdate();
-    }, delay);
+  const updateData = (now: Date) => {
+    currentData = getCurrentTimeData(now);
+    listeners.forEach((cb) => cb(currentData));
   };
 
   return {
@@ -95,13 +79,14 @@ export function createTimeProvider(): SituationProvider<TimeData> {
     subscribe(callback) {
       listeners.add(callback);
       if (listeners.size === 1) {
-        scheduleNextUpdate(); // Smart timing aligned to minute boundaries
+        // Wake with the shared scheduler at every minute boundary
+        cancelUpdates = scheduler.subscribe(minuteBoundary, updateData);
       }
       return () => {
         listeners.delete(callback);
-        if (listeners.size === 0 && timeoutId) {
-          clearTimeout(timeoutId);
-          timeoutId = null;
+        if (listeners.size === 0 && cancelUpdates) {
+          cancelUpdates();
+          cancelUpdates = null;
         }
       };
     },
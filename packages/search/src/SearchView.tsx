@@ -0,0 +1,189 @@
+import { useMemo, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, ScrollView } from 'react-native';
+import {
+  KnowletContext,
+  ActionableElement,
+  getThemeColors,
+  getTranslationLanguage,
+  getTranslationSourceForLanguage,
+  useTranslation,
+} from '@iching-kt/core';
+import {
+  getHexagram,
+  getHexagramTranslationBySource,
+  searchHexagrams,
+  SearchSnippet,
+} from '@iching-kt/data-hexagrams';
+import { searchMessages } from './messages';
+
+/** Results shown at once; the rest only match weakly */
+const RESULT_LIMIT = 20;
+
+interface Props {
+  context: KnowletContext;
+}
+
+/**
+ * Snippet text split into plain and highlighted runs
+ */
+function snippetRuns(snippet: SearchSnippet): { text: string; highlighted: boolean }[] {
+  const runs: { text: string; highlighted: boolean }[] = [];
+  let position = 0;
+  for (const { start, end } of snippet.highlights) {
+    if (start > position) runs.push({ text: snippet.text.slice(position, start), highlighted: false });
+    runs.push({ text: snippet.text.slice(start, end), highlighted: true });
+    position = end;
+  }
+  if (position < snippet.text.length) runs.push({ text: snippet.text.slice(position), highlighted: false });
+  return runs;
+}
+
+export function SearchView({ context }: Props) {
+  const t = useTranslation(context, searchMessages);
+  const [query, setQuery] = useState('');
+
+  // Search the translation the user reads (see Translation Sources in General Settings)
+  const translationLanguage = getTranslationLanguage(context.language);
+  const translationSource = getTranslationSourceForLanguage(context.language, context.translationPreferences);
+
+  const results = useMemo(
+    () => searchHexagrams(query, { language: translationLanguage, source: translationSource, limit: RESULT_LIMIT }),
+    [query, translationLanguage, translationSource]
+  );
+
+  const colors = getThemeColors(context.colorScheme);
+
+  return (
+    <ScrollView
+      contentContainerStyle={[styles.scrollContent, { backgroundColor: colors.background }]}
+      keyboardShouldPersistTaps="handled"
+    >
+      <TextInput
+        testID="search-input"
+        style={[styles.input, { color: colors.text, borderColor: colors.border }]}
+        value={query}
+        onChangeText={setQuery}
+        placeholder={t('placeholder')}
+        placeholderTextColor={colors.textTertiary}
+        autoCapitalize="none"
+        autoCorrect={false}
+        clearButtonMode="while-editing"
+        returnKeyType="search"
+      />
+
+      {query.trim() === '' ? (
+        <Text style={[styles.message, { color: colors.textSecondary }]}>{t('hint')}</Text>
+      ) : results.length === 0 ? (
+        <Text style={[styles.message, { color: colors.textSecondary }]}>
+          {t('noResults', { query: query.trim() })}
+        </Text>
+      ) : (
+        <Text style={[styles.count, { color: colors.textTertiary }]}>
+          {t('resultCount', { count: results.length })}
+        </Text>
+      )}
+
+      {results.map((result) => {
+        const hexagram = getHexagram(result.number);
+        const translation = getHexagramTranslationBySource(result.number, translationLanguage, translationSource);
+        if (!hexagram) return null;
+
+        return (
+          <ActionableElement
+            key={result.number}
+            outputType="hexagram"
+            value={result.number}
+            label={t('hexagramLabel', { number: result.number })}
+            onPress={() => context.emitOutput('hexagram', result.number)}
+            onLongPress={() => context.showKnowletSelector('hexagram', result.number)}
+            isActive={false}
+            colorScheme={context.colorScheme}
+            style={[styles.result, { borderColor: colors.border }]}
+          >
+            <View style={styles.resultHeader}>
+              <Text style={[styles.unicode, { color: colors.text }]}>{hexagram.unicode}</Text>
+              <View style={styles.resultTitle}>
+                <Text style={[styles.name, { color: colors.text }]}>
+                  {hexagram.number}. {hexagram.chinese} {translation?.name ?? hexagram.pinyin}
+                </Text>
+                <Text style={[styles.field, { color: colors.textTertiary }]}>
+                  {t(result.snippet.field)}
+                </Text>
+              </View>
+            </View>
+            <Text style={[styles.snippet, { color: colors.textSecondary }]}>
+              {snippetRuns(result.snippet).map((run, i) => (
+                <Text
+                  key={i}
+                  style={run.highlighted ? [styles.highlight, { color: colors.text }] : undefined}
+                >
+                  {run.text}
+                </Text>
+              ))}
+            </Text>
+          </ActionableElement>
+        );
+      })}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  message: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 24,
+  },
+  count: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  result: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  unicode: {
+    fontSize: 32,
+    marginRight: 12,
+  },
+  resultTitle: {
+    flex: 1,
+  },
+  name: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  field: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  snippet: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: '700',
+  },
+});
@@ -0,0 +1,45 @@
+import { Knowlet } from '@iching-kt/core';
+import { SearchView } from './SearchView';
+import { searchMessages } from './messages';
+
+/**
+ * Search Knowlet
+ *
+ * Finds hexagrams by name, pinyin, Chinese characters or any word of
+ * their meaning, judgment and image, in the translation chosen in
+ * General Settings > Translation Sources (see searchHexagrams in
+ * @iching-kt/data-hexagrams). Tapping a result emits it as a 'hexagram'
+ * output; long-pressing picks the knowlet to open it in.
+ */
+export const searchKnowlet: Knowlet = {
+  meta: {
+    id: 'search',
+    name: 'Hexagram Search',
+    names: {
+      en: 'Hexagram Search',
+      es: 'Búsqueda de Hexagramas',
+      zh: '卦象搜尋',
+      fr: 'Recherche d\'hexagrammes',
+      de: 'Hexagramm-Suche',
+      pt: 'Pesquisa de Hexagramas',
+    },
+    description: 'Search the hexagrams\' names, meanings, judgments and images',
+    descriptions: {
+      en: 'Search the hexagrams\' names, meanings, judgments and images',
+      es: 'Buscar en los nombres, significados, dictámenes e imágenes de los hexagramas',
+      zh: '搜尋卦名、卦義、卦辭與象辭',
+      fr: 'Rechercher dans les noms, sens, jugements et images des hexagrammes',
+      de: 'Namen, Bedeutungen, Urteile und Bilder der Hexagramme durchsuchen',
+      pt: 'Pesquisar nomes, significados, julgamentos e imagens dos hexagramas',
+    },
+    requiredProviders: [],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
+    consumes: [],
+    produces: ['hexagram'],
+    category: 'tool',
+  },
+  messages: searchMessages,
+  View: SearchView,
+};
+
+export { SearchView, searchMessages };
@@ -0,0 +1,82 @@
+import { MessageCatalogs } from '@iching-kt/core';
+
+export const searchMessages: MessageCatalogs = {
+  en: {
+    placeholder: 'Search names, judgments, images…',
+    hint: 'Search by name, pinyin, Chinese characters or any word of the text',
+    noResults: 'No hexagram matches "{query}"',
+    resultCount: { one: '{count} hexagram', other: '{count} hexagrams' },
+    hexagramLabel: 'Hexagram {number}',
+    chinese: 'Chinese',
+    pinyin: 'Pinyin',
+    name: 'Name',
+    meaning: 'Meaning',
+    judgment: 'Judgment',
+    image: 'Image',
+  },
+  es: {
+    placeholder: 'Buscar nombres, dictámenes, imágenes…',
+    hint: 'Busca por nombre, pinyin, caracteres chinos o cualquier palabra del texto',
+    noResults: 'Ningún hexagrama coincide con «{query}»',
+    resultCount: { one: '{count} hexagrama', other: '{count} hexagramas' },
+    hexagramLabel: 'Hexagrama {number}',
+    chinese: 'Chino',
+    pinyin: 'Pinyin',
+    name: 'Nombre',
+    meaning: 'Significado',
+    judgment: 'Dictamen',
+    image: 'Imagen',
+  },
+  zh: {
+    placeholder: '搜尋卦名、卦辭、象辭…',
+    hint: '可用卦名、拼音、漢字或文中任何詞語搜尋',
+    noResults: '沒有符合「{query}」的卦',
+    resultCount: { other: '{count} 卦' },
+    hexagramLabel: '第 {number} 卦',
+    chinese: '漢字',
+    pinyin: '拼音',
+    name: '卦名',
+    meaning: '卦義',
+    judgment: '卦辭',
+    image: '象辭',
+  },
+  fr: {
+    placeholder: 'Rechercher noms, jugements, images…',
+    hint: 'Recherchez par nom, pinyin, caractères chinois ou tout mot du texte',
+    noResults: 'Aucun hexagramme ne correspond à « {query} »',
+    resultCount: { one: '{count} hexagramme', other: '{count} hexagrammes' },
+    hexagramLabel: 'Hexagramme {number}',
+    chinese: 'Chinois',
+    pinyin: 'Pinyin',
+    name: 'Nom',
+    meaning: 'Sens',
+    judgment: 'Jugement',
+    image: 'Image',
+  },
+  de: {
+    placeholder: 'Namen, Urteile, Bilder durchsuchen…',
+    hint: 'Suche nach Name, Pinyin, chinesischen Schriftzeichen oder einem beliebigen Wort des Textes',
+    noResults: 'Kein Hexagramm passt zu „{query}“',
+    resultCount: { one: '{count} Hexagramm', other: '{count} Hexagramme' },
+    hexagramLabel: 'Hexagramm {number}',
+    chinese: 'Chinesisch',
+    pinyin: 'Pinyin',
+    name: 'Name',
+    meaning: 'Bedeutung',
+    judgment: 'Urteil',
+    image: 'Bild',
+  },
+  pt: {
+    placeholder: 'Pesquisar nomes, julgamentos, imagens…',
+    hint: 'Pesquise por nome, pinyin, caracteres chineses ou qualquer palavra do texto',
+    noResults: 'Nenhum hexagrama corresponde a "{query}"',
+    resultCount: { one: '{count} hexagrama', other: '{count} hexagramas' },
+    hexagramLabel: 'Hexagrama {number}',
+    chinese: 'Chinês',
+    pinyin: 'Pinyin',
+    name: 'Nome',
+    meaning: 'Significado',
+    judgment: 'Julgamento',
+    image: 'Imagem',
+  },
+};
@@ -1,9 +1,10 @@
 import React from 'react';
-import { Knowlet, KnowletContext, KnowletSettingsSchema } from '@iching-kt/core';
+import { Knowlet, KnowletContext, KnowletSettingsField, KnowletSettingsSchema } from '@iching-kt/core';
 import { LoShuView } from './views/LoShuView';
 import { HeTuView } from './views/HeTuView';
 import { BranchesCircleView } from './views/BranchesCircleView';
 import { HexagramMatrixView } from './views/HexagramMatrixView';
+import { squareMessages } from './messages';
 
 export type SquareViewMode = 'loshu' | 'hetu' | 'branches' | 'matrix';
 
@@ -20,18 +21,36 @@ function SquareKnowletView({ context }: { context: KnowletContext }) {
   return React.createElement(ViewComponent, { context });
 }
 
+/**
+ * Order the Hexagram Matrix lays its 64 cells out in, eight to a row
+ * (see HEXAGRAM_SEQUENCES in @iching-kt/data-hexagrams). Fu Xi's binary
+ * order gives the classic square of lower by upper trigrams.
+ */
+export const matrixSequenceSetting: KnowletSettingsField = {
+  type: 'select',
+  label: { en: 'Matrix Order', es: 'Orden de la Matriz', zh: '矩陣卦序', fr: 'Ordre de la matrice', de: 'Matrix-Reihenfolge', pt: 'Ordem da Matriz' },
+  default: 'fu-xi',
+  options: [
+    { label: { en: 'Fu Xi (binary)', es: 'Fu Xi (binario)', zh: '伏羲先天', fr: 'Fu Xi (binaire)', de: 'Fu Xi (binär)', pt: 'Fu Xi (binário)' }, value: 'fu-xi' },
+    { label: { en: 'King Wen', es: 'Rey Wen', zh: '文王', fr: 'Roi Wen', de: 'König Wen', pt: 'Rei Wen' }, value: 'king-wen' },
+    { label: { en: 'Mawangdui (silk manuscript)', es: 'Mawangdui (manuscrito de seda)', zh: '馬王堆帛書', fr: 'Mawangdui (manuscrit sur soie)', de: 'Mawangdui (Seidenmanuskript)', pt: 'Mawangdui (manuscrito de seda)' }, value: 'mawangdui' },
+    { label: { en: 'Eight Palaces', es: 'Ocho Palacios', zh: '京房八宮', fr: 'Huit Palais', de: 'Acht Paläste', pt: 'Oito Palácios' }, value: 'eight-palaces' },
+  ],
+};
+
 export const squareSettingsSchema: KnowletSettingsSchema = {
   viewMode: {
     type: 'select',
-    label: { en: 'View Mode', es: 'Modo de Vista', zh: '檢視模式' },
+    label: { en: 'View Mode', es: 'Modo de Vista', zh: '檢視模式', fr: 'Mode d\'affichage', de: 'Ansichtsmodus', pt: 'Modo de Visualização' },
     default: 'loshu',
     options: [
-      { label: { en: 'Lo Shu (3x3 Magic Square)', es: 'Lo Shu (Cuadrado Mágico 3x3)', zh: '洛書（三三宮格）' }, value: 'loshu' },
-      { label: { en: 'He Tu (River Map)', es: 'He Tu (Mapa del Río)', zh: '河圖' }, value: 'hetu' },
-      { label: { en: '12 Branches Circle', es: 'Círculo de 12 Ramas', zh: '十二支圓環' }, value: 'branches' },
-      { label: { en: 'Hexagram Matrix (8x8)', es: 'Matriz de Hexagramas (8x8)', zh: '六十四卦矩陣' }, value: 'matrix' },
+      { label: { en: 'Lo Shu (3x3 Magic Square)', es: 'Lo Shu (Cuadrado Mágico 3x3)', zh: '洛書（三三宮格）', fr: 'Lo Shu (carré magique 3x3)', de: 'Lo Shu (magisches Quadrat 3x3)', pt: 'Lo Shu (Quadrado Mágico 3x3)' }, value: 'loshu' },
+      { label: { en: 'He Tu (River Map)', es: 'He Tu (Mapa del Río)', zh: '河圖', fr: 'He Tu (Carte du Fleuve)', de: 'He Tu (Flussplan)', pt: 'He Tu (Mapa do Rio)' }, value: 'hetu' },
+      { label: { en: '12 Branches Circle', es: 'Círculo de 12 Ramas', zh: '十二支圓環', fr: 'Cercle des 12 branches', de: 'Kreis der 12 Zweige', pt: 'Círculo dos 12 Ramos' }, value: 'branches' },
+      { label: { en: 'Hexagram Matrix (8x8)', es: 'Matriz de Hexagramas (8x8)', zh: '六十四卦矩陣', fr: 'Matrice des hexagrammes (8x8)', de: 'Hexagramm-Matrix (8x8)', pt: 'Matriz de Hexagramas (8x8)' }, value: 'matrix' },
     ],
   },
+  matrixSequence: { ...matrixSequenceSetting, visibleWhen: { viewMode: 'matrix' } },
 };
 
 export const squareKnowlet: Knowlet = {
@@ -42,21 +61,28 @@ export const squareKnowlet: Knowlet = {
       en: 'Boards',
       es: 'Paneles',
       zh: '面板',
+      fr: 'Tableaux',
+      de: 'Tafeln',
+      pt: 'Painéis',
     },
     description: 'Traditional I-Ching diagrams: Lo Shu, He Tu, and more',
     descriptions: {
       en: 'Traditional I-Ching diagrams: Lo Shu, He Tu, and more',
       es: 'Diagramas tradicionales del I-Ching: Lo Shu, He Tu, y más',
       zh: '傳統易經圖：洛書、河圖等',
+      fr: 'Diagrammes traditionnels du Yi King : Lo Shu, He Tu, et plus',
+      de: 'Traditionelle I-Ging-Diagramme: Lo Shu, He Tu und mehr',
+      pt: 'Diagramas tradicionais do I Ching: Lo Shu, He Tu e mais',
     },
     requiredProviders: ['solar-time'],
-    supportedLanguages: ['en', 'es', 'zh'],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
     consumes: ['hexagram', 'trigram', 'time'],
     produces: ['hexagram', 'trigram'],
     category: 'board',
   },
   settingsSchema: squareSettingsSchema,
+  messages: squareMessages,
   View: SquareKnowletView,
 };
 
-export { LoShuView, HeTuView, BranchesCircleView, HexagramMatrixView };
+export { LoShuView, HeTuView, BranchesCircleView, HexagramMatrixView, squareMessages };
@@ -0,0 +1,184 @@
+import { MessageCatalogs } from '@iching-kt/core';
+
+export const squareMessages: MessageCatalogs = {
+  en: {
+    loShuTitle: 'Lo Shu Square',
+    heTuTitle: 'River Map',
+    branchesTitle: 'Twelve Earthly Branches',
+    matrixTitle: 'Hexagram Matrix',
+    currentHour: 'Current hour',
+    currentHourValue: 'Current hour: {value}',
+    activeElement: 'Active element: {element}',
+    yangWaxing: 'Yang waxing',
+    yinWaxing: 'Yin waxing',
+    current: 'Current',
+    sovereign: 'Sovereign',
+    'element.water': 'Water',
+    'element.fire': 'Fire',
+    'element.wood': 'Wood',
+    'element.metal': 'Metal',
+    'element.earth': 'Earth',
+    'animal.rat': 'Rat',
+    'animal.ox': 'Ox',
+    'animal.tiger': 'Tiger',
+    'animal.rabbit': 'Rabbit',
+    'animal.dragon': 'Dragon',
+    'animal.snake': 'Snake',
+    'animal.horse': 'Horse',
+    'animal.goat': 'Goat',
+    'animal.monkey': 'Monkey',
+    'animal.rooster': 'Rooster',
+    'animal.dog': 'Dog',
+    'animal.pig': 'Pig',
+  },
+  es: {
+    loShuTitle: 'Cuadrado Lo Shu',
+    heTuTitle: 'Mapa del Río',
+    branchesTitle: 'Doce Ramas Terrestres',
+    matrixTitle: 'Matriz de Hexagramas',
+    currentHour: 'Hora actual',
+    currentHourValue: 'Hora actual: {value}',
+    activeElement: 'Elemento activo: {element}',
+    yangWaxing: 'Yang creciente',
+    yinWaxing: 'Yin creciente',
+    current: 'Actual',
+    sovereign: 'Soberano',
+    'element.water': 'Agua',
+    'element.fire': 'Fuego',
+    'element.wood': 'Madera',
+    'element.metal': 'Metal',
+    'element.earth': 'Tierra',
+    'animal.rat': 'Rata',
+    'animal.ox': 'Buey',
+    'animal.tiger': 'Tigre',
+    'animal.rabbit': 'Conejo',
+    'animal.dragon': 'Dragón',
+    'animal.snake': 'Serpiente',
+    'animal.horse': 'Caballo',
+    'animal.goat': 'Cabra',
+    'animal.monkey': 'Mono',
+    'animal.rooster': 'Gallo',
+    'animal.dog': 'Perro',
+    'animal.pig': 'Cerdo',
+  },
+  zh: {
+    loShuTitle: '洛書',
+    heTuTitle: '河圖',
+    branchesTitle: '十二地支',
+    matrixTitle: '六十四卦矩陣',
+    currentHour: '當前時辰',
+    currentHourValue: '當前時辰：{value}',
+    activeElement: '當令五行：{element}',
+    yangWaxing: '陽長',
+    yinWaxing: '陰長',
+    current: '當前',
+    sovereign: '消息卦',
+    'element.water': '水',
+    'element.fire': '火',
+    'element.wood': '木',
+    'element.metal': '金',
+    'element.earth': '土',
+    'animal.rat': '鼠',
+    'animal.ox': '牛',
+    'animal.tiger': '虎',
+    'animal.rabbit': '兔',
+    'animal.dragon': '龍',
+    'animal.snake': '蛇',
+    'animal.horse': '馬',
+    'animal.goat': '羊',
+    'animal.monkey': '猴',
+    'animal.rooster': '雞',
+    'animal.dog': '狗',
+    'animal.pig': '豬',
+  },
+  fr: {
+    loShuTitle: 'Carré Lo Shu',
+    heTuTitle: 'Carte du Fleuve',
+    branchesTitle: 'Douze Branches Terrestres',
+    matrixTitle: 'Matrice des Hexagrammes',
+    currentHour: 'Heure actuelle',
+    currentHourValue: 'Heure actuelle : {value}',
+    activeElement: 'Élément actif : {element}',
+    yangWaxing: 'Yang croissant',
+    yinWaxing: 'Yin croissant',
+    current: 'Actuel',
+    sovereign: 'Souverain',
+    'element.water': 'Eau',
+    'element.fire': 'Feu',
+    'element.wood': 'Bois',
+    'element.metal': 'Métal',
+    'element.earth': 'Terre',
+    'animal.rat': 'Rat',
+    'animal.ox': 'Buffle',
+    'animal.tiger': 'Tigre',
+    'animal.rabbit': 'Lièvre',
+    'animal.dragon': 'Dragon',
+    'animal.snake': 'Serpent',
+    'animal.horse': 'Cheval',
+    'animal.goat': 'Chèvre',
+    'animal.monkey': 'Singe',
+    'animal.rooster': 'Coq',
+    'animal.dog': 'Chien',
+    'animal.pig': 'Cochon',
+  },
+  de: {
+    loShuTitle: 'Lo-Shu-Quadrat',
+    heTuTitle: 'Flussplan',
+    branchesTitle: 'Zwölf Erdzweige',
+    matrixTitle: 'Hexagramm-Matrix',
+    currentHour: 'Aktuelle Stunde',
+    currentHourValue: 'Aktuelle Stunde: {value}',
+    activeElement: 'Aktives Element: {element}',
+    yangWaxing: 'Yang zunehmend',
+    yinWaxing: 'Yin zunehmend',
+    current: 'Aktuell',
+    sovereign: 'Herrscher',
+    'element.water': 'Wasser',
+    'element.fire': 'Feuer',
+    'element.wood': 'Holz',
+    'element.metal': 'Metall',
+    'element.earth': 'Erde',
+    'animal.rat': 'Ratte',
+    'animal.ox': 'Büffel',
+    'animal.tiger': 'Tiger',
+    'animal.rabbit': 'Hase',
+    'animal.dragon': 'Drache',
+    'animal.snake': 'Schlange',
+    'animal.horse': 'Pferd',
+    'animal.goat': 'Ziege',
+    'animal.monkey': 'Affe',
+    'animal.rooster': 'Hahn',
+    'animal.dog': 'Hund',
+    'animal.pig': 'Schwein',
+  },
+  pt: {
+    loShuTitle: 'Quadrado Lo Shu',
+    heTuTitle: 'Mapa do Rio',
+    branchesTitle: 'Doze Ramos Terrestres',
+    matrixTitle: 'Matriz de Hexagramas',
+    currentHour: 'Hora atual',
+    currentHourValue: 'Hora atual: {value}',
+    activeElement: 'Elemento ativo: {element}',
+    yangWaxing: 'Yang crescente',
+    yinWaxing: 'Yin crescente',
+    current: 'Atual',
+    sovereign: 'Soberano',
+    'element.water': 'Água',
+    'element.fire': 'Fogo',
+    'element.wood': 'Madeira',
+    'element.metal': 'Metal',
+    'element.earth': 'Terra',
+    'animal.rat': 'Rato',
+    'animal.ox': 'Boi',
+    'animal.tiger': 'Tigre',
+    'animal.rabbit': 'Coelho',
+    'animal.dragon': 'Dragão',
+    'animal.snake': 'Serpente',
+    'animal.horse': 'Cavalo',
+    'animal.goat': 'Cabra',
+    'animal.monkey': 'Macaco',
+    'animal.rooster': 'Galo',
+    'animal.dog': 'Cão',
+    'animal.pig': 'Porco',
+  },
+};
@@ -1,32 +1,35 @@
 import { View, Text, StyleSheet } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors } from '@iching-kt/core';
+import { KnowletContext, ActionableElement, getThemeColors, useTranslation } from '@iching-kt/core';
+import type { AnimalOutput } from '@iching-kt/core';
 import type { SolarTimeData } from '@iching-kt/provider-solar-time';
 import type { EarthlyBranch } from '@iching-kt/provider-time';
 import { EARTHLY_BRANCHES } from '@iching-kt/provider-time';
 import { getSovereignHexagram, getHexagram } from '@iching-kt/data-hexagrams';
+import { squareMessages } from '../messages';
 
 interface Props {
   context: KnowletContext;
 }
 
-const BRANCH_INFO: Record<EarthlyBranch, { chinese: string; animal: string; animalEs: string }> = {
-  zi: { chinese: '子', animal: 'Rat', animalEs: 'Rata' },
-  chou: { chinese: '丑', animal: 'Ox', animalEs: 'Buey' },
-  yin: { chinese: '寅', animal: 'Tiger', animalEs: 'Tigre' },
-  mao: { chinese: '卯', animal: 'Rabbit', animalEs: 'Conejo' },
-  chen: { chinese: '辰', animal: 'Dragon', animalEs: 'Dragón' },
-  si: { chinese: '巳', animal: 'Snake', animalEs: 'Serpiente' },
-  wu: { chinese: '午', animal: 'Horse', animalEs: 'Caballo' },
-  wei: { chinese: '未', animal: 'Goat', animalEs: 'Cabra' },
-  shen: { chinese: '申', animal: 'Monkey', animalEs: 'Mono' },
-  you: { chinese: '酉', animal: 'Rooster', animalEs: 'Gallo' },
-  xu: { chinese: '戌', animal: 'Dog', animalEs: 'Perro' },
-  hai: { chinese: '亥', animal: 'Pig', animalEs: 'Cerdo' },
+const BRANCH_INFO: Record<EarthlyBranch, { chinese: string; animal: AnimalOutput }> = {
+  zi: { chinese: '子', animal: 'rat' },
+  chou: { chinese: '丑', animal: 'ox' },
+  yin: { chinese: '寅', animal: 'tiger' },
+  mao: { chinese: '卯', animal: 'rabbit' },
+  chen: { chinese: '辰', animal: 'dragon' },
+  si: { chinese: '巳', animal: 'snake' },
+  wu: { chinese: '午', animal: 'horse' },
+  wei: { chinese: '未', animal: 'goat' },
+  shen: { chinese: '申', animal: 'monkey' },
+  you: { chinese: '酉', animal: 'rooster' },
+  xu: { chinese: '戌', animal: 'dog' },
+  hai: { chinese: '亥', animal: 'pig' },
 };
 
 const CIRCLE_RADIUS = 120;
 
 export function BranchesCircleView({ context }: Props) {
+  const t = useTranslation(context, squareMessages);
   const solarTimeData = context.situations['solar-time'] as SolarTimeData | undefined;
   const currentBranch = solarTimeData?.shichen as EarthlyBranch | undefined;
   const colors = getThemeColors(context.colorScheme);
@@ -47,6 +50,7 @@ export function BranchesCircleView({ context }: Props) {
     const y = Math.sin(angle) * CIRCLE_RADIUS;
 
     const info = BRANCH_INFO[branch];
+    const animal = t(`animal.${info.animal}`);
     const sovereign = getSovereignHexagram(branch);
     const hexagram = getHexagram(sovereign.hexagramNumber);
     const isActive = branch === currentBranch;
@@ -59,7 +63,7 @@ export function BranchesCircleView({ context }: Props) {
         <ActionableElement
           outputType="hexagram"
           value={sovereign.hexagramNumber}
-          label={`${info.chinese} ${context.language === 'es' ? info.animalEs : info.animal}`}
+          label={`${info.chinese} ${animal}`}
           onPress={() => handlePress(branch)}
           onLongPress={() => handleLongPress(branch)}
           isActive={isActive}
@@ -74,7 +78,7 @@ export function BranchesCircleView({ context }: Props) {
             {info.chinese}
           </Text>
           <Text style={[styles.animal, { color: isActive ? '#fff' : colors.textSecondary }]}>
-            {context.language === 'es' ? info.animalEs : info.animal}
+            {animal}
           </Text>
         </ActionableElement>
       </View>
@@ -87,7 +91,7 @@ export function BranchesCircleView({ context }: Props) {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <Text style={[styles.title, { color: colors.text }]}>
-        {context.language === 'es' ? 'Doce Ramas Terrestres' : 'Twelve Earthly Branches'}
+        {t('branchesTitle')}
       </Text>
       <Text style={[styles.subtitle, { color: colors.textSecondary }]}>十二地支</Text>
 
@@ -106,19 +110,15 @@ export function BranchesCircleView({ context }: Props) {
       {currentBranch && currentSovereign && (
         <View style={[styles.legend, { backgroundColor: colors.surfaceSecondary }]}>
           <Text style={[styles.legendTitle, { color: colors.textTertiary }]}>
-            {context.language === 'es' ? 'Hora actual' : 'Current hour'}
+            {t('currentHour')}
           </Text>
           <Text style={[styles.legendText, { color: colors.text }]}>
-            {BRANCH_INFO[currentBranch].chinese} ({currentBranch}) - {
-              context.language === 'es'
-                ? BRANCH_INFO[currentBranch].animalEs
-                : BRANCH_INFO[currentBranch].animal
-            }
+            {BRANCH_INFO[currentBranch].chinese} ({currentBranch}) - {t(`animal.${BRANCH_INFO[currentBranch].animal}`)}
           </Text>
           <Text style={[styles.legendPhase, { color: colors.textSecondary }]}>
             {currentSovereign.phase === 'waxing'
-              ? (context.language === 'es' ? 'Yang creciente' : 'Yang waxing')
-              : (context.language === 'es' ? 'Yin creciente' : 'Yin waxing')}
+              ? t('yangWaxing')
+              : t('yinWaxing')}
             {' '}{currentSovereign.yangLines}/6
           </Text>
         </View>
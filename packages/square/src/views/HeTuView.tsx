@@ -1,74 +1,71 @@
 import { View, Text, StyleSheet } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors } from '@iching-kt/core';
+import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors, useTranslation } from '@iching-kt/core';
+import type { ElementOutput } from '@iching-kt/core';
 import type { SolarTimeData } from '@iching-kt/provider-solar-time';
 import type { EarthlyBranch } from '@iching-kt/provider-time';
+import { squareMessages } from '../messages';
 
 interface Props {
   context: KnowletContext;
 }
 
 interface ElementData {
-  name: string;
-  nameEs: string;
   inner: number;
   outer: number;
   branches: EarthlyBranch[];
 }
 
-const ELEMENTS: Record<string, ElementData> = {
+const ELEMENTS: Record<ElementOutput, ElementData> = {
   water: {
-    name: 'Water', nameEs: 'Agua',
     inner: 1, outer: 6,
     branches: ['zi', 'hai'],
   },
   fire: {
-    name: 'Fire', nameEs: 'Fuego',
     inner: 2, outer: 7,
     branches: ['wu', 'si'],
   },
   wood: {
-    name: 'Wood', nameEs: 'Madera',
     inner: 3, outer: 8,
     branches: ['yin', 'mao'],
   },
   metal: {
-    name: 'Metal', nameEs: 'Metal',
     inner: 4, outer: 9,
     branches: ['shen', 'you'],
   },
   earth: {
-    name: 'Earth', nameEs: 'Tierra',
     inner: 5, outer: 10,
     branches: ['chen', 'xu', 'chou', 'wei'],
   },
 };
 
-function getActiveElement(branch?: EarthlyBranch): string | undefined {
+function getActiveElement(branch?: EarthlyBranch): ElementOutput | undefined {
   if (!branch) return undefined;
-  for (const [key, data] of Object.entries(ELEMENTS)) {
+  for (const [key, data] of Object.entries(ELEMENTS) as [ElementOutput, ElementData][]) {
     if (data.branches.includes(branch)) return key;
   }
   return undefined;
 }
 
 export function HeTuView({ context }: Props) {
+  const t = useTranslation(context, squareMessages);
   const solarTimeData = context.situations['solar-time'] as SolarTimeData | undefined;
   const currentBranch = solarTimeData?.shichen as EarthlyBranch | undefined;
   const activeElement = getActiveElement(currentBranch);
   const colors = getThemeColors(context.colorScheme);
   const abstractColors = getAbstractColors(context.colorScheme);
 
-  const handlePress = (elementKey: string) => {
+  const handlePress = (elementKey: ElementOutput) => {
     // Element detail view could be added later
     context.emitOutput('element', elementKey);
   };
 
-  const handleLongPress = (elementKey: string) => {
+  const handleLongPress = (elementKey: ElementOutput) => {
     context.showKnowletSelector('element', elementKey);
   };
 
-  const renderElement = (elementKey: string) => {
+  const renderElement = (elementKey: ElementOutput) => {
     const data = ELEMENTS[elementKey];
+    const name = t(`element.${elementKey}`);
     const isActive = elementKey === activeElement;
     const elementColors = abstractColors.elements[elementKey as keyof typeof abstractColors.elements];
     const activeColor = elementColors?.activeColor || colors.surfaceSecondary;
@@ -78,7 +75,7 @@ export function HeTuView({ context }: Props) {
         key={elementKey}
         outputType="element"
         value={elementKey}
-        label={context.language === 'es' ? data.nameEs : data.name}
+        label={name}
         onPress={() => handlePress(elementKey)}
         onLongPress={() => handleLongPress(elementKey)}
         isActive={isActive}
@@ -87,7 +84,7 @@ export function HeTuView({ context }: Props) {
         style={styles.hetuElement}
       >
         <Text style={[styles.elementName, { color: colors.text }, isActive && styles.activeText]}>
-          {context.language === 'es' ? data.nameEs : data.name}
+          {name}
         </Text>
         <Text style={[styles.numbers, { color: colors.text }, isActive && styles.activeText]}>
           {data.inner} · {data.outer}
@@ -104,7 +101,7 @@ export function HeTuView({ context }: Props) {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <Text style={[styles.title, { color: colors.text }]}>
-        {context.language === 'es' ? 'Mapa del Río' : 'River Map'}
+        {t('heTuTitle')}
       </Text>
       <Text style={[styles.subtitle, { color: colors.textSecondary }]}>河圖 He Tu</Text>
 
@@ -121,10 +118,7 @@ export function HeTuView({ context }: Props) {
       {currentBranch && activeElement && (
         <View style={[styles.legend, { backgroundColor: colors.surfaceSecondary }]}>
           <Text style={[styles.legendText, { color: colors.text }]}>
-            {context.language === 'es' ? 'Elemento activo: ' : 'Active element: '}
-            {context.language === 'es'
-              ? ELEMENTS[activeElement].nameEs
-              : ELEMENTS[activeElement].name}
+            {t('activeElement', { element: t(`element.${activeElement}`) })}
           </Text>
         </View>
       )}
@@ -1,32 +1,50 @@
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors } from '@iching-kt/core';
-import { getHexagram } from '@iching-kt/data-hexagrams';
+import { KnowletContext, ActionableElement, getThemeColors, useTranslation } from '@iching-kt/core';
+import {
+  getHexagram,
+  getHexagramSequence,
+  getTrigram,
+  HexagramSequence,
+  isHexagramSequenceId,
+  PALACE_GENERATION_NAMES,
+  PALACE_GENERATIONS,
+  trigramOrder,
+} from '@iching-kt/data-hexagrams';
 import type { SolarTimeData } from '@iching-kt/provider-solar-time';
 import type { EarthlyBranch } from '@iching-kt/provider-time';
 import { getSovereignHexagram, sovereignSequence } from '@iching-kt/data-hexagrams';
+import { squareMessages } from '../messages';
 
 interface Props {
   context: KnowletContext;
 }
 
-const TRIGRAM_ORDER = ['heaven', 'lake', 'fire', 'thunder', 'wind', 'water', 'mountain', 'earth'];
-const TRIGRAM_SYMBOLS: Record<string, string> = {
-  heaven: '☰', lake: '☱', fire: '☲', thunder: '☳',
-  wind: '☴', water: '☵', mountain: '☶', earth: '☷',
-};
-
-const HEXAGRAM_MATRIX: number[][] = [
-  [1, 43, 14, 34, 9, 5, 26, 11],
-  [10, 58, 38, 54, 61, 60, 41, 19],
-  [13, 49, 30, 55, 37, 63, 22, 36],
-  [25, 17, 21, 51, 42, 3, 27, 24],
-  [44, 28, 50, 32, 57, 48, 18, 46],
-  [6, 47, 64, 40, 59, 29, 4, 7],
-  [33, 31, 56, 62, 53, 39, 52, 15],
-  [12, 45, 35, 16, 20, 8, 23, 2],
-];
+/**
+ * The sequence eight to a row. In Fu Xi order rows are lower trigrams and
+ * columns upper trigrams; Mawangdui rows share an upper trigram and Eight
+ * Palaces rows a palace.
+ */
+function getMatrixRows(sequence: HexagramSequence): number[][] {
+  return Array.from({ length: 8 }, (_, row) => sequence.hexagrams.slice(row * 8, row * 8 + 8));
+}
+
+/**
+ * Column headers: upper trigrams in Fu Xi order, palace generations in
+ * Eight Palaces order, none otherwise
+ */
+function getColumnHeaders(sequence: HexagramSequence): string[] | undefined {
+  if (sequence.id === 'fu-xi') return trigramOrder.map((trigram) => getTrigram(trigram).symbol);
+  if (sequence.id === 'eight-palaces') return PALACE_GENERATIONS.map((generation) => PALACE_GENERATION_NAMES[generation]);
+  return undefined;
+}
 
 export function HexagramMatrixView({ context }: Props) {
+  const t = useTranslation(context, squareMessages);
+  const sequence = getHexagramSequence(
+    isHexagramSequenceId(context.settings.matrixSequence) ? context.settings.matrixSequence : 'fu-xi'
+  );
+  const matrixRows = getMatrixRows(sequence);
+  const columnHeaders = getColumnHeaders(sequence);
   const solarTimeData = context.situations['solar-time'] as SolarTimeData | undefined;
   const currentBranch = solarTimeData?.shichen as EarthlyBranch | undefined;
   const currentSovereign = currentBranch ? getSovereignHexagram(currentBranch) : null;
@@ -47,25 +65,33 @@ export function HexagramMatrixView({ context }: Props) {
   return (
     <ScrollView contentContainerStyle={[styles.scrollContainer, { backgroundColor: colors.background }]}>
       <Text style={[styles.title, { color: colors.text }]}>
-        {context.language === 'es' ? 'Matriz de Hexagramas' : 'Hexagram Matrix'}
+        {t('matrixTitle')}
       </Text>
-      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>六十四卦 (64 Hexagrams)</Text>
+      <Text style={[styles.subtitle, { color: colors.textSecondary }]}>六十四卦 (64 Hexagrams) · {sequence.chinese}</Text>
 
       {/* Column headers */}
-      <View style={styles.headerRow}>
-        <View style={styles.cornerCell} />
-        {TRIGRAM_ORDER.map((trigram) => (
-          <View key={trigram} style={styles.headerCell}>
-            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[trigram]}</Text>
-          </View>
-        ))}
-      </View>
+      {columnHeaders && (
+        <View style={styles.headerRow}>
+          <View style={styles.cornerCell} />
+          {columnHeaders.map((header) => (
+            <View key={header} style={styles.headerCell}>
+              <Text style={[header.length > 1 ? styles.generationName : styles.trigramSymbol, { color: colors.text }]}>
+                {header}
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
 
       {/* Matrix rows */}
-      {HEXAGRAM_MATRIX.map((row, rowIdx) => (
+      {matrixRows.map((row, rowIdx) => (
         <View key={rowIdx} style={styles.matrixRow}>
           <View style={styles.rowHeader}>
-            <Text style={[styles.trigramSymbol, { color: colors.text }]}>{TRIGRAM_SYMBOLS[TRIGRAM_ORDER[rowIdx]]}</Text>
+            {sequence.groupTrigrams && (
+              <Text style={[styles.trigramSymbol, { color: colors.text }]}>
+                {getTrigram(sequence.groupTrigrams[rowIdx]).symbol}
+              </Text>
+            )}
           </View>
 
           {row.map((hexNum, colIdx) => {
@@ -122,7 +148,7 @@ export function HexagramMatrixView({ context }: Props) {
             }
           ]} />
           <Text style={[styles.legendText, { color: colors.text }]}>
-            {context.language === 'es' ? 'Actual' : 'Current'}
+            {t('current')}
           </Text>
         </View>
         <View style={styles.legendItem}>
@@ -135,7 +161,7 @@ export function HexagramMatrixView({ context }: Props) {
             }
           ]} />
           <Text style={[styles.legendText, { color: colors.text }]}>
-            {context.language === 'es' ? 'Soberano' : 'Sovereign'}
+            {t('sovereign')}
           </Text>
         </View>
       </View>
@@ -176,6 +202,9 @@ const styles = StyleSheet.create({
   trigramSymbol: {
     fontSize: 16,
   },
+  generationName: {
+    fontSize: 11,
+  },
   matrixRow: {
     flexDirection: 'row',
     marginBottom: 2,
@@ -1,6 +1,8 @@
 import { View, Text, StyleSheet } from 'react-native';
-import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors } from '@iching-kt/core';
+import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors, useTranslation } from '@iching-kt/core';
+import type { TrigramOutput } from '@iching-kt/core';
 import type { SolarTimeData, EarthlyBranch } from '@iching-kt/provider-solar-time';
+import { squareMessages } from '../messages';
 
 interface Props {
   context: KnowletContext;
@@ -22,12 +24,12 @@ const LO_SHU_GRID = [
   [8, 1, 6],
 ];
 
-const LO_SHU_TRIGRAMS: Record<number, { trigram: string; trigramId: string; direction: string; element: string }> = {
+const LO_SHU_TRIGRAMS: Record<number, { trigram: string; trigramId: TrigramOutput | null; direction: string; element: string }> = {
   1: { trigram: '☵', trigramId: 'water', direction: 'N', element: 'Water' },
   2: { trigram: '☷', trigramId: 'earth', direction: 'SW', element: 'Earth' },
   3: { trigram: '☳', trigramId: 'thunder', direction: 'E', element: 'Wood' },
   4: { trigram: '☴', trigramId: 'wind', direction: 'SE', element: 'Wood' },
-  5: { trigram: '☯', trigramId: 'center', direction: 'Center', element: 'Earth' },
+  5: { trigram: '☯', trigramId: null, direction: 'Center', element: 'Earth' },
   6: { trigram: '☰', trigramId: 'heaven', direction: 'NW', element: 'Metal' },
   7: { trigram: '☱', trigramId: 'lake', direction: 'W', element: 'Metal' },
   8: { trigram: '☶', trigramId: 'mountain', direction: 'NE', element: 'Earth' },
@@ -49,6 +51,7 @@ const ELEMENT_TO_KEY: Record<string, 'water' | 'wood' | 'fire' | 'earth' | 'meta
 };
 
 export function LoShuView({ context }: Props) {
+  const t = useTranslation(context, squareMessages);
   const solarTimeData = context.situations['solar-time'] as SolarTimeData | undefined;
   const currentBranch = solarTimeData?.earthlyBranch;
   const activeLoshu = currentBranch ? BRANCH_TO_LOSHU[currentBranch] : undefined;
@@ -57,15 +60,14 @@ export function LoShuView({ context }: Props) {
 
   const handlePress = (num: number) => {
     const info = LO_SHU_TRIGRAMS[num];
-    if (info && num !== 5) {
-      // Trigram detail view could be added later
+    if (info?.trigramId) {
       context.emitOutput('trigram', info.trigramId);
     }
   };
 
   const handleLongPress = (num: number) => {
     const info = LO_SHU_TRIGRAMS[num];
-    if (info && num !== 5) {
+    if (info?.trigramId) {
       context.showKnowletSelector('trigram', info.trigramId);
     }
   };
@@ -73,7 +75,7 @@ export function LoShuView({ context }: Props) {
   return (
     <View style={[styles.container, { backgroundColor: colors.background }]}>
       <Text style={[styles.title, { color: colors.text }]}>
-        {context.language === 'es' ? 'Cuadrado Lo Shu' : 'Lo Shu Square'}
+        {t('loShuTitle')}
       </Text>
       <Text style={[styles.subtitle, { color: colors.textSecondary }]}>洛書</Text>
 
@@ -90,7 +92,8 @@ export function LoShuView({ context }: Props) {
                 <ActionableElement
                   key={num}
                   outputType="trigram"
-                  value={info.trigramId}
+                  // The center has no trigram; its cell is disabled and never emits
+                  value={info.trigramId ?? 'earth'}
                   label={`${info.trigram} ${info.direction}`}
                   onPress={() => handlePress(num)}
                   onLongPress={() => handleLongPress(num)}
@@ -119,8 +122,7 @@ export function LoShuView({ context }: Props) {
       {currentBranch && (
         <View style={[styles.legend, { backgroundColor: colors.surfaceSecondary }]}>
           <Text style={[styles.legendText, { color: colors.text }]}>
-            {context.language === 'es' ? 'Hora actual: ' : 'Current hour: '}
-            {currentBranch} ({activeLoshu})
+            {t('currentHourValue', { value: `${currentBranch} (${activeLoshu})` })}
           </Text>
         </View>
       )}
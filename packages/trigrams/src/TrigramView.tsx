@@ -0,0 +1,221 @@
+import { View, Text, StyleSheet, ScrollView } from 'react-native';
+import { KnowletContext, ActionableElement, getThemeColors, getAbstractColors, useTranslation } from '@iching-kt/core';
+import {
+  composeHexagram,
+  getHexagram,
+  getTrigram,
+  getTrigramTranslation,
+  TrigramId,
+} from '@iching-kt/data-hexagrams';
+import { trigramsMessages } from './messages';
+
+interface Props {
+  context: KnowletContext;
+}
+
+export function TrigramView({ context }: Props) {
+  const t = useTranslation(context, trigramsMessages);
+
+  // Get trigram id from inputData (passed from another knowlet, validated when routed)
+  const trigramId: TrigramId = context.inputData?.type === 'trigram'
+    ? context.inputData.value
+    : 'heaven'; // Default to heaven
+
+  const colors = getThemeColors(context.colorScheme);
+  const abstractColors = getAbstractColors(context.colorScheme);
+  const trigram = getTrigram(trigramId);
+  const translation = getTrigramTranslation(trigramId, context.language);
+  const doubled = getHexagram(composeHexagram(trigramId, trigramId) ?? 0);
+  const elementName = t(`element.${trigram.element}`);
+
+  if (!translation) {
+    return (
+      <View style={[styles.container, { backgroundColor: colors.background }]}>
+        <Text style={[styles.error, { color: colors.textSecondary }]}>
+          {t('notFound')}
+        </Text>
+      </View>
+    );
+  }
+
+  const details = [
+    { label: t('attribute'), value: translation.attribute },
+    { label: t('image'), value: translation.image },
+    { label: t('family'), value: translation.family },
+    {
+      label: t('earlierHeaven'),
+      value: `${trigram.earlierHeaven.direction} · ${trigram.earlierHeaven.number}`,
+    },
+    {
+      label: t('laterHeaven'),
+      value: `${trigram.laterHeaven.direction} · ${trigram.laterHeaven.number}`,
+    },
+  ];
+
+  return (
+    <ScrollView contentContainerStyle={[styles.scrollContent, { backgroundColor: colors.background }]}>
+      <View style={styles.heroSection}>
+        <Text style={[styles.symbol, { color: colors.text }]}>{trigram.symbol}</Text>
+        <Text style={[styles.chinese, { color: colors.text }]}>{trigram.chinese}</Text>
+        <Text style={[styles.pinyin, { color: colors.textSecondary }]}>{trigram.pinyin}</Text>
+      </View>
+
+      <Text style={[styles.name, { color: colors.text }]}>{translation.name}</Text>
+
+      <View style={[styles.details, { borderColor: colors.border }]}>
+        {details.map((detail) => (
+          <View key={detail.label} style={[styles.detailRow, { borderBottomColor: colors.border }]}>
+            <Text style={[styles.detailLabel, { color: colors.textTertiary }]}>{detail.label}</Text>
+            <Text style={[styles.detailValue, { color: colors.text }]}>{detail.value}</Text>
+          </View>
+        ))}
+      </View>
+
+      {/* Actionable element and doubled hexagram */}
+      <View style={styles.actionRow}>
+        <ActionableElement
+          outputType="element"
+          value={trigram.element}
+          label={t('elementLabel', { element: elementName })}
+          onPress={() => context.emitOutput('element', trigram.element)}
+          onLongPress={() => context.showKnowletSelector('element', trigram.element)}
+          isActive={false}
+          colorScheme={context.colorScheme}
+          style={[styles.actionBox, { backgroundColor: abstractColors.elements[trigram.element].defaultColor }]}
+        >
+          <Text style={[styles.actionLabel, { color: colors.textTertiary }]}>
+            {t('element')}
+          </Text>
+          <Text style={[styles.actionValue, { color: abstractColors.elements[trigram.element].activeColor }]}>
+            {elementName}
+          </Text>
+        </ActionableElement>
+
+        {doubled && (
+          <ActionableElement
+            outputType="hexagram"
+            value={doubled.number}
+            label={t('hexagramLabel', { number: doubled.number })}
+            onPress={() => context.emitOutput('hexagram', doubled.number)}
+            onLongPress={() => context.showKnowletSelector('hexagram', doubled.number)}
+            isActive={false}
+            colorScheme={context.colorScheme}
+            style={styles.actionBox}
+          >
+            <Text style={[styles.actionLabel, { color: colors.textTertiary }]}>
+              {t('doubledHexagram')}
+            </Text>
+            <Text style={[styles.actionSymbol, { color: colors.text }]}>{doubled.unicode}</Text>
+            <Text style={[styles.actionValue, { color: colors.text }]}>#{doubled.number}</Text>
+          </ActionableElement>
+        )}
+      </View>
+
+      <View style={[styles.binarySection, { borderTopColor: colors.border }]}>
+        <Text style={[styles.binaryLabel, { color: colors.textTertiary }]}>{t('binary')}</Text>
+        <Text style={[styles.binaryValue, { color: colors.text }]}>{trigram.binary}</Text>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  error: {
+    fontSize: 16,
+  },
+  scrollContent: {
+    padding: 20,
+    paddingBottom: 40,
+    alignItems: 'center',
+  },
+  heroSection: {
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  symbol: {
+    fontSize: 120,
+    lineHeight: 140,
+  },
+  chinese: {
+    fontSize: 48,
+    fontWeight: '300',
+    marginTop: -8,
+  },
+  pinyin: {
+    fontSize: 18,
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
+  name: {
+    fontSize: 28,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  details: {
+    width: '100%',
+    borderTopWidth: 1,
+    marginBottom: 24,
+  },
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+  },
+  detailLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  detailValue: {
+    fontSize: 16,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 24,
+    marginBottom: 24,
+  },
+  actionBox: {
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+  },
+  actionLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  actionSymbol: {
+    fontSize: 32,
+    marginVertical: 4,
+  },
+  actionValue: {
+    fontSize: 14,
+    fontWeight: '500',
+    textTransform: 'capitalize',
+  },
+  binarySection: {
+    alignItems: 'center',
+    paddingTop: 16,
+    borderTopWidth: 1,
+    width: '100%',
+  },
+  binaryLabel: {
+    fontSize: 12,
+    textTransform: 'uppercase',
+    letterSpacing: 1,
+  },
+  binaryValue: {
+    fontSize: 24,
+    fontFamily: 'monospace',
+    letterSpacing: 4,
+    marginTop: 4,
+  },
+});
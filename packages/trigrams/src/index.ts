@@ -0,0 +1,43 @@
+import { Knowlet } from '@iching-kt/core';
+import { TrigramView } from './TrigramView';
+import { trigramsMessages } from './messages';
+
+/**
+ * Trigrams Knowlet
+ *
+ * Receives 'trigram' outputs (from Hexagram Details, Hours, Lo Shu...)
+ * and shows the trigram's attribute, image, family member, element
+ * and its place in the Earlier and Later Heaven arrangements.
+ */
+export const trigramsKnowlet: Knowlet = {
+  meta: {
+    id: 'trigrams',
+    name: 'Trigram Details',
+    names: {
+      en: 'Trigram Details',
+      es: 'Detalles del Trigrama',
+      zh: '八卦詳情',
+      fr: 'Détails du trigramme',
+      de: 'Trigramm-Details',
+      pt: 'Detalhes do Trigrama',
+    },
+    description: 'View detailed information about a trigram',
+    descriptions: {
+      en: 'View detailed information about a trigram',
+      es: 'Ver información detallada sobre un trigrama',
+      zh: '查看八卦的詳細信息',
+      fr: 'Afficher les informations détaillées d\'un trigramme',
+      de: 'Ausführliche Informationen zu einem Trigramm anzeigen',
+      pt: 'Ver informações detalhadas sobre um trigrama',
+    },
+    requiredProviders: [],
+    supportedLanguages: ['en', 'es', 'zh', 'fr', 'de', 'pt'],
+    consumes: ['trigram'],
+    produces: ['hexagram', 'element'],
+    category: 'board',
+  },
+  messages: trigramsMessages,
+  View: TrigramView,
+};
+
+export { TrigramView, trigramsMessages };
@@ -0,0 +1,112 @@
+import { MessageCatalogs } from '@iching-kt/core';
+
+export const trigramsMessages: MessageCatalogs = {
+  en: {
+    notFound: 'Trigram not found',
+    attribute: 'Attribute',
+    image: 'Image',
+    family: 'Family',
+    earlierHeaven: 'Earlier Heaven',
+    laterHeaven: 'Later Heaven',
+    element: 'Element',
+    elementLabel: 'Element: {element}',
+    'element.water': 'Water',
+    'element.fire': 'Fire',
+    'element.wood': 'Wood',
+    'element.metal': 'Metal',
+    'element.earth': 'Earth',
+    doubledHexagram: 'Doubled Hexagram',
+    hexagramLabel: 'Hexagram {number}',
+    binary: 'Binary',
+  },
+  es: {
+    notFound: 'Trigrama no encontrado',
+    attribute: 'Atributo',
+    image: 'Imagen',
+    family: 'Familia',
+    earlierHeaven: 'Cielo Anterior',
+    laterHeaven: 'Cielo Posterior',
+    element: 'Elemento',
+    elementLabel: 'Elemento: {element}',
+    'element.water': 'Agua',
+    'element.fire': 'Fuego',
+    'element.wood': 'Madera',
+    'element.metal': 'Metal',
+    'element.earth': 'Tierra',
+    doubledHexagram: 'Hexagrama Doble',
+    hexagramLabel: 'Hexagrama {number}',
+    binary: 'Binario',
+  },
+  zh: {
+    notFound: '找不到此卦',
+    attribute: '卦德',
+    image: '卦象',
+    family: '家人',
+    earlierHeaven: '先天八卦',
+    laterHeaven: '後天八卦',
+    element: '五行',
+    elementLabel: '五行：{element}',
+    'element.water': '水',
+    'element.fire': '火',
+    'element.wood': '木',
+    'element.metal': '金',
+    'element.earth': '土',
+    doubledHexagram: '重卦',
+    hexagramLabel: '第{number}卦',
+    binary: '二進制',
+  },
+  fr: {
+    notFound: 'Trigramme introuvable',
+    attribute: 'Attribut',
+    image: 'Image',
+    family: 'Famille',
+    earlierHeaven: 'Ciel Antérieur',
+    laterHeaven: 'Ciel Postérieur',
+    element: 'Élément',
+    elementLabel: 'Élément : {element}',
+    'element.water': 'Eau',
+    'element.fire': 'Feu',
+    'element.wood': 'Bois',
+    'element.metal': 'Métal',
+    'element.earth': 'Terre',
+    doubledHexagram: 'Hexagramme redoublé',
+    hexagramLabel: 'Hexagramme {number}',
+    binary: 'Binaire',
+  },
+  de: {
+    notFound: 'Trigramm nicht gefunden',
+    attribute: 'Eigenschaft',
+    image: 'Bild',
+    family: 'Familie',
+    earlierHeaven: 'Früherer Himmel',
+    laterHeaven: 'Späterer Himmel',
+    element: 'Element',
+    elementLabel: 'Element: {element}',
+    'element.water': 'Wasser',
+    'element.fire': 'Feuer',
+    'element.wood': 'Holz',
+    'element.metal': 'Metall',
+    'element.earth': 'Erde',
+    doubledHexagram: 'Verdoppeltes Hexagramm',
+    hexagramLabel: 'Hexagramm {number}',
+    binary: 'Binär',
+  },
+  pt: {
+    notFound: 'Trigrama não encontrado',
+    attribute: 'Atributo',
+    image: 'Imagem',
+    family: 'Família',
+    earlierHeaven: 'Céu Anterior',
+    laterHeaven: 'Céu Posterior',
+    element: 'Elemento',
+    elementLabel: 'Elemento: {element}',
+    'element.water': 'Água',
+    'element.fire': 'Fogo',
+    'element.wood': 'Madeira',
+    'element.metal': 'Metal',
+    'element.earth': 'Terra',
+    doubledHexagram: 'Hexagrama Duplo',
+    hexagramLabel: 'Hexagrama {number}',
+    binary: 'Binário',
+  },
+};